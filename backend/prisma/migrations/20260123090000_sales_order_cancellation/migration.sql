@@ -0,0 +1,5 @@
+-- Add cancellation tracking fields to SalesOrder
+ALTER TABLE "SalesOrder" ADD COLUMN IF NOT EXISTS "cancelledAt" TIMESTAMP(3);
+ALTER TABLE "SalesOrder" ADD COLUMN IF NOT EXISTS "cancelledBy" TEXT;
+ALTER TABLE "SalesOrder" ADD COLUMN IF NOT EXISTS "cancelReason" TEXT;
+ALTER TABLE "SalesOrder" ADD COLUMN IF NOT EXISTS "cancelNote" TEXT;
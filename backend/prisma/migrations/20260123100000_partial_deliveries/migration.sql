@@ -0,0 +1,10 @@
+-- Partial deliveries / backorders for sales orders
+ALTER TYPE "SalesOrderStatus" ADD VALUE IF NOT EXISTS 'PARTIALLY_FULFILLED' BEFORE 'FULFILLED';
+
+ALTER TABLE "SalesOrderLine" ADD COLUMN IF NOT EXISTS "deliveredQuantity" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- Orders delivered before this change were always delivered in full
+UPDATE "SalesOrderLine" l
+SET "deliveredQuantity" = l."quantity"
+FROM "SalesOrder" o
+WHERE o."id" = l."salesOrderId" AND o."status" = 'FULFILLED';
@@ -0,0 +1,76 @@
+-- Customer returns (RMA) with credit notes and quarantine receipt
+
+ALTER TABLE "Location" ADD COLUMN IF NOT EXISTS "isQuarantine" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "SalesOrderLine" ADD COLUMN IF NOT EXISTS "returnedQuantity" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "SalesReturnReason" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "SalesReturnReason_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesReturn" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "numberYear" INTEGER NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "reasonId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "creditAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "SalesReturn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesReturnLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "salesReturnId" TEXT NOT NULL,
+    "salesOrderLineId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "batchId" TEXT,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "unitPrice" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SalesReturnLine_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "SalesReturnReason_tenantId_code_key" ON "SalesReturnReason"("tenantId", "code");
+CREATE INDEX "SalesReturnReason_tenantId_idx" ON "SalesReturnReason"("tenantId");
+
+CREATE UNIQUE INDEX "SalesReturn_tenantId_number_key" ON "SalesReturn"("tenantId", "number");
+CREATE INDEX "SalesReturn_tenantId_idx" ON "SalesReturn"("tenantId");
+CREATE INDEX "SalesReturn_salesOrderId_idx" ON "SalesReturn"("salesOrderId");
+CREATE INDEX "SalesReturn_customerId_idx" ON "SalesReturn"("customerId");
+
+CREATE INDEX "SalesReturnLine_tenantId_idx" ON "SalesReturnLine"("tenantId");
+CREATE INDEX "SalesReturnLine_salesReturnId_idx" ON "SalesReturnLine"("salesReturnId");
+CREATE INDEX "SalesReturnLine_salesOrderLineId_idx" ON "SalesReturnLine"("salesOrderLineId");
+
+-- FKs
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_reasonId_fkey" FOREIGN KEY ("reasonId") REFERENCES "SalesReturnReason"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesReturn" ADD CONSTRAINT "SalesReturn_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "SalesReturnLine" ADD CONSTRAINT "SalesReturnLine_salesReturnId_fkey" FOREIGN KEY ("salesReturnId") REFERENCES "SalesReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "SalesReturnLine" ADD CONSTRAINT "SalesReturnLine_salesOrderLineId_fkey" FOREIGN KEY ("salesOrderLineId") REFERENCES "SalesOrderLine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesReturnLine" ADD CONSTRAINT "SalesReturnLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesReturnLine" ADD CONSTRAINT "SalesReturnLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
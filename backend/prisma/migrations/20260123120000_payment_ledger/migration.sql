@@ -0,0 +1,57 @@
+-- Payment ledger: many payments (with receipt numbers) per sales order
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "numberYear" INTEGER NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "method" TEXT NOT NULL,
+    "reference" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+    "receivedBy" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "Payment_tenantId_number_key" ON "Payment"("tenantId", "number");
+CREATE INDEX "Payment_tenantId_idx" ON "Payment"("tenantId");
+CREATE INDEX "Payment_salesOrderId_idx" ON "Payment"("salesOrderId");
+CREATE INDEX "Payment_customerId_idx" ON "Payment"("customerId");
+CREATE INDEX "Payment_tenantId_receivedAt_idx" ON "Payment"("tenantId", "receivedAt");
+
+-- FKs
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: orders marked as paid before the ledger existed get a single payment for their net balance,
+-- so balances derived from the ledger stay at zero for them.
+INSERT INTO "Payment" ("id", "tenantId", "number", "numberYear", "salesOrderId", "customerId", "amount", "method", "reference", "receivedAt", "receivedBy", "note", "createdBy")
+SELECT
+  gen_random_uuid()::text,
+  so."tenantId",
+  'RC-' || so."number",
+  EXTRACT(YEAR FROM so."paidAt")::int,
+  so."id",
+  so."customerId",
+  GREATEST(
+    COALESCE((SELECT SUM(l."deliveredQuantity" * l."unitPrice") FROM "SalesOrderLine" l WHERE l."salesOrderId" = so."id"), 0)
+      - COALESCE((SELECT SUM(r."creditAmount") FROM "SalesReturn" r WHERE r."salesOrderId" = so."id"), 0),
+    0
+  ),
+  'CASH',
+  NULL,
+  so."paidAt",
+  COALESCE(so."paidBy", so."createdBy", 'system'),
+  'Pago registrado antes del libro de pagos',
+  so."paidBy"
+FROM "SalesOrder" so
+WHERE so."paidAt" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "Payment" p WHERE p."salesOrderId" = so."id");
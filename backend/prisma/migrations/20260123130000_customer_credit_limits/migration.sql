@@ -0,0 +1,4 @@
+-- Customer credit limits and overdue tolerance (credit hold on quote processing)
+
+ALTER TABLE "Customer" ADD COLUMN "creditLimit" DECIMAL(65,30);
+ALTER TABLE "Customer" ADD COLUMN "overdueToleranceDays" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,86 @@
+-- Payment terms catalogue (replaces free-form CREDIT_N strings) + per-customer allowed terms
+
+-- CreateTable
+CREATE TABLE "PaymentTerm" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "days" INTEGER NOT NULL DEFAULT 0,
+    "earlyPaymentDiscountPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "earlyPaymentDays" INTEGER NOT NULL DEFAULT 0,
+    "instalments" INTEGER NOT NULL DEFAULT 1,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "PaymentTerm_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "CustomerPaymentTerm" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "paymentTermId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "CustomerPaymentTerm_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "paymentTermId" TEXT;
+ALTER TABLE "SalesOrder" ADD COLUMN "paymentTermId" TEXT;
+ALTER TABLE "Payment" ADD COLUMN "discountAmount" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- Indexes
+CREATE UNIQUE INDEX "PaymentTerm_tenantId_code_key" ON "PaymentTerm"("tenantId", "code");
+CREATE INDEX "PaymentTerm_tenantId_idx" ON "PaymentTerm"("tenantId");
+CREATE UNIQUE INDEX "CustomerPaymentTerm_customerId_paymentTermId_key" ON "CustomerPaymentTerm"("customerId", "paymentTermId");
+CREATE INDEX "CustomerPaymentTerm_tenantId_idx" ON "CustomerPaymentTerm"("tenantId");
+CREATE INDEX "CustomerPaymentTerm_paymentTermId_idx" ON "CustomerPaymentTerm"("paymentTermId");
+
+-- FKs
+ALTER TABLE "CustomerPaymentTerm" ADD CONSTRAINT "CustomerPaymentTerm_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CustomerPaymentTerm" ADD CONSTRAINT "CustomerPaymentTerm_paymentTermId_fkey" FOREIGN KEY ("paymentTermId") REFERENCES "PaymentTerm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_paymentTermId_fkey" FOREIGN KEY ("paymentTermId") REFERENCES "PaymentTerm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "SalesOrder" ADD CONSTRAINT "SalesOrder_paymentTermId_fkey" FOREIGN KEY ("paymentTermId") REFERENCES "PaymentTerm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: default terms for every tenant
+INSERT INTO "PaymentTerm" ("id", "tenantId", "code", "name", "days", "updatedAt")
+SELECT gen_random_uuid()::text, t."id", d.code, d.name, d.days, CURRENT_TIMESTAMP
+FROM "Tenant" t
+CROSS JOIN (VALUES ('CASH', 'Contado', 0), ('CREDIT_7', 'Crédito 7 días', 7), ('CREDIT_14', 'Crédito 14 días', 14)) AS d(code, name, days)
+ON CONFLICT ("tenantId", "code") DO NOTHING;
+
+-- Backfill: any other CREDIT_N codes already used by quotes/orders
+INSERT INTO "PaymentTerm" ("id", "tenantId", "code", "name", "days", "updatedAt")
+SELECT gen_random_uuid()::text, x."tenantId", x.code, 'Crédito ' || substring(x.code FROM '^CREDIT_(\d{1,3})$') || ' días',
+       substring(x.code FROM '^CREDIT_(\d{1,3})$')::int, CURRENT_TIMESTAMP
+FROM (
+  SELECT DISTINCT "tenantId", upper(trim("paymentMode")) AS code FROM "Quote"
+  UNION
+  SELECT DISTINCT "tenantId", upper(trim("paymentMode")) AS code FROM "SalesOrder"
+) x
+WHERE x.code ~ '^CREDIT_\d{1,3}$'
+ON CONFLICT ("tenantId", "code") DO NOTHING;
+
+-- Backfill: link quotes/orders to their term by code
+UPDATE "Quote" q SET "paymentTermId" = pt."id"
+FROM "PaymentTerm" pt
+WHERE pt."tenantId" = q."tenantId" AND pt."code" = upper(trim(q."paymentMode")) AND q."paymentTermId" IS NULL;
+
+UPDATE "SalesOrder" so SET "paymentTermId" = pt."id"
+FROM "PaymentTerm" pt
+WHERE pt."tenantId" = so."tenantId" AND pt."code" = upper(trim(so."paymentMode")) AND so."paymentTermId" IS NULL;
+
+-- Backfill: legacy customer toggles become allowed terms
+INSERT INTO "CustomerPaymentTerm" ("id", "tenantId", "customerId", "paymentTermId")
+SELECT gen_random_uuid()::text, c."tenantId", c."id", pt."id"
+FROM "Customer" c
+JOIN "PaymentTerm" pt ON pt."tenantId" = c."tenantId"
+WHERE (c."creditDays7Enabled" AND pt."code" = 'CREDIT_7')
+   OR (c."creditDays14Enabled" AND pt."code" = 'CREDIT_14')
+ON CONFLICT ("customerId", "paymentTermId") DO NOTHING;
@@ -0,0 +1,43 @@
+-- Overdue payment reminders: history per order + per-tenant settings
+
+-- CreateTable
+CREATE TABLE "PaymentReminder" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "thresholdDays" INTEGER NOT NULL,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "daysOverdue" INTEGER NOT NULL,
+    "balance" DECIMAL(65,30) NOT NULL,
+    "notifiedUserIds" TEXT[],
+    "emailedTo" TEXT,
+    "emailError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentReminder_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "PaymentReminderSettings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "thresholdDays" INTEGER[] DEFAULT ARRAY[1, 15, 30, 60]::INTEGER[],
+    "emailCustomer" BOOLEAN NOT NULL DEFAULT false,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "PaymentReminderSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "PaymentReminder_salesOrderId_dueAt_level_key" ON "PaymentReminder"("salesOrderId", "dueAt", "level");
+CREATE INDEX "PaymentReminder_tenantId_idx" ON "PaymentReminder"("tenantId");
+CREATE INDEX "PaymentReminder_tenantId_createdAt_idx" ON "PaymentReminder"("tenantId", "createdAt");
+CREATE UNIQUE INDEX "PaymentReminderSettings_tenantId_key" ON "PaymentReminderSettings"("tenantId");
+
+-- FKs
+ALTER TABLE "PaymentReminder" ADD CONSTRAINT "PaymentReminder_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,104 @@
+-- Electronic invoicing (SIAT): issuer settings, branches with gapless counters, invoices
+
+-- CreateEnum
+CREATE TYPE "InvoiceSubmissionStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "InvoicingSettings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "nit" TEXT NOT NULL,
+    "businessName" TEXT NOT NULL,
+    "municipality" TEXT NOT NULL,
+    "address" TEXT,
+    "phone" TEXT,
+    "economicActivity" TEXT NOT NULL,
+    "productCodeSin" TEXT NOT NULL DEFAULT '99100',
+    "legend" TEXT NOT NULL,
+    "modality" INTEGER NOT NULL DEFAULT 1,
+    "environment" INTEGER NOT NULL DEFAULT 2,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "InvoicingSettings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "InvoiceBranch" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "branchCode" INTEGER NOT NULL,
+    "pointOfSale" INTEGER NOT NULL DEFAULT 0,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "cufd" TEXT,
+    "cufdControlCode" TEXT,
+    "cufdExpiresAt" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "InvoiceBranch_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "salesOrderId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "cuf" TEXT NOT NULL,
+    "cufd" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL,
+    "issuerNit" TEXT NOT NULL,
+    "issuerName" TEXT NOT NULL,
+    "customerDocNumber" TEXT NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "total" DECIMAL(65,30) NOT NULL,
+    "xml" TEXT NOT NULL,
+    "submissionStatus" "InvoiceSubmissionStatus" NOT NULL DEFAULT 'PENDING',
+    "submissionCode" TEXT,
+    "submissionMessage" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productCode" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "unitPrice" DECIMAL(65,30) NOT NULL,
+    "subtotal" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes
+CREATE UNIQUE INDEX "InvoicingSettings_tenantId_key" ON "InvoicingSettings"("tenantId");
+CREATE UNIQUE INDEX "InvoiceBranch_warehouseId_key" ON "InvoiceBranch"("warehouseId");
+CREATE UNIQUE INDEX "InvoiceBranch_tenantId_branchCode_pointOfSale_key" ON "InvoiceBranch"("tenantId", "branchCode", "pointOfSale");
+CREATE INDEX "InvoiceBranch_tenantId_idx" ON "InvoiceBranch"("tenantId");
+CREATE UNIQUE INDEX "Invoice_salesOrderId_key" ON "Invoice"("salesOrderId");
+CREATE UNIQUE INDEX "Invoice_branchId_number_key" ON "Invoice"("branchId", "number");
+CREATE UNIQUE INDEX "Invoice_tenantId_cuf_key" ON "Invoice"("tenantId", "cuf");
+CREATE INDEX "Invoice_tenantId_idx" ON "Invoice"("tenantId");
+CREATE INDEX "Invoice_tenantId_issuedAt_idx" ON "Invoice"("tenantId", "issuedAt");
+CREATE INDEX "InvoiceLine_tenantId_idx" ON "InvoiceLine"("tenantId");
+CREATE INDEX "InvoiceLine_invoiceId_idx" ON "InvoiceLine"("invoiceId");
+
+-- FKs
+ALTER TABLE "InvoiceBranch" ADD CONSTRAINT "InvoiceBranch_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "InvoiceBranch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
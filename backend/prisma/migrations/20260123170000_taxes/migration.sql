@@ -0,0 +1,34 @@
+-- Tax engine: tenant tax rates, product tax category and tax stored on quote/order lines.
+-- Existing quotes and orders keep zero tax (their amounts were recorded without tax).
+
+-- CreateEnum
+CREATE TYPE "TaxCategory" AS ENUM ('TAXED', 'EXEMPT');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'TAXED';
+
+ALTER TABLE "Quote" ADD COLUMN "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE "QuoteLine" ADD COLUMN "taxPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN "taxAmount" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+ALTER TABLE "SalesOrderLine" ADD COLUMN "taxPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN "taxAmount" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxSettings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "ivaPct" DECIMAL(65,30) NOT NULL DEFAULT 13,
+    "itPct" DECIMAL(65,30) NOT NULL DEFAULT 3,
+    "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "TaxSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxSettings_tenantId_key" ON "TaxSettings"("tenantId");
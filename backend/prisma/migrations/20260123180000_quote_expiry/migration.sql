@@ -0,0 +1,17 @@
+-- Quote lifecycle: expiry (validityDays), rejection and cancellation
+
+-- AlterEnum
+ALTER TYPE "QuoteStatus" ADD VALUE 'EXPIRED';
+ALTER TYPE "QuoteStatus" ADD VALUE 'REJECTED';
+ALTER TYPE "QuoteStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "pricedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "closedAt" TIMESTAMP(3),
+ADD COLUMN "closeReason" TEXT;
+
+-- Existing quotes were priced when they were last saved.
+UPDATE "Quote" SET "pricedAt" = "updatedAt";
+
+-- CreateIndex
+CREATE INDEX "Quote_tenantId_status_pricedAt_idx" ON "Quote"("tenantId", "status", "pricedAt");
@@ -0,0 +1,80 @@
+-- Quote revisions: immutable snapshots of each create / edit / re-price
+
+-- CreateEnum
+CREATE TYPE "QuoteRevisionSource" AS ENUM ('CREATE', 'EDIT', 'REPRICE');
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "QuoteRevision" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "source" "QuoteRevisionSource" NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "validityDays" INTEGER NOT NULL,
+    "paymentMode" TEXT NOT NULL,
+    "paymentTermId" TEXT,
+    "deliveryDays" INTEGER NOT NULL,
+    "globalDiscountPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT true,
+    "proposalValue" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "QuoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuoteRevisionLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "unitPrice" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "discountPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "taxPct" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "taxAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "QuoteRevisionLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteRevision_quoteId_revision_key" ON "QuoteRevision"("quoteId", "revision");
+
+-- CreateIndex
+CREATE INDEX "QuoteRevision_tenantId_idx" ON "QuoteRevision"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "QuoteRevisionLine_tenantId_idx" ON "QuoteRevisionLine"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "QuoteRevisionLine_revisionId_idx" ON "QuoteRevisionLine"("revisionId");
+
+-- CreateIndex
+CREATE INDEX "QuoteRevisionLine_productId_idx" ON "QuoteRevisionLine"("productId");
+
+-- AddForeignKey
+ALTER TABLE "QuoteRevision" ADD CONSTRAINT "QuoteRevision_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteRevisionLine" ADD CONSTRAINT "QuoteRevisionLine_revisionId_fkey" FOREIGN KEY ("revisionId") REFERENCES "QuoteRevision"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteRevisionLine" ADD CONSTRAINT "QuoteRevisionLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: the current state of each existing quote becomes its revision 1
+INSERT INTO "QuoteRevision" ("id", "tenantId", "quoteId", "revision", "source", "customerId", "validityDays", "paymentMode",
+  "paymentTermId", "deliveryDays", "globalDiscountPct", "pricesIncludeTax", "proposalValue", "note", "createdAt", "createdBy")
+SELECT gen_random_uuid()::text, q."tenantId", q."id", 1, 'CREATE', q."customerId", q."validityDays", q."paymentMode",
+  q."paymentTermId", q."deliveryDays", q."globalDiscountPct", q."pricesIncludeTax", q."proposalValue", q."note", q."updatedAt", q."createdBy"
+FROM "Quote" q;
+
+INSERT INTO "QuoteRevisionLine" ("id", "tenantId", "revisionId", "productId", "quantity", "unitPrice", "discountPct", "taxPct", "taxAmount")
+SELECT gen_random_uuid()::text, l."tenantId", r."id", l."productId", l."quantity", l."unitPrice", l."discountPct", l."taxPct", l."taxAmount"
+FROM "QuoteLine" l
+JOIN "QuoteRevision" r ON r."quoteId" = l."quoteId" AND r."revision" = 1;
@@ -0,0 +1,57 @@
+-- Discount approval workflow: per-role discount limits and quote approval trail
+
+-- AlterEnum
+ALTER TYPE "QuoteStatus" ADD VALUE 'PENDING_APPROVAL';
+
+-- CreateEnum
+CREATE TYPE "QuoteApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED');
+
+-- CreateTable
+CREATE TABLE "DiscountLimit" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "maxLineDiscountPct" DECIMAL(65,30) NOT NULL,
+    "maxGlobalDiscountPct" DECIMAL(65,30) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "DiscountLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuoteApproval" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "status" "QuoteApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "violations" JSONB NOT NULL,
+    "requestedBy" TEXT,
+    "decidedBy" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuoteApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DiscountLimit_roleId_key" ON "DiscountLimit"("roleId");
+
+-- CreateIndex
+CREATE INDEX "DiscountLimit_tenantId_idx" ON "DiscountLimit"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "QuoteApproval_tenantId_status_idx" ON "QuoteApproval"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "QuoteApproval_quoteId_idx" ON "QuoteApproval"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "DiscountLimit" ADD CONSTRAINT "DiscountLimit_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteApproval" ADD CONSTRAINT "QuoteApproval_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- Margin guardrail: tenant minimum margin for quote lines
+
+-- CreateTable
+CREATE TABLE "MarginSettings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "minMarginPct" DECIMAL(65,30) NOT NULL DEFAULT 10,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "MarginSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarginSettings_tenantId_key" ON "MarginSettings"("tenantId");
@@ -0,0 +1,73 @@
+-- Promotions: volume tiers and bonus units applied to quote lines
+
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENT_DISCOUNT', 'FIXED_DISCOUNT', 'BONUS_UNITS');
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PromotionType" NOT NULL,
+    "minQuantity" DECIMAL(65,30) NOT NULL DEFAULT 1,
+    "discountPct" DECIMAL(65,30),
+    "discountAmount" DECIMAL(65,30),
+    "bonusQuantity" DECIMAL(65,30),
+    "bonusProductId" TEXT,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromotionProduct" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+
+    CONSTRAINT "PromotionProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "QuoteLine" ADD COLUMN "promotionId" TEXT,
+ADD COLUMN "basePrice" DECIMAL(65,30),
+ADD COLUMN "isBonus" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "QuoteRevisionLine" ADD COLUMN "promotionId" TEXT,
+ADD COLUMN "isBonus" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Promotion_tenantId_code_key" ON "Promotion"("tenantId", "code");
+
+-- CreateIndex
+CREATE INDEX "Promotion_tenantId_isActive_idx" ON "Promotion"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromotionProduct_promotionId_productId_key" ON "PromotionProduct"("promotionId", "productId");
+
+-- CreateIndex
+CREATE INDEX "PromotionProduct_tenantId_productId_idx" ON "PromotionProduct"("tenantId", "productId");
+
+-- CreateIndex
+CREATE INDEX "QuoteLine_promotionId_idx" ON "QuoteLine"("promotionId");
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_bonusProductId_fkey" FOREIGN KEY ("bonusProductId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionProduct" ADD CONSTRAINT "PromotionProduct_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromotionProduct" ADD CONSTRAINT "PromotionProduct_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
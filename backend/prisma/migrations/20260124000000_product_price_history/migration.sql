@@ -0,0 +1,23 @@
+-- Product price and cost history
+
+-- CreateTable
+CREATE TABLE "ProductPriceHistory" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "oldPrice" DECIMAL(65,30),
+    "newPrice" DECIMAL(65,30),
+    "oldCost" DECIMAL(65,30),
+    "newCost" DECIMAL(65,30),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "ProductPriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductPriceHistory_tenantId_productId_effectiveFrom_idx" ON "ProductPriceHistory"("tenantId", "productId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "ProductPriceHistory" ADD CONSTRAINT "ProductPriceHistory_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
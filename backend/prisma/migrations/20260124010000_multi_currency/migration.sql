@@ -0,0 +1,32 @@
+-- Multi-currency quotes and orders with a per-tenant exchange-rate table
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_tenantId_currency_effectiveDate_key" ON "ExchangeRate"("tenantId", "currency", "effectiveDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_tenantId_currency_idx" ON "ExchangeRate"("tenantId", "currency");
+
+-- AlterTable
+ALTER TABLE "Quote" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'BOB',
+ADD COLUMN "exchangeRate" DECIMAL(65,30) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "SalesOrder" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'BOB',
+ADD COLUMN "exchangeRate" DECIMAL(65,30) NOT NULL DEFAULT 1;
+
+-- Existing documents are in the tenant currency
+UPDATE "Quote" q SET "currency" = t."currency" FROM "Tenant" t WHERE t."id" = q."tenantId";
+UPDATE "SalesOrder" so SET "currency" = t."currency" FROM "Tenant" t WHERE t."id" = so."tenantId";
@@ -0,0 +1,56 @@
+-- Cross-city order fulfillment: transfer plans linked to stock movement requests
+
+-- AlterTable
+ALTER TABLE "Warehouse" ADD COLUMN "transferLeadDays" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "StockMovementRequest" ADD COLUMN "salesOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "StockTransferPlanLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "salesOrderLineId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "batchId" TEXT,
+    "fromLocationId" TEXT NOT NULL,
+    "fromCity" TEXT NOT NULL,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "shippedQuantity" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "expectedArrivalAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockTransferPlanLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovementRequest_salesOrderId_idx" ON "StockMovementRequest"("salesOrderId");
+
+-- CreateIndex
+CREATE INDEX "StockTransferPlanLine_tenantId_idx" ON "StockTransferPlanLine"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "StockTransferPlanLine_requestId_idx" ON "StockTransferPlanLine"("requestId");
+
+-- CreateIndex
+CREATE INDEX "StockTransferPlanLine_salesOrderLineId_idx" ON "StockTransferPlanLine"("salesOrderLineId");
+
+-- CreateIndex
+CREATE INDEX "StockTransferPlanLine_tenantId_productId_fromLocationId_idx" ON "StockTransferPlanLine"("tenantId", "productId", "fromLocationId");
+
+-- AddForeignKey
+ALTER TABLE "StockMovementRequest" ADD CONSTRAINT "StockMovementRequest_salesOrderId_fkey" FOREIGN KEY ("salesOrderId") REFERENCES "SalesOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferPlanLine" ADD CONSTRAINT "StockTransferPlanLine_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "StockMovementRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferPlanLine" ADD CONSTRAINT "StockTransferPlanLine_salesOrderLineId_fkey" FOREIGN KEY ("salesOrderLineId") REFERENCES "SalesOrderLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferPlanLine" ADD CONSTRAINT "StockTransferPlanLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockTransferPlanLine" ADD CONSTRAINT "StockTransferPlanLine_fromLocationId_fkey" FOREIGN KEY ("fromLocationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,107 @@
+-- Physical inventory count sessions with variance posting
+
+-- CreateEnum
+CREATE TYPE "InventoryCountStatus" AS ENUM ('OPEN', 'SUBMITTED', 'APPROVED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "InventoryCount" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "numberYear" INTEGER NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "status" "InventoryCountStatus" NOT NULL DEFAULT 'OPEN',
+    "blind" BOOLEAN NOT NULL DEFAULT false,
+    "freezeMovements" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "submittedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "approvedBy" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledBy" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT,
+
+    CONSTRAINT "InventoryCount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryCountLocation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "countId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+
+    CONSTRAINT "InventoryCountLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InventoryCountLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "countId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "batchId" TEXT,
+    "systemQuantity" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "countedQuantity" DECIMAL(65,30),
+    "countedAt" TIMESTAMP(3),
+    "countedBy" TEXT,
+    "note" TEXT,
+    "movementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryCountLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCount_tenantId_number_key" ON "InventoryCount"("tenantId", "number");
+
+-- CreateIndex
+CREATE INDEX "InventoryCount_tenantId_idx" ON "InventoryCount"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "InventoryCount_tenantId_status_idx" ON "InventoryCount"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "InventoryCount_warehouseId_idx" ON "InventoryCount"("warehouseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCountLocation_countId_locationId_key" ON "InventoryCountLocation"("countId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "InventoryCountLocation_tenantId_locationId_idx" ON "InventoryCountLocation"("tenantId", "locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryCountLine_countId_locationId_productId_batchId_key" ON "InventoryCountLine"("countId", "locationId", "productId", "batchId");
+
+-- CreateIndex
+CREATE INDEX "InventoryCountLine_tenantId_idx" ON "InventoryCountLine"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "InventoryCountLine_countId_idx" ON "InventoryCountLine"("countId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryCount" ADD CONSTRAINT "InventoryCount_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLocation" ADD CONSTRAINT "InventoryCountLocation_countId_fkey" FOREIGN KEY ("countId") REFERENCES "InventoryCount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLocation" ADD CONSTRAINT "InventoryCountLocation_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLine" ADD CONSTRAINT "InventoryCountLine_countId_fkey" FOREIGN KEY ("countId") REFERENCES "InventoryCount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLine" ADD CONSTRAINT "InventoryCountLine_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLine" ADD CONSTRAINT "InventoryCountLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryCountLine" ADD CONSTRAINT "InventoryCountLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,82 @@
+-- Cycle counting plan based on ABC classification
+
+-- CreateEnum
+CREATE TYPE "AbcClass" AS ENUM ('A', 'B', 'C');
+
+-- CreateEnum
+CREATE TYPE "CycleCountTaskStatus" AS ENUM ('PENDING', 'REVIEW', 'DONE', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "abcClass" "AbcClass",
+ADD COLUMN "abcClassManual" "AbcClass",
+ADD COLUMN "abcSalesValue" DECIMAL(65,30),
+ADD COLUMN "abcClassifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CycleCountTask" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "warehouseId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "abcClass" "AbcClass" NOT NULL,
+    "status" "CycleCountTaskStatus" NOT NULL DEFAULT 'PENDING',
+    "accurate" BOOLEAN,
+    "countedAt" TIMESTAMP(3),
+    "countedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CycleCountTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CycleCountTaskLine" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "batchId" TEXT,
+    "systemQuantity" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "countedQuantity" DECIMAL(65,30) NOT NULL,
+    "movementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CycleCountTaskLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CycleCountTask_tenantId_scheduledFor_locationId_productId_key" ON "CycleCountTask"("tenantId", "scheduledFor", "locationId", "productId");
+
+-- CreateIndex
+CREATE INDEX "CycleCountTask_tenantId_status_idx" ON "CycleCountTask"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "CycleCountTask_tenantId_countedAt_idx" ON "CycleCountTask"("tenantId", "countedAt");
+
+-- CreateIndex
+CREATE INDEX "CycleCountTask_locationId_productId_idx" ON "CycleCountTask"("locationId", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CycleCountTaskLine_taskId_batchId_key" ON "CycleCountTaskLine"("taskId", "batchId");
+
+-- CreateIndex
+CREATE INDEX "CycleCountTaskLine_tenantId_idx" ON "CycleCountTaskLine"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "CycleCountTask" ADD CONSTRAINT "CycleCountTask_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CycleCountTask" ADD CONSTRAINT "CycleCountTask_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CycleCountTask" ADD CONSTRAINT "CycleCountTask_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CycleCountTaskLine" ADD CONSTRAINT "CycleCountTaskLine_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "CycleCountTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CycleCountTaskLine" ADD CONSTRAINT "CycleCountTaskLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
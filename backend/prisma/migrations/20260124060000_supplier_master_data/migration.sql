@@ -0,0 +1,70 @@
+-- Supplier contacts, lead time and payment terms; product-supplier link; batch origin
+
+-- AlterTable
+ALTER TABLE "Supplier" ADD COLUMN "leadTimeDays" INTEGER,
+ADD COLUMN "paymentTermDays" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Batch" ADD COLUMN "supplierId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SupplierContact" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SupplierContact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductSupplier" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "supplierSku" TEXT,
+    "isPreferred" BOOLEAN NOT NULL DEFAULT false,
+    "lastPurchasePrice" DECIMAL(65,30),
+    "lastPurchasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductSupplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Batch_supplierId_idx" ON "Batch"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "SupplierContact_tenantId_idx" ON "SupplierContact"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "SupplierContact_supplierId_idx" ON "SupplierContact"("supplierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductSupplier_tenantId_productId_supplierId_key" ON "ProductSupplier"("tenantId", "productId", "supplierId");
+
+-- CreateIndex
+CREATE INDEX "ProductSupplier_tenantId_idx" ON "ProductSupplier"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "ProductSupplier_supplierId_idx" ON "ProductSupplier"("supplierId");
+
+-- AddForeignKey
+ALTER TABLE "Batch" ADD CONSTRAINT "Batch_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SupplierContact" ADD CONSTRAINT "SupplierContact_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductSupplier" ADD CONSTRAINT "ProductSupplier_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductSupplier" ADD CONSTRAINT "ProductSupplier_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE CASCADE ON UPDATE CASCADE;
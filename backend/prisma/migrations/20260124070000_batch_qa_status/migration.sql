@@ -0,0 +1,16 @@
+-- Batch quality status lifecycle with reason codes
+
+-- CreateEnum
+CREATE TYPE "BatchStatus" AS ENUM ('QUARANTINE', 'RELEASED', 'REJECTED', 'BLOCKED', 'RECALLED');
+
+-- Free-form statuses outside the lifecycle were never sellable: keep them on hold for QA review.
+UPDATE "Batch" SET "status" = 'BLOCKED' WHERE "status" NOT IN ('QUARANTINE', 'RELEASED', 'REJECTED', 'BLOCKED', 'RECALLED');
+
+-- AlterTable
+ALTER TABLE "Batch" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Batch" ALTER COLUMN "status" TYPE "BatchStatus" USING ("status"::"BatchStatus");
+ALTER TABLE "Batch" ALTER COLUMN "status" SET DEFAULT 'QUARANTINE';
+ALTER TABLE "Batch" ADD COLUMN "statusReasonCode" TEXT,
+ADD COLUMN "statusNote" TEXT,
+ADD COLUMN "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN "statusChangedBy" TEXT;
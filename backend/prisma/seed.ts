@@ -156,11 +156,21 @@ async function main() {
     { code: Permissions.StockRead, module: 'WAREHOUSE' },
     { code: Permissions.StockManage, module: 'WAREHOUSE' },
     { code: Permissions.StockMove, module: 'WAREHOUSE' },
+    { code: Permissions.StockCountApprove, module: 'WAREHOUSE' },
+    { code: Permissions.StockQaRelease, module: 'WAREHOUSE' },
+    { code: Permissions.PurchaseRead, module: 'WAREHOUSE' },
+    { code: Permissions.PurchaseWrite, module: 'WAREHOUSE' },
+    { code: Permissions.PurchaseReceive, module: 'WAREHOUSE' },
     { code: Permissions.AuditRead, module: 'WAREHOUSE' },
     { code: Permissions.SalesOrderRead, module: 'SALES' },
     { code: Permissions.SalesOrderWrite, module: 'SALES' },
     { code: Permissions.SalesDeliveryRead, module: 'SALES' },
     { code: Permissions.SalesDeliveryWrite, module: 'SALES' },
+    { code: Permissions.SalesCreditOverride, module: 'SALES' },
+    { code: Permissions.SalesCollectionsManage, module: 'SALES' },
+    { code: Permissions.SalesInvoiceWrite, module: 'SALES' },
+    { code: Permissions.SalesDiscountApprove, module: 'SALES' },
+    { code: Permissions.SalesMarginOverride, module: 'SALES' },
     { code: Permissions.ReportSalesRead, module: 'SALES' },
     { code: Permissions.ReportStockRead, module: 'WAREHOUSE' },
     { code: Permissions.AdminUsersManage, module: 'SALES' },
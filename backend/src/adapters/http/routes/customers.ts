@@ -5,6 +5,7 @@ import { prisma } from '../../db/prisma.js'
 import { AuditService } from '../../../application/audit/auditService.js'
 import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
+import { computeCustomerCreditStatus } from '../../../application/sales/creditService.js'
 
 async function findDuplicateCustomerByNit(db: ReturnType<typeof prisma>, tenantId: string, nit: string, excludeId?: string) {
   const cleanNit = nit.trim()
@@ -40,6 +41,67 @@ async function findDuplicateCustomerByName(db: ReturnType<typeof prisma>, tenant
   return rows?.[0] ?? null
 }
 
+// Terms enabled for the customer, flattened from the CustomerPaymentTerm join rows in responses.
+const customerPaymentTermsSelect = {
+  select: { paymentTerm: { select: { id: true, code: true, name: true, days: true, isActive: true } } },
+  orderBy: { createdAt: 'asc' as const },
+}
+
+const customerPriceListSelect = { select: { id: true, code: true, name: true } }
+
+function withPaymentTerms<T extends { paymentTerms: Array<{ paymentTerm: any }> }>(customer: T) {
+  return { ...customer, paymentTerms: customer.paymentTerms.map((t) => t.paymentTerm) }
+}
+
+// Replaces the customer's enabled terms. Legacy 7/14-day flags are kept in sync for older clients.
+async function setCustomerPaymentTermsTx(
+  tx: any,
+  args: { tenantId: string; customerId: string; userId: string; paymentTermIds: string[] },
+): Promise<{ creditDays7Enabled: boolean; creditDays14Enabled: boolean }> {
+  const ids = Array.from(new Set(args.paymentTermIds))
+  const terms = ids.length
+    ? await tx.paymentTerm.findMany({ where: { tenantId: args.tenantId, id: { in: ids } }, select: { id: true, code: true } })
+    : []
+  if (terms.length !== ids.length) {
+    const err = new Error('Payment term not found') as Error & { statusCode?: number }
+    err.statusCode = 400
+    throw err
+  }
+
+  await tx.customerPaymentTerm.deleteMany({ where: { tenantId: args.tenantId, customerId: args.customerId, paymentTermId: { notIn: ids } } })
+  for (const t of terms) {
+    await tx.customerPaymentTerm.upsert({
+      where: { customerId_paymentTermId: { customerId: args.customerId, paymentTermId: t.id } },
+      update: {},
+      create: { tenantId: args.tenantId, customerId: args.customerId, paymentTermId: t.id, createdBy: args.userId },
+    })
+  }
+
+  const codes = new Set(terms.map((t: any) => t.code))
+  return { creditDays7Enabled: codes.has('CREDIT_7'), creditDays14Enabled: codes.has('CREDIT_14') }
+}
+
+// Translates the legacy 7/14-day flags into term ids, on top of the currently enabled terms.
+async function paymentTermIdsFromLegacyFlags(
+  db: any,
+  args: { tenantId: string; customerId: string | null; creditDays7Enabled?: boolean | undefined; creditDays14Enabled?: boolean | undefined },
+): Promise<string[]> {
+  const current = args.customerId
+    ? await db.customerPaymentTerm.findMany({ where: { tenantId: args.tenantId, customerId: args.customerId }, select: { paymentTermId: true } })
+    : []
+  const ids = new Set<string>(current.map((c: any) => c.paymentTermId))
+  const legacy = await db.paymentTerm.findMany({
+    where: { tenantId: args.tenantId, code: { in: ['CREDIT_7', 'CREDIT_14'] } },
+    select: { id: true, code: true },
+  })
+  for (const t of legacy) {
+    const flag = t.code === 'CREDIT_7' ? args.creditDays7Enabled : args.creditDays14Enabled
+    if (flag === true) ids.add(t.id)
+    if (flag === false) ids.delete(t.id)
+  }
+  return Array.from(ids)
+}
+
 const customerCreateSchema = z.object({
   name: z.string().trim().min(1).max(200),
   businessName: z.string().trim().max(200).optional(),
@@ -54,8 +116,13 @@ const customerCreateSchema = z.object({
   city: z.string().trim().min(1).max(120).optional(),
   zone: z.string().trim().min(1).max(120).optional(),
   mapsUrl: z.string().trim().url().max(500).optional(),
+  // Legacy flags; prefer paymentTermIds.
   creditDays7Enabled: z.boolean().optional(),
   creditDays14Enabled: z.boolean().optional(),
+  paymentTermIds: z.array(z.string().uuid()).max(50).optional(),
+  creditLimit: z.number().min(0).optional(),
+  overdueToleranceDays: z.number().int().min(0).max(365).optional(),
+  priceListId: z.string().uuid().optional(),
 })
 
 const customerUpdateSchema = z.object({
@@ -74,8 +141,13 @@ const customerUpdateSchema = z.object({
   city: z.string().trim().min(1).max(120).nullable().optional(),
   zone: z.string().trim().min(1).max(120).nullable().optional(),
   mapsUrl: z.string().trim().url().max(500).nullable().optional(),
+  // Legacy flags; prefer paymentTermIds.
   creditDays7Enabled: z.boolean().optional(),
   creditDays14Enabled: z.boolean().optional(),
+  paymentTermIds: z.array(z.string().uuid()).max(50).optional(),
+  creditLimit: z.number().min(0).nullable().optional(),
+  overdueToleranceDays: z.number().int().min(0).max(365).optional(),
+  priceListId: z.string().uuid().nullable().optional(),
 })
 
 const listQuerySchema = z.object({
@@ -131,6 +203,12 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
       const parsed = customerCreateSchema.safeParse(request.body)
       if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
 
+      // Credit settings are a finance control: only credit-override users may set them.
+      const setsCredit = parsed.data.creditLimit !== undefined || parsed.data.overdueToleranceDays !== undefined
+      if (setsCredit && !request.auth!.permissions.has(Permissions.SalesCreditOverride)) {
+        return reply.status(403).send({ message: 'Forbidden' })
+      }
+
       const tenantId = request.auth!.tenantId
       const userId = request.auth!.userId
 
@@ -141,48 +219,74 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
       }
       const dupName = await findDuplicateCustomerByName(db, tenantId, parsed.data.name)
       if (dupName) return reply.status(409).send({ message: 'Cliente duplicado: ya existe un cliente con el mismo nombre.' })
+      if (parsed.data.priceListId && !(await db.priceList.findFirst({ where: { id: parsed.data.priceListId, tenantId }, select: { id: true } }))) {
+        return reply.status(400).send({ message: 'Price list not found' })
+      }
 
-      const created = await db.customer.create({
-        data: {
+      const paymentTermIds =
+        parsed.data.paymentTermIds ??
+        (await paymentTermIdsFromLegacyFlags(db, {
           tenantId,
-          name: parsed.data.name,
-          businessName: parsed.data.businessName ?? null,
-          nit: parsed.data.nit ?? null,
-          contactName: parsed.data.contactName ?? null,
-          contactBirthDay: parsed.data.contactBirthDay ?? null,
-          contactBirthMonth: parsed.data.contactBirthMonth ?? null,
-          contactBirthYear: parsed.data.contactBirthYear ?? null,
-          email: parsed.data.email ?? null,
-          phone: parsed.data.phone ?? null,
-          address: parsed.data.address ?? null,
-          city: parsed.data.city ? parsed.data.city.toUpperCase() : null,
-          zone: parsed.data.zone ? parsed.data.zone.toUpperCase() : null,
-          mapsUrl: parsed.data.mapsUrl ?? null,
-          creditDays7Enabled: parsed.data.creditDays7Enabled ?? false,
-          creditDays14Enabled: parsed.data.creditDays14Enabled ?? false,
-          createdBy: userId,
-        },
-        select: {
-          id: true,
-          name: true,
-          businessName: true,
-          nit: true,
-          contactName: true,
-          contactBirthDay: true,
-          contactBirthMonth: true,
-          contactBirthYear: true,
-          email: true,
-          phone: true,
-          address: true,
-          city: true,
-          zone: true,
-          mapsUrl: true,
-          isActive: true,
-          creditDays7Enabled: true,
-          creditDays14Enabled: true,
-          version: true,
-          createdAt: true,
-        },
+          customerId: null,
+          creditDays7Enabled: parsed.data.creditDays7Enabled,
+          creditDays14Enabled: parsed.data.creditDays14Enabled,
+        }))
+
+      const created = await db.$transaction(async (tx) => {
+        const customer = await tx.customer.create({
+          data: {
+            tenantId,
+            name: parsed.data.name,
+            businessName: parsed.data.businessName ?? null,
+            nit: parsed.data.nit ?? null,
+            contactName: parsed.data.contactName ?? null,
+            contactBirthDay: parsed.data.contactBirthDay ?? null,
+            contactBirthMonth: parsed.data.contactBirthMonth ?? null,
+            contactBirthYear: parsed.data.contactBirthYear ?? null,
+            email: parsed.data.email ?? null,
+            phone: parsed.data.phone ?? null,
+            address: parsed.data.address ?? null,
+            city: parsed.data.city ? parsed.data.city.toUpperCase() : null,
+            zone: parsed.data.zone ? parsed.data.zone.toUpperCase() : null,
+            mapsUrl: parsed.data.mapsUrl ?? null,
+            creditLimit: parsed.data.creditLimit !== undefined ? parsed.data.creditLimit.toString() : null,
+            overdueToleranceDays: parsed.data.overdueToleranceDays ?? 0,
+            priceListId: parsed.data.priceListId ?? null,
+            createdBy: userId,
+          },
+          select: { id: true },
+        })
+        const flags = await setCustomerPaymentTermsTx(tx, { tenantId, customerId: customer.id, userId, paymentTermIds })
+        return tx.customer.update({
+          where: { id: customer.id },
+          data: flags,
+          select: {
+            id: true,
+            name: true,
+            businessName: true,
+            nit: true,
+            contactName: true,
+            contactBirthDay: true,
+            contactBirthMonth: true,
+            contactBirthYear: true,
+            email: true,
+            phone: true,
+            address: true,
+            city: true,
+            zone: true,
+            mapsUrl: true,
+            isActive: true,
+            creditDays7Enabled: true,
+            creditDays14Enabled: true,
+            creditLimit: true,
+            overdueToleranceDays: true,
+            priceListId: true,
+            priceList: customerPriceListSelect,
+            paymentTerms: customerPaymentTermsSelect,
+            version: true,
+            createdAt: true,
+          },
+        })
       })
 
       await audit.append({
@@ -194,7 +298,7 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
         after: created,
       })
 
-      return reply.status(201).send(created)
+      return reply.status(201).send(withPaymentTerms(created))
     },
   )
 
@@ -241,13 +345,18 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
           mapsUrl: true,
           creditDays7Enabled: true,
           creditDays14Enabled: true,
+          creditLimit: true,
+          overdueToleranceDays: true,
+          priceListId: true,
+          priceList: customerPriceListSelect,
+          paymentTerms: customerPaymentTermsSelect,
           version: true,
           updatedAt: true,
         },
       })
 
       const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
-      return reply.send({ items, nextCursor })
+      return reply.send({ items: items.map(withPaymentTerms), nextCursor })
     },
   )
 
@@ -280,13 +389,41 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
           isActive: true,
           creditDays7Enabled: true,
           creditDays14Enabled: true,
+          creditLimit: true,
+          overdueToleranceDays: true,
+          priceListId: true,
+          priceList: customerPriceListSelect,
+          paymentTerms: customerPaymentTermsSelect,
           version: true,
           updatedAt: true,
         },
       })
 
       if (!customer) return reply.status(404).send({ message: 'Not found' })
-      return reply.send(customer)
+      return reply.send(withPaymentTerms(customer))
+    },
+  )
+
+  // Credit exposure and hold status (same rule applied when processing credit quotes).
+  app.get(
+    '/api/v1/customers/:id/credit',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const query = z.object({ orderAmount: z.coerce.number().min(0).optional() }).safeParse(request.query)
+      if (!query.success) return reply.status(400).send({ message: 'Invalid query', issues: query.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const status = await computeCustomerCreditStatus(db, {
+        tenantId,
+        customerId: id,
+        ...(query.data.orderAmount !== undefined ? { orderAmount: query.data.orderAmount } : {}),
+      })
+      if (!status) return reply.status(404).send({ message: 'Not found' })
+
+      return reply.send({ ...status, onHold: status.reasons.length > 0 })
     },
   )
 
@@ -323,12 +460,22 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
           isActive: true,
           creditDays7Enabled: true,
           creditDays14Enabled: true,
+          creditLimit: true,
+          overdueToleranceDays: true,
+          priceListId: true,
+          priceList: customerPriceListSelect,
+          paymentTerms: customerPaymentTermsSelect,
           version: true,
         },
       })
       if (!before) return reply.status(404).send({ message: 'Not found' })
       if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
 
+      const changesCredit = parsed.data.creditLimit !== undefined || parsed.data.overdueToleranceDays !== undefined
+      if (changesCredit && !request.auth!.permissions.has(Permissions.SalesCreditOverride)) {
+        return reply.status(403).send({ message: 'Forbidden' })
+      }
+
       // Prevent duplicates when changing identifying fields
       if (parsed.data.nit !== undefined && parsed.data.nit !== null) {
         const dupNit = await findDuplicateCustomerByNit(db, tenantId, parsed.data.nit, id)
@@ -338,6 +485,9 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
         const dupName = await findDuplicateCustomerByName(db, tenantId, parsed.data.name, id)
         if (dupName) return reply.status(409).send({ message: 'Cliente duplicado: ya existe otro cliente con el mismo nombre.' })
       }
+      if (parsed.data.priceListId && !(await db.priceList.findFirst({ where: { id: parsed.data.priceListId, tenantId }, select: { id: true } }))) {
+        return reply.status(400).send({ message: 'Price list not found' })
+      }
 
       const updateData: any = {
         version: { increment: 1 },
@@ -357,33 +507,58 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
       if (parsed.data.city !== undefined) updateData.city = parsed.data.city ? parsed.data.city.toUpperCase() : null
       if (parsed.data.zone !== undefined) updateData.zone = parsed.data.zone ? parsed.data.zone.toUpperCase() : null
       if (parsed.data.mapsUrl !== undefined) updateData.mapsUrl = parsed.data.mapsUrl
-      if (parsed.data.creditDays7Enabled !== undefined) updateData.creditDays7Enabled = parsed.data.creditDays7Enabled
-      if (parsed.data.creditDays14Enabled !== undefined) updateData.creditDays14Enabled = parsed.data.creditDays14Enabled
-
-      const updated = await db.customer.update({
-        where: { id },
-        data: updateData,
-        select: {
-          id: true,
-          name: true,
-          businessName: true,
-          nit: true,
-          contactName: true,
-          contactBirthDay: true,
-          contactBirthMonth: true,
-          contactBirthYear: true,
-          email: true,
-          phone: true,
-          address: true,
-          city: true,
-          zone: true,
-          mapsUrl: true,
-          isActive: true,
-          creditDays7Enabled: true,
-          creditDays14Enabled: true,
-          version: true,
-          updatedAt: true,
-        },
+      if (parsed.data.creditLimit !== undefined) updateData.creditLimit = parsed.data.creditLimit === null ? null : parsed.data.creditLimit.toString()
+      if (parsed.data.overdueToleranceDays !== undefined) updateData.overdueToleranceDays = parsed.data.overdueToleranceDays
+      if (parsed.data.priceListId !== undefined) updateData.priceListId = parsed.data.priceListId
+
+      const changesTerms =
+        parsed.data.paymentTermIds !== undefined ||
+        parsed.data.creditDays7Enabled !== undefined ||
+        parsed.data.creditDays14Enabled !== undefined
+      const paymentTermIds = changesTerms
+        ? parsed.data.paymentTermIds ??
+          (await paymentTermIdsFromLegacyFlags(db, {
+            tenantId,
+            customerId: id,
+            creditDays7Enabled: parsed.data.creditDays7Enabled,
+            creditDays14Enabled: parsed.data.creditDays14Enabled,
+          }))
+        : null
+
+      const updated = await db.$transaction(async (tx) => {
+        if (paymentTermIds) {
+          Object.assign(updateData, await setCustomerPaymentTermsTx(tx, { tenantId, customerId: id, userId, paymentTermIds }))
+        }
+        return tx.customer.update({
+          where: { id },
+          data: updateData,
+          select: {
+            id: true,
+            name: true,
+            businessName: true,
+            nit: true,
+            contactName: true,
+            contactBirthDay: true,
+            contactBirthMonth: true,
+            contactBirthYear: true,
+            email: true,
+            phone: true,
+            address: true,
+            city: true,
+            zone: true,
+            mapsUrl: true,
+            isActive: true,
+            creditDays7Enabled: true,
+            creditDays14Enabled: true,
+            creditLimit: true,
+            overdueToleranceDays: true,
+            priceListId: true,
+            priceList: customerPriceListSelect,
+            paymentTerms: customerPaymentTermsSelect,
+            version: true,
+            updatedAt: true,
+          },
+        })
       })
 
       await audit.append({
@@ -392,11 +567,11 @@ export async function registerCustomerRoutes(app: FastifyInstance): Promise<void
         action: 'customer.update',
         entityType: 'Customer',
         entityId: id,
-        before,
-        after: updated,
+        before: withPaymentTerms(before),
+        after: withPaymentTerms(updated),
       })
 
-      return reply.send(updated)
+      return reply.send(withPaymentTerms(updated))
     },
   )
 }
@@ -7,6 +7,7 @@ import { prisma } from '../../db/prisma.js'
 import { requireAuth, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
 import { AuditService } from '../../../application/audit/auditService.js'
+import { ensureDefaultPaymentTerms } from '../../../application/sales/paymentTerms.js'
 
 const uuidLike = z
   .string()
@@ -291,10 +292,20 @@ export async function registerPlatformRoutes(app: FastifyInstance): Promise<void
           Permissions.StockRead,
           Permissions.StockManage,
           Permissions.StockMove,
+          Permissions.StockCountApprove,
+          Permissions.StockQaRelease,
+          Permissions.PurchaseRead,
+          Permissions.PurchaseWrite,
+          Permissions.PurchaseReceive,
           Permissions.SalesOrderRead,
           Permissions.SalesOrderWrite,
           Permissions.SalesDeliveryRead,
           Permissions.SalesDeliveryWrite,
+          Permissions.SalesCreditOverride,
+          Permissions.SalesCollectionsManage,
+          Permissions.SalesInvoiceWrite,
+          Permissions.SalesDiscountApprove,
+          Permissions.SalesMarginOverride,
           Permissions.ReportSalesRead,
           Permissions.ReportStockRead,
           Permissions.AdminUsersManage,
@@ -405,6 +416,8 @@ export async function registerPlatformRoutes(app: FastifyInstance): Promise<void
           })
         }
 
+        await ensureDefaultPaymentTerms(tx, t.id)
+
         if (primaryDomain) {
           await tx.tenantDomain.create({
             data: {
@@ -9,7 +9,9 @@ import { requireAuth, requirePermission } from '../../../application/security/rb
 import { Permissions } from '../../../application/security/permissions.js'
 import { getEnv } from '../../../shared/env.js'
 import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import { BATCH_STATUS_REASON_CODES, BATCH_STATUS_TRANSITIONS, canTransitionBatchStatus } from '../../../application/stock/batchStatus.js'
 import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { productPricingAt, recordProductPriceChangeTx } from '../../../application/catalog/priceHistory.js'
 
 const productCreateSchema = z
   .object({
@@ -25,6 +27,8 @@ const productCreateSchema = z
   presentationFormat: z.string().trim().min(1).max(64).optional(),
   cost: z.coerce.number().positive().optional(),
   price: z.coerce.number().positive().optional(),
+  // EXEMPT products carry no IVA on quotes and orders.
+  taxCategory: z.enum(['TAXED', 'EXEMPT']).optional(),
   })
   .superRefine((v, ctx) => {
     const commercial = (v.commercialName ?? v.name ?? '').trim()
@@ -48,6 +52,7 @@ const productUpdateSchema = z.object({
   photoKey: z.string().trim().min(1).max(800).nullable().optional(),
   cost: z.coerce.number().positive().nullable().optional(),
   price: z.coerce.number().positive().nullable().optional(),
+  taxCategory: z.enum(['TAXED', 'EXEMPT']).optional(),
   isActive: z.boolean().optional(),
 })
 
@@ -56,11 +61,17 @@ const listQuerySchema = z.object({
   cursor: z.string().uuid().optional(),
 })
 
+const priceAtQuerySchema = z.object({
+  at: z.coerce.date(),
+})
+
 const batchCreateSchema = z.object({
   batchNumber: z.string().trim().min(1).max(80).optional(),
   manufacturingDate: z.string().datetime().optional(),
   expiresAt: z.string().datetime().optional(),
-  status: z.string().trim().min(1).max(32).optional(),
+  // New batches wait in QUARANTINE for QA; creating one already RELEASED requires stock:qa:release.
+  status: z.enum(['QUARANTINE', 'RELEASED']).default('QUARANTINE'),
+  supplierId: z.string().uuid().optional(),
   initialStock: z
     .object({
       // New preferred input: choose only warehouse; backend resolves an active location.
@@ -83,10 +94,21 @@ const batchCreateSchema = z.object({
     .optional(),
 })
 
-const batchUpdateStatusSchema = z.object({
-  status: z.enum(['RELEASED', 'QUARANTINE']),
-  version: z.number().int().min(1),
-})
+const batchUpdateStatusSchema = z
+  .object({
+    status: z.enum(['RELEASED', 'REJECTED', 'BLOCKED', 'RECALLED']),
+    reasonCode: z.string().trim().min(1).max(40),
+    note: z.string().trim().max(500).optional(),
+    version: z.number().int().min(1),
+  })
+  .superRefine((v, ctx) => {
+    if (!BATCH_STATUS_REASON_CODES[v.status].includes(v.reasonCode)) {
+      ctx.addIssue({ code: 'custom', path: ['reasonCode'], message: `Invalid reason code for ${v.status}` })
+    }
+    if (v.reasonCode === 'OTHER' && !v.note) {
+      ctx.addIssue({ code: 'custom', path: ['note'], message: 'note is required for reason OTHER' })
+    }
+  })
 
 const listBatchesQuerySchema = z.object({
   take: z.coerce.number().int().min(1).max(100).default(50),
@@ -190,21 +212,33 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
         const cost = parsed.data.cost ?? null
         const price = parsed.data.price ?? null
         const genericName = parsed.data.genericName ?? null
-        const created = await db.product.create({
-          data: {
+        const created = await db.$transaction(async (tx) => {
+          const product = await tx.product.create({
+            data: {
+              tenantId,
+              sku: parsed.data.sku,
+              name: commercialName,
+              genericName,
+              description,
+              presentationWrapper,
+              presentationQuantity,
+              presentationFormat,
+              cost,
+              price,
+              taxCategory: parsed.data.taxCategory ?? 'TAXED',
+              createdBy: userId,
+            },
+            select: { id: true, sku: true, name: true, genericName: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, version: true, createdAt: true },
+          })
+          await recordProductPriceChangeTx(tx, {
             tenantId,
-            sku: parsed.data.sku,
-            name: commercialName,
-            genericName,
-            description,
-            presentationWrapper,
-            presentationQuantity,
-            presentationFormat,
-            cost,
-            price,
-            createdBy: userId,
-          },
-          select: { id: true, sku: true, name: true, genericName: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, version: true, createdAt: true },
+            productId: product.id,
+            userId,
+            before: { price: null, cost: null },
+            after: { price, cost },
+            at: product.createdAt,
+          })
+          return product
         })
 
         await audit.append({
@@ -249,7 +283,7 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
             }
           : {}),
         orderBy: { id: 'asc' },
-        select: { id: true, sku: true, name: true, genericName: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, isActive: true, version: true, updatedAt: true },
+        select: { id: true, sku: true, name: true, genericName: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, taxCategory: true, isActive: true, version: true, updatedAt: true },
       })
 
       const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
@@ -269,7 +303,7 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
 
       const product = await db.product.findFirst({
         where: { id, tenantId },
-        select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, isActive: true, version: true, updatedAt: true },
+        select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, taxCategory: true, isActive: true, version: true, updatedAt: true },
       })
 
       if (!product) return reply.status(404).send({ message: 'Not found' })
@@ -277,6 +311,73 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
     },
   )
 
+  // Price and cost changes, newest first
+  app.get(
+    '/api/v1/products/:id/price-history',
+    {
+      preHandler: [requireAuth(), requirePermission(Permissions.CatalogRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const product = await db.product.findFirst({ where: { id, tenantId }, select: { id: true } })
+      if (!product) return reply.status(404).send({ message: 'Not found' })
+
+      const rows = await db.productPriceHistory.findMany({
+        where: { tenantId, productId: id },
+        orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+        take: 200,
+        select: { id: true, effectiveFrom: true, oldPrice: true, newPrice: true, oldCost: true, newCost: true, createdBy: true },
+      })
+
+      const authorIds = Array.from(new Set(rows.map((r) => r.createdBy).filter((v): v is string => !!v)))
+      const authors = authorIds.length
+        ? await db.user.findMany({ where: { tenantId, id: { in: authorIds } }, select: { id: true, fullName: true, email: true } })
+        : []
+      const authorMap = new Map(authors.map((u) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+      const num = (v: any) => (v === null || v === undefined ? null : Number(v))
+
+      return reply.send({
+        items: rows.map((r) => ({
+          id: r.id,
+          effectiveFrom: r.effectiveFrom.toISOString(),
+          oldPrice: num(r.oldPrice),
+          newPrice: num(r.newPrice),
+          oldCost: num(r.oldCost),
+          newCost: num(r.newCost),
+          changedBy: r.createdBy ? authorMap.get(r.createdBy) ?? null : null,
+        })),
+      })
+    },
+  )
+
+  // Price and cost effective at a date
+  app.get(
+    '/api/v1/products/:id/price-at',
+    {
+      preHandler: [requireAuth(), requirePermission(Permissions.CatalogRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = priceAtQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const product = await db.product.findFirst({ where: { id, tenantId }, select: { id: true, price: true, cost: true } })
+      if (!product) return reply.status(404).send({ message: 'Not found' })
+
+      const pricing = await productPricingAt(db, tenantId, product, parsed.data.at)
+      return reply.send({
+        productId: id,
+        at: parsed.data.at.toISOString(),
+        price: pricing.price,
+        cost: pricing.cost,
+        effectiveFrom: pricing.effectiveFrom ? pricing.effectiveFrom.toISOString() : null,
+      })
+    },
+  )
+
   // Get recipe for product
   app.get(
     '/api/v1/products/:id/recipe',
@@ -515,7 +616,7 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
 
       const before = await db.product.findFirst({
         where: { id, tenantId },
-        select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, isActive: true, version: true },
+        select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, cost: true, price: true, isActive: true, version: true },
       })
       if (!before) return reply.status(404).send({ message: 'Not found' })
 
@@ -561,12 +662,17 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
       if ((parsed.data as any).photoKey !== undefined) updateData.photoKey = (parsed.data as any).photoKey
       if ((parsed.data as any).cost !== undefined) updateData.cost = (parsed.data as any).cost
       if ((parsed.data as any).price !== undefined) updateData.price = (parsed.data as any).price
+      if (parsed.data.taxCategory !== undefined) updateData.taxCategory = parsed.data.taxCategory
       if (parsed.data.isActive !== undefined) updateData.isActive = parsed.data.isActive
 
-      const updated = await db.product.update({
-        where: { id },
-        data: updateData,
-        select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, isActive: true, version: true, updatedAt: true },
+      const updated = await db.$transaction(async (tx) => {
+        const product = await tx.product.update({
+          where: { id },
+          data: updateData,
+          select: { id: true, sku: true, name: true, genericName: true, description: true, presentationWrapper: true, presentationQuantity: true, presentationFormat: true, photoUrl: true, cost: true, price: true, taxCategory: true, isActive: true, version: true, updatedAt: true },
+        })
+        await recordProductPriceChangeTx(tx, { tenantId, productId: id, userId, before, after: product, at: product.updatedAt })
+        return product
       })
 
       await audit.append({
@@ -662,6 +768,10 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
           manufacturingDate: true,
           expiresAt: true,
           status: true,
+          statusReasonCode: true,
+          statusNote: true,
+          statusChangedAt: true,
+          supplier: { select: { id: true, name: true } },
           version: true,
           createdAt: true,
           updatedAt: true,
@@ -807,6 +917,18 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
       const product = await db.product.findFirst({ where: { id: productId, tenantId }, select: { id: true } })
       if (!product) return reply.status(404).send({ message: 'Product not found' })
 
+      if (parsed.data.status === 'RELEASED' && !request.auth!.permissions.has(Permissions.StockQaRelease)) {
+        return reply.status(403).send({ message: 'Releasing a batch requires stock:qa:release' })
+      }
+
+      if (parsed.data.supplierId) {
+        const supplier = await db.supplier.findFirst({
+          where: { id: parsed.data.supplierId, tenantId, isActive: true },
+          select: { id: true },
+        })
+        if (!supplier) return reply.status(404).send({ message: 'Supplier not found' })
+      }
+
       try {
         const manufacturingDate = parsed.data.manufacturingDate ? new Date(parsed.data.manufacturingDate) : null
         const expiresAt = parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null
@@ -822,7 +944,11 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
               batchNumber,
               manufacturingDate,
               expiresAt,
-              status: parsed.data.status ?? 'RELEASED',
+              status: parsed.data.status,
+              ...(parsed.data.status === 'RELEASED'
+                ? { statusReasonCode: 'QA_APPROVED', statusChangedAt: new Date(), statusChangedBy: userId }
+                : {}),
+              supplierId: parsed.data.supplierId ?? null,
               createdBy: userId,
             },
             select: { id: true, productId: true, batchNumber: true, expiresAt: true, status: true, version: true, createdAt: true },
@@ -886,11 +1012,11 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
     },
   )
 
-  // Update batch status
+  // QA status change: only lifecycle transitions (see BATCH_STATUS_TRANSITIONS), each with a reason code
   app.patch(
     '/api/v1/products/:productId/batches/:batchId/status',
     {
-      preHandler: [requireAuth(), requirePermission(Permissions.CatalogWrite)],
+      preHandler: [requireAuth(), requirePermission(Permissions.StockQaRelease)],
     },
     async (request, reply) => {
       const productId = (request.params as any).productId as string
@@ -911,14 +1037,43 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
         return reply.status(409).send({ message: 'Version conflict' })
       }
 
+      if (!canTransitionBatchStatus(batch.status, parsed.data.status)) {
+        return reply.status(409).send({
+          message: `Cannot change batch status from ${batch.status} to ${parsed.data.status}`,
+          code: 'BATCH_STATUS_TRANSITION',
+          from: batch.status,
+          allowed: BATCH_STATUS_TRANSITIONS[batch.status],
+        })
+      }
+
+      const now = new Date()
       const updated = await db.batch.update({
         where: { id: batchId },
         data: {
           status: parsed.data.status,
+          statusReasonCode: parsed.data.reasonCode,
+          statusNote: parsed.data.note ?? null,
+          statusChangedAt: now,
+          statusChangedBy: userId,
           version: { increment: 1 },
-          updatedAt: new Date(),
+          updatedAt: now,
         },
-        select: { id: true, batchNumber: true, status: true, version: true, updatedAt: true },
+        select: {
+          id: true,
+          batchNumber: true,
+          status: true,
+          statusReasonCode: true,
+          statusNote: true,
+          statusChangedAt: true,
+          version: true,
+          updatedAt: true,
+        },
+      })
+
+      // Reservations already taken on the batch stay in place but can't be picked while it is held.
+      const reserved = await db.inventoryBalance.aggregate({
+        where: { tenantId, batchId, reservedQuantity: { gt: 0 } },
+        _sum: { reservedQuantity: true },
       })
 
       await audit.append({
@@ -929,9 +1084,10 @@ export async function registerProductRoutes(app: FastifyInstance): Promise<void>
         entityId: batchId,
         before: { status: batch.status, version: batch.version },
         after: { status: updated.status, version: updated.version },
+        metadata: { reasonCode: parsed.data.reasonCode, note: parsed.data.note ?? null },
       })
 
-      return reply.send(updated)
+      return reply.send({ ...updated, reservedQuantity: String(reserved._sum.reservedQuantity ?? 0) })
     },
   )
 }
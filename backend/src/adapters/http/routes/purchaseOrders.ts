@@ -0,0 +1,867 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import { batchNotQuarantineError } from '../../../application/stock/batchStatus.js'
+import {
+  RECEIVABLE_PO_STATUSES,
+  purchaseLineReceiptStatus,
+  purchaseLineVariance,
+} from '../../../application/purchasing/purchaseOrders.js'
+import { iso } from '../../../application/shared/dates.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
+
+const MS_DAY = 24 * 60 * 60 * 1000
+
+const listQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  status: z.enum(['DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'CLOSED', 'CANCELLED']).optional(),
+  supplierId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+})
+
+const lineInputSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.coerce.number().positive(),
+  unitCost: z.coerce.number().min(0).default(0),
+  expectedAt: z.coerce.date().nullable().optional(),
+})
+
+const orderCreateSchema = z.object({
+  supplierId: z.string().uuid(),
+  warehouseId: z.string().uuid(),
+  expectedAt: z.coerce.date().optional(),
+  note: z.string().trim().max(500).optional(),
+  lines: z.array(lineInputSchema).min(1),
+})
+
+const orderUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  supplierId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+  expectedAt: z.coerce.date().nullable().optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+  // Replaces every line when present.
+  lines: z.array(lineInputSchema).min(1).optional(),
+})
+
+const versionSchema = z.object({
+  version: z.number().int().positive(),
+})
+
+const closeSchema = z.object({
+  version: z.number().int().positive(),
+  reason: z.string().trim().min(3).max(300),
+})
+
+const receiptCreateSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+  lines: z
+    .array(
+      z
+        .object({
+          lineId: z.string().uuid(),
+          quantity: z.coerce.number().positive(),
+          // First active location of the receiving warehouse when omitted.
+          locationId: z.string().uuid().optional(),
+          // Existing batch, or the data of the batch printed on the delivery (a LOT number is issued if it has none).
+          batchId: z.string().uuid().optional(),
+          batch: z
+            .object({
+              batchNumber: z.string().trim().min(1).max(80).optional(),
+              manufacturingDate: z.string().datetime().optional(),
+              expiresAt: z.string().datetime().optional(),
+            })
+            .optional(),
+        })
+        .refine((l) => !(l.batchId && l.batch), { message: 'Provide either batchId or batch, not both' }),
+    )
+    .min(1),
+})
+
+const varianceQuerySchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  warehouseId: z.string().uuid().optional(),
+  kind: z.enum(['OVER', 'SHORT']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+const orderSelect = {
+  id: true,
+  number: true,
+  supplierId: true,
+  warehouseId: true,
+  status: true,
+  expectedAt: true,
+  note: true,
+  sentAt: true,
+  sentBy: true,
+  closedAt: true,
+  closedBy: true,
+  closeReason: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+  supplier: { select: { id: true, name: true, taxId: true, leadTimeDays: true } },
+  warehouse: { select: { id: true, code: true, name: true, city: true } },
+  _count: { select: { receipts: true } },
+} as const
+
+const lineSelect = {
+  id: true,
+  productId: true,
+  quantity: true,
+  receivedQuantity: true,
+  unitCost: true,
+  expectedAt: true,
+  product: { select: { sku: true, name: true, genericName: true } },
+} as const
+
+const receiptSelect = {
+  id: true,
+  number: true,
+  note: true,
+  receivedAt: true,
+  receivedBy: true,
+  lines: {
+    orderBy: { id: 'asc' },
+    select: {
+      id: true,
+      purchaseOrderLineId: true,
+      productId: true,
+      quantity: true,
+      movementId: true,
+      product: { select: { sku: true, name: true } },
+      batch: { select: { id: true, batchNumber: true, expiresAt: true } },
+      location: { select: { id: true, code: true } },
+    },
+  },
+} as const
+
+function lineResponse(l: any, orderStatus: string) {
+  return {
+    ...l,
+    quantity: toNumber(l.quantity),
+    receivedQuantity: toNumber(l.receivedQuantity),
+    unitCost: toNumber(l.unitCost),
+    lineTotal: toNumber(l.quantity) * toNumber(l.unitCost),
+    expectedAt: iso(l.expectedAt),
+    variance: purchaseLineVariance(l),
+    receiptStatus: purchaseLineReceiptStatus(l, orderStatus),
+  }
+}
+
+function orderResponse(o: any) {
+  const { _count, lines, ...rest } = o
+  const mappedLines = lines ? lines.map((l: any) => lineResponse(l, o.status)) : null
+  return {
+    ...rest,
+    receiptCount: _count.receipts,
+    expectedAt: iso(o.expectedAt),
+    sentAt: iso(o.sentAt),
+    closedAt: iso(o.closedAt),
+    cancelledAt: iso(o.cancelledAt),
+    createdAt: o.createdAt.toISOString(),
+    updatedAt: o.updatedAt.toISOString(),
+    ...(mappedLines
+      ? {
+          lines: mappedLines,
+          totalAmount: mappedLines.reduce((acc: number, l: any) => acc + l.lineTotal, 0),
+          orderedQuantity: mappedLines.reduce((acc: number, l: any) => acc + l.quantity, 0),
+          receivedQuantity: mappedLines.reduce((acc: number, l: any) => acc + l.receivedQuantity, 0),
+        }
+      : {}),
+  }
+}
+
+function receiptResponse(r: any) {
+  return {
+    ...r,
+    receivedAt: r.receivedAt.toISOString(),
+    lines: r.lines.map((l: any) => ({
+      ...l,
+      quantity: toNumber(l.quantity),
+      batch: { ...l.batch, expiresAt: iso(l.batch.expiresAt) },
+    })),
+  }
+}
+
+function httpError(statusCode: number, message: string): Error & { statusCode?: number } {
+  const err = new Error(message) as Error & { statusCode?: number }
+  err.statusCode = statusCode
+  return err
+}
+
+function statusError(message: string): Error & { statusCode?: number } {
+  return httpError(409, message)
+}
+
+async function loadOrderForUpdate(tx: any, tenantId: string, id: string) {
+  const order = await tx.purchaseOrder.findFirst({
+    where: { id, tenantId },
+    select: { ...orderSelect, lines: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }], select: lineSelect } },
+  })
+  if (!order) throw httpError(404, 'Not found')
+  return order
+}
+
+async function assertSupplierAndWarehouse(tx: any, tenantId: string, supplierId: string, warehouseId: string) {
+  const supplier = await tx.supplier.findFirst({ where: { id: supplierId, tenantId, isActive: true }, select: { id: true } })
+  if (!supplier) throw httpError(404, 'Supplier not found')
+  const warehouse = await tx.warehouse.findFirst({ where: { id: warehouseId, tenantId, isActive: true }, select: { id: true } })
+  if (!warehouse) throw httpError(404, 'Warehouse not found')
+}
+
+async function buildLineData(tx: any, tenantId: string, lines: Array<z.infer<typeof lineInputSchema>>) {
+  const productIds = lines.map((l) => l.productId)
+  if (new Set(productIds).size !== productIds.length) throw httpError(400, 'Each product can appear only once per order')
+
+  const products = await tx.product.findMany({ where: { tenantId, id: { in: productIds }, isActive: true }, select: { id: true } })
+  if (products.length !== productIds.length) throw httpError(404, 'Product not found')
+
+  return lines.map((l) => ({
+    tenantId,
+    productId: l.productId,
+    quantity: decimalFromNumber(l.quantity),
+    unitCost: decimalFromNumber(l.unitCost),
+    expectedAt: l.expectedAt ?? null,
+  }))
+}
+
+async function resolveUserNames(db: any, tenantId: string, userIds: Array<string | null>): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(userIds.filter((u): u is string => !!u)))
+  if (ids.length === 0) return new Map()
+  const users = await db.user.findMany({ where: { tenantId, id: { in: ids } }, select: { id: true, fullName: true, email: true } })
+  return new Map(users.map((u: any) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+}
+
+export async function registerPurchaseOrderRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/purchase-orders',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const parsed = listQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.purchaseOrder.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.status ? { status: parsed.data.status } : {}),
+          ...(parsed.data.supplierId ? { supplierId: parsed.data.supplierId } : {}),
+          ...(parsed.data.warehouseId ? { warehouseId: parsed.data.warehouseId } : {}),
+        },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { ...orderSelect, lines: { select: lineSelect } },
+      })
+
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+      return reply.send({
+        items: items.map((o) => {
+          const { lines: _lines, ...header } = orderResponse(o)
+          return header
+        }),
+        nextCursor,
+      })
+    },
+  )
+
+  // Over- and under-receipts against the ordered quantities. A missing quantity only counts once the order is
+  // closed; over-receipts are reported as soon as they are received.
+  app.get(
+    '/api/v1/purchase-orders/reports/receipt-variances',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const parsed = varianceQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const { supplierId, warehouseId, kind, from, to } = parsed.data
+
+      const lines = await db.purchaseOrderLine.findMany({
+        where: {
+          tenantId,
+          purchaseOrder: {
+            status: { in: ['PARTIALLY_RECEIVED', 'CLOSED'] },
+            ...(supplierId ? { supplierId } : {}),
+            ...(warehouseId ? { warehouseId } : {}),
+            ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+          },
+        },
+        orderBy: [{ purchaseOrder: { createdAt: 'desc' } }, { id: 'asc' }],
+        select: {
+          ...lineSelect,
+          purchaseOrder: {
+            select: {
+              id: true,
+              number: true,
+              status: true,
+              closeReason: true,
+              supplier: { select: { id: true, name: true } },
+              warehouse: { select: { id: true, code: true, name: true } },
+            },
+          },
+        },
+      })
+
+      const items = lines
+        .map((l) => {
+          const { purchaseOrder, ...line } = l
+          return { ...lineResponse(line, purchaseOrder.status), purchaseOrder }
+        })
+        .filter((l) => (kind ? l.receiptStatus === kind : l.receiptStatus === 'OVER' || l.receiptStatus === 'SHORT'))
+
+      const summary = { overLines: 0, overQuantity: 0, overAmount: 0, shortLines: 0, shortQuantity: 0, shortAmount: 0 }
+      for (const l of items) {
+        const qty = Math.abs(l.variance)
+        if (l.receiptStatus === 'OVER') {
+          summary.overLines += 1
+          summary.overQuantity += qty
+          summary.overAmount += qty * l.unitCost
+        } else {
+          summary.shortLines += 1
+          summary.shortQuantity += qty
+          summary.shortAmount += qty * l.unitCost
+        }
+      }
+
+      return reply.send({ items, summary })
+    },
+  )
+
+  app.get(
+    '/api/v1/purchase-orders/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const order = await db.purchaseOrder.findFirst({
+        where: { id, tenantId },
+        select: {
+          ...orderSelect,
+          lines: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }], select: lineSelect },
+          receipts: { orderBy: [{ receivedAt: 'desc' }], select: receiptSelect },
+        },
+      })
+      if (!order) return reply.status(404).send({ message: 'Not found' })
+
+      const { receipts, ...rest } = order
+      const names = await resolveUserNames(db, tenantId, [
+        order.createdBy,
+        order.sentBy,
+        order.closedBy,
+        ...receipts.map((r) => r.receivedBy),
+      ])
+      const nameOf = (userId: string | null) => (userId ? (names.get(userId) ?? null) : null)
+
+      return reply.send({
+        ...orderResponse(rest),
+        createdByName: nameOf(order.createdBy),
+        sentByName: nameOf(order.sentBy),
+        closedByName: nameOf(order.closedBy),
+        receipts: receipts.map((r) => ({ ...receiptResponse(r), receivedByName: nameOf(r.receivedBy) })),
+      })
+    },
+  )
+
+  app.post(
+    '/api/v1/purchase-orders',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const parsed = orderCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const created = await db.$transaction(async (tx) => {
+        await assertSupplierAndWarehouse(tx, tenantId, parsed.data.supplierId, parsed.data.warehouseId)
+        const lines = await buildLineData(tx, tenantId, parsed.data.lines)
+
+        const year = currentYearUtc()
+        const seq = await nextSequence(tx, { tenantId, year, key: 'OC' })
+
+        const order = await tx.purchaseOrder.create({
+          data: {
+            tenantId,
+            number: seq.number,
+            numberYear: year,
+            supplierId: parsed.data.supplierId,
+            warehouseId: parsed.data.warehouseId,
+            expectedAt: parsed.data.expectedAt ?? null,
+            note: parsed.data.note ?? null,
+            createdBy: userId,
+            lines: { create: lines },
+          },
+          select: { id: true },
+        })
+
+        return loadOrderForUpdate(tx, tenantId, order.id)
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.create',
+        entityType: 'PurchaseOrder',
+        entityId: created.id,
+        after: created,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('purchase.order.updated', orderResponse(created))
+      return reply.status(201).send(orderResponse(created))
+    },
+  )
+
+  // Drafts can be edited freely; once sent to the supplier the order is fixed.
+  app.put(
+    '/api/v1/purchase-orders/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = orderUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) => {
+        const before = await loadOrderForUpdate(tx, tenantId, id)
+        if (before.version !== parsed.data.version) throw statusError('Version conflict')
+        if (before.status !== 'DRAFT') throw statusError('Only DRAFT orders can be edited')
+
+        await assertSupplierAndWarehouse(
+          tx,
+          tenantId,
+          parsed.data.supplierId ?? before.supplierId,
+          parsed.data.warehouseId ?? before.warehouseId,
+        )
+
+        if (parsed.data.lines) {
+          const lines = await buildLineData(tx, tenantId, parsed.data.lines)
+          await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: before.id } })
+          await tx.purchaseOrderLine.createMany({ data: lines.map((l) => ({ ...l, purchaseOrderId: before.id })) })
+        }
+
+        await tx.purchaseOrder.update({
+          where: { id: before.id },
+          data: {
+            ...(parsed.data.supplierId !== undefined ? { supplierId: parsed.data.supplierId } : {}),
+            ...(parsed.data.warehouseId !== undefined ? { warehouseId: parsed.data.warehouseId } : {}),
+            ...(parsed.data.expectedAt !== undefined ? { expectedAt: parsed.data.expectedAt } : {}),
+            ...(parsed.data.note !== undefined ? { note: parsed.data.note || null } : {}),
+            version: { increment: 1 },
+          },
+          select: { id: true },
+        })
+
+        const after = await loadOrderForUpdate(tx, tenantId, before.id)
+        return { before, after }
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.update',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        before: result.before,
+        after: result.after,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('purchase.order.updated', orderResponse(result.after))
+      return reply.send(orderResponse(result.after))
+    },
+  )
+
+  app.post(
+    '/api/v1/purchase-orders/:id/send',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const order = await loadOrderForUpdate(tx, tenantId, id)
+        if (order.version !== parsed.data.version) throw statusError('Version conflict')
+        if (order.status !== 'DRAFT') throw statusError('Only DRAFT orders can be sent')
+
+        // Without an explicit date, the supplier's lead time sets when the goods are expected.
+        const sentAt = new Date()
+        const leadTimeDays = order.supplier.leadTimeDays as number | null
+        const expectedAt =
+          order.expectedAt ?? (leadTimeDays !== null ? new Date(sentAt.getTime() + leadTimeDays * MS_DAY) : null)
+
+        await tx.purchaseOrder.update({
+          where: { id: order.id },
+          data: { status: 'SENT', sentAt, sentBy: userId, expectedAt, version: { increment: 1 } },
+          select: { id: true },
+        })
+        return loadOrderForUpdate(tx, tenantId, order.id)
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.send',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        after: updated,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('purchase.order.updated', orderResponse(updated))
+      return reply.send(orderResponse(updated))
+    },
+  )
+
+  // Orders with receipts can't be cancelled (the stock is already in); close them instead.
+  app.post(
+    '/api/v1/purchase-orders/:id/cancel',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const order = await loadOrderForUpdate(tx, tenantId, id)
+        if (order.version !== parsed.data.version) throw statusError('Version conflict')
+        if (order.status !== 'DRAFT' && order.status !== 'SENT') throw statusError('Only DRAFT or SENT orders can be cancelled')
+        if (order._count.receipts > 0) throw statusError('Orders with receipts cannot be cancelled')
+
+        await tx.purchaseOrder.update({
+          where: { id: order.id },
+          data: { status: 'CANCELLED', cancelledAt: new Date(), cancelledBy: userId, version: { increment: 1 } },
+          select: { id: true },
+        })
+        return loadOrderForUpdate(tx, tenantId, order.id)
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.cancel',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        after: updated,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('purchase.order.updated', orderResponse(updated))
+      return reply.send(orderResponse(updated))
+    },
+  )
+
+  // Short close: the supplier won't deliver the rest. Missing quantities become under-receipts.
+  app.post(
+    '/api/v1/purchase-orders/:id/close',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = closeSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const order = await loadOrderForUpdate(tx, tenantId, id)
+        if (order.version !== parsed.data.version) throw statusError('Version conflict')
+        if (!(RECEIVABLE_PO_STATUSES as readonly string[]).includes(order.status)) {
+          throw statusError('Only SENT or PARTIALLY_RECEIVED orders can be closed')
+        }
+
+        await tx.purchaseOrder.update({
+          where: { id: order.id },
+          data: {
+            status: 'CLOSED',
+            closedAt: new Date(),
+            closedBy: userId,
+            closeReason: parsed.data.reason,
+            version: { increment: 1 },
+          },
+          select: { id: true },
+        })
+        return loadOrderForUpdate(tx, tenantId, order.id)
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.close',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        after: updated,
+        metadata: {
+          reason: parsed.data.reason,
+          shortLines: updated.lines
+            .filter((l: any) => purchaseLineReceiptStatus(l, 'CLOSED') === 'SHORT')
+            .map((l: any) => ({ lineId: l.id, productId: l.productId, missing: -purchaseLineVariance(l) })),
+        },
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('purchase.order.updated', orderResponse(updated))
+      return reply.send(orderResponse(updated))
+    },
+  )
+
+  // Goods receipt: every line lands in a batch (picked or created) through an IN movement. The order closes by
+  // itself once every line is fully received; over-receipts are accepted and flagged.
+  app.post(
+    '/api/v1/purchase-orders/:id/receipts',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseReceive)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = receiptCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      let result: any
+      try {
+        result = await db.$transaction(async (tx) => {
+          const order = await loadOrderForUpdate(tx, tenantId, id)
+          if (!(RECEIVABLE_PO_STATUSES as readonly string[]).includes(order.status)) {
+            throw statusError('Only SENT or PARTIALLY_RECEIVED orders can be received')
+          }
+          const orderLines = new Map<string, any>(order.lines.map((l: any) => [l.id, l] as const))
+
+          let defaultLocationId: string | null = null
+          const resolveLocation = async (locationId: string | undefined): Promise<string> => {
+            if (locationId) {
+              const loc = await tx.location.findFirst({
+                where: { id: locationId, tenantId, warehouseId: order.warehouseId, isActive: true },
+                select: { id: true },
+              })
+              if (!loc) throw httpError(400, 'Location must be an active location of the receiving warehouse')
+              return loc.id
+            }
+            if (!defaultLocationId) {
+              const loc = await tx.location.findFirst({
+                where: { tenantId, warehouseId: order.warehouseId, isActive: true },
+                orderBy: [{ code: 'asc' }],
+                select: { id: true },
+              })
+              if (!loc) throw httpError(409, 'Warehouse has no active locations')
+              defaultLocationId = loc.id
+            }
+            return defaultLocationId
+          }
+
+          const year = currentYearUtc()
+          const seq = await nextSequence(tx, { tenantId, year, key: 'RM' })
+          const receivedAt = new Date()
+          const receipt = await tx.goodsReceipt.create({
+            data: {
+              tenantId,
+              number: seq.number,
+              numberYear: year,
+              purchaseOrderId: order.id,
+              warehouseId: order.warehouseId,
+              note: parsed.data.note ?? null,
+              receivedAt,
+              receivedBy: userId,
+            },
+            select: { id: true },
+          })
+
+          const createdMovements: any[] = []
+          const changedBalances: any[] = []
+          const createdBatches: any[] = []
+
+          for (const entry of parsed.data.lines) {
+            const line = orderLines.get(entry.lineId)
+            if (!line) throw httpError(400, 'Purchase order line not found')
+            const locationId = await resolveLocation(entry.locationId)
+
+            let batchId: string
+            if (entry.batchId) {
+              const batch = await tx.batch.findFirst({
+                where: { id: entry.batchId, tenantId, productId: line.productId },
+                select: { id: true, batchNumber: true, status: true },
+              })
+              if (!batch) throw httpError(404, 'Batch not found')
+              // Received stock has to go through QA; it can't join a batch that was already released or rejected.
+              if (batch.status !== 'QUARANTINE') throw batchNotQuarantineError(batch)
+              batchId = batch.id
+            } else {
+              const existing = entry.batch?.batchNumber
+                ? await tx.batch.findUnique({
+                    where: {
+                      tenantId_productId_batchNumber: { tenantId, productId: line.productId, batchNumber: entry.batch.batchNumber },
+                    },
+                    select: { id: true, batchNumber: true, status: true, supplierId: true },
+                  })
+                : null
+              if (existing) {
+                if (existing.status !== 'QUARANTINE') throw batchNotQuarantineError(existing)
+                batchId = existing.id
+                if (!existing.supplierId) {
+                  await tx.batch.update({ where: { id: existing.id }, data: { supplierId: order.supplierId }, select: { id: true } })
+                }
+              } else {
+                const batchNumber = entry.batch?.batchNumber
+                  ? entry.batch.batchNumber
+                  : (await nextSequence(tx, { tenantId, year, key: 'LOT' })).number
+                const batch = await tx.batch.create({
+                  data: {
+                    tenantId,
+                    productId: line.productId,
+                    batchNumber,
+                    manufacturingDate: entry.batch?.manufacturingDate ? new Date(entry.batch.manufacturingDate) : null,
+                    expiresAt: entry.batch?.expiresAt ? new Date(entry.batch.expiresAt) : null,
+                    supplierId: order.supplierId,
+                    // Received goods wait for QA release before they can be reserved or picked.
+                    status: 'QUARANTINE',
+                    createdBy: userId,
+                  },
+                  select: { id: true, productId: true, batchNumber: true, expiresAt: true, status: true },
+                })
+                createdBatches.push(batch)
+                batchId = batch.id
+              }
+            }
+
+            const { createdMovement, toBalance } = await createStockMovementTx(tx, {
+              tenantId,
+              userId,
+              type: 'IN',
+              productId: line.productId,
+              batchId,
+              toLocationId: locationId,
+              quantity: entry.quantity,
+              referenceType: 'PURCHASE_ORDER',
+              referenceId: order.number,
+              note: `Recepción ${seq.number} de ${order.number}`,
+            })
+            createdMovements.push(createdMovement)
+            if (toBalance) changedBalances.push(toBalance)
+
+            await tx.goodsReceiptLine.create({
+              data: {
+                tenantId,
+                receiptId: receipt.id,
+                purchaseOrderLineId: line.id,
+                productId: line.productId,
+                batchId,
+                locationId,
+                quantity: decimalFromNumber(entry.quantity),
+                movementId: createdMovement.id,
+              },
+              select: { id: true },
+            })
+            await tx.purchaseOrderLine.update({
+              where: { id: line.id },
+              data: { receivedQuantity: { increment: decimalFromNumber(entry.quantity) } },
+              select: { id: true },
+            })
+
+            const lastPurchase = { lastPurchasePrice: line.unitCost, lastPurchasedAt: receivedAt }
+            await tx.productSupplier.upsert({
+              where: { tenantId_productId_supplierId: { tenantId, productId: line.productId, supplierId: order.supplierId } },
+              create: { tenantId, productId: line.productId, supplierId: order.supplierId, ...lastPurchase },
+              update: lastPurchase,
+              select: { id: true },
+            })
+          }
+
+          const lines = await tx.purchaseOrderLine.findMany({
+            where: { purchaseOrderId: order.id },
+            select: { id: true, productId: true, quantity: true, receivedQuantity: true },
+          })
+          const fullyReceived = lines.every((l) => purchaseLineVariance(l) >= -1e-9)
+          await tx.purchaseOrder.update({
+            where: { id: order.id },
+            data: fullyReceived
+              ? { status: 'CLOSED', closedAt: receivedAt, closedBy: userId, version: { increment: 1 } }
+              : { status: 'PARTIALLY_RECEIVED', version: { increment: 1 } },
+            select: { id: true },
+          })
+
+          const overReceived = lines
+            .filter((l) => purchaseLineVariance(l) > 1e-9)
+            .map((l) => ({ lineId: l.id, productId: l.productId, excess: purchaseLineVariance(l) }))
+
+          return {
+            order: await loadOrderForUpdate(tx, tenantId, order.id),
+            receipt: await tx.goodsReceipt.findFirstOrThrow({ where: { id: receipt.id }, select: receiptSelect }),
+            createdMovements,
+            changedBalances,
+            createdBatches,
+            overReceived,
+          }
+        })
+      } catch (e: any) {
+        if (e?.code === 'LOCATION_FROZEN' || e?.code === 'BATCH_NOT_QUARANTINE') {
+          return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        }
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.order.receive',
+        entityType: 'PurchaseOrder',
+        entityId: id,
+        after: { order: result.order, receipt: result.receipt, movements: result.createdMovements },
+        metadata: {
+          receiptNumber: result.receipt.number,
+          createdBatches: result.createdBatches,
+          overReceived: result.overReceived,
+        },
+      })
+
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('purchase.order.updated', orderResponse(result.order))
+      for (const m of result.createdMovements) app.io?.to(room).emit('stock.movement.created', m)
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.status(201).send({
+        order: orderResponse(result.order),
+        receipt: receiptResponse(result.receipt),
+        overReceived: result.overReceived,
+      })
+    },
+  )
+}
@@ -5,6 +5,7 @@ import { requireAuth, requireModuleEnabled, requirePermission } from '../../../a
 import { Permissions } from '../../../application/security/permissions.js'
 import { getMailer } from '../../../shared/mailer.js'
 import { computeNextRunAt } from '../../../application/reports/reportScheduler.js'
+import { loadTaxRates } from '../../../application/sales/taxes.js'
 
 const dateRangeQuerySchema = z.object({
   from: z.coerce.date().optional(),
@@ -12,22 +13,22 @@ const dateRangeQuerySchema = z.object({
 })
 
 const salesSummaryQuerySchema = dateRangeQuerySchema.extend({
-  status: z.enum(['DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED']).optional(),
 })
 
 const salesTopProductsQuerySchema = dateRangeQuerySchema.extend({
   take: z.coerce.number().int().min(1).max(50).default(10),
-  status: z.enum(['DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED']).optional(),
 })
 
 const salesByCustomerQuerySchema = dateRangeQuerySchema.extend({
   take: z.coerce.number().int().min(1).max(200).default(25),
-  status: z.enum(['DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED']).optional(),
 })
 
 const salesByCityQuerySchema = dateRangeQuerySchema.extend({
   take: z.coerce.number().int().min(1).max(200).default(25),
-  status: z.enum(['DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED']).optional(),
 })
 
 const reportEmailBodySchema = z.object({
@@ -111,6 +112,9 @@ type SalesByCityRow = {
 type SalesFunnelRow = {
   quotesCreated: bigint
   quotesProcessed: bigint
+  quotesExpired: bigint
+  quotesRejected: bigint
+  quotesCancelled: bigint
   ordersCreated: bigint
   ordersFulfilled: bigint
   ordersPaid: bigint
@@ -151,10 +155,24 @@ type ProductMarginsRow = {
   name: string
   qtySold: string | null
   revenue: string | null
-  costPrice: string | null
+  taxAmount: string | null
+  currentCost: string | null
   costTotal: string | null
 }
 
+type PromotionUsageRow = {
+  promotionId: string
+  code: string
+  name: string
+  type: string
+  quotesCount: bigint | number
+  discountedUnits: string | null
+  discountAmount: string | null
+  bonusUnits: string | null
+  bonusValue: string | null
+  bonusCost: string | null
+}
+
 type LowStockRow = {
   productId: string
   sku: string
@@ -181,6 +199,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
   const mailer = getMailer()
 
   // SALES reports
+  // Amounts are in the tenant currency: lines of orders in another currency are converted at the rate locked on the order.
   app.get(
     '/api/v1/reports/sales/summary',
     {
@@ -200,7 +219,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           count(distinct so.id) as "ordersCount",
           count(sol.id) as "linesCount",
           sum(sol.quantity)::text as "quantity",
-          sum(sol.quantity * sol."unitPrice")::text as "amount"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
         FROM "SalesOrder" so
         JOIN "SalesOrderLine" sol
           ON sol."salesOrderId" = so.id
@@ -244,7 +263,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           c.city as "city",
           count(distinct so.id) as "ordersCount",
           sum(sol.quantity)::text as "quantity",
-          sum(sol.quantity * sol."unitPrice")::text as "amount"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
         FROM "SalesOrder" so
         JOIN "Customer" c
           ON c.id = so."customerId"
@@ -256,7 +275,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
           AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
         GROUP BY c.id, c.name, c.city
-        ORDER BY sum(sol.quantity * sol."unitPrice") DESC NULLS LAST
+        ORDER BY sum(sol.quantity * sol."unitPrice" * so."exchangeRate") DESC NULLS LAST
         LIMIT ${take}
       `
 
@@ -291,7 +310,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           COALESCE(NULLIF(so."deliveryCity", ''), NULLIF(c.city, ''), 'Sin ciudad') as "city",
           count(distinct so.id) as "ordersCount",
           sum(sol.quantity)::text as "quantity",
-          sum(sol.quantity * sol."unitPrice")::text as "amount"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
         FROM "SalesOrder" so
         JOIN "Customer" c
           ON c.id = so."customerId"
@@ -303,7 +322,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
           AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
         GROUP BY 1
-        ORDER BY sum(sol.quantity * sol."unitPrice") DESC NULLS LAST
+        ORDER BY sum(sol.quantity * sol."unitPrice" * so."exchangeRate") DESC NULLS LAST
         LIMIT ${take}
       `
 
@@ -343,6 +362,25 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
               AND (${from ?? null}::timestamptz IS NULL OR q."createdAt" >= ${from ?? null})
               AND (${to ?? null}::timestamptz IS NULL OR q."createdAt" < ${to ?? null})
           ) as "quotesProcessed",
+          (SELECT count(*) FROM "Quote" q
+            WHERE q."tenantId" = ${tenantId}
+              AND (q.status = 'EXPIRED'::"QuoteStatus"
+                OR (q.status = 'CREATED'::"QuoteStatus" AND q."pricedAt" + make_interval(days => q."validityDays") <= now()))
+              AND (${from ?? null}::timestamptz IS NULL OR q."createdAt" >= ${from ?? null})
+              AND (${to ?? null}::timestamptz IS NULL OR q."createdAt" < ${to ?? null})
+          ) as "quotesExpired",
+          (SELECT count(*) FROM "Quote" q
+            WHERE q."tenantId" = ${tenantId}
+              AND q.status = 'REJECTED'::"QuoteStatus"
+              AND (${from ?? null}::timestamptz IS NULL OR q."createdAt" >= ${from ?? null})
+              AND (${to ?? null}::timestamptz IS NULL OR q."createdAt" < ${to ?? null})
+          ) as "quotesRejected",
+          (SELECT count(*) FROM "Quote" q
+            WHERE q."tenantId" = ${tenantId}
+              AND q.status = 'CANCELLED'::"QuoteStatus"
+              AND (${from ?? null}::timestamptz IS NULL OR q."createdAt" >= ${from ?? null})
+              AND (${to ?? null}::timestamptz IS NULL OR q."createdAt" < ${to ?? null})
+          ) as "quotesCancelled",
           (SELECT count(*) FROM "SalesOrder" so
             WHERE so."tenantId" = ${tenantId}
               AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
@@ -360,7 +398,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
               AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
               AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
           ) as "ordersPaid",
-          (SELECT sum(sol.quantity * sol."unitPrice")::text
+          (SELECT sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text
             FROM "SalesOrder" so
             JOIN "SalesOrderLine" sol
               ON sol."salesOrderId" = so.id
@@ -370,7 +408,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
               AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
               AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
           ) as "amountFulfilled",
-          (SELECT sum(sol.quantity * sol."unitPrice")::text
+          (SELECT sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text
             FROM "SalesOrder" so
             JOIN "SalesOrderLine" sol
               ON sol."salesOrderId" = so.id
@@ -383,17 +421,32 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
       `
 
       const r = rows[0]
+      const quotesCreated = Number(r?.quotesCreated ?? 0n)
+      const quotesProcessed = Number(r?.quotesProcessed ?? 0n)
+      const lost = [
+        // Open quotes past their validity count as expired even before the nightly job flips them.
+        { key: 'quotesExpired', label: 'Cotizaciones vencidas', value: Number(r?.quotesExpired ?? 0n) },
+        { key: 'quotesRejected', label: 'Cotizaciones rechazadas', value: Number(r?.quotesRejected ?? 0n) },
+        { key: 'quotesCancelled', label: 'Cotizaciones anuladas', value: Number(r?.quotesCancelled ?? 0n) },
+      ]
+      const quotesLost = lost.reduce((sum, l) => sum + l.value, 0)
       return reply.send({
         items: [
-          { key: 'quotesCreated', label: 'Cotizaciones creadas', value: Number(r?.quotesCreated ?? 0n) },
-          { key: 'quotesProcessed', label: 'Cotizaciones procesadas', value: Number(r?.quotesProcessed ?? 0n) },
+          { key: 'quotesCreated', label: 'Cotizaciones creadas', value: quotesCreated },
+          { key: 'quotesProcessed', label: 'Cotizaciones procesadas', value: quotesProcessed },
           { key: 'ordersCreated', label: 'Órdenes creadas', value: Number(r?.ordersCreated ?? 0n) },
           { key: 'ordersFulfilled', label: 'Entregas (FULFILLED)', value: Number(r?.ordersFulfilled ?? 0n) },
           { key: 'ordersPaid', label: 'Cobros (pagadas)', value: Number(r?.ordersPaid ?? 0n) },
         ],
+        lost,
         totals: {
           amountFulfilled: r?.amountFulfilled ?? '0',
           amountPaid: r?.amountPaid ?? '0',
+          quotesLost,
+          // Still open and within validity: neither won nor lost yet.
+          quotesOpen: Math.max(0, quotesCreated - quotesProcessed - quotesLost),
+          // Won over decided (processed + lost) quotes.
+          winRatePct: quotesProcessed + quotesLost > 0 ? (quotesProcessed / (quotesProcessed + quotesLost)) * 100 : null,
         },
       })
     },
@@ -418,7 +471,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           count(distinct so.id) as "ordersCount",
           count(sol.id) as "linesCount",
           sum(sol.quantity)::text as "quantity",
-          sum(sol.quantity * sol."unitPrice")::text as "amount"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
         FROM "SalesOrder" so
         JOIN "SalesOrderLine" sol
           ON sol."salesOrderId" = so.id
@@ -462,9 +515,12 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           p.sku,
           p.name,
           sum(sol.quantity)::text as "qtySold",
-          sum(sol.quantity * sol."unitPrice")::text as "revenue",
-          p.cost::text as "costPrice",
-          (sum(sol.quantity) * COALESCE(p.cost, 0))::text as "costTotal"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "revenue",
+          sum(sol."taxAmount" * so."exchangeRate")::text as "taxAmount",
+          p.cost::text as "currentCost",
+          sum(
+            sol.quantity * COALESCE(CASE WHEN hb.found THEN hb.cost WHEN ha.found THEN ha.cost ELSE p.cost END, 0)
+          )::text as "costTotal"
         FROM "SalesOrder" so
         JOIN "SalesOrderLine" sol
           ON sol."salesOrderId" = so.id
@@ -472,28 +528,55 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
         JOIN "Product" p
           ON p.id = sol."productId"
           AND p."tenantId" = sol."tenantId"
+        -- Cost effective when the order was created: the last change before it or, before the first change, the cost it replaced.
+        LEFT JOIN LATERAL (
+          SELECT true as found, h."newCost" as cost
+          FROM "ProductPriceHistory" h
+          WHERE h."tenantId" = sol."tenantId" AND h."productId" = sol."productId" AND h."effectiveFrom" <= so."createdAt"
+          ORDER BY h."effectiveFrom" DESC, h."createdAt" DESC
+          LIMIT 1
+        ) hb ON true
+        LEFT JOIN LATERAL (
+          SELECT true as found, h."oldCost" as cost
+          FROM "ProductPriceHistory" h
+          WHERE h."tenantId" = sol."tenantId" AND h."productId" = sol."productId" AND h."effectiveFrom" > so."createdAt"
+          ORDER BY h."effectiveFrom" ASC, h."createdAt" ASC
+          LIMIT 1
+        ) ha ON true
         WHERE so."tenantId" = ${tenantId}
           AND (${status ?? null}::text IS NULL OR so.status = ${status ?? null}::"SalesOrderStatus")
           AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
           AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
         GROUP BY p.id, p.sku, p.name, p.cost
-        ORDER BY sum(sol.quantity * sol."unitPrice") DESC
+        ORDER BY sum(sol.quantity * sol."unitPrice" * so."exchangeRate") DESC
         LIMIT ${take}
       `
 
+      const rates = await loadTaxRates(db, tenantId)
+
+      // Margins are computed on net revenue (IVA excluded) and also bear the IT on gross sales.
       const items = rows.map((r) => {
-        const revenue = Number(r.revenue ?? '0')
+        const grossRevenue = Number(r.revenue ?? '0')
+        const taxAmount = Number(r.taxAmount ?? '0')
+        const revenue = grossRevenue - taxAmount
+        const itAmount = (grossRevenue * rates.itPct) / 100
+        const qtySold = Number(r.qtySold ?? '0')
         const costTotal = Number(r.costTotal ?? '0')
-        const profit = revenue - costTotal
+        const profit = revenue - itAmount - costTotal
         const marginPct = revenue > 0 ? (profit / revenue) * 100 : 0
 
         return {
           productId: r.productId,
           sku: r.sku,
           name: r.name,
-          qtySold: Number(r.qtySold ?? '0'),
+          qtySold,
+          grossRevenue,
+          taxAmount,
           revenue,
-          costPrice: Number(r.costPrice ?? '0'),
+          itAmount,
+          // Average unit cost of the units sold, each at the cost effective when sold.
+          costPrice: qtySold > 0 ? costTotal / qtySold : 0,
+          currentCost: Number(r.currentCost ?? '0'),
           costTotal,
           profit,
           marginPct,
@@ -502,11 +585,14 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
 
       const totals = items.reduce(
         (acc, i) => ({
+          grossRevenue: acc.grossRevenue + i.grossRevenue,
+          taxAmount: acc.taxAmount + i.taxAmount,
           revenue: acc.revenue + i.revenue,
+          itAmount: acc.itAmount + i.itAmount,
           costTotal: acc.costTotal + i.costTotal,
           profit: acc.profit + i.profit,
         }),
-        { revenue: 0, costTotal: 0, profit: 0 },
+        { grossRevenue: 0, taxAmount: 0, revenue: 0, itAmount: 0, costTotal: 0, profit: 0 },
       )
       const avgMargin = totals.revenue > 0 ? (totals.profit / totals.revenue) * 100 : 0
 
@@ -514,6 +600,75 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
     },
   )
 
+  // Promotion usage on processed quotes: price given away on discounted units and free goods delivered.
+  app.get(
+    '/api/v1/reports/sales/promotions',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.ReportSalesRead)],
+    },
+    async (request, reply) => {
+      const parsed = dateRangeQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const { from, to } = parsed.data
+
+      const rows = await db.$queryRaw<PromotionUsageRow[]>`
+        SELECT
+          pr.id as "promotionId",
+          pr.code,
+          pr.name,
+          pr.type::text as "type",
+          count(distinct q.id) as "quotesCount",
+          sum(CASE WHEN ql."isBonus" THEN 0 ELSE ql.quantity END)::text as "discountedUnits",
+          sum(CASE WHEN ql."isBonus" OR ql."basePrice" IS NULL THEN 0 ELSE (ql."basePrice" - ql."unitPrice") * ql.quantity * q."exchangeRate" END)::text as "discountAmount",
+          sum(CASE WHEN ql."isBonus" THEN ql.quantity ELSE 0 END)::text as "bonusUnits",
+          sum(CASE WHEN ql."isBonus" THEN ql.quantity * COALESCE(p.price, 0) ELSE 0 END)::text as "bonusValue",
+          sum(CASE WHEN ql."isBonus" THEN ql.quantity * COALESCE(p.cost, 0) ELSE 0 END)::text as "bonusCost"
+        FROM "Quote" q
+        JOIN "QuoteLine" ql
+          ON ql."quoteId" = q.id
+          AND ql."tenantId" = q."tenantId"
+        JOIN "Promotion" pr
+          ON pr.id = ql."promotionId"
+        JOIN "Product" p
+          ON p.id = ql."productId"
+        WHERE q."tenantId" = ${tenantId}
+          AND q.status = 'PROCESSED'::"QuoteStatus"
+          AND (${from ?? null}::timestamptz IS NULL OR q."processedAt" >= ${from ?? null})
+          AND (${to ?? null}::timestamptz IS NULL OR q."processedAt" < ${to ?? null})
+        GROUP BY pr.id, pr.code, pr.name, pr.type
+        ORDER BY count(distinct q.id) DESC, pr.code ASC
+      `
+
+      const items = rows.map((r) => ({
+        promotionId: r.promotionId,
+        code: r.code,
+        name: r.name,
+        type: r.type,
+        quotesCount: Number(r.quotesCount),
+        discountedUnits: Number(r.discountedUnits ?? '0'),
+        discountAmount: Number(r.discountAmount ?? '0'),
+        bonusUnits: Number(r.bonusUnits ?? '0'),
+        // Bonus units valued at list price and at cost.
+        bonusValue: Number(r.bonusValue ?? '0'),
+        bonusCost: Number(r.bonusCost ?? '0'),
+      }))
+
+      const totals = items.reduce(
+        (acc, i) => ({
+          discountAmount: acc.discountAmount + i.discountAmount,
+          bonusUnits: acc.bonusUnits + i.bonusUnits,
+          bonusValue: acc.bonusValue + i.bonusValue,
+          bonusCost: acc.bonusCost + i.bonusCost,
+        }),
+        { discountAmount: 0, bonusUnits: 0, bonusValue: 0, bonusCost: 0 },
+      )
+
+      return reply.send({ items, totals })
+    },
+  )
+
   // Low stock / stock alerts report
   app.get(
     '/api/v1/reports/stock/low-stock',
@@ -958,7 +1113,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           p.sku as "sku",
           p.name as "name",
           sum(sol.quantity)::text as "quantity",
-          sum(sol.quantity * sol."unitPrice")::text as "amount"
+          sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
         FROM "SalesOrder" so
         JOIN "SalesOrderLine" sol
           ON sol."salesOrderId" = so.id
@@ -970,7 +1125,7 @@ export async function registerReportRoutes(app: FastifyInstance): Promise<void>
           AND (${from ?? null}::timestamptz IS NULL OR so."createdAt" >= ${from ?? null})
           AND (${to ?? null}::timestamptz IS NULL OR so."createdAt" < ${to ?? null})
         GROUP BY p.id, p.sku, p.name
-        ORDER BY sum(sol.quantity * sol."unitPrice") DESC NULLS LAST
+        ORDER BY sum(sol.quantity * sol."unitPrice" * so."exchangeRate") DESC NULLS LAST
         LIMIT ${take}
       `
 
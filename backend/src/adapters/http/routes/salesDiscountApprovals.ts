@@ -0,0 +1,276 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const limitUpdateSchema = z.object({
+  maxLineDiscountPct: z.number().min(0).max(100),
+  maxGlobalDiscountPct: z.number().min(0).max(100),
+})
+
+const approvalListQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED']).optional(),
+})
+
+const decisionSchema = z.object({
+  comment: z.string().trim().max(500).optional(),
+})
+
+export async function registerSalesDiscountApprovalRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  async function userNames(tenantId: string, ids: Array<string | null>): Promise<Map<string, string>> {
+    const unique = Array.from(new Set(ids.filter(Boolean))) as string[]
+    if (unique.length === 0) return new Map()
+    const users = await db.user.findMany({ where: { tenantId, id: { in: unique } }, select: { id: true, fullName: true, email: true } })
+    return new Map(users.map((u) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+  }
+
+  app.get(
+    '/api/v1/sales/discount-limits',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const roles = await db.role.findMany({
+        where: { tenantId },
+        orderBy: [{ name: 'asc' }],
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          discountLimit: { select: { maxLineDiscountPct: true, maxGlobalDiscountPct: true, version: true, updatedAt: true } },
+        },
+      })
+      // A role without a limit is unrestricted.
+      return reply.send({
+        items: roles.map(({ discountLimit, ...role }) => ({
+          role,
+          limit: discountLimit
+            ? {
+                ...discountLimit,
+                maxLineDiscountPct: toNumber(discountLimit.maxLineDiscountPct),
+                maxGlobalDiscountPct: toNumber(discountLimit.maxGlobalDiscountPct),
+              }
+            : null,
+        })),
+      })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/discount-limits/:roleId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.AdminUsersManage)],
+    },
+    async (request, reply) => {
+      const roleId = (request.params as any).roleId as string
+      const parsed = limitUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const role = await db.role.findFirst({ where: { id: roleId, tenantId }, select: { id: true } })
+      if (!role) return reply.status(404).send({ message: 'Not found' })
+
+      const limitSelect = { id: true, roleId: true, maxLineDiscountPct: true, maxGlobalDiscountPct: true, version: true } as const
+      const before = await db.discountLimit.findUnique({ where: { roleId }, select: limitSelect })
+      const data = {
+        maxLineDiscountPct: parsed.data.maxLineDiscountPct.toString(),
+        maxGlobalDiscountPct: parsed.data.maxGlobalDiscountPct.toString(),
+        createdBy: userId,
+      }
+      // Applies to quotes saved from now on; pending requests are decided under the limits they were raised with.
+      const limit = await db.discountLimit.upsert({
+        where: { roleId },
+        create: { tenantId, roleId, ...data },
+        update: { ...data, version: { increment: 1 } },
+        select: limitSelect,
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.discount.limit.update',
+        entityType: 'DiscountLimit',
+        entityId: limit.id,
+        before,
+        after: limit,
+      })
+
+      return reply.send({
+        limit: { ...limit, maxLineDiscountPct: toNumber(limit.maxLineDiscountPct), maxGlobalDiscountPct: toNumber(limit.maxGlobalDiscountPct) },
+      })
+    },
+  )
+
+  app.delete(
+    '/api/v1/sales/discount-limits/:roleId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.AdminUsersManage)],
+    },
+    async (request, reply) => {
+      const roleId = (request.params as any).roleId as string
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.discountLimit.findFirst({ where: { roleId, tenantId } })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      await db.discountLimit.delete({ where: { id: before.id } })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.discount.limit.delete',
+        entityType: 'DiscountLimit',
+        entityId: before.id,
+        before,
+      })
+
+      return reply.send({ ok: true })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/quote-approvals',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = approvalListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.quoteApproval.findMany({
+        where: { tenantId, ...(parsed.data.status ? { status: parsed.data.status } : {}) },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        include: {
+          quote: {
+            select: {
+              id: true,
+              number: true,
+              revision: true,
+              status: true,
+              globalDiscountPct: true,
+              customer: { select: { name: true } },
+            },
+          },
+        },
+      })
+
+      const names = await userNames(
+        tenantId,
+        items.flatMap((a) => [a.requestedBy, a.decidedBy]),
+      )
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+
+      return reply.send({
+        items: items.map((a) => ({
+          id: a.id,
+          status: a.status,
+          revision: a.revision,
+          violations: a.violations,
+          comment: a.comment,
+          requestedBy: a.requestedBy ? names.get(a.requestedBy) ?? null : null,
+          decidedBy: a.decidedBy ? names.get(a.decidedBy) ?? null : null,
+          decidedAt: a.decidedAt ? a.decidedAt.toISOString() : null,
+          createdAt: a.createdAt.toISOString(),
+          quote: {
+            id: a.quote.id,
+            number: a.quote.number,
+            revision: a.quote.revision,
+            status: a.quote.status,
+            customerName: a.quote.customer.name,
+          },
+        })),
+        nextCursor,
+      })
+    },
+  )
+
+  for (const [path, decision] of [
+    ['approve', 'APPROVED'],
+    ['reject', 'REJECTED'],
+  ] as const) {
+    app.post(
+      `/api/v1/sales/quote-approvals/:id/${path}`,
+      {
+        preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesDiscountApprove)],
+      },
+      async (request, reply) => {
+        const id = (request.params as any).id as string
+        const parsed = decisionSchema.safeParse(request.body ?? {})
+        if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+        const comment = parsed.data.comment || null
+        if (decision === 'REJECTED' && !comment) return reply.status(400).send({ message: 'Comment is required to reject' })
+
+        const tenantId = request.auth!.tenantId
+        const userId = request.auth!.userId
+
+        const approval = await db.quoteApproval.findFirst({
+          where: { id, tenantId },
+          include: { quote: { select: { id: true, number: true, revision: true, status: true, customer: { select: { name: true } } } } },
+        })
+        if (!approval) return reply.status(404).send({ message: 'Not found' })
+        if (approval.status !== 'PENDING') return reply.status(409).send({ message: 'Approval already decided' })
+
+        const decidedAt = new Date()
+        await db.$transaction(async (tx) => {
+          // Guarded on status so two approvers deciding at once cannot both win.
+          const res = await tx.quoteApproval.updateMany({
+            where: { id, tenantId, status: 'PENDING' },
+            data: { status: decision, decidedBy: userId, decidedAt, comment },
+          })
+          if (res.count === 0) {
+            const err = new Error('Approval already decided') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+          // Approval releases the quote for processing; a rejected quote stays pending until the seller edits it.
+          if (decision === 'APPROVED') {
+            await tx.quote.updateMany({
+              where: { id: approval.quoteId, tenantId, status: 'PENDING_APPROVAL', revision: approval.revision },
+              data: { status: 'CREATED', version: { increment: 1 } },
+            })
+          }
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: decision === 'APPROVED' ? 'sales.quote.approval.approve' : 'sales.quote.approval.reject',
+          entityType: 'QuoteApproval',
+          entityId: id,
+          before: { status: 'PENDING' },
+          after: { status: decision, comment, decidedAt },
+          metadata: { quoteId: approval.quoteId, revision: approval.revision },
+        })
+
+        const decidedBy = (await userNames(tenantId, [userId])).get(userId) ?? null
+        app.io?.to(`tenant:${tenantId}`).emit('sales.quote.approval.decided', {
+          approvalId: id,
+          quoteId: approval.quoteId,
+          quoteNumber: approval.quote.number,
+          customerName: approval.quote.customer.name,
+          decision,
+          comment,
+          decidedBy,
+          requesterUserId: approval.requestedBy,
+        })
+
+        return reply.send({ id, status: decision, comment, decidedBy, decidedAt: decidedAt.toISOString() })
+      },
+    )
+  }
+}
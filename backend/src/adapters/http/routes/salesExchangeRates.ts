@@ -0,0 +1,162 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { loadTenantCurrency } from '../../../application/sales/exchangeRates.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const rateCreateSchema = z.object({
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/),
+  // Tenant currency units per unit of `currency`.
+  rate: z.number().positive(),
+  effectiveDate: z.coerce.date(),
+})
+
+const rateListQuerySchema = z.object({
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/)
+    .optional(),
+})
+
+const rateSelect = {
+  id: true,
+  currency: true,
+  rate: true,
+  effectiveDate: true,
+  createdAt: true,
+} as const
+
+function rateResponse(r: { id: string; currency: string; rate: any; effectiveDate: Date; createdAt: Date }) {
+  return {
+    ...r,
+    rate: toNumber(r.rate),
+    effectiveDate: r.effectiveDate.toISOString(),
+    createdAt: r.createdAt.toISOString(),
+  }
+}
+
+export async function registerSalesExchangeRateRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  // Rate history plus the rate each currency has right now (the one a quote saved now would lock).
+  app.get(
+    '/api/v1/sales/exchange-rates',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = rateListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const baseCurrency = await loadTenantCurrency(db, tenantId)
+      const rows = await db.exchangeRate.findMany({
+        where: { tenantId, ...(parsed.data.currency ? { currency: parsed.data.currency.toUpperCase() } : {}) },
+        orderBy: [{ currency: 'asc' }, { effectiveDate: 'desc' }],
+        take: 500,
+        select: rateSelect,
+      })
+
+      const now = new Date()
+      const current = new Map<string, (typeof rows)[number]>()
+      for (const r of rows) {
+        if (r.effectiveDate <= now && !current.has(r.currency)) current.set(r.currency, r)
+      }
+
+      return reply.send({
+        baseCurrency,
+        current: Array.from(current.values()).map((r) => ({
+          currency: r.currency,
+          rate: toNumber(r.rate),
+          effectiveDate: r.effectiveDate.toISOString(),
+        })),
+        items: rows.map(rateResponse),
+      })
+    },
+  )
+
+  // Rates are never edited: a correction is a new rate for the same date after deleting the wrong one.
+  // Documents already priced keep the rate they locked.
+  app.post(
+    '/api/v1/sales/exchange-rates',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const parsed = rateCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const currency = parsed.data.currency.toUpperCase()
+      if (currency === (await loadTenantCurrency(db, tenantId))) {
+        return reply.status(400).send({ message: 'The tenant currency has no exchange rate' })
+      }
+
+      try {
+        const created = await db.exchangeRate.create({
+          data: {
+            tenantId,
+            currency,
+            rate: parsed.data.rate.toString(),
+            effectiveDate: parsed.data.effectiveDate,
+            createdBy: userId,
+          },
+          select: rateSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.exchangeRate.create',
+          entityType: 'ExchangeRate',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(rateResponse(created))
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Exchange rate already exists for that date' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.delete(
+    '/api/v1/sales/exchange-rates/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.exchangeRate.findFirst({ where: { id, tenantId }, select: rateSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      await db.exchangeRate.delete({ where: { id } })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.exchangeRate.delete',
+        entityType: 'ExchangeRate',
+        entityId: id,
+        before,
+      })
+
+      return reply.send({ ok: true })
+    },
+  )
+}
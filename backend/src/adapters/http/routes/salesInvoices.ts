@@ -0,0 +1,325 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { invoiceResponse, invoiceSelect, issueInvoice, submitInvoice } from '../../../application/invoicing/invoiceService.js'
+
+const settingsUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  nit: z.string().trim().regex(/^\d{5,13}$/),
+  businessName: z.string().trim().min(1).max(200),
+  municipality: z.string().trim().min(1).max(100),
+  address: z.string().trim().max(300).optional(),
+  phone: z.string().trim().max(50).optional(),
+  economicActivity: z.string().trim().regex(/^\d{1,10}$/),
+  productCodeSin: z.string().trim().regex(/^\d{1,10}$/).default('99100'),
+  legend: z.string().trim().min(1).max(500),
+  modality: z.union([z.literal(1), z.literal(2)]).default(1),
+  environment: z.union([z.literal(1), z.literal(2)]).default(2),
+})
+
+const branchUpdateSchema = z.object({
+  branchCode: z.number().int().min(0).max(9999),
+  pointOfSale: z.number().int().min(0).max(9999).default(0),
+})
+
+const invoiceCreateSchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+})
+
+const listQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  submissionStatus: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']).optional(),
+})
+
+const settingsSelect = {
+  nit: true,
+  businessName: true,
+  municipality: true,
+  address: true,
+  phone: true,
+  economicActivity: true,
+  productCodeSin: true,
+  legend: true,
+  modality: true,
+  environment: true,
+  version: true,
+  updatedAt: true,
+} as const
+
+export async function registerSalesInvoiceRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  async function tenantEnvironment(tenantId: string): Promise<number> {
+    const s = await db.invoicingSettings.findUnique({ where: { tenantId }, select: { environment: true } })
+    return s?.environment ?? 2
+  }
+
+  app.get(
+    '/api/v1/sales/invoicing/settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const settings = await db.invoicingSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      return reply.send({ settings })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/invoicing/settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesInvoiceWrite)],
+    },
+    async (request, reply) => {
+      const parsed = settingsUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const { version, ...input } = parsed.data
+
+      const before = await db.invoicingSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      if ((before?.version ?? 1) !== version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const data = { ...input, address: input.address || null, phone: input.phone || null, createdBy: userId }
+      const updated = before
+        ? await db.invoicingSettings.update({ where: { tenantId }, data: { ...data, version: { increment: 1 } }, select: settingsSelect })
+        : await db.invoicingSettings.create({ data: { tenantId, ...data }, select: settingsSelect })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.invoicing.settings.update',
+        entityType: 'InvoicingSettings',
+        entityId: tenantId,
+        before,
+        after: updated,
+      })
+
+      return reply.send({ settings: updated })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/invoicing/branches',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const warehouses = await db.warehouse.findMany({
+        where: { tenantId, isActive: true },
+        orderBy: [{ code: 'asc' }],
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          city: true,
+          invoiceBranch: { select: { id: true, branchCode: true, pointOfSale: true, lastNumber: true, cufdExpiresAt: true } },
+        },
+      })
+      return reply.send({
+        items: warehouses.map(({ invoiceBranch, ...w }) => ({ warehouse: w, branch: invoiceBranch })),
+      })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/invoicing/branches/:warehouseId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesInvoiceWrite)],
+    },
+    async (request, reply) => {
+      const warehouseId = (request.params as any).warehouseId as string
+      const parsed = branchUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const warehouse = await db.warehouse.findFirst({ where: { id: warehouseId, tenantId }, select: { id: true } })
+      if (!warehouse) return reply.status(404).send({ message: 'Not found' })
+
+      const branchSelect = { id: true, warehouseId: true, branchCode: true, pointOfSale: true, lastNumber: true } as const
+      const before = await db.invoiceBranch.findUnique({ where: { warehouseId }, select: branchSelect })
+
+      try {
+        // Changing codes resets the CUFD (it is issued per branch / point of sale); the counter is kept.
+        const branch = await db.invoiceBranch.upsert({
+          where: { warehouseId },
+          create: { tenantId, warehouseId, ...parsed.data, createdBy: userId },
+          update: {
+            ...parsed.data,
+            cufd: null,
+            cufdControlCode: null,
+            cufdExpiresAt: null,
+            version: { increment: 1 },
+            createdBy: userId,
+          },
+          select: branchSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.invoicing.branch.update',
+          entityType: 'InvoiceBranch',
+          entityId: branch.id,
+          before,
+          after: branch,
+        })
+
+        return reply.send({ branch })
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Branch code and point of sale already in use' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/invoices',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = listQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.invoice.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.orderId ? { salesOrderId: parsed.data.orderId } : {}),
+          ...(parsed.data.customerId ? { customerId: parsed.data.customerId } : {}),
+          ...(parsed.data.submissionStatus ? { submissionStatus: parsed.data.submissionStatus } : {}),
+        },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ issuedAt: 'desc' }, { id: 'desc' }],
+        select: invoiceSelect,
+      })
+
+      const environment = await tenantEnvironment(tenantId)
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+      return reply.send({ items: items.map((i) => invoiceResponse(i, environment)), nextCursor })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/invoices/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const invoice = await db.invoice.findFirst({ where: { id, tenantId }, select: invoiceSelect })
+      if (!invoice) return reply.status(404).send({ message: 'Not found' })
+
+      return reply.send(invoiceResponse(invoice, await tenantEnvironment(tenantId)))
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/invoices/:id/xml',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const invoice = await db.invoice.findFirst({ where: { id, tenantId }, select: { number: true, xml: true, branch: { select: { branchCode: true } } } })
+      if (!invoice) return reply.status(404).send({ message: 'Not found' })
+
+      return reply
+        .type('application/xml; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="factura_${invoice.branch.branchCode}_${invoice.number}.xml"`)
+        .send(invoice.xml)
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/orders/:id/invoice',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesInvoiceWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = invoiceCreateSchema.safeParse(request.body ?? {})
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      try {
+        const invoice = await issueInvoice(db, { tenantId, userId, orderId: id, warehouseId: parsed.data.warehouseId })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.invoice.issue',
+          entityType: 'Invoice',
+          entityId: invoice.id,
+          after: { ...invoice, lines: undefined },
+          metadata: { orderId: id, warehouseId: parsed.data.warehouseId ?? null },
+        })
+
+        app.io?.to(`tenant:${tenantId}`).emit('sales.invoice.issued', {
+          id: invoice.id,
+          number: invoice.number,
+          orderId: invoice.salesOrder.id,
+          orderNumber: invoice.salesOrder.number,
+          customerName: invoice.customerName,
+          total: invoice.total,
+          submissionStatus: invoice.submissionStatus,
+        })
+
+        return reply.status(201).send(invoice)
+      } catch (e: any) {
+        // Concurrent issue for the same order: the losing transaction rolls back its number.
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Order already invoiced' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/invoices/:id/submit',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesInvoiceWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const invoice = await submitInvoice(db, { tenantId, invoiceId: id })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.invoice.submit',
+        entityType: 'Invoice',
+        entityId: id,
+        after: { submissionStatus: invoice.submissionStatus, submissionCode: invoice.submissionCode, submissionMessage: invoice.submissionMessage },
+      })
+
+      return reply.send(invoice)
+    },
+  )
+}
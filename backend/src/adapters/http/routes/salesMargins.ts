@@ -0,0 +1,76 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { DEFAULT_MIN_MARGIN_PCT } from '../../../application/sales/marginGuard.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const settingsUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  minMarginPct: z.number().min(0).max(100),
+})
+
+const settingsSelect = {
+  minMarginPct: true,
+  version: true,
+  updatedAt: true,
+} as const
+
+function settingsResponse(row: { minMarginPct: any; version: number; updatedAt: Date }) {
+  return { ...row, minMarginPct: toNumber(row.minMarginPct) }
+}
+
+export async function registerSalesMarginRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/margin-settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const row = await db.marginSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      // Defaults are reported as version 1 so the first save creates the row.
+      return reply.send(row ? settingsResponse(row) : { minMarginPct: DEFAULT_MIN_MARGIN_PCT, version: 1, updatedAt: null })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/margin-settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.AdminUsersManage)],
+    },
+    async (request, reply) => {
+      const parsed = settingsUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const { version, minMarginPct } = parsed.data
+
+      const before = await db.marginSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      if ((before?.version ?? 1) !== version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const data = { minMarginPct: minMarginPct.toString(), createdBy: userId }
+      const updated = before
+        ? await db.marginSettings.update({ where: { tenantId }, data: { ...data, version: { increment: 1 } }, select: settingsSelect })
+        : await db.marginSettings.create({ data: { tenantId, ...data }, select: settingsSelect })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.margin.settings.update',
+        entityType: 'MarginSettings',
+        entityId: tenantId,
+        before,
+        after: updated,
+      })
+
+      return reply.send(settingsResponse(updated))
+    },
+  )
+}
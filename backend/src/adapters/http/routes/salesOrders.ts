@@ -5,11 +5,28 @@ import { AuditService } from '../../../application/audit/auditService.js'
 import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
 import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { instalmentSchedule, paymentTermRule, paymentTermRuleSelect } from '../../../application/sales/paymentTerms.js'
+import { CreditHoldError, computeCustomerCreditStatus, isCreditPaymentMode } from '../../../application/sales/creditService.js'
+import { fromBaseAmount, toBaseAmount } from '../../../application/sales/exchangeRates.js'
+import { BelowCostError, loadMinMarginPct, quoteLineMargins } from '../../../application/sales/marginGuard.js'
+import { resolveCustomerPrices } from '../../../application/sales/priceLists.js'
+import { loadTaxRates, productTaxPct, splitTax } from '../../../application/sales/taxes.js'
+import {
+  cancelLineTransfers,
+  cancelOrderTransferRequests,
+  createTransferPlan,
+  lineSources,
+  type CrossCityPortion,
+} from '../../../application/sales/transferPlans.js'
+import { assertLocationsNotFrozen } from '../../../application/stock/inventoryCounts.js'
+import { AVAILABLE_BATCH_STATUS, batchNotReleasedError } from '../../../application/stock/batchStatus.js'
+import { startOfTodayUtc } from '../../../application/shared/dates.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
 
 const listQuerySchema = z.object({
   take: z.coerce.number().int().min(1).max(50).default(20),
   cursor: z.string().uuid().optional(),
-  status: z.enum(['DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED']).optional(),
+  status: z.enum(['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED']).optional(),
   customerSearch: z.string().optional(),
 })
 
@@ -38,6 +55,46 @@ const orderDeliverSchema = z.object({
   version: z.number().int().positive(),
   fromLocationId: z.string().uuid().optional(),
   note: z.string().trim().max(500).optional(),
+  // Quantities actually handed over per line. When omitted, everything still pending is delivered.
+  lines: z
+    .array(z.object({ lineId: z.string().uuid(), quantity: z.number().min(0) }))
+    .min(1)
+    .optional(),
+  // Drop the undelivered remainder instead of keeping it as a backorder.
+  closeBackorder: z.boolean().default(false),
+})
+
+const orderCancelReasons = ['CUSTOMER_REQUEST', 'OUT_OF_STOCK', 'PRICING_ERROR', 'DUPLICATE', 'DELIVERY_FAILED', 'OTHER'] as const
+
+const orderCancelSchema = z.object({
+  version: z.number().int().positive(),
+  reason: z.enum(orderCancelReasons),
+  note: z.string().trim().max(500).optional(),
+  // Put the source quote back to CREATED so it can be edited and processed again.
+  reopenQuote: z.boolean().default(false),
+})
+
+// Line edits of a CONFIRMED order. `lineId` changes an existing line (quantity 0 removes it);
+// `productId` adds a new line.
+const orderLinesUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  lines: z
+    .array(
+      z
+        .object({
+          lineId: z.string().uuid().optional(),
+          productId: z.string().uuid().optional(),
+          quantity: z.number().min(0),
+          // New lines only, in the order currency and entered like quote prices (see tax settings).
+          // Defaults to the customer's price list or the product price.
+          unitPrice: z.number().min(0).optional(),
+        })
+        .refine((l) => !!l.lineId !== !!l.productId, { message: 'Provide either lineId or productId' })
+        .refine((l) => !l.productId || l.quantity > 0, { message: 'New lines need a positive quantity' }),
+    )
+    .min(1),
+  overrideCreditHold: z.boolean().optional(),
+  overrideReason: z.string().trim().min(3).max(500).optional(),
 })
 
 type LockedBalanceRow = { id: string; quantity: string }
@@ -61,13 +118,16 @@ async function fulfillOrderInTx(
     fromLocationId: string
     note?: string
     deliveredAt?: Date
+    // Per-line quantities to deliver (lines not present deliver nothing). Defaults to the pending quantity of every line.
+    quantities?: Map<string, number>
+    closeBackorder?: boolean
   },
 ): Promise<{ orderBefore: any; updatedOrder: any; createdMovements: any[]; changedBalances: any[] }> {
   const todayUtc = startOfTodayUtc()
 
   const order = await tx.salesOrder.findFirst({
     where: { id: args.orderId, tenantId: args.tenantId },
-    select: { id: true, number: true, status: true, version: true, customerId: true, paymentMode: true },
+    select: { id: true, number: true, status: true, version: true, customerId: true, paymentMode: true, deliveredAt: true },
   })
   if (!order) {
     const err = new Error('Not found') as Error & { statusCode?: number }
@@ -79,15 +139,12 @@ async function fulfillOrderInTx(
     err.statusCode = 409
     throw err
   }
-  if (order.status !== 'CONFIRMED') {
+  if (order.status !== 'CONFIRMED' && order.status !== 'PARTIALLY_FULFILLED') {
     const err = new Error('Only CONFIRMED orders can be fulfilled') as Error & { statusCode?: number }
     err.statusCode = 409
     throw err
   }
 
-  // Order is being fulfilled: release reservations first so reservedQuantity doesn't linger.
-  await releaseReservationsForOrder(tx, { tenantId: args.tenantId, orderId: order.id, userId: args.userId })
-
   const location = await tx.location.findFirst({
     where: { id: args.fromLocationId, tenantId: args.tenantId, isActive: true },
     select: { id: true },
@@ -97,18 +154,39 @@ async function fulfillOrderInTx(
     err.statusCode = 404
     throw err
   }
+  await assertLocationsNotFrozen(tx, args.tenantId, [location.id])
 
-  const lines = await tx.salesOrderLine.findMany({
+  const orderLines = await tx.salesOrderLine.findMany({
     where: { tenantId: args.tenantId, salesOrderId: order.id },
-    select: { id: true, productId: true, batchId: true, quantity: true },
+    select: { id: true, productId: true, batchId: true, quantity: true, deliveredQuantity: true },
     orderBy: { createdAt: 'asc' },
   })
-  if (lines.length === 0) {
+  if (orderLines.length === 0) {
     const err = new Error('Order has no lines') as Error & { statusCode?: number }
     err.statusCode = 409
     throw err
   }
 
+  const deliverQtyByLineId = resolveDeliverQuantities(orderLines, args.quantities, { allowEmpty: !!args.closeBackorder })
+  const lines = orderLines
+    .filter((l: any) => (deliverQtyByLineId.get(l.id) ?? 0) > 0)
+    .map((l: any) => ({ ...l, quantity: deliverQtyByLineId.get(l.id)! }))
+
+  // Stock is taken from fromLocationId rather than from the reservations, so give back what this delivery
+  // covers; the rest stays reserved for the backorder (everything when the backorder is closed).
+  const backorderByLineId = new Map<string, number>()
+  for (const l of orderLines) {
+    const pending = toNumber(l.quantity) - toNumber(l.deliveredQuantity) - (deliverQtyByLineId.get(l.id) ?? 0)
+    backorderByLineId.set(l.id, args.closeBackorder ? 0 : Math.max(0, pending))
+  }
+  const releasedBalances = await trimReservationsToBackorder(tx, {
+    tenantId: args.tenantId,
+    orderId: order.id,
+    userId: args.userId,
+    preferLocationId: location.id,
+    backorderByLineId,
+  })
+
   const selectFefoBatchId = async (productId: string, qty: number): Promise<string | null> => {
     // Prefer batches with an expiry date (soonest first)
     const withExpiry = await tx.inventoryBalance.findMany({
@@ -118,7 +196,7 @@ async function fulfillOrderInTx(
         productId,
         batchId: { not: null },
         quantity: { gte: qty },
-        batch: { expiresAt: { not: null, gte: todayUtc } },
+        batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: { not: null, gte: todayUtc } },
       },
       take: 1,
       orderBy: [{ batch: { expiresAt: 'asc' } }, { id: 'asc' }],
@@ -134,7 +212,7 @@ async function fulfillOrderInTx(
         productId,
         batchId: { not: null },
         quantity: { gte: qty },
-        batch: { expiresAt: null },
+        batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: null },
       },
       take: 1,
       orderBy: [{ id: 'asc' }],
@@ -164,7 +242,7 @@ async function fulfillOrderInTx(
     if (!batchId) continue
     const batch = await tx.batch.findFirst({
       where: { id: batchId, tenantId: args.tenantId, productId: line.productId },
-      select: { id: true, expiresAt: true, batchNumber: true },
+      select: { id: true, expiresAt: true, batchNumber: true, status: true },
     })
     if (!batch) {
       const err = new Error('Batch not found') as Error & { statusCode?: number }
@@ -178,6 +256,7 @@ async function fulfillOrderInTx(
       err.meta = { batchId: batch.id, batchNumber: batch.batchNumber, expiresAt: batch.expiresAt.toISOString() }
       throw err
     }
+    if (batch.status !== AVAILABLE_BATCH_STATUS) throw batchNotReleasedError(batch)
   }
 
   // Lock balances for each (product,batch) in this location
@@ -203,7 +282,7 @@ async function fulfillOrderInTx(
     await lockBalance(line.productId, batchId)
   }
 
-  const changedBalances: any[] = []
+  const changedBalances: any[] = [...releasedBalances]
   const createdMovements: any[] = []
   const year = currentYearUtc()
 
@@ -278,11 +357,37 @@ async function fulfillOrderInTx(
     createdMovements.push(movement)
   }
 
+  for (const line of lines) {
+    await tx.salesOrderLine.update({
+      where: { id: line.id },
+      data: { deliveredQuantity: { increment: Number(line.quantity) }, version: { increment: 1 } },
+      select: { id: true },
+    })
+  }
+
+  const fullyDelivered = orderLines.every(
+    (l: any) => toNumber(l.deliveredQuantity) + (deliverQtyByLineId.get(l.id) ?? 0) + 1e-9 >= toNumber(l.quantity),
+  )
+
+  if (args.closeBackorder && nothingDelivered(orderLines, deliverQtyByLineId)) {
+    const updatedOrder = await cancelUndeliveredOrder(tx, {
+      tenantId: args.tenantId,
+      orderId: order.id,
+      userId: args.userId,
+      note: args.note ?? null,
+    })
+    return { orderBefore: order, updatedOrder, createdMovements, changedBalances }
+  }
+
   const updatedOrder = await tx.salesOrder.update({
     where: { id: order.id },
     data: {
-      status: 'FULFILLED',
-      ...(args.deliveredAt !== undefined ? { deliveredAt: args.deliveredAt } : {}),
+      status: fullyDelivered || args.closeBackorder ? 'FULFILLED' : 'PARTIALLY_FULFILLED',
+      // Due dates run from the first delivery, so later partial deliveries don't push back what is already owed.
+      ...(args.deliveredAt !== undefined && !order.deliveredAt ? { deliveredAt: args.deliveredAt } : {}),
+      // The delivery adds to the balance, so an order settled after an earlier partial delivery is due again.
+      paidAt: null,
+      paidBy: null,
       version: { increment: 1 },
       createdBy: args.userId,
     },
@@ -292,8 +397,66 @@ async function fulfillOrderInTx(
   return { orderBefore: order, updatedOrder, createdMovements, changedBalances }
 }
 
-function decimalFromNumber(value: number): string {
-  return value.toString()
+function nothingDelivered(lines: Array<{ id: string; deliveredQuantity: any }>, deliverQtyByLineId: Map<string, number>): boolean {
+  return lines.every((l) => toNumber(l.deliveredQuantity) + (deliverQtyByLineId.get(l.id) ?? 0) <= 1e-9)
+}
+
+// Closing the backorder of an order that never had a delivery leaves nothing to bill: cancel it instead.
+async function cancelUndeliveredOrder(
+  tx: any,
+  args: { tenantId: string; orderId: string; userId: string; note: string | null },
+): Promise<any> {
+  await cancelOrderTransferRequests(tx, { tenantId: args.tenantId, orderId: args.orderId })
+  return tx.salesOrder.update({
+    where: { id: args.orderId },
+    data: {
+      status: 'CANCELLED',
+      cancelledAt: new Date(),
+      cancelledBy: args.userId,
+      cancelReason: 'OTHER',
+      cancelNote: args.note,
+      version: { increment: 1 },
+      createdBy: args.userId,
+    },
+    select: { id: true, number: true, status: true, version: true, paymentMode: true, deliveredAt: true, cancelledAt: true, updatedAt: true },
+  })
+}
+
+function resolveDeliverQuantities(
+  lines: Array<{ id: string; quantity: any; deliveredQuantity: any }>,
+  requested?: Map<string, number>,
+  opts?: { allowEmpty?: boolean },
+): Map<string, number> {
+  if (requested) {
+    const lineIds = new Set(lines.map((l) => l.id))
+    for (const lineId of requested.keys()) {
+      if (!lineIds.has(lineId)) {
+        const err = new Error('Order line not found') as Error & { statusCode?: number }
+        err.statusCode = 400
+        throw err
+      }
+    }
+  }
+
+  const result = new Map<string, number>()
+  for (const l of lines) {
+    const pending = Math.max(0, toNumber(l.quantity) - toNumber(l.deliveredQuantity))
+    const qty = requested ? requested.get(l.id) ?? 0 : pending
+    if (qty > pending + 1e-9) {
+      const err = new Error('Delivered quantity exceeds pending quantity') as Error & { statusCode?: number }
+      err.statusCode = 409
+      throw err
+    }
+    result.set(l.id, qty)
+  }
+
+  const total = Array.from(result.values()).reduce((sum, q) => sum + q, 0)
+  if (total <= 0 && !opts?.allowEmpty) {
+    const err = new Error('Nothing to deliver') as Error & { statusCode?: number }
+    err.statusCode = 400
+    throw err
+  }
+  return result
 }
 
 function generateOrderNumber(): string {
@@ -307,30 +470,6 @@ function generateOrderNumber(): string {
   return `SO-${y}${m}${day}-${rand}`
 }
 
-function startOfTodayUtc(): Date {
-  const now = new Date()
-  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0, 0))
-}
-
-function toNumber(value: any): number {
-  const n = typeof value === 'number' ? value : Number(value)
-  return Number.isFinite(n) ? n : 0
-}
-
-function addDaysUtc(date: Date, days: number): Date {
-  const ms = date.getTime() + Math.max(0, days) * 24 * 60 * 60 * 1000
-  return new Date(ms)
-}
-
-function parseCreditDays(paymentMode: string): number {
-  const mode = (paymentMode ?? '').trim().toUpperCase()
-  if (mode === 'CASH') return 0
-  const m = mode.match(/^CREDIT_(\d{1,3})$/)
-  if (!m) return 0
-  const days = Number(m[1])
-  return Number.isFinite(days) ? Math.max(0, days) : 0
-}
-
 async function reserveForOrder(
   tx: any,
   args: {
@@ -338,13 +477,26 @@ async function reserveForOrder(
     userId: string
     orderId: string
     preferCity?: string | null
-    lines: Array<{ id: string; productId: string; batchId: string | null; quantity: any }>
+    lines: Array<{ id: string; productId: string; productName: string; batchId: string | null; quantity: any }>
   },
-): Promise<void> {
+): Promise<{ changedBalances: any[]; unreservedByLineId: Map<string, number>; crossCity: CrossCityPortion[] }> {
   const todayUtc = startOfTodayUtc()
   const preferCity = typeof args.preferCity === 'string' ? args.preferCity.trim().toUpperCase() : null
-
-  // Reserve from balances across tenant (FEFO). If stock is insufficient, reserve partially.
+  const changedBalances: any[] = []
+  const unreservedByLineId = new Map<string, number>()
+  // What is reserved outside preferCity has to be transferred there.
+  const crossCity: CrossCityPortion[] = []
+  const balanceSelect = {
+    id: true,
+    locationId: true,
+    batchId: true,
+    quantity: true,
+    reservedQuantity: true,
+    location: { select: { warehouse: { select: { city: true, transferLeadDays: true } } } },
+  } as const
+
+  // Reserve from balances across tenant (FEFO). If stock is insufficient, reserve partially
+  // and report what is left unreserved per line.
   for (const line of args.lines) {
     let remaining = Math.max(0, toNumber(line.quantity))
     if (remaining <= 0) continue
@@ -364,11 +516,11 @@ async function reserveForOrder(
             productId: line.productId,
             batchId: line.batchId,
             quantity: { gt: 0 },
-            location: { isActive: true, warehouse: { isActive: true, city: preferCity } },
-            batch: { status: 'RELEASED', OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] },
+            location: { isActive: true, isQuarantine: false, warehouse: { isActive: true, city: preferCity } },
+            batch: { status: AVAILABLE_BATCH_STATUS, OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] },
           },
           orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-          select: { id: true, quantity: true, reservedQuantity: true },
+          select: balanceSelect,
         })
         lists.push(sameCity)
       }
@@ -379,17 +531,17 @@ async function reserveForOrder(
           productId: line.productId,
           batchId: line.batchId,
           quantity: { gt: 0 },
-          location: { isActive: true, warehouse: { isActive: true } },
-          batch: { status: 'RELEASED', OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] },
+          location: { isActive: true, isQuarantine: false, warehouse: { isActive: true } },
+          batch: { status: AVAILABLE_BATCH_STATUS, OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] },
         },
         orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
+        select: balanceSelect,
       })
       lists.push(anyCity)
     } else {
-      const locBase = { isActive: true, warehouse: { isActive: true } }
+      const locBase = { isActive: true, isQuarantine: false, warehouse: { isActive: true } }
 
-      const sameCityLoc = preferCity ? { isActive: true, warehouse: { isActive: true, city: preferCity } } : null
+      const sameCityLoc = preferCity ? { isActive: true, isQuarantine: false, warehouse: { isActive: true, city: preferCity } } : null
 
       if (sameCityLoc) {
         const withExpirySame = await tx.inventoryBalance.findMany({
@@ -399,10 +551,10 @@ async function reserveForOrder(
             batchId: { not: null },
             quantity: { gt: 0 },
             location: sameCityLoc,
-            batch: { status: 'RELEASED', expiresAt: { not: null, gte: todayUtc } },
+            batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: { not: null, gte: todayUtc } },
           },
           orderBy: [{ batch: { expiresAt: 'asc' } }, { updatedAt: 'desc' }, { id: 'asc' }],
-          select: { id: true, quantity: true, reservedQuantity: true },
+          select: balanceSelect,
         })
 
         const withoutExpirySame = await tx.inventoryBalance.findMany({
@@ -412,10 +564,10 @@ async function reserveForOrder(
             batchId: { not: null },
             quantity: { gt: 0 },
             location: sameCityLoc,
-            batch: { status: 'RELEASED', expiresAt: null },
+            batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: null },
           },
           orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-          select: { id: true, quantity: true, reservedQuantity: true },
+          select: balanceSelect,
         })
 
         const unbatchedSame = await tx.inventoryBalance.findMany({
@@ -427,7 +579,7 @@ async function reserveForOrder(
             location: sameCityLoc,
           },
           orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-          select: { id: true, quantity: true, reservedQuantity: true },
+          select: balanceSelect,
         })
 
         lists.push(withExpirySame, withoutExpirySame, unbatchedSame)
@@ -440,10 +592,10 @@ async function reserveForOrder(
           batchId: { not: null },
           quantity: { gt: 0 },
           location: locBase,
-          batch: { status: 'RELEASED', expiresAt: { not: null, gte: todayUtc } },
+          batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: { not: null, gte: todayUtc } },
         },
         orderBy: [{ batch: { expiresAt: 'asc' } }, { updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
+        select: balanceSelect,
       })
 
       const withoutExpiryAny = await tx.inventoryBalance.findMany({
@@ -453,10 +605,10 @@ async function reserveForOrder(
           batchId: { not: null },
           quantity: { gt: 0 },
           location: locBase,
-          batch: { status: 'RELEASED', expiresAt: null },
+          batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: null },
         },
         orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
+        select: balanceSelect,
       })
 
       const unbatchedAny = await tx.inventoryBalance.findMany({
@@ -468,7 +620,7 @@ async function reserveForOrder(
           location: locBase,
         },
         orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
+        select: balanceSelect,
       })
 
       lists.push(withExpiryAny, withoutExpiryAny, unbatchedAny)
@@ -487,11 +639,12 @@ async function reserveForOrder(
         const take = Math.min(available, remaining)
         remaining -= take
 
-        await tx.inventoryBalance.update({
+        const updatedBalance = await tx.inventoryBalance.update({
           where: { id: b.id },
           data: { reservedQuantity: { increment: take }, version: { increment: 1 }, createdBy: args.userId },
-          select: { id: true },
+          select: { id: true, locationId: true, productId: true, batchId: true, quantity: true, reservedQuantity: true, version: true, updatedAt: true },
         })
+        changedBalances.push(updatedBalance)
 
         await tx.salesOrderReservation.create({
           data: {
@@ -504,31 +657,103 @@ async function reserveForOrder(
           },
           select: { id: true },
         })
+
+        const fromCity = String(b.location?.warehouse?.city ?? '').trim()
+        if (preferCity && fromCity.toUpperCase() !== preferCity) {
+          crossCity.push({
+            lineId: line.id,
+            productId: line.productId,
+            productName: line.productName,
+            batchId: b.batchId ?? null,
+            fromLocationId: b.locationId,
+            fromCity,
+            quantity: take,
+            leadDays: Number(b.location?.warehouse?.transferLeadDays ?? 0),
+          })
+        }
       }
       if (remaining <= 0) break
     }
+    if (remaining > 1e-9) unreservedByLineId.set(line.id, remaining)
   }
+
+  return { changedBalances, unreservedByLineId, crossCity }
 }
 
-async function releaseReservationsForOrder(tx: any, args: { tenantId: string; orderId: string; userId: string }): Promise<void> {
+// Releases the order's reservations, or only those of `lineIds` when given.
+async function releaseReservationsForOrder(
+  tx: any,
+  args: { tenantId: string; orderId: string; userId: string; lineIds?: string[] },
+): Promise<any[]> {
+  const where = {
+    tenantId: args.tenantId,
+    salesOrderId: args.orderId,
+    ...(args.lineIds ? { salesOrderLineId: { in: args.lineIds } } : {}),
+  }
   const reservations = await tx.salesOrderReservation.findMany({
-    where: { tenantId: args.tenantId, salesOrderId: args.orderId },
+    where,
     select: { id: true, inventoryBalanceId: true, quantity: true },
   })
-  if (reservations.length === 0) return
+  if (reservations.length === 0) return []
 
+  const changedBalances: any[] = []
   for (const r of reservations) {
     const q = toNumber(r.quantity)
     if (q > 0) {
-      await tx.inventoryBalance.update({
+      const balance = await tx.inventoryBalance.update({
         where: { id: r.inventoryBalanceId },
         data: { reservedQuantity: { decrement: q }, version: { increment: 1 }, createdBy: args.userId },
-        select: { id: true },
+        select: { id: true, locationId: true, productId: true, batchId: true, quantity: true, reservedQuantity: true, version: true, updatedAt: true },
       })
+      changedBalances.push(balance)
     }
   }
 
-  await tx.salesOrderReservation.deleteMany({ where: { tenantId: args.tenantId, salesOrderId: args.orderId } })
+  await tx.salesOrderReservation.deleteMany({ where })
+  return changedBalances
+}
+
+// Releases reservations beyond each line's backorder quantity, starting with those on `preferLocationId`.
+async function trimReservationsToBackorder(
+  tx: any,
+  args: { tenantId: string; orderId: string; userId: string; preferLocationId: string; backorderByLineId: Map<string, number> },
+): Promise<any[]> {
+  const reservations = await tx.salesOrderReservation.findMany({
+    where: { tenantId: args.tenantId, salesOrderId: args.orderId },
+    select: { id: true, salesOrderLineId: true, inventoryBalanceId: true, quantity: true, balance: { select: { locationId: true } } },
+  })
+
+  const changedBalances: any[] = []
+  for (const [lineId, backorder] of args.backorderByLineId.entries()) {
+    const lineReservations = reservations
+      .filter((r: any) => r.salesOrderLineId === lineId)
+      .sort((a: any, b: any) => Number(b.balance.locationId === args.preferLocationId) - Number(a.balance.locationId === args.preferLocationId))
+    let excess = lineReservations.reduce((sum: number, r: any) => sum + toNumber(r.quantity), 0) - backorder
+    for (const r of lineReservations) {
+      if (excess <= 1e-9) break
+      const q = toNumber(r.quantity)
+      const release = Math.min(q, excess)
+      excess -= release
+
+      if (q - release <= 1e-9) {
+        await tx.salesOrderReservation.delete({ where: { id: r.id } })
+      } else {
+        await tx.salesOrderReservation.update({
+          where: { id: r.id },
+          data: { quantity: decimalFromNumber(q - release) },
+          select: { id: true },
+        })
+      }
+      changedBalances.push(
+        await tx.inventoryBalance.update({
+          where: { id: r.inventoryBalanceId },
+          data: { reservedQuantity: { decrement: release }, version: { increment: 1 }, createdBy: args.userId },
+          select: { id: true, locationId: true, productId: true, batchId: true, quantity: true, reservedQuantity: true, version: true, updatedAt: true },
+        }),
+      )
+    }
+  }
+  return changedBalances
 }
 
 export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<void> {
@@ -536,7 +761,8 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
   const audit = new AuditService(db)
 
   // Deliveries (read-side): orders pending delivery / delivered.
-  // Pending maps to DRAFT+CONFIRMED to support older orders created before we set CONFIRMED on quote processing.
+  // Pending maps to DRAFT+CONFIRMED to support older orders created before we set CONFIRMED on quote processing,
+  // plus PARTIALLY_FULFILLED orders that still have a backorder.
   app.get(
     '/api/v1/sales/deliveries',
     {
@@ -547,7 +773,7 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
       if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
 
       const tenantId = request.auth!.tenantId
-      const statuses = parsed.data.status === 'DELIVERED' ? (['FULFILLED'] as const) : parsed.data.status === 'ALL' ? (['DRAFT', 'CONFIRMED', 'FULFILLED'] as const) : (['DRAFT', 'CONFIRMED'] as const)
+      const statuses = parsed.data.status === 'DELIVERED' ? (['FULFILLED'] as const) : parsed.data.status === 'ALL' ? (['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED'] as const) : (['DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED'] as const)
       const cities = parsed.data.cities ? parsed.data.cities.split(',').map(c => c.toUpperCase().trim()).filter(c => c) : undefined
 
       const items = await db.salesOrder.findMany({
@@ -670,6 +896,7 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
           status: true,
           updatedAt: true,
           createdBy: true,
+          currency: true,
           deliveryDate: true,
           deliveryCity: true,
           deliveryZone: true,
@@ -694,8 +921,8 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
         customerId: o.customer.id,
         customerName: o.customer.name,
         quoteId: o.quote?.id ?? null,
-        quoteNumber: o.quote?.number ?? null,
-        processedBy: o.createdBy ? authorMap.get(o.createdBy) ?? null : null,
+        quoteNumber: o.quote?.number ?? null,        processedBy: o.createdBy ? authorMap.get(o.createdBy) ?? null : null,
+        currency: o.currency,
         deliveryDate: o.deliveryDate ? o.deliveryDate.toISOString() : null,
         deliveryCity: o.deliveryCity,
         deliveryZone: o.deliveryZone,
@@ -727,6 +954,9 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
           status: true,
           note: true,
           version: true,
+          // Line prices are in this currency; exchangeRate converts them to the tenant currency.
+          currency: true,
+          exchangeRate: true,
           createdAt: true,
           updatedAt: true,
           createdBy: true,
@@ -735,6 +965,9 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
           deliveryZone: true,
           deliveryAddress: true,
           deliveryMapsUrl: true,
+          cancelledAt: true,
+          cancelReason: true,
+          cancelNote: true,
           customer: { select: { id: true, name: true, nit: true } },
           quote: { select: { id: true, number: true } },
           lines: {
@@ -743,8 +976,15 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
               productId: true,
               batchId: true,
               quantity: true,
+              deliveredQuantity: true,
+              returnedQuantity: true,
               unitPrice: true,
+              taxPct: true,
+              taxAmount: true,
               product: { select: { sku: true, name: true, genericName: true } },
+              transferPlanLines: {
+                select: { fromCity: true, quantity: true, shippedQuantity: true, expectedArrivalAt: true },
+              },
             },
           },
         },
@@ -762,9 +1002,16 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
       return reply.send({
         ...order,
         processedBy,
+        // Per-line origin: the order city plus the cities still shipping units (with their expected arrival).
+        lines: order.lines.map(({ transferPlanLines, ...l }) => ({
+          ...l,
+          sources: lineSources({ quantity: l.quantity, transferPlanLines }, order.deliveryCity),
+        })),
+        exchangeRate: Number(order.exchangeRate),
         createdAt: order.createdAt.toISOString(),
         updatedAt: order.updatedAt.toISOString(),
         deliveryDate: order.deliveryDate ? order.deliveryDate.toISOString() : null,
+        cancelledAt: order.cancelledAt ? order.cancelledAt.toISOString() : null,
       })
     },
   )
@@ -810,6 +1057,458 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
     },
   )
 
+  // Cancel: release reservations and close the order. Delivered orders must go through a return instead.
+  app.post(
+    '/api/v1/sales/orders/:id/cancel',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = orderCancelSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) => {
+        const order = await tx.salesOrder.findFirst({
+          where: { id, tenantId },
+          select: { id: true, number: true, status: true, version: true, quoteId: true },
+        })
+        if (!order) {
+          const err = new Error('Not found') as Error & { statusCode?: number }
+          err.statusCode = 404
+          throw err
+        }
+        if (order.version !== parsed.data.version) {
+          const err = new Error('Version conflict') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+        if (order.status === 'CANCELLED') {
+          const err = new Error('Order already cancelled') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+        if (order.status === 'FULFILLED') {
+          const err = new Error('Delivered orders cannot be cancelled; register a return instead') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+        if (order.status === 'PARTIALLY_FULFILLED') {
+          const err = new Error('Partially delivered orders cannot be cancelled; close the backorder on delivery instead') as Error & {
+            statusCode?: number
+          }
+          err.statusCode = 409
+          throw err
+        }
+
+        const changedBalances = await releaseReservationsForOrder(tx, { tenantId, orderId: order.id, userId })
+        await cancelOrderTransferRequests(tx, { tenantId, orderId: order.id })
+
+        // The quote <-> order link is unique, so a reopened quote must be detached from the cancelled order.
+        const reopenQuote = parsed.data.reopenQuote && !!order.quoteId
+        const updatedOrder = await tx.salesOrder.update({
+          where: { id: order.id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancelledBy: userId,
+            cancelReason: parsed.data.reason,
+            cancelNote: parsed.data.note ?? null,
+            ...(reopenQuote ? { quoteId: null } : {}),
+            version: { increment: 1 },
+            createdBy: userId,
+          },
+          select: { id: true, number: true, status: true, version: true, cancelledAt: true, cancelReason: true, updatedAt: true },
+        })
+
+        let reopenedQuote: { id: string; number: string; status: string } | null = null
+        if (reopenQuote) {
+          reopenedQuote = await tx.quote.update({
+            where: { id: order.quoteId! },
+            data: { status: 'CREATED', processedAt: null, version: { increment: 1 } },
+            select: { id: true, number: true, status: true },
+          })
+        }
+
+        return { orderBefore: order, updatedOrder, changedBalances, reopenedQuote }
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.order.cancel',
+        entityType: 'SalesOrder',
+        entityId: id,
+        before: result.orderBefore,
+        after: { order: result.updatedOrder, balances: result.changedBalances, reopenedQuote: result.reopenedQuote },
+        metadata: { reason: parsed.data.reason, note: parsed.data.note ?? null },
+      })
+
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('sales.order.cancelled', {
+        ...result.updatedOrder,
+        reopenedQuoteId: result.reopenedQuote?.id ?? null,
+      })
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.send({ order: result.updatedOrder, reopenedQuote: result.reopenedQuote })
+    },
+  )
+
+  // Line edits on a CONFIRMED order: a customer adding or dropping units before delivery.
+  // Changed lines give back their reservations and pending transfers, then reserve again like quote processing:
+  // delivery city first (FEFO), and what only other cities have is planned as a new transfer.
+  app.patch(
+    '/api/v1/sales/orders/:id/lines',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = orderLinesUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const overrideCreditHold = parsed.data.overrideCreditHold === true
+      if (overrideCreditHold) {
+        if (!request.auth!.permissions.has(Permissions.SalesCreditOverride)) return reply.status(403).send({ message: 'Forbidden' })
+        if (!parsed.data.overrideReason) return reply.status(400).send({ message: 'Override reason is required' })
+      }
+
+      let creditOverride: any = null
+      let result: any
+      try {
+        result = await db.$transaction(async (tx) => {
+          const order = await tx.salesOrder.findFirst({
+            where: { id, tenantId },
+            select: {
+              id: true,
+              number: true,
+              status: true,
+              version: true,
+              customerId: true,
+              paymentMode: true,
+              paymentTerm: { select: paymentTermRuleSelect },
+              currency: true,
+              exchangeRate: true,
+              quoteId: true,
+              deliveryDate: true,
+              deliveryCity: true,
+              customer: { select: { city: true } },
+            },
+          })
+          if (!order) {
+            const err = new Error('Not found') as Error & { statusCode?: number }
+            err.statusCode = 404
+            throw err
+          }
+          if (order.version !== parsed.data.version) {
+            const err = new Error('Version conflict') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+          if (order.status !== 'CONFIRMED') {
+            const err = new Error('Only CONFIRMED orders can be edited') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+
+          const existing = await tx.salesOrderLine.findMany({
+            where: { tenantId, salesOrderId: order.id },
+            select: { id: true, productId: true, quantity: true, unitPrice: true, taxPct: true, taxAmount: true },
+            orderBy: { createdAt: 'asc' },
+          })
+          const existingById = new Map(existing.map((l) => [l.id, l] as const))
+          const seenLineIds = new Set<string>()
+          for (const l of parsed.data.lines) {
+            if (!l.lineId) continue
+            if (!existingById.has(l.lineId) || seenLineIds.has(l.lineId)) {
+              const err = new Error('Order line not found or repeated') as Error & { statusCode?: number }
+              err.statusCode = 400
+              throw err
+            }
+            seenLineIds.add(l.lineId)
+          }
+
+          const changes = parsed.data.lines.filter(
+            (l) => l.lineId && Math.abs(toNumber(existingById.get(l.lineId)!.quantity) - l.quantity) > 1e-9,
+          )
+          const removed = changes.filter((l) => l.quantity <= 0)
+          const changed = changes.filter((l) => l.quantity > 0)
+          const added = parsed.data.lines.filter((l) => l.productId)
+          if (changes.length === 0 && added.length === 0) {
+            const err = new Error('No line changes') as Error & { statusCode?: number }
+            err.statusCode = 400
+            throw err
+          }
+          if (existing.length - removed.length + added.length <= 0) {
+            const err = new Error('An order must keep at least one line; cancel it instead') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+
+          // New lines are priced like a quote saved now, converted at the rate the order locked.
+          const exchangeRate = toNumber(order.exchangeRate) || 1
+          const productIds = Array.from(new Set(added.map((l) => l.productId!)))
+          const products = await tx.product.findMany({
+            where: { tenantId, id: { in: productIds }, isActive: true },
+            select: { id: true, name: true, price: true, cost: true, taxCategory: true },
+          })
+          if (products.length !== productIds.length) {
+            const err = new Error('Product not found') as Error & { statusCode?: number }
+            err.statusCode = 400
+            throw err
+          }
+          const productById = new Map(products.map((p) => [p.id, p] as const))
+          const taxRates = await loadTaxRates(tx, tenantId)
+          const { prices: listPrices } = await resolveCustomerPrices(tx, tenantId, order.customerId, productIds)
+          const newLines = added.map((l) => {
+            const p = productById.get(l.productId!)!
+            const price = l.unitPrice ?? fromBaseAmount(listPrices.get(p.id) ?? toNumber(p.price), exchangeRate)
+            const taxPct = productTaxPct(p.taxCategory, taxRates)
+            const split = splitTax(price * l.quantity, taxPct, taxRates.pricesIncludeTax)
+            return { productId: p.id, quantity: l.quantity, price, unitPrice: split.gross / l.quantity, taxPct, taxAmount: split.tax }
+          })
+
+          const belowCost = quoteLineMargins(
+            {
+              globalDiscountPct: 0,
+              pricesIncludeTax: taxRates.pricesIncludeTax,
+              lines: newLines.map((l) => ({ productId: l.productId, unitPrice: l.price, taxPct: l.taxPct })),
+            },
+            new Map(products.map((p) => [p.id, p.cost === null ? null : fromBaseAmount(toNumber(p.cost), exchangeRate)] as const)),
+            await loadMinMarginPct(tx, tenantId),
+          ).filter((m) => m.flag === 'BELOW_COST')
+          if (belowCost.length > 0 && !request.auth!.permissions.has(Permissions.SalesMarginOverride)) {
+            throw new BelowCostError(belowCost)
+          }
+
+          await cancelLineTransfers(tx, { tenantId, lineIds: changes.map((l) => l.lineId!) })
+          const releasedBalances = await releaseReservationsForOrder(tx, {
+            tenantId,
+            orderId: order.id,
+            userId,
+            lineIds: changes.map((l) => l.lineId!),
+          })
+
+          for (const l of removed) {
+            await tx.salesOrderLine.delete({ where: { id: l.lineId! } })
+          }
+
+          const toReserve: Array<{ id: string; productId: string; productName: string; batchId: string | null; quantity: any }> = []
+          for (const l of changed) {
+            const line = existingById.get(l.lineId!)!
+            // unitPrice is gross, so the tax of the new line total is carved out of it.
+            const split = splitTax(toNumber(line.unitPrice) * l.quantity, toNumber(line.taxPct), true)
+            const updatedLine = await tx.salesOrderLine.update({
+              where: { id: line.id },
+              data: {
+                quantity: decimalFromNumber(l.quantity),
+                taxAmount: decimalFromNumber(split.tax),
+                version: { increment: 1 },
+                createdBy: userId,
+              },
+              select: { id: true, productId: true, batchId: true, quantity: true, product: { select: { name: true } } },
+            })
+            const { product, ...reserveLine } = updatedLine
+            toReserve.push({ ...reserveLine, productName: product.name })
+          }
+
+          const addedLineIds: string[] = []
+          for (const l of newLines) {
+            const createdLine = await tx.salesOrderLine.create({
+              data: {
+                tenantId,
+                salesOrderId: order.id,
+                productId: l.productId,
+                batchId: null,
+                quantity: decimalFromNumber(l.quantity),
+                unitPrice: decimalFromNumber(l.unitPrice),
+                taxPct: decimalFromNumber(l.taxPct),
+                taxAmount: decimalFromNumber(l.taxAmount),
+                createdBy: userId,
+              },
+              select: { id: true, productId: true, batchId: true, quantity: true },
+            })
+            addedLineIds.push(createdLine.id)
+            toReserve.push({ ...createdLine, productName: productById.get(l.productId)!.name })
+          }
+
+          const city = (order.deliveryCity ?? order.customer.city ?? '').trim()
+          const reserved = await reserveForOrder(tx, {
+            tenantId,
+            userId,
+            orderId: order.id,
+            preferCity: city,
+            lines: toReserve,
+          })
+          if (reserved.unreservedByLineId.size > 0) {
+            const err = new Error('Insufficient stock') as Error & { statusCode?: number; code?: string; meta?: any }
+            err.statusCode = 409
+            err.code = 'INSUFFICIENT_STOCK'
+            err.meta = {
+              items: toReserve
+                .filter((l) => reserved.unreservedByLineId.has(l.id))
+                .map((l) => ({
+                  productId: l.productId,
+                  required: toNumber(l.quantity),
+                  available: toNumber(l.quantity) - reserved.unreservedByLineId.get(l.id)!,
+                })),
+            }
+            throw err
+          }
+
+          // The cross-city portion travels on a movement request; the order can't be delivered before it arrives.
+          let transfer: Awaited<ReturnType<typeof createTransferPlan>> | null = null
+          let deliveryDate = order.deliveryDate
+          if (reserved.crossCity.length > 0) {
+            transfer = await createTransferPlan(tx, {
+              tenantId,
+              userId,
+              orderId: order.id,
+              orderNumber: order.number,
+              quoteId: order.quoteId,
+              city,
+              portions: reserved.crossCity,
+            })
+            if (transfer.latestArrival && (!deliveryDate || transfer.latestArrival > deliveryDate)) deliveryDate = transfer.latestArrival
+          }
+
+          const lines = await tx.salesOrderLine.findMany({
+            where: { tenantId, salesOrderId: order.id },
+            select: {
+              id: true,
+              productId: true,
+              quantity: true,
+              unitPrice: true,
+              taxPct: true,
+              taxAmount: true,
+              product: { select: { sku: true, name: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+          })
+
+          // Credit hold: a credit order that grows must still fit the customer's limit.
+          const totalOf = (ls: Array<{ quantity: any; unitPrice: any }>) =>
+            ls.reduce((sum, l) => sum + toNumber(l.quantity) * toNumber(l.unitPrice), 0)
+          const totalAfter = totalOf(lines)
+          if (totalAfter > totalOf(existing) + 1e-9 && isCreditPaymentMode(order.paymentMode, order.paymentTerm)) {
+            const creditStatus = await computeCustomerCreditStatus(tx, {
+              tenantId,
+              customerId: order.customerId,
+              orderAmount: toBaseAmount(totalAfter, order.exchangeRate),
+              excludeOrderId: order.id,
+            })
+            if (creditStatus && creditStatus.reasons.length > 0) {
+              if (!overrideCreditHold) throw new CreditHoldError(creditStatus)
+              creditOverride = creditStatus
+            }
+          }
+
+          const updatedOrder = await tx.salesOrder.update({
+            where: { id: order.id },
+            data: { version: { increment: 1 }, deliveryDate, createdBy: userId },
+            select: { id: true, number: true, status: true, version: true, currency: true, deliveryDate: true, updatedAt: true },
+          })
+
+          const diff = {
+            added: newLines.map((l, i) => ({ lineId: addedLineIds[i], productId: l.productId, quantity: l.quantity, unitPrice: l.unitPrice })),
+            changed: changed.map((l) => ({
+              lineId: l.lineId,
+              productId: existingById.get(l.lineId!)!.productId,
+              from: toNumber(existingById.get(l.lineId!)!.quantity),
+              to: l.quantity,
+            })),
+            removed: removed.map((l) => ({
+              lineId: l.lineId,
+              productId: existingById.get(l.lineId!)!.productId,
+              quantity: toNumber(existingById.get(l.lineId!)!.quantity),
+            })),
+          }
+
+          // A balance touched by both the release and the new reservation is reported once, in its final state.
+          const changedBalances = new Map<string, any>()
+          for (const b of [...releasedBalances, ...reserved.changedBalances]) changedBalances.set(b.id, b)
+
+          return {
+            orderBefore: { id: order.id, number: order.number, version: order.version, lines: existing },
+            updatedOrder,
+            lines,
+            diff,
+            changedBalances: Array.from(changedBalances.values()),
+            marginOverride: belowCost.length > 0 ? belowCost : null,
+            transfer,
+            crossCity: reserved.crossCity,
+          }
+        })
+      } catch (e: any) {
+        if (e?.code === 'INSUFFICIENT_STOCK') {
+          return reply.status(409).send({ message: e.message, code: 'INSUFFICIENT_STOCK', items: e.meta.items })
+        }
+        if (e instanceof BelowCostError) {
+          return reply.status(e.statusCode).send({ message: e.message, code: 'BELOW_COST', lines: e.lines })
+        }
+        if (e instanceof CreditHoldError) {
+          return reply.status(e.statusCode).send({
+            message: e.message,
+            code: 'CREDIT_HOLD',
+            ...e.status,
+            canOverride: request.auth!.permissions.has(Permissions.SalesCreditOverride),
+          })
+        }
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.order.lines.update',
+        entityType: 'SalesOrder',
+        entityId: id,
+        before: result.orderBefore,
+        after: { order: result.updatedOrder, lines: result.lines, balances: result.changedBalances },
+        metadata: {
+          diff: result.diff,
+          marginOverride: result.marginOverride,
+          ...(result.transfer ? { transferRequestId: result.transfer.request.id, crossCity: result.crossCity } : {}),
+        },
+      })
+
+      if (creditOverride) {
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.credit.override',
+          entityType: 'SalesOrder',
+          entityId: id,
+          after: result.updatedOrder,
+          metadata: { reason: parsed.data.overrideReason, creditStatus: creditOverride },
+        })
+      }
+
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('sales.order.updated', { ...result.updatedOrder, diff: result.diff })
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.send({
+        order: result.updatedOrder,
+        lines: result.lines.map((l: any) => ({
+          ...l,
+          quantity: toNumber(l.quantity),
+          unitPrice: toNumber(l.unitPrice),
+          taxPct: toNumber(l.taxPct),
+          taxAmount: toNumber(l.taxAmount),
+        })),
+        diff: result.diff,
+        transferRequestId: result.transfer?.request.id ?? null,
+      })
+    },
+  )
+
   app.post(
     '/api/v1/sales/orders/:id/fulfill',
     {
@@ -881,12 +1580,16 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
           })
           return reply.status(409).send({ message: 'Batch expired' })
         }
+        if (e?.code === 'BATCH_NOT_RELEASED') {
+          return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        }
         throw e
       }
     },
   )
 
   // Deliver: fulfill an order by consuming its reservations (reserved -> stock out) and marking it as FULFILLED.
+  // Optional per-line quantities allow partial deliveries; the remainder stays reserved as a backorder unless closed.
   app.post(
     '/api/v1/sales/orders/:id/deliver',
     {
@@ -911,7 +1614,7 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
         const result = await db.$transaction(async (tx) => {
           const order = await tx.salesOrder.findFirst({
             where: { id, tenantId },
-            select: { id: true, number: true, status: true, version: true, paymentMode: true },
+            select: { id: true, number: true, status: true, version: true, paymentMode: true, deliveredAt: true },
           })
           if (!order) {
             const err = new Error('Not found') as Error & { statusCode?: number }
@@ -934,9 +1637,20 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
             throw err
           }
 
+          const quantities = parsed.data.lines
+            ? new Map(parsed.data.lines.map((l) => [l.lineId, l.quantity] as const))
+            : undefined
+          const closeBackorder = parsed.data.closeBackorder
+
           const reservations = await tx.salesOrderReservation.findMany({
             where: { tenantId, salesOrderId: order.id },
-            select: { id: true, inventoryBalanceId: true, quantity: true },
+            select: {
+              id: true,
+              salesOrderLineId: true,
+              inventoryBalanceId: true,
+              quantity: true,
+              balance: { select: { batch: { select: { expiresAt: true } } } },
+            },
           })
 
           // If there are no reservations, fall back to the classic fulfillment flow (requires fromLocationId).
@@ -953,17 +1667,44 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
               version: parsed.data.version,
               fromLocationId: parsed.data.fromLocationId,
               deliveredAt,
+              closeBackorder,
+              ...(quantities ? { quantities } : {}),
               ...(parsed.data.note !== undefined ? { note: parsed.data.note } : {}),
             })
           }
 
           const todayUtc = startOfTodayUtc()
 
+          const orderLines = await tx.salesOrderLine.findMany({
+            where: { tenantId, salesOrderId: order.id },
+            select: { id: true, quantity: true, deliveredQuantity: true },
+          })
+          const deliverQtyByLineId = resolveDeliverQuantities(orderLines, quantities, { allowEmpty: closeBackorder })
+
+          // Consume each line's reservations FEFO until the delivered quantity is covered.
+          // Whatever stays reserved is the backorder.
+          const expiryMs = (r: any) => r.balance?.batch?.expiresAt?.getTime() ?? Number.MAX_SAFE_INTEGER
           const qtyByBalanceId = new Map<string, number>()
-          for (const r of reservations) {
-            const q = toNumber(r.quantity)
-            if (q <= 0) continue
-            qtyByBalanceId.set(r.inventoryBalanceId, (qtyByBalanceId.get(r.inventoryBalanceId) ?? 0) + q)
+          const consumedByReservationId = new Map<string, number>()
+          for (const [lineId, deliverQty] of deliverQtyByLineId.entries()) {
+            let remaining = deliverQty
+            if (remaining <= 0) continue
+            const lineReservations = reservations
+              .filter((r) => r.salesOrderLineId === lineId)
+              .sort((a, b) => expiryMs(a) - expiryMs(b))
+            for (const r of lineReservations) {
+              if (remaining <= 1e-9) break
+              const take = Math.min(toNumber(r.quantity), remaining)
+              if (take <= 0) continue
+              remaining -= take
+              consumedByReservationId.set(r.id, take)
+              qtyByBalanceId.set(r.inventoryBalanceId, (qtyByBalanceId.get(r.inventoryBalanceId) ?? 0) + take)
+            }
+            if (remaining > 1e-9) {
+              const err = new Error('Delivered quantity exceeds reserved stock for this order') as Error & { statusCode?: number }
+              err.statusCode = 409
+              throw err
+            }
           }
           const balanceIds = Array.from(qtyByBalanceId.keys())
 
@@ -978,13 +1719,14 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
             `
             if (rows[0]) locked.push(rows[0])
           }
+          await assertLocationsNotFrozen(tx, tenantId, Array.from(new Set(locked.map((b) => b.locationId))))
 
           // Expiry rule: if balance is tied to a batch, it must not be expired.
           for (const b of locked) {
             if (!b.batchId) continue
             const batch = await tx.batch.findFirst({
               where: { id: b.batchId, tenantId, productId: b.productId },
-              select: { id: true, expiresAt: true, batchNumber: true },
+              select: { id: true, expiresAt: true, batchNumber: true, status: true },
             })
             if (!batch) {
               const err = new Error('Batch not found') as Error & { statusCode?: number }
@@ -998,6 +1740,7 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
               err.meta = { batchId: batch.id, batchNumber: batch.batchNumber, expiresAt: batch.expiresAt.toISOString() }
               throw err
             }
+            if (batch.status !== AVAILABLE_BATCH_STATUS) throw batchNotReleasedError(batch)
           }
 
           const lockedById = new Map(locked.map((r) => [r.id, r]))
@@ -1085,12 +1828,62 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
             createdMovements.push(movement)
           }
 
-          await tx.salesOrderReservation.deleteMany({ where: { tenantId, salesOrderId: order.id } })
+          for (const r of reservations) {
+            const consumed = consumedByReservationId.get(r.id) ?? 0
+            if (consumed <= 0) continue
+            if (consumed + 1e-9 >= toNumber(r.quantity)) {
+              await tx.salesOrderReservation.delete({ where: { id: r.id } })
+            } else {
+              await tx.salesOrderReservation.update({
+                where: { id: r.id },
+                data: { quantity: decimalFromNumber(toNumber(r.quantity) - consumed) },
+                select: { id: true },
+              })
+            }
+          }
+
+          for (const [lineId, q] of deliverQtyByLineId.entries()) {
+            if (q <= 0) continue
+            await tx.salesOrderLine.update({
+              where: { id: lineId },
+              data: { deliveredQuantity: { increment: q }, version: { increment: 1 } },
+              select: { id: true },
+            })
+          }
+
+          const fullyDelivered = orderLines.every(
+            (l) => toNumber(l.deliveredQuantity) + (deliverQtyByLineId.get(l.id) ?? 0) + 1e-9 >= toNumber(l.quantity),
+          )
+          if (!fullyDelivered && closeBackorder) {
+            const released = await releaseReservationsForOrder(tx, { tenantId, orderId: order.id, userId })
+            changedBalances.push(...released)
+          }
+
+          if (closeBackorder && nothingDelivered(orderLines, deliverQtyByLineId)) {
+            const updatedOrder = await cancelUndeliveredOrder(tx, { tenantId, orderId: order.id, userId, note: parsed.data.note ?? null })
+            return { orderBefore: order, updatedOrder, createdMovements, changedBalances }
+          }
 
           const updatedOrder = await tx.salesOrder.update({
             where: { id: order.id },
-            data: { status: 'FULFILLED', deliveredAt, version: { increment: 1 }, createdBy: userId },
-            select: { id: true, number: true, status: true, version: true, paymentMode: true, deliveredAt: true, updatedAt: true },
+            data: {
+              status: fullyDelivered || closeBackorder ? 'FULFILLED' : 'PARTIALLY_FULFILLED',
+              deliveredAt: order.deliveredAt ?? deliveredAt,
+              paidAt: null,
+              paidBy: null,
+              version: { increment: 1 },
+              createdBy: userId,
+            },
+            select: {
+              id: true,
+              number: true,
+              status: true,
+              version: true,
+              paymentMode: true,
+              paymentTerm: { select: paymentTermRuleSelect },
+              deliveredAt: true,
+              updatedAt: true,
+            },
           })
 
           return { orderBefore: order, updatedOrder, createdMovements, changedBalances }
@@ -1104,25 +1897,35 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
         entityId: id,
         before: result.orderBefore,
         after: { order: result.updatedOrder, movements: result.createdMovements, balances: result.changedBalances },
+        metadata: { lines: parsed.data.lines ?? null, closeBackorder: parsed.data.closeBackorder },
       })
 
       const room = `tenant:${tenantId}`
+      if (result.updatedOrder.status === 'CANCELLED') {
+        app.io?.to(room).emit('sales.order.cancelled', { ...result.updatedOrder, reopenedQuoteId: null })
+        for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+        return reply.send({ order: result.updatedOrder })
+      }
+
       console.log(`Emitted sales.order.delivered to ${room}`, result.updatedOrder)
       app.io?.to(room).emit('sales.order.delivered', result.updatedOrder)
       for (const m of result.createdMovements) app.io?.to(room).emit('stock.movement.created', m)
       for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
 
       // Payment due notification (accounts receivable)
-      const creditDays = parseCreditDays(result.updatedOrder.paymentMode)
+      const rule = paymentTermRule(result.updatedOrder)
       const base = result.updatedOrder.deliveredAt ?? new Date()
-      const dueAt = addDaysUtc(base, creditDays)
+      const schedule = instalmentSchedule(rule, base, 0)
       app.io?.to(room).emit('sales.order.payment.due', {
         id: result.updatedOrder.id,
         number: result.updatedOrder.number,
         paymentMode: result.updatedOrder.paymentMode,
+        paymentTermName: rule.name,
         deliveredAt: result.updatedOrder.deliveredAt?.toISOString() ?? null,
-        creditDays,
-        dueAt: dueAt.toISOString(),
+        creditDays: rule.days,
+        instalments: rule.instalments,
+        // First instalment (the whole amount when the term has a single one).
+        dueAt: schedule[0]!.dueAt.toISOString(),
       })
 
       return reply.send({ order: result.updatedOrder })
@@ -1138,6 +1941,9 @@ export async function registerSalesOrderRoutes(app: FastifyInstance): Promise<vo
           })
           return reply.status(409).send({ message: 'Batch expired' })
         }
+        if (e?.code === 'BATCH_NOT_RELEASED') {
+          return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        }
         throw e
       }
     },
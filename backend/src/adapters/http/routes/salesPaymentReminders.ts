@@ -0,0 +1,116 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import {
+  DEFAULT_PAYMENT_REMINDER_SETTINGS,
+  normalizeThresholdDays,
+} from '../../../application/sales/paymentReminderScheduler.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const settingsUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  enabled: z.boolean(),
+  thresholdDays: z.array(z.number().int().min(1).max(365)).min(1).max(10),
+  emailCustomer: z.boolean(),
+})
+
+const settingsSelect = {
+  enabled: true,
+  thresholdDays: true,
+  emailCustomer: true,
+  version: true,
+  updatedAt: true,
+} as const
+
+export async function registerPaymentReminderRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/payment-reminders/settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const row = await db.paymentReminderSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      // Defaults are reported as version 1 so the first save creates the row.
+      return reply.send(row ?? { ...DEFAULT_PAYMENT_REMINDER_SETTINGS, version: 1, updatedAt: null })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/payment-reminders/settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesCollectionsManage)],
+    },
+    async (request, reply) => {
+      const parsed = settingsUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const thresholdDays = normalizeThresholdDays(parsed.data.thresholdDays)
+
+      const before = await db.paymentReminderSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      if ((before?.version ?? 1) !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const data = { enabled: parsed.data.enabled, thresholdDays, emailCustomer: parsed.data.emailCustomer, createdBy: userId }
+      const updated = before
+        ? await db.paymentReminderSettings.update({
+            where: { tenantId },
+            data: { ...data, version: { increment: 1 } },
+            select: settingsSelect,
+          })
+        : await db.paymentReminderSettings.create({ data: { tenantId, ...data }, select: settingsSelect })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.payment-reminder.settings.update',
+        entityType: 'PaymentReminderSettings',
+        entityId: tenantId,
+        before,
+        after: updated,
+      })
+
+      return reply.send(updated)
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/orders/:id/payment-reminders',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const order = await db.salesOrder.findFirst({ where: { id, tenantId }, select: { id: true } })
+      if (!order) return reply.status(404).send({ message: 'Not found' })
+
+      const items = await db.paymentReminder.findMany({
+        where: { tenantId, salesOrderId: id },
+        orderBy: [{ createdAt: 'desc' }],
+        select: {
+          id: true,
+          level: true,
+          thresholdDays: true,
+          dueAt: true,
+          daysOverdue: true,
+          balance: true,
+          notifiedUserIds: true,
+          emailedTo: true,
+          emailError: true,
+          createdAt: true,
+        },
+      })
+
+      return reply.send({ items: items.map((r) => ({ ...r, balance: toNumber(r.balance) })) })
+    },
+  )
+}
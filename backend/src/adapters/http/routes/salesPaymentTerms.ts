@@ -0,0 +1,190 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const termCreateSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+  name: z.string().trim().min(1).max(200),
+  days: z.number().int().min(0).max(365).default(0),
+  earlyPaymentDiscountPct: z.number().min(0).max(100).default(0),
+  earlyPaymentDays: z.number().int().min(0).max(365).default(0),
+  instalments: z.number().int().min(1).max(24).default(1),
+})
+
+const termUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200).optional(),
+  days: z.number().int().min(0).max(365).optional(),
+  earlyPaymentDiscountPct: z.number().min(0).max(100).optional(),
+  earlyPaymentDays: z.number().int().min(0).max(365).optional(),
+  instalments: z.number().int().min(1).max(24).optional(),
+  isActive: z.boolean().optional(),
+})
+
+const termListQuerySchema = z.object({
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const termSelect = {
+  id: true,
+  code: true,
+  name: true,
+  days: true,
+  earlyPaymentDiscountPct: true,
+  earlyPaymentDays: true,
+  instalments: true,
+  isActive: true,
+  version: true,
+  updatedAt: true,
+} as const
+
+function termResponse<T extends { earlyPaymentDiscountPct: any }>(t: T) {
+  return { ...t, earlyPaymentDiscountPct: toNumber(t.earlyPaymentDiscountPct) }
+}
+
+function validateTermRules(t: { days: number; earlyPaymentDays: number; instalments: number; earlyPaymentDiscountPct: number }): string | null {
+  if (t.days === 0 && t.instalments > 1) return 'Instalments require credit days'
+  if (t.instalments > Math.max(1, t.days)) return 'Instalments cannot exceed credit days'
+  if (t.earlyPaymentDiscountPct > 0 && t.earlyPaymentDays >= Math.max(1, t.days)) {
+    return 'Early payment window must be shorter than credit days'
+  }
+  return null
+}
+
+export async function registerPaymentTermRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/payment-terms',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = termListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.paymentTerm.findMany({
+        where: { tenantId, ...(parsed.data.includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ days: 'asc' }, { code: 'asc' }],
+        select: { ...termSelect, _count: { select: { customers: true } } },
+      })
+      return reply.send({
+        items: items.map(({ _count, ...t }) => ({ ...termResponse(t), customersCount: _count.customers })),
+      })
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/payment-terms',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const parsed = termCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const invalid = validateTermRules(parsed.data)
+      if (invalid) return reply.status(400).send({ message: invalid })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      try {
+        const created = await db.paymentTerm.create({
+          data: {
+            tenantId,
+            code: parsed.data.code.toUpperCase(),
+            name: parsed.data.name,
+            days: parsed.data.days,
+            earlyPaymentDiscountPct: parsed.data.earlyPaymentDiscountPct.toString(),
+            earlyPaymentDays: parsed.data.earlyPaymentDays,
+            instalments: parsed.data.instalments,
+            createdBy: userId,
+          },
+          select: termSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.payment-term.create',
+          entityType: 'PaymentTerm',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(termResponse(created))
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Payment term code already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  // Changes apply to orders already linked to the term (due dates are computed, not stored).
+  app.patch(
+    '/api/v1/sales/payment-terms/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = termUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.paymentTerm.findFirst({ where: { id, tenantId }, select: termSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const next = {
+        days: parsed.data.days ?? before.days,
+        earlyPaymentDays: parsed.data.earlyPaymentDays ?? before.earlyPaymentDays,
+        instalments: parsed.data.instalments ?? before.instalments,
+        earlyPaymentDiscountPct: parsed.data.earlyPaymentDiscountPct ?? toNumber(before.earlyPaymentDiscountPct),
+      }
+      const invalid = validateTermRules(next)
+      if (invalid) return reply.status(400).send({ message: invalid })
+      if (before.code === 'CASH' && next.days > 0) return reply.status(400).send({ message: 'CASH term cannot have credit days' })
+
+      const updated = await db.paymentTerm.update({
+        where: { id },
+        data: {
+          ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+          ...(parsed.data.days !== undefined ? { days: parsed.data.days } : {}),
+          ...(parsed.data.earlyPaymentDiscountPct !== undefined
+            ? { earlyPaymentDiscountPct: parsed.data.earlyPaymentDiscountPct.toString() }
+            : {}),
+          ...(parsed.data.earlyPaymentDays !== undefined ? { earlyPaymentDays: parsed.data.earlyPaymentDays } : {}),
+          ...(parsed.data.instalments !== undefined ? { instalments: parsed.data.instalments } : {}),
+          ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
+          version: { increment: 1 },
+          createdBy: userId,
+        },
+        select: termSelect,
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.payment-term.update',
+        entityType: 'PaymentTerm',
+        entityId: id,
+        before,
+        after: updated,
+      })
+
+      return reply.send(termResponse(updated))
+    },
+  )
+}
@@ -4,6 +4,18 @@ import { prisma } from '../../db/prisma.js'
 import { AuditService } from '../../../application/audit/auditService.js'
 import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
+import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import {
+  earlyPaymentDiscount,
+  instalmentSchedule,
+  nextDueAt,
+  paymentTermRule,
+  paymentTermRuleSelect,
+} from '../../../application/sales/paymentTerms.js'
+import { loadTenantCurrency, toBaseAmount } from '../../../application/sales/exchangeRates.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
+
+const paymentMethods = ['CASH', 'TRANSFER', 'CHECK', 'CARD', 'QR'] as const
 
 const listPaymentsQuerySchema = z.object({
   status: z.enum(['DUE', 'PAID', 'ALL']).default('DUE'),
@@ -12,31 +24,293 @@ const listPaymentsQuerySchema = z.object({
 
 const markPaidSchema = z.object({
   version: z.number().int().positive(),
+  method: z.enum(paymentMethods).default('CASH'),
+  reference: z.string().trim().max(100).optional(),
+})
+
+const paymentCreateSchema = z.object({
+  version: z.number().int().positive(),
+  amount: z.number().positive(),
+  method: z.enum(paymentMethods),
+  reference: z.string().trim().max(100).optional(),
+  receivedAt: z.string().datetime().optional(),
+  note: z.string().trim().max(500).optional(),
+  // Settles the order net of the term's early-payment discount; `amount` must cover the rest of the balance.
+  applyEarlyPaymentDiscount: z.boolean().default(false),
+})
+
+const agingQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  city: z.string().trim().min(1).max(100).optional(),
 })
 
-function addDaysUtc(date: Date, days: number): Date {
-  const ms = date.getTime() + Math.max(0, days) * 24 * 60 * 60 * 1000
-  return new Date(ms)
+const statementQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+type AgingBucket = 'CURRENT' | 'D1_30' | 'D31_60' | 'D61_90' | 'D90_PLUS'
+
+type AgingTotals = Record<AgingBucket, number> & { total: number }
+
+// Amounts below this are treated as fully paid (rounding of 2-decimal money).
+const BALANCE_EPSILON = 0.005
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
 }
 
-function toNumber(value: any): number {
-  const n = typeof value === 'number' ? value : Number(value)
-  return Number.isFinite(n) ? n : 0
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'CURRENT'
+  if (daysOverdue <= 30) return 'D1_30'
+  if (daysOverdue <= 60) return 'D31_60'
+  if (daysOverdue <= 90) return 'D61_90'
+  return 'D90_PLUS'
 }
 
-function parseCreditDays(paymentMode: string): number {
-  const mode = (paymentMode ?? '').trim().toUpperCase()
-  if (mode === 'CASH') return 0
-  const m = mode.match(/^CREDIT_(\d{1,3})$/)
-  if (!m) return 0
-  const days = Number(m[1])
-  return Number.isFinite(days) ? Math.max(0, days) : 0
+function emptyAgingTotals(): AgingTotals {
+  return { CURRENT: 0, D1_30: 0, D31_60: 0, D61_90: 0, D90_PLUS: 0, total: 0 }
+}
+
+function addToAging(target: AgingTotals, bucket: AgingBucket, amount: number) {
+  target[bucket] = roundMoney(target[bucket] + amount)
+  target.total = roundMoney(target.total + amount)
+}
+
+type OrderAmountsInput = {
+  // `quantity` and `taxAmount` are only needed for the tax breakdown.
+  lines: Array<{ deliveredQuantity: any; unitPrice: any; quantity?: any; taxAmount?: any }>
+  returns: Array<{ creditAmount: any }>
+  payments: Array<{ amount: any; discountAmount: any }>
+}
+
+// Balance due is derived from the ledger: delivered total, minus credit notes, minus payments
+// (early-payment discounts granted with a payment count as settled).
+function orderAmounts(o: OrderAmountsInput) {
+  const gross = o.lines.reduce((sum, l) => sum + toNumber(l.deliveredQuantity) * toNumber(l.unitPrice), 0)
+  const credited = o.returns.reduce((sum, r) => sum + toNumber(r.creditAmount), 0)
+  const total = roundMoney(Math.max(0, gross - credited))
+  const discounted = roundMoney(o.payments.reduce((sum, p) => sum + toNumber(p.discountAmount), 0))
+  const paid = roundMoney(o.payments.reduce((sum, p) => sum + toNumber(p.amount), 0) + discounted)
+  const balance = roundMoney(Math.max(0, total - paid))
+  // Tax contained in the total: line tax prorated to delivered quantities, then to what was not credited back.
+  const deliveredTax = o.lines.reduce((sum, l) => {
+    const qty = toNumber(l.quantity)
+    return qty > 0 ? sum + (toNumber(l.taxAmount) * toNumber(l.deliveredQuantity)) / qty : sum
+  }, 0)
+  const taxTotal = gross > 0 ? roundMoney((deliveredTax * total) / gross) : 0
+  return { total, netTotal: roundMoney(total - taxTotal), taxTotal, credited: roundMoney(credited), discounted, paid, balance }
+}
+
+async function recordPaymentTx(
+  tx: any,
+  args: {
+    tenantId: string
+    userId: string
+    orderId: string
+    version: number
+    amount: number | 'BALANCE'
+    method: string
+    reference?: string | undefined
+    receivedAt?: Date | undefined
+    note?: string | undefined
+    applyEarlyPaymentDiscount?: boolean | undefined
+  },
+) {
+  const order = await tx.salesOrder.findFirst({
+    where: { id: args.orderId, tenantId: args.tenantId },
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      version: true,
+      paidAt: true,
+      customerId: true,
+      paymentMode: true,
+      paymentTerm: { select: paymentTermRuleSelect },
+      currency: true,
+      deliveryDate: true,
+      deliveredAt: true,
+      lines: { select: { deliveredQuantity: true, unitPrice: true } },
+      returns: { select: { creditAmount: true } },
+      payments: { select: { amount: true, discountAmount: true } },
+    },
+  })
+  if (!order) {
+    const err = new Error('Not found') as Error & { statusCode?: number }
+    err.statusCode = 404
+    throw err
+  }
+  if (order.version !== args.version) {
+    const err = new Error('Version conflict') as Error & { statusCode?: number }
+    err.statusCode = 409
+    throw err
+  }
+  // Partially delivered orders can be paid up to what has been delivered so far.
+  if (order.status !== 'FULFILLED' && order.status !== 'PARTIALLY_FULFILLED') {
+    const err = new Error('Only delivered orders can be paid') as Error & { statusCode?: number }
+    err.statusCode = 409
+    throw err
+  }
+
+  const before = orderAmounts(order)
+  if (order.paidAt || before.balance < BALANCE_EPSILON) {
+    const err = new Error('Order already paid') as Error & { statusCode?: number }
+    err.statusCode = 409
+    throw err
+  }
+
+  const receivedAt = args.receivedAt ?? new Date()
+
+  let discount = 0
+  if (args.applyEarlyPaymentDiscount) {
+    const base = order.deliveredAt ?? order.deliveryDate ?? receivedAt
+    discount = before.discounted > 0 ? 0 : earlyPaymentDiscount(paymentTermRule(order), base, before.total, receivedAt)
+    if (discount <= 0) {
+      const err = new Error('Early payment discount not available') as Error & { statusCode?: number }
+      err.statusCode = 409
+      throw err
+    }
+  }
+  const due = roundMoney(Math.max(0, before.balance - discount))
+
+  const amount = args.amount === 'BALANCE' ? due : roundMoney(args.amount)
+  if (discount > 0 && Math.abs(amount - due) >= BALANCE_EPSILON) {
+    const err = new Error('Early payment discount requires settling the full balance') as Error & { statusCode?: number }
+    err.statusCode = 409
+    throw err
+  }
+  if (amount <= 0) {
+    const err = new Error('Payment amount must be positive') as Error & { statusCode?: number }
+    err.statusCode = 400
+    throw err
+  }
+  if (amount > due + BALANCE_EPSILON) {
+    const err = new Error('Payment exceeds balance due') as Error & { statusCode?: number }
+    err.statusCode = 409
+    throw err
+  }
+
+  const year = currentYearUtc()
+  const seq = await nextSequence(tx, { tenantId: args.tenantId, year, key: 'RC' })
+
+  const payment = await tx.payment.create({
+    data: {
+      tenantId: args.tenantId,
+      number: seq.number,
+      numberYear: year,
+      salesOrderId: order.id,
+      customerId: order.customerId,
+      amount: decimalFromNumber(amount),
+      discountAmount: decimalFromNumber(discount),
+      method: args.method,
+      reference: args.reference ?? null,
+      receivedAt,
+      receivedBy: args.userId,
+      note: args.note ?? null,
+      createdBy: args.userId,
+    },
+    select: {
+      id: true,
+      number: true,
+      salesOrderId: true,
+      customerId: true,
+      amount: true,
+      discountAmount: true,
+      method: true,
+      reference: true,
+      receivedAt: true,
+      receivedBy: true,
+      note: true,
+    },
+  })
+
+  const balance = roundMoney(Math.max(0, before.balance - amount - discount))
+  const settled = balance < BALANCE_EPSILON
+
+  const updated = await tx.salesOrder.update({
+    where: { id: order.id },
+    data: {
+      version: { increment: 1 },
+      ...(settled ? { paidAt: receivedAt, paidBy: args.userId } : {}),
+    },
+    select: { id: true, number: true, status: true, version: true, currency: true, paidAt: true },
+  })
+
+  return {
+    before: { id: order.id, number: order.number, version: order.version, paidAt: order.paidAt, ...before },
+    order: updated,
+    payment,
+    total: before.total,
+    paid: roundMoney(before.paid + amount + discount),
+    balance,
+    settled,
+  }
 }
 
 export function registerSalesPaymentRoutes(app: FastifyInstance) {
   const db = prisma()
   const audit = new AuditService(db)
 
+  function emitPaymentEvents(tenantId: string, result: Awaited<ReturnType<typeof recordPaymentTx>>) {
+    const room = `tenant:${tenantId}`
+    app.io?.to(room).emit('sales.order.payment.received', {
+      id: result.order.id,
+      number: result.order.number,
+      paymentId: result.payment.id,
+      receiptNumber: result.payment.number,
+      currency: result.order.currency,
+      amount: toNumber(result.payment.amount),
+      balance: result.balance,
+    })
+    if (result.settled) {
+      app.io?.to(room).emit('sales.order.paid', {
+        id: result.order.id,
+        number: result.order.number,
+        paidAt: result.order.paidAt?.toISOString() ?? null,
+      })
+    }
+  }
+
+  async function auditPayment(tenantId: string, userId: string, result: Awaited<ReturnType<typeof recordPaymentTx>>) {
+    await audit.append({
+      tenantId,
+      actorUserId: userId,
+      action: 'sales.payment.create',
+      entityType: 'Payment',
+      entityId: result.payment.id,
+      after: result.payment,
+      metadata: { salesOrderId: result.order.id, orderNumber: result.order.number, balance: result.balance },
+    })
+    if (result.settled) {
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.order.pay',
+        entityType: 'SalesOrder',
+        entityId: result.order.id,
+        before: result.before,
+        after: result.order,
+        metadata: { receiptNumber: result.payment.number },
+      })
+    }
+  }
+
+  function paymentResponse(result: Awaited<ReturnType<typeof recordPaymentTx>>) {
+    return {
+      order: result.order,
+      payment: {
+        ...result.payment,
+        amount: toNumber(result.payment.amount),
+        discountAmount: toNumber(result.payment.discountAmount),
+        receivedAt: result.payment.receivedAt.toISOString(),
+      },
+      total: result.total,
+      paid: result.paid,
+      balance: result.balance,
+    }
+  }
+
   // Accounts receivable: delivered orders pending payment.
   app.get(
     '/api/v1/sales/payments',
@@ -49,6 +323,7 @@ export function registerSalesPaymentRoutes(app: FastifyInstance) {
 
       const tenantId = request.auth!.tenantId
 
+      // paidAt is set by the ledger once the balance reaches zero.
       const wherePaid =
         parsed.data.status === 'PAID'
           ? { paidAt: { not: null } }
@@ -59,7 +334,7 @@ export function registerSalesPaymentRoutes(app: FastifyInstance) {
       const orders = await db.salesOrder.findMany({
         where: {
           tenantId,
-          status: 'FULFILLED',
+          status: { in: ['PARTIALLY_FULFILLED', 'FULFILLED'] },
           ...wherePaid,
         },
         take: parsed.data.take,
@@ -69,19 +344,25 @@ export function registerSalesPaymentRoutes(app: FastifyInstance) {
           number: true,
           version: true,
           paymentMode: true,
+          paymentTerm: { select: paymentTermRuleSelect },
+          currency: true,
           deliveryDate: true,
           deliveredAt: true,
           paidAt: true,
           customer: { select: { id: true, name: true } },
-          lines: { select: { quantity: true, unitPrice: true } },
+          lines: { select: { quantity: true, deliveredQuantity: true, unitPrice: true, taxAmount: true } },
+          returns: { select: { creditAmount: true } },
+          payments: { select: { amount: true, discountAmount: true, receivedAt: true } },
         },
       })
 
       const items = orders.map((o) => {
         const base = o.deliveredAt ?? o.deliveryDate ?? new Date()
-        const creditDays = parseCreditDays(o.paymentMode)
-        const dueAt = addDaysUtc(base, creditDays)
-        const total = o.lines.reduce((sum, l) => sum + toNumber(l.quantity) * toNumber(l.unitPrice), 0)
+        const rule = paymentTermRule(o)
+        // Credit notes issued by customer returns reduce what is owed; payments reduce the balance.
+        const amounts = orderAmounts(o)
+        const dueAt = nextDueAt(rule, base, amounts.total, amounts.paid)
+        const lastPaymentAt = o.payments.reduce<Date | null>((max, p) => (!max || p.receivedAt > max ? p.receivedAt : max), null)
 
         return {
           id: o.id,
@@ -90,10 +371,20 @@ export function registerSalesPaymentRoutes(app: FastifyInstance) {
           customerId: o.customer.id,
           customerName: o.customer.name,
           paymentMode: o.paymentMode,
+          paymentTermName: rule.name,
+          instalments: rule.instalments,
           deliveryDate: o.deliveryDate ? o.deliveryDate.toISOString() : null,
           deliveredAt: o.deliveredAt ? o.deliveredAt.toISOString() : null,
           dueAt: dueAt.toISOString(),
-          total,
+          currency: o.currency,
+          total: amounts.total,
+          netTotal: amounts.netTotal,
+          taxTotal: amounts.taxTotal,
+          credited: amounts.credited,
+          paidAmount: amounts.paid,
+          balance: amounts.balance,
+          paymentsCount: o.payments.length,
+          lastPaymentAt: lastPaymentAt ? lastPaymentAt.toISOString() : null,
           paidAt: o.paidAt ? o.paidAt.toISOString() : null,
         }
       })
@@ -102,52 +393,440 @@ export function registerSalesPaymentRoutes(app: FastifyInstance) {
     },
   )
 
-  app.post(
-    '/api/v1/sales/payments/:id/pay',
+  // Accounts receivable aging: outstanding balances bucketed by days overdue, per customer and per city.
+  // Buckets and totals are in the tenant currency; orders in other currencies count at the rate locked on the order.
+  app.get(
+    '/api/v1/sales/payments/aging',
     {
-      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.ReportSalesRead)],
+    },
+    async (request, reply) => {
+      const parsed = agingQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const asOf = parsed.data.asOf ?? new Date()
+      const msDay = 24 * 60 * 60 * 1000
+
+      // Balance as of `asOf`: only deliveries, credit notes and payments up to that moment count.
+      const orders = await db.salesOrder.findMany({
+        where: {
+          tenantId,
+          status: { in: ['PARTIALLY_FULFILLED', 'FULFILLED'] },
+          OR: [{ paidAt: null }, { paidAt: { gt: asOf } }],
+          ...(parsed.data.city ? { customer: { city: { equals: parsed.data.city, mode: 'insensitive' as const } } } : {}),
+        },
+        orderBy: [{ deliveryDate: 'asc' }, { id: 'asc' }],
+        select: {
+          id: true,
+          number: true,
+          paymentMode: true,
+          paymentTerm: { select: paymentTermRuleSelect },
+          deliveryDate: true,
+          deliveredAt: true,
+          currency: true,
+          exchangeRate: true,
+          customer: { select: { id: true, name: true, city: true } },
+          lines: { select: { deliveredQuantity: true, unitPrice: true } },
+          returns: { where: { createdAt: { lte: asOf } }, select: { creditAmount: true } },
+          payments: { where: { receivedAt: { lte: asOf } }, select: { amount: true, discountAmount: true } },
+        },
+      })
+
+      const orderItems: any[] = []
+      const byCustomer = new Map<string, { customerId: string; customerName: string; city: string | null; ordersCount: number } & AgingTotals>()
+      const byCity = new Map<string, { city: string; ordersCount: number } & AgingTotals>()
+      const totals = emptyAgingTotals()
+
+      for (const o of orders) {
+        const deliveredAt = o.deliveredAt ?? o.deliveryDate
+        if (deliveredAt && deliveredAt > asOf) continue
+
+        const amounts = orderAmounts(o)
+        if (amounts.balance < BALANCE_EPSILON) continue
+
+        const rule = paymentTermRule(o)
+        const dueAt = nextDueAt(rule, deliveredAt ?? asOf, amounts.total, amounts.paid)
+        const daysOverdue = Math.floor((asOf.getTime() - dueAt.getTime()) / msDay)
+        const bucket = agingBucket(daysOverdue)
+        const city = (o.customer.city ?? '').trim() || null
+        const baseBalance = roundMoney(toBaseAmount(amounts.balance, o.exchangeRate))
+
+        orderItems.push({
+          id: o.id,
+          number: o.number,
+          customerId: o.customer.id,
+          customerName: o.customer.name,
+          city,
+          paymentMode: o.paymentMode,
+          paymentTermName: rule.name,
+          deliveredAt: deliveredAt ? deliveredAt.toISOString() : null,
+          dueAt: dueAt.toISOString(),
+          daysOverdue: Math.max(0, daysOverdue),
+          bucket,
+          currency: o.currency,
+          exchangeRate: toNumber(o.exchangeRate),
+          total: amounts.total,
+          paid: amounts.paid,
+          balance: amounts.balance,
+          baseBalance,
+        })
+
+        const customerRow =
+          byCustomer.get(o.customer.id) ??
+          { customerId: o.customer.id, customerName: o.customer.name, city, ordersCount: 0, ...emptyAgingTotals() }
+        customerRow.ordersCount += 1
+        addToAging(customerRow, bucket, baseBalance)
+        byCustomer.set(o.customer.id, customerRow)
+
+        const cityKey = city ?? 'SIN CIUDAD'
+        const cityRow = byCity.get(cityKey) ?? { city: cityKey, ordersCount: 0, ...emptyAgingTotals() }
+        cityRow.ordersCount += 1
+        addToAging(cityRow, bucket, baseBalance)
+        byCity.set(cityKey, cityRow)
+
+        addToAging(totals, bucket, baseBalance)
+      }
+
+      return reply.send({
+        asOf: asOf.toISOString(),
+        baseCurrency: await loadTenantCurrency(db, tenantId),
+        customers: Array.from(byCustomer.values()).sort((a, b) => b.total - a.total),
+        cities: Array.from(byCity.values()).sort((a, b) => b.total - a.total),
+        orders: orderItems,
+        totals,
+      })
+    },
+  )
+
+  // Customer account statement: delivered orders (debit), credit notes and payments (credit) with running balance.
+  // Like the aging, it is kept in the tenant currency; movements of orders in other currencies are converted at the order rate.
+  app.get(
+    '/api/v1/sales/customers/:id/statement',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
     },
     async (request, reply) => {
       const id = (request.params as any).id as string
-      const parsed = markPaidSchema.safeParse(request.body)
-      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+      const parsed = statementQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
 
       const tenantId = request.auth!.tenantId
-      const userId = request.auth!.userId
+      const { from, to } = parsed.data
+
+      const customer = await db.customer.findFirst({
+        where: { id, tenantId },
+        select: { id: true, name: true, businessName: true, nit: true, city: true, address: true, phone: true, email: true },
+      })
+      if (!customer) return reply.status(404).send({ message: 'Not found' })
+
+      const orders = await db.salesOrder.findMany({
+        where: { tenantId, customerId: id, status: { in: ['PARTIALLY_FULFILLED', 'FULFILLED'] } },
+        select: {
+          id: true,
+          number: true,
+          paymentMode: true,
+          paymentTerm: { select: paymentTermRuleSelect },
+          deliveryDate: true,
+          deliveredAt: true,
+          createdAt: true,
+          currency: true,
+          exchangeRate: true,
+          lines: { select: { deliveredQuantity: true, unitPrice: true } },
+          returns: { select: { number: true, creditAmount: true, createdAt: true } },
+          payments: { select: { number: true, amount: true, discountAmount: true, method: true, reference: true, receivedAt: true } },
+        },
+      })
+
+      type Entry = {
+        date: Date
+        type: 'ORDER' | 'CREDIT_NOTE' | 'PAYMENT'
+        reference: string
+        orderNumber: string
+        description: string
+        currency: string
+        debit: number
+        credit: number
+      }
+
+      const baseCurrency = await loadTenantCurrency(db, tenantId)
+      const entries: Entry[] = []
+      for (const o of orders) {
+        const rate = toNumber(o.exchangeRate)
+        const foreign = o.currency !== baseCurrency
+        // Converts a document amount and, for foreign orders, notes the original amount and rate in the description.
+        const convert = (amount: number, description: string) => ({
+          description: foreign ? `${description} · ${o.currency} ${amount.toFixed(2)} a ${rate}` : description,
+          amount: foreign ? roundMoney(toBaseAmount(amount, rate)) : amount,
+        })
+
+        const gross = roundMoney(o.lines.reduce((sum, l) => sum + toNumber(l.deliveredQuantity) * toNumber(l.unitPrice), 0))
+        const deliveredAt = o.deliveredAt ?? o.deliveryDate ?? o.createdAt
+        const rule = paymentTermRule(o)
+        const schedule = instalmentSchedule(rule, deliveredAt, gross)
+        const dueAt = schedule[schedule.length - 1]!.dueAt
+        const dueLabel = schedule.length > 1 ? `${schedule.length} cuotas, última` : 'vence'
+        const delivery = convert(gross, `Entrega ${rule.name} (${dueLabel} ${dueAt.toISOString().slice(0, 10)})`)
+        entries.push({
+          date: deliveredAt,
+          type: 'ORDER',
+          reference: o.number,
+          orderNumber: o.number,
+          description: delivery.description,
+          currency: o.currency,
+          debit: delivery.amount,
+          credit: 0,
+        })
+        for (const r of o.returns) {
+          const creditNote = convert(roundMoney(toNumber(r.creditAmount)), 'Nota de crédito por devolución')
+          entries.push({
+            date: r.createdAt,
+            type: 'CREDIT_NOTE',
+            reference: r.number,
+            orderNumber: o.number,
+            description: creditNote.description,
+            currency: o.currency,
+            debit: 0,
+            credit: creditNote.amount,
+          })
+        }
+        for (const p of o.payments) {
+          const discount = toNumber(p.discountAmount)
+          const description = p.reference ? `Pago ${p.method} (${p.reference})` : `Pago ${p.method}`
+          const payment = convert(
+            roundMoney(toNumber(p.amount) + discount),
+            discount > 0 ? `${description} + desc. pronto pago ${discount.toFixed(2)}` : description,
+          )
+          entries.push({
+            date: p.receivedAt,
+            type: 'PAYMENT',
+            reference: p.number,
+            orderNumber: o.number,
+            description: payment.description,
+            currency: o.currency,
+            debit: 0,
+            credit: payment.amount,
+          })
+        }
+      }
+
+      const typeOrder: Record<Entry['type'], number> = { ORDER: 0, CREDIT_NOTE: 1, PAYMENT: 2 }
+      entries.sort((a, b) => a.date.getTime() - b.date.getTime() || typeOrder[a.type] - typeOrder[b.type])
+
+      let openingBalance = 0
+      let balance = 0
+      let totalDebit = 0
+      let totalCredit = 0
+      const items: any[] = []
+      for (const e of entries) {
+        if (to && e.date >= to) break
+        balance = roundMoney(balance + e.debit - e.credit)
+        if (from && e.date < from) {
+          openingBalance = balance
+          continue
+        }
+        totalDebit = roundMoney(totalDebit + e.debit)
+        totalCredit = roundMoney(totalCredit + e.credit)
+        items.push({ ...e, date: e.date.toISOString(), balance })
+      }
+
+      return reply.send({
+        customer,
+        baseCurrency,
+        from: from ? from.toISOString() : null,
+        to: to ? to.toISOString() : null,
+        openingBalance,
+        entries: items,
+        totals: { debit: totalDebit, credit: totalCredit },
+        closingBalance: balance,
+      })
+    },
+  )
+
+  // Payment ledger of a single order (used for history and receipts).
+  app.get(
+    '/api/v1/sales/orders/:id/payments',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
 
       const order = await db.salesOrder.findFirst({
         where: { id, tenantId },
-        select: { id: true, number: true, status: true, version: true, paidAt: true, customerId: true },
+        select: {
+          id: true,
+          number: true,
+          status: true,
+          version: true,
+          paymentMode: true,
+          paymentTerm: { select: paymentTermRuleSelect },
+          currency: true,
+          exchangeRate: true,
+          deliveryDate: true,
+          deliveredAt: true,
+          paidAt: true,
+          customer: { select: { id: true, name: true, businessName: true, nit: true } },
+          lines: { select: { deliveredQuantity: true, unitPrice: true } },
+          returns: { select: { creditAmount: true } },
+          payments: {
+            orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
+            select: {
+              id: true,
+              number: true,
+              amount: true,
+              discountAmount: true,
+              method: true,
+              reference: true,
+              receivedAt: true,
+              receivedBy: true,
+              note: true,
+              createdAt: true,
+            },
+          },
+        },
       })
       if (!order) return reply.status(404).send({ message: 'Not found' })
-      if (order.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
-      if (order.status !== 'FULFILLED') return reply.status(409).send({ message: 'Only delivered orders can be paid' })
-      if (order.paidAt) return reply.status(409).send({ message: 'Order already paid' })
-
-      const updated = await db.salesOrder.update({
-        where: { id: order.id },
-        data: { paidAt: new Date(), paidBy: userId, version: { increment: 1 }, createdBy: userId },
-        select: { id: true, number: true, status: true, version: true, paidAt: true },
+
+      const amounts = orderAmounts(order)
+      const rule = paymentTermRule(order)
+      const base = order.deliveredAt ?? order.deliveryDate
+
+      const userIds = Array.from(new Set(order.payments.map((p) => p.receivedBy)))
+      const users = userIds.length
+        ? await db.user.findMany({ where: { tenantId, id: { in: userIds } }, select: { id: true, email: true, fullName: true } })
+        : []
+      const userNameById = new Map(users.map((u) => [u.id, u.fullName || u.email] as const))
+
+      // Instalments with the amount still pending on each (payments cover the oldest first).
+      let covered = amounts.paid
+      const schedule = (base ? instalmentSchedule(rule, base, amounts.total) : []).map((s) => {
+        const pending = roundMoney(Math.max(0, s.amount - covered))
+        covered = roundMoney(Math.max(0, covered - s.amount))
+        return { index: s.index, dueAt: s.dueAt.toISOString(), amount: s.amount, pending }
       })
 
-      await audit.append({
-        tenantId,
-        actorUserId: userId,
-        action: 'sales.order.pay',
-        entityType: 'SalesOrder',
-        entityId: id,
-        before: order,
-        after: updated,
+      let running = amounts.total
+      const payments = order.payments.map((p) => {
+        const amount = toNumber(p.amount)
+        const discountAmount = toNumber(p.discountAmount)
+        running = roundMoney(Math.max(0, running - amount - discountAmount))
+        return {
+          id: p.id,
+          number: p.number,
+          amount,
+          discountAmount,
+          method: p.method,
+          reference: p.reference,
+          receivedAt: p.receivedAt.toISOString(),
+          receivedBy: p.receivedBy,
+          receivedByName: userNameById.get(p.receivedBy) ?? null,
+          note: p.note,
+          balanceAfter: running,
+        }
       })
 
-      const room = `tenant:${tenantId}`
-      app.io?.to(room).emit('sales.order.paid', {
-        id: updated.id,
-        number: updated.number,
-        paidAt: updated.paidAt?.toISOString() ?? null,
+      return reply.send({
+        order: {
+          id: order.id,
+          number: order.number,
+          status: order.status,
+          version: order.version,
+          paymentMode: order.paymentMode,
+          // Order amounts, payments and the schedule are all in this currency.
+          currency: order.currency,
+          exchangeRate: toNumber(order.exchangeRate),
+          deliveredAt: order.deliveredAt ? order.deliveredAt.toISOString() : null,
+          paidAt: order.paidAt ? order.paidAt.toISOString() : null,
+          customer: order.customer,
+          ...amounts,
+        },
+        paymentTerm: {
+          id: rule.id,
+          code: rule.code,
+          name: rule.name,
+          days: rule.days,
+          instalments: rule.instalments,
+          earlyPaymentDays: rule.earlyPaymentDays,
+          earlyPaymentDiscountPct: rule.earlyPaymentDiscountPct,
+        },
+        schedule,
+        // Discount available if the balance is settled now (0 when outside the window or already used).
+        earlyPaymentDiscount:
+          base && amounts.discounted === 0 && amounts.balance >= BALANCE_EPSILON
+            ? earlyPaymentDiscount(rule, base, amounts.total, new Date())
+            : 0,
+        payments,
       })
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/orders/:id/payments',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = paymentCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) =>
+        recordPaymentTx(tx, {
+          tenantId,
+          userId,
+          orderId: id,
+          version: parsed.data.version,
+          amount: parsed.data.amount,
+          method: parsed.data.method,
+          reference: parsed.data.reference,
+          receivedAt: parsed.data.receivedAt ? new Date(parsed.data.receivedAt) : undefined,
+          note: parsed.data.note,
+          applyEarlyPaymentDiscount: parsed.data.applyEarlyPaymentDiscount,
+        }),
+      )
+
+      await auditPayment(tenantId, userId, result)
+      emitPaymentEvents(tenantId, result)
+
+      return reply.status(201).send(paymentResponse(result))
+    },
+  )
+
+  // Shortcut: records a single payment for the whole outstanding balance.
+  app.post(
+    '/api/v1/sales/payments/:id/pay',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = markPaidSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) =>
+        recordPaymentTx(tx, {
+          tenantId,
+          userId,
+          orderId: id,
+          version: parsed.data.version,
+          amount: 'BALANCE',
+          method: parsed.data.method,
+          reference: parsed.data.reference,
+        }),
+      )
+
+      await auditPayment(tenantId, userId, result)
+      emitPaymentEvents(tenantId, result)
 
-      return reply.send({ order: updated })
+      return reply.send(paymentResponse(result))
     },
   )
 }
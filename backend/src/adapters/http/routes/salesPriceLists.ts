@@ -0,0 +1,363 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { resolveCustomerPrices } from '../../../application/sales/priceLists.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const priceListCreateSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+  name: z.string().trim().min(1).max(200),
+})
+
+const priceListUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200).optional(),
+  isActive: z.boolean().optional(),
+})
+
+const priceListQuerySchema = z.object({
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const itemCreateSchema = z.object({
+  productId: z.string().uuid(),
+  price: z.number().min(0),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().optional(),
+})
+
+const itemUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  price: z.number().min(0).optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validTo: z.coerce.date().nullable().optional(),
+})
+
+const customerPricesQuerySchema = z.object({
+  customerId: z.string().uuid(),
+  // Comma-separated product ids.
+  productIds: z.string().trim().min(1),
+})
+
+const priceListSelect = {
+  id: true,
+  code: true,
+  name: true,
+  isActive: true,
+  version: true,
+  updatedAt: true,
+  _count: { select: { items: true, customers: true } },
+} as const
+
+const itemSelect = {
+  id: true,
+  priceListId: true,
+  productId: true,
+  price: true,
+  validFrom: true,
+  validTo: true,
+  version: true,
+  updatedAt: true,
+  product: { select: { id: true, sku: true, name: true, price: true } },
+} as const
+
+function priceListResponse(l: any) {
+  const { _count, ...rest } = l
+  return { ...rest, itemCount: _count.items, customerCount: _count.customers }
+}
+
+function itemResponse(i: any) {
+  return {
+    ...i,
+    price: toNumber(i.price),
+    validFrom: i.validFrom ? i.validFrom.toISOString() : null,
+    validTo: i.validTo ? i.validTo.toISOString() : null,
+    product: { ...i.product, price: i.product.price === null ? null : toNumber(i.product.price) },
+  }
+}
+
+function validateValidity(validFrom: Date | null, validTo: Date | null): string | null {
+  if (validFrom && validTo && validTo < validFrom) return 'validTo must be after validFrom'
+  return null
+}
+
+export async function registerSalesPriceListRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/price-lists',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = priceListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.priceList.findMany({
+        where: { tenantId, ...(parsed.data.includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ code: 'asc' }],
+        select: priceListSelect,
+      })
+      return reply.send({ items: items.map(priceListResponse) })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/price-lists/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const list = await db.priceList.findFirst({ where: { id, tenantId }, select: priceListSelect })
+      if (!list) return reply.status(404).send({ message: 'Not found' })
+
+      const items = await db.priceListItem.findMany({
+        where: { tenantId, priceListId: id },
+        orderBy: [{ product: { name: 'asc' } }, { validFrom: { sort: 'desc', nulls: 'last' } }],
+        select: itemSelect,
+      })
+      return reply.send({ ...priceListResponse(list), items: items.map(itemResponse) })
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/price-lists',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const parsed = priceListCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      try {
+        const created = await db.priceList.create({
+          data: { tenantId, code: parsed.data.code.toUpperCase(), name: parsed.data.name, createdBy: userId },
+          select: priceListSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.priceList.create',
+          entityType: 'PriceList',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(priceListResponse(created))
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Price list code already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  // Deactivating a list makes its customers fall back to product list prices.
+  app.patch(
+    '/api/v1/sales/price-lists/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = priceListUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.priceList.findFirst({ where: { id, tenantId }, select: priceListSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const updated = await db.priceList.update({
+        where: { id },
+        data: {
+          ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+          ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
+          version: { increment: 1 },
+          createdBy: userId,
+        },
+        select: priceListSelect,
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.priceList.update',
+        entityType: 'PriceList',
+        entityId: id,
+        before,
+        after: updated,
+      })
+
+      return reply.send(priceListResponse(updated))
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/price-lists/:id/items',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const priceListId = (request.params as any).id as string
+      const parsed = itemCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const validFrom = parsed.data.validFrom ?? null
+      const validTo = parsed.data.validTo ?? null
+      const invalid = validateValidity(validFrom, validTo)
+      if (invalid) return reply.status(400).send({ message: invalid })
+
+      const list = await db.priceList.findFirst({ where: { id: priceListId, tenantId }, select: { id: true } })
+      if (!list) return reply.status(404).send({ message: 'Not found' })
+      const product = await db.product.findFirst({ where: { id: parsed.data.productId, tenantId }, select: { id: true } })
+      if (!product) return reply.status(400).send({ message: 'Product not found' })
+
+      const created = await db.priceListItem.create({
+        data: {
+          tenantId,
+          priceListId,
+          productId: parsed.data.productId,
+          price: parsed.data.price.toString(),
+          validFrom,
+          validTo,
+          createdBy: userId,
+        },
+        select: itemSelect,
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.priceList.item.create',
+        entityType: 'PriceListItem',
+        entityId: created.id,
+        after: created,
+      })
+
+      return reply.status(201).send(itemResponse(created))
+    },
+  )
+
+  // Applies to quotes saved or re-priced from now on; saved quote lines keep their unit price.
+  app.patch(
+    '/api/v1/sales/price-lists/:id/items/:itemId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const { id: priceListId, itemId } = request.params as any as { id: string; itemId: string }
+      const parsed = itemUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.priceListItem.findFirst({ where: { id: itemId, priceListId, tenantId }, select: itemSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const validFrom = parsed.data.validFrom !== undefined ? parsed.data.validFrom : before.validFrom
+      const validTo = parsed.data.validTo !== undefined ? parsed.data.validTo : before.validTo
+      const invalid = validateValidity(validFrom, validTo)
+      if (invalid) return reply.status(400).send({ message: invalid })
+
+      const updated = await db.priceListItem.update({
+        where: { id: itemId },
+        data: {
+          ...(parsed.data.price !== undefined ? { price: parsed.data.price.toString() } : {}),
+          validFrom,
+          validTo,
+          version: { increment: 1 },
+          createdBy: userId,
+        },
+        select: itemSelect,
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.priceList.item.update',
+        entityType: 'PriceListItem',
+        entityId: itemId,
+        before,
+        after: updated,
+      })
+
+      return reply.send(itemResponse(updated))
+    },
+  )
+
+  app.delete(
+    '/api/v1/sales/price-lists/:id/items/:itemId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const { id: priceListId, itemId } = request.params as any as { id: string; itemId: string }
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.priceListItem.findFirst({ where: { id: itemId, priceListId, tenantId }, select: itemSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      await db.priceListItem.delete({ where: { id: itemId } })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.priceList.item.delete',
+        entityType: 'PriceListItem',
+        entityId: itemId,
+        before,
+      })
+
+      return reply.send({ ok: true })
+    },
+  )
+
+  // Prices the catalog shows for the customer selected in the cart, resolved exactly as saving the quote would.
+  app.get(
+    '/api/v1/sales/customer-prices',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = customerPricesQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const productIds = Array.from(
+        new Set(
+          parsed.data.productIds
+            .split(',')
+            .map((s) => s.trim())
+            .filter(Boolean),
+        ),
+      ).slice(0, 200)
+
+      const { priceList, prices } = await resolveCustomerPrices(db, tenantId, parsed.data.customerId, productIds)
+      return reply.send({
+        priceList,
+        items: Array.from(prices.entries()).map(([productId, price]) => ({ productId, price })),
+      })
+    },
+  )
+}
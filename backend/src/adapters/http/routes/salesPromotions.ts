@@ -0,0 +1,354 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { applyPromotions, loadActivePromotions } from '../../../application/sales/promotions.js'
+import { resolveCustomerPrices } from '../../../application/sales/priceLists.js'
+import { ExchangeRateMissingError, fromBaseAmount, resolveDocumentCurrency } from '../../../application/sales/exchangeRates.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const promotionTypeSchema = z.enum(['PERCENT_DISCOUNT', 'FIXED_DISCOUNT', 'BONUS_UNITS'])
+
+const promotionCreateSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+  name: z.string().trim().min(1).max(200),
+  type: promotionTypeSchema,
+  // One product, or several forming a group whose quantities add up towards minQuantity.
+  productIds: z.array(z.string().uuid()).min(1).max(200),
+  minQuantity: z.number().positive().default(1),
+  discountPct: z.number().gt(0).max(100).optional(),
+  discountAmount: z.number().positive().optional(),
+  bonusQuantity: z.number().positive().optional(),
+  bonusProductId: z.string().uuid().optional(),
+  validFrom: z.coerce.date(),
+  validTo: z.coerce.date().optional(),
+})
+
+const promotionUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200).optional(),
+  productIds: z.array(z.string().uuid()).min(1).max(200).optional(),
+  minQuantity: z.number().positive().optional(),
+  discountPct: z.number().gt(0).max(100).nullable().optional(),
+  discountAmount: z.number().positive().nullable().optional(),
+  bonusQuantity: z.number().positive().nullable().optional(),
+  bonusProductId: z.string().uuid().nullable().optional(),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+const promotionListQuerySchema = z.object({
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const previewSchema = z.object({
+  // Lines without unitPrice take the customer's price list, like saving the quote.
+  customerId: z.string().uuid().optional(),
+  // Quote currency: default prices and fixed discounts are converted at its current rate.
+  currency: z.string().trim().length(3).optional(),
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().uuid(),
+        quantity: z.coerce.number().positive(),
+        unitPrice: z.coerce.number().min(0).optional(),
+        discountPct: z.coerce.number().min(0).max(100).default(0),
+      }),
+    )
+    .min(1),
+})
+
+const promotionSelect = {
+  id: true,
+  code: true,
+  name: true,
+  type: true,
+  minQuantity: true,
+  discountPct: true,
+  discountAmount: true,
+  bonusQuantity: true,
+  bonusProductId: true,
+  validFrom: true,
+  validTo: true,
+  isActive: true,
+  version: true,
+  updatedAt: true,
+  bonusProduct: { select: { id: true, sku: true, name: true } },
+  products: { select: { product: { select: { id: true, sku: true, name: true } } } },
+} as const
+
+type PromotionRules = {
+  type: 'PERCENT_DISCOUNT' | 'FIXED_DISCOUNT' | 'BONUS_UNITS'
+  productIds: string[]
+  discountPct: number | null
+  discountAmount: number | null
+  bonusQuantity: number | null
+  bonusProductId: string | null
+  validFrom: Date
+  validTo: Date | null
+}
+
+function nullableNumber(value: any): number | null {
+  return value === null || value === undefined ? null : toNumber(value)
+}
+
+function promotionResponse(p: any) {
+  const { products, ...rest } = p
+  return {
+    ...rest,
+    minQuantity: toNumber(p.minQuantity),
+    discountPct: nullableNumber(p.discountPct),
+    discountAmount: nullableNumber(p.discountAmount),
+    bonusQuantity: nullableNumber(p.bonusQuantity),
+    validFrom: p.validFrom.toISOString(),
+    validTo: p.validTo ? p.validTo.toISOString() : null,
+    products: products.map((pp: any) => pp.product),
+  }
+}
+
+function validatePromotionRules(p: PromotionRules): string | null {
+  if (p.validTo && p.validTo < p.validFrom) return 'validTo must be after validFrom'
+  if (p.type === 'PERCENT_DISCOUNT' && !p.discountPct) return 'discountPct is required for PERCENT_DISCOUNT'
+  if (p.type === 'FIXED_DISCOUNT' && !p.discountAmount) return 'discountAmount is required for FIXED_DISCOUNT'
+  if (p.type === 'BONUS_UNITS') {
+    if (!p.bonusQuantity) return 'bonusQuantity is required for BONUS_UNITS'
+    // With a product group the free product must be explicit.
+    if (p.productIds.length > 1 && !p.bonusProductId) return 'bonusProductId is required when the promotion has several products'
+  }
+  return null
+}
+
+// Only the fields of the promotion's own type are stored.
+function promotionRuleData(p: PromotionRules) {
+  return {
+    discountPct: p.type === 'PERCENT_DISCOUNT' && p.discountPct !== null ? p.discountPct.toString() : null,
+    discountAmount: p.type === 'FIXED_DISCOUNT' && p.discountAmount !== null ? p.discountAmount.toString() : null,
+    bonusQuantity: p.type === 'BONUS_UNITS' && p.bonusQuantity !== null ? p.bonusQuantity.toString() : null,
+    bonusProductId: p.type === 'BONUS_UNITS' ? p.bonusProductId : null,
+  }
+}
+
+export async function registerSalesPromotionRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  async function countTenantProducts(tenantId: string, ids: string[]): Promise<number> {
+    return db.product.count({ where: { tenantId, id: { in: Array.from(new Set(ids)) } } })
+  }
+
+  app.get(
+    '/api/v1/sales/promotions',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = promotionListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.promotion.findMany({
+        where: { tenantId, ...(parsed.data.includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ validFrom: 'desc' }, { code: 'asc' }],
+        select: promotionSelect,
+      })
+      return reply.send({ items: items.map(promotionResponse) })
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/promotions',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const parsed = promotionCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const productIds = Array.from(new Set(parsed.data.productIds))
+      const rules: PromotionRules = {
+        type: parsed.data.type,
+        productIds,
+        discountPct: parsed.data.discountPct ?? null,
+        discountAmount: parsed.data.discountAmount ?? null,
+        bonusQuantity: parsed.data.bonusQuantity ?? null,
+        bonusProductId: parsed.data.bonusProductId ?? null,
+        validFrom: parsed.data.validFrom,
+        validTo: parsed.data.validTo ?? null,
+      }
+      const invalid = validatePromotionRules(rules)
+      if (invalid) return reply.status(400).send({ message: invalid })
+
+      const referenced = rules.bonusProductId ? [...productIds, rules.bonusProductId] : productIds
+      if ((await countTenantProducts(tenantId, referenced)) !== new Set(referenced).size) {
+        return reply.status(400).send({ message: 'One or more products not found' })
+      }
+
+      try {
+        const created = await db.promotion.create({
+          data: {
+            tenantId,
+            code: parsed.data.code.toUpperCase(),
+            name: parsed.data.name,
+            type: parsed.data.type,
+            minQuantity: parsed.data.minQuantity.toString(),
+            ...promotionRuleData(rules),
+            validFrom: rules.validFrom,
+            validTo: rules.validTo,
+            createdBy: userId,
+            products: { create: productIds.map((productId) => ({ tenantId, productId })) },
+          },
+          select: promotionSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.promotion.create',
+          entityType: 'Promotion',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(promotionResponse(created))
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Promotion code already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  // Applies to quotes saved or re-priced from now on; saved quote lines keep the promotion they were built with.
+  app.patch(
+    '/api/v1/sales/promotions/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.CatalogWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = promotionUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.promotion.findFirst({ where: { id, tenantId }, select: promotionSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const productIds = parsed.data.productIds ? Array.from(new Set(parsed.data.productIds)) : before.products.map((pp) => pp.product.id)
+      const rules: PromotionRules = {
+        type: before.type,
+        productIds,
+        discountPct: parsed.data.discountPct !== undefined ? parsed.data.discountPct : nullableNumber(before.discountPct),
+        discountAmount: parsed.data.discountAmount !== undefined ? parsed.data.discountAmount : nullableNumber(before.discountAmount),
+        bonusQuantity: parsed.data.bonusQuantity !== undefined ? parsed.data.bonusQuantity : nullableNumber(before.bonusQuantity),
+        bonusProductId: parsed.data.bonusProductId !== undefined ? parsed.data.bonusProductId : before.bonusProductId,
+        validFrom: parsed.data.validFrom ?? before.validFrom,
+        validTo: parsed.data.validTo !== undefined ? parsed.data.validTo : before.validTo,
+      }
+      const invalid = validatePromotionRules(rules)
+      if (invalid) return reply.status(400).send({ message: invalid })
+
+      const referenced = rules.bonusProductId ? [...productIds, rules.bonusProductId] : productIds
+      if ((await countTenantProducts(tenantId, referenced)) !== new Set(referenced).size) {
+        return reply.status(400).send({ message: 'One or more products not found' })
+      }
+
+      const updated = await db.$transaction(async (tx) => {
+        if (parsed.data.productIds) {
+          await tx.promotionProduct.deleteMany({ where: { promotionId: id, tenantId } })
+          await tx.promotionProduct.createMany({ data: productIds.map((productId) => ({ tenantId, promotionId: id, productId })) })
+        }
+        return tx.promotion.update({
+          where: { id },
+          data: {
+            ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+            ...(parsed.data.minQuantity !== undefined ? { minQuantity: parsed.data.minQuantity.toString() } : {}),
+            ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
+            ...promotionRuleData(rules),
+            validFrom: rules.validFrom,
+            validTo: rules.validTo,
+            version: { increment: 1 },
+            createdBy: userId,
+          },
+          select: promotionSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.promotion.update',
+        entityType: 'Promotion',
+        entityId: id,
+        before,
+        after: updated,
+      })
+
+      return reply.send(promotionResponse(updated))
+    },
+  )
+
+  // Promotional prices and bonus lines for an unsaved cart, computed exactly as saving the quote would.
+  app.post(
+    '/api/v1/sales/promotions/preview',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = previewSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const { lines, customerId, currency } = parsed.data
+      let exchangeRate: number
+      try {
+        exchangeRate = (await resolveDocumentCurrency(db, tenantId, currency)).exchangeRate
+      } catch (e) {
+        if (e instanceof ExchangeRateMissingError) {
+          return reply.status(400).send({ message: e.message, code: 'EXCHANGE_RATE_MISSING', currency: e.currency })
+        }
+        throw e
+      }
+
+      const products = await db.product.findMany({
+        where: { tenantId, id: { in: lines.map((l) => l.productId) } },
+        select: { id: true, price: true },
+      })
+      const prices = new Map(products.map((p) => [p.id, toNumber(p.price)] as const))
+      if (customerId) {
+        const listed = await resolveCustomerPrices(db, tenantId, customerId, Array.from(prices.keys()))
+        for (const [productId, price] of listed.prices) prices.set(productId, price)
+      }
+
+      const promotions = await loadActivePromotions(db, tenantId, Array.from(prices.keys()))
+      const promoted = applyPromotions(
+        lines.map((l) => ({ ...l, unitPrice: l.unitPrice ?? fromBaseAmount(prices.get(l.productId) ?? 0, exchangeRate) })),
+        promotions.map((p) => ({ ...p, discountAmount: fromBaseAmount(p.discountAmount, exchangeRate) })),
+      )
+
+      const bonusIds = Array.from(new Set(promoted.filter((l) => l.isBonus).map((l) => l.productId)))
+      const bonusProducts = bonusIds.length
+        ? await db.product.findMany({ where: { tenantId, id: { in: bonusIds } }, select: { id: true, sku: true, name: true } })
+        : []
+      const bonusProductMap = new Map(bonusProducts.map((p) => [p.id, p] as const))
+      const promotionNames = new Map(promotions.map((p) => [p.id, p.name] as const))
+
+      return reply.send({
+        lines: promoted.map((l) => ({
+          ...l,
+          promotionName: l.promotionId ? promotionNames.get(l.promotionId) ?? null : null,
+          productSku: l.isBonus ? bonusProductMap.get(l.productId)?.sku ?? null : null,
+          productName: l.isBonus ? bonusProductMap.get(l.productId)?.name ?? null : null,
+        })),
+      })
+    },
+  )
+}
@@ -5,18 +5,52 @@ import { AuditService } from '../../../application/audit/auditService.js'
 import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
 import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { CreditHoldError, computeCustomerCreditStatus, isCreditPaymentMode } from '../../../application/sales/creditService.js'
+import { paymentTermRuleSelect, resolvePaymentTerm } from '../../../application/sales/paymentTerms.js'
+import { loadTaxRates, productTaxPct, splitTax, type TaxRates } from '../../../application/sales/taxes.js'
+import { isQuoteExpired, quoteValidUntil } from '../../../application/sales/quoteExpiryScheduler.js'
+import { discountApproverUserIds, evaluateQuoteDiscounts, type DiscountViolation } from '../../../application/sales/discountApproval.js'
+import { BelowCostError, loadMinMarginPct, quoteLineMargins, type LineMargin } from '../../../application/sales/marginGuard.js'
+import { applyPromotions, loadActivePromotions, type PromotedLine } from '../../../application/sales/promotions.js'
+import { resolveCustomerPrices } from '../../../application/sales/priceLists.js'
+import {
+  ExchangeRateMissingError,
+  fromBaseAmount,
+  resolveDocumentCurrency,
+  toBaseAmount,
+  type DocumentCurrency,
+} from '../../../application/sales/exchangeRates.js'
+import { createTransferPlan, type CrossCityPortion } from '../../../application/sales/transferPlans.js'
+import { AVAILABLE_BATCH_STATUS } from '../../../application/stock/batchStatus.js'
+import { startOfTodayUtc } from '../../../application/shared/dates.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
 
 const listQuerySchema = z.object({
   take: z.coerce.number().int().min(1).max(50).default(20),
   cursor: z.string().uuid().optional(),
   customerSearch: z.string().optional(),
+  status: z.enum(['CREATED', 'PROCESSED', 'EXPIRED', 'REJECTED', 'CANCELLED', 'PENDING_APPROVAL']).optional(),
+})
+
+const processQuoteSchema = z.object({
+  // Releases a credit hold; requires sales:credit:override and a reason.
+  overrideCreditHold: z.boolean().optional(),
+  overrideReason: z.string().trim().min(3).max(500).optional(),
+  // Reserves what the customer's city lacks in other cities and plans the transfers.
+  splitAcrossCities: z.boolean().optional(),
+})
+
+const quoteCloseSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
 })
 
 const quoteCreateSchema = z.object({
   // Customer IDs are strings in Prisma and may be legacy (not strictly UUID).
   customerId: z.string().trim().min(1).max(64),
   validityDays: z.coerce.number().int().min(1).max(365).default(7),
-  paymentMode: z.string().trim().min(1).max(50).default('CASH'),
+  // Preferred: a PaymentTerm id. `paymentMode` (term code, e.g. CREDIT_7) is still accepted for older clients.
+  paymentTermId: z.string().uuid().optional(),
+  paymentMode: z.string().trim().min(1).max(50).optional(),
   deliveryDays: z.coerce.number().int().min(0).max(365).default(1),
   deliveryCity: z.string().trim().max(80).optional(),
   deliveryZone: z.string().trim().max(80).optional(),
@@ -24,6 +58,8 @@ const quoteCreateSchema = z.object({
   // Google Maps share URLs can be long.
   deliveryMapsUrl: z.string().trim().max(2000).optional(),
   globalDiscountPct: z.coerce.number().min(0).max(100).default(0),
+  // ISO code (e.g. USD); defaults to the tenant currency. The rate in effect when saving is locked on the quote.
+  currency: z.string().trim().length(3).optional(),
   proposalValue: z.string().trim().max(200).optional(),
   note: z.string().trim().max(500).optional(),
   lines: z
@@ -38,9 +74,9 @@ const quoteCreateSchema = z.object({
     .min(1),
 })
 
-function decimalFromNumber(value: number): string {
-  return value.toString()
-}
+const marginCheckSchema = quoteCreateSchema
+  .pick({ globalDiscountPct: true, currency: true, lines: true })
+  .extend({ customerId: z.string().uuid().optional() })
 
 function clampPct(value: number): number {
   if (!Number.isFinite(value)) return 0
@@ -49,20 +85,113 @@ function clampPct(value: number): number {
   return value
 }
 
-function computeTotals(lines: Array<{ quantity: number; unitPrice: number; discountPct: number }>, globalDiscountPct: number) {
-  const subtotal = lines.reduce((sum, l) => {
-    const disc = clampPct(l.discountPct) / 100
-    return sum + l.unitPrice * l.quantity * (1 - disc)
-  }, 0)
+function computeTotals(
+  lines: Array<{ quantity: number; unitPrice: number; discountPct: number; taxPct?: number }>,
+  globalDiscountPct: number,
+  pricesIncludeTax = true,
+) {
   const gd = clampPct(globalDiscountPct) / 100
+  let subtotal = 0
+  // Tax is computed per line on the amount left after line and global discounts.
+  const lineTaxes = lines.map((l) => {
+    const disc = clampPct(l.discountPct) / 100
+    const amount = l.unitPrice * l.quantity * (1 - disc)
+    subtotal += amount
+    return splitTax(amount * (1 - gd), l.taxPct ?? 0, pricesIncludeTax)
+  })
   const globalDiscountAmount = subtotal * gd
   const totalAfterGlobal = Math.max(0, subtotal - globalDiscountAmount)
-  return { subtotal, globalDiscountAmount, totalAfterGlobal }
+  const netTotal = lineTaxes.reduce((sum, t) => sum + t.net, 0)
+  const taxTotal = lineTaxes.reduce((sum, t) => sum + t.tax, 0)
+  const grossTotal = lineTaxes.reduce((sum, t) => sum + t.gross, 0)
+  return { subtotal, globalDiscountAmount, totalAfterGlobal, netTotal, taxTotal, grossTotal, lineTaxes }
 }
 
-function startOfTodayUtc(): Date {
-  const now = new Date()
-  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0, 0))
+function quoteLineTotals(quote: { globalDiscountPct: any; pricesIncludeTax: boolean; lines: any[] }) {
+  return computeTotals(
+    quote.lines.map((l: any) => ({
+      quantity: Number(l.quantity),
+      unitPrice: Number(l.unitPrice),
+      discountPct: Number(l.discountPct ?? 0),
+      taxPct: Number(l.taxPct ?? 0),
+    })),
+    Number(quote.globalDiscountPct ?? 0),
+    quote.pricesIncludeTax,
+  )
+}
+
+/** Line rows to store for a quote: default prices, product tax rate and the resulting tax amount. */
+function priceQuoteLines<L extends { productId: string; quantity: number; unitPrice?: number | undefined; discountPct?: number | undefined }>(
+  lines: L[],
+  productMap: Map<string, any>,
+  globalDiscountPct: number,
+  rates: TaxRates,
+) {
+  const priced = lines.map((line) => {
+    const product = productMap.get(line.productId)
+    return {
+      ...line,
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice ?? Number(product?.price ?? 0),
+      discountPct: clampPct(line.discountPct ?? 0),
+      taxPct: productTaxPct(product?.taxCategory, rates),
+    }
+  })
+  const { lineTaxes } = computeTotals(priced, globalDiscountPct, rates.pricesIncludeTax)
+  return priced.map((l, i) => ({ ...l, taxAmount: lineTaxes[i]!.tax }))
+}
+
+/**
+ * Applies the tenant's active promotions to requested lines: promotional unit prices and bonus lines.
+ * Lines without a unit price take the customer's price list, then the product list price.
+ * Those prices and fixed promotion discounts are in the tenant currency and get converted at `exchangeRate`.
+ * Bonus products that were not requested are loaded into `productMap` so they can be priced and taxed.
+ */
+async function promoteQuoteLines(
+  db: any,
+  tenantId: string,
+  customerId: string | null | undefined,
+  lines: Array<{ productId: string; quantity: number; unitPrice?: number | undefined; discountPct?: number | undefined }>,
+  productMap: Map<string, any>,
+  exchangeRate = 1,
+): Promise<PromotedLine[]> {
+  const unpriced = Array.from(new Set(lines.filter((l) => l.unitPrice === undefined).map((l) => l.productId)))
+  const { prices } =
+    customerId && unpriced.length > 0
+      ? await resolveCustomerPrices(db, tenantId, customerId, unpriced)
+      : { prices: new Map<string, number>() }
+  const resolved = lines.map((l) => ({
+    productId: l.productId,
+    quantity: l.quantity,
+    unitPrice:
+      l.unitPrice ?? fromBaseAmount(prices.get(l.productId) ?? Number(productMap.get(l.productId)?.price ?? 0), exchangeRate),
+    discountPct: clampPct(l.discountPct ?? 0),
+  }))
+  const promotions = await loadActivePromotions(db, tenantId, Array.from(new Set(resolved.map((l) => l.productId))))
+  const promoted = applyPromotions(
+    resolved,
+    promotions.map((p) => ({ ...p, discountAmount: fromBaseAmount(p.discountAmount, exchangeRate) })),
+  )
+
+  const missing = Array.from(new Set(promoted.map((l) => l.productId).filter((id) => !productMap.has(id))))
+  if (missing.length > 0) {
+    const bonusProducts = await db.product.findMany({
+      where: { tenantId, id: { in: missing } },
+      select: { id: true, price: true, cost: true, taxCategory: true },
+    })
+    for (const p of bonusProducts) productMap.set(p.id, p)
+  }
+  return promoted
+}
+
+/** Product costs (tenant currency) converted to the quote currency, for the margin guardrail. */
+function documentCosts(products: Iterable<{ id: string; cost: any }>, exchangeRate: number): Map<string, number | null> {
+  const costs = new Map<string, number | null>()
+  for (const p of products) {
+    costs.set(p.id, p.cost === null || p.cost === undefined ? null : fromBaseAmount(Number(p.cost), exchangeRate))
+  }
+  return costs
 }
 
 function addDaysUtc(date: Date, days: number): Date {
@@ -70,11 +199,6 @@ function addDaysUtc(date: Date, days: number): Date {
   return new Date(ms)
 }
 
-function toNumber(value: any): number {
-  const n = typeof value === 'number' ? value : Number(value)
-  return Number.isFinite(n) ? n : 0
-}
-
 function deriveOrderNumberFromQuoteNumber(quoteNumber: string): string {
   const n = (quoteNumber ?? '').trim()
   if (!n) return 'OV'
@@ -89,6 +213,82 @@ function deriveOrderNumberFromQuoteNumber(quoteNumber: string): string {
   return `OV-${n}`
 }
 
+// A quote reopened after its order was cancelled keeps its number, so the next order gets a suffix.
+async function nextFreeOrderNumber(tx: any, tenantId: string, base: string): Promise<string> {
+  let candidate = base
+  for (let n = 2; ; n++) {
+    const taken = await tx.salesOrder.findFirst({ where: { tenantId, number: candidate }, select: { id: true } })
+    if (!taken) return candidate
+    candidate = `${base}-R${n}`
+  }
+}
+
+class QuoteExpiredError extends Error {
+  statusCode = 409
+  validUntil: Date
+  constructor(validUntil: Date) {
+    super(`Cotización vencida: sus precios eran válidos hasta el ${validUntil.toLocaleDateString('es-BO')}; re-cotícela antes de procesar`)
+    this.validUntil = validUntil
+  }
+}
+
+class QuotePendingApprovalError extends Error {
+  statusCode = 409
+  constructor() {
+    super('Cotización pendiente de aprobación: los descuentos superan el límite permitido para su rol')
+  }
+}
+
+/** Status as seen by clients: an open quote past its validity reads as EXPIRED before the nightly job flips it. */
+function quoteLifecycleFields(quote: {
+  status: string
+  pricedAt: Date
+  validityDays: number
+  closedAt: Date | null
+  closeReason: string | null
+}) {
+  return {
+    status: isQuoteExpired(quote) ? 'EXPIRED' : quote.status,
+    pricedAt: quote.pricedAt.toISOString(),
+    validUntil: quoteValidUntil(quote).toISOString(),
+    closedAt: quote.closedAt ? quote.closedAt.toISOString() : null,
+    closeReason: quote.closeReason,
+  }
+}
+
+function lineMarginFields(margin: LineMargin | undefined) {
+  return {
+    netUnitPrice: margin?.netUnitPrice ?? null,
+    marginPct: margin?.marginPct ?? null,
+    marginFlag: margin?.flag ?? null,
+  }
+}
+
+function linePromotionData(line: { basePrice: number | null; promotionId: string | null; isBonus: boolean }) {
+  return {
+    basePrice: line.basePrice === null ? null : decimalFromNumber(line.basePrice),
+    promotionId: line.promotionId,
+    isBonus: line.isBonus,
+  }
+}
+
+function linePromotionFields(line: any) {
+  return {
+    basePrice: line.basePrice === null || line.basePrice === undefined ? null : Number(line.basePrice),
+    promotionId: line.promotionId ?? null,
+    promotionName: line.promotion?.name ?? null,
+    isBonus: Boolean(line.isBonus),
+  }
+}
+
+function belowCostBody(e: BelowCostError) {
+  return { message: e.message, code: 'BELOW_COST', lines: e.lines }
+}
+
+function exchangeRateMissingBody(e: ExchangeRateMissingError) {
+  return { message: e.message, code: 'EXCHANGE_RATE_MISSING', currency: e.currency }
+}
+
 type InsufficientStockItem = { productId: string; productName: string; required: number; available: number }
 
 class InsufficientStockCityError extends Error {
@@ -103,6 +303,17 @@ class InsufficientStockCityError extends Error {
   }
 }
 
+// A product can appear on several lines (e.g. paid units plus promotion bonus units); availability is checked on the total.
+function sumQuantitiesByProduct(lines: Array<{ productId: string; productName: string; quantity: any }>) {
+  const byProduct = new Map<string, { productId: string; productName: string; quantity: number }>()
+  for (const l of lines) {
+    const entry = byProduct.get(l.productId)
+    if (entry) entry.quantity += Math.max(0, toNumber(l.quantity))
+    else byProduct.set(l.productId, { productId: l.productId, productName: l.productName, quantity: Math.max(0, toNumber(l.quantity)) })
+  }
+  return Array.from(byProduct.values())
+}
+
 async function computeStockShortagesInCity(
   tx: any,
   args: { tenantId: string; city: string; lines: Array<{ productId: string; productName: string; quantity: any }> },
@@ -114,6 +325,7 @@ async function computeStockShortagesInCity(
 
   const sameCityLoc = {
     isActive: true,
+    isQuarantine: false,
     warehouse: {
       isActive: true,
       city: { equals: city, mode: 'insensitive' as const },
@@ -121,7 +333,7 @@ async function computeStockShortagesInCity(
   }
 
   const shortages: InsufficientStockItem[] = []
-  for (const line of args.lines) {
+  for (const line of sumQuantitiesByProduct(args.lines)) {
     const required = Math.max(0, toNumber(line.quantity))
     if (required <= 0) continue
 
@@ -133,7 +345,7 @@ async function computeStockShortagesInCity(
         location: sameCityLoc,
         OR: [
           { batchId: null },
-          { batch: { status: 'RELEASED', OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] } },
+          { batch: { status: AVAILABLE_BATCH_STATUS, OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] } },
         ],
       },
       select: { quantity: true, reservedQuantity: true },
@@ -158,6 +370,79 @@ async function computeStockShortagesInCity(
   return shortages
 }
 
+const reservableBalanceSelect = {
+  id: true,
+  locationId: true,
+  batchId: true,
+  quantity: true,
+  reservedQuantity: true,
+  location: { select: { warehouse: { select: { city: true, transferLeadDays: true } } } },
+} as const
+
+// Balances a line can reserve from within `location`, in FEFO-ish order.
+async function reservableBalanceLists(
+  tx: any,
+  args: { tenantId: string; productId: string; batchId: string | null; location: any; todayUtc: Date },
+): Promise<any[][]> {
+  if (args.batchId) {
+    const sameBatch = await tx.inventoryBalance.findMany({
+      where: {
+        tenantId: args.tenantId,
+        productId: args.productId,
+        batchId: args.batchId,
+        quantity: { gt: 0 },
+        location: args.location,
+        batch: { status: AVAILABLE_BATCH_STATUS, OR: [{ expiresAt: null }, { expiresAt: { gte: args.todayUtc } }] },
+      },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      select: reservableBalanceSelect,
+    })
+    return [sameBatch]
+  }
+
+  const withExpiry = await tx.inventoryBalance.findMany({
+    where: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      batchId: { not: null },
+      quantity: { gt: 0 },
+      location: args.location,
+      batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: { not: null, gte: args.todayUtc } },
+    },
+    orderBy: [{ batch: { expiresAt: 'asc' } }, { updatedAt: 'desc' }, { id: 'asc' }],
+    select: reservableBalanceSelect,
+  })
+
+  const withoutExpiry = await tx.inventoryBalance.findMany({
+    where: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      batchId: { not: null },
+      quantity: { gt: 0 },
+      location: args.location,
+      batch: { status: AVAILABLE_BATCH_STATUS, expiresAt: null },
+    },
+    orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+    select: reservableBalanceSelect,
+  })
+
+  const unbatched = await tx.inventoryBalance.findMany({
+    where: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      batchId: null,
+      quantity: { gt: 0 },
+      location: args.location,
+    },
+    orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+    select: reservableBalanceSelect,
+  })
+
+  return [withExpiry, withoutExpiry, unbatched]
+}
+
+// Reserves in the customer's city. With `allowOtherCities`, whatever the city can't cover is reserved in
+// other cities (local stock first) and returned as cross-city portions to be transferred.
 async function reserveForOrderInCityOrFail(
   tx: any,
   args: {
@@ -165,9 +450,10 @@ async function reserveForOrderInCityOrFail(
     userId: string
     orderId: string
     city: string
+    allowOtherCities?: boolean
     lines: Array<{ id: string; productId: string; productName: string; batchId: string | null; quantity: any }>
   },
-): Promise<any[]> {
+): Promise<{ changedBalances: any[]; crossCity: CrossCityPortion[] }> {
   const todayUtc = startOfTodayUtc()
   const cityRaw = (args.city ?? '').trim()
   const city = cityRaw ? cityRaw : ''
@@ -175,15 +461,29 @@ async function reserveForOrderInCityOrFail(
 
   const sameCityLoc = {
     isActive: true,
+    isQuarantine: false,
     warehouse: {
       isActive: true,
       city: { equals: city, mode: 'insensitive' as const },
     },
   }
+  const otherCityLoc = {
+    isActive: true,
+    isQuarantine: false,
+    warehouse: {
+      isActive: true,
+      city: { not: null },
+      NOT: { city: { equals: city, mode: 'insensitive' as const } },
+    },
+  }
+  const precheckLoc = args.allowOtherCities
+    ? { isActive: true, isQuarantine: false, warehouse: { isActive: true, city: { not: null } } }
+    : sameCityLoc
+  const shortageCity = args.allowOtherCities ? 'todas las ciudades' : city
 
-  // Pre-check availability in the customer's city for all lines (fail fast, no partial reservations).
+  // Pre-check availability for all lines (fail fast, no partial reservations).
   const shortages: InsufficientStockItem[] = []
-  for (const line of args.lines) {
+  for (const line of sumQuantitiesByProduct(args.lines)) {
     const required = Math.max(0, toNumber(line.quantity))
     if (required <= 0) continue
 
@@ -192,10 +492,10 @@ async function reserveForOrderInCityOrFail(
         tenantId: args.tenantId,
         productId: line.productId,
         quantity: { gt: 0 },
-        location: sameCityLoc,
+        location: precheckLoc,
         OR: [
           { batchId: null },
-          { batch: { status: 'RELEASED', OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] } },
+          { batch: { status: AVAILABLE_BATCH_STATUS, OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] } },
         ],
       },
       select: { quantity: true, reservedQuantity: true },
@@ -211,72 +511,20 @@ async function reserveForOrderInCityOrFail(
       shortages.push({ productId: line.productId, productName: line.productName, required, available })
     }
   }
-  if (shortages.length > 0) throw new InsufficientStockCityError({ city, items: shortages })
+  if (shortages.length > 0) throw new InsufficientStockCityError({ city: shortageCity, items: shortages })
 
-  // Reserve in city only (FEFO-ish ordering).
   const changedBalances: any[] = []
+  const crossCity: CrossCityPortion[] = []
   for (const line of args.lines) {
     let remaining = Math.max(0, toNumber(line.quantity))
     if (remaining <= 0) continue
 
-    const lists: any[][] = []
-    if (line.batchId) {
-      const sameCity = await tx.inventoryBalance.findMany({
-        where: {
-          tenantId: args.tenantId,
-          productId: line.productId,
-          batchId: line.batchId,
-          quantity: { gt: 0 },
-          location: sameCityLoc,
-          batch: { status: 'RELEASED', OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }] },
-        },
-        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
-      })
-      lists.push(sameCity)
-    } else {
-      const withExpirySame = await tx.inventoryBalance.findMany({
-        where: {
-          tenantId: args.tenantId,
-          productId: line.productId,
-          batchId: { not: null },
-          quantity: { gt: 0 },
-          location: sameCityLoc,
-          batch: { status: 'RELEASED', expiresAt: { not: null, gte: todayUtc } },
-        },
-        orderBy: [{ batch: { expiresAt: 'asc' } }, { updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
-      })
-
-      const withoutExpirySame = await tx.inventoryBalance.findMany({
-        where: {
-          tenantId: args.tenantId,
-          productId: line.productId,
-          batchId: { not: null },
-          quantity: { gt: 0 },
-          location: sameCityLoc,
-          batch: { status: 'RELEASED', expiresAt: null },
-        },
-        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
-      })
+    const listArgs = { tenantId: args.tenantId, productId: line.productId, batchId: line.batchId, todayUtc }
+    const lists = await reservableBalanceLists(tx, { ...listArgs, location: sameCityLoc })
+    const localListCount = lists.length
+    if (args.allowOtherCities) lists.push(...(await reservableBalanceLists(tx, { ...listArgs, location: otherCityLoc })))
 
-      const unbatchedSame = await tx.inventoryBalance.findMany({
-        where: {
-          tenantId: args.tenantId,
-          productId: line.productId,
-          batchId: null,
-          quantity: { gt: 0 },
-          location: sameCityLoc,
-        },
-        orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
-        select: { id: true, quantity: true, reservedQuantity: true },
-      })
-
-      lists.push(withExpirySame, withoutExpirySame, unbatchedSame)
-    }
-
-    for (const balances of lists) {
+    for (const [listIndex, balances] of lists.entries()) {
       for (const b of balances) {
         if (remaining <= 0) break
         const qty = toNumber(b.quantity)
@@ -316,6 +564,19 @@ async function reserveForOrderInCityOrFail(
           },
           select: { id: true },
         })
+
+        if (listIndex >= localListCount) {
+          crossCity.push({
+            lineId: line.id,
+            productId: line.productId,
+            productName: line.productName,
+            batchId: b.batchId ?? null,
+            fromLocationId: b.locationId,
+            fromCity: String(b.location?.warehouse?.city ?? ''),
+            quantity: take,
+            leadDays: Number(b.location?.warehouse?.transferLeadDays ?? 0),
+          })
+        }
       }
       if (remaining <= 0) break
     }
@@ -323,7 +584,7 @@ async function reserveForOrderInCityOrFail(
     // Race-condition safety: if stock changed after pre-check, fail with a clear message.
     if (remaining > 1e-9) {
       throw new InsufficientStockCityError({
-        city,
+        city: shortageCity,
         items: [
           {
             productId: line.productId,
@@ -336,7 +597,7 @@ async function reserveForOrderInCityOrFail(
     }
   }
 
-  return changedBalances
+  return { changedBalances, crossCity }
 }
 
 async function resolveUserDisplayName(db: any, tenantId: string, userId?: string | null): Promise<string | null> {
@@ -348,8 +609,89 @@ async function resolveUserDisplayName(db: any, tenantId: string, userId?: string
   return user.email
 }
 
+/** Appends the quote's current terms and lines as revision `quote.revision`; revisions are never updated. */
+async function recordQuoteRevision(
+  tx: any,
+  args: { tenantId: string; quoteId: string; userId: string; source: 'CREATE' | 'EDIT' | 'REPRICE' },
+) {
+  const quote = await tx.quote.findFirst({ where: { id: args.quoteId, tenantId: args.tenantId }, include: { lines: true } })
+  return tx.quoteRevision.create({
+    data: {
+      tenantId: args.tenantId,
+      quoteId: quote.id,
+      revision: quote.revision,
+      source: args.source,
+      customerId: quote.customerId,
+      validityDays: quote.validityDays,
+      paymentMode: quote.paymentMode,
+      paymentTermId: quote.paymentTermId,
+      deliveryDays: quote.deliveryDays,
+      globalDiscountPct: quote.globalDiscountPct,
+      pricesIncludeTax: quote.pricesIncludeTax,
+      proposalValue: quote.proposalValue,
+      note: quote.note,
+      createdBy: args.userId,
+      lines: {
+        create: quote.lines.map((l: any) => ({
+          tenantId: args.tenantId,
+          productId: l.productId,
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+          discountPct: l.discountPct,
+          taxPct: l.taxPct,
+          taxAmount: l.taxAmount,
+          promotionId: l.promotionId,
+          isBonus: l.isBonus,
+        })),
+      },
+    },
+    select: { id: true, revision: true },
+  })
+}
+
 export async function salesQuotesRoutes(app: FastifyInstance) {
   const db = prisma()
+
+  // Audits a new discount approval request and alerts approvers in real time.
+  async function announceApprovalRequest(args: {
+    tenantId: string
+    userId: string
+    quote: { id: string; number: string; customer: { name: string } }
+    approval: { id: string; revision: number; violations: DiscountViolation[] }
+  }) {
+    await new AuditService(db).append({
+      tenantId: args.tenantId,
+      actorUserId: args.userId,
+      action: 'sales.quote.approval.request',
+      entityType: 'QuoteApproval',
+      entityId: args.approval.id,
+      after: { quoteId: args.quote.id, revision: args.approval.revision, violations: args.approval.violations },
+    })
+
+    app.io?.to(`tenant:${args.tenantId}`).emit('sales.quote.approval.requested', {
+      approvalId: args.approval.id,
+      quoteId: args.quote.id,
+      quoteNumber: args.quote.number,
+      revision: args.approval.revision,
+      customerName: args.quote.customer.name,
+      requestedBy: args.userId,
+      requestedByName: await resolveUserDisplayName(db, args.tenantId, args.userId),
+      violations: args.approval.violations,
+      recipientUserIds: await discountApproverUserIds(db, args.tenantId),
+    })
+  }
+
+  // Below-cost lines only get through with sales:margin:override; each time is audited.
+  async function auditMarginOverride(args: { tenantId: string; userId: string; quoteId: string; revision: number; lines: LineMargin[] }) {
+    await new AuditService(db).append({
+      tenantId: args.tenantId,
+      actorUserId: args.userId,
+      action: 'sales.quote.margin.override',
+      entityType: 'Quote',
+      entityId: args.quoteId,
+      metadata: { revision: args.revision, lines: args.lines },
+    })
+  }
   app.get(
     '/api/v1/sales/quotes',
     {
@@ -363,10 +705,23 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       const parsed = listQuerySchema.safeParse(request.query)
       if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
 
-      const { take, cursor, customerSearch } = parsed.data
+      const { take, cursor, customerSearch, status } = parsed.data
       const tenantId = request.auth!.tenantId
 
       const where: any = { tenantId }
+      if (status === 'CREATED' || status === 'EXPIRED') {
+        // Open quotes already past their validity count as expired before the nightly job flips them.
+        const overdue = await db.$queryRaw<Array<{ id: string }>>`
+          SELECT id FROM "Quote"
+          WHERE "tenantId" = ${tenantId} AND status = 'CREATED'
+            AND "pricedAt" + make_interval(days => "validityDays") <= now()
+        `
+        const overdueIds = overdue.map((r) => r.id)
+        if (status === 'EXPIRED') where.OR = [{ status: 'EXPIRED' }, { id: { in: overdueIds } }]
+        else where.AND = [{ status: 'CREATED' }, { id: { notIn: overdueIds } }]
+      } else if (status) {
+        where.status = status
+      }
       if (customerSearch) {
         where.customer = {
           name: { contains: customerSearch, mode: 'insensitive' },
@@ -380,7 +735,7 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         orderBy: { createdAt: 'desc' },
         include: {
           customer: { select: { name: true } },
-          lines: { select: { id: true, unitPrice: true, quantity: true, discountPct: true } },
+          lines: { select: { id: true, unitPrice: true, quantity: true, discountPct: true, taxPct: true } },
           _count: { select: { lines: true } },
         },
       })
@@ -400,16 +755,11 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         number: quote.number,
         customerId: quote.customerId,
         customerName: quote.customer.name,
-        status: quote.status,
+        ...quoteLifecycleFields(quote),
+        revision: quote.revision,
         quotedBy: quote.createdBy ? authorMap.get(quote.createdBy) ?? null : null,
-        total: computeTotals(
-          quote.lines.map((l: any) => ({
-            unitPrice: Number(l.unitPrice),
-            quantity: Number(l.quantity),
-            discountPct: Number(l.discountPct ?? 0),
-          })),
-          Number(quote.globalDiscountPct ?? 0),
-        ).totalAfterGlobal,
+        total: quoteLineTotals(quote).grossTotal,
+        currency: quote.currency,
         createdAt: quote.createdAt.toISOString(),
         itemsCount: quote._count.lines,
       }))
@@ -434,6 +784,7 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       const {
         customerId,
         validityDays,
+        paymentTermId,
         paymentMode,
         deliveryDays,
         deliveryCity,
@@ -441,6 +792,7 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         deliveryAddress,
         deliveryMapsUrl,
         globalDiscountPct,
+        currency,
         proposalValue,
         note,
         lines,
@@ -462,19 +814,41 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       const productIds = lines.map((line) => line.productId)
       const products = await db.product.findMany({
         where: { id: { in: productIds }, tenantId },
-        select: { id: true, price: true },
+        select: { id: true, price: true, cost: true, taxCategory: true },
       })
       if (products.length !== productIds.length) {
         return reply.code(400).send({ error: 'One or more products not found' })
       }
 
+      let docCurrency: DocumentCurrency
+      try {
+        docCurrency = await resolveDocumentCurrency(db, tenantId, currency)
+      } catch (e) {
+        if (e instanceof ExchangeRateMissingError) return reply.status(400).send(exchangeRateMissingBody(e))
+        throw e
+      }
+
       const productMap = new Map(products.map((p: any) => [p.id, p]))
+      const promotedLines = await promoteQuoteLines(db, tenantId, customerId, lines, productMap, docCurrency.exchangeRate)
+      const rates = await loadTaxRates(db, tenantId)
+      const pricedLines = priceQuoteLines(promotedLines, productMap, globalDiscountPct, rates)
+
+      const costs = documentCosts(productMap.values(), docCurrency.exchangeRate)
+      const minMarginPct = await loadMinMarginPct(db, tenantId)
+      const belowCost = quoteLineMargins({ globalDiscountPct, pricesIncludeTax: rates.pricesIncludeTax, lines: pricedLines }, costs, minMarginPct).filter(
+        (m) => m.flag === 'BELOW_COST',
+      )
+      if (belowCost.length > 0 && !request.auth!.permissions.has(Permissions.SalesMarginOverride)) {
+        return reply.status(409).send(belowCostBody(new BelowCostError(belowCost)))
+      }
 
+      let approvalRequest: Awaited<ReturnType<typeof evaluateQuoteDiscounts>> = null
       const quote = await db.$transaction(async (tx: any) => {
+        const term = await resolvePaymentTerm(tx, { tenantId, customerId, paymentTermId, paymentMode })
         const year = currentYearUtc()
         const seq = await nextSequence(tx, { tenantId, year, key: 'COT' })
         const quoteNumber = seq.number
-        return tx.quote.create({
+        const created = await tx.quote.create({
           data: {
             tenantId,
             number: quoteNumber,
@@ -485,31 +859,48 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             deliveryAddress: (deliveryAddress ?? customer.address ?? null) ? String(deliveryAddress ?? customer.address).trim() : null,
             deliveryMapsUrl: (deliveryMapsUrl ?? customer.mapsUrl ?? null) ? String(deliveryMapsUrl ?? customer.mapsUrl).trim() : null,
             validityDays,
-            paymentMode,
+            paymentTermId: term.id,
+            paymentMode: term.code,
             deliveryDays,
             globalDiscountPct: decimalFromNumber(clampPct(globalDiscountPct)),
+            pricesIncludeTax: rates.pricesIncludeTax,
+            currency: docCurrency.currency,
+            exchangeRate: decimalFromNumber(docCurrency.exchangeRate),
             proposalValue: proposalValue?.trim() ? proposalValue.trim() : null,
             note: note || null,
             createdBy: userId,
             lines: {
-              create: lines.map((line) => ({
+              create: pricedLines.map((line) => ({
                 tenantId,
                 productId: line.productId,
                 quantity: decimalFromNumber(line.quantity),
-                unitPrice: decimalFromNumber(line.unitPrice ?? Number((productMap.get(line.productId) as any)?.price ?? 0)),
-                discountPct: decimalFromNumber(clampPct(line.discountPct ?? 0)),
+                unitPrice: decimalFromNumber(line.unitPrice),
+                discountPct: decimalFromNumber(line.discountPct),
+                taxPct: decimalFromNumber(line.taxPct),
+                taxAmount: decimalFromNumber(line.taxAmount),
+                ...linePromotionData(line),
                 createdBy: userId,
               })),
             },
           },
           include: {
             customer: { select: { name: true } },
+            paymentTerm: { select: paymentTermRuleSelect },
             lines: {
-              include: { product: { select: { name: true, sku: true, genericName: true } } },
+              include: { product: { select: { name: true, sku: true, genericName: true } }, promotion: { select: { name: true } } },
             },
           },
         })
+        await recordQuoteRevision(tx, { tenantId, quoteId: created.id, userId, source: 'CREATE' })
+        approvalRequest = await evaluateQuoteDiscounts(tx, {
+          tenantId,
+          quoteId: created.id,
+          userId,
+          permissions: request.auth!.permissions,
+        })
+        return approvalRequest ? { ...created, status: 'PENDING_APPROVAL' } : created
       })
+      if (approvalRequest) await announceApprovalRequest({ tenantId, userId, quote, approval: approvalRequest })
 
       await audit.append({
         tenantId,
@@ -519,38 +910,44 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         entityId: quote.id,
         after: quote,
       })
+      if (belowCost.length > 0) await auditMarginOverride({ tenantId, userId, quoteId: quote.id, revision: quote.revision, lines: belowCost })
 
       const quotedBy = await resolveUserDisplayName(db, tenantId, quote.createdBy)
-      const totals = computeTotals(
-        quote.lines.map((l: any) => ({
-          quantity: Number(l.quantity),
-          unitPrice: Number(l.unitPrice),
-          discountPct: Number(l.discountPct ?? 0),
-        })),
-        Number(quote.globalDiscountPct ?? 0),
-      )
+      const totals = quoteLineTotals(quote)
+      const margins = quoteLineMargins(quote, costs, minMarginPct)
 
       return {
         id: quote.id,
         number: quote.number,
         customerId: quote.customerId,
         customerName: quote.customer.name,
-        status: quote.status,
+        ...quoteLifecycleFields(quote),
+        revision: quote.revision,
         quotedBy,
         validityDays: quote.validityDays,
         paymentMode: quote.paymentMode,
+        paymentTermId: quote.paymentTermId,
+        paymentTerm: quote.paymentTerm
+          ? { ...quote.paymentTerm, earlyPaymentDiscountPct: Number(quote.paymentTerm.earlyPaymentDiscountPct ?? 0) }
+          : null,
         deliveryDays: quote.deliveryDays,
         deliveryCity: quote.deliveryCity,
         deliveryZone: quote.deliveryZone,
         deliveryAddress: quote.deliveryAddress,
         deliveryMapsUrl: quote.deliveryMapsUrl,
         globalDiscountPct: Number(quote.globalDiscountPct ?? 0),
+        pricesIncludeTax: quote.pricesIncludeTax,
+        currency: quote.currency,
+        exchangeRate: Number(quote.exchangeRate),
         proposalValue: quote.proposalValue,
         note: quote.note,
         subtotal: totals.subtotal,
         globalDiscountAmount: totals.globalDiscountAmount,
-        total: totals.totalAfterGlobal,
-        lines: quote.lines.map((line: any) => ({
+        netTotal: totals.netTotal,
+        taxTotal: totals.taxTotal,
+        total: totals.grossTotal,
+        minMarginPct,
+        lines: quote.lines.map((line: any, i: number) => ({
           id: line.id,
           productId: line.productId,
           productName: line.product.name,
@@ -559,6 +956,10 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
           quantity: Number(line.quantity),
           unitPrice: Number(line.unitPrice),
           discountPct: Number(line.discountPct ?? 0),
+          taxPct: Number(line.taxPct ?? 0),
+          taxAmount: Number(line.taxAmount ?? 0),
+          ...linePromotionFields(line),
+          ...lineMarginFields(margins[i]),
         })),
         createdAt: quote.createdAt.toISOString(),
       }
@@ -582,18 +983,31 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         })
       }
 
+      const bodyParsed = processQuoteSchema.safeParse(request.body ?? {})
+      if (!bodyParsed.success) return reply.status(400).send({ message: 'Invalid request', issues: bodyParsed.error.issues })
+      const overrideCreditHold = bodyParsed.data.overrideCreditHold === true
+      if (overrideCreditHold) {
+        if (!request.auth!.permissions.has(Permissions.SalesCreditOverride)) return reply.status(403).send({ message: 'Forbidden' })
+        if (!bodyParsed.data.overrideReason) return reply.status(400).send({ message: 'Override reason is required' })
+      }
+      const splitAcrossCities = bodyParsed.data.splitAcrossCities === true
+
       const id = idParsed.data
       const tenantId = request.auth!.tenantId
       const userId = request.auth!.userId
       const audit = new AuditService(db)
 
       let created: any
+      let creditOverride: any = null
+      let marginOverride: LineMargin[] | null = null
+      let processedRevision = 0
       try {
         created = await db.$transaction(async (tx: any) => {
           const quote = await tx.quote.findFirst({
             where: { id, tenantId },
             include: {
               customer: { select: { id: true, name: true, city: true } },
+              paymentTerm: { select: paymentTermRuleSelect },
               lines: {
                 select: {
                   id: true,
@@ -601,7 +1015,9 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
                   quantity: true,
                   unitPrice: true,
                   discountPct: true,
-                  product: { select: { name: true, genericName: true } },
+                  taxPct: true,
+                  isBonus: true,
+                  product: { select: { name: true, genericName: true, cost: true } },
                 },
               },
             },
@@ -617,6 +1033,26 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             err.statusCode = 409
             throw err
           }
+          if (quote.status === 'REJECTED' || quote.status === 'CANCELLED') {
+            const err = new Error('Quote is closed') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+          if (quote.status === 'PENDING_APPROVAL') throw new QuotePendingApprovalError()
+          // Prices are only guaranteed for validityDays; past that the quote must be re-priced first.
+          if (isQuoteExpired(quote)) throw new QuoteExpiredError(quoteValidUntil(quote))
+
+          // Costs may have moved since the quote was saved, so the margin is checked again with current costs.
+          const belowCost = quoteLineMargins(
+            quote,
+            documentCosts(quote.lines.map((l: any) => ({ id: l.productId, cost: l.product?.cost ?? null })), Number(quote.exchangeRate)),
+            await loadMinMarginPct(tx, tenantId),
+          ).filter((m) => m.flag === 'BELOW_COST')
+          if (belowCost.length > 0) {
+            if (!request.auth!.permissions.has(Permissions.SalesMarginOverride)) throw new BelowCostError(belowCost)
+            marginOverride = belowCost
+            processedRevision = quote.revision
+          }
 
           const city = (quote.customer.city ?? '').trim()
           if (!city) {
@@ -625,7 +1061,19 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             throw err
           }
 
-          const orderNumber = deriveOrderNumberFromQuoteNumber(String(quote.number ?? ''))
+          // Credit hold: credit orders must fit the customer's limit and have no overdue invoices.
+          // Limits are in the tenant currency, so the order is converted at the quote's locked rate.
+          const totals = quoteLineTotals(quote)
+          if (isCreditPaymentMode(quote.paymentMode, quote.paymentTerm)) {
+            const orderAmount = Number.isFinite(totals.grossTotal) ? toBaseAmount(totals.grossTotal, quote.exchangeRate) : 0
+            const creditStatus = await computeCustomerCreditStatus(tx, { tenantId, customerId: quote.customerId, orderAmount })
+            if (creditStatus && creditStatus.reasons.length > 0) {
+              if (!overrideCreditHold) throw new CreditHoldError(creditStatus)
+              creditOverride = creditStatus
+            }
+          }
+
+          const orderNumber = await nextFreeOrderNumber(tx, tenantId, deriveOrderNumberFromQuoteNumber(String(quote.number ?? '')))
 
           const todayUtc = startOfTodayUtc()
           const deliveryDate = addDaysUtc(todayUtc, Number(quote.deliveryDays ?? 0))
@@ -639,6 +1087,9 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
               status: 'CONFIRMED',
               // Copy payment terms onto the order so payments can be managed without joining Quote.
               paymentMode: quote.paymentMode ?? 'CASH',
+              paymentTermId: quote.paymentTermId ?? null,
+              currency: quote.currency,
+              exchangeRate: quote.exchangeRate,
               note: `Desde cotización ${quote.number}`,
               deliveryDate,
               deliveryCity: quote.deliveryCity ?? quote.customer.city ?? null,
@@ -650,22 +1101,23 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             select: { id: true, number: true, status: true, version: true, createdAt: true },
           })
 
-          const gd = clampPct(Number(quote.globalDiscountPct ?? 0)) / 100
-
           // Create lines individually so we can create reservations referencing the line IDs.
+          // Order lines carry the gross unit price (discounts applied, tax included) plus the tax it contains.
           const createdLines: Array<{ id: string; productId: string; productName: string; batchId: string | null; quantity: any }> = []
-          for (const l of quote.lines) {
-            const disc = clampPct(Number(l.discountPct ?? 0)) / 100
-            const unit = Number(l.unitPrice)
-            const finalUnit = unit * (1 - disc) * (1 - gd)
+          for (const [i, l] of quote.lines.entries()) {
+            const lineTax = totals.lineTaxes[i]!
+            const qty = Number(l.quantity)
+            const finalUnit = qty > 0 ? lineTax.gross / qty : 0
             const lineRow = await tx.salesOrderLine.create({
               data: {
                 tenantId,
                 salesOrderId: order.id,
                 productId: l.productId,
                 batchId: null,
-                quantity: decimalFromNumber(Number(l.quantity)),
+                quantity: decimalFromNumber(qty),
                 unitPrice: decimalFromNumber(Number.isFinite(finalUnit) ? finalUnit : 0),
+                taxPct: decimalFromNumber(Number(l.taxPct ?? 0)),
+                taxAmount: decimalFromNumber(Number.isFinite(lineTax.tax) ? lineTax.tax : 0),
                 createdBy: userId,
               },
               select: { id: true, productId: true, quantity: true },
@@ -679,15 +1131,35 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             })
           }
 
-          // Reserve stock strictly from customer's city.
-          const changedBalances = await reserveForOrderInCityOrFail(tx, {
+          // Reserve stock from the customer's city; when splitting, the shortfall comes from other cities.
+          const { changedBalances, crossCity } = await reserveForOrderInCityOrFail(tx, {
             tenantId,
             userId,
             orderId: order.id,
             city,
+            allowOtherCities: splitAcrossCities,
             lines: createdLines,
           })
 
+          // The cross-city portion travels on a movement request; the order can't be delivered before it arrives.
+          let transfer: Awaited<ReturnType<typeof createTransferPlan>> | null = null
+          let orderDeliveryDate = deliveryDate
+          if (crossCity.length > 0) {
+            transfer = await createTransferPlan(tx, {
+              tenantId,
+              userId,
+              orderId: order.id,
+              orderNumber: order.number,
+              quoteId: quote.id,
+              city,
+              portions: crossCity,
+            })
+            if (transfer.latestArrival && transfer.latestArrival > deliveryDate) {
+              orderDeliveryDate = transfer.latestArrival
+              await tx.salesOrder.update({ where: { id: order.id }, data: { deliveryDate: orderDeliveryDate }, select: { id: true } })
+            }
+          }
+
           const reservations = await tx.salesOrderReservation.findMany({
             where: { tenantId, salesOrderId: order.id },
             select: {
@@ -724,9 +1196,11 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
               customerName: quote.customer?.name ?? null,
               paymentMode: quote.paymentMode ?? null,
               deliveryDays: Number(quote.deliveryDays ?? 0),
-              deliveryDate: deliveryDate.toISOString(),
+              deliveryDate: orderDeliveryDate.toISOString(),
               city,
             },
+            transfer,
+            crossCity,
             reservations: reservations.map((r: any) => ({
               quantity: Number(r.quantity),
               productId: r.line?.productId ?? null,
@@ -746,6 +1220,23 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         if (e instanceof InsufficientStockCityError) {
           return reply.status(e.statusCode).send({ message: e.message, city: e.city, items: e.items })
         }
+        if (e instanceof QuotePendingApprovalError) {
+          return reply.status(e.statusCode).send({ message: e.message, code: 'QUOTE_PENDING_APPROVAL' })
+        }
+        if (e instanceof BelowCostError) {
+          return reply.status(e.statusCode).send(belowCostBody(e))
+        }
+        if (e instanceof QuoteExpiredError) {
+          return reply.status(e.statusCode).send({ message: e.message, code: 'QUOTE_EXPIRED', validUntil: e.validUntil.toISOString() })
+        }
+        if (e instanceof CreditHoldError) {
+          return reply.status(e.statusCode).send({
+            message: e.message,
+            code: 'CREDIT_HOLD',
+            ...e.status,
+            canOverride: request.auth!.permissions.has(Permissions.SalesCreditOverride),
+          })
+        }
         throw e
       }
 
@@ -756,8 +1247,25 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         entityType: 'QUOTE',
         entityId: id,
         after: created?.order ?? created,
+        ...(created?.transfer
+          ? { metadata: { transferRequestId: created.transfer.request.id, crossCity: created.crossCity } }
+          : {}),
       })
 
+      if (marginOverride) await auditMarginOverride({ tenantId, userId, quoteId: id, revision: processedRevision, lines: marginOverride })
+
+      if (creditOverride) {
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.credit.override',
+          entityType: 'SalesOrder',
+          entityId: created?.order?.id ?? id,
+          after: created?.order ?? null,
+          metadata: { quoteId: id, reason: bodyParsed.data.overrideReason, creditStatus: creditOverride },
+        })
+      }
+
       // Real-time notifications + stock reservation updates
       const room = `tenant:${tenantId}`
       console.log(`Emitting sales.quote.processed to room ${room}`, {
@@ -789,7 +1297,21 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         for (const b of created.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
       }
 
-      return reply.status(201).send(created.order)
+      // Warehouse gets the cross-city transfer like any other stock request.
+      if (created?.transfer) {
+        const actor = await db.user.findFirst({ where: { id: userId, tenantId }, select: { email: true } })
+        app.io?.to(room).emit('sales.quote.stock_requested', {
+          requestId: created.transfer.request.id,
+          actorUserId: userId,
+          actorEmail: actor?.email ?? null,
+          quoteId: created.quoteInfo.id,
+          quoteNumber: created.quoteInfo.number ?? null,
+          city: created.quoteInfo.city,
+          items: created.transfer.items,
+        })
+      }
+
+      return reply.status(201).send({ ...created.order, transferRequestId: created?.transfer?.request?.id ?? null })
     },
   )
 
@@ -887,6 +1409,350 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
     },
   )
 
+  // Refreshes an open or expired quote with current list prices and tax rates; validity restarts now.
+  app.post(
+    '/api/v1/sales/quotes/:id/reprice',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const paramsParsed = z.object({ id: z.string().uuid() }).safeParse(request.params)
+      if (!paramsParsed.success) return reply.status(400).send({ message: 'Invalid params', issues: paramsParsed.error.issues })
+
+      const { id } = paramsParsed.data
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const audit = new AuditService(db)
+
+      const existing = await db.quote.findFirst({
+        where: { id, tenantId },
+        include: { lines: { include: { product: { select: { id: true, price: true, taxCategory: true } } } } },
+      })
+      if (!existing) return reply.status(404).send({ message: 'Quote not found' })
+      if (existing.status !== 'CREATED' && existing.status !== 'EXPIRED') {
+        return reply.status(409).send({ message: 'Only open or expired quotes can be re-priced' })
+      }
+
+      // The quote keeps its currency at today's rate.
+      let docCurrency: DocumentCurrency
+      try {
+        docCurrency = await resolveDocumentCurrency(db, tenantId, existing.currency)
+      } catch (e) {
+        if (e instanceof ExchangeRateMissingError) return reply.status(400).send(exchangeRateMissingBody(e))
+        throw e
+      }
+
+      const productMap = new Map<string, any>(existing.lines.map((l) => [l.productId, l.product] as const))
+      // Bonus lines are dropped and granted again by the promotions active today.
+      const promotedLines = await promoteQuoteLines(
+        db,
+        tenantId,
+        existing.customerId,
+        existing.lines
+          .filter((l) => !l.isBonus)
+          .map((l) => ({ productId: l.productId, quantity: Number(l.quantity), discountPct: Number(l.discountPct ?? 0) })),
+        productMap,
+        docCurrency.exchangeRate,
+      )
+      const rates = await loadTaxRates(db, tenantId)
+      const pricedLines = priceQuoteLines(promotedLines, productMap, Number(existing.globalDiscountPct ?? 0), rates)
+
+      const quote = await db.$transaction(async (tx: any) => {
+        // Guarded on status/version so a concurrent process or edit wins.
+        const res = await tx.quote.updateMany({
+          where: { id, tenantId, status: existing.status, version: existing.version },
+          data: {
+            status: 'CREATED',
+            pricedAt: new Date(),
+            closedAt: null,
+            pricesIncludeTax: rates.pricesIncludeTax,
+            exchangeRate: decimalFromNumber(docCurrency.exchangeRate),
+            revision: { increment: 1 },
+            version: { increment: 1 },
+          },
+        })
+        if (res.count === 0) {
+          const err = new Error('Quote changed concurrently') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+
+        await tx.quoteLine.deleteMany({ where: { quoteId: id, tenantId } })
+        await tx.quoteLine.createMany({
+          data: pricedLines.map((line) => ({
+            tenantId,
+            quoteId: id,
+            productId: line.productId,
+            quantity: decimalFromNumber(line.quantity),
+            unitPrice: decimalFromNumber(line.unitPrice),
+            discountPct: decimalFromNumber(line.discountPct),
+            taxPct: decimalFromNumber(line.taxPct),
+            taxAmount: decimalFromNumber(line.taxAmount),
+            ...linePromotionData(line),
+            createdBy: userId,
+          })),
+        })
+
+        await recordQuoteRevision(tx, { tenantId, quoteId: id, userId, source: 'REPRICE' })
+        return tx.quote.findFirst({ where: { id, tenantId }, include: { lines: true } })
+      })
+
+      const before = quoteLineTotals(existing)
+      const totals = quoteLineTotals(quote)
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.quote.reprice',
+        entityType: 'Quote',
+        entityId: id,
+        before: { status: existing.status, pricedAt: existing.pricedAt, total: before.grossTotal },
+        after: {
+          status: quote.status,
+          pricedAt: quote.pricedAt,
+          revision: quote.revision,
+          total: totals.grossTotal,
+          exchangeRate: docCurrency.exchangeRate,
+        },
+      })
+
+      return reply.send({
+        id: quote.id,
+        number: quote.number,
+        ...quoteLifecycleFields(quote),
+        revision: quote.revision,
+        currency: quote.currency,
+        exchangeRate: Number(quote.exchangeRate),
+        previousTotal: before.grossTotal,
+        netTotal: totals.netTotal,
+        taxTotal: totals.taxTotal,
+        total: totals.grossTotal,
+      })
+    },
+  )
+
+  // REJECTED: the customer declined. CANCELLED: withdrawn by the seller. Both are final and count as lost in the funnel.
+  for (const [path, status, action] of [
+    ['reject', 'REJECTED', 'sales.quote.reject'],
+    ['cancel', 'CANCELLED', 'sales.quote.cancel'],
+  ] as const) {
+    app.post(
+      `/api/v1/sales/quotes/:id/${path}`,
+      {
+        preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+      },
+      async (request, reply) => {
+        const paramsParsed = z.object({ id: z.string().uuid() }).safeParse(request.params)
+        if (!paramsParsed.success) return reply.status(400).send({ message: 'Invalid params', issues: paramsParsed.error.issues })
+        const bodyParsed = quoteCloseSchema.safeParse(request.body ?? {})
+        if (!bodyParsed.success) return reply.status(400).send({ message: 'Invalid request', issues: bodyParsed.error.issues })
+
+        const { id } = paramsParsed.data
+        const tenantId = request.auth!.tenantId
+        const userId = request.auth!.userId
+        const audit = new AuditService(db)
+
+        const existing = await db.quote.findFirst({
+          where: { id, tenantId },
+          select: { id: true, number: true, customerId: true, status: true, closedAt: true, closeReason: true },
+        })
+        if (!existing) return reply.status(404).send({ message: 'Quote not found' })
+        if (existing.status !== 'CREATED' && existing.status !== 'EXPIRED' && existing.status !== 'PENDING_APPROVAL') {
+          return reply.status(409).send({ message: 'Only open, expired or pending quotes can be closed' })
+        }
+
+        const res = await db.$transaction(async (tx) => {
+          const updated = await tx.quote.updateMany({
+            where: { id, tenantId, status: existing.status },
+            data: { status, closedAt: new Date(), closeReason: bodyParsed.data.reason || null, version: { increment: 1 } },
+          })
+          // Nothing left to approve on a closed quote.
+          await tx.quoteApproval.updateMany({ where: { tenantId, quoteId: id, status: 'PENDING' }, data: { status: 'SUPERSEDED' } })
+          return updated
+        })
+        if (res.count === 0) return reply.status(409).send({ message: 'Quote changed concurrently' })
+
+        const quote = await db.quote.findFirstOrThrow({
+          where: { id, tenantId },
+          select: { id: true, number: true, status: true, pricedAt: true, validityDays: true, closedAt: true, closeReason: true },
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action,
+          entityType: 'Quote',
+          entityId: id,
+          before: { status: existing.status, closedAt: existing.closedAt, closeReason: existing.closeReason },
+          after: { status: quote.status, closedAt: quote.closedAt, closeReason: quote.closeReason },
+        })
+
+        app.io?.to(`tenant:${tenantId}`).emit('sales.quote.closed', {
+          id: quote.id,
+          number: quote.number,
+          customerId: existing.customerId,
+          status: quote.status,
+        })
+
+        return reply.send({ id: quote.id, number: quote.number, ...quoteLifecycleFields(quote) })
+      },
+    )
+  }
+
+  app.get(
+    '/api/v1/sales/quotes/:id/revisions',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const paramsParsed = z.object({ id: z.string().uuid() }).safeParse(request.params)
+      if (!paramsParsed.success) return reply.status(400).send({ message: 'Invalid params', issues: paramsParsed.error.issues })
+
+      const { id } = paramsParsed.data
+      const tenantId = request.auth!.tenantId
+
+      const quote = await db.quote.findFirst({ where: { id, tenantId }, select: { id: true, number: true, revision: true } })
+      if (!quote) return reply.status(404).send({ message: 'Quote not found' })
+
+      const revisions = await db.quoteRevision.findMany({
+        where: { quoteId: id, tenantId },
+        orderBy: { revision: 'desc' },
+        include: { lines: { select: { quantity: true, unitPrice: true, discountPct: true, taxPct: true } } },
+      })
+
+      const authorIds = Array.from(new Set(revisions.map((r) => r.createdBy).filter(Boolean))) as string[]
+      const authors = authorIds.length
+        ? await db.user.findMany({ where: { tenantId, id: { in: authorIds } }, select: { id: true, fullName: true, email: true } })
+        : []
+      const authorMap = new Map(authors.map((u) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+
+      return reply.send({
+        quoteId: quote.id,
+        number: quote.number,
+        currentRevision: quote.revision,
+        items: revisions.map((r) => {
+          const totals = quoteLineTotals(r)
+          return {
+            revision: r.revision,
+            source: r.source,
+            createdAt: r.createdAt.toISOString(),
+            createdBy: r.createdBy ? authorMap.get(r.createdBy) ?? null : null,
+            linesCount: r.lines.length,
+            globalDiscountPct: Number(r.globalDiscountPct ?? 0),
+            netTotal: totals.netTotal,
+            taxTotal: totals.taxTotal,
+            total: totals.grossTotal,
+          }
+        }),
+      })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/quotes/:id/revisions/:revision',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const paramsParsed = z.object({ id: z.string().uuid(), revision: z.coerce.number().int().min(1) }).safeParse(request.params)
+      if (!paramsParsed.success) return reply.status(400).send({ message: 'Invalid params', issues: paramsParsed.error.issues })
+
+      const { id, revision } = paramsParsed.data
+      const tenantId = request.auth!.tenantId
+
+      const r = await db.quoteRevision.findFirst({
+        where: { quoteId: id, tenantId, revision },
+        include: {
+          quote: { select: { number: true } },
+          lines: { include: { product: { select: { name: true, sku: true } } } },
+        },
+      })
+      if (!r) return reply.status(404).send({ message: 'Revision not found' })
+
+      const totals = quoteLineTotals(r)
+      return reply.send({
+        quoteId: id,
+        number: r.quote.number,
+        revision: r.revision,
+        source: r.source,
+        createdAt: r.createdAt.toISOString(),
+        createdBy: await resolveUserDisplayName(db, tenantId, r.createdBy),
+        customerId: r.customerId,
+        validityDays: r.validityDays,
+        paymentMode: r.paymentMode,
+        paymentTermId: r.paymentTermId,
+        deliveryDays: r.deliveryDays,
+        globalDiscountPct: Number(r.globalDiscountPct ?? 0),
+        pricesIncludeTax: r.pricesIncludeTax,
+        proposalValue: r.proposalValue,
+        note: r.note,
+        subtotal: totals.subtotal,
+        globalDiscountAmount: totals.globalDiscountAmount,
+        netTotal: totals.netTotal,
+        taxTotal: totals.taxTotal,
+        total: totals.grossTotal,
+        lines: r.lines.map((line) => ({
+          id: line.id,
+          productId: line.productId,
+          productName: line.product.name,
+          productSku: line.product.sku,
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          discountPct: Number(line.discountPct ?? 0),
+          taxPct: Number(line.taxPct ?? 0),
+          taxAmount: Number(line.taxAmount ?? 0),
+          total: Number(line.unitPrice) * Number(line.quantity) * (1 - clampPct(Number(line.discountPct ?? 0)) / 100),
+          promotionId: line.promotionId,
+          isBonus: line.isBonus,
+        })),
+      })
+    },
+  )
+
+  // Margin preview for unsaved lines (seller cart): same rules as saving, nothing is stored.
+  app.post(
+    '/api/v1/sales/quotes/margin-check',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const parsed = marginCheckSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const { globalDiscountPct, lines, customerId, currency } = parsed.data
+
+      let docCurrency: DocumentCurrency
+      try {
+        docCurrency = await resolveDocumentCurrency(db, tenantId, currency)
+      } catch (e) {
+        if (e instanceof ExchangeRateMissingError) return reply.status(400).send(exchangeRateMissingBody(e))
+        throw e
+      }
+
+      const products = await db.product.findMany({
+        where: { id: { in: lines.map((l) => l.productId) }, tenantId },
+        select: { id: true, price: true, cost: true, taxCategory: true },
+      })
+      const productMap = new Map(products.map((p: any) => [p.id, p]))
+      const promotedLines = await promoteQuoteLines(db, tenantId, customerId, lines, productMap, docCurrency.exchangeRate)
+      const rates = await loadTaxRates(db, tenantId)
+      const minMarginPct = await loadMinMarginPct(db, tenantId)
+      const margins = quoteLineMargins(
+        { globalDiscountPct, pricesIncludeTax: rates.pricesIncludeTax, lines: priceQuoteLines(promotedLines, productMap, globalDiscountPct, rates) },
+        documentCosts(products, docCurrency.exchangeRate),
+        minMarginPct,
+      )
+
+      return reply.send({
+        minMarginPct,
+        canSellBelowCost: request.auth!.permissions.has(Permissions.SalesMarginOverride),
+        // Bonus lines appended by promotions are not margin-checked.
+        lines: margins.slice(0, lines.length),
+      })
+    },
+  )
+
   app.get(
     '/api/v1/sales/quotes/:id',
     {
@@ -907,8 +1773,9 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         where: { id, tenantId },
         include: {
           customer: { select: { name: true, businessName: true, address: true, phone: true } },
+          paymentTerm: { select: paymentTermRuleSelect },
           lines: {
-            include: { product: { select: { name: true, sku: true } } },
+            include: { product: { select: { name: true, sku: true, cost: true } }, promotion: { select: { name: true } } },
           },
         },
       })
@@ -918,39 +1785,72 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       }
 
       const quotedBy = await resolveUserDisplayName(db, tenantId, quote.createdBy)
-      const totals = computeTotals(
-        quote.lines.map((l: any) => ({
-          quantity: Number(l.quantity),
-          unitPrice: Number(l.unitPrice),
-          discountPct: Number(l.discountPct ?? 0),
-        })),
-        Number(quote.globalDiscountPct ?? 0),
+      const totals = quoteLineTotals(quote)
+      const minMarginPct = await loadMinMarginPct(db, tenantId)
+      const margins = quoteLineMargins(
+        quote,
+        documentCosts(quote.lines.map((l) => ({ id: l.productId, cost: l.product.cost })), Number(quote.exchangeRate)),
+        minMarginPct,
       )
 
+      const approvals = await db.quoteApproval.findMany({
+        where: { tenantId, quoteId: id },
+        orderBy: { createdAt: 'desc' },
+      })
+      const approvalUserIds = Array.from(
+        new Set(approvals.flatMap((a) => [a.requestedBy, a.decidedBy]).filter(Boolean)),
+      ) as string[]
+      const approvalUsers = approvalUserIds.length
+        ? await db.user.findMany({ where: { tenantId, id: { in: approvalUserIds } }, select: { id: true, fullName: true, email: true } })
+        : []
+      const approvalUserMap = new Map(approvalUsers.map((u) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+
       return {
         id: quote.id,
         number: quote.number,
         customerId: quote.customerId,
         customerName: quote.customer.name,
-        status: quote.status,
+        ...quoteLifecycleFields(quote),
+        revision: quote.revision,
         quotedBy,
+        approvals: approvals.map((a) => ({
+          id: a.id,
+          revision: a.revision,
+          status: a.status,
+          violations: a.violations,
+          requestedBy: a.requestedBy ? approvalUserMap.get(a.requestedBy) ?? null : null,
+          decidedBy: a.decidedBy ? approvalUserMap.get(a.decidedBy) ?? null : null,
+          decidedAt: a.decidedAt ? a.decidedAt.toISOString() : null,
+          comment: a.comment,
+          createdAt: a.createdAt.toISOString(),
+        })),
         customerBusinessName: quote.customer.businessName,
         customerAddress: quote.customer.address,
         customerPhone: quote.customer.phone,
         validityDays: quote.validityDays,
         paymentMode: quote.paymentMode,
+        paymentTermId: quote.paymentTermId,
+        paymentTerm: quote.paymentTerm
+          ? { ...quote.paymentTerm, earlyPaymentDiscountPct: Number(quote.paymentTerm.earlyPaymentDiscountPct ?? 0) }
+          : null,
         deliveryDays: quote.deliveryDays,
         deliveryCity: quote.deliveryCity,
         deliveryZone: quote.deliveryZone,
         deliveryAddress: quote.deliveryAddress,
         deliveryMapsUrl: quote.deliveryMapsUrl,
         globalDiscountPct: Number(quote.globalDiscountPct ?? 0),
+        pricesIncludeTax: quote.pricesIncludeTax,
+        currency: quote.currency,
+        exchangeRate: Number(quote.exchangeRate),
         proposalValue: quote.proposalValue,
         note: quote.note,
         subtotal: totals.subtotal,
         globalDiscountAmount: totals.globalDiscountAmount,
-        total: totals.totalAfterGlobal,
-        lines: quote.lines.map((line: any) => ({
+        netTotal: totals.netTotal,
+        taxTotal: totals.taxTotal,
+        total: totals.grossTotal,
+        minMarginPct,
+        lines: quote.lines.map((line: any, i: number) => ({
           id: line.id,
           productId: line.productId,
           productName: line.product.name,
@@ -958,7 +1858,11 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
           quantity: Number(line.quantity),
           unitPrice: Number(line.unitPrice),
           discountPct: Number(line.discountPct ?? 0),
+          taxPct: Number(line.taxPct ?? 0),
+          taxAmount: Number(line.taxAmount ?? 0),
           total: Number(line.unitPrice) * Number(line.quantity) * (1 - clampPct(Number(line.discountPct ?? 0)) / 100),
+          ...linePromotionFields(line),
+          ...lineMarginFields(margins[i]),
         })),
         createdAt: quote.createdAt.toISOString(),
         updatedAt: quote.updatedAt.toISOString(),
@@ -987,6 +1891,7 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       const {
         customerId,
         validityDays,
+        paymentTermId,
         paymentMode,
         deliveryDays,
         deliveryCity,
@@ -994,6 +1899,7 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         deliveryAddress,
         deliveryMapsUrl,
         globalDiscountPct,
+        currency,
         proposalValue,
         note,
         lines,
@@ -1014,6 +1920,9 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       if (existingQuote.status === 'PROCESSED') {
         return reply.code(409).send({ message: 'Quote already processed' })
       }
+      if (existingQuote.status === 'REJECTED' || existingQuote.status === 'CANCELLED') {
+        return reply.code(409).send({ message: 'Quote is closed' })
+      }
 
       // Verify customer exists and belongs to tenant
       const customer = await db.customer.findFirst({
@@ -1028,16 +1937,40 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
       const productIds = lines.map((line) => line.productId)
       const products = await db.product.findMany({
         where: { id: { in: productIds }, tenantId },
-        select: { id: true, price: true },
+        select: { id: true, price: true, cost: true, taxCategory: true },
       })
       if (products.length !== productIds.length) {
         return reply.code(400).send({ error: 'One or more products not found' })
       }
 
+      // Editing re-prices the quote, so the rate is locked again; the currency is kept unless a new one is sent.
+      let docCurrency: DocumentCurrency
+      try {
+        docCurrency = await resolveDocumentCurrency(db, tenantId, currency ?? existingQuote.currency)
+      } catch (e) {
+        if (e instanceof ExchangeRateMissingError) return reply.status(400).send(exchangeRateMissingBody(e))
+        throw e
+      }
+
       const productMap = new Map(products.map((p: any) => [p.id, p]))
+      const promotedLines = await promoteQuoteLines(db, tenantId, customerId, lines, productMap, docCurrency.exchangeRate)
+      const rates = await loadTaxRates(db, tenantId)
+      const pricedLines = priceQuoteLines(promotedLines, productMap, globalDiscountPct, rates)
+
+      const costs = documentCosts(productMap.values(), docCurrency.exchangeRate)
+      const minMarginPct = await loadMinMarginPct(db, tenantId)
+      const belowCost = quoteLineMargins({ globalDiscountPct, pricesIncludeTax: rates.pricesIncludeTax, lines: pricedLines }, costs, minMarginPct).filter(
+        (m) => m.flag === 'BELOW_COST',
+      )
+      if (belowCost.length > 0 && !request.auth!.permissions.has(Permissions.SalesMarginOverride)) {
+        return reply.status(409).send(belowCostBody(new BelowCostError(belowCost)))
+      }
 
       // Update quote in transaction
+      let approvalRequest: Awaited<ReturnType<typeof evaluateQuoteDiscounts>> = null
       const quote = await db.$transaction(async (tx: any) => {
+        const term = await resolvePaymentTerm(tx, { tenantId, customerId, paymentTermId, paymentMode })
+
         // Delete existing lines
         await tx.quoteLine.deleteMany({ where: { quoteId: id, tenantId } })
 
@@ -1051,16 +1984,27 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
             deliveryAddress: (deliveryAddress ?? customer.address ?? null) ? String(deliveryAddress ?? customer.address).trim() : null,
             deliveryMapsUrl: (deliveryMapsUrl ?? customer.mapsUrl ?? null) ? String(deliveryMapsUrl ?? customer.mapsUrl).trim() : null,
             validityDays,
-            paymentMode,
+            paymentTermId: term.id,
+            paymentMode: term.code,
             deliveryDays,
             globalDiscountPct: decimalFromNumber(clampPct(globalDiscountPct)),
+            pricesIncludeTax: rates.pricesIncludeTax,
+            currency: docCurrency.currency,
+            exchangeRate: decimalFromNumber(docCurrency.exchangeRate),
             proposalValue: proposalValue?.trim() ? proposalValue.trim() : null,
             note: note || null,
+            // Saving re-prices the quote, so an expired quote becomes valid again.
+            status: 'CREATED',
+            pricedAt: new Date(),
+            closedAt: null,
+            // Every edit is a new revision; the previous one stays in QuoteRevision.
+            revision: { increment: 1 },
             version: { increment: 1 },
             updatedAt: new Date(),
           },
           include: {
             customer: { select: { name: true } },
+            paymentTerm: { select: paymentTermRuleSelect },
             lines: {
               include: { product: { select: { name: true, sku: true } } },
             },
@@ -1069,25 +2013,34 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
 
         // Create new lines
         await tx.quoteLine.createMany({
-          data: lines.map((line) => ({
+          data: pricedLines.map((line) => ({
             tenantId,
             quoteId: id,
             productId: line.productId,
             quantity: decimalFromNumber(line.quantity),
-            unitPrice: decimalFromNumber(line.unitPrice ?? Number((productMap.get(line.productId) as any)?.price ?? 0)),
-            discountPct: decimalFromNumber(clampPct(line.discountPct ?? 0)),
+            unitPrice: decimalFromNumber(line.unitPrice),
+            discountPct: decimalFromNumber(line.discountPct),
+            taxPct: decimalFromNumber(line.taxPct),
+            taxAmount: decimalFromNumber(line.taxAmount),
+            ...linePromotionData(line),
             createdBy: userId,
           })),
         })
 
+        await recordQuoteRevision(tx, { tenantId, quoteId: id, userId, source: 'EDIT' })
+
         // Fetch updated lines
         const updatedLines = await tx.quoteLine.findMany({
           where: { quoteId: id },
-          include: { product: { select: { name: true, sku: true } } },
+          include: { product: { select: { name: true, sku: true } }, promotion: { select: { name: true } } },
         })
 
-        return { ...updatedQuote, lines: updatedLines }
+        // Each revision is checked against the editor's discount limits.
+        approvalRequest = await evaluateQuoteDiscounts(tx, { tenantId, quoteId: id, userId, permissions: request.auth!.permissions })
+
+        return { ...updatedQuote, status: approvalRequest ? 'PENDING_APPROVAL' : updatedQuote.status, lines: updatedLines }
       })
+      if (approvalRequest) await announceApprovalRequest({ tenantId, userId, quote, approval: approvalRequest })
 
       await audit.append({
         tenantId,
@@ -1098,15 +2051,10 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         before: existingQuote,
         after: quote,
       })
+      if (belowCost.length > 0) await auditMarginOverride({ tenantId, userId, quoteId: quote.id, revision: quote.revision, lines: belowCost })
 
-      const totals = computeTotals(
-        quote.lines.map((l: any) => ({
-          quantity: Number(l.quantity),
-          unitPrice: Number(l.unitPrice),
-          discountPct: Number(l.discountPct ?? 0),
-        })),
-        Number(quote.globalDiscountPct ?? 0),
-      )
+      const totals = quoteLineTotals(quote)
+      const margins = quoteLineMargins(quote, costs, minMarginPct)
 
       const quotedBy = await resolveUserDisplayName(db, tenantId, quote.createdBy)
 
@@ -1115,22 +2063,33 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
         number: quote.number,
         customerId: quote.customerId,
         customerName: quote.customer.name,
-        status: quote.status,
+        ...quoteLifecycleFields(quote),
+        revision: quote.revision,
         quotedBy,
         validityDays: quote.validityDays,
         paymentMode: quote.paymentMode,
+        paymentTermId: quote.paymentTermId,
+        paymentTerm: quote.paymentTerm
+          ? { ...quote.paymentTerm, earlyPaymentDiscountPct: Number(quote.paymentTerm.earlyPaymentDiscountPct ?? 0) }
+          : null,
         deliveryDays: quote.deliveryDays,
         deliveryCity: quote.deliveryCity,
         deliveryZone: quote.deliveryZone,
         deliveryAddress: quote.deliveryAddress,
         deliveryMapsUrl: quote.deliveryMapsUrl,
         globalDiscountPct: Number(quote.globalDiscountPct ?? 0),
+        pricesIncludeTax: quote.pricesIncludeTax,
+        currency: quote.currency,
+        exchangeRate: Number(quote.exchangeRate),
         proposalValue: quote.proposalValue,
         note: quote.note,
         subtotal: totals.subtotal,
         globalDiscountAmount: totals.globalDiscountAmount,
-        total: totals.totalAfterGlobal,
-        lines: quote.lines.map((line: any) => ({
+        netTotal: totals.netTotal,
+        taxTotal: totals.taxTotal,
+        total: totals.grossTotal,
+        minMarginPct,
+        lines: quote.lines.map((line: any, i: number) => ({
           id: line.id,
           productId: line.productId,
           productName: line.product.name,
@@ -1138,6 +2097,10 @@ export async function salesQuotesRoutes(app: FastifyInstance) {
           quantity: Number(line.quantity),
           unitPrice: Number(line.unitPrice),
           discountPct: Number(line.discountPct ?? 0),
+          taxPct: Number(line.taxPct ?? 0),
+          taxAmount: Number(line.taxAmount ?? 0),
+          ...linePromotionFields(line),
+          ...lineMarginFields(margins[i]),
         })),
         createdAt: quote.createdAt.toISOString(),
         updatedAt: quote.updatedAt.toISOString(),
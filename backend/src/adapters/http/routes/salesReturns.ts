@@ -0,0 +1,497 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
+
+const reasonCreateSchema = z.object({
+  code: z.string().trim().min(1).max(32),
+  name: z.string().trim().min(1).max(200),
+})
+
+const reasonUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200).optional(),
+  isActive: z.boolean().optional(),
+})
+
+const reasonListQuerySchema = z.object({
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const listQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+})
+
+const returnCreateSchema = z.object({
+  salesOrderId: z.string().uuid(),
+  reasonId: z.string().uuid(),
+  // Quarantine location that receives the goods.
+  locationId: z.string().uuid(),
+  note: z.string().trim().max(500).optional(),
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().uuid(),
+        quantity: z.coerce.number().positive(),
+        batchId: z.string().uuid().nullable().optional(),
+      }),
+    )
+    .min(1),
+})
+
+// The order line does not always carry a batch (FEFO picks it at delivery), so the original batch is
+// recovered from the OUT movements posted for the order.
+async function resolveReturnBatchId(
+  tx: any,
+  args: { tenantId: string; orderNumber: string; productId: string; lineBatchId: string | null; requestedBatchId?: string | null | undefined },
+): Promise<string | null> {
+  const movements = await tx.stockMovement.findMany({
+    where: {
+      tenantId: args.tenantId,
+      type: 'OUT',
+      referenceType: 'SALES_ORDER',
+      referenceId: args.orderNumber,
+      productId: args.productId,
+    },
+    select: { batchId: true },
+  })
+  const deliveredBatchIds: Array<string | null> = Array.from(new Set(movements.map((m: any) => m.batchId as string | null)))
+
+  if (args.requestedBatchId !== undefined) {
+    if (deliveredBatchIds.length > 0 && !deliveredBatchIds.includes(args.requestedBatchId)) {
+      const err = new Error('Batch was not delivered in this order') as Error & { statusCode?: number }
+      err.statusCode = 400
+      throw err
+    }
+    return args.requestedBatchId
+  }
+
+  if (deliveredBatchIds.length === 0) return args.lineBatchId
+  if (deliveredBatchIds.length === 1) return deliveredBatchIds[0] ?? null
+
+  const err = new Error('Line was delivered from several batches; batchId is required') as Error & { statusCode?: number }
+  err.statusCode = 400
+  throw err
+}
+
+export async function registerSalesReturnRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/return-reasons',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = reasonListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.salesReturnReason.findMany({
+        where: { tenantId, ...(parsed.data.includeInactive ? {} : { isActive: true }) },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        select: { id: true, code: true, name: true, isActive: true, version: true, updatedAt: true },
+      })
+      return reply.send({ items })
+    },
+  )
+
+  app.post(
+    '/api/v1/sales/return-reasons',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const parsed = reasonCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      try {
+        const created = await db.salesReturnReason.create({
+          data: { tenantId, code: parsed.data.code.toUpperCase(), name: parsed.data.name, createdBy: userId },
+          select: { id: true, code: true, name: true, isActive: true, version: true, updatedAt: true },
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'sales.return-reason.create',
+          entityType: 'SalesReturnReason',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(created)
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Return reason code already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.patch(
+    '/api/v1/sales/return-reasons/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = reasonUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.salesReturnReason.findFirst({
+        where: { id, tenantId },
+        select: { id: true, code: true, name: true, isActive: true, version: true },
+      })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const updated = await db.salesReturnReason.update({
+        where: { id },
+        data: {
+          ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+          ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
+          version: { increment: 1 },
+          createdBy: userId,
+        },
+        select: { id: true, code: true, name: true, isActive: true, version: true, updatedAt: true },
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.return-reason.update',
+        entityType: 'SalesReturnReason',
+        entityId: id,
+        before,
+        after: updated,
+      })
+
+      return reply.send(updated)
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/returns',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const parsed = listQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.salesReturn.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.orderId ? { salesOrderId: parsed.data.orderId } : {}),
+          ...(parsed.data.customerId ? { customerId: parsed.data.customerId } : {}),
+        },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: {
+          id: true,
+          number: true,
+          creditAmount: true,
+          note: true,
+          createdAt: true,
+          salesOrder: { select: { id: true, number: true } },
+          customer: { select: { id: true, name: true } },
+          reason: { select: { id: true, code: true, name: true } },
+          location: { select: { id: true, code: true, warehouse: { select: { id: true, code: true, name: true } } } },
+        },
+      })
+
+      const mapped = items.map((r) => ({
+        id: r.id,
+        number: r.number,
+        creditAmount: toNumber(r.creditAmount),
+        note: r.note,
+        createdAt: r.createdAt.toISOString(),
+        orderId: r.salesOrder.id,
+        orderNumber: r.salesOrder.number,
+        customerId: r.customer.id,
+        customerName: r.customer.name,
+        reason: r.reason,
+        location: r.location,
+      }))
+
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+      return reply.send({ items: mapped, nextCursor })
+    },
+  )
+
+  app.get(
+    '/api/v1/sales/returns/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const item = await db.salesReturn.findFirst({
+        where: { id, tenantId },
+        select: {
+          id: true,
+          number: true,
+          creditAmount: true,
+          note: true,
+          createdAt: true,
+          createdBy: true,
+          salesOrder: { select: { id: true, number: true } },
+          customer: { select: { id: true, name: true, nit: true } },
+          reason: { select: { id: true, code: true, name: true } },
+          location: { select: { id: true, code: true, warehouse: { select: { id: true, code: true, name: true } } } },
+          lines: {
+            select: {
+              id: true,
+              salesOrderLineId: true,
+              productId: true,
+              batchId: true,
+              quantity: true,
+              unitPrice: true,
+              product: { select: { sku: true, name: true, genericName: true } },
+              batch: { select: { batchNumber: true, expiresAt: true } },
+            },
+          },
+        },
+      })
+      if (!item) return reply.status(404).send({ message: 'Not found' })
+
+      return reply.send({
+        ...item,
+        creditAmount: toNumber(item.creditAmount),
+        createdAt: item.createdAt.toISOString(),
+      })
+    },
+  )
+
+  // Create a return: stock comes back as IN to a quarantine location and a credit note is issued
+  // for the returned lines at the price they were sold.
+  app.post(
+    '/api/v1/sales/returns',
+    {
+      preHandler: [
+        requireAuth(),
+        requireModuleEnabled(db, 'SALES'),
+        requireModuleEnabled(db, 'WAREHOUSE'),
+        requirePermission(Permissions.SalesOrderWrite),
+        requirePermission(Permissions.StockMove),
+      ],
+    },
+    async (request, reply) => {
+      const parsed = returnCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) => {
+        const order = await tx.salesOrder.findFirst({
+          where: { id: parsed.data.salesOrderId, tenantId },
+          select: {
+            id: true,
+            number: true,
+            status: true,
+            customerId: true,
+            lines: {
+              select: {
+                id: true,
+                productId: true,
+                batchId: true,
+                quantity: true,
+                deliveredQuantity: true,
+                returnedQuantity: true,
+                unitPrice: true,
+              },
+            },
+          },
+        })
+        if (!order) {
+          const err = new Error('Order not found') as Error & { statusCode?: number }
+          err.statusCode = 404
+          throw err
+        }
+        if (order.status !== 'FULFILLED' && order.status !== 'PARTIALLY_FULFILLED') {
+          const err = new Error('Only delivered orders can be returned') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+
+        const reason = await tx.salesReturnReason.findFirst({
+          where: { id: parsed.data.reasonId, tenantId, isActive: true },
+          select: { id: true, code: true, name: true },
+        })
+        if (!reason) {
+          const err = new Error('Return reason not found') as Error & { statusCode?: number }
+          err.statusCode = 404
+          throw err
+        }
+
+        const location = await tx.location.findFirst({
+          where: { id: parsed.data.locationId, tenantId, isActive: true },
+          select: { id: true, code: true, isQuarantine: true },
+        })
+        if (!location) {
+          const err = new Error('Location not found') as Error & { statusCode?: number }
+          err.statusCode = 404
+          throw err
+        }
+        if (!location.isQuarantine) {
+          const err = new Error('Returns must be received into a quarantine location') as Error & { statusCode?: number }
+          err.statusCode = 409
+          throw err
+        }
+
+        const lineById = new Map(order.lines.map((l) => [l.id, l] as const))
+        const requestedByLineId = new Map<string, number>()
+        for (const r of parsed.data.lines) {
+          const line = lineById.get(r.lineId)
+          if (!line) {
+            const err = new Error('Order line not found') as Error & { statusCode?: number }
+            err.statusCode = 400
+            throw err
+          }
+          const requested = (requestedByLineId.get(r.lineId) ?? 0) + r.quantity
+          const returnable = toNumber(line.deliveredQuantity) - toNumber(line.returnedQuantity)
+          if (requested > returnable + 1e-9) {
+            const err = new Error('Returned quantity exceeds delivered quantity') as Error & { statusCode?: number }
+            err.statusCode = 409
+            throw err
+          }
+          requestedByLineId.set(r.lineId, requested)
+        }
+
+        const year = currentYearUtc()
+        const seq = await nextSequence(tx, { tenantId, year, key: 'NC' })
+
+        const created = await tx.salesReturn.create({
+          data: {
+            tenantId,
+            number: seq.number,
+            numberYear: year,
+            salesOrderId: order.id,
+            customerId: order.customerId,
+            reasonId: reason.id,
+            locationId: location.id,
+            note: parsed.data.note ?? null,
+            createdBy: userId,
+          },
+          select: { id: true },
+        })
+
+        const createdMovements: any[] = []
+        const changedBalances: any[] = []
+        let creditAmount = 0
+
+        for (const r of parsed.data.lines) {
+          const line = lineById.get(r.lineId)!
+          const batchId = await resolveReturnBatchId(tx, {
+            tenantId,
+            orderNumber: order.number,
+            productId: line.productId,
+            lineBatchId: line.batchId,
+            requestedBatchId: r.batchId,
+          })
+
+          const { createdMovement, toBalance } = await createStockMovementTx(tx, {
+            tenantId,
+            userId,
+            type: 'IN',
+            productId: line.productId,
+            batchId,
+            toLocationId: location.id,
+            quantity: r.quantity,
+            referenceType: 'SALES_RETURN',
+            referenceId: seq.number,
+            note: `Devolución OV ${order.number}: ${reason.name}`,
+          })
+          createdMovements.push(createdMovement)
+          if (toBalance) changedBalances.push(toBalance)
+
+          const unitPrice = toNumber(line.unitPrice)
+          creditAmount += r.quantity * unitPrice
+
+          await tx.salesReturnLine.create({
+            data: {
+              tenantId,
+              salesReturnId: created.id,
+              salesOrderLineId: line.id,
+              productId: line.productId,
+              batchId,
+              quantity: decimalFromNumber(r.quantity),
+              unitPrice: decimalFromNumber(unitPrice),
+            },
+            select: { id: true },
+          })
+
+          await tx.salesOrderLine.update({
+            where: { id: line.id },
+            data: { returnedQuantity: { increment: r.quantity }, version: { increment: 1 } },
+            select: { id: true },
+          })
+        }
+
+        const salesReturn = await tx.salesReturn.update({
+          where: { id: created.id },
+          data: { creditAmount: decimalFromNumber(creditAmount) },
+          select: {
+            id: true,
+            number: true,
+            salesOrderId: true,
+            customerId: true,
+            reasonId: true,
+            locationId: true,
+            creditAmount: true,
+            note: true,
+            createdAt: true,
+          },
+        })
+
+        return { order, salesReturn, createdMovements, changedBalances }
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.return.create',
+        entityType: 'SalesReturn',
+        entityId: result.salesReturn.id,
+        after: { salesReturn: result.salesReturn, movements: result.createdMovements, balances: result.changedBalances },
+        metadata: { orderId: result.order.id, orderNumber: result.order.number, lines: parsed.data.lines },
+      })
+
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('sales.return.created', {
+        ...result.salesReturn,
+        orderNumber: result.order.number,
+      })
+      for (const m of result.createdMovements) app.io?.to(room).emit('stock.movement.created', m)
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.status(201).send({
+        ...result.salesReturn,
+        creditAmount: toNumber(result.salesReturn.creditAmount),
+        createdAt: result.salesReturn.createdAt.toISOString(),
+      })
+    },
+  )
+}
@@ -0,0 +1,86 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { DEFAULT_TAX_RATES } from '../../../application/sales/taxes.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const settingsUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  ivaPct: z.number().min(0).max(100),
+  itPct: z.number().min(0).max(100),
+  pricesIncludeTax: z.boolean(),
+})
+
+const settingsSelect = {
+  ivaPct: true,
+  itPct: true,
+  pricesIncludeTax: true,
+  version: true,
+  updatedAt: true,
+} as const
+
+function settingsResponse(row: { ivaPct: any; itPct: any; pricesIncludeTax: boolean; version: number; updatedAt: Date }) {
+  return { ...row, ivaPct: toNumber(row.ivaPct), itPct: toNumber(row.itPct) }
+}
+
+export async function registerSalesTaxRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/sales/tax-settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesOrderRead)],
+    },
+    async (request, reply) => {
+      const tenantId = request.auth!.tenantId
+      const row = await db.taxSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      // Defaults are reported as version 1 so the first save creates the row.
+      return reply.send(row ? settingsResponse(row) : { ...DEFAULT_TAX_RATES, version: 1, updatedAt: null })
+    },
+  )
+
+  app.put(
+    '/api/v1/sales/tax-settings',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'SALES'), requirePermission(Permissions.SalesInvoiceWrite)],
+    },
+    async (request, reply) => {
+      const parsed = settingsUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const { version, ...input } = parsed.data
+
+      const before = await db.taxSettings.findUnique({ where: { tenantId }, select: settingsSelect })
+      if ((before?.version ?? 1) !== version) return reply.status(409).send({ message: 'Version conflict' })
+
+      // Only quotes saved from now on use the new rates; existing quotes and orders keep their stored tax.
+      const data = {
+        ivaPct: input.ivaPct.toString(),
+        itPct: input.itPct.toString(),
+        pricesIncludeTax: input.pricesIncludeTax,
+        createdBy: userId,
+      }
+      const updated = before
+        ? await db.taxSettings.update({ where: { tenantId }, data: { ...data, version: { increment: 1 } }, select: settingsSelect })
+        : await db.taxSettings.create({ data: { tenantId, ...data }, select: settingsSelect })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'sales.tax.settings.update',
+        entityType: 'TaxSettings',
+        entityId: tenantId,
+        before,
+        after: updated,
+      })
+
+      return reply.send(settingsResponse(updated))
+    },
+  )
+}
@@ -5,6 +5,9 @@ import { AuditService } from '../../../application/audit/auditService.js'
 import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
 import { Permissions } from '../../../application/security/permissions.js'
 import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import { AVAILABLE_BATCH_STATUS } from '../../../application/stock/batchStatus.js'
+import { carryReservationsWithTransfer } from '../../../application/sales/transferPlans.js'
+import { startOfTodayUtc } from '../../../application/shared/dates.js'
 
 const movementCreateSchema = z.object({
   type: z.enum(['IN', 'OUT', 'TRANSFER', 'ADJUSTMENT']),
@@ -39,11 +42,6 @@ const movementRequestsListQuerySchema = z.object({
   city: z.string().trim().max(80).optional(),
 })
 
-function startOfTodayUtc(): Date {
-  const now = new Date()
-  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0, 0))
-}
-
 function addDaysUtc(date: Date, days: number): Date {
   return new Date(date.getTime() + days * 86400000)
 }
@@ -242,6 +240,7 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
             quantity: { gt: 0 },
             batchId: { not: null },
             batch: {
+              status: AVAILABLE_BATCH_STATUS,
               OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }],
             },
           },
@@ -283,6 +282,7 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
         where: {
           tenantId,
           id: { in: batchIds },
+          status: AVAILABLE_BATCH_STATUS,
           OR: [{ expiresAt: null }, { expiresAt: { gte: todayUtc } }],
         },
         orderBy: [{ expiresAt: 'asc' }, { id: 'asc' }],
@@ -437,7 +437,7 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
 
       try {
         const result = await db.$transaction(async (tx) => {
-          return createStockMovementTx(tx, {
+          const movement = await createStockMovementTx(tx, {
             tenantId,
             userId,
             type: input.type,
@@ -450,6 +450,30 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
             referenceId: input.referenceId ?? null,
             note: input.note ?? null,
           })
+
+          // Transfers planned for cross-city orders take the order's reservation along to the destination.
+          let carriedBalances: any[] = []
+          if (input.type === 'TRANSFER' && movement.toBalance && input.fromLocationId) {
+            const toLoc = await tx.location.findFirst({
+              where: { id: movement.toBalance.locationId, tenantId },
+              select: { warehouse: { select: { city: true } } },
+            })
+            const toCity = (toLoc?.warehouse?.city ?? '').trim()
+            if (toCity) {
+              carriedBalances = await carryReservationsWithTransfer(tx, {
+                tenantId,
+                userId,
+                productId: input.productId,
+                batchId: input.batchId ?? null,
+                fromLocationId: input.fromLocationId,
+                toBalanceId: movement.toBalance.id,
+                toCity,
+                quantity: input.quantity,
+              })
+            }
+          }
+
+          return { ...movement, carriedBalances }
         })
 
         // Auto-fulfill movement requests when a transfer ships stock into the requested city.
@@ -527,6 +551,7 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
       app.io?.to(room).emit('stock.movement.created', result.createdMovement)
       if (result.fromBalance) app.io?.to(room).emit('stock.balance.changed', result.fromBalance)
       if (result.toBalance) app.io?.to(room).emit('stock.balance.changed', result.toBalance)
+      for (const b of result.carriedBalances) app.io?.to(room).emit('stock.balance.changed', b)
 
       // Simple alerting rule for MVP: emit low-stock when any resulting balance hits 0
       const hitsZero = (b: any) => b && Number(b.quantity) === 0
@@ -552,6 +577,9 @@ export async function registerStockRoutes(app: FastifyInstance): Promise<void> {
           })
           return reply.status(409).send({ message: 'Batch expired' })
         }
+        if (e?.code === 'LOCATION_FROZEN' || e?.code === 'BATCH_NOT_RELEASED') {
+          return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        }
         throw e
       }
     },
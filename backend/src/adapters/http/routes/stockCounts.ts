@@ -0,0 +1,706 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { currentYearUtc, nextSequence } from '../../../application/shared/sequence.js'
+import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import { ACTIVE_COUNT_STATUSES, countLineVariance } from '../../../application/stock/inventoryCounts.js'
+import { iso } from '../../../application/shared/dates.js'
+import { decimalFromNumber, toNumber } from '../../../application/shared/numbers.js'
+
+const listQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  status: z.enum(['OPEN', 'SUBMITTED', 'APPROVED', 'CANCELLED']).optional(),
+  warehouseId: z.string().uuid().optional(),
+})
+
+const countCreateSchema = z.object({
+  warehouseId: z.string().uuid(),
+  // Subset of the warehouse's locations; every active location when omitted.
+  locationIds: z.array(z.string().uuid()).min(1).optional(),
+  blind: z.boolean().default(false),
+  freezeMovements: z.boolean().default(false),
+  note: z.string().trim().max(500).optional(),
+})
+
+const countEntrySchema = z.object({
+  lines: z
+    .array(
+      z
+        .object({
+          lineId: z.string().uuid().optional(),
+          // Stock found that isn't on the sheet is identified by location, product and batch.
+          locationId: z.string().uuid().optional(),
+          productId: z.string().uuid().optional(),
+          batchId: z.string().uuid().nullable().optional(),
+          countedQuantity: z.coerce.number().min(0),
+          note: z.string().trim().max(300).optional(),
+        })
+        .refine((l) => !!l.lineId || (!!l.locationId && !!l.productId), { message: 'lineId or locationId + productId is required' }),
+    )
+    .min(1),
+})
+
+const versionSchema = z.object({
+  version: z.number().int().positive(),
+})
+
+const countSelect = {
+  id: true,
+  number: true,
+  warehouseId: true,
+  status: true,
+  blind: true,
+  freezeMovements: true,
+  note: true,
+  submittedAt: true,
+  submittedBy: true,
+  approvedAt: true,
+  approvedBy: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: true,
+  warehouse: { select: { id: true, code: true, name: true, city: true } },
+  locations: { select: { location: { select: { id: true, code: true } } } },
+  _count: { select: { lines: true } },
+} as const
+
+const lineSelect = {
+  id: true,
+  locationId: true,
+  productId: true,
+  batchId: true,
+  systemQuantity: true,
+  countedQuantity: true,
+  countedAt: true,
+  countedBy: true,
+  note: true,
+  movementId: true,
+  location: { select: { code: true } },
+  product: { select: { sku: true, name: true, genericName: true, cost: true } },
+  batch: { select: { batchNumber: true, expiresAt: true } },
+} as const
+
+function countResponse(c: any) {
+  const { locations, _count, ...rest } = c
+  return {
+    ...rest,
+    locations: locations.map((l: any) => l.location),
+    lineCount: _count.lines,
+    submittedAt: iso(c.submittedAt),
+    approvedAt: iso(c.approvedAt),
+    cancelledAt: iso(c.cancelledAt),
+    createdAt: c.createdAt.toISOString(),
+    updatedAt: c.updatedAt.toISOString(),
+  }
+}
+
+// Blind counts hide book quantities from counters until the count is submitted; approvers always see them.
+function hidesSystemQuantities(request: FastifyRequest, count: { blind: boolean; status: string }): boolean {
+  return count.blind && count.status === 'OPEN' && !request.auth!.permissions.has(Permissions.StockCountApprove)
+}
+
+function lineResponse(l: any, hideSystem: boolean) {
+  const { product, ...rest } = l
+  return {
+    ...rest,
+    product: { sku: product.sku, name: product.name, genericName: product.genericName },
+    systemQuantity: hideSystem ? null : toNumber(l.systemQuantity),
+    countedQuantity: l.countedQuantity === null ? null : toNumber(l.countedQuantity),
+    variance: hideSystem ? null : countLineVariance(l),
+    countedAt: iso(l.countedAt),
+    batch: l.batch ? { batchNumber: l.batch.batchNumber, expiresAt: iso(l.batch.expiresAt) } : null,
+  }
+}
+
+function statusError(message: string): Error & { statusCode?: number } {
+  const err = new Error(message) as Error & { statusCode?: number }
+  err.statusCode = 409
+  return err
+}
+
+async function loadCountForUpdate(tx: any, tenantId: string, id: string) {
+  const count = await tx.inventoryCount.findFirst({ where: { id, tenantId }, select: countSelect })
+  if (!count) {
+    const err = new Error('Not found') as Error & { statusCode?: number }
+    err.statusCode = 404
+    throw err
+  }
+  return count
+}
+
+async function resolveUserNames(db: any, tenantId: string, userIds: Array<string | null>): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(userIds.filter((u): u is string => !!u)))
+  if (ids.length === 0) return new Map()
+  const users = await db.user.findMany({ where: { tenantId, id: { in: ids } }, select: { id: true, fullName: true, email: true } })
+  return new Map(users.map((u: any) => [u.id, (u.fullName ?? '').trim() || u.email] as const))
+}
+
+export async function registerStockCountRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/stock/counts',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const parsed = listQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const items = await db.inventoryCount.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.status ? { status: parsed.data.status } : {}),
+          ...(parsed.data.warehouseId ? { warehouseId: parsed.data.warehouseId } : {}),
+        },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: countSelect,
+      })
+
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+      return reply.send({ items: items.map(countResponse), nextCursor })
+    },
+  )
+
+  app.get(
+    '/api/v1/stock/counts/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const count = await db.inventoryCount.findFirst({
+        where: { id, tenantId },
+        select: {
+          ...countSelect,
+          lines: {
+            orderBy: [{ location: { code: 'asc' } }, { product: { name: 'asc' } }, { id: 'asc' }],
+            select: lineSelect,
+          },
+        },
+      })
+      if (!count) return reply.status(404).send({ message: 'Not found' })
+
+      const hideSystem = hidesSystemQuantities(request, count)
+      const names = await resolveUserNames(db, tenantId, [count.createdBy, count.submittedBy, count.approvedBy])
+      const { lines, ...header } = count
+
+      return reply.send({
+        ...countResponse(header),
+        createdByName: count.createdBy ? (names.get(count.createdBy) ?? null) : null,
+        submittedByName: count.submittedBy ? (names.get(count.submittedBy) ?? null) : null,
+        approvedByName: count.approvedBy ? (names.get(count.approvedBy) ?? null) : null,
+        systemQuantitiesHidden: hideSystem,
+        lines: lines.map((l) => lineResponse(l, hideSystem)),
+      })
+    },
+  )
+
+  // Opens a count: the sheet is a snapshot of every non-zero balance in the counted locations.
+  app.post(
+    '/api/v1/stock/counts',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const parsed = countCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+      const requestedIds = parsed.data.locationIds ? Array.from(new Set(parsed.data.locationIds)) : null
+
+      let created: any
+      try {
+        created = await db.$transaction(async (tx) => {
+          const warehouse = await tx.warehouse.findFirst({ where: { id: parsed.data.warehouseId, tenantId }, select: { id: true } })
+          if (!warehouse) {
+            const err = new Error('Warehouse not found') as Error & { statusCode?: number }
+            err.statusCode = 404
+            throw err
+          }
+
+          const locations = await tx.location.findMany({
+            where: { tenantId, warehouseId: warehouse.id, isActive: true, ...(requestedIds ? { id: { in: requestedIds } } : {}) },
+            select: { id: true, code: true },
+          })
+          if (locations.length === 0 || (requestedIds && locations.length !== requestedIds.length)) {
+            const err = new Error('Locations must be active locations of the warehouse') as Error & { statusCode?: number }
+            err.statusCode = 400
+            throw err
+          }
+          const locationIds = locations.map((l) => l.id)
+
+          // A location can only be under one active count at a time.
+          const overlap = await tx.inventoryCountLocation.findFirst({
+            where: { tenantId, locationId: { in: locationIds }, count: { status: { in: [...ACTIVE_COUNT_STATUSES] } } },
+            select: { count: { select: { id: true, number: true } } },
+          })
+          if (overlap) {
+            const err = new Error(`Location is already under count ${overlap.count.number}`) as Error & {
+              statusCode?: number
+              code?: string
+              meta?: any
+            }
+            err.statusCode = 409
+            err.code = 'COUNT_OVERLAP'
+            err.meta = { countId: overlap.count.id, countNumber: overlap.count.number }
+            throw err
+          }
+
+          const year = currentYearUtc()
+          const seq = await nextSequence(tx, { tenantId, year, key: 'IF' })
+
+          const count = await tx.inventoryCount.create({
+            data: {
+              tenantId,
+              number: seq.number,
+              numberYear: year,
+              warehouseId: warehouse.id,
+              blind: parsed.data.blind,
+              freezeMovements: parsed.data.freezeMovements,
+              note: parsed.data.note ?? null,
+              createdBy: userId,
+              locations: { create: locationIds.map((locationId) => ({ tenantId, locationId })) },
+            },
+            select: { id: true },
+          })
+
+          const balances = await tx.inventoryBalance.findMany({
+            where: { tenantId, locationId: { in: locationIds }, quantity: { not: 0 } },
+            select: { locationId: true, productId: true, batchId: true, quantity: true },
+          })
+          if (balances.length > 0) {
+            await tx.inventoryCountLine.createMany({
+              data: balances.map((b) => ({
+                tenantId,
+                countId: count.id,
+                locationId: b.locationId,
+                productId: b.productId,
+                batchId: b.batchId,
+                systemQuantity: b.quantity,
+              })),
+            })
+          }
+
+          return tx.inventoryCount.findFirstOrThrow({ where: { id: count.id }, select: countSelect })
+        })
+      } catch (e: any) {
+        if (e?.code === 'COUNT_OVERLAP') return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.create',
+        entityType: 'InventoryCount',
+        entityId: created.id,
+        after: created,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('stock.count.updated', countResponse(created))
+
+      return reply.status(201).send(countResponse(created))
+    },
+  )
+
+  // Counters record quantities while the count is open; re-entering a line overwrites the previous count.
+  app.put(
+    '/api/v1/stock/counts/:id/lines',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockMove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = countEntrySchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const result = await db.$transaction(async (tx) => {
+        const count = await loadCountForUpdate(tx, tenantId, id)
+        if (count.status !== 'OPEN') throw statusError('Only OPEN counts accept quantities')
+
+        const countedLocationIds = new Set(count.locations.map((l: any) => l.location.id as string))
+        const countedAt = new Date()
+        const touched: string[] = []
+
+        for (const entry of parsed.data.lines) {
+          let lineId = entry.lineId ?? null
+          let key: { locationId: string; productId: string; batchId: string | null }
+          if (lineId) {
+            const line = await tx.inventoryCountLine.findFirst({
+              where: { id: lineId, countId: count.id },
+              select: { id: true, locationId: true, productId: true, batchId: true },
+            })
+            if (!line) {
+              const err = new Error('Count line not found') as Error & { statusCode?: number }
+              err.statusCode = 400
+              throw err
+            }
+            key = { locationId: line.locationId, productId: line.productId, batchId: line.batchId }
+          } else {
+            const locationId = entry.locationId!
+            const productId = entry.productId!
+            const batchId = entry.batchId ?? null
+            if (!countedLocationIds.has(locationId)) {
+              const err = new Error('Location is not part of this count') as Error & { statusCode?: number }
+              err.statusCode = 400
+              throw err
+            }
+            const product = await tx.product.findFirst({ where: { id: productId, tenantId }, select: { id: true } })
+            if (!product) {
+              const err = new Error('Product not found') as Error & { statusCode?: number }
+              err.statusCode = 404
+              throw err
+            }
+            if (batchId) {
+              const batch = await tx.batch.findFirst({ where: { id: batchId, tenantId, productId }, select: { id: true } })
+              if (!batch) {
+                const err = new Error('Batch not found') as Error & { statusCode?: number }
+                err.statusCode = 404
+                throw err
+              }
+            }
+
+            key = { locationId, productId, batchId }
+            const existing = await tx.inventoryCountLine.findFirst({
+              where: { countId: count.id, locationId, productId, batchId },
+              select: { id: true },
+            })
+            if (existing) {
+              lineId = existing.id
+            } else {
+              // Not on the sheet (book quantity is set below, usually 0).
+              const line = await tx.inventoryCountLine.create({
+                data: { tenantId, countId: count.id, locationId, productId, batchId, systemQuantity: 0 },
+                select: { id: true },
+              })
+              lineId = line.id
+            }
+          }
+
+          // The book quantity is taken when the line is counted, not when the session opened: without a
+          // movement freeze, stock keeps moving in between and the adjustment must only cover the difference
+          // found by the counter.
+          const balance = await tx.inventoryBalance.findFirst({
+            where: { tenantId, ...key },
+            select: { quantity: true },
+          })
+
+          await tx.inventoryCountLine.update({
+            where: { id: lineId },
+            data: {
+              systemQuantity: balance?.quantity ?? 0,
+              countedQuantity: decimalFromNumber(entry.countedQuantity),
+              countedAt,
+              countedBy: userId,
+              ...(entry.note !== undefined ? { note: entry.note || null } : {}),
+            },
+            select: { id: true },
+          })
+          touched.push(lineId)
+        }
+
+        const lines = await tx.inventoryCountLine.findMany({ where: { id: { in: touched } }, select: lineSelect })
+        return { count, lines }
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.entry',
+        entityType: 'InventoryCount',
+        entityId: id,
+        metadata: {
+          number: result.count.number,
+          lines: result.lines.map((l) => ({ lineId: l.id, countedQuantity: toNumber(l.countedQuantity) })),
+        },
+      })
+
+      const hideSystem = hidesSystemQuantities(request, result.count)
+      return reply.send({ items: result.lines.map((l) => lineResponse(l, hideSystem)) })
+    },
+  )
+
+  // Counting is done: every line must have a quantity (enter 0 for stock that wasn't found).
+  app.post(
+    '/api/v1/stock/counts/:id/submit',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockMove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      let updated: any
+      try {
+        updated = await db.$transaction(async (tx) => {
+          const count = await loadCountForUpdate(tx, tenantId, id)
+          if (count.version !== parsed.data.version) throw statusError('Version conflict')
+          if (count.status !== 'OPEN') throw statusError('Only OPEN counts can be submitted')
+
+          const uncounted = await tx.inventoryCountLine.count({ where: { countId: count.id, countedQuantity: null } })
+          if (uncounted > 0) {
+            const err = new Error(`${uncounted} línea(s) sin contar`) as Error & { statusCode?: number; code?: string; meta?: any }
+            err.statusCode = 409
+            err.code = 'COUNT_INCOMPLETE'
+            err.meta = { uncountedLines: uncounted }
+            throw err
+          }
+
+          return tx.inventoryCount.update({
+            where: { id: count.id },
+            data: { status: 'SUBMITTED', submittedAt: new Date(), submittedBy: userId, version: { increment: 1 } },
+            select: countSelect,
+          })
+        })
+      } catch (e: any) {
+        if (e?.code === 'COUNT_INCOMPLETE') return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.submit',
+        entityType: 'InventoryCount',
+        entityId: id,
+        after: updated,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('stock.count.updated', countResponse(updated))
+      return reply.send(countResponse(updated))
+    },
+  )
+
+  // Supervisor sends a submitted count back for recounting.
+  app.post(
+    '/api/v1/stock/counts/:id/reopen',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockCountApprove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const count = await loadCountForUpdate(tx, tenantId, id)
+        if (count.version !== parsed.data.version) throw statusError('Version conflict')
+        if (count.status !== 'SUBMITTED') throw statusError('Only SUBMITTED counts can be reopened')
+
+        return tx.inventoryCount.update({
+          where: { id: count.id },
+          data: { status: 'OPEN', submittedAt: null, submittedBy: null, version: { increment: 1 } },
+          select: countSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.reopen',
+        entityType: 'InventoryCount',
+        entityId: id,
+        after: updated,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('stock.count.updated', countResponse(updated))
+      return reply.send(countResponse(updated))
+    },
+  )
+
+  // Approval posts one ADJUSTMENT per variance (counted - book quantity read when the line was counted), referencing the count.
+  app.post(
+    '/api/v1/stock/counts/:id/approve',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockCountApprove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      let result: any
+      try {
+        result = await db.$transaction(async (tx) => {
+          const count = await loadCountForUpdate(tx, tenantId, id)
+          if (count.version !== parsed.data.version) throw statusError('Version conflict')
+          if (count.status !== 'SUBMITTED') throw statusError('Only SUBMITTED counts can be approved')
+
+          // Leaving the active statuses first lifts the freeze for the count's own adjustments.
+          const updated = await tx.inventoryCount.update({
+            where: { id: count.id },
+            data: { status: 'APPROVED', approvedAt: new Date(), approvedBy: userId, version: { increment: 1 } },
+            select: countSelect,
+          })
+
+          const lines = await tx.inventoryCountLine.findMany({
+            where: { countId: count.id },
+            select: { id: true, locationId: true, productId: true, batchId: true, systemQuantity: true, countedQuantity: true },
+          })
+
+          const createdMovements: any[] = []
+          const changedBalances: any[] = []
+          for (const line of lines) {
+            const variance = countLineVariance(line) ?? 0
+            if (Math.abs(variance) <= 1e-9) continue
+
+            const { createdMovement, fromBalance, toBalance } = await createStockMovementTx(tx, {
+              tenantId,
+              userId,
+              type: 'ADJUSTMENT',
+              productId: line.productId,
+              batchId: line.batchId,
+              ...(variance > 0 ? { toLocationId: line.locationId } : { fromLocationId: line.locationId }),
+              quantity: Math.abs(variance),
+              referenceType: 'INVENTORY_COUNT',
+              referenceId: count.number,
+              note: `Conteo físico ${count.number}`,
+            })
+            createdMovements.push(createdMovement)
+            if (fromBalance) changedBalances.push(fromBalance)
+            if (toBalance) changedBalances.push(toBalance)
+
+            await tx.inventoryCountLine.update({ where: { id: line.id }, data: { movementId: createdMovement.id }, select: { id: true } })
+          }
+
+          return { count: updated, createdMovements, changedBalances }
+        })
+      } catch (e: any) {
+        if (e?.code === 'BATCH_EXPIRED') {
+          return reply.status(409).send({ message: 'Batch expired', code: e.code, ...e.meta })
+        }
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.approve',
+        entityType: 'InventoryCount',
+        entityId: id,
+        after: { count: result.count, movements: result.createdMovements },
+      })
+
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('stock.count.updated', countResponse(result.count))
+      for (const m of result.createdMovements) app.io?.to(room).emit('stock.movement.created', m)
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.send({ ...countResponse(result.count), adjustments: result.createdMovements.length })
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/counts/:id/cancel',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const count = await loadCountForUpdate(tx, tenantId, id)
+        if (count.version !== parsed.data.version) throw statusError('Version conflict')
+        if (count.status !== 'OPEN' && count.status !== 'SUBMITTED') throw statusError('Only OPEN or SUBMITTED counts can be cancelled')
+
+        return tx.inventoryCount.update({
+          where: { id: count.id },
+          data: { status: 'CANCELLED', cancelledAt: new Date(), cancelledBy: userId, version: { increment: 1 } },
+          select: countSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.count.cancel',
+        entityType: 'InventoryCount',
+        entityId: id,
+        after: updated,
+      })
+
+      app.io?.to(`tenant:${tenantId}`).emit('stock.count.updated', countResponse(updated))
+      return reply.send(countResponse(updated))
+    },
+  )
+
+  // Variance report: lines whose count differs from the book, valued at the product's current cost.
+  app.get(
+    '/api/v1/stock/counts/:id/variances',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const count = await db.inventoryCount.findFirst({
+        where: { id, tenantId },
+        select: { ...countSelect, lines: { orderBy: [{ location: { code: 'asc' } }, { id: 'asc' }], select: lineSelect } },
+      })
+      if (!count) return reply.status(404).send({ message: 'Not found' })
+      if (hidesSystemQuantities(request, count)) return reply.status(403).send({ message: 'Blind count: variances are hidden until submitted' })
+
+      const totals = { lines: count.lines.length, countedLines: 0, varianceLines: 0, unitsOver: 0, unitsShort: 0, valueOver: 0, valueShort: 0 }
+      const items: any[] = []
+      for (const l of count.lines) {
+        const variance = countLineVariance(l)
+        if (variance === null) continue
+        totals.countedLines += 1
+        if (Math.abs(variance) <= 1e-9) continue
+
+        const unitCost = l.product.cost === null ? null : toNumber(l.product.cost)
+        const varianceValue = unitCost === null ? null : variance * unitCost
+        totals.varianceLines += 1
+        if (variance > 0) {
+          totals.unitsOver += variance
+          totals.valueOver += varianceValue ?? 0
+        } else {
+          totals.unitsShort += -variance
+          totals.valueShort += -(varianceValue ?? 0)
+        }
+        items.push({ ...lineResponse(l, false), unitCost, varianceValue })
+      }
+
+      const { lines: _lines, ...header } = count
+      return reply.send({
+        count: countResponse(header),
+        items,
+        totals: { ...totals, netValue: totals.valueOver - totals.valueShort },
+      })
+    },
+  )
+}
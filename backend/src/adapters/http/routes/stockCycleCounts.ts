@@ -0,0 +1,734 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { createStockMovementTx } from '../../../application/stock/stockMovementService.js'
+import {
+  CYCLE_INTERVAL_DAYS,
+  classifyProductsAbc,
+  effectiveAbcClass,
+  generateCycleCountTasks,
+  startOfDayUtc,
+} from '../../../application/stock/cycleCounts.js'
+import { iso } from '../../../application/shared/dates.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const abcClassSchema = z.enum(['A', 'B', 'C'])
+
+const taskListQuerySchema = z.object({
+  // Day of the list (default today); open tasks from earlier days are included as overdue.
+  date: z.coerce.date().optional(),
+  status: z.enum(['PENDING', 'REVIEW', 'DONE', 'SKIPPED']).optional(),
+  warehouseId: z.string().uuid().optional(),
+  take: z.coerce.number().int().min(1).max(200).default(200),
+})
+
+const taskCountSchema = z.object({
+  version: z.number().int().positive(),
+  // Batches of the pair that aren't listed were not found: they count as 0.
+  lines: z
+    .array(
+      z.object({
+        batchId: z.string().uuid().nullable(),
+        countedQuantity: z.coerce.number().min(0),
+      }),
+    )
+    .min(1),
+})
+
+const versionSchema = z.object({
+  version: z.number().int().positive(),
+})
+
+const generateSchema = z.object({
+  date: z.coerce.date().optional(),
+})
+
+const classifySchema = z.object({
+  days: z.coerce.number().int().min(30).max(730).default(365),
+})
+
+const classListQuerySchema = z.object({
+  take: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().uuid().optional(),
+  q: z.string().trim().min(1).max(100).optional(),
+  class: abcClassSchema.optional(),
+})
+
+const classUpdateSchema = z.object({
+  manualClass: abcClassSchema.nullable(),
+})
+
+const kpiQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(24).default(12),
+})
+
+const taskSelect = {
+  id: true,
+  scheduledFor: true,
+  abcClass: true,
+  status: true,
+  accurate: true,
+  countedAt: true,
+  countedBy: true,
+  reviewedAt: true,
+  reviewedBy: true,
+  version: true,
+  locationId: true,
+  productId: true,
+  warehouse: { select: { id: true, code: true, name: true } },
+  location: { select: { id: true, code: true } },
+  product: { select: { sku: true, name: true, genericName: true } },
+  lines: {
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      batchId: true,
+      systemQuantity: true,
+      countedQuantity: true,
+      movementId: true,
+      batch: { select: { batchNumber: true, expiresAt: true } },
+    },
+  },
+} as const
+
+function statusError(message: string): Error & { statusCode?: number } {
+  const err = new Error(message) as Error & { statusCode?: number }
+  err.statusCode = 409
+  return err
+}
+
+// Cycle counts are blind for counters, recounts included: only approvers see book quantities and variances.
+function canSeeBookQuantities(request: FastifyRequest): boolean {
+  return request.auth!.permissions.has(Permissions.StockCountApprove)
+}
+
+function taskResponse(t: any, opts: { today: Date; showBook: boolean; batches?: any[] | undefined }) {
+  const { lines, ...rest } = t
+  return {
+    ...rest,
+    scheduledFor: t.scheduledFor.toISOString(),
+    overdue: t.scheduledFor.getTime() < opts.today.getTime() && (t.status === 'PENDING' || t.status === 'REVIEW'),
+    countedAt: iso(t.countedAt),
+    reviewedAt: iso(t.reviewedAt),
+    lines: lines.map((l: any) => ({
+      id: l.id,
+      batchId: l.batchId,
+      batchNumber: l.batch?.batchNumber ?? null,
+      expiresAt: iso(l.batch?.expiresAt ?? null),
+      systemQuantity: opts.showBook ? toNumber(l.systemQuantity) : null,
+      countedQuantity: toNumber(l.countedQuantity),
+      variance: opts.showBook ? toNumber(l.countedQuantity) - toNumber(l.systemQuantity) : null,
+      movementId: l.movementId,
+    })),
+    ...(opts.batches
+      ? {
+          batches: opts.batches.map((b: any) => ({
+            batchId: b.batchId,
+            batchNumber: b.batch?.batchNumber ?? null,
+            expiresAt: iso(b.batch?.expiresAt ?? null),
+            systemQuantity: opts.showBook ? toNumber(b.quantity) : null,
+          })),
+        }
+      : {}),
+  }
+}
+
+async function loadTaskForUpdate(tx: any, tenantId: string, id: string) {
+  const task = await tx.cycleCountTask.findFirst({ where: { id, tenantId }, select: taskSelect })
+  if (!task) {
+    const err = new Error('Not found') as Error & { statusCode?: number }
+    err.statusCode = 404
+    throw err
+  }
+  return task
+}
+
+function monthKey(d: Date): string {
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+export async function registerStockCycleCountRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/stock/cycle-counts/tasks',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const parsed = taskListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const today = startOfDayUtc(new Date())
+      const day = startOfDayUtc(parsed.data.date ?? today)
+
+      const tasks = await db.cycleCountTask.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.status ? { status: parsed.data.status } : {}),
+          ...(parsed.data.warehouseId ? { warehouseId: parsed.data.warehouseId } : {}),
+          OR: [{ scheduledFor: day }, { scheduledFor: { lt: day }, status: { in: ['PENDING', 'REVIEW'] } }],
+        },
+        take: parsed.data.take,
+        orderBy: [{ scheduledFor: 'asc' }, { warehouse: { code: 'asc' } }, { location: { code: 'asc' } }, { abcClass: 'asc' }],
+        select: taskSelect,
+      })
+
+      // Current balances of each pair: the batches the counter should look for.
+      const balances = tasks.length
+        ? await db.inventoryBalance.findMany({
+            where: {
+              tenantId,
+              locationId: { in: Array.from(new Set(tasks.map((t) => t.locationId))) },
+              productId: { in: Array.from(new Set(tasks.map((t) => t.productId))) },
+              quantity: { gt: 0 },
+            },
+            orderBy: [{ batch: { expiresAt: 'asc' } }],
+            select: { locationId: true, productId: true, batchId: true, quantity: true, batch: { select: { batchNumber: true, expiresAt: true } } },
+          })
+        : []
+      const balancesByPair = new Map<string, typeof balances>()
+      for (const b of balances) {
+        const key = `${b.locationId}:${b.productId}`
+        const list = balancesByPair.get(key) ?? []
+        list.push(b)
+        balancesByPair.set(key, list)
+      }
+
+      const showBook = canSeeBookQuantities(request)
+      return reply.send({
+        date: day.toISOString(),
+        items: tasks.map((t) =>
+          taskResponse(t, { today, showBook, batches: t.status === 'PENDING' ? (balancesByPair.get(`${t.locationId}:${t.productId}`) ?? []) : undefined }),
+        ),
+      })
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/tasks/:id/count',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockMove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = taskCountSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const submitted = new Map<string | null, number>()
+      for (const l of parsed.data.lines) {
+        if (submitted.has(l.batchId)) return reply.status(400).send({ message: 'Duplicate batch in lines' })
+        submitted.set(l.batchId, l.countedQuantity)
+      }
+
+      const updated = await db.$transaction(async (tx) => {
+        const task = await loadTaskForUpdate(tx, tenantId, id)
+        if (task.version !== parsed.data.version) throw statusError('Version conflict')
+        if (task.status !== 'PENDING') throw statusError('Only PENDING tasks can be counted')
+
+        const batchIds = Array.from(submitted.keys()).filter((b): b is string => !!b)
+        if (batchIds.length) {
+          const found = await tx.batch.count({ where: { tenantId, productId: task.productId, id: { in: batchIds } } })
+          if (found !== batchIds.length) {
+            const err = new Error('Batch not found') as Error & { statusCode?: number }
+            err.statusCode = 404
+            throw err
+          }
+        }
+
+        const balances = await tx.inventoryBalance.findMany({
+          where: { tenantId, locationId: task.locationId, productId: task.productId },
+          select: { batchId: true, quantity: true },
+        })
+        const system = new Map<string | null, number>(balances.map((b) => [b.batchId, toNumber(b.quantity)] as const))
+
+        const lines: Array<{ batchId: string | null; systemQuantity: number; countedQuantity: number }> = []
+        for (const batchId of new Set([...system.keys(), ...submitted.keys()])) {
+          const systemQuantity = system.get(batchId) ?? 0
+          const countedQuantity = submitted.get(batchId) ?? 0
+          if (systemQuantity === 0 && countedQuantity === 0) continue
+          lines.push({ batchId, systemQuantity, countedQuantity })
+        }
+        const accurate = lines.every((l) => Math.abs(l.countedQuantity - l.systemQuantity) <= 1e-9)
+
+        await tx.cycleCountTaskLine.deleteMany({ where: { taskId: task.id } })
+        if (lines.length) {
+          await tx.cycleCountTaskLine.createMany({
+            data: lines.map((l) => ({
+              tenantId,
+              taskId: task.id,
+              batchId: l.batchId,
+              systemQuantity: l.systemQuantity.toString(),
+              countedQuantity: l.countedQuantity.toString(),
+            })),
+          })
+        }
+
+        return tx.cycleCountTask.update({
+          where: { id: task.id },
+          data: {
+            status: accurate ? 'DONE' : 'REVIEW',
+            // First-count accuracy is the KPI: a recount doesn't change it.
+            ...(task.accurate === null ? { accurate } : {}),
+            countedAt: new Date(),
+            countedBy: userId,
+            version: { increment: 1 },
+          },
+          select: taskSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.cycle_count.count',
+        entityType: 'CycleCountTask',
+        entityId: id,
+        after: { status: updated.status, accurate: updated.accurate, lines: updated.lines },
+      })
+
+      const today = startOfDayUtc(new Date())
+      // The tenant room includes counters, so the broadcast never carries book quantities.
+      app.io?.to(`tenant:${tenantId}`).emit('stock.cycle_count.updated', taskResponse(updated, { today, showBook: false }))
+      return reply.send(taskResponse(updated, { today, showBook: canSeeBookQuantities(request) }))
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/tasks/:id/approve',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockCountApprove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      let result: any
+      try {
+        result = await db.$transaction(async (tx) => {
+          const task = await loadTaskForUpdate(tx, tenantId, id)
+          if (task.version !== parsed.data.version) throw statusError('Version conflict')
+          if (task.status !== 'REVIEW') throw statusError('Only tasks in REVIEW can be approved')
+
+          const createdMovements: any[] = []
+          const changedBalances: any[] = []
+          for (const line of task.lines) {
+            const variance = toNumber(line.countedQuantity) - toNumber(line.systemQuantity)
+            if (Math.abs(variance) <= 1e-9) continue
+
+            const { createdMovement, fromBalance, toBalance } = await createStockMovementTx(tx, {
+              tenantId,
+              userId,
+              type: 'ADJUSTMENT',
+              productId: task.productId,
+              batchId: line.batchId,
+              ...(variance > 0 ? { toLocationId: task.locationId } : { fromLocationId: task.locationId }),
+              quantity: Math.abs(variance),
+              referenceType: 'CYCLE_COUNT',
+              referenceId: task.id,
+              note: `Conteo cíclico ${task.location.code}`,
+            })
+            createdMovements.push(createdMovement)
+            if (fromBalance) changedBalances.push(fromBalance)
+            if (toBalance) changedBalances.push(toBalance)
+
+            await tx.cycleCountTaskLine.update({ where: { id: line.id }, data: { movementId: createdMovement.id }, select: { id: true } })
+          }
+
+          const updated = await tx.cycleCountTask.update({
+            where: { id: task.id },
+            data: { status: 'DONE', reviewedAt: new Date(), reviewedBy: userId, version: { increment: 1 } },
+            select: taskSelect,
+          })
+          return { task: updated, createdMovements, changedBalances }
+        })
+      } catch (e: any) {
+        if (e?.code === 'BATCH_EXPIRED' || e?.code === 'LOCATION_FROZEN') {
+          return reply.status(409).send({ message: e.message, code: e.code, ...e.meta })
+        }
+        throw e
+      }
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.cycle_count.approve',
+        entityType: 'CycleCountTask',
+        entityId: id,
+        after: { task: result.task, movements: result.createdMovements },
+      })
+
+      const today = startOfDayUtc(new Date())
+      const body = taskResponse(result.task, { today, showBook: canSeeBookQuantities(request) })
+      const room = `tenant:${tenantId}`
+      app.io?.to(room).emit('stock.cycle_count.updated', taskResponse(result.task, { today, showBook: false }))
+      for (const m of result.createdMovements) app.io?.to(room).emit('stock.movement.created', m)
+      for (const b of result.changedBalances) app.io?.to(room).emit('stock.balance.changed', b)
+
+      return reply.send({ ...body, adjustments: result.createdMovements.length })
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/tasks/:id/recount',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockCountApprove)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const task = await loadTaskForUpdate(tx, tenantId, id)
+        if (task.version !== parsed.data.version) throw statusError('Version conflict')
+        if (task.status !== 'REVIEW') throw statusError('Only tasks in REVIEW can be recounted')
+
+        await tx.cycleCountTaskLine.deleteMany({ where: { taskId: task.id } })
+        return tx.cycleCountTask.update({
+          where: { id: task.id },
+          data: { status: 'PENDING', countedAt: null, countedBy: null, version: { increment: 1 } },
+          select: taskSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.cycle_count.recount',
+        entityType: 'CycleCountTask',
+        entityId: id,
+        before: { status: 'REVIEW' },
+        after: { status: 'PENDING' },
+      })
+
+      const today = startOfDayUtc(new Date())
+      // The tenant room includes counters, so the broadcast never carries book quantities.
+      app.io?.to(`tenant:${tenantId}`).emit('stock.cycle_count.updated', taskResponse(updated, { today, showBook: false }))
+      return reply.send(taskResponse(updated, { today, showBook: canSeeBookQuantities(request) }))
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/tasks/:id/skip',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = versionSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const updated = await db.$transaction(async (tx) => {
+        const task = await loadTaskForUpdate(tx, tenantId, id)
+        if (task.version !== parsed.data.version) throw statusError('Version conflict')
+        if (task.status !== 'PENDING') throw statusError('Only PENDING tasks can be skipped')
+
+        return tx.cycleCountTask.update({
+          where: { id: task.id },
+          data: { status: 'SKIPPED', reviewedAt: new Date(), reviewedBy: userId, version: { increment: 1 } },
+          select: taskSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'stock.cycle_count.skip',
+        entityType: 'CycleCountTask',
+        entityId: id,
+        before: { status: 'PENDING' },
+        after: { status: 'SKIPPED' },
+      })
+
+      const today = startOfDayUtc(new Date())
+      // The tenant room includes counters, so the broadcast never carries book quantities.
+      app.io?.to(`tenant:${tenantId}`).emit('stock.cycle_count.updated', taskResponse(updated, { today, showBook: false }))
+      return reply.send(taskResponse(updated, { today, showBook: canSeeBookQuantities(request) }))
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/generate',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const parsed = generateSchema.safeParse(request.body ?? {})
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const result = await generateCycleCountTasks(db, tenantId, parsed.data.date ?? new Date())
+
+      if (result.created > 0) {
+        await audit.append({
+          tenantId,
+          actorUserId: request.auth!.userId,
+          action: 'stock.cycle_count.generate',
+          entityType: 'Tenant',
+          entityId: tenantId,
+          after: { scheduledFor: result.scheduledFor, created: result.created },
+        })
+        app.io?.to(`tenant:${tenantId}`).emit('stock.cycle_count.generated', {
+          scheduledFor: result.scheduledFor.toISOString(),
+          created: result.created,
+        })
+      }
+
+      return reply.send({ ...result, scheduledFor: result.scheduledFor.toISOString() })
+    },
+  )
+
+  app.post(
+    '/api/v1/stock/cycle-counts/classify',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const parsed = classifySchema.safeParse(request.body ?? {})
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const result = await classifyProductsAbc(db, tenantId, { days: parsed.data.days })
+
+      await audit.append({
+        tenantId,
+        actorUserId: request.auth!.userId,
+        action: 'stock.cycle_count.classify',
+        entityType: 'Tenant',
+        entityId: tenantId,
+        after: { counts: result.counts, products: result.products },
+        metadata: { days: parsed.data.days, totalSalesValue: result.totalSalesValue },
+      })
+
+      return reply.send({
+        ...result,
+        classifiedAt: result.classifiedAt.toISOString(),
+        since: result.since.toISOString(),
+      })
+    },
+  )
+
+  app.get(
+    '/api/v1/stock/cycle-counts/classes',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const parsed = classListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const cls = parsed.data.class
+      // Effective class: the manual override, else the computed class, else C.
+      const classWhere = cls
+        ? {
+            OR: [
+              { abcClassManual: cls },
+              { abcClassManual: null, abcClass: cls },
+              ...(cls === 'C' ? [{ abcClassManual: null, abcClass: null }] : []),
+            ],
+          }
+        : {}
+
+      const items = await db.product.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+          ...classWhere,
+          ...(parsed.data.q
+            ? {
+                AND: [
+                  {
+                    OR: [
+                      { sku: { contains: parsed.data.q, mode: 'insensitive' as const } },
+                      { name: { contains: parsed.data.q, mode: 'insensitive' as const } },
+                    ],
+                  },
+                ],
+              }
+            : {}),
+        },
+        take: parsed.data.take,
+        ...(parsed.data.cursor ? { skip: 1, cursor: { id: parsed.data.cursor } } : {}),
+        orderBy: [{ abcSalesValue: { sort: 'desc', nulls: 'last' } }, { sku: 'asc' }, { id: 'asc' }],
+        select: {
+          id: true,
+          sku: true,
+          name: true,
+          genericName: true,
+          abcClass: true,
+          abcClassManual: true,
+          abcSalesValue: true,
+          abcClassifiedAt: true,
+        },
+      })
+
+      const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
+      return reply.send({
+        items: items.map((p) => ({
+          ...p,
+          effectiveClass: effectiveAbcClass(p),
+          intervalDays: CYCLE_INTERVAL_DAYS[effectiveAbcClass(p)],
+          abcSalesValue: p.abcSalesValue === null ? null : toNumber(p.abcSalesValue),
+          abcClassifiedAt: iso(p.abcClassifiedAt),
+        })),
+        nextCursor,
+      })
+    },
+  )
+
+  app.put(
+    '/api/v1/stock/cycle-counts/classes/:productId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const productId = (request.params as any).productId as string
+      const parsed = classUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const before = await db.product.findFirst({
+        where: { id: productId, tenantId },
+        select: { id: true, abcClass: true, abcClassManual: true },
+      })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      const updated = await db.product.update({
+        where: { id: before.id },
+        data: { abcClassManual: parsed.data.manualClass },
+        select: { id: true, sku: true, name: true, abcClass: true, abcClassManual: true },
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: request.auth!.userId,
+        action: 'stock.cycle_count.class.update',
+        entityType: 'Product',
+        entityId: productId,
+        before: { abcClassManual: before.abcClassManual },
+        after: { abcClassManual: updated.abcClassManual },
+      })
+
+      return reply.send({ ...updated, effectiveClass: effectiveAbcClass(updated) })
+    },
+  )
+
+  app.get(
+    '/api/v1/stock/cycle-counts/kpis',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockRead)],
+    },
+    async (request, reply) => {
+      const parsed = kpiQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const now = new Date()
+      const today = startOfDayUtc(now)
+      const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (parsed.data.months - 1), 1))
+
+      const [scheduled, counted, adjustedLines, overdue] = await Promise.all([
+        db.cycleCountTask.findMany({
+          where: { tenantId, scheduledFor: { gte: from } },
+          select: { scheduledFor: true, status: true },
+        }),
+        db.cycleCountTask.findMany({
+          where: { tenantId, countedAt: { gte: from }, accurate: { not: null } },
+          select: { countedAt: true, abcClass: true, accurate: true },
+        }),
+        db.cycleCountTaskLine.findMany({
+          where: { tenantId, movementId: { not: null }, task: { reviewedAt: { gte: from } } },
+          select: { systemQuantity: true, countedQuantity: true, task: { select: { reviewedAt: true } } },
+        }),
+        db.cycleCountTask.count({ where: { tenantId, status: 'PENDING', scheduledFor: { lt: today } } }),
+      ])
+
+      type ClassKpi = { counted: number; accurate: number }
+      type MonthKpi = {
+        month: string
+        scheduled: number
+        skipped: number
+        counted: number
+        accurate: number
+        accuracyPct: number | null
+        unitsAdjusted: number
+        byClass: Record<'A' | 'B' | 'C', ClassKpi>
+      }
+
+      const months = new Map<string, MonthKpi>()
+      for (let i = 0; i < parsed.data.months; i++) {
+        const key = monthKey(new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + i, 1)))
+        months.set(key, {
+          month: key,
+          scheduled: 0,
+          skipped: 0,
+          counted: 0,
+          accurate: 0,
+          accuracyPct: null,
+          unitsAdjusted: 0,
+          byClass: { A: { counted: 0, accurate: 0 }, B: { counted: 0, accurate: 0 }, C: { counted: 0, accurate: 0 } },
+        })
+      }
+
+      for (const t of scheduled) {
+        const m = months.get(monthKey(t.scheduledFor))
+        if (!m) continue
+        m.scheduled += 1
+        if (t.status === 'SKIPPED') m.skipped += 1
+      }
+      for (const t of counted) {
+        const m = months.get(monthKey(t.countedAt!))
+        if (!m) continue
+        m.counted += 1
+        m.byClass[t.abcClass].counted += 1
+        if (t.accurate) {
+          m.accurate += 1
+          m.byClass[t.abcClass].accurate += 1
+        }
+      }
+      for (const l of adjustedLines) {
+        const m = l.task.reviewedAt ? months.get(monthKey(l.task.reviewedAt)) : undefined
+        if (!m) continue
+        m.unitsAdjusted += Math.abs(toNumber(l.countedQuantity) - toNumber(l.systemQuantity))
+      }
+
+      const items = Array.from(months.values()).map((m) => ({
+        ...m,
+        accuracyPct: m.counted > 0 ? Math.round((m.accurate / m.counted) * 10000) / 100 : null,
+      }))
+      const totalCounted = items.reduce((acc, m) => acc + m.counted, 0)
+      const totalAccurate = items.reduce((acc, m) => acc + m.accurate, 0)
+
+      return reply.send({
+        from: from.toISOString(),
+        items,
+        totals: {
+          counted: totalCounted,
+          accurate: totalAccurate,
+          accuracyPct: totalCounted > 0 ? Math.round((totalAccurate / totalCounted) * 10000) / 100 : null,
+          overduePending: overdue,
+        },
+      })
+    },
+  )
+}
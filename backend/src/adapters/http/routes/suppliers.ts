@@ -0,0 +1,532 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { prisma } from '../../db/prisma.js'
+import { AuditService } from '../../../application/audit/auditService.js'
+import { requireAuth, requireModuleEnabled, requirePermission } from '../../../application/security/rbac.js'
+import { Permissions } from '../../../application/security/permissions.js'
+import { supplierPerformanceReport } from '../../../application/purchasing/supplierPerformance.js'
+import { toNumber } from '../../../application/shared/numbers.js'
+
+const supplierCreateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  taxId: z.string().trim().max(40).optional(),
+  email: z.string().trim().email().max(200).optional(),
+  phone: z.string().trim().max(40).optional(),
+  address: z.string().trim().max(300).optional(),
+  city: z.string().trim().max(80).optional(),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+  paymentTermDays: z.number().int().min(0).max(365).default(0),
+})
+
+const supplierUpdateSchema = z.object({
+  version: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200).optional(),
+  taxId: z.string().trim().max(40).nullable().optional(),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  address: z.string().trim().max(300).nullable().optional(),
+  city: z.string().trim().max(80).nullable().optional(),
+  leadTimeDays: z.number().int().min(0).max(365).nullable().optional(),
+  paymentTermDays: z.number().int().min(0).max(365).optional(),
+  isActive: z.boolean().optional(),
+})
+
+const supplierListQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const contactCreateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  position: z.string().trim().max(100).optional(),
+  email: z.string().trim().email().max(200).optional(),
+  phone: z.string().trim().max(40).optional(),
+  isPrimary: z.boolean().default(false),
+})
+
+const contactUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  position: z.string().trim().max(100).nullable().optional(),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  isPrimary: z.boolean().optional(),
+})
+
+const productLinkSchema = z.object({
+  supplierSku: z.string().trim().max(80).nullable().optional(),
+  isPreferred: z.boolean().optional(),
+})
+
+const performanceQuerySchema = z.object({
+  supplierId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+// Default window of the performance report when no start date is given.
+const PERFORMANCE_DEFAULT_DAYS = 90
+
+const supplierSelect = {
+  id: true,
+  name: true,
+  taxId: true,
+  email: true,
+  phone: true,
+  address: true,
+  city: true,
+  leadTimeDays: true,
+  paymentTermDays: true,
+  isActive: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
+const contactSelect = {
+  id: true,
+  name: true,
+  position: true,
+  email: true,
+  phone: true,
+  isPrimary: true,
+} as const
+
+const productLinkSelect = {
+  id: true,
+  productId: true,
+  supplierId: true,
+  supplierSku: true,
+  isPreferred: true,
+  lastPurchasePrice: true,
+  lastPurchasedAt: true,
+  updatedAt: true,
+  product: { select: { sku: true, name: true, genericName: true } },
+  supplier: { select: { name: true } },
+} as const
+
+function productLinkResponse(l: any) {
+  return {
+    ...l,
+    lastPurchasePrice: l.lastPurchasePrice === null ? null : toNumber(l.lastPurchasePrice),
+    lastPurchasedAt: l.lastPurchasedAt ? l.lastPurchasedAt.toISOString() : null,
+    updatedAt: l.updatedAt.toISOString(),
+  }
+}
+
+export async function registerSupplierRoutes(app: FastifyInstance): Promise<void> {
+  const db = prisma()
+  const audit = new AuditService(db)
+
+  app.get(
+    '/api/v1/suppliers',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const parsed = supplierListQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const q = parsed.data.q
+      const items = await db.supplier.findMany({
+        where: {
+          tenantId,
+          ...(parsed.data.includeInactive ? {} : { isActive: true }),
+          ...(q
+            ? {
+                OR: [
+                  { name: { contains: q, mode: 'insensitive' as const } },
+                  { taxId: { contains: q, mode: 'insensitive' as const } },
+                ],
+              }
+            : {}),
+        },
+        orderBy: [{ name: 'asc' }],
+        select: { ...supplierSelect, _count: { select: { purchaseOrders: true } } },
+      })
+      return reply.send({
+        items: items.map(({ _count, ...s }) => ({ ...s, purchaseOrdersCount: _count.purchaseOrders })),
+      })
+    },
+  )
+
+  app.post(
+    '/api/v1/suppliers',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const parsed = supplierCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      try {
+        const created = await db.supplier.create({
+          data: {
+            tenantId,
+            name: parsed.data.name,
+            taxId: parsed.data.taxId || null,
+            email: parsed.data.email || null,
+            phone: parsed.data.phone || null,
+            address: parsed.data.address || null,
+            city: parsed.data.city || null,
+            leadTimeDays: parsed.data.leadTimeDays ?? null,
+            paymentTermDays: parsed.data.paymentTermDays,
+            createdBy: userId,
+          },
+          select: supplierSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'purchase.supplier.create',
+          entityType: 'Supplier',
+          entityId: created.id,
+          after: created,
+        })
+
+        return reply.status(201).send(created)
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Supplier name already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.patch(
+    '/api/v1/suppliers/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const parsed = supplierUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.supplier.findFirst({ where: { id, tenantId }, select: supplierSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+      if (before.version !== parsed.data.version) return reply.status(409).send({ message: 'Version conflict' })
+
+      const { version: _version, ...changes } = parsed.data
+      try {
+        const updated = await db.supplier.update({
+          where: { id },
+          data: {
+            ...(changes.name !== undefined ? { name: changes.name } : {}),
+            ...(changes.taxId !== undefined ? { taxId: changes.taxId || null } : {}),
+            ...(changes.email !== undefined ? { email: changes.email || null } : {}),
+            ...(changes.phone !== undefined ? { phone: changes.phone || null } : {}),
+            ...(changes.address !== undefined ? { address: changes.address || null } : {}),
+            ...(changes.city !== undefined ? { city: changes.city || null } : {}),
+            ...(changes.leadTimeDays !== undefined ? { leadTimeDays: changes.leadTimeDays } : {}),
+            ...(changes.paymentTermDays !== undefined ? { paymentTermDays: changes.paymentTermDays } : {}),
+            ...(changes.isActive !== undefined ? { isActive: changes.isActive } : {}),
+            version: { increment: 1 },
+          },
+          select: supplierSelect,
+        })
+
+        await audit.append({
+          tenantId,
+          actorUserId: userId,
+          action: 'purchase.supplier.update',
+          entityType: 'Supplier',
+          entityId: id,
+          before,
+          after: updated,
+        })
+
+        return reply.send(updated)
+      } catch (e: any) {
+        if (typeof e?.code === 'string' && e.code === 'P2002') {
+          return reply.status(409).send({ message: 'Supplier name already exists' })
+        }
+        throw e
+      }
+    },
+  )
+
+  app.get(
+    '/api/v1/suppliers/reports/performance',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const parsed = performanceQuerySchema.safeParse(request.query)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid query', issues: parsed.error.issues })
+
+      const to = parsed.data.to ?? new Date()
+      const from = parsed.data.from ?? new Date(to.getTime() - PERFORMANCE_DEFAULT_DAYS * 24 * 60 * 60 * 1000)
+      if (from > to) return reply.status(400).send({ message: 'from must be before to' })
+
+      const report = await supplierPerformanceReport(db, request.auth!.tenantId, {
+        from,
+        to,
+        ...(parsed.data.supplierId ? { supplierId: parsed.data.supplierId } : {}),
+      })
+      return reply.send(report)
+    },
+  )
+
+  app.get(
+    '/api/v1/suppliers/:id',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const id = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const supplier = await db.supplier.findFirst({
+        where: { id, tenantId },
+        select: {
+          ...supplierSelect,
+          contacts: { orderBy: [{ isPrimary: 'desc' }, { name: 'asc' }], select: contactSelect },
+          products: { orderBy: [{ product: { name: 'asc' } }], select: productLinkSelect },
+        },
+      })
+      if (!supplier) return reply.status(404).send({ message: 'Not found' })
+
+      const { products, ...rest } = supplier
+      return reply.send({ ...rest, products: products.map(productLinkResponse) })
+    },
+  )
+
+  app.post(
+    '/api/v1/suppliers/:id/contacts',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const supplierId = (request.params as any).id as string
+      const parsed = contactCreateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const supplier = await db.supplier.findFirst({ where: { id: supplierId, tenantId }, select: { id: true } })
+      if (!supplier) return reply.status(404).send({ message: 'Supplier not found' })
+
+      const created = await db.$transaction(async (tx) => {
+        // A supplier has at most one primary contact.
+        if (parsed.data.isPrimary) {
+          await tx.supplierContact.updateMany({ where: { supplierId, isPrimary: true }, data: { isPrimary: false } })
+        }
+        return tx.supplierContact.create({
+          data: {
+            tenantId,
+            supplierId,
+            name: parsed.data.name,
+            position: parsed.data.position || null,
+            email: parsed.data.email || null,
+            phone: parsed.data.phone || null,
+            isPrimary: parsed.data.isPrimary,
+          },
+          select: contactSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.supplier.contact.create',
+        entityType: 'Supplier',
+        entityId: supplierId,
+        after: created,
+      })
+
+      return reply.status(201).send(created)
+    },
+  )
+
+  app.patch(
+    '/api/v1/suppliers/:id/contacts/:contactId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const supplierId = (request.params as any).id as string
+      const contactId = (request.params as any).contactId as string
+      const parsed = contactUpdateSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.supplierContact.findFirst({ where: { id: contactId, supplierId, tenantId }, select: contactSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      const updated = await db.$transaction(async (tx) => {
+        if (parsed.data.isPrimary) {
+          await tx.supplierContact.updateMany({ where: { supplierId, isPrimary: true, id: { not: contactId } }, data: { isPrimary: false } })
+        }
+        return tx.supplierContact.update({
+          where: { id: contactId },
+          data: {
+            ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
+            ...(parsed.data.position !== undefined ? { position: parsed.data.position || null } : {}),
+            ...(parsed.data.email !== undefined ? { email: parsed.data.email || null } : {}),
+            ...(parsed.data.phone !== undefined ? { phone: parsed.data.phone || null } : {}),
+            ...(parsed.data.isPrimary !== undefined ? { isPrimary: parsed.data.isPrimary } : {}),
+          },
+          select: contactSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.supplier.contact.update',
+        entityType: 'Supplier',
+        entityId: supplierId,
+        before,
+        after: updated,
+      })
+
+      return reply.send(updated)
+    },
+  )
+
+  app.delete(
+    '/api/v1/suppliers/:id/contacts/:contactId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const supplierId = (request.params as any).id as string
+      const contactId = (request.params as any).contactId as string
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.supplierContact.findFirst({ where: { id: contactId, supplierId, tenantId }, select: contactSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      await db.supplierContact.delete({ where: { id: contactId } })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.supplier.contact.delete',
+        entityType: 'Supplier',
+        entityId: supplierId,
+        before,
+      })
+
+      return reply.status(204).send()
+    },
+  )
+
+  app.get(
+    '/api/v1/products/:id/suppliers',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseRead)],
+    },
+    async (request, reply) => {
+      const productId = (request.params as any).id as string
+      const tenantId = request.auth!.tenantId
+
+      const product = await db.product.findFirst({ where: { id: productId, tenantId }, select: { id: true } })
+      if (!product) return reply.status(404).send({ message: 'Product not found' })
+
+      const items = await db.productSupplier.findMany({
+        where: { tenantId, productId },
+        orderBy: [{ isPreferred: 'desc' }, { supplier: { name: 'asc' } }],
+        select: productLinkSelect,
+      })
+      return reply.send({ items: items.map(productLinkResponse) })
+    },
+  )
+
+  // Links (or updates the link of) a product the supplier sells. The last purchase price is maintained by receipts.
+  app.put(
+    '/api/v1/suppliers/:id/products/:productId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const supplierId = (request.params as any).id as string
+      const productId = (request.params as any).productId as string
+      const parsed = productLinkSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const [supplier, product] = await Promise.all([
+        db.supplier.findFirst({ where: { id: supplierId, tenantId }, select: { id: true } }),
+        db.product.findFirst({ where: { id: productId, tenantId }, select: { id: true } }),
+      ])
+      if (!supplier) return reply.status(404).send({ message: 'Supplier not found' })
+      if (!product) return reply.status(404).send({ message: 'Product not found' })
+
+      const link = await db.$transaction(async (tx) => {
+        // One preferred supplier per product.
+        if (parsed.data.isPreferred) {
+          await tx.productSupplier.updateMany({
+            where: { tenantId, productId, isPreferred: true, supplierId: { not: supplierId } },
+            data: { isPreferred: false },
+          })
+        }
+        const data = {
+          ...(parsed.data.supplierSku !== undefined ? { supplierSku: parsed.data.supplierSku || null } : {}),
+          ...(parsed.data.isPreferred !== undefined ? { isPreferred: parsed.data.isPreferred } : {}),
+        }
+        return tx.productSupplier.upsert({
+          where: { tenantId_productId_supplierId: { tenantId, productId, supplierId } },
+          create: { tenantId, productId, supplierId, ...data },
+          update: data,
+          select: productLinkSelect,
+        })
+      })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.supplier.product.link',
+        entityType: 'Supplier',
+        entityId: supplierId,
+        after: link,
+      })
+
+      return reply.send(productLinkResponse(link))
+    },
+  )
+
+  app.delete(
+    '/api/v1/suppliers/:id/products/:productId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.PurchaseWrite)],
+    },
+    async (request, reply) => {
+      const supplierId = (request.params as any).id as string
+      const productId = (request.params as any).productId as string
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const before = await db.productSupplier.findFirst({ where: { tenantId, supplierId, productId }, select: productLinkSelect })
+      if (!before) return reply.status(404).send({ message: 'Not found' })
+
+      await db.productSupplier.delete({ where: { id: before.id } })
+
+      await audit.append({
+        tenantId,
+        actorUserId: userId,
+        action: 'purchase.supplier.product.unlink',
+        entityType: 'Supplier',
+        entityId: supplierId,
+        before,
+      })
+
+      return reply.status(204).send()
+    },
+  )
+}
@@ -9,17 +9,25 @@ const createWarehouseSchema = z.object({
   code: z.string().trim().min(1).max(32),
   name: z.string().trim().min(1).max(200),
   city: z.string().trim().min(1).max(120),
+  transferLeadDays: z.number().int().min(0).max(60).optional(),
 })
 
 const updateWarehouseSchema = z.object({
   name: z.string().trim().min(1).max(200).optional(),
   city: z.string().trim().min(1).max(120).optional(),
+  transferLeadDays: z.number().int().min(0).max(60).optional(),
   isActive: z.boolean().optional(),
 })
 
 const createLocationSchema = z.object({
   code: z.string().trim().min(1).max(32),
   type: z.enum(['BIN', 'SHELF', 'FLOOR']).default('BIN'),
+  isQuarantine: z.boolean().default(false),
+})
+
+const updateLocationSchema = z.object({
+  isQuarantine: z.boolean().optional(),
+  isActive: z.boolean().optional(),
 })
 
 const listQuerySchema = z.object({
@@ -52,7 +60,7 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
             }
           : {}),
         orderBy: { id: 'asc' },
-        select: { id: true, code: true, name: true, city: true, isActive: true, version: true, updatedAt: true },
+        select: { id: true, code: true, name: true, city: true, transferLeadDays: true, isActive: true, version: true, updatedAt: true },
       })
 
       const warehouseIds = items.map((w) => w.id)
@@ -102,9 +110,10 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
               code: parsed.data.code,
               name: parsed.data.name,
               city: parsed.data.city.toUpperCase(),
+              ...(parsed.data.transferLeadDays !== undefined ? { transferLeadDays: parsed.data.transferLeadDays } : {}),
               createdBy: userId,
             },
-            select: { id: true, code: true, name: true, city: true, isActive: true, version: true, updatedAt: true },
+            select: { id: true, code: true, name: true, city: true, transferLeadDays: true, isActive: true, version: true, updatedAt: true },
           })
 
           // Create default location (BIN-01)
@@ -160,11 +169,12 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
         data: {
           ...(parsed.data.name !== undefined ? { name: parsed.data.name } : {}),
           ...(parsed.data.city !== undefined ? { city: parsed.data.city.toUpperCase() } : {}),
+          ...(parsed.data.transferLeadDays !== undefined ? { transferLeadDays: parsed.data.transferLeadDays } : {}),
           ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
           version: { increment: 1 },
           createdBy: userId,
         },
-        select: { id: true, code: true, name: true, city: true, isActive: true, version: true, updatedAt: true },
+        select: { id: true, code: true, name: true, city: true, transferLeadDays: true, isActive: true, version: true, updatedAt: true },
       })
 
       return reply.send(updated)
@@ -195,7 +205,7 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
             }
           : {}),
         orderBy: { id: 'asc' },
-        select: { id: true, warehouseId: true, code: true, type: true, isActive: true, version: true, updatedAt: true },
+        select: { id: true, warehouseId: true, code: true, type: true, isQuarantine: true, isActive: true, version: true, updatedAt: true },
       })
 
       const nextCursor = items.length === parsed.data.take ? items[items.length - 1]!.id : null
@@ -227,9 +237,10 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
             warehouseId,
             code: parsed.data.code,
             type: parsed.data.type,
+            isQuarantine: parsed.data.isQuarantine,
             createdBy: userId,
           },
-          select: { id: true, warehouseId: true, code: true, type: true, isActive: true, version: true, updatedAt: true },
+          select: { id: true, warehouseId: true, code: true, type: true, isQuarantine: true, isActive: true, version: true, updatedAt: true },
         })
         return reply.status(201).send(created)
       } catch (e: any) {
@@ -240,4 +251,42 @@ export async function registerWarehouseRoutes(app: FastifyInstance): Promise<voi
       }
     },
   )
+
+  // Update location (quarantine designation / activation)
+  app.patch(
+    '/api/v1/warehouses/:id/locations/:locationId',
+    {
+      preHandler: [requireAuth(), requireModuleEnabled(db, 'WAREHOUSE'), requirePermission(Permissions.StockManage)],
+    },
+    async (request, reply) => {
+      const { id: warehouseId, locationId } = request.params as { id: string; locationId: string }
+      const parsed = updateLocationSchema.safeParse(request.body)
+      if (!parsed.success) return reply.status(400).send({ message: 'Invalid request', issues: parsed.error.issues })
+
+      const tenantId = request.auth!.tenantId
+      const userId = request.auth!.userId
+
+      const location = await db.location.findFirst({
+        where: { id: locationId, warehouseId, tenantId },
+        select: { id: true, version: true },
+      })
+      if (!location) return reply.status(404).send({ message: 'Location not found' })
+
+      const updated = await db.location.update({
+        where: {
+          id: locationId,
+          version: location.version, // Optimistic locking
+        },
+        data: {
+          ...(parsed.data.isQuarantine !== undefined ? { isQuarantine: parsed.data.isQuarantine } : {}),
+          ...(parsed.data.isActive !== undefined ? { isActive: parsed.data.isActive } : {}),
+          version: { increment: 1 },
+          createdBy: userId,
+        },
+        select: { id: true, warehouseId: true, code: true, type: true, isQuarantine: true, isActive: true, version: true, updatedAt: true },
+      })
+
+      return reply.send(updated)
+    },
+  )
 }
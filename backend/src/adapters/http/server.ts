@@ -11,11 +11,25 @@ import { registerAuthRoutes } from './routes/auth.js'
 import { registerCatalogRoutes } from './routes/catalog.js'
 import { registerProductRoutes } from './routes/products.js'
 import { registerStockRoutes } from './routes/stock.js'
+import { registerStockCountRoutes } from './routes/stockCounts.js'
+import { registerStockCycleCountRoutes } from './routes/stockCycleCounts.js'
 import { registerWarehouseRoutes } from './routes/warehouses.js'
+import { registerSupplierRoutes } from './routes/suppliers.js'
+import { registerPurchaseOrderRoutes } from './routes/purchaseOrders.js'
 import { registerCustomerRoutes } from './routes/customers.js'
 import { registerSalesOrderRoutes } from './routes/salesOrders.js'
 import { salesQuotesRoutes } from './routes/salesQuotes.js'
 import { registerSalesPaymentRoutes } from './routes/salesPayments.js'
+import { registerPaymentTermRoutes } from './routes/salesPaymentTerms.js'
+import { registerPaymentReminderRoutes } from './routes/salesPaymentReminders.js'
+import { registerSalesInvoiceRoutes } from './routes/salesInvoices.js'
+import { registerSalesTaxRoutes } from './routes/salesTaxes.js'
+import { registerSalesDiscountApprovalRoutes } from './routes/salesDiscountApprovals.js'
+import { registerSalesMarginRoutes } from './routes/salesMargins.js'
+import { registerSalesPromotionRoutes } from './routes/salesPromotions.js'
+import { registerSalesPriceListRoutes } from './routes/salesPriceLists.js'
+import { registerSalesExchangeRateRoutes } from './routes/salesExchangeRates.js'
+import { registerSalesReturnRoutes } from './routes/salesReturns.js'
 import { registerAdminRoutes } from './routes/admin.js'
 import { registerAuditRoutes } from './routes/audit.js'
 import { registerReportRoutes } from './routes/reports.js'
@@ -136,11 +150,25 @@ export async function createHttpServer() {
   await registerCatalogRoutes(app)
   await registerProductRoutes(app)
   await registerStockRoutes(app)
+  await registerStockCountRoutes(app)
+  await registerStockCycleCountRoutes(app)
   await registerWarehouseRoutes(app)
+  await registerSupplierRoutes(app)
+  await registerPurchaseOrderRoutes(app)
   await registerCustomerRoutes(app)
   await registerSalesOrderRoutes(app)
   await salesQuotesRoutes(app)
   await registerSalesPaymentRoutes(app)
+  await registerPaymentTermRoutes(app)
+  await registerPaymentReminderRoutes(app)
+  await registerSalesInvoiceRoutes(app)
+  await registerSalesTaxRoutes(app)
+  await registerSalesDiscountApprovalRoutes(app)
+  await registerSalesMarginRoutes(app)
+  await registerSalesPromotionRoutes(app)
+  await registerSalesPriceListRoutes(app)
+  await registerSalesExchangeRateRoutes(app)
+  await registerSalesReturnRoutes(app)
   await registerWellKnownRoutes(app)
   await registerAdminRoutes(app)
   await registerAuditRoutes(app)
@@ -68,8 +68,9 @@ export function attachSocketIo(app: FastifyInstance): Server {
       const claims = await verifyAccessToken(token, env.JWT_ACCESS_SECRET)
       ;(socket.data as any).tenantId = claims.tenantId
       ;(socket.data as any).userId = claims.sub
-      // Rooms per tenant (and later per warehouse)
+      // Rooms per tenant (and later per warehouse), plus one per user for targeted alerts
       socket.join(`tenant:${claims.tenantId}`)
+      socket.join(`user:${claims.sub}`)
       console.log(`Socket ${socket.id} joined room tenant:${claims.tenantId}`)
       return next()
     } catch (e: any) {
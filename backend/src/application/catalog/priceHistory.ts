@@ -0,0 +1,62 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+
+export type ProductPricing = {
+  price: number | null
+  cost: number | null
+}
+
+function nullableNumber(value: any): number | null {
+  if (value === null || value === undefined) return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Records a price/cost change of a product. No row is written when neither value changed. */
+export async function recordProductPriceChangeTx(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; productId: string; userId: string; before: { price: any; cost: any }; after: { price: any; cost: any }; at?: Date },
+): Promise<void> {
+  const before: ProductPricing = { price: nullableNumber(args.before.price), cost: nullableNumber(args.before.cost) }
+  const after: ProductPricing = { price: nullableNumber(args.after.price), cost: nullableNumber(args.after.cost) }
+  if (before.price === after.price && before.cost === after.cost) return
+
+  await tx.productPriceHistory.create({
+    data: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      effectiveFrom: args.at ?? new Date(),
+      oldPrice: before.price === null ? null : before.price.toString(),
+      newPrice: after.price === null ? null : after.price.toString(),
+      oldCost: before.cost === null ? null : before.cost.toString(),
+      newCost: after.cost === null ? null : after.cost.toString(),
+      createdBy: args.userId,
+    },
+  })
+}
+
+/**
+ * Price and cost of a product effective at `at`: the latest change on or before that date; before the first
+ * recorded change, the values it replaced; with no history, the product's current values.
+ */
+export async function productPricingAt(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  product: { id: string; price: any; cost: any },
+  at: Date,
+): Promise<ProductPricing & { effectiveFrom: Date | null }> {
+  const last = await tx.productPriceHistory.findFirst({
+    where: { tenantId, productId: product.id, effectiveFrom: { lte: at } },
+    orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+    select: { effectiveFrom: true, newPrice: true, newCost: true },
+  })
+  if (last) return { price: nullableNumber(last.newPrice), cost: nullableNumber(last.newCost), effectiveFrom: last.effectiveFrom }
+
+  const next = await tx.productPriceHistory.findFirst({
+    where: { tenantId, productId: product.id, effectiveFrom: { gt: at } },
+    orderBy: [{ effectiveFrom: 'asc' }, { createdAt: 'asc' }],
+    select: { oldPrice: true, oldCost: true },
+  })
+  if (next) return { price: nullableNumber(next.oldPrice), cost: nullableNumber(next.oldCost), effectiveFrom: null }
+
+  return { price: nullableNumber(product.price), cost: nullableNumber(product.cost), effectiveFrom: null }
+}
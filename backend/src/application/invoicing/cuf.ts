@@ -0,0 +1,84 @@
+// CUF (Código Único de Factura) as specified by SIAT; computed locally, no round-trip needed.
+
+// Bolivia has no DST: local time is always UTC-4.
+const BOLIVIA_OFFSET_MS = -4 * 60 * 60 * 1000
+
+function pad(value: number | string, length: number): string {
+  return String(value).padStart(length, '0')
+}
+
+function boliviaParts(date: Date) {
+  const d = new Date(date.getTime() + BOLIVIA_OFFSET_MS)
+  return {
+    y: d.getUTCFullYear(),
+    mo: d.getUTCMonth() + 1,
+    d: d.getUTCDate(),
+    h: d.getUTCHours(),
+    mi: d.getUTCMinutes(),
+    s: d.getUTCSeconds(),
+    ms: d.getUTCMilliseconds(),
+  }
+}
+
+/** `yyyyMMddHHmmssSSS` in Bolivian time (CUF field). */
+export function cufTimestamp(date: Date): string {
+  const p = boliviaParts(date)
+  return `${p.y}${pad(p.mo, 2)}${pad(p.d, 2)}${pad(p.h, 2)}${pad(p.mi, 2)}${pad(p.s, 2)}${pad(p.ms, 3)}`
+}
+
+/** `yyyy-MM-ddTHH:mm:ss.SSS` in Bolivian time (fechaEmision of the XML). */
+export function siatDateTime(date: Date): string {
+  const p = boliviaParts(date)
+  return `${p.y}-${pad(p.mo, 2)}-${pad(p.d, 2)}T${pad(p.h, 2)}:${pad(p.mi, 2)}:${pad(p.s, 2)}.${pad(p.ms, 3)}`
+}
+
+/** SIAT module-11 check digit (weights 2..9 from the right; 10 → 1, 11 → 0). */
+export function mod11CheckDigit(digits: string): string {
+  let sum = 0
+  let weight = 2
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight
+    weight = weight === 9 ? 2 : weight + 1
+  }
+  const dig = sum % 11
+  if (dig === 10) return '1'
+  if (dig === 11) return '0'
+  return String(dig)
+}
+
+export type CufInput = {
+  nit: string
+  issuedAt: Date
+  branchCode: number
+  modality: number
+  // 1 = en línea
+  emissionType: number
+  // 1 = con derecho a crédito fiscal
+  invoiceType: number
+  // 1 = compra-venta
+  sectorDocumentType: number
+  number: number
+  pointOfSale: number
+  cufdControlCode: string
+}
+
+/**
+ * NIT(13) + fecha(17) + sucursal(4) + modalidad(1) + tipo emisión(1) + tipo factura(1)
+ * + documento sector(2) + número(10) + punto de venta(4), plus its mod-11 digit, in base 16,
+ * followed by the CUFD control code.
+ */
+export function computeCuf(input: CufInput): string {
+  const nit = input.nit.replace(/\D/g, '')
+  const digits =
+    pad(nit, 13) +
+    cufTimestamp(input.issuedAt) +
+    pad(input.branchCode, 4) +
+    pad(input.modality, 1) +
+    pad(input.emissionType, 1) +
+    pad(input.invoiceType, 1) +
+    pad(input.sectorDocumentType, 2) +
+    pad(input.number, 10) +
+    pad(input.pointOfSale, 4)
+  const withCheck = digits + mod11CheckDigit(digits)
+  return BigInt(withCheck).toString(16).toUpperCase() + input.cufdControlCode
+}
@@ -0,0 +1,283 @@
+import type { PrismaClient } from '../../generated/prisma/client.js'
+import { isCreditRule, paymentTermRule, paymentTermRuleSelect } from '../sales/paymentTerms.js'
+import { toBaseAmount } from '../sales/exchangeRates.js'
+import { computeCuf } from './cuf.js'
+import { buildInvoiceXml, signInvoiceXml } from './invoiceXml.js'
+import { getSiatAdapter, type SiatBranchRef } from './siatAdapter.js'
+import { toNumber } from '../shared/numbers.js'
+
+export const invoiceSelect = {
+  id: true,
+  number: true,
+  cuf: true,
+  cufd: true,
+  issuedAt: true,
+  issuerNit: true,
+  issuerName: true,
+  customerId: true,
+  customerDocNumber: true,
+  customerName: true,
+  currency: true,
+  total: true,
+  submissionStatus: true,
+  submissionCode: true,
+  submissionMessage: true,
+  submittedAt: true,
+  createdAt: true,
+  salesOrder: { select: { id: true, number: true } },
+  branch: {
+    select: { id: true, branchCode: true, pointOfSale: true, warehouse: { select: { id: true, code: true, name: true, city: true } } },
+  },
+  lines: {
+    select: { id: true, productId: true, productCode: true, description: true, quantity: true, unitPrice: true, subtotal: true },
+  },
+} as const
+
+// Customers without NIT are invoiced under SIAT's "control tributario" document.
+const NO_NIT_DOC_NUMBER = '99002'
+const NO_NIT_NAME = 'CONTROL TRIBUTARIO'
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function httpError(message: string, statusCode: number): Error {
+  const err = new Error(message) as Error & { statusCode?: number }
+  err.statusCode = statusCode
+  return err
+}
+
+function branchRef(settings: { nit: string; modality: number; environment: number }, branch: { branchCode: number; pointOfSale: number }): SiatBranchRef {
+  return {
+    nit: settings.nit,
+    branchCode: branch.branchCode,
+    pointOfSale: branch.pointOfSale,
+    modality: settings.modality,
+    environment: settings.environment,
+  }
+}
+
+/** API shape: numbers instead of decimals, plus the verification link printed as QR. */
+export function invoiceResponse<
+  T extends { issuerNit: string; cuf: string; number: number; total: any; lines: Array<{ quantity: any; unitPrice: any; subtotal: any }> },
+>(invoice: T, environment: number) {
+  return {
+    ...invoice,
+    total: toNumber(invoice.total),
+    lines: invoice.lines.map((l) => ({
+      ...l,
+      quantity: toNumber(l.quantity),
+      unitPrice: toNumber(l.unitPrice),
+      subtotal: toNumber(l.subtotal),
+    })),
+    verificationUrl: getSiatAdapter().verificationUrl({ nit: invoice.issuerNit, cuf: invoice.cuf, number: invoice.number, environment }),
+  }
+}
+
+/** Warehouse the order was delivered from (first OUT movement referencing it). */
+async function deliveryWarehouseId(db: PrismaClient, tenantId: string, orderNumber: string): Promise<string | null> {
+  const movement = await db.stockMovement.findFirst({
+    where: { tenantId, type: 'OUT', referenceType: 'SALES_ORDER', referenceId: orderNumber, fromLocationId: { not: null } },
+    orderBy: { createdAt: 'asc' },
+    select: { fromLocationId: true },
+  })
+  if (!movement?.fromLocationId) return null
+  const location = await db.location.findFirst({ where: { id: movement.fromLocationId, tenantId }, select: { warehouseId: true } })
+  return location?.warehouseId ?? null
+}
+
+/**
+ * Issues the factura of a delivered order. The branch counter is incremented in the same
+ * transaction that stores the invoice, so numbers stay gapless per branch; submission to SIAT
+ * happens after commit and can be retried with `submitInvoice`.
+ */
+export async function issueInvoice(
+  db: PrismaClient,
+  args: { tenantId: string; userId: string; orderId: string; warehouseId?: string | undefined },
+) {
+  const settings = await db.invoicingSettings.findUnique({ where: { tenantId: args.tenantId } })
+  if (!settings) throw httpError('Invoicing settings not configured', 409)
+
+  const order = await db.salesOrder.findFirst({
+    where: { id: args.orderId, tenantId: args.tenantId },
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      paymentMode: true,
+      paymentTerm: { select: paymentTermRuleSelect },
+      exchangeRate: true,
+      customer: { select: { id: true, name: true, businessName: true, nit: true } },
+      invoice: { select: { id: true } },
+      lines: {
+        select: {
+          productId: true,
+          deliveredQuantity: true,
+          unitPrice: true,
+          product: { select: { sku: true, name: true, genericName: true, taxCategory: true } },
+        },
+      },
+    },
+  })
+  if (!order) throw httpError('Not found', 404)
+  if (order.status !== 'FULFILLED') throw httpError('Order must be delivered before invoicing', 409)
+  if (order.invoice) throw httpError('Order already invoiced', 409)
+
+  const warehouseId = args.warehouseId ?? (await deliveryWarehouseId(db, args.tenantId, order.number))
+  if (!warehouseId) throw httpError('Cannot determine the delivery warehouse; provide warehouseId', 400)
+
+  let branch = await db.invoiceBranch.findFirst({ where: { tenantId: args.tenantId, warehouseId } })
+  if (!branch) throw httpError('Warehouse is not configured as an invoicing branch', 409)
+
+  const adapter = getSiatAdapter()
+  const now = new Date()
+  if (!branch.cufd || !branch.cufdControlCode || !branch.cufdExpiresAt || branch.cufdExpiresAt <= now) {
+    const cufd = await adapter.requestCufd(branchRef(settings, branch))
+    branch = await db.invoiceBranch.update({
+      where: { id: branch.id },
+      data: { cufd: cufd.code, cufdControlCode: cufd.controlCode, cufdExpiresAt: cufd.expiresAt },
+    })
+  }
+
+  // Invoices are issued in the tenant currency; orders in another currency are converted at their locked rate.
+  const lines = order.lines
+    .filter((l) => toNumber(l.deliveredQuantity) > 0)
+    .map((l) => {
+      const quantity = toNumber(l.deliveredQuantity)
+      const unitPrice = toBaseAmount(toNumber(l.unitPrice), order.exchangeRate)
+      const generic = (l.product.genericName ?? '').trim()
+      return {
+        productId: l.productId,
+        productCode: l.product.sku,
+        description: generic && generic.toLowerCase() !== l.product.name.toLowerCase() ? `${l.product.name} (${generic})` : l.product.name,
+        quantity,
+        unitPrice,
+        subtotal: roundMoney(quantity * unitPrice),
+        taxed: l.product.taxCategory !== 'EXEMPT',
+      }
+    })
+  if (lines.length === 0) throw httpError('Order has no delivered lines to invoice', 409)
+  const total = roundMoney(lines.reduce((sum, l) => sum + l.subtotal, 0))
+  const taxableTotal = roundMoney(lines.reduce((sum, l) => sum + (l.taxed ? l.subtotal : 0), 0))
+
+  const nit = (order.customer.nit ?? '').trim()
+  const customer = {
+    id: order.customer.id,
+    name: nit ? order.customer.businessName || order.customer.name : NO_NIT_NAME,
+    // 5 = NIT
+    docType: 5,
+    docNumber: nit || NO_NIT_DOC_NUMBER,
+  }
+
+  const [tenant, user] = await Promise.all([
+    db.tenant.findUnique({ where: { id: args.tenantId }, select: { currency: true } }),
+    db.user.findUnique({ where: { id: args.userId }, select: { email: true } }),
+  ])
+
+  const cufdCode = branch.cufd!
+  const cufdControlCode = branch.cufdControlCode!
+  const branchId = branch.id
+
+  const created = await db.$transaction(async (tx) => {
+    const counter = await tx.invoiceBranch.update({
+      where: { id: branchId },
+      data: { lastNumber: { increment: 1 } },
+      select: { lastNumber: true, branchCode: true, pointOfSale: true },
+    })
+    const issuedAt = new Date()
+
+    const cuf = computeCuf({
+      nit: settings.nit,
+      issuedAt,
+      branchCode: counter.branchCode,
+      modality: settings.modality,
+      emissionType: 1,
+      invoiceType: 1,
+      sectorDocumentType: 1,
+      number: counter.lastNumber,
+      pointOfSale: counter.pointOfSale,
+      cufdControlCode,
+    })
+
+    const xml = signInvoiceXml(
+      buildInvoiceXml({
+        issuer: settings,
+        branchCode: counter.branchCode,
+        pointOfSale: counter.pointOfSale,
+        number: counter.lastNumber,
+        cuf,
+        cufd: cufdCode,
+        issuedAt,
+        customer,
+        paymentMethod: isCreditRule(paymentTermRule(order)) ? 6 : 1,
+        total,
+        taxableTotal,
+        issuedBy: user?.email ?? args.userId,
+        lines,
+      }),
+    )
+
+    return tx.invoice.create({
+      data: {
+        tenantId: args.tenantId,
+        branchId,
+        salesOrderId: order.id,
+        customerId: order.customer.id,
+        number: counter.lastNumber,
+        cuf,
+        cufd: cufdCode,
+        issuedAt,
+        issuerNit: settings.nit,
+        issuerName: settings.businessName,
+        customerDocNumber: customer.docNumber,
+        customerName: customer.name,
+        currency: tenant?.currency ?? 'BOB',
+        total: total.toString(),
+        xml,
+        createdBy: args.userId,
+        lines: {
+          create: lines.map((l) => ({
+            tenantId: args.tenantId,
+            productId: l.productId,
+            productCode: l.productCode,
+            description: l.description,
+            quantity: l.quantity.toString(),
+            unitPrice: l.unitPrice.toString(),
+            subtotal: l.subtotal.toString(),
+          })),
+        },
+      },
+      select: { id: true },
+    })
+  })
+
+  return submitInvoice(db, { tenantId: args.tenantId, invoiceId: created.id })
+}
+
+/** Sends a stored invoice to SIAT (best-effort: transport errors leave it PENDING with the message). */
+export async function submitInvoice(db: PrismaClient, args: { tenantId: string; invoiceId: string }) {
+  const invoice = await db.invoice.findFirst({
+    where: { id: args.invoiceId, tenantId: args.tenantId },
+    select: { id: true, cuf: true, xml: true, submissionStatus: true, branch: { select: { branchCode: true, pointOfSale: true } } },
+  })
+  if (!invoice) throw httpError('Not found', 404)
+  if (invoice.submissionStatus === 'ACCEPTED') throw httpError('Invoice already accepted', 409)
+
+  const settings = await db.invoicingSettings.findUnique({ where: { tenantId: args.tenantId } })
+  if (!settings) throw httpError('Invoicing settings not configured', 409)
+
+  let data: { submissionStatus: 'PENDING' | 'ACCEPTED' | 'REJECTED'; submissionCode: string | null; submissionMessage: string | null }
+  try {
+    const result = await getSiatAdapter().submitInvoice({ branch: branchRef(settings, invoice.branch), cuf: invoice.cuf, xml: invoice.xml })
+    data = { submissionStatus: result.status, submissionCode: result.receptionCode, submissionMessage: result.message }
+  } catch (e: any) {
+    data = { submissionStatus: 'PENDING', submissionCode: null, submissionMessage: String(e?.message ?? e).slice(0, 500) }
+  }
+
+  const updated = await db.invoice.update({
+    where: { id: invoice.id },
+    data: { ...data, submittedAt: new Date() },
+    select: invoiceSelect,
+  })
+  return invoiceResponse(updated, settings.environment)
+}
@@ -0,0 +1,182 @@
+import { createHash, createSign, generateKeyPairSync } from 'node:crypto'
+import { getEnv } from '../../shared/env.js'
+import { siatDateTime } from './cuf.js'
+
+export type InvoiceXmlLine = {
+  productCode: string
+  description: string
+  quantity: number
+  unitPrice: number
+  subtotal: number
+}
+
+export type InvoiceXmlInput = {
+  issuer: {
+    nit: string
+    businessName: string
+    municipality: string
+    address: string | null
+    phone: string | null
+    economicActivity: string
+    productCodeSin: string
+    legend: string
+  }
+  branchCode: number
+  pointOfSale: number
+  number: number
+  cuf: string
+  cufd: string
+  issuedAt: Date
+  customer: { id: string; name: string; docType: number; docNumber: string }
+  // SIAT payment method catalogue (1 = efectivo, 6 = pago posterior)
+  paymentMethod: number
+  total: number
+  // Part of the total that bears IVA (exempt products excluded).
+  taxableTotal: number
+  issuedBy: string
+  lines: InvoiceXmlLine[]
+}
+
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#'
+const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#'
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function el(name: string, value: string | number | null): string {
+  if (value === null) return `<${name} xsi:nil="true"></${name}>`
+  return `<${name}>${escapeXml(String(value))}</${name}>`
+}
+
+function amount(n: number): string {
+  return n.toFixed(2)
+}
+
+/**
+ * facturaElectronicaCompraVenta document. It is emitted already in canonical form
+ * (no declaration, no whitespace between tags, expanded empty elements), so the string
+ * is what gets digested when signing.
+ */
+export function buildInvoiceXml(input: InvoiceXmlInput): string {
+  const i = input.issuer
+  const header =
+    '<cabecera>' +
+    el('nitEmisor', i.nit) +
+    el('razonSocialEmisor', i.businessName) +
+    el('municipio', i.municipality) +
+    el('telefono', i.phone) +
+    el('numeroFactura', input.number) +
+    el('cuf', input.cuf) +
+    el('cufd', input.cufd) +
+    el('codigoSucursal', input.branchCode) +
+    el('direccion', i.address ?? '') +
+    el('codigoPuntoVenta', input.pointOfSale) +
+    el('fechaEmision', siatDateTime(input.issuedAt)) +
+    el('nombreRazonSocial', input.customer.name) +
+    el('codigoTipoDocumentoIdentidad', input.customer.docType) +
+    el('numeroDocumento', input.customer.docNumber) +
+    el('complemento', null) +
+    el('codigoCliente', input.customer.id) +
+    el('codigoMetodoPago', input.paymentMethod) +
+    el('numeroTarjeta', null) +
+    el('montoTotal', amount(input.total)) +
+    el('montoTotalSujetoIva', amount(input.taxableTotal)) +
+    el('codigoMoneda', 1) +
+    el('tipoCambio', 1) +
+    el('montoTotalMoneda', amount(input.total)) +
+    el('montoGiftCard', null) +
+    el('descuentoAdicional', null) +
+    el('codigoExcepcion', null) +
+    el('cafc', null) +
+    el('leyenda', i.legend) +
+    el('usuario', input.issuedBy) +
+    el('codigoDocumentoSector', 1) +
+    '</cabecera>'
+
+  const details = input.lines
+    .map(
+      (l) =>
+        '<detalle>' +
+        el('actividadEconomica', i.economicActivity) +
+        el('codigoProductoSin', i.productCodeSin) +
+        el('codigoProducto', l.productCode) +
+        el('descripcion', l.description) +
+        el('cantidad', l.quantity) +
+        el('unidadMedida', 58) +
+        el('precioUnitario', amount(l.unitPrice)) +
+        el('montoDescuento', null) +
+        el('subTotal', amount(l.subtotal)) +
+        el('numeroSerie', null) +
+        el('numeroImei', null) +
+        '</detalle>',
+    )
+    .join('')
+
+  return (
+    '<facturaElectronicaCompraVenta xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="facturaElectronicaCompraVenta.xsd">' +
+    header +
+    details +
+    '</facturaElectronicaCompraVenta>'
+  )
+}
+
+let devKey: { privateKeyPem: string; certificate: string | null } | null = null
+
+function pemBody(pem: string): string {
+  return pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '')
+}
+
+function signingKey(): { privateKeyPem: string; certificate: string | null } {
+  const env = getEnv()
+  if (env.SIAT_SIGNING_KEY_PEM) {
+    return {
+      privateKeyPem: env.SIAT_SIGNING_KEY_PEM.replace(/\\n/g, '\n'),
+      certificate: env.SIAT_SIGNING_CERT_PEM ? pemBody(env.SIAT_SIGNING_CERT_PEM.replace(/\\n/g, '\n')) : null,
+    }
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('Invoice signing key is not configured (SIAT_SIGNING_KEY_PEM)')
+  }
+  // Development: ephemeral key so invoices can be issued against the local stub.
+  if (!devKey) {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    devKey = { privateKeyPem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), certificate: null }
+  }
+  return devKey
+}
+
+/** Appends an enveloped XMLDSig signature (RSA-SHA256, exclusive C14N) to the document element. */
+export function signInvoiceXml(xml: string): string {
+  const key = signingKey()
+  const digest = createHash('sha256').update(xml, 'utf8').digest('base64')
+
+  const signedInfo =
+    `<SignedInfo xmlns="${DSIG_NS}">` +
+    `<CanonicalizationMethod Algorithm="${EXC_C14N}"></CanonicalizationMethod>` +
+    `<SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></SignatureMethod>` +
+    `<Reference URI="">` +
+    `<Transforms>` +
+    `<Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></Transform>` +
+    `<Transform Algorithm="${EXC_C14N}"></Transform>` +
+    `</Transforms>` +
+    `<DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></DigestMethod>` +
+    `<DigestValue>${digest}</DigestValue>` +
+    `</Reference>` +
+    `</SignedInfo>`
+
+  const signer = createSign('RSA-SHA256')
+  signer.update(signedInfo, 'utf8')
+  const signatureValue = signer.sign(key.privateKeyPem, 'base64')
+
+  const keyInfo = key.certificate ? `<KeyInfo><X509Data><X509Certificate>${key.certificate}</X509Certificate></X509Data></KeyInfo>` : ''
+  const signature =
+    `<Signature xmlns="${DSIG_NS}">` +
+    signedInfo.replace(` xmlns="${DSIG_NS}"`, '') +
+    `<SignatureValue>${signatureValue}</SignatureValue>` +
+    keyInfo +
+    `</Signature>`
+
+  const closing = '</facturaElectronicaCompraVenta>'
+  return xml.slice(0, xml.length - closing.length) + signature + closing
+}
@@ -0,0 +1,74 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { getEnv } from '../../shared/env.js'
+
+export type SiatBranchRef = {
+  nit: string
+  branchCode: number
+  pointOfSale: number
+  modality: number
+  environment: number
+}
+
+export type SiatCufd = {
+  code: string
+  // Appended to the CUF of every invoice issued with this CUFD.
+  controlCode: string
+  expiresAt: Date
+}
+
+export type SiatSubmissionResult = {
+  status: 'ACCEPTED' | 'REJECTED'
+  receptionCode: string | null
+  message: string | null
+}
+
+/** Boundary with the tax authority; swap implementations through `SIAT_ADAPTER`. */
+export type SiatAdapter = {
+  // Daily code (CUFD) for a branch / point of sale.
+  requestCufd: (branch: SiatBranchRef) => Promise<SiatCufd>
+  submitInvoice: (input: { branch: SiatBranchRef; cuf: string; xml: string }) => Promise<SiatSubmissionResult>
+  // Public verification link encoded in the printed QR.
+  verificationUrl: (input: { nit: string; cuf: string; number: number; environment: number }) => string
+}
+
+function siatVerificationUrl(input: { nit: string; cuf: string; number: number; environment: number }): string {
+  const host = input.environment === 1 ? 'https://siat.impuestos.gob.bo' : 'https://pilotosiat.impuestos.gob.bo'
+  const params = new URLSearchParams({ nit: input.nit, cuf: input.cuf, numero: String(input.number), t: '2' })
+  return `${host}/consulta/QR?${params}`
+}
+
+/**
+ * Development stand-in: hands out 24h CUFDs and accepts every well-formed signed invoice.
+ * Nothing leaves the process.
+ */
+export function createLocalSiatStub(): SiatAdapter {
+  return {
+    requestCufd: async () => {
+      const code = randomBytes(24).toString('base64url').toUpperCase()
+      const controlCode = createHash('sha256').update(code).digest('hex').slice(0, 14).toUpperCase()
+      return { code, controlCode, expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) }
+    },
+
+    submitInvoice: async ({ cuf, xml }) => {
+      if (!xml.includes(`<cuf>${cuf}</cuf>`) || !xml.includes('<SignatureValue>')) {
+        return { status: 'REJECTED', receptionCode: null, message: 'Documento sin firma o CUF inconsistente' }
+      }
+      return { status: 'ACCEPTED', receptionCode: `STUB-${randomBytes(6).toString('hex').toUpperCase()}`, message: null }
+    },
+
+    verificationUrl: siatVerificationUrl,
+  }
+}
+
+let cached: SiatAdapter | null = null
+
+export function getSiatAdapter(): SiatAdapter {
+  if (cached) return cached
+  const env = getEnv()
+  switch (env.SIAT_ADAPTER) {
+    case 'stub':
+      cached = createLocalSiatStub()
+      break
+  }
+  return cached!
+}
@@ -0,0 +1,25 @@
+import { toNumber } from '../shared/numbers.js'
+// Orders that still expect goods from the supplier.
+export const RECEIVABLE_PO_STATUSES = ['SENT', 'PARTIALLY_RECEIVED'] as const
+
+export type PurchaseLineReceiptStatus = 'PENDING' | 'PARTIAL' | 'COMPLETE' | 'OVER' | 'SHORT'
+
+/** Received minus ordered quantity: positive is an over-receipt, negative is still missing. */
+export function purchaseLineVariance(line: { quantity: any; receivedQuantity: any }): number {
+  return toNumber(line.receivedQuantity) - toNumber(line.quantity)
+}
+
+/**
+ * Receipt state of a PO line. Missing quantity is only a SHORT (under-receipt) once the order is closed; while the
+ * order is open it is still expected.
+ */
+export function purchaseLineReceiptStatus(
+  line: { quantity: any; receivedQuantity: any },
+  orderStatus: string,
+): PurchaseLineReceiptStatus {
+  const variance = purchaseLineVariance(line)
+  if (variance > 1e-9) return 'OVER'
+  if (Math.abs(variance) <= 1e-9) return 'COMPLETE'
+  if (orderStatus === 'CLOSED') return 'SHORT'
+  return toNumber(line.receivedQuantity) > 0 ? 'PARTIAL' : 'PENDING'
+}
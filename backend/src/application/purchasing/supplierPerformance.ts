@@ -0,0 +1,177 @@
+import type { PrismaClient } from '../../generated/prisma/client.js'
+
+const MS_DAY = 24 * 60 * 60 * 1000
+
+// Batch status set by QA when a delivered batch fails inspection.
+const REJECTED_BATCH_STATUS = 'REJECTED'
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function pct(part: number, total: number): number | null {
+  return total > 0 ? round2((part / total) * 100) : null
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null
+}
+
+function stdDev(values: number[]): number | null {
+  const m = mean(values)
+  if (m === null) return null
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / values.length)
+}
+
+type SupplierStats = {
+  supplierId: string
+  receiptLines: number
+  evaluatedLines: number
+  onTimeLines: number
+  daysLate: number[]
+  leadTimes: number[]
+  leadTimeDeviations: number[]
+  batches: number
+  rejectedBatches: number
+}
+
+/**
+ * Delivery performance per supplier over receipts (and batches) dated within [from, to]:
+ * - on-time delivery: receipt lines received by the end of the line's expected day (the order's expected date when the line has none);
+ *   lines without any expected date aren't evaluated.
+ * - lead time: days from sending the order to its first receipt, with the spread (standard deviation) and the
+ *   deviation from the promised lead time (expected date, or the supplier's lead time when the order has none).
+ * - rejected-batch rate: batches from the supplier created in the range that QA rejected.
+ */
+export async function supplierPerformanceReport(
+  db: PrismaClient,
+  tenantId: string,
+  opts: { from: Date; to: Date; supplierId?: string },
+) {
+  const supplierFilter = opts.supplierId ? { supplierId: opts.supplierId } : {}
+
+  const [receiptLines, batches] = await Promise.all([
+    db.goodsReceiptLine.findMany({
+      where: { tenantId, receipt: { receivedAt: { gte: opts.from, lte: opts.to }, purchaseOrder: supplierFilter } },
+      select: {
+        receipt: {
+          select: {
+            receivedAt: true,
+            purchaseOrder: { select: { id: true, supplierId: true, expectedAt: true } },
+          },
+        },
+        purchaseOrderLine: { select: { expectedAt: true } },
+      },
+    }),
+    db.batch.groupBy({
+      by: ['supplierId', 'status'],
+      where: { tenantId, supplierId: opts.supplierId ?? { not: null }, createdAt: { gte: opts.from, lte: opts.to } },
+      _count: { _all: true },
+    }),
+  ])
+
+  const stats = new Map<string, SupplierStats>()
+  const statsFor = (supplierId: string): SupplierStats => {
+    let s = stats.get(supplierId)
+    if (!s) {
+      s = {
+        supplierId,
+        receiptLines: 0,
+        evaluatedLines: 0,
+        onTimeLines: 0,
+        daysLate: [],
+        leadTimes: [],
+        leadTimeDeviations: [],
+        batches: 0,
+        rejectedBatches: 0,
+      }
+      stats.set(supplierId, s)
+    }
+    return s
+  }
+
+  const orderIds = new Set<string>()
+  for (const l of receiptLines) {
+    const order = l.receipt.purchaseOrder
+    orderIds.add(order.id)
+    const s = statsFor(order.supplierId)
+    s.receiptLines += 1
+
+    const due = l.purchaseOrderLine.expectedAt ?? order.expectedAt
+    if (!due) continue
+    s.evaluatedLines += 1
+    const endOfDue = Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate()) + MS_DAY
+    const lateMs = l.receipt.receivedAt.getTime() - endOfDue
+    if (lateMs < 0) s.onTimeLines += 1
+    else s.daysLate.push(Math.ceil((lateMs + 1) / MS_DAY))
+  }
+
+  // Lead time is measured once per order, up to its first receipt (which may predate the range).
+  if (orderIds.size > 0) {
+    const [orders, firstReceipts] = await Promise.all([
+      db.purchaseOrder.findMany({
+        where: { tenantId, id: { in: Array.from(orderIds) }, sentAt: { not: null } },
+        select: { id: true, supplierId: true, sentAt: true, expectedAt: true, supplier: { select: { leadTimeDays: true } } },
+      }),
+      db.goodsReceipt.groupBy({
+        by: ['purchaseOrderId'],
+        where: { tenantId, purchaseOrderId: { in: Array.from(orderIds) } },
+        _min: { receivedAt: true },
+      }),
+    ])
+    const firstReceiptByOrder = new Map(firstReceipts.map((r) => [r.purchaseOrderId, r._min.receivedAt] as const))
+
+    for (const o of orders) {
+      const first = firstReceiptByOrder.get(o.id)
+      if (!first || !o.sentAt || first < opts.from) continue
+      const actual = (first.getTime() - o.sentAt.getTime()) / MS_DAY
+      const s = statsFor(o.supplierId)
+      s.leadTimes.push(actual)
+
+      const promised = o.expectedAt ? (o.expectedAt.getTime() - o.sentAt.getTime()) / MS_DAY : o.supplier.leadTimeDays
+      if (promised !== null) s.leadTimeDeviations.push(actual - promised)
+    }
+  }
+
+  for (const b of batches) {
+    if (!b.supplierId) continue
+    const s = statsFor(b.supplierId)
+    s.batches += b._count._all
+    if (b.status === REJECTED_BATCH_STATUS) s.rejectedBatches += b._count._all
+  }
+
+  const suppliers = await db.supplier.findMany({
+    where: { tenantId, id: { in: Array.from(stats.keys()) } },
+    select: { id: true, name: true, leadTimeDays: true },
+  })
+  const supplierById = new Map(suppliers.map((s) => [s.id, s] as const))
+
+  const items = Array.from(stats.values())
+    .map((s) => {
+      const supplier = supplierById.get(s.supplierId)
+      const avgLeadTime = mean(s.leadTimes)
+      const leadTimeStdDev = stdDev(s.leadTimes)
+      const avgDeviation = mean(s.leadTimeDeviations)
+      const avgDaysLate = mean(s.daysLate)
+      return {
+        supplierId: s.supplierId,
+        supplierName: supplier?.name ?? null,
+        promisedLeadTimeDays: supplier?.leadTimeDays ?? null,
+        receiptLines: s.receiptLines,
+        evaluatedLines: s.evaluatedLines,
+        onTimeLines: s.onTimeLines,
+        onTimePct: pct(s.onTimeLines, s.evaluatedLines),
+        avgDaysLate: avgDaysLate === null ? null : round2(avgDaysLate),
+        orders: s.leadTimes.length,
+        avgLeadTimeDays: avgLeadTime === null ? null : round2(avgLeadTime),
+        leadTimeStdDevDays: leadTimeStdDev === null ? null : round2(leadTimeStdDev),
+        avgLeadTimeDeviationDays: avgDeviation === null ? null : round2(avgDeviation),
+        batches: s.batches,
+        rejectedBatches: s.rejectedBatches,
+        rejectedBatchPct: pct(s.rejectedBatches, s.batches),
+      }
+    })
+    .sort((a, b) => (a.supplierName ?? '').localeCompare(b.supplierName ?? ''))
+
+  return { from: opts.from, to: opts.to, items }
+}
@@ -0,0 +1,155 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { isCreditRule, nextDueAt, paymentTermRule, paymentTermRuleSelect } from './paymentTerms.js'
+import { toBaseAmount } from './exchangeRates.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type CreditHoldReason = 'CREDIT_LIMIT_EXCEEDED' | 'OVERDUE_INVOICES'
+
+export type CreditOverdueItem = {
+  orderId: string
+  number: string
+  dueAt: string
+  daysOverdue: number
+  // In the order currency; everything else in the status is in the tenant currency.
+  currency: string
+  balance: number
+}
+
+export type CustomerCreditStatus = {
+  customerId: string
+  customerName: string
+  creditLimit: number | null
+  overdueToleranceDays: number
+  // Delivered amounts (FULFILLED and PARTIALLY_FULFILLED orders) not yet paid, net of credit notes and payments.
+  openReceivable: number
+  // Confirmed credit orders not fully delivered yet (committed exposure).
+  pendingOrders: number
+  orderAmount: number
+  exposure: number
+  available: number | null
+  overdue: CreditOverdueItem[]
+  reasons: CreditHoldReason[]
+}
+
+const BALANCE_EPSILON = 0.005
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function isCreditPaymentMode(paymentMode: string | null | undefined, paymentTerm?: any | null): boolean {
+  return isCreditRule(paymentTermRule({ paymentMode: paymentMode ?? 'CASH', paymentTerm: paymentTerm ?? null }))
+}
+
+export class CreditHoldError extends Error {
+  statusCode = 409
+  status: CustomerCreditStatus
+  constructor(status: CustomerCreditStatus) {
+    const parts: string[] = []
+    if (status.reasons.includes('CREDIT_LIMIT_EXCEEDED')) parts.push('supera su límite de crédito')
+    if (status.reasons.includes('OVERDUE_INVOICES')) parts.push('tiene facturas vencidas')
+    super(`Retención de crédito: el cliente ${status.customerName} ${parts.join(' y ')}`)
+    this.status = status
+  }
+}
+
+/**
+ * Computes the customer's credit exposure as of now and whether a new credit order of `orderAmount`
+ * must be held. Amounts are in the tenant currency (orders in other currencies at their locked rate).
+ * Returns null when the customer does not exist.
+ */
+export async function computeCustomerCreditStatus(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; customerId: string; orderAmount?: number; excludeOrderId?: string },
+): Promise<CustomerCreditStatus | null> {
+  const customer = await tx.customer.findFirst({
+    where: { id: args.customerId, tenantId: args.tenantId },
+    select: { id: true, name: true, creditLimit: true, overdueToleranceDays: true },
+  })
+  if (!customer) return null
+
+  const orders = await tx.salesOrder.findMany({
+    where: {
+      tenantId: args.tenantId,
+      customerId: customer.id,
+      // paidAt only covers what has been delivered: a paid partial delivery still has its backorder pending,
+      // so only fully delivered orders can be skipped once paid (the balance below decides the rest).
+      OR: [{ status: { in: ['CONFIRMED', 'PARTIALLY_FULFILLED'] } }, { status: 'FULFILLED', paidAt: null }],
+      ...(args.excludeOrderId ? { id: { not: args.excludeOrderId } } : {}),
+    },
+    select: {
+      id: true,
+      number: true,
+      status: true,
+      paymentMode: true,
+      paymentTerm: { select: paymentTermRuleSelect },
+      currency: true,
+      exchangeRate: true,
+      deliveryDate: true,
+      deliveredAt: true,
+      lines: { select: { quantity: true, deliveredQuantity: true, unitPrice: true } },
+      returns: { select: { creditAmount: true } },
+      payments: { select: { amount: true, discountAmount: true } },
+    },
+  })
+
+  const now = new Date()
+  const msDay = 24 * 60 * 60 * 1000
+  const tolerance = Math.max(0, customer.overdueToleranceDays ?? 0)
+
+  let openReceivable = 0
+  let pendingOrders = 0
+  const overdue: CreditOverdueItem[] = []
+
+  for (const o of orders) {
+    const rule = paymentTermRule(o)
+    // Only the undelivered part is pending; whatever was already delivered is receivable below.
+    // Cash orders are settled on delivery and do not commit credit ahead of it.
+    if (o.status !== 'FULFILLED' && isCreditRule(rule)) {
+      pendingOrders += toBaseAmount(
+        o.lines.reduce(
+          (sum, l) => sum + Math.max(0, toNumber(l.quantity) - toNumber(l.deliveredQuantity)) * toNumber(l.unitPrice),
+          0,
+        ),
+        o.exchangeRate,
+      )
+    }
+
+    const gross = o.lines.reduce((sum, l) => sum + toNumber(l.deliveredQuantity) * toNumber(l.unitPrice), 0)
+    const credited = o.returns.reduce((sum, r) => sum + toNumber(r.creditAmount), 0)
+    const paid = o.payments.reduce((sum, p) => sum + toNumber(p.amount) + toNumber(p.discountAmount), 0)
+    const balance = roundMoney(Math.max(0, gross - credited - paid))
+    if (balance < BALANCE_EPSILON) continue
+    openReceivable += toBaseAmount(balance, o.exchangeRate)
+
+    const base = o.deliveredAt ?? o.deliveryDate ?? now
+    // With instalments, the oldest unpaid instalment is what becomes overdue.
+    const dueAt = nextDueAt(rule, base, roundMoney(gross - credited), paid)
+    const daysOverdue = Math.floor((now.getTime() - dueAt.getTime()) / msDay)
+    if (daysOverdue > tolerance) {
+      overdue.push({ orderId: o.id, number: o.number, dueAt: dueAt.toISOString(), daysOverdue, currency: o.currency, balance })
+    }
+  }
+
+  const creditLimit = customer.creditLimit === null ? null : toNumber(customer.creditLimit)
+  const orderAmount = roundMoney(Math.max(0, args.orderAmount ?? 0))
+  const exposure = roundMoney(openReceivable + pendingOrders + orderAmount)
+
+  const reasons: CreditHoldReason[] = []
+  if (creditLimit !== null && exposure > creditLimit + BALANCE_EPSILON) reasons.push('CREDIT_LIMIT_EXCEEDED')
+  if (overdue.length > 0) reasons.push('OVERDUE_INVOICES')
+
+  return {
+    customerId: customer.id,
+    customerName: customer.name,
+    creditLimit,
+    overdueToleranceDays: tolerance,
+    openReceivable: roundMoney(openReceivable),
+    pendingOrders: roundMoney(pendingOrders),
+    orderAmount,
+    exposure,
+    available: creditLimit === null ? null : roundMoney(creditLimit - (openReceivable + pendingOrders)),
+    overdue: overdue.sort((a, b) => b.daysOverdue - a.daysOverdue),
+    reasons,
+  }
+}
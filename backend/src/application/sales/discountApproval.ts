@@ -0,0 +1,113 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { Permissions } from '../security/permissions.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type DiscountLimits = {
+  maxLineDiscountPct: number
+  maxGlobalDiscountPct: number
+}
+
+export type DiscountViolation = {
+  kind: 'LINE' | 'GLOBAL'
+  productId?: string
+  discountPct: number
+  limitPct: number
+}
+
+/**
+ * Discount limits of a user: the most permissive of their roles.
+ * Returns null (unrestricted) when any of the user's roles has no limit configured.
+ */
+export async function resolveDiscountLimits(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; userId: string },
+): Promise<DiscountLimits | null> {
+  const roles = await tx.userRole.findMany({
+    where: { userId: args.userId, role: { tenantId: args.tenantId } },
+    select: { role: { select: { discountLimit: { select: { maxLineDiscountPct: true, maxGlobalDiscountPct: true } } } } },
+  })
+  if (roles.length === 0 || roles.some((r) => !r.role.discountLimit)) return null
+  return {
+    maxLineDiscountPct: Math.max(...roles.map((r) => toNumber(r.role.discountLimit!.maxLineDiscountPct))),
+    maxGlobalDiscountPct: Math.max(...roles.map((r) => toNumber(r.role.discountLimit!.maxGlobalDiscountPct))),
+  }
+}
+
+export function discountViolations(
+  quote: { globalDiscountPct: any; lines: Array<{ productId: string; discountPct: any }> },
+  limits: DiscountLimits,
+): DiscountViolation[] {
+  const violations: DiscountViolation[] = []
+  for (const l of quote.lines) {
+    const pct = toNumber(l.discountPct)
+    if (pct > limits.maxLineDiscountPct) {
+      violations.push({ kind: 'LINE', productId: l.productId, discountPct: pct, limitPct: limits.maxLineDiscountPct })
+    }
+  }
+  const globalPct = toNumber(quote.globalDiscountPct)
+  if (globalPct > limits.maxGlobalDiscountPct) {
+    violations.push({ kind: 'GLOBAL', discountPct: globalPct, limitPct: limits.maxGlobalDiscountPct })
+  }
+  return violations
+}
+
+/**
+ * Re-evaluates the current revision of a quote against the saving user's discount limits.
+ * Over the limit: a PENDING approval is opened for the revision and the quote moves to PENDING_APPROVAL.
+ * Within limits (or the user can approve discounts): the quote stays CREATED.
+ * Either way, requests left open for older revisions are superseded.
+ */
+export async function evaluateQuoteDiscounts(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; quoteId: string; userId: string; permissions: Set<string> },
+): Promise<{ id: string; revision: number; violations: DiscountViolation[] } | null> {
+  const quote = await tx.quote.findFirstOrThrow({
+    where: { id: args.quoteId, tenantId: args.tenantId },
+    select: { id: true, revision: true, globalDiscountPct: true, lines: { select: { productId: true, discountPct: true } } },
+  })
+
+  await tx.quoteApproval.updateMany({
+    where: { tenantId: args.tenantId, quoteId: quote.id, status: 'PENDING' },
+    data: { status: 'SUPERSEDED' },
+  })
+
+  const limits = args.permissions.has(Permissions.SalesDiscountApprove)
+    ? null
+    : await resolveDiscountLimits(tx, { tenantId: args.tenantId, userId: args.userId })
+  const violations = limits ? discountViolations(quote, limits) : []
+
+  if (violations.length === 0) {
+    await tx.quote.updateMany({
+      where: { id: quote.id, tenantId: args.tenantId, status: 'PENDING_APPROVAL' },
+      data: { status: 'CREATED' },
+    })
+    return null
+  }
+
+  const approval = await tx.quoteApproval.create({
+    data: {
+      tenantId: args.tenantId,
+      quoteId: quote.id,
+      revision: quote.revision,
+      violations: violations as any,
+      requestedBy: args.userId,
+    },
+    select: { id: true, revision: true },
+  })
+  await tx.quote.update({ where: { id: quote.id }, data: { status: 'PENDING_APPROVAL' }, select: { id: true } })
+
+  return { ...approval, violations }
+}
+
+/** Active users allowed to decide discount approvals (sales:discount:approve). */
+export async function discountApproverUserIds(tx: Prisma.TransactionClient, tenantId: string): Promise<string[]> {
+  const users = await tx.user.findMany({
+    where: {
+      tenantId,
+      isActive: true,
+      roles: { some: { role: { permissions: { some: { permission: { code: Permissions.SalesDiscountApprove } } } } } },
+    },
+    select: { id: true },
+  })
+  return users.map((u) => u.id)
+}
@@ -0,0 +1,57 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type DocumentCurrency = {
+  currency: string
+  // Tenant currency units per unit of `currency`; 1 for the tenant currency itself.
+  exchangeRate: number
+}
+
+export class ExchangeRateMissingError extends Error {
+  statusCode = 400
+  currency: string
+  constructor(currency: string) {
+    super(`No hay tipo de cambio registrado para ${currency}`)
+    this.currency = currency
+  }
+}
+
+export async function loadTenantCurrency(tx: Prisma.TransactionClient, tenantId: string): Promise<string> {
+  const tenant = await tx.tenant.findUnique({ where: { id: tenantId }, select: { currency: true } })
+  return tenant?.currency ?? 'BOB'
+}
+
+/**
+ * Currency and rate to lock on a document priced at `at`: the latest rate effective on or before that moment.
+ * Omitting the currency (or passing the tenant's) prices in the tenant currency at rate 1.
+ */
+export async function resolveDocumentCurrency(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  currency?: string | null,
+  at = new Date(),
+): Promise<DocumentCurrency> {
+  const base = await loadTenantCurrency(tx, tenantId)
+  const code = (currency ?? '').trim().toUpperCase() || base
+  if (code === base) return { currency: base, exchangeRate: 1 }
+
+  const row = await tx.exchangeRate.findFirst({
+    where: { tenantId, currency: code, effectiveDate: { lte: at } },
+    orderBy: [{ effectiveDate: 'desc' }],
+    select: { rate: true },
+  })
+  const rate = row ? toNumber(row.rate) : 0
+  if (rate <= 0) throw new ExchangeRateMissingError(code)
+  return { currency: code, exchangeRate: rate }
+}
+
+/** Converts an amount in the tenant currency to the document currency. */
+export function fromBaseAmount(amount: number, exchangeRate: number): number {
+  return exchangeRate > 0 ? amount / exchangeRate : amount
+}
+
+/** Converts an amount in the document currency to the tenant currency. */
+export function toBaseAmount(amount: number, exchangeRate: any): number {
+  const rate = toNumber(exchangeRate)
+  return rate > 0 ? amount * rate : amount
+}
@@ -0,0 +1,62 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type MarginFlag = 'BELOW_COST' | 'LOW_MARGIN'
+
+export type LineMargin = {
+  productId: string
+  // Unit price actually charged after line and global discounts, IVA excluded.
+  netUnitPrice: number
+  cost: number | null
+  marginPct: number | null
+  flag: MarginFlag | null
+}
+
+// Used until the tenant saves its own minimum.
+export const DEFAULT_MIN_MARGIN_PCT = 10
+
+function clampPct(value: number): number {
+  return Math.min(100, Math.max(0, value))
+}
+
+export async function loadMinMarginPct(tx: Prisma.TransactionClient, tenantId: string): Promise<number> {
+  const settings = await tx.marginSettings.findUnique({ where: { tenantId }, select: { minMarginPct: true } })
+  return settings ? toNumber(settings.minMarginPct) : DEFAULT_MIN_MARGIN_PCT
+}
+
+/**
+ * Margin of each quote line against the product cost. Margin is on the net price, like the margins report
+ * (IT is not deducted here). Products without a cost and promotion bonus units are not checked.
+ */
+export function quoteLineMargins(
+  quote: {
+    globalDiscountPct: any
+    pricesIncludeTax: boolean
+    lines: Array<{ productId: string; unitPrice: any; discountPct?: any; taxPct?: any; isBonus?: boolean }>
+  },
+  costs: Map<string, any>,
+  minMarginPct: number,
+): LineMargin[] {
+  const gd = clampPct(toNumber(quote.globalDiscountPct)) / 100
+  return quote.lines.map((l) => {
+    const disc = clampPct(toNumber(l.discountPct)) / 100
+    const discounted = toNumber(l.unitPrice) * (1 - disc) * (1 - gd)
+    const netUnitPrice = quote.pricesIncludeTax ? discounted / (1 + Math.max(0, toNumber(l.taxPct)) / 100) : discounted
+    const rawCost = costs.get(l.productId)
+    const cost = rawCost === null || rawCost === undefined || toNumber(rawCost) <= 0 ? null : toNumber(rawCost)
+    if (cost === null || l.isBonus) return { productId: l.productId, netUnitPrice, cost: null, marginPct: null, flag: null }
+
+    const marginPct = netUnitPrice > 0 ? ((netUnitPrice - cost) / netUnitPrice) * 100 : -100
+    const flag: MarginFlag | null = netUnitPrice < cost ? 'BELOW_COST' : marginPct < minMarginPct ? 'LOW_MARGIN' : null
+    return { productId: l.productId, netUnitPrice, cost, marginPct, flag }
+  })
+}
+
+export class BelowCostError extends Error {
+  statusCode = 409
+  lines: LineMargin[]
+  constructor(lines: LineMargin[]) {
+    super(`Venta bajo costo: ${lines.length} producto(s) quedan por debajo de su costo; ajuste precio o descuentos`)
+    this.lines = lines
+  }
+}
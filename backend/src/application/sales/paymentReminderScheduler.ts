@@ -0,0 +1,256 @@
+import type { Server } from 'socket.io'
+import { getMailer } from '../../shared/mailer.js'
+import type { PrismaClient } from '../../generated/prisma/client.js'
+import { Permissions } from '../security/permissions.js'
+import { nextDueAt, paymentTermRule, paymentTermRuleSelect } from './paymentTerms.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type PaymentReminderConfig = {
+  enabled: boolean
+  thresholdDays: number[]
+  emailCustomer: boolean
+}
+
+// Used while a tenant has not saved its own settings.
+export const DEFAULT_PAYMENT_REMINDER_SETTINGS: PaymentReminderConfig = {
+  enabled: true,
+  thresholdDays: [1, 15, 30, 60],
+  emailCustomer: false,
+}
+
+const BALANCE_EPSILON = 0.005
+const MS_DAY = 24 * 60 * 60 * 1000
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** Sorted, de-duplicated, positive thresholds. */
+export function normalizeThresholdDays(days: number[]): number[] {
+  return [...new Set(days.filter((d) => Number.isInteger(d) && d > 0))].sort((a, b) => a - b)
+}
+
+/** Escalation level reached after `daysOverdue` days (1-based); 0 when below the first threshold. */
+export function reminderLevel(thresholdDays: number[], daysOverdue: number): number {
+  return thresholdDays.filter((d) => daysOverdue >= d).length
+}
+
+function reminderEmail(input: {
+  tenant: { name: string; logoUrl: string | null; brandPrimary: string | null; currency: string }
+  // Order currency; the balance is in it.
+  currency: string
+  customerName: string
+  orderNumber: string
+  dueAt: Date
+  daysOverdue: number
+  balance: number
+  level: number
+}): { subject: string; text: string; html: string } {
+  const { tenant } = input
+  const amount = `${input.balance.toFixed(2)} ${input.currency}`
+  const due = input.dueAt.toLocaleDateString('es-BO')
+  const subject =
+    input.level > 1
+      ? `${tenant.name}: aviso de pago vencido (${input.orderNumber})`
+      : `${tenant.name}: recordatorio de pago (${input.orderNumber})`
+
+  const text =
+    `Estimado(a) ${input.customerName},\n\n` +
+    `Le recordamos que la orden ${input.orderNumber} tiene un saldo pendiente de ${amount}, ` +
+    `vencido el ${due} (${input.daysOverdue} día(s) de mora).\n\n` +
+    `Si ya realizó el pago, por favor ignore este mensaje.\n\n` +
+    `Atentamente,\n${tenant.name}\n`
+
+  const color = tenant.brandPrimary || '#0f172a'
+  const logo = tenant.logoUrl ? `<p><img src="${escapeHtml(tenant.logoUrl)}" alt="${escapeHtml(tenant.name)}" style="max-height:48px" /></p>` : ''
+  const html = `
+    ${logo}
+    <h2 style="color:${escapeHtml(color)}">${escapeHtml(tenant.name)}</h2>
+    <p>Estimado(a) ${escapeHtml(input.customerName)},</p>
+    <p>Le recordamos que la orden <strong>${escapeHtml(input.orderNumber)}</strong> tiene un saldo pendiente de
+    <strong>${escapeHtml(amount)}</strong>, vencido el ${escapeHtml(due)} (${input.daysOverdue} día(s) de mora).</p>
+    <p>Si ya realizó el pago, por favor ignore este mensaje.</p>
+    <p>Atentamente,<br/>${escapeHtml(tenant.name)}</p>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+/**
+ * Background job: reminds about FULFILLED orders whose balance is past due.
+ * A reminder is recorded per order, due date and escalation level, so each threshold fires once;
+ * the assigned seller (quote author) and finance users (sales:credit:override) are notified in-app
+ * and, when enabled, the customer is emailed.
+ */
+export function startPaymentReminderScheduler(db: PrismaClient, io?: Server): { stop: () => void } {
+  const mailer = getMailer()
+
+  let stopped = false
+  let inFlight = false
+
+  const tick = async () => {
+    if (stopped) return
+    if (inFlight) return
+    inFlight = true
+
+    try {
+      const now = new Date()
+
+      const tenants = await db.tenant.findMany({
+        where: { isActive: true, modules: { some: { module: 'SALES', enabled: true } } },
+        select: { id: true, name: true, logoUrl: true, brandPrimary: true, currency: true },
+      })
+      const settingsRows = await db.paymentReminderSettings.findMany({
+        where: { tenantId: { in: tenants.map((t) => t.id) } },
+      })
+      const settingsByTenant = new Map(settingsRows.map((s) => [s.tenantId, s] as const))
+
+      for (const tenant of tenants) {
+        const settings = settingsByTenant.get(tenant.id) ?? DEFAULT_PAYMENT_REMINDER_SETTINGS
+        const thresholds = normalizeThresholdDays(settings.thresholdDays)
+        if (!settings.enabled || thresholds.length === 0) continue
+
+        const orders = await db.salesOrder.findMany({
+          where: { tenantId: tenant.id, status: { in: ['PARTIALLY_FULFILLED', 'FULFILLED'] }, paidAt: null },
+          select: {
+            id: true,
+            number: true,
+            customerId: true,
+            paymentMode: true,
+            paymentTerm: { select: paymentTermRuleSelect },
+            currency: true,
+            deliveryDate: true,
+            deliveredAt: true,
+            createdBy: true,
+            customer: { select: { name: true, email: true } },
+            quote: { select: { createdBy: true } },
+            lines: { select: { deliveredQuantity: true, unitPrice: true } },
+            returns: { select: { creditAmount: true } },
+            payments: { select: { amount: true, discountAmount: true } },
+            paymentReminders: { select: { dueAt: true, level: true } },
+          },
+        })
+
+        let financeUserIds: string[] | null = null
+
+        for (const o of orders) {
+          const gross = o.lines.reduce((sum, l) => sum + toNumber(l.deliveredQuantity) * toNumber(l.unitPrice), 0)
+          const credited = o.returns.reduce((sum, r) => sum + toNumber(r.creditAmount), 0)
+          const paid = o.payments.reduce((sum, p) => sum + toNumber(p.amount) + toNumber(p.discountAmount), 0)
+          const total = roundMoney(Math.max(0, gross - credited))
+          const balance = roundMoney(Math.max(0, total - paid))
+          if (balance < BALANCE_EPSILON) continue
+
+          const base = o.deliveredAt ?? o.deliveryDate ?? now
+          // With instalments, each instalment escalates on its own due date.
+          const dueAt = nextDueAt(paymentTermRule(o), base, total, paid)
+          const daysOverdue = Math.floor((now.getTime() - dueAt.getTime()) / MS_DAY)
+          const level = reminderLevel(thresholds, daysOverdue)
+          if (level === 0) continue
+
+          const sentLevel = o.paymentReminders
+            .filter((r) => r.dueAt.getTime() === dueAt.getTime())
+            .reduce((max, r) => Math.max(max, r.level), 0)
+          // Skipped thresholds (e.g. job was down) collapse into the current level.
+          if (level <= sentLevel) continue
+
+          if (financeUserIds === null) {
+            const finance = await db.user.findMany({
+              where: {
+                tenantId: tenant.id,
+                isActive: true,
+                roles: {
+                  some: { role: { permissions: { some: { permission: { code: Permissions.SalesCollectionsManage } } } } },
+                },
+              },
+              select: { id: true },
+            })
+            financeUserIds = finance.map((u) => u.id)
+          }
+
+          const sellerUserId = o.quote?.createdBy ?? o.createdBy ?? null
+          const notifiedUserIds = [...new Set([...(sellerUserId ? [sellerUserId] : []), ...financeUserIds])]
+
+          let emailedTo: string | null = null
+          let emailError: string | null = null
+          const customerEmail = (o.customer.email ?? '').trim()
+          if (settings.emailCustomer && customerEmail) {
+            try {
+              await mailer.sendEmail({
+                to: customerEmail,
+                ...reminderEmail({
+                  tenant,
+                  currency: o.currency,
+                  customerName: o.customer.name,
+                  orderNumber: o.number,
+                  dueAt,
+                  daysOverdue,
+                  balance,
+                  level,
+                }),
+              })
+              emailedTo = customerEmail
+            } catch (e: any) {
+              // Best-effort: SMTP may be missing or the address invalid.
+              emailError = String(e?.message ?? e).slice(0, 500)
+            }
+          }
+
+          const reminder = await db.paymentReminder.create({
+            data: {
+              tenantId: tenant.id,
+              salesOrderId: o.id,
+              customerId: o.customerId,
+              level,
+              thresholdDays: thresholds[level - 1]!,
+              dueAt,
+              daysOverdue,
+              balance: balance.toString(),
+              notifiedUserIds,
+              emailedTo,
+              emailError,
+            },
+            select: { id: true, createdAt: true },
+          })
+
+          // Only the seller and the collections team get the alert, each in their own room.
+          if (notifiedUserIds.length === 0) continue
+          io?.to(notifiedUserIds.map((id) => `user:${id}`)).emit('sales.order.payment.overdue', {
+            id: o.id,
+            number: o.number,
+            customerId: o.customerId,
+            customerName: o.customer.name,
+            dueAt: dueAt.toISOString(),
+            daysOverdue,
+            currency: o.currency,
+            balance,
+            level,
+            escalated: level > 1,
+            sellerUserId,
+            recipientUserIds: notifiedUserIds,
+            reminderId: reminder.id,
+          })
+        }
+      }
+    } finally {
+      inFlight = false
+    }
+  }
+
+  // Run immediately on start, then hourly (thresholds are in days).
+  tick().catch(() => {})
+  const interval = setInterval(() => {
+    tick().catch(() => {})
+  }, 60 * 60_000)
+
+  return {
+    stop: () => {
+      stopped = true
+      clearInterval(interval)
+    },
+  }
+}
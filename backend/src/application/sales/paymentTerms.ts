@@ -0,0 +1,181 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+// Commercial rules of a payment term, as applied to one order.
+export type PaymentTermRule = {
+  id: string | null
+  code: string
+  name: string
+  days: number
+  instalments: number
+  earlyPaymentDays: number
+  earlyPaymentDiscountPct: number
+}
+
+export type PaymentTermInstalment = {
+  index: number
+  dueAt: Date
+  amount: number
+}
+
+// Fields needed to build a rule; use in `select: { paymentTerm: { select: paymentTermRuleSelect } }`.
+export const paymentTermRuleSelect = {
+  id: true,
+  code: true,
+  name: true,
+  days: true,
+  instalments: true,
+  earlyPaymentDays: true,
+  earlyPaymentDiscountPct: true,
+} as const
+
+// Seeded for every tenant; they mirror the legacy CASH / CREDIT_7 / CREDIT_14 payment modes.
+export const DEFAULT_PAYMENT_TERMS = [
+  { code: 'CASH', name: 'Contado', days: 0 },
+  { code: 'CREDIT_7', name: 'Crédito 7 días', days: 7 },
+  { code: 'CREDIT_14', name: 'Crédito 14 días', days: 14 },
+] as const
+
+const BALANCE_EPSILON = 0.005
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function addDaysUtc(date: Date, days: number): Date {
+  const ms = date.getTime() + Math.max(0, days) * 24 * 60 * 60 * 1000
+  return new Date(ms)
+}
+
+/** Legacy parser for free-form payment modes (`CASH`, `CREDIT_<days>`); only used when no term is linked. */
+export function parseCreditDays(paymentMode: string): number {
+  const mode = (paymentMode ?? '').trim().toUpperCase()
+  if (mode === 'CASH') return 0
+  const m = mode.match(/^CREDIT_(\d{1,3})$/)
+  if (!m) return 0
+  const days = Number(m[1])
+  return Number.isFinite(days) ? Math.max(0, days) : 0
+}
+
+/** Resolves the rule of an order/quote: the linked term when present, otherwise the legacy payment mode string. */
+export function paymentTermRule(args: { paymentMode?: string | null; paymentTerm?: any | null }): PaymentTermRule {
+  const t = args.paymentTerm
+  if (t) {
+    return {
+      id: t.id ?? null,
+      code: t.code,
+      name: t.name,
+      days: Math.max(0, toNumber(t.days)),
+      instalments: Math.max(1, toNumber(t.instalments)),
+      earlyPaymentDays: Math.max(0, toNumber(t.earlyPaymentDays)),
+      earlyPaymentDiscountPct: Math.max(0, toNumber(t.earlyPaymentDiscountPct)),
+    }
+  }
+  const code = (args.paymentMode ?? 'CASH').trim().toUpperCase() || 'CASH'
+  const days = parseCreditDays(code)
+  return {
+    id: null,
+    code,
+    name: days > 0 ? `Crédito ${days} días` : 'Contado',
+    days,
+    instalments: 1,
+    earlyPaymentDays: 0,
+    earlyPaymentDiscountPct: 0,
+  }
+}
+
+export function isCreditRule(rule: PaymentTermRule): boolean {
+  return rule.days > 0
+}
+
+/**
+ * Splits `total` into the term's instalments, evenly spaced over its days counted from `base`
+ * (delivery date). The last instalment absorbs rounding.
+ */
+export function instalmentSchedule(rule: PaymentTermRule, base: Date, total: number): PaymentTermInstalment[] {
+  const n = Math.max(1, rule.instalments)
+  const share = roundMoney(total / n)
+  const schedule: PaymentTermInstalment[] = []
+  for (let i = 1; i <= n; i++) {
+    const amount = i === n ? roundMoney(total - share * (n - 1)) : share
+    schedule.push({ index: i, dueAt: addDaysUtc(base, Math.round((rule.days * i) / n)), amount })
+  }
+  return schedule
+}
+
+/** Due date of the first instalment not yet covered by `paid`; the final due date once everything is covered. */
+export function nextDueAt(rule: PaymentTermRule, base: Date, total: number, paid: number): Date {
+  const schedule = instalmentSchedule(rule, base, total)
+  let covered = 0
+  for (const s of schedule) {
+    covered = roundMoney(covered + s.amount)
+    if (paid + BALANCE_EPSILON < covered) return s.dueAt
+  }
+  return schedule[schedule.length - 1]!.dueAt
+}
+
+/** Discount granted when the whole order is settled at `at`, within the early-payment window; 0 otherwise. */
+export function earlyPaymentDiscount(rule: PaymentTermRule, base: Date, total: number, at: Date): number {
+  if (rule.earlyPaymentDiscountPct <= 0) return 0
+  if (at > addDaysUtc(base, rule.earlyPaymentDays)) return 0
+  return roundMoney((total * rule.earlyPaymentDiscountPct) / 100)
+}
+
+/** Creates the default terms for a tenant when missing (idempotent). */
+export async function ensureDefaultPaymentTerms(db: any, tenantId: string): Promise<void> {
+  for (const t of DEFAULT_PAYMENT_TERMS) {
+    await db.paymentTerm.upsert({
+      where: { tenantId_code: { tenantId, code: t.code } },
+      update: {},
+      create: { tenantId, code: t.code, name: t.name, days: t.days },
+    })
+  }
+}
+
+/** Boot task: default terms for every tenant (tenants created before the catalogue existed). */
+export async function ensureDefaultPaymentTermsForAllTenants(db: any): Promise<void> {
+  const tenants = await db.tenant.findMany({ select: { id: true } })
+  for (const t of tenants) await ensureDefaultPaymentTerms(db, t.id)
+}
+
+/**
+ * Resolves the term chosen for a quote: by id, or by code for clients still sending `paymentMode`.
+ * Credit terms must be enabled for the customer. Defaults to the tenant's CASH term.
+ */
+export async function resolvePaymentTerm(
+  tx: Prisma.TransactionClient,
+  args: { tenantId: string; customerId: string; paymentTermId?: string | undefined; paymentMode?: string | undefined },
+) {
+  const code = (args.paymentMode ?? '').trim().toUpperCase()
+  const where = args.paymentTermId
+    ? { id: args.paymentTermId, tenantId: args.tenantId }
+    : { tenantId: args.tenantId, code: code || 'CASH' }
+
+  let term = await tx.paymentTerm.findFirst({
+    where,
+    select: { ...paymentTermRuleSelect, isActive: true },
+  })
+  if (!term && !args.paymentTermId && (code === '' || code === 'CASH')) {
+    await ensureDefaultPaymentTerms(tx, args.tenantId)
+    term = await tx.paymentTerm.findFirst({ where, select: { ...paymentTermRuleSelect, isActive: true } })
+  }
+  if (!term || !term.isActive) {
+    const err = new Error('Payment term not found or inactive') as Error & { statusCode?: number }
+    err.statusCode = 400
+    throw err
+  }
+
+  if (term.days > 0) {
+    const assigned = await tx.customerPaymentTerm.findFirst({
+      where: { tenantId: args.tenantId, customerId: args.customerId, paymentTermId: term.id },
+      select: { id: true },
+    })
+    if (!assigned) {
+      const err = new Error('Payment term not enabled for this customer') as Error & { statusCode?: number }
+      err.statusCode = 400
+      throw err
+    }
+  }
+
+  return term
+}
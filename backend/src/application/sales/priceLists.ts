@@ -0,0 +1,55 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type CustomerPriceList = {
+  id: string
+  code: string
+  name: string
+}
+
+export type CustomerPrices = {
+  priceList: CustomerPriceList | null
+  // productId -> list price valid at the requested date. Products the list does not cover are absent.
+  prices: Map<string, number>
+}
+
+/**
+ * Prices of the customer's active price list valid at `at`. When a product has several valid items,
+ * the one with the latest validFrom wins (items without validFrom are the fallback).
+ */
+export async function resolveCustomerPrices(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  customerId: string,
+  productIds: string[],
+  at = new Date(),
+): Promise<CustomerPrices> {
+  const customer = await tx.customer.findFirst({
+    where: { id: customerId, tenantId },
+    select: { priceList: { select: { id: true, code: true, name: true, isActive: true } } },
+  })
+  const list = customer?.priceList
+  if (!list || !list.isActive) return { priceList: null, prices: new Map() }
+
+  const prices = new Map<string, number>()
+  if (productIds.length > 0) {
+    const items = await tx.priceListItem.findMany({
+      where: {
+        tenantId,
+        priceListId: list.id,
+        productId: { in: productIds },
+        AND: [
+          { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+          { OR: [{ validTo: null }, { validTo: { gte: at } }] },
+        ],
+      },
+      orderBy: [{ validFrom: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+      select: { productId: true, price: true },
+    })
+    for (const item of items) {
+      if (!prices.has(item.productId)) prices.set(item.productId, toNumber(item.price))
+    }
+  }
+
+  return { priceList: { id: list.id, code: list.code, name: list.name }, prices }
+}
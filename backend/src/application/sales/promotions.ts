@@ -0,0 +1,128 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type PromotionRule = {
+  id: string
+  code: string
+  name: string
+  type: 'PERCENT_DISCOUNT' | 'FIXED_DISCOUNT' | 'BONUS_UNITS'
+  minQuantity: number
+  discountPct: number
+  discountAmount: number
+  bonusQuantity: number
+  bonusProductId: string | null
+  productIds: string[]
+}
+
+export type PromotedLine = {
+  productId: string
+  quantity: number
+  unitPrice: number
+  discountPct: number
+  // Unit price before the promotion; null when no promotional price applies.
+  basePrice: number | null
+  promotionId: string | null
+  isBonus: boolean
+}
+
+const QTY_EPSILON = 1e-9
+
+/** Active promotions valid at `at` that cover any of the given products. */
+export async function loadActivePromotions(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  productIds: string[],
+  at = new Date(),
+): Promise<PromotionRule[]> {
+  if (productIds.length === 0) return []
+  const rows = await tx.promotion.findMany({
+    where: {
+      tenantId,
+      isActive: true,
+      validFrom: { lte: at },
+      OR: [{ validTo: null }, { validTo: { gte: at } }],
+      products: { some: { productId: { in: productIds } } },
+    },
+    orderBy: [{ minQuantity: 'asc' }, { code: 'asc' }],
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      type: true,
+      minQuantity: true,
+      discountPct: true,
+      discountAmount: true,
+      bonusQuantity: true,
+      bonusProductId: true,
+      products: { select: { productId: true } },
+    },
+  })
+  return rows.map((p) => ({
+    id: p.id,
+    code: p.code,
+    name: p.name,
+    type: p.type,
+    minQuantity: Math.max(QTY_EPSILON, toNumber(p.minQuantity)),
+    discountPct: toNumber(p.discountPct),
+    discountAmount: toNumber(p.discountAmount),
+    bonusQuantity: toNumber(p.bonusQuantity),
+    bonusProductId: p.bonusProductId,
+    productIds: p.products.map((pp) => pp.productId),
+  }))
+}
+
+function promotionalPrice(promotion: PromotionRule, unitPrice: number): number {
+  if (promotion.type === 'PERCENT_DISCOUNT') return unitPrice * (1 - Math.min(100, Math.max(0, promotion.discountPct)) / 100)
+  if (promotion.type === 'FIXED_DISCOUNT') return Math.max(0, unitPrice - promotion.discountAmount)
+  return unitPrice
+}
+
+/**
+ * Applies promotions to quote lines (unit prices already resolved):
+ * - Discount promotions: each line takes the lowest promotional price among the promotions it qualifies for.
+ * - Bonus promotions: free units are appended as zero-price lines. Promotions on the same products are tiers,
+ *   so only the one granting the most units applies.
+ * A promotion qualifies when the combined quantity of its products reaches minQuantity.
+ */
+export function applyPromotions(
+  lines: Array<{ productId: string; quantity: number; unitPrice: number; discountPct: number }>,
+  promotions: PromotionRule[],
+): PromotedLine[] {
+  const qtyByProduct = new Map<string, number>()
+  for (const l of lines) qtyByProduct.set(l.productId, (qtyByProduct.get(l.productId) ?? 0) + l.quantity)
+  const groupQty = (p: PromotionRule) => p.productIds.reduce((sum, id) => sum + (qtyByProduct.get(id) ?? 0), 0)
+  const qualifies = (p: PromotionRule) => groupQty(p) + QTY_EPSILON >= p.minQuantity
+
+  const promoted: PromotedLine[] = lines.map((l) => {
+    let best: { promotion: PromotionRule; price: number } | null = null
+    for (const p of promotions) {
+      if (p.type === 'BONUS_UNITS' || !p.productIds.includes(l.productId) || !qualifies(p)) continue
+      const price = promotionalPrice(p, l.unitPrice)
+      if (price < (best?.price ?? l.unitPrice)) best = { promotion: p, price }
+    }
+    return best
+      ? { ...l, unitPrice: best.price, basePrice: l.unitPrice, promotionId: best.promotion.id, isBonus: false }
+      : { ...l, basePrice: null, promotionId: null, isBonus: false }
+  })
+
+  const bonuses = promotions
+    .filter((p) => p.type === 'BONUS_UNITS' && p.bonusQuantity > 0 && qualifies(p))
+    .map((p) => ({ promotion: p, units: Math.floor(groupQty(p) / p.minQuantity + QTY_EPSILON) * p.bonusQuantity }))
+    .sort((a, b) => b.units - a.units)
+  const rewarded = new Set<string>()
+  for (const { promotion, units } of bonuses) {
+    if (units <= 0 || promotion.productIds.some((id) => rewarded.has(id))) continue
+    promotion.productIds.forEach((id) => rewarded.add(id))
+    promoted.push({
+      productId: promotion.bonusProductId ?? promotion.productIds[0]!,
+      quantity: units,
+      unitPrice: 0,
+      discountPct: 0,
+      basePrice: null,
+      promotionId: promotion.id,
+      isBonus: true,
+    })
+  }
+
+  return promoted
+}
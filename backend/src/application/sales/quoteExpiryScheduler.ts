@@ -0,0 +1,103 @@
+import type { Server } from 'socket.io'
+import type { PrismaClient } from '../../generated/prisma/client.js'
+import { AuditService } from '../audit/auditService.js'
+import { MS_DAY, scheduleNightly } from '../shared/nightlySchedule.js'
+
+/** End of a quote's validity: validityDays after its prices were last set. */
+export function quoteValidUntil(quote: { pricedAt: Date; validityDays: number }): Date {
+  return new Date(quote.pricedAt.getTime() + quote.validityDays * MS_DAY)
+}
+
+/** True once an open (CREATED) quote has outlived its validity, even if the nightly job has not run yet. */
+export function isQuoteExpired(quote: { status: string; pricedAt: Date; validityDays: number }, now = new Date()): boolean {
+  if (quote.status === 'EXPIRED') return true
+  return quote.status === 'CREATED' && quoteValidUntil(quote).getTime() <= now.getTime()
+}
+
+/**
+ * Background job: moves CREATED quotes past pricedAt + validityDays to EXPIRED.
+ * Expired quotes can no longer be processed until they are re-priced (or edited).
+ */
+export function startQuoteExpiryScheduler(db: PrismaClient, io?: Server): { stop: () => void } {
+  const audit = new AuditService(db)
+
+  let stopped = false
+  let inFlight = false
+
+  const tick = async () => {
+    if (stopped) return
+    if (inFlight) return
+    inFlight = true
+
+    try {
+      const now = new Date()
+
+      const tenants = await db.tenant.findMany({
+        where: { isActive: true, modules: { some: { module: 'SALES', enabled: true } } },
+        select: { id: true },
+      })
+
+      for (const tenant of tenants) {
+        // validityDays is at least 1, so anything priced within the last day is still valid.
+        const candidates = await db.quote.findMany({
+          where: { tenantId: tenant.id, status: 'CREATED', pricedAt: { lte: new Date(now.getTime() - MS_DAY) } },
+          select: {
+            id: true,
+            number: true,
+            customerId: true,
+            createdBy: true,
+            pricedAt: true,
+            validityDays: true,
+            customer: { select: { name: true } },
+          },
+        })
+
+        for (const q of candidates) {
+          if (!isQuoteExpired({ ...q, status: 'CREATED' }, now)) continue
+
+          // Guarded on status so a quote processed/edited meanwhile is left alone.
+          const res = await db.quote.updateMany({
+            where: { id: q.id, tenantId: tenant.id, status: 'CREATED', pricedAt: q.pricedAt },
+            data: { status: 'EXPIRED', closedAt: now, version: { increment: 1 } },
+          })
+          if (res.count === 0) continue
+
+          const validUntil = quoteValidUntil(q)
+          await audit.append({
+            tenantId: tenant.id,
+            action: 'sales.quote.expire',
+            entityType: 'Quote',
+            entityId: q.id,
+            before: { status: 'CREATED' },
+            after: { status: 'EXPIRED', closedAt: now },
+            metadata: { pricedAt: q.pricedAt, validityDays: q.validityDays, validUntil },
+          })
+
+          io?.to(`tenant:${tenant.id}`).emit('sales.quote.expired', {
+            id: q.id,
+            number: q.number,
+            customerId: q.customerId,
+            customerName: q.customer.name,
+            validUntil: validUntil.toISOString(),
+            sellerUserId: q.createdBy ?? null,
+          })
+        }
+      }
+    } finally {
+      inFlight = false
+    }
+  }
+
+  // Run immediately on start (catches up after downtime), then nightly.
+  tick().catch(() => {})
+  const cancel = scheduleNightly(() => {
+    tick().catch(() => {})
+  })
+
+  return {
+    stop: () => {
+      stopped = true
+      cancel()
+    },
+  }
+}
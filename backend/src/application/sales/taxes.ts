@@ -0,0 +1,54 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { toNumber } from '../shared/numbers.js'
+
+// Tenant tax configuration, as applied to quotes and orders.
+export type TaxRates = {
+  // IVA: charged to the customer on taxed products.
+  ivaPct: number
+  // IT: tax on gross sales borne by the seller; only affects margins.
+  itPct: number
+  // Whether entered prices (Product.price, quote unit prices) already include IVA.
+  pricesIncludeTax: boolean
+}
+
+export type TaxSplit = {
+  net: number
+  tax: number
+  gross: number
+}
+
+// Used until the tenant saves its own settings (Bolivian rates, prices with IVA included).
+export const DEFAULT_TAX_RATES: TaxRates = { ivaPct: 13, itPct: 3, pricesIncludeTax: true }
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export async function loadTaxRates(tx: Prisma.TransactionClient, tenantId: string): Promise<TaxRates> {
+  const settings = await tx.taxSettings.findUnique({
+    where: { tenantId },
+    select: { ivaPct: true, itPct: true, pricesIncludeTax: true },
+  })
+  if (!settings) return { ...DEFAULT_TAX_RATES }
+  return { ivaPct: toNumber(settings.ivaPct), itPct: toNumber(settings.itPct), pricesIncludeTax: settings.pricesIncludeTax }
+}
+
+/** Rate applied to a product line: exempt products carry no IVA. */
+export function productTaxPct(taxCategory: string | null | undefined, rates: TaxRates): number {
+  return taxCategory === 'EXEMPT' ? 0 : rates.ivaPct
+}
+
+/**
+ * Splits an amount into net / tax / gross. With tax-inclusive prices the amount is the gross and
+ * the tax is carved out of it; otherwise the amount is the net and tax is added on top.
+ */
+export function splitTax(amount: number, taxPct: number, pricesIncludeTax: boolean): TaxSplit {
+  const rate = Math.max(0, toNumber(taxPct)) / 100
+  if (pricesIncludeTax) {
+    const gross = amount
+    const tax = roundMoney(gross - gross / (1 + rate))
+    return { net: gross - tax, tax, gross }
+  }
+  const tax = roundMoney(amount * rate)
+  return { net: amount, tax, gross: amount + tax }
+}
@@ -0,0 +1,302 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+import { startOfTodayUtc } from '../shared/dates.js'
+import { decimalFromNumber, toNumber } from '../shared/numbers.js'
+
+// Stock reserved outside the order's city for one order line.
+export type CrossCityPortion = {
+  lineId: string
+  productId: string
+  productName: string
+  batchId: string | null
+  fromLocationId: string
+  fromCity: string
+  quantity: number
+  leadDays: number
+}
+
+export type LineSource = { city: string; quantity: number; expectedArrivalAt: string | null }
+
+function addDaysUtc(date: Date, days: number): Date {
+  return new Date(date.getTime() + Math.max(0, days) * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Creates the movement request (linked to the quote and the order) and the transfer plan that ships the
+ * cross-city portion of an order to `city`. Returns the request, its items and the latest expected arrival.
+ */
+export async function createTransferPlan(
+  tx: Prisma.TransactionClient,
+  args: {
+    tenantId: string
+    userId: string
+    orderId: string
+    orderNumber: string
+    quoteId: string | null
+    city: string
+    portions: CrossCityPortion[]
+  },
+) {
+  const todayUtc = startOfTodayUtc()
+
+  const byProduct = new Map<string, { productId: string; productName: string; missing: number }>()
+  for (const p of args.portions) {
+    const entry = byProduct.get(p.productId)
+    if (entry) entry.missing += p.quantity
+    else byProduct.set(p.productId, { productId: p.productId, productName: p.productName, missing: p.quantity })
+  }
+  const items = Array.from(byProduct.values())
+
+  const request = await tx.stockMovementRequest.create({
+    data: {
+      tenantId: args.tenantId,
+      requestedCity: args.city,
+      quoteId: args.quoteId,
+      salesOrderId: args.orderId,
+      requestedBy: args.userId,
+      note: `Traslado para orden ${args.orderNumber}`,
+      items: {
+        create: items.map((it) => ({
+          tenantId: args.tenantId,
+          productId: it.productId,
+          requestedQuantity: decimalFromNumber(it.missing),
+          remainingQuantity: decimalFromNumber(it.missing),
+        })),
+      },
+    },
+    select: { id: true, requestedCity: true, status: true, createdAt: true },
+  })
+
+  let latestArrival: Date | null = null
+  for (const p of args.portions) {
+    const expectedArrivalAt = addDaysUtc(todayUtc, p.leadDays)
+    if (!latestArrival || expectedArrivalAt > latestArrival) latestArrival = expectedArrivalAt
+    await tx.stockTransferPlanLine.create({
+      data: {
+        tenantId: args.tenantId,
+        requestId: request.id,
+        salesOrderLineId: p.lineId,
+        productId: p.productId,
+        batchId: p.batchId,
+        fromLocationId: p.fromLocationId,
+        fromCity: p.fromCity,
+        quantity: decimalFromNumber(p.quantity),
+        expectedArrivalAt,
+      },
+      select: { id: true },
+    })
+  }
+
+  return { request, items, latestArrival }
+}
+
+/**
+ * A transfer that ships planned stock into the order's city carries the order's reservation with it:
+ * the reservation moves from the source balance to the destination balance and the plan line records
+ * the shipped quantity. Returns the balances whose reservedQuantity changed.
+ */
+export async function carryReservationsWithTransfer(
+  tx: Prisma.TransactionClient,
+  args: {
+    tenantId: string
+    userId: string
+    productId: string
+    batchId: string | null
+    fromLocationId: string
+    toBalanceId: string
+    toCity: string
+    quantity: number
+  },
+): Promise<any[]> {
+  const planLines = await tx.stockTransferPlanLine.findMany({
+    where: {
+      tenantId: args.tenantId,
+      productId: args.productId,
+      batchId: args.batchId,
+      fromLocationId: args.fromLocationId,
+      request: { status: 'OPEN', requestedCity: { equals: args.toCity, mode: 'insensitive' } },
+      salesOrderLine: { salesOrder: { status: { in: ['CONFIRMED', 'PARTIALLY_FULFILLED'] } } },
+    },
+    orderBy: [{ expectedArrivalAt: 'asc' }, { createdAt: 'asc' }],
+    select: { id: true, salesOrderLineId: true, quantity: true, shippedQuantity: true, salesOrderLine: { select: { salesOrderId: true } } },
+  })
+
+  const balanceSelect = {
+    id: true,
+    locationId: true,
+    productId: true,
+    batchId: true,
+    quantity: true,
+    reservedQuantity: true,
+    version: true,
+    updatedAt: true,
+  } as const
+
+  const changedBalances: any[] = []
+  let remaining = args.quantity
+  for (const plan of planLines) {
+    if (remaining <= 1e-9) break
+    const pending = toNumber(plan.quantity) - toNumber(plan.shippedQuantity)
+    if (pending <= 1e-9) continue
+
+    const reservation = await tx.salesOrderReservation.findFirst({
+      where: {
+        tenantId: args.tenantId,
+        salesOrderLineId: plan.salesOrderLineId,
+        balance: { locationId: args.fromLocationId, productId: args.productId, batchId: args.batchId },
+      },
+      select: { id: true, inventoryBalanceId: true, quantity: true },
+    })
+    // Released meanwhile (e.g. trimmed on a partial delivery): nothing to carry, so the plan line stays pending
+    // and the quantity is left for the next plan line.
+    if (!reservation) continue
+    const moved = Math.min(pending, remaining, toNumber(reservation.quantity))
+    if (moved <= 1e-9) continue
+    remaining -= moved
+
+    await tx.stockTransferPlanLine.update({
+      where: { id: plan.id },
+      data: { shippedQuantity: { increment: moved } },
+      select: { id: true },
+    })
+
+    if (toNumber(reservation.quantity) - moved <= 1e-9) {
+      await tx.salesOrderReservation.delete({ where: { id: reservation.id } })
+    } else {
+      await tx.salesOrderReservation.update({
+        where: { id: reservation.id },
+        data: { quantity: { decrement: moved } },
+        select: { id: true },
+      })
+    }
+    changedBalances.push(
+      await tx.inventoryBalance.update({
+        where: { id: reservation.inventoryBalanceId },
+        data: { reservedQuantity: { decrement: moved }, version: { increment: 1 }, createdBy: args.userId },
+        select: balanceSelect,
+      }),
+    )
+
+    await tx.salesOrderReservation.upsert({
+      where: {
+        tenantId_salesOrderLineId_inventoryBalanceId: {
+          tenantId: args.tenantId,
+          salesOrderLineId: plan.salesOrderLineId,
+          inventoryBalanceId: args.toBalanceId,
+        },
+      },
+      create: {
+        tenantId: args.tenantId,
+        salesOrderId: plan.salesOrderLine.salesOrderId,
+        salesOrderLineId: plan.salesOrderLineId,
+        inventoryBalanceId: args.toBalanceId,
+        quantity: decimalFromNumber(moved),
+        createdBy: args.userId,
+      },
+      update: { quantity: { increment: moved } },
+      select: { id: true },
+    })
+    changedBalances.push(
+      await tx.inventoryBalance.update({
+        where: { id: args.toBalanceId },
+        data: { reservedQuantity: { increment: moved }, version: { increment: 1 }, createdBy: args.userId },
+        select: balanceSelect,
+      }),
+    )
+  }
+
+  return changedBalances
+}
+
+/** Cancels the order's open transfer requests (the order no longer needs the stock). */
+export async function cancelOrderTransferRequests(tx: Prisma.TransactionClient, args: { tenantId: string; orderId: string }) {
+  await tx.stockMovementRequest.updateMany({
+    where: { tenantId: args.tenantId, salesOrderId: args.orderId, status: 'OPEN' },
+    data: { status: 'CANCELLED' },
+  })
+}
+
+/**
+ * Drops what is still to ship for the given order lines (e.g. the lines were edited or removed): plan lines
+ * keep only their shipped quantity, request items give the same quantity back, and an open request left with
+ * nothing to ship is cancelled.
+ */
+export async function cancelLineTransfers(tx: Prisma.TransactionClient, args: { tenantId: string; lineIds: string[] }) {
+  if (args.lineIds.length === 0) return
+  const planLines = await tx.stockTransferPlanLine.findMany({
+    where: { tenantId: args.tenantId, salesOrderLineId: { in: args.lineIds }, request: { status: 'OPEN' } },
+    select: { id: true, requestId: true, productId: true, quantity: true, shippedQuantity: true },
+  })
+
+  const pendingByItem = new Map<string, { requestId: string; productId: string; pending: number }>()
+  for (const p of planLines) {
+    const shipped = toNumber(p.shippedQuantity)
+    const pending = toNumber(p.quantity) - shipped
+    if (pending <= 1e-9) continue
+    if (shipped <= 1e-9) {
+      await tx.stockTransferPlanLine.delete({ where: { id: p.id } })
+    } else {
+      await tx.stockTransferPlanLine.update({ where: { id: p.id }, data: { quantity: decimalFromNumber(shipped) }, select: { id: true } })
+    }
+    const key = `${p.requestId}:${p.productId}`
+    const entry = pendingByItem.get(key)
+    if (entry) entry.pending += pending
+    else pendingByItem.set(key, { requestId: p.requestId, productId: p.productId, pending })
+  }
+
+  const touchedRequestIds = new Set<string>()
+  for (const { requestId, productId, pending } of pendingByItem.values()) {
+    const items = await tx.stockMovementRequestItem.findMany({
+      where: { tenantId: args.tenantId, requestId, productId, remainingQuantity: { gt: 0 } },
+      select: { id: true, remainingQuantity: true },
+    })
+    let left = pending
+    for (const it of items) {
+      if (left <= 1e-9) break
+      // Other transfers into the city may already have used part of the item.
+      const apply = Math.min(toNumber(it.remainingQuantity), left)
+      left -= apply
+      await tx.stockMovementRequestItem.update({
+        where: { id: it.id },
+        data: { requestedQuantity: { decrement: apply }, remainingQuantity: { decrement: apply } },
+        select: { id: true },
+      })
+    }
+    touchedRequestIds.add(requestId)
+  }
+
+  for (const requestId of touchedRequestIds) {
+    const agg = await tx.stockMovementRequestItem.aggregate({ where: { tenantId: args.tenantId, requestId }, _sum: { remainingQuantity: true } })
+    if (toNumber(agg._sum.remainingQuantity) <= 1e-9) {
+      await tx.stockMovementRequest.update({ where: { id: requestId }, data: { status: 'CANCELLED' }, select: { id: true } })
+    }
+  }
+}
+
+/**
+ * Where a line's units come from: the local portion (order city, no transfer) plus one entry per source city
+ * still to arrive. Shipped plan quantities already count as local.
+ */
+export function lineSources(
+  line: { quantity: any; transferPlanLines?: Array<{ fromCity: string; quantity: any; shippedQuantity: any; expectedArrivalAt: Date }> },
+  city: string | null,
+): LineSource[] {
+  const byCity = new Map<string, LineSource>()
+  let incoming = 0
+  for (const p of line.transferPlanLines ?? []) {
+    const pending = Math.max(0, toNumber(p.quantity) - toNumber(p.shippedQuantity))
+    if (pending <= 1e-9) continue
+    incoming += pending
+    const arrival = p.expectedArrivalAt.toISOString()
+    const entry = byCity.get(p.fromCity)
+    if (entry) {
+      entry.quantity += pending
+      if (!entry.expectedArrivalAt || arrival > entry.expectedArrivalAt) entry.expectedArrivalAt = arrival
+    } else {
+      byCity.set(p.fromCity, { city: p.fromCity, quantity: pending, expectedArrivalAt: arrival })
+    }
+  }
+
+  const local = Math.max(0, toNumber(line.quantity) - incoming)
+  const sources = Array.from(byCity.values())
+  return local > 1e-9 || sources.length === 0 ? [{ city: city ?? '', quantity: local, expectedArrivalAt: null }, ...sources] : sources
+}
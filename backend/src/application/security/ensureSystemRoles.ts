@@ -9,11 +9,21 @@ const SYSTEM_PERMISSION_SPECS: PermissionSpec[] = [
   { code: Permissions.StockRead, module: 'WAREHOUSE' },
   { code: Permissions.StockManage, module: 'WAREHOUSE' },
   { code: Permissions.StockMove, module: 'WAREHOUSE' },
+  { code: Permissions.StockCountApprove, module: 'WAREHOUSE' },
+  { code: Permissions.StockQaRelease, module: 'WAREHOUSE' },
+  { code: Permissions.PurchaseRead, module: 'WAREHOUSE' },
+  { code: Permissions.PurchaseWrite, module: 'WAREHOUSE' },
+  { code: Permissions.PurchaseReceive, module: 'WAREHOUSE' },
   { code: Permissions.AuditRead, module: 'WAREHOUSE' },
   { code: Permissions.SalesOrderRead, module: 'SALES' },
   { code: Permissions.SalesOrderWrite, module: 'SALES' },
   { code: Permissions.SalesDeliveryRead, module: 'SALES' },
   { code: Permissions.SalesDeliveryWrite, module: 'SALES' },
+  { code: Permissions.SalesCreditOverride, module: 'SALES' },
+  { code: Permissions.SalesCollectionsManage, module: 'SALES' },
+  { code: Permissions.SalesInvoiceWrite, module: 'SALES' },
+  { code: Permissions.SalesDiscountApprove, module: 'SALES' },
+  { code: Permissions.SalesMarginOverride, module: 'SALES' },
   { code: Permissions.ReportSalesRead, module: 'SALES' },
   { code: Permissions.ReportStockRead, module: 'WAREHOUSE' },
   { code: Permissions.AdminUsersManage, module: 'SALES' },
@@ -75,6 +85,8 @@ export async function ensureSystemRoles(db: PrismaClient): Promise<void> {
       Permissions.SalesDeliveryRead,
       Permissions.SalesDeliveryWrite,
       Permissions.ReportStockRead,
+      Permissions.PurchaseRead,
+      Permissions.PurchaseReceive,
     ]
 
     const tenantAdminPerms: string[] = [
@@ -83,10 +95,20 @@ export async function ensureSystemRoles(db: PrismaClient): Promise<void> {
       Permissions.StockRead,
       Permissions.StockManage,
       Permissions.StockMove,
+      Permissions.StockCountApprove,
+      Permissions.StockQaRelease,
+      Permissions.PurchaseRead,
+      Permissions.PurchaseWrite,
+      Permissions.PurchaseReceive,
       Permissions.SalesOrderRead,
       Permissions.SalesOrderWrite,
       Permissions.SalesDeliveryRead,
       Permissions.SalesDeliveryWrite,
+      Permissions.SalesCreditOverride,
+      Permissions.SalesCollectionsManage,
+      Permissions.SalesInvoiceWrite,
+      Permissions.SalesDiscountApprove,
+      Permissions.SalesMarginOverride,
       Permissions.ReportSalesRead,
       Permissions.ReportStockRead,
       Permissions.AdminUsersManage,
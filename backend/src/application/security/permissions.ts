@@ -4,10 +4,20 @@ export const Permissions = {
   StockRead: 'stock:read',
   StockManage: 'stock:manage',
   StockMove: 'stock:move',
+  StockCountApprove: 'stock:count:approve',
+  StockQaRelease: 'stock:qa:release',
+  PurchaseRead: 'purchase:read',
+  PurchaseWrite: 'purchase:write',
+  PurchaseReceive: 'purchase:receive',
   SalesOrderRead: 'sales:order:read',
   SalesOrderWrite: 'sales:order:write',
   SalesDeliveryRead: 'sales:delivery:read',
   SalesDeliveryWrite: 'sales:delivery:write',
+  SalesCreditOverride: 'sales:credit:override',
+  SalesCollectionsManage: 'sales:collections:manage',
+  SalesInvoiceWrite: 'sales:invoice:write',
+  SalesDiscountApprove: 'sales:discount:approve',
+  SalesMarginOverride: 'sales:margin:override',
   ReportSalesRead: 'report:sales:read',
   ReportStockRead: 'report:stock:read',
   AdminUsersManage: 'admin:users:manage',
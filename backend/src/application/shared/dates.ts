@@ -0,0 +1,10 @@
+/** ISO timestamp of an optional date column. */
+export function iso(d: Date | null): string | null {
+  return d ? d.toISOString() : null
+}
+
+/** Midnight UTC of the current day. */
+export function startOfTodayUtc(): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0, 0))
+}
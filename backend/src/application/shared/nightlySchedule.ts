@@ -0,0 +1,24 @@
+export const MS_DAY = 24 * 60 * 60 * 1000
+
+// Nightly jobs run at 00:00 Bolivia time (UTC-4).
+const RUN_HOUR_UTC = 4
+
+function msUntilNextRun(now: Date): number {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), RUN_HOUR_UTC))
+  if (next.getTime() <= now.getTime()) next.setUTCDate(next.getUTCDate() + 1)
+  return next.getTime() - now.getTime()
+}
+
+/** Calls run at the next nightly run time and every day after that. Returns a function that cancels it. */
+export function scheduleNightly(run: () => void): () => void {
+  let interval: ReturnType<typeof setInterval> | null = null
+  const timeout = setTimeout(() => {
+    run()
+    interval = setInterval(run, MS_DAY)
+  }, msUntilNextRun(new Date()))
+
+  return () => {
+    clearTimeout(timeout)
+    if (interval) clearInterval(interval)
+  }
+}
@@ -0,0 +1,10 @@
+/** Numeric value of a Prisma Decimal, string or number; 0 when it is not a finite number. */
+export function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) ? n : 0
+}
+
+/** Decimal column value (as a string) for a number. */
+export function decimalFromNumber(value: number): string {
+  return value.toString()
+}
@@ -0,0 +1,54 @@
+import type { BatchStatus } from '../../generated/prisma/enums.js'
+
+export const BATCH_STATUSES = ['QUARANTINE', 'RELEASED', 'REJECTED', 'BLOCKED', 'RECALLED'] as const satisfies readonly BatchStatus[]
+
+// Only released stock can be reserved, suggested by FEFO, picked or moved out.
+export const AVAILABLE_BATCH_STATUS = 'RELEASED' as const satisfies BatchStatus
+
+// REJECTED and RECALLED are terminal; a BLOCKED batch can be released again once the hold is cleared.
+export const BATCH_STATUS_TRANSITIONS: Record<BatchStatus, readonly BatchStatus[]> = {
+  QUARANTINE: ['RELEASED', 'REJECTED'],
+  RELEASED: ['BLOCKED', 'RECALLED'],
+  BLOCKED: ['RELEASED', 'RECALLED'],
+  REJECTED: [],
+  RECALLED: [],
+}
+
+// Reason codes accepted for each target status. OTHER requires a note.
+export const BATCH_STATUS_REASON_CODES: Record<BatchStatus, readonly string[]> = {
+  QUARANTINE: [],
+  RELEASED: ['QA_APPROVED', 'HOLD_CLEARED', 'OTHER'],
+  REJECTED: ['DAMAGED', 'TEMPERATURE_EXCURSION', 'MISSING_DOCUMENTATION', 'FAILED_INSPECTION', 'WRONG_PRODUCT', 'OTHER'],
+  BLOCKED: ['QUALITY_COMPLAINT', 'UNDER_INVESTIGATION', 'REGULATORY_HOLD', 'OTHER'],
+  RECALLED: ['MANUFACTURER_RECALL', 'REGULATORY_RECALL', 'QUALITY_DEFECT', 'OTHER'],
+}
+
+export function canTransitionBatchStatus(from: BatchStatus, to: BatchStatus): boolean {
+  return BATCH_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/** 409 with code BATCH_NOT_RELEASED: stock of the batch can't leave its location until QA releases it. */
+export function batchNotReleasedError(batch: { id: string; batchNumber: string; status: BatchStatus }): Error {
+  const err = new Error(`Lote ${batch.batchNumber} no liberado (${batch.status})`) as Error & {
+    statusCode?: number
+    code?: string
+    meta?: any
+  }
+  err.statusCode = 409
+  err.code = 'BATCH_NOT_RELEASED'
+  err.meta = { batchId: batch.id, batchNumber: batch.batchNumber, status: batch.status }
+  return err
+}
+
+/** 409 with code BATCH_NOT_QUARANTINE: goods receipts only add stock to batches still awaiting QA. */
+export function batchNotQuarantineError(batch: { id: string; batchNumber: string; status: BatchStatus }): Error {
+  const err = new Error(`Lote ${batch.batchNumber} fuera de cuarentena (${batch.status}); la recepción requiere un lote nuevo`) as Error & {
+    statusCode?: number
+    code?: string
+    meta?: any
+  }
+  err.statusCode = 409
+  err.code = 'BATCH_NOT_QUARANTINE'
+  err.meta = { batchId: batch.id, batchNumber: batch.batchNumber, status: batch.status }
+  return err
+}
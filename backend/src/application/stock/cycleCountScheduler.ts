@@ -0,0 +1,79 @@
+import type { Server } from 'socket.io'
+import type { PrismaClient } from '../../generated/prisma/client.js'
+import { AuditService } from '../audit/auditService.js'
+import { scheduleNightly } from '../shared/nightlySchedule.js'
+import { classifyProductsAbc, generateCycleCountTasks } from './cycleCounts.js'
+
+// Sales window used by the monthly ABC re-classification.
+const CLASSIFICATION_DAYS = 365
+
+/**
+ * Background job: re-classifies products (ABC) on the first day of each month, or when a tenant has never been
+ * classified, and generates the day's cycle-count tasks.
+ */
+export function startCycleCountScheduler(db: PrismaClient, io?: Server): { stop: () => void } {
+  const audit = new AuditService(db)
+
+  let stopped = false
+  let inFlight = false
+
+  const tick = async () => {
+    if (stopped) return
+    if (inFlight) return
+    inFlight = true
+
+    try {
+      const now = new Date()
+
+      const tenants = await db.tenant.findMany({
+        where: { isActive: true, modules: { some: { module: 'WAREHOUSE', enabled: true } } },
+        select: { id: true },
+      })
+
+      for (const tenant of tenants) {
+        const classified = await db.product.count({ where: { tenantId: tenant.id, abcClassifiedAt: { not: null } } })
+        if (classified === 0 || now.getUTCDate() === 1) {
+          const result = await classifyProductsAbc(db, tenant.id, { days: CLASSIFICATION_DAYS, now })
+          await audit.append({
+            tenantId: tenant.id,
+            action: 'stock.cycle_count.classify',
+            entityType: 'Tenant',
+            entityId: tenant.id,
+            after: { counts: result.counts, products: result.products },
+            metadata: { days: CLASSIFICATION_DAYS, totalSalesValue: result.totalSalesValue },
+          })
+        }
+
+        const generated = await generateCycleCountTasks(db, tenant.id, now)
+        if (generated.alreadyGenerated || generated.created === 0) continue
+
+        await audit.append({
+          tenantId: tenant.id,
+          action: 'stock.cycle_count.generate',
+          entityType: 'Tenant',
+          entityId: tenant.id,
+          after: { scheduledFor: generated.scheduledFor, created: generated.created },
+        })
+        io?.to(`tenant:${tenant.id}`).emit('stock.cycle_count.generated', {
+          scheduledFor: generated.scheduledFor.toISOString(),
+          created: generated.created,
+        })
+      }
+    } finally {
+      inFlight = false
+    }
+  }
+
+  // Run immediately on start (catches up after downtime), then nightly.
+  tick().catch(() => {})
+  const cancel = scheduleNightly(() => {
+    tick().catch(() => {})
+  })
+
+  return {
+    stop: () => {
+      stopped = true
+      cancel()
+    },
+  }
+}
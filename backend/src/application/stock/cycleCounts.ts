@@ -0,0 +1,175 @@
+import type { PrismaClient } from '../../generated/prisma/client.js'
+import { ACTIVE_COUNT_STATUSES } from './inventoryCounts.js'
+import { toNumber } from '../shared/numbers.js'
+
+export type AbcClassCode = 'A' | 'B' | 'C'
+
+// Days between counts of the same (location, product) pair.
+export const CYCLE_INTERVAL_DAYS: Record<AbcClassCode, number> = { A: 30, B: 90, C: 365 }
+
+// Cumulative share of sales value that closes classes A and B; everything after is C.
+const CLASS_A_SHARE = 0.8
+const CLASS_B_SHARE = 0.95
+
+const MS_DAY = 24 * 60 * 60 * 1000
+
+// Orders that represent actual demand (drafts and cancellations don't).
+const DEMAND_ORDER_STATUSES = ['CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED']
+
+export function startOfDayUtc(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 0, 0, 0, 0))
+}
+
+export function effectiveAbcClass(p: { abcClass: AbcClassCode | null; abcClassManual: AbcClassCode | null }): AbcClassCode {
+  return p.abcClassManual ?? p.abcClass ?? 'C'
+}
+
+/**
+ * Ranks the tenant's active products by sales value (base currency) over the last `days` days and stores the
+ * resulting class on each product. Products without sales are C. Manual overrides are kept as they are.
+ */
+export async function classifyProductsAbc(db: PrismaClient, tenantId: string, opts: { days: number; now?: Date }) {
+  const now = opts.now ?? new Date()
+  const since = new Date(now.getTime() - opts.days * MS_DAY)
+
+  const rows = await db.$queryRaw<Array<{ productId: string; amount: string | null }>>`
+    SELECT
+      sol."productId" as "productId",
+      sum(sol.quantity * sol."unitPrice" * so."exchangeRate")::text as "amount"
+    FROM "SalesOrderLine" sol
+    JOIN "SalesOrder" so
+      ON so.id = sol."salesOrderId"
+      AND so."tenantId" = sol."tenantId"
+    WHERE sol."tenantId" = ${tenantId}
+      AND so.status::text = ANY(${DEMAND_ORDER_STATUSES})
+      AND so."createdAt" >= ${since}
+    GROUP BY sol."productId"
+  `
+  const salesValue = new Map(rows.map((r) => [r.productId, Math.max(0, toNumber(r.amount))] as const))
+
+  const products = await db.product.findMany({ where: { tenantId, isActive: true }, select: { id: true } })
+  const ranked = products
+    .map((p) => ({ id: p.id, value: salesValue.get(p.id) ?? 0 }))
+    .sort((a, b) => b.value - a.value || a.id.localeCompare(b.id))
+  const total = ranked.reduce((acc, p) => acc + p.value, 0)
+
+  const counts: Record<AbcClassCode, number> = { A: 0, B: 0, C: 0 }
+  const updates: Array<{ id: string; abcClass: AbcClassCode; value: number }> = []
+  let cumulative = 0
+  for (const p of ranked) {
+    // The product that crosses a threshold still belongs to the class it started in.
+    const shareBefore = total > 0 ? cumulative / total : 1
+    const abcClass: AbcClassCode = p.value <= 0 ? 'C' : shareBefore < CLASS_A_SHARE ? 'A' : shareBefore < CLASS_B_SHARE ? 'B' : 'C'
+    cumulative += p.value
+    counts[abcClass] += 1
+    updates.push({ id: p.id, abcClass, value: p.value })
+  }
+
+  await db.$transaction(
+    updates.map((u) =>
+      db.product.update({
+        where: { id: u.id },
+        data: { abcClass: u.abcClass, abcSalesValue: u.value.toString(), abcClassifiedAt: now },
+        select: { id: true },
+      }),
+    ),
+  )
+
+  return { classifiedAt: now, since, products: updates.length, totalSalesValue: total, counts }
+}
+
+/**
+ * Builds the day's cycle-count list: (location, product) pairs with stock whose class interval has elapsed since
+ * their last count (cycle task or approved full count). Each class gets a daily quota of pairs/interval so the
+ * work is spread evenly; the oldest counts go first. Idempotent per day.
+ */
+export async function generateCycleCountTasks(db: PrismaClient, tenantId: string, date: Date) {
+  const scheduledFor = startOfDayUtc(date)
+
+  const existing = await db.cycleCountTask.count({ where: { tenantId, scheduledFor } })
+  if (existing > 0) return { scheduledFor, created: 0, alreadyGenerated: true }
+
+  const pairs = await db.inventoryBalance.groupBy({
+    by: ['locationId', 'productId'],
+    where: {
+      tenantId,
+      quantity: { gt: 0 },
+      product: { isActive: true },
+      location: { isActive: true, warehouse: { isActive: true } },
+    },
+  })
+  if (pairs.length === 0) return { scheduledFor, created: 0, alreadyGenerated: false }
+
+  const [locations, products, countLocations, openTasks, lastCycle, lastFull] = await Promise.all([
+    db.location.findMany({
+      where: { tenantId, id: { in: Array.from(new Set(pairs.map((p) => p.locationId))) } },
+      select: { id: true, warehouseId: true },
+    }),
+    db.product.findMany({
+      where: { tenantId, id: { in: Array.from(new Set(pairs.map((p) => p.productId))) } },
+      select: { id: true, abcClass: true, abcClassManual: true },
+    }),
+    // A full count already covers these locations.
+    db.inventoryCountLocation.findMany({
+      where: { tenantId, count: { status: { in: [...ACTIVE_COUNT_STATUSES] } } },
+      select: { locationId: true },
+    }),
+    db.cycleCountTask.findMany({
+      where: { tenantId, status: { in: ['PENDING', 'REVIEW'] } },
+      select: { locationId: true, productId: true },
+    }),
+    db.cycleCountTask.groupBy({
+      by: ['locationId', 'productId'],
+      where: { tenantId, countedAt: { not: null } },
+      _max: { countedAt: true },
+    }),
+    db.inventoryCountLine.groupBy({
+      by: ['locationId', 'productId'],
+      where: { tenantId, countedAt: { not: null }, count: { status: 'APPROVED' } },
+      _max: { countedAt: true },
+    }),
+  ])
+
+  const key = (locationId: string, productId: string) => `${locationId}:${productId}`
+  const warehouseByLocation = new Map(locations.map((l) => [l.id, l.warehouseId] as const))
+  const classByProduct = new Map(products.map((p) => [p.id, effectiveAbcClass(p)] as const))
+  const blockedLocations = new Set(countLocations.map((l) => l.locationId))
+  const openPairs = new Set(openTasks.map((t) => key(t.locationId, t.productId)))
+
+  const lastCounted = new Map<string, Date>()
+  for (const row of [...lastCycle, ...lastFull]) {
+    const at = row._max.countedAt
+    if (!at) continue
+    const k = key(row.locationId, row.productId)
+    const prev = lastCounted.get(k)
+    if (!prev || at > prev) lastCounted.set(k, at)
+  }
+
+  const byClass: Record<AbcClassCode, Array<{ locationId: string; productId: string; lastCountedAt: Date | null }>> = { A: [], B: [], C: [] }
+  const classSize: Record<AbcClassCode, number> = { A: 0, B: 0, C: 0 }
+  for (const p of pairs) {
+    const abcClass = classByProduct.get(p.productId) ?? 'C'
+    classSize[abcClass] += 1
+
+    const k = key(p.locationId, p.productId)
+    if (blockedLocations.has(p.locationId) || openPairs.has(k)) continue
+    const lastCountedAt = lastCounted.get(k) ?? null
+    const dueFrom = scheduledFor.getTime() - CYCLE_INTERVAL_DAYS[abcClass] * MS_DAY
+    if (lastCountedAt && startOfDayUtc(lastCountedAt).getTime() > dueFrom) continue
+    byClass[abcClass].push({ locationId: p.locationId, productId: p.productId, lastCountedAt })
+  }
+
+  const data: Array<{ tenantId: string; scheduledFor: Date; warehouseId: string; locationId: string; productId: string; abcClass: AbcClassCode }> = []
+  for (const abcClass of ['A', 'B', 'C'] as const) {
+    const quota = Math.ceil(classSize[abcClass] / CYCLE_INTERVAL_DAYS[abcClass])
+    const due = byClass[abcClass].sort((a, b) => (a.lastCountedAt?.getTime() ?? 0) - (b.lastCountedAt?.getTime() ?? 0))
+    for (const p of due.slice(0, quota)) {
+      const warehouseId = warehouseByLocation.get(p.locationId)
+      if (!warehouseId) continue
+      data.push({ tenantId, scheduledFor, warehouseId, locationId: p.locationId, productId: p.productId, abcClass })
+    }
+  }
+
+  const res = data.length > 0 ? await db.cycleCountTask.createMany({ data, skipDuplicates: true }) : { count: 0 }
+  return { scheduledFor, created: res.count, alreadyGenerated: false }
+}
@@ -0,0 +1,40 @@
+import type { Prisma } from '../../generated/prisma/client.js'
+
+// A count is "active" until it is approved or cancelled; only active counts freeze movements.
+export const ACTIVE_COUNT_STATUSES = ['OPEN', 'SUBMITTED'] as const
+
+/**
+ * Rejects stock changes on locations under an active count with frozen movements.
+ * The count's own adjustments are posted after it leaves the active statuses.
+ */
+export async function assertLocationsNotFrozen(tx: Prisma.TransactionClient, tenantId: string, locationIds: string[]): Promise<void> {
+  if (locationIds.length === 0) return
+  const frozen = await tx.inventoryCountLocation.findFirst({
+    where: {
+      tenantId,
+      locationId: { in: locationIds },
+      count: { freezeMovements: true, status: { in: [...ACTIVE_COUNT_STATUSES] } },
+    },
+    select: { locationId: true, count: { select: { id: true, number: true } } },
+  })
+  if (!frozen) return
+
+  const err = new Error(`Ubicación bloqueada por el conteo físico ${frozen.count.number}`) as Error & {
+    statusCode?: number
+    code?: string
+    meta?: any
+  }
+  err.statusCode = 409
+  err.code = 'LOCATION_FROZEN'
+  err.meta = { countId: frozen.count.id, countNumber: frozen.count.number, locationId: frozen.locationId }
+  throw err
+}
+
+/** Counted minus book quantity; null while the line hasn't been counted. */
+export function countLineVariance(line: { systemQuantity: any; countedQuantity: any }): number | null {
+  if (line.countedQuantity === null || line.countedQuantity === undefined) return null
+  const counted = Number(line.countedQuantity)
+  const system = Number(line.systemQuantity)
+  if (!Number.isFinite(counted) || !Number.isFinite(system)) return null
+  return counted - system
+}
@@ -1,5 +1,9 @@
 import type { Prisma } from '../../generated/prisma/client.js'
 import { currentYearUtc, nextSequence } from '../shared/sequence.js'
+import { assertLocationsNotFrozen } from './inventoryCounts.js'
+import { AVAILABLE_BATCH_STATUS, batchNotReleasedError } from './batchStatus.js'
+import { startOfTodayUtc } from '../shared/dates.js'
+import { decimalFromNumber } from '../shared/numbers.js'
 
 export type StockMovementCreateInput = {
   tenantId: string
@@ -20,15 +24,6 @@ type LockedBalanceRow = {
   quantity: string
 }
 
-function decimalFromNumber(value: number): string {
-  return value.toString()
-}
-
-function startOfTodayUtc(): Date {
-  const now = new Date()
-  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, 0, 0, 0))
-}
-
 export async function createStockMovementTx(
   tx: Prisma.TransactionClient,
   input: StockMovementCreateInput,
@@ -61,7 +56,7 @@ export async function createStockMovementTx(
   if (decreasesStock && batchId) {
     const batch = await tx.batch.findFirst({
       where: { id: batchId, tenantId, productId: input.productId },
-      select: { id: true, expiresAt: true, batchNumber: true },
+      select: { id: true, expiresAt: true, batchNumber: true, status: true },
     })
     if (!batch) throw Object.assign(new Error('Batch not found'), { statusCode: 404 })
     if (batch.expiresAt && batch.expiresAt < todayUtc) {
@@ -71,6 +66,15 @@ export async function createStockMovementTx(
       err.meta = { batchId: batch.id, batchNumber: batch.batchNumber, expiresAt: batch.expiresAt.toISOString() }
       throw err
     }
+
+    // QA rule: stock of a batch that isn't released can't be shipped or moved, except into a quarantine
+    // location (segregating held stock). Adjustments stay allowed so rejected/recalled stock can be written off.
+    if (batch.status !== AVAILABLE_BATCH_STATUS && input.type !== 'ADJUSTMENT') {
+      const toQuarantine =
+        input.type === 'TRANSFER' &&
+        !!(await tx.location.findFirst({ where: { id: input.toLocationId!, tenantId, isQuarantine: true }, select: { id: true } }))
+      if (!toQuarantine) throw batchNotReleasedError(batch)
+    }
   }
 
   const fromLocationId = input.fromLocationId ?? null
@@ -90,6 +94,8 @@ export async function createStockMovementTx(
   if (fromLocationId) await ensureLocation(fromLocationId, { mustBeActive: false })
   if (toLocationId) await ensureLocation(toLocationId, { mustBeActive: true })
 
+  await assertLocationsNotFrozen(tx, tenantId, [fromLocationId, toLocationId].filter((id): id is string => !!id))
+
   const lockBalanceSafe = async (locationId: string) => {
     if (batchId === null) {
       const rows = await tx.$queryRaw<LockedBalanceRow[]>`
@@ -6,6 +6,10 @@ import { ensureSystemRoles } from './application/security/ensureSystemRoles.js'
 import { createHttpServer } from './adapters/http/server.js'
 import { attachSocketIo } from './adapters/realtime/socket.js'
 import { startReportScheduler } from './application/reports/reportScheduler.js'
+import { ensureDefaultPaymentTermsForAllTenants } from './application/sales/paymentTerms.js'
+import { startPaymentReminderScheduler } from './application/sales/paymentReminderScheduler.js'
+import { startQuoteExpiryScheduler } from './application/sales/quoteExpiryScheduler.js'
+import { startCycleCountScheduler } from './application/stock/cycleCountScheduler.js'
 
 async function main() {
   const env = getEnv()
@@ -32,6 +36,13 @@ async function main() {
     // Ignore until DB is migrated
   }
 
+  // Ensure default payment terms (CASH / CREDIT_7 / CREDIT_14) exist for every tenant
+  try {
+    await ensureDefaultPaymentTermsForAllTenants(db)
+  } catch {
+    // Ignore until DB is migrated
+  }
+
   // Scheduled report emails (best-effort; requires DB + SMTP configured)
   try {
     startReportScheduler(db)
@@ -39,6 +50,27 @@ async function main() {
     // Ignore until DB is migrated / configured
   }
 
+  // Overdue payment reminders (in-app alerts; customer emails are best-effort)
+  try {
+    startPaymentReminderScheduler(db, app.io)
+  } catch {
+    // Ignore until DB is migrated / configured
+  }
+
+  // Nightly expiry of quotes past their validity
+  try {
+    startQuoteExpiryScheduler(db, app.io)
+  } catch {
+    // Ignore until DB is migrated / configured
+  }
+
+  // Nightly ABC classification and cycle-count task list
+  try {
+    startCycleCountScheduler(db, app.io)
+  } catch {
+    // Ignore until DB is migrated / configured
+  }
+
   await app.listen({ port: env.PORT, host: '0.0.0.0' })
   app.log.info(`Backend listening on http://localhost:${env.PORT}`)
 }
@@ -31,6 +31,12 @@ const envSchema = z.object({
   S3_PUBLIC_BASE_URL: z.preprocess(emptyStringToUndefined, z.string().url().optional()),
   // Useful for MinIO / many S3-compatible providers
   S3_FORCE_PATH_STYLE: z.coerce.boolean().default(true),
+
+  // Electronic invoicing (SIAT). Only the local stub exists for now.
+  SIAT_ADAPTER: z.enum(['stub']).default('stub'),
+  // PEM (newlines may be escaped as \n). Without a key, non-production environments sign with an ephemeral key.
+  SIAT_SIGNING_KEY_PEM: z.preprocess(emptyStringToUndefined, z.string().min(1).optional()),
+  SIAT_SIGNING_CERT_PEM: z.preprocess(emptyStringToUndefined, z.string().min(1).optional()),
 })
 
 export type Env = z.infer<typeof envSchema>
@@ -14,6 +14,14 @@ import {
   MovementsPage,
   ExpiryPage,
   InventoryPage,
+  InventoryCountsPage,
+  InventoryCountDetailPage,
+  SuppliersPage,
+  SupplierDetailPage,
+  SupplierPerformancePage,
+  PurchaseOrdersPage,
+  PurchaseOrderDetailPage,
+  ReceiptVariancesPage,
   CustomersPage,
   CustomerDetailPage,
   OrdersPage,
@@ -22,8 +30,16 @@ import {
   QuotesPage,
   QuoteDetailPage,
   PaymentsPage,
+  ReturnsPage,
+  PaymentTermsPage,
+  InvoicesPage,
+  DiscountApprovalsPage,
+  PromotionsPage,
+  PriceListsPage,
+  ExchangeRatesPage,
   SalesReportsPage,
   StockReportsPage,
+  ReceivablesReportPage,
   AuditListPage,
   UsersPage,
   RolesPage,
@@ -139,6 +155,72 @@ export function AppRouter() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/stock/counts"
+          element={
+            <ProtectedRoute requiredPermissions={['stock:read']}>
+              <InventoryCountsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/stock/counts/:id"
+          element={
+            <ProtectedRoute requiredPermissions={['stock:read']}>
+              <InventoryCountDetailPage />
+            </ProtectedRoute>
+          }
+        />
+
+        {/* Purchase routes */}
+        <Route
+          path="/purchases/suppliers"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <SuppliersPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/purchases/suppliers/:id"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <SupplierDetailPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/purchases/orders"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <PurchaseOrdersPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/purchases/orders/:id"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <PurchaseOrderDetailPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/purchases/variances"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <ReceiptVariancesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/purchases/performance"
+          element={
+            <ProtectedRoute requiredPermissions={['purchase:read']}>
+              <SupplierPerformancePage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Sales routes */}
         <Route
@@ -205,6 +287,62 @@ export function AppRouter() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/sales/returns"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <ReturnsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/payment-terms"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <PaymentTermsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/discount-approvals"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <DiscountApprovalsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/promotions"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <PromotionsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/price-lists"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <PriceListsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/exchange-rates"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <ExchangeRatesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/sales/invoices"
+          element={
+            <ProtectedRoute requiredPermissions={['sales:order:read']}>
+              <InvoicesPage />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/sales/deliveries"
           element={
@@ -231,6 +369,14 @@ export function AppRouter() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/reports/receivables"
+          element={
+            <ProtectedRoute requiredPermissions={['report:sales:read']}>
+              <ReceivablesReportPage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Audit routes */}
         <Route
@@ -1,3 +1,5 @@
 export { useNavigation } from './useNavigation';
 export { usePermissions } from './usePermissions';
 export { useMediaQuery } from './useMediaQuery';
+export { useCustomerPrices } from './useCustomerPrices';
+export { useExchangeRates } from './useExchangeRates';
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiFetch } from '../lib/api'
+import { useAuth } from '../providers/AuthProvider'
+
+export type CustomerPriceList = { id: string; code: string; name: string }
+
+type CustomerPricesResponse = {
+  priceList: CustomerPriceList | null
+  items: Array<{ productId: string; price: number }>
+}
+
+async function fetchCustomerPrices(token: string, customerId: string, productIds: string[]): Promise<CustomerPricesResponse> {
+  const params = new URLSearchParams({ customerId, productIds: productIds.join(',') })
+  return apiFetch(`/api/v1/sales/customer-prices?${params}`, { token })
+}
+
+/**
+ * Prices of the customer's price list for the given products, as the server applies them when saving a quote.
+ * Products the list does not cover are absent from `prices`.
+ */
+export function useCustomerPrices(customerId: string | null | undefined, productIds: string[]) {
+  const auth = useAuth()
+  const ids = Array.from(new Set(productIds)).sort()
+  const query = useQuery({
+    queryKey: ['customerPrices', customerId, ids],
+    queryFn: () => fetchCustomerPrices(auth.accessToken!, customerId!, ids),
+    enabled: !!auth.accessToken && !!customerId && ids.length > 0,
+    staleTime: 60_000,
+  })
+  const prices = new Map((query.data?.items ?? []).map((i) => [i.productId, i.price] as const))
+  return { priceList: customerId ? query.data?.priceList ?? null : null, prices }
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiFetch } from '../lib/api'
+import { useAuth } from '../providers/AuthProvider'
+
+export type ExchangeRateItem = { id: string; currency: string; rate: number; effectiveDate: string; createdAt: string }
+
+export type ExchangeRatesResponse = {
+  baseCurrency: string
+  current: Array<{ currency: string; rate: number; effectiveDate: string }>
+  items: ExchangeRateItem[]
+}
+
+export async function fetchExchangeRates(token: string): Promise<ExchangeRatesResponse> {
+  return apiFetch('/api/v1/sales/exchange-rates', { token })
+}
+
+/**
+ * Exchange rates of the tenant. `rates` holds the rate each foreign currency has today, i.e. the one
+ * the server locks on a quote saved now.
+ */
+export function useExchangeRates() {
+  const auth = useAuth()
+  const query = useQuery({
+    queryKey: ['exchangeRates'],
+    queryFn: () => fetchExchangeRates(auth.accessToken!),
+    enabled: !!auth.accessToken,
+    staleTime: 60_000,
+  })
+  const rates = new Map((query.data?.current ?? []).map((r) => [r.currency, r.rate] as const))
+  return { query, baseCurrency: query.data?.baseCurrency ?? null, rates }
+}
@@ -79,12 +79,30 @@ export function useNavigation(): NavGroup[] {
     // Vencimientos: lectura para ambos roles
     warehouseItems.push({ to: '/stock/expiry', label: '⏰ Vencimientos' })
 
+    // Conteos físicos: quienes cuentan, gestionan o aprueban
+    if (isTenantAdmin || hasPermission('stock:move') || hasPermission('stock:manage') || hasPermission('stock:count:approve')) {
+      warehouseItems.push({ to: '/stock/counts', label: '📋 Conteos físicos' })
+    }
+
     groups.push({
       title: '🏢 Almacén',
       items: warehouseItems,
     });
   }
 
+  // Compras
+  if (hasPermission('purchase:read')) {
+    groups.push({
+      title: '🛒 Compras',
+      items: [
+        { to: '/purchases/orders', label: '📦 Órdenes de compra' },
+        { to: '/purchases/suppliers', label: '🏭 Proveedores' },
+        { to: '/purchases/variances', label: '⚖️ Diferencias de recepción' },
+        { to: '/purchases/performance', label: '📈 Desempeño de proveedores' },
+      ],
+    });
+  }
+
   // Ventas
   if (hasPermission('sales:order:read') || hasPermission('sales:delivery:read')) {
     const salesItems = [] as Array<{ to: string; label: string }>
@@ -95,8 +113,17 @@ export function useNavigation(): NavGroup[] {
       if (hasPermission('sales:order:write')) {
         salesItems.push({ to: '/sales/quotes', label: '📝 Cotizaciones' })
       }
+      if (hasPermission('sales:discount:approve') || hasPermission('admin:users:manage')) {
+        salesItems.push({ to: '/sales/discount-approvals', label: '✅ Aprobaciones' })
+      }
       salesItems.push({ to: '/sales/orders', label: '📋 Órdenes' })
       salesItems.push({ to: '/sales/payments', label: '💳 Pagos' })
+      salesItems.push({ to: '/sales/promotions', label: '🎁 Promociones' })
+      salesItems.push({ to: '/sales/price-lists', label: '🏷️ Listas de precios' })
+      salesItems.push({ to: '/sales/exchange-rates', label: '💱 Tipos de cambio' })
+      salesItems.push({ to: '/sales/payment-terms', label: '🗓️ Términos de pago' })
+      salesItems.push({ to: '/sales/invoices', label: '🧾 Facturas' })
+      salesItems.push({ to: '/sales/returns', label: '↩️ Devoluciones' })
     }
 
     if (hasPermission('sales:delivery:read')) {
@@ -112,6 +139,7 @@ export function useNavigation(): NavGroup[] {
   // Reportes (según permisos)
   const reportItems = [] as Array<{ to: string; label: string }>
   if (hasPermission('report:sales:read')) reportItems.push({ to: '/reports/sales', label: '💵 Ventas' })
+  if (hasPermission('report:sales:read')) reportItems.push({ to: '/reports/receivables', label: '🧾 Cartera' })
   if (hasPermission('report:stock:read')) reportItems.push({ to: '/reports/stock', label: '📦 Stock' })
   if (reportItems.length > 0) {
     groups.push({ title: '📈 Reportes', items: reportItems })
@@ -0,0 +1,60 @@
+export type BatchStatus = 'QUARANTINE' | 'RELEASED' | 'REJECTED' | 'BLOCKED' | 'RECALLED'
+
+// Mirrors the backend lifecycle (application/stock/batchStatus.ts).
+export const BATCH_STATUS_TRANSITIONS: Record<BatchStatus, BatchStatus[]> = {
+  QUARANTINE: ['RELEASED', 'REJECTED'],
+  RELEASED: ['BLOCKED', 'RECALLED'],
+  BLOCKED: ['RELEASED', 'RECALLED'],
+  REJECTED: [],
+  RECALLED: [],
+}
+
+export const BATCH_STATUS_REASONS: Record<BatchStatus, Array<{ code: string; label: string }>> = {
+  QUARANTINE: [],
+  RELEASED: [
+    { code: 'QA_APPROVED', label: 'Aprobado por control de calidad' },
+    { code: 'HOLD_CLEARED', label: 'Bloqueo resuelto' },
+    { code: 'OTHER', label: 'Otro' },
+  ],
+  REJECTED: [
+    { code: 'DAMAGED', label: 'Producto o empaque dañado' },
+    { code: 'TEMPERATURE_EXCURSION', label: 'Desvío de temperatura' },
+    { code: 'MISSING_DOCUMENTATION', label: 'Falta documentación / certificado' },
+    { code: 'FAILED_INSPECTION', label: 'No aprobó la inspección' },
+    { code: 'WRONG_PRODUCT', label: 'Producto equivocado' },
+    { code: 'OTHER', label: 'Otro' },
+  ],
+  BLOCKED: [
+    { code: 'QUALITY_COMPLAINT', label: 'Reclamo de calidad' },
+    { code: 'UNDER_INVESTIGATION', label: 'En investigación' },
+    { code: 'REGULATORY_HOLD', label: 'Retención regulatoria' },
+    { code: 'OTHER', label: 'Otro' },
+  ],
+  RECALLED: [
+    { code: 'MANUFACTURER_RECALL', label: 'Retiro del fabricante' },
+    { code: 'REGULATORY_RECALL', label: 'Retiro ordenado por la autoridad' },
+    { code: 'QUALITY_DEFECT', label: 'Defecto de calidad' },
+    { code: 'OTHER', label: 'Otro' },
+  ],
+}
+
+const STATUS_DISPLAY: Record<BatchStatus, { text: string; color: string }> = {
+  QUARANTINE: { text: 'En cuarentena', color: 'text-orange-600 dark:text-orange-400' },
+  RELEASED: { text: 'Liberado', color: 'text-green-600 dark:text-green-400' },
+  REJECTED: { text: 'Rechazado', color: 'text-red-600 dark:text-red-400' },
+  BLOCKED: { text: 'Bloqueado', color: 'text-amber-600 dark:text-amber-400' },
+  RECALLED: { text: 'Retirado del mercado', color: 'text-red-700 dark:text-red-300' },
+}
+
+export function getBatchStatusDisplay(status: string): { text: string; color: string } {
+  return STATUS_DISPLAY[status as BatchStatus] ?? { text: status, color: 'text-slate-600 dark:text-slate-400' }
+}
+
+export function getBatchStatusReasonLabel(status: string, code: string | null | undefined): string | null {
+  if (!code) return null
+  return BATCH_STATUS_REASONS[status as BatchStatus]?.find((r) => r.code === code)?.label ?? code
+}
+
+export function batchStatusTransitions(status: string): BatchStatus[] {
+  return BATCH_STATUS_TRANSITIONS[status as BatchStatus] ?? []
+}
@@ -0,0 +1,126 @@
+import jsPDF from 'jspdf'
+import type { TenantContextValue } from '../providers/TenantProvider'
+
+export type CountSheetPdfLine = {
+  locationCode: string
+  sku: string
+  productName: string
+  batchNumber: string | null
+  expiresAt: string | null
+  systemQuantity: number | null
+  countedQuantity: number | null
+  variance: number | null
+}
+
+export type CountSheetPdfData = {
+  number: string
+  status: string
+  warehouse: { code: string; name: string }
+  locationCodes: string[]
+  blind: boolean
+  createdAt: string
+  submittedByName: string | null
+  submittedAt: string | null
+  approvedByName: string | null
+  approvedAt: string | null
+  lines: CountSheetPdfLine[]
+  tenant: TenantContextValue
+}
+
+function sanitizePdfText(value: string): string {
+  return (value ?? '').replace(/[^\x20-\x7E]/g, '').trim()
+}
+
+function qty(n: number | null): string {
+  if (n === null || !Number.isFinite(n)) return ''
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString() : ''
+}
+
+// Count sheet with signature blocks: printed blank to count by hand, or filled in once counted.
+export function exportCountSheetToPDF(data: CountSheetPdfData): void {
+  const pdf = new jsPDF('p', 'mm', 'letter')
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 15
+  let yPosition = margin + 5
+
+  // Title
+  pdf.setFontSize(16)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('HOJA DE CONTEO FISICO', pageWidth / 2, yPosition, { align: 'center' })
+  yPosition += 12
+
+  pdf.setFontSize(12)
+  pdf.text(sanitizePdfText(data.tenant.branding?.tenantName ?? 'Empresa'), margin, yPosition)
+  pdf.text(`N. ${sanitizePdfText(data.number)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 8
+
+  pdf.setFontSize(10)
+  pdf.setFont('helvetica', 'normal')
+  pdf.text(`Sucursal: ${sanitizePdfText(`${data.warehouse.code} - ${data.warehouse.name}`)}`, margin, yPosition)
+  yPosition += 6
+  const locations = sanitizePdfText(data.locationCodes.join(', '))
+  pdf.text(`Ubicaciones: ${locations.length > 90 ? `${locations.substring(0, 87)}...` : locations}`, margin, yPosition)
+  yPosition += 6
+  pdf.text(`Inicio: ${formatDate(data.createdAt)}${data.blind ? '   (conteo ciego)' : ''}`, margin, yPosition)
+  yPosition += 10
+
+  const colX = [margin, margin + 22, margin + 46, margin + 106, margin + 128, margin + 148, margin + 164, margin + 180]
+  const headers = ['Ubic.', 'SKU', 'Producto', 'Lote', 'Vence', 'Sistema', 'Contado', 'Dif.']
+
+  const drawHeader = () => {
+    pdf.setFontSize(9)
+    pdf.setFont('helvetica', 'bold')
+    headers.forEach((h, i) => pdf.text(h, colX[i], yPosition))
+    yPosition += 2
+    pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+    yPosition += 5
+    pdf.setFont('helvetica', 'normal')
+  }
+
+  drawHeader()
+
+  data.lines.forEach((l) => {
+    if (yPosition > pageHeight - margin - 10) {
+      pdf.addPage()
+      yPosition = margin + 5
+      drawHeader()
+    }
+    const name = sanitizePdfText(l.productName)
+    pdf.text(sanitizePdfText(l.locationCode), colX[0], yPosition)
+    pdf.text(sanitizePdfText(l.sku), colX[1], yPosition)
+    pdf.text(name.length > 34 ? `${name.substring(0, 31)}...` : name, colX[2], yPosition)
+    pdf.text(sanitizePdfText(l.batchNumber ?? '-'), colX[3], yPosition)
+    pdf.text(formatDate(l.expiresAt), colX[4], yPosition)
+    pdf.text(data.blind && l.systemQuantity === null ? '' : qty(l.systemQuantity), colX[5], yPosition)
+    if (l.countedQuantity === null) pdf.line(colX[6], yPosition + 1, colX[6] + 14, yPosition + 1)
+    else pdf.text(qty(l.countedQuantity), colX[6], yPosition)
+    pdf.text(qty(l.variance), colX[7], yPosition)
+    yPosition += 7
+  })
+
+  // Signatures
+  if (yPosition > pageHeight - margin - 35) {
+    pdf.addPage()
+    yPosition = margin + 5
+  }
+  yPosition += 25
+  const signatureWidth = 70
+  pdf.line(margin, yPosition, margin + signatureWidth, yPosition)
+  pdf.line(pageWidth - margin - signatureWidth, yPosition, pageWidth - margin, yPosition)
+  yPosition += 5
+  pdf.text('Contado por', margin, yPosition)
+  pdf.text('Aprobado por', pageWidth - margin - signatureWidth, yPosition)
+  yPosition += 5
+  pdf.text(sanitizePdfText(data.submittedByName ?? ''), margin, yPosition)
+  pdf.text(sanitizePdfText(data.approvedByName ?? ''), pageWidth - margin - signatureWidth, yPosition)
+  yPosition += 5
+  pdf.text(formatDate(data.submittedAt), margin, yPosition)
+  pdf.text(formatDate(data.approvedAt), pageWidth - margin - signatureWidth, yPosition)
+
+  pdf.save(`conteo-${sanitizePdfText(data.number)}.pdf`)
+}
@@ -0,0 +1,129 @@
+import jsPDF from 'jspdf'
+import type { TenantContextValue } from '../providers/TenantProvider'
+
+export type CustomerStatementPdfEntry = {
+  date: string
+  type: 'ORDER' | 'CREDIT_NOTE' | 'PAYMENT'
+  reference: string
+  orderNumber: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export type CustomerStatementPdfData = {
+  customer: { name: string; businessName: string | null; nit: string | null; city: string | null; address: string | null }
+  from: string | null
+  to: string | null
+  openingBalance: number
+  entries: CustomerStatementPdfEntry[]
+  totals: { debit: number; credit: number }
+  closingBalance: number
+  currency: string
+  tenant: TenantContextValue
+}
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+function sanitizePdfText(value: string): string {
+  return (value ?? '').replace(/[^\x20-\x7E]/g, '').trim()
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString() : '-'
+}
+
+export function exportCustomerStatementToPDF(data: CustomerStatementPdfData): void {
+  const pdf = new jsPDF('p', 'mm', 'letter')
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 15
+  const currency = sanitizePdfText(data.currency)
+  let yPosition = margin + 5
+
+  // Title
+  pdf.setFontSize(16)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('ESTADO DE CUENTA', pageWidth / 2, yPosition, { align: 'center' })
+  yPosition += 12
+
+  pdf.setFontSize(12)
+  pdf.text(sanitizePdfText(data.tenant.branding?.tenantName ?? 'Empresa'), margin, yPosition)
+  yPosition += 8
+
+  pdf.setFontSize(10)
+  pdf.setFont('helvetica', 'normal')
+  pdf.text(`Cliente: ${sanitizePdfText(data.customer.businessName || data.customer.name)}`, margin, yPosition)
+  yPosition += 6
+  if ((data.customer.nit ?? '').trim()) {
+    pdf.text(`NIT: ${sanitizePdfText(data.customer.nit ?? '')}`, margin, yPosition)
+    yPosition += 6
+  }
+  const addressParts = [data.customer.address, data.customer.city].map((p) => (p ?? '').trim()).filter(Boolean)
+  if (addressParts.length > 0) {
+    pdf.text(`Direccion: ${sanitizePdfText(addressParts.join(', '))}`, margin, yPosition)
+    yPosition += 6
+  }
+  pdf.text(`Periodo: ${formatDate(data.from)} - ${formatDate(data.to)}`, margin, yPosition)
+  yPosition += 6
+  pdf.text(`Emitido: ${new Date().toLocaleDateString()}`, margin, yPosition)
+  yPosition += 10
+
+  // Ledger table
+  const colX = [margin, margin + 22, margin + 50, margin + 78, margin + 128, margin + 152, margin + 176]
+  const headers = ['Fecha', 'Documento', 'Orden', 'Detalle', 'Debe', 'Haber', 'Saldo']
+
+  const drawHeader = () => {
+    pdf.setFontSize(9)
+    pdf.setFont('helvetica', 'bold')
+    headers.forEach((h, i) => pdf.text(h, colX[i], yPosition))
+    yPosition += 2
+    pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+    yPosition += 5
+    pdf.setFont('helvetica', 'normal')
+  }
+
+  drawHeader()
+
+  pdf.text(formatDate(data.from), colX[0], yPosition)
+  pdf.text('Saldo anterior', colX[3], yPosition)
+  pdf.text(money(data.openingBalance), colX[6], yPosition)
+  yPosition += 6
+
+  data.entries.forEach((e) => {
+    if (yPosition > pageHeight - margin - 20) {
+      pdf.addPage()
+      yPosition = margin + 5
+      drawHeader()
+    }
+    const detail = sanitizePdfText(e.description)
+    pdf.text(formatDate(e.date), colX[0], yPosition)
+    pdf.text(sanitizePdfText(e.reference), colX[1], yPosition)
+    pdf.text(sanitizePdfText(e.orderNumber), colX[2], yPosition)
+    pdf.text(detail.length > 30 ? `${detail.substring(0, 27)}...` : detail, colX[3], yPosition)
+    pdf.text(e.debit > 0 ? money(e.debit) : '', colX[4], yPosition)
+    pdf.text(e.credit > 0 ? money(e.credit) : '', colX[5], yPosition)
+    pdf.text(money(e.balance), colX[6], yPosition)
+    yPosition += 6
+  })
+
+  yPosition += 2
+  pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+  yPosition += 6
+
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('Totales', colX[3], yPosition)
+  pdf.text(money(data.totals.debit), colX[4], yPosition)
+  pdf.text(money(data.totals.credit), colX[5], yPosition)
+  yPosition += 10
+
+  pdf.setFontSize(11)
+  pdf.text(`SALDO A LA FECHA: ${money(data.closingBalance)} ${currency}`, pageWidth - margin, yPosition, { align: 'right' })
+
+  const customerSlug = sanitizePdfText(data.customer.name).replace(/\s+/g, '_').slice(0, 40)
+  pdf.save(`estado-cuenta-${customerSlug}-${new Date().toISOString().slice(0, 10)}.pdf`)
+}
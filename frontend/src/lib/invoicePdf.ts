@@ -0,0 +1,142 @@
+import jsPDF from 'jspdf'
+import QRCode from 'qrcode'
+
+export type InvoicePdfData = {
+  number: number
+  cuf: string
+  issuedAt: string
+  issuerNit: string
+  issuerName: string
+  branchCode: number
+  pointOfSale: number
+  municipality?: string | null
+  address?: string | null
+  phone?: string | null
+  customerName: string
+  customerDocNumber: string
+  orderNumber: string
+  lines: Array<{ productCode: string; description: string; quantity: number; unitPrice: number; subtotal: number }>
+  total: number
+  currency: string
+  legend?: string | null
+  verificationUrl: string
+}
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+function sanitizePdfText(value: string): string {
+  return (value ?? '').replace(/[^\x20-\x7E]/g, '').trim()
+}
+
+export async function exportInvoiceToPDF(data: InvoicePdfData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'letter')
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 15
+  const currency = sanitizePdfText(data.currency)
+  let yPosition = margin
+
+  // Issuer (left) / fiscal data (right)
+  pdf.setFontSize(12)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text(sanitizePdfText(data.issuerName), margin, yPosition)
+  pdf.setFontSize(9)
+  pdf.text(`NIT: ${sanitizePdfText(data.issuerNit)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 5
+
+  pdf.setFont('helvetica', 'normal')
+  pdf.text(data.branchCode === 0 ? 'Casa Matriz' : `Sucursal No. ${data.branchCode}`, margin, yPosition)
+  pdf.text(`Factura No. ${data.number}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 5
+  pdf.text(`Punto de Venta No. ${data.pointOfSale}`, margin, yPosition)
+  pdf.text('Cod. Autorizacion (CUF):', pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 5
+  if ((data.address ?? '').trim()) {
+    pdf.text(sanitizePdfText(data.address ?? ''), margin, yPosition)
+  }
+  const cufLines = pdf.splitTextToSize(sanitizePdfText(data.cuf), 70) as string[]
+  cufLines.forEach((line, i) => pdf.text(line, pageWidth - margin, yPosition + i * 4, { align: 'right' }))
+  yPosition += 5
+  const contact = [data.phone ? `Telefono: ${data.phone}` : null, data.municipality].filter(Boolean).join(' - ')
+  if (contact) pdf.text(sanitizePdfText(contact), margin, yPosition)
+  yPosition = Math.max(yPosition, yPosition - 5 + cufLines.length * 4) + 8
+
+  // Title
+  pdf.setFontSize(16)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('FACTURA', pageWidth / 2, yPosition, { align: 'center' })
+  yPosition += 5
+  pdf.setFontSize(9)
+  pdf.setFont('helvetica', 'normal')
+  pdf.text('(Con Derecho a Credito Fiscal)', pageWidth / 2, yPosition, { align: 'center' })
+  yPosition += 10
+
+  // Customer
+  pdf.text(`Fecha: ${new Date(data.issuedAt).toLocaleString()}`, margin, yPosition)
+  pdf.text(`NIT/CI/CEX: ${sanitizePdfText(data.customerDocNumber)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 5
+  pdf.text(`Nombre/Razon Social: ${sanitizePdfText(data.customerName)}`, margin, yPosition)
+  pdf.text(`Orden: ${sanitizePdfText(data.orderNumber)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 8
+
+  // Lines
+  const cols = { code: margin, qty: margin + 30, desc: margin + 48, unit: pageWidth - margin - 35, sub: pageWidth - margin }
+  pdf.setFont('helvetica', 'bold')
+  pdf.line(margin, yPosition - 4, pageWidth - margin, yPosition - 4)
+  pdf.text('Codigo', cols.code, yPosition)
+  pdf.text('Cant.', cols.qty, yPosition)
+  pdf.text('Descripcion', cols.desc, yPosition)
+  pdf.text('P. Unit.', cols.unit, yPosition, { align: 'right' })
+  pdf.text('Subtotal', cols.sub, yPosition, { align: 'right' })
+  yPosition += 2
+  pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+  yPosition += 5
+
+  pdf.setFont('helvetica', 'normal')
+  for (const l of data.lines) {
+    const desc = pdf.splitTextToSize(sanitizePdfText(l.description), cols.unit - cols.desc - 20) as string[]
+    if (yPosition + desc.length * 4 > pageHeight - 60) {
+      pdf.addPage()
+      yPosition = margin
+    }
+    pdf.text(sanitizePdfText(l.productCode), cols.code, yPosition)
+    pdf.text(String(l.quantity), cols.qty, yPosition)
+    pdf.text(desc, cols.desc, yPosition)
+    pdf.text(money(l.unitPrice), cols.unit, yPosition, { align: 'right' })
+    pdf.text(money(l.subtotal), cols.sub, yPosition, { align: 'right' })
+    yPosition += Math.max(1, desc.length) * 4 + 2
+  }
+  pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+  yPosition += 6
+
+  pdf.setFont('helvetica', 'bold')
+  pdf.text(`TOTAL ${currency}: ${money(data.total)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 5
+  pdf.setFont('helvetica', 'normal')
+  pdf.text(`IMPORTE BASE CREDITO FISCAL: ${money(data.total)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 12
+
+  // Footer: legends + QR to the tax authority's verification page
+  const qr = await QRCode.toDataURL(data.verificationUrl, { margin: 1, width: 256 })
+  const qrSize = 32
+  pdf.addImage(qr, 'PNG', pageWidth - margin - qrSize, yPosition, qrSize, qrSize)
+
+  const textWidth = pageWidth - 2 * margin - qrSize - 8
+  pdf.setFontSize(8)
+  const legends = [
+    'ESTA FACTURA CONTRIBUYE AL DESARROLLO DEL PAIS, EL USO ILICITO SERA SANCIONADO PENALMENTE DE ACUERDO A LEY',
+    sanitizePdfText(data.legend ?? ''),
+    'Este documento es la Representacion Grafica de un Documento Fiscal Digital emitido en una modalidad de facturacion en linea',
+  ].filter(Boolean)
+  let footerY = yPosition + 4
+  for (const legend of legends) {
+    const lines = pdf.splitTextToSize(legend, textWidth) as string[]
+    pdf.text(lines, margin, footerY)
+    footerY += lines.length * 4 + 2
+  }
+
+  pdf.save(`factura-${data.branchCode}-${data.number}.pdf`)
+}
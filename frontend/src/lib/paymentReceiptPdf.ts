@@ -0,0 +1,113 @@
+import jsPDF from 'jspdf'
+import type { TenantContextValue } from '../providers/TenantProvider'
+
+export type PaymentReceiptPdfData = {
+  receiptNumber: string
+  receivedAt: string
+  amount: number
+  method: string
+  reference?: string | null
+  receivedBy?: string | null
+  note?: string | null
+  discountAmount?: number
+  orderNumber: string
+  customerName: string
+  customerNit?: string | null
+  orderTotal: number
+  balanceAfter: number
+  currency: string
+  tenant: TenantContextValue
+}
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+function sanitizePdfText(value: string): string {
+  return (value ?? '').replace(/[^\x20-\x7E]/g, '').trim()
+}
+
+export function paymentMethodLabel(method: string): string {
+  const m = (method ?? '').toUpperCase()
+  if (m === 'CASH') return 'Efectivo'
+  if (m === 'TRANSFER') return 'Transferencia'
+  if (m === 'CHECK') return 'Cheque'
+  if (m === 'CARD') return 'Tarjeta'
+  if (m === 'QR') return 'QR'
+  return method
+}
+
+export function exportPaymentReceiptToPDF(data: PaymentReceiptPdfData): void {
+  const pdf = new jsPDF('p', 'mm', 'letter')
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const margin = 20
+  const currency = sanitizePdfText(data.currency)
+  let yPosition = margin
+
+  // Title
+  pdf.setFontSize(18)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text('RECIBO DE PAGO', pageWidth / 2, yPosition, { align: 'center' })
+  yPosition += 15
+
+  pdf.setFontSize(12)
+  pdf.text(sanitizePdfText(data.tenant.branding?.tenantName ?? 'Empresa'), margin, yPosition)
+  pdf.text(`N. ${sanitizePdfText(data.receiptNumber)}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 10
+
+  pdf.setFontSize(10)
+  pdf.setFont('helvetica', 'normal')
+  pdf.text(`Fecha: ${new Date(data.receivedAt).toLocaleDateString()}`, margin, yPosition)
+  yPosition += 6
+  pdf.text(`Cliente: ${sanitizePdfText(data.customerName)}`, margin, yPosition)
+  yPosition += 6
+  if ((data.customerNit ?? '').trim()) {
+    pdf.text(`NIT: ${sanitizePdfText(data.customerNit ?? '')}`, margin, yPosition)
+    yPosition += 6
+  }
+  pdf.text(`Orden de venta: ${sanitizePdfText(data.orderNumber)}`, margin, yPosition)
+  yPosition += 10
+
+  pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+  yPosition += 8
+
+  pdf.setFontSize(12)
+  pdf.setFont('helvetica', 'bold')
+  pdf.text(`Monto recibido: ${money(data.amount)} ${currency}`, margin, yPosition)
+  yPosition += 8
+
+  pdf.setFontSize(10)
+  pdf.setFont('helvetica', 'normal')
+  if ((data.discountAmount ?? 0) > 0) {
+    pdf.text(`Descuento por pronto pago: ${money(data.discountAmount ?? 0)} ${currency}`, margin, yPosition)
+    yPosition += 6
+  }
+  pdf.text(`Forma de pago: ${sanitizePdfText(paymentMethodLabel(data.method))}`, margin, yPosition)
+  yPosition += 6
+  if ((data.reference ?? '').trim()) {
+    pdf.text(`Referencia: ${sanitizePdfText(data.reference ?? '')}`, margin, yPosition)
+    yPosition += 6
+  }
+  if ((data.note ?? '').trim()) {
+    pdf.text(`Nota: ${sanitizePdfText(data.note ?? '')}`, margin, yPosition)
+    yPosition += 6
+  }
+  yPosition += 4
+
+  pdf.line(margin, yPosition, pageWidth - margin, yPosition)
+  yPosition += 8
+
+  pdf.text(`Total de la orden: ${money(data.orderTotal)} ${currency}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 6
+  pdf.setFont('helvetica', 'bold')
+  pdf.text(`Saldo pendiente: ${money(data.balanceAfter)} ${currency}`, pageWidth - margin, yPosition, { align: 'right' })
+  yPosition += 25
+
+  pdf.setFont('helvetica', 'normal')
+  pdf.line(margin, yPosition, margin + 70, yPosition)
+  yPosition += 5
+  pdf.text(`Recibido por: ${sanitizePdfText(data.receivedBy ?? '')}`, margin, yPosition)
+
+  pdf.save(`recibo-${sanitizePdfText(data.receiptNumber)}.pdf`)
+}
@@ -11,6 +11,8 @@ export type QuotePdfItem = {
 
 export type QuotePdfData = {
   quoteNumber: string
+  // Quote revision the PDF was generated from (1 = original offer).
+  revision?: number
   customerName: string
   quotedBy?: string
   validityDays: string
@@ -24,6 +26,9 @@ export type QuotePdfData = {
   items: QuotePdfItem[]
   subtotal: number
   globalDiscountAmount: number
+  // Tax breakdown of the total (after discounts); `totalAfterGlobal` is the gross amount.
+  netTotal?: number
+  taxTotal?: number
   totalAfterGlobal: number
   currency: string
   tenant: any
@@ -76,7 +81,8 @@ export async function exportQuoteToPDF(quoteData: QuotePdfData): Promise<void> {
 
   pdf.setFontSize(10)
   pdf.setFont('helvetica', 'normal')
-  pdf.text(`Cotización: ${sanitizePdfText(quoteData.quoteNumber)}`, margin, yPosition)
+  const revisionLabel = quoteData.revision ? ` rev ${quoteData.revision}` : ''
+  pdf.text(`Cotización: ${sanitizePdfText(quoteData.quoteNumber)}${revisionLabel}`, margin, yPosition)
   yPosition += 6
   pdf.text(`Fecha: ${new Date().toLocaleDateString()}`, margin, yPosition)
   yPosition += 6
@@ -233,6 +239,15 @@ export async function exportQuoteToPDF(quoteData: QuotePdfData): Promise<void> {
     yPosition += 6
   }
 
+  if (quoteData.taxTotal !== undefined && quoteData.netTotal !== undefined) {
+    pdf.setFont('helvetica', 'normal')
+    pdf.text(`Importe neto: ${money(quoteData.netTotal)} ${sanitizePdfText(quoteData.currency)}`, pageWidth - margin, yPosition, { align: 'right' })
+    yPosition += 6
+    pdf.text(`IVA: ${money(quoteData.taxTotal)} ${sanitizePdfText(quoteData.currency)}`, pageWidth - margin, yPosition, { align: 'right' })
+    yPosition += 6
+    pdf.setFont('helvetica', 'bold')
+  }
+
   pdf.setFontSize(11)
   pdf.text(`TOTAL FINAL: ${money(quoteData.totalAfterGlobal)} ${sanitizePdfText(quoteData.currency)}`, pageWidth - margin, yPosition, { align: 'right' })
   yPosition += 10
@@ -256,7 +271,8 @@ export async function exportQuoteToPDF(quoteData: QuotePdfData): Promise<void> {
     pdf.text(`Valor de propuesta: ${sanitizePdfText(quoteData.proposalValue)}`, margin, yPosition)
   }
 
-  pdf.save(`cotizacion-${sanitizePdfText(quoteData.quoteNumber)}.pdf`)
+  const revisionSuffix = quoteData.revision && quoteData.revision > 1 ? `-rev${quoteData.revision}` : ''
+  pdf.save(`cotizacion-${sanitizePdfText(quoteData.quoteNumber)}${revisionSuffix}.pdf`)
 
   return
 }
@@ -52,6 +52,16 @@ export function RolesPage() {
       permissions: [
         { code: 'stock:read', label: 'Ver' },
         { code: 'stock:move', label: 'Mover' },
+        { code: 'stock:count:approve', label: 'Aprobar conteos' },
+        { code: 'stock:qa:release', label: 'Liberar lotes (QA)' },
+      ],
+    },
+    {
+      name: 'Compras',
+      permissions: [
+        { code: 'purchase:read', label: 'Ver' },
+        { code: 'purchase:write', label: 'Crear' },
+        { code: 'purchase:receive', label: 'Recepcionar' },
       ],
     },
     {
@@ -59,6 +69,11 @@ export function RolesPage() {
       permissions: [
         { code: 'sales:order:read', label: 'Ver' },
         { code: 'sales:order:write', label: 'Crear' },
+        { code: 'sales:credit:override', label: 'Liberar crédito' },
+        { code: 'sales:collections:manage', label: 'Gestionar cobranzas' },
+        { code: 'sales:invoice:write', label: 'Facturar' },
+        { code: 'sales:discount:approve', label: 'Aprobar descuentos' },
+        { code: 'sales:margin:override', label: 'Vender bajo costo' },
       ],
     },
     {
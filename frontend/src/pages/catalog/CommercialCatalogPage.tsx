@@ -4,7 +4,7 @@ import { apiFetch } from '../../lib/api'
 import { getProductDisplayName } from '../../lib/productName'
 import { useAuth, useCart, useTenant } from '../../providers'
 import { MainLayout, PageContainer, Button, Loading, ErrorState, EmptyState, CatalogSearch, ProductPhoto, PaginationCursor } from '../../components'
-import { useNavigation } from '../../hooks'
+import { useNavigation, useCustomerPrices } from '../../hooks'
 import { EyeIcon, ShoppingCartIcon } from '@heroicons/react/24/outline'
 
 type Product = {
@@ -131,6 +131,7 @@ export function CommercialCatalogPage() {
       sku: product.sku,
       name: getProductDisplayName(product),
       price: parseFloat(product.price || '0'),
+      catalogPrice: parseFloat(product.price || '0'),
       quantity: 1,
       photoUrl: product.photoUrl || null
     })
@@ -139,10 +140,23 @@ export function CommercialCatalogPage() {
   // Determine which products to display
   const displayProducts = searchResults || productsQuery.data?.items.filter(p => p.isActive) || []
 
+  // Prices of the customer selected in the cart (Catálogo Vendedor); without one, product list prices.
+  const customerPrices = useCustomerPrices(cart.customerId, [
+    ...displayProducts.map((p: Product) => p.id),
+    ...(detailModal.productId ? [detailModal.productId] : []),
+  ])
+  const displayPrice = (product: { id: string; price?: string | null }): number | null =>
+    customerPrices.prices.get(product.id) ?? (product.price ? parseFloat(product.price) : null)
+
   return (
     <MainLayout navGroups={navGroups}>
       <PageContainer title="🛒 Catálogo Comercial">
         <CatalogSearch className="mb-6" onSearchResults={setSearchResults} />
+        {customerPrices.priceList && (
+          <div className="mb-4 text-sm text-slate-600 dark:text-slate-300">
+            🏷️ Precios de la lista <span className="font-semibold">{customerPrices.priceList.name}</span> del cliente seleccionado
+          </div>
+        )}
         <div className="rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-gradient-to-br from-slate-50 to-blue-50/30 dark:from-slate-900 dark:to-slate-800/50 p-6 shadow-lg">
           {productsQuery.isLoading && !searchResults && <Loading />}
           {productsQuery.error && !searchResults && (
@@ -183,7 +197,7 @@ export function CommercialCatalogPage() {
                       </div>
 
                       <div className="text-xl font-bold text-transparent bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text drop-shadow-sm">
-                        {product.price ? `${parseFloat(product.price).toFixed(2)} ${currency}` : 'Precio no disponible'}
+                        {displayPrice(product) !== null ? `${displayPrice(product)!.toFixed(2)} ${currency}` : 'Precio no disponible'}
                       </div>
 
                       {/* Botones de acción */}
@@ -285,7 +299,7 @@ export function CommercialCatalogPage() {
                     {/* Precio destacado */}
                     <div className="bg-gradient-to-r from-green-500 to-emerald-600 rounded-xl p-6 text-center shadow-lg">
                       <div className="text-4xl font-bold text-white drop-shadow-lg">
-                        {parseFloat(productDetailQuery.data.price || '0').toFixed(2)} {currency}
+                        {(displayPrice(productDetailQuery.data) ?? 0).toFixed(2)} {currency}
                       </div>
                       <div className="text-green-100 mt-1 text-sm">Precio final</div>
                     </div>
@@ -4,9 +4,11 @@ import type { FormEvent } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { apiFetch, getApiBaseUrl } from '../../lib/api'
 import { getProductDisplayName } from '../../lib/productName'
+import { getBatchStatusDisplay, getBatchStatusReasonLabel } from '../../lib/batchStatus'
 import { useAuth } from '../../providers/AuthProvider'
 import { MainLayout, PageContainer, Button, Input, Select, Loading, ErrorState, ImageUpload } from '../../components'
 import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
 
 type Product = {
   id: string
@@ -20,6 +22,7 @@ type Product = {
   photoUrl?: string | null
   cost?: string | null
   price?: string | null
+  taxCategory?: 'TAXED' | 'EXEMPT'
   isActive: boolean
   version: number
   createdAt: string
@@ -41,6 +44,8 @@ type ProductBatchListItem = {
   manufacturingDate: string | null
   expiresAt: string | null
   status: string
+  statusReasonCode?: string | null
+  supplier?: { id: string; name: string } | null
   version: number
   createdAt: string
   updatedAt: string
@@ -92,6 +97,18 @@ type PresignResponse = {
   method: string
 }
 
+type PriceHistoryEntry = {
+  id: string
+  effectiveFrom: string
+  oldPrice: number | null
+  newPrice: number | null
+  oldCost: number | null
+  newCost: number | null
+  changedBy: string | null
+}
+
+type PriceAt = { productId: string; at: string; price: number | null; cost: number | null; effectiveFrom: string | null }
+
 type RecipeItem = {
   id: string
   ingredientProductId: string | null
@@ -143,6 +160,7 @@ async function createProduct(
     presentationFormat?: string
     cost?: number
     price?: number
+    taxCategory?: 'TAXED' | 'EXEMPT'
   },
 ): Promise<Product> {
   return apiFetch(`/api/v1/products`, {
@@ -163,6 +181,7 @@ async function updateProduct(
     presentationWrapper?: string | null
     presentationQuantity?: number | null
     presentationFormat?: string | null
+    taxCategory?: 'TAXED' | 'EXEMPT'
     isActive?: boolean
     photoUrl?: string | null
     photoKey?: string | null
@@ -240,6 +259,20 @@ async function listBatchMovements(token: string, productId: string, batchId: str
   return apiFetch(`/api/v1/products/${productId}/batches/${batchId}/movements`, { token })
 }
 
+async function fetchPriceHistory(token: string, productId: string): Promise<{ items: PriceHistoryEntry[] }> {
+  return apiFetch(`/api/v1/products/${productId}/price-history`, { token })
+}
+
+async function fetchPriceAt(token: string, productId: string, dateOnly: string): Promise<PriceAt> {
+  // End of the day, so changes made during that day count.
+  const params = new URLSearchParams({ at: new Date(`${dateOnly}T23:59:59`).toISOString() })
+  return apiFetch(`/api/v1/products/${productId}/price-at?${params}`, { token })
+}
+
+function formatAmount(value: number | null): string {
+  return value === null ? '—' : `Bs. ${value.toFixed(2)}`
+}
+
 async function fetchRecipe(token: string, productId: string): Promise<Recipe | null> {
   const url = `/api/v1/products/${productId}/recipe`
   const resp = await fetch(`${getApiBaseUrl()}${url}`, {
@@ -305,6 +338,8 @@ export function ProductDetailPage() {
   const params = useParams<{ id: string }>()
   const { id } = params
   const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canQa = perms.hasPermission('stock:qa:release')
   const isNew = id === 'new'
 
   // Form state
@@ -319,6 +354,7 @@ export function ProductDetailPage() {
   const [description, setDescription] = useState('')
   const [cost, setCost] = useState('')
   const [price, setPrice] = useState('')
+  const [taxCategory, setTaxCategory] = useState<'TAXED' | 'EXEMPT'>('TAXED')
   const [isActive, setIsActive] = useState(true)
 
   const wrapperOptions = ['caja', 'frasco', 'blister', 'botella', 'sobre', 'tubo']
@@ -405,7 +441,7 @@ export function ProductDetailPage() {
   // Batch form state
   const [expiresAt, setExpiresAt] = useState('')
   const [manufacturingDate, setManufacturingDate] = useState('')
-  const [batchStatus, setBatchStatus] = useState('RELEASED')
+  const [batchStatus, setBatchStatus] = useState('QUARANTINE')
   const [quarantineDays, setQuarantineDays] = useState<string>('')
   const [showBatchForm, setShowBatchForm] = useState(false)
   const [batchFormError, setBatchFormError] = useState<string>('')
@@ -439,6 +475,20 @@ export function ProductDetailPage() {
     enabled: !!auth.accessToken && !isNew && !!id,
   })
 
+  const [priceAtDate, setPriceAtDate] = useState('')
+
+  const priceHistoryQuery = useQuery({
+    queryKey: ['productPriceHistory', id],
+    queryFn: () => fetchPriceHistory(auth.accessToken!, id!),
+    enabled: !!auth.accessToken && !isNew && !!id,
+  })
+
+  const priceAtQuery = useQuery({
+    queryKey: ['productPriceAt', id, priceAtDate],
+    queryFn: () => fetchPriceAt(auth.accessToken!, id!, priceAtDate),
+    enabled: !!auth.accessToken && !isNew && !!id && !!priceAtDate,
+  })
+
   const recipeQuery = useQuery({
     queryKey: ['productRecipe', id],
     queryFn: () => fetchRecipe(auth.accessToken!, id!),
@@ -469,6 +519,7 @@ export function ProductDetailPage() {
       setDescription(productQuery.data.description || '')
       setCost(productQuery.data.cost || '')
       setPrice(productQuery.data.price || '')
+      setTaxCategory(productQuery.data.taxCategory ?? 'TAXED')
       setIsActive(productQuery.data.isActive)
 
       const savedWrap = (productQuery.data.presentationWrapper ?? '').trim().toLowerCase()
@@ -535,6 +586,7 @@ export function ProductDetailPage() {
       presentationFormat?: string
       cost?: number
       price?: number
+      taxCategory?: 'TAXED' | 'EXEMPT'
     }) => createProduct(auth.accessToken!, data),
   })
 
@@ -549,11 +601,14 @@ export function ProductDetailPage() {
       presentationFormat?: string | null
       cost?: number | null
       price?: number | null
+      taxCategory?: 'TAXED' | 'EXEMPT'
       isActive?: boolean
     }) =>
       updateProduct(auth.accessToken!, id!, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['product', id] })
+      queryClient.invalidateQueries({ queryKey: ['productPriceHistory', id] })
+      queryClient.invalidateQueries({ queryKey: ['productPriceAt', id] })
       queryClient.invalidateQueries({ queryKey: ['products'] })
     },
   })
@@ -584,7 +639,7 @@ export function ProductDetailPage() {
     onSuccess: () => {
       setExpiresAt('')
       setManufacturingDate('')
-      setBatchStatus('RELEASED')
+      setBatchStatus('QUARANTINE')
       setQuarantineDays('')
       setShowBatchForm(false)
       setBatchFormError('')
@@ -724,7 +779,7 @@ export function ProductDetailPage() {
     const hasPresentation = finalWrapper && finalFormat && Number.isFinite(qty) && qty > 0
     
     if (isNew) {
-      const payload: any = { sku, name, description: description || undefined }
+      const payload: any = { sku, name, description: description || undefined, taxCategory }
       if (genericName.trim()) payload.genericName = genericName.trim()
       if (hasPresentation) {
         payload.presentationWrapper = finalWrapper
@@ -763,6 +818,7 @@ export function ProductDetailPage() {
         name,
         genericName: genericName.trim() ? genericName.trim() : null,
         description: description || null,
+        taxCategory,
         isActive,
       }
       if (hasPresentation) {
@@ -1023,6 +1079,20 @@ export function ProductDetailPage() {
                 </div>
               </div>
               
+              <div className="group">
+                <Select
+                  label="Impuesto (IVA)"
+                  value={taxCategory}
+                  onChange={(e) => setTaxCategory(e.target.value as 'TAXED' | 'EXEMPT')}
+                  options={[
+                    { value: 'TAXED', label: 'Gravado' },
+                    { value: 'EXEMPT', label: 'Exento' },
+                  ]}
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  className="transition-all duration-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
               {!isNew && (
                 <div className="group">
                   <Select
@@ -1177,8 +1247,10 @@ export function ProductDetailPage() {
                                 {b.batchNumber}
                               </div>
                               <div className="text-xs text-slate-600 dark:text-slate-400">
-                                Estado: {b.status}
+                                Estado: {getBatchStatusDisplay(b.status).text}
+                                {b.statusReasonCode ? ` (${getBatchStatusReasonLabel(b.status, b.statusReasonCode)})` : ''}
                                 {b.expiresAt ? ` · Vence: ${new Date(b.expiresAt).toLocaleDateString()}` : ''}
+                                {b.supplier ? ` · Proveedor: ${b.supplier.name}` : ''}
                               </div>
                             </button>
 
@@ -1277,9 +1349,8 @@ export function ProductDetailPage() {
                     value={batchStatus}
                     onChange={(e) => setBatchStatus(e.target.value)}
                     options={[
-                      { value: 'RELEASED', label: 'Liberado' },
-                      { value: 'QUARANTINE', label: 'Cuarentena' },
-                      { value: 'REJECTED', label: 'Rechazado' },
+                      { value: 'QUARANTINE', label: 'Cuarentena (pendiente de QA)' },
+                      ...(canQa ? [{ value: 'RELEASED', label: 'Liberado' }] : []),
                     ]}
                     disabled={batchMutation.isPending}
                   />
@@ -1367,6 +1438,57 @@ export function ProductDetailPage() {
             </div>
           )}
 
+          {/* Price history (only for existing products) */}
+          {!isNew && (
+            <div className="rounded-lg border border-slate-200 bg-white p-6 md:col-span-2 dark:border-slate-700 dark:bg-slate-900">
+              <div className="mb-4 flex flex-wrap items-end justify-between gap-3">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Historial de precios</h3>
+                <div className="flex items-end gap-3">
+                  <div className="w-44">
+                    <Input label="Precio a la fecha" type="date" value={priceAtDate} onChange={(e) => setPriceAtDate(e.target.value)} />
+                  </div>
+                  {priceAtQuery.data && (
+                    <div className="pb-2 text-sm text-slate-700 dark:text-slate-300">
+                      Precio <span className="font-semibold">{formatAmount(priceAtQuery.data.price)}</span> · Costo{' '}
+                      <span className="font-semibold">{formatAmount(priceAtQuery.data.cost)}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {priceHistoryQuery.isLoading && <Loading />}
+              {priceHistoryQuery.error && <ErrorState message="Error al cargar el historial de precios" retry={priceHistoryQuery.refetch} />}
+              {priceHistoryQuery.data && priceHistoryQuery.data.items.length === 0 && (
+                <p className="text-sm text-slate-600 dark:text-slate-400">Sin cambios de precio o costo registrados.</p>
+              )}
+              {priceHistoryQuery.data && priceHistoryQuery.data.items.length > 0 && (
+                <ol className="relative ml-2 border-l border-slate-200 dark:border-slate-700">
+                  {priceHistoryQuery.data.items.map((h) => (
+                    <li key={h.id} className="mb-4 ml-4">
+                      <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-[var(--pf-primary)] dark:border-slate-900" />
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        {new Date(h.effectiveFrom).toLocaleString()}
+                        {h.changedBy ? ` · ${h.changedBy}` : ''}
+                      </div>
+                      <div className="text-sm text-slate-900 dark:text-slate-100">
+                        {h.oldPrice !== h.newPrice && (
+                          <span className="mr-4">
+                            Precio: {formatAmount(h.oldPrice)} → <span className="font-semibold">{formatAmount(h.newPrice)}</span>
+                          </span>
+                        )}
+                        {h.oldCost !== h.newCost && (
+                          <span>
+                            Costo: {formatAmount(h.oldCost)} → <span className="font-semibold">{formatAmount(h.newCost)}</span>
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
           {/* Recipe (only for existing products) */}
           {!isNew && (
             <div className="rounded-lg border border-slate-200 bg-white p-6 md:col-span-2 dark:border-slate-700 dark:bg-slate-900">
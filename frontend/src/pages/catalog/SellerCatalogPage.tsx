@@ -19,7 +19,7 @@ import {
   MapSelector,
   PaginationCursor,
 } from '../../components'
-import { useNavigation, useMediaQuery } from '../../hooks'
+import { useNavigation, useMediaQuery, useCustomerPrices, useExchangeRates } from '../../hooks'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { exportQuoteToPDF } from '../../lib/quotePdf'
 
@@ -39,8 +39,7 @@ type CustomerListItem = {
   id: string
   name: string
   isActive: boolean
-  creditDays7Enabled?: boolean
-  creditDays14Enabled?: boolean
+  paymentTerms?: Array<{ id: string; code: string; name: string; days: number; isActive: boolean }>
 }
 
 type CustomerListResponse = { items: CustomerListItem[]; nextCursor: string | null }
@@ -76,10 +75,13 @@ async function fetchBalancesExpanded(token: string): Promise<{ items: BalanceExp
 type QuoteCreateResponse = {
   id: string
   number: string
+  revision: number
   customerId: string
   customerName: string
-  status: 'CREATED' | 'PROCESSED'
+  status: 'CREATED' | 'PENDING_APPROVAL' | 'PROCESSED' | 'EXPIRED' | 'REJECTED' | 'CANCELLED'
   quotedBy: string | null
+  currency: string
+  exchangeRate: number
   validityDays: number
   paymentMode: string
   deliveryDays: number
@@ -92,6 +94,8 @@ type QuoteCreateResponse = {
   note: string | null
   subtotal: number
   globalDiscountAmount: number
+  netTotal: number
+  taxTotal: number
   total: number
   lines: Array<{
     id: string
@@ -101,6 +105,7 @@ type QuoteCreateResponse = {
     quantity: number
     unitPrice: number
     discountPct: number
+    isBonus: boolean
   }>
   createdAt: string
 }
@@ -110,8 +115,10 @@ type QuoteDetailForEdit = {
   number: string
   customerId: string
   customerName: string
-  status: 'CREATED' | 'PROCESSED'
+  status: 'CREATED' | 'PENDING_APPROVAL' | 'PROCESSED' | 'EXPIRED' | 'REJECTED' | 'CANCELLED'
   quotedBy: string | null
+  currency: string
+  exchangeRate: number
   validityDays: number
   paymentMode: string
   deliveryDays: number
@@ -134,6 +141,8 @@ type QuoteDetailForEdit = {
     unitPrice: number
     discountPct: number
     total: number
+    basePrice: number | null
+    isBonus: boolean
   }>
   createdAt: string
   updatedAt: string
@@ -143,7 +152,9 @@ async function createQuote(
   token: string,
   data: {
     customerId: string
+    currency?: string
     validityDays: number
+    paymentTermId?: string
     paymentMode: string
     deliveryDays: number
     deliveryCity?: string
@@ -164,7 +175,9 @@ async function updateQuote(
   quoteId: string,
   data: {
     customerId: string
+    currency?: string
     validityDays: number
+    paymentTermId?: string
     paymentMode: string
     deliveryDays: number
     deliveryCity?: string
@@ -180,6 +193,44 @@ async function updateQuote(
   return apiFetch(`/api/v1/sales/quotes/${quoteId}`, { token, method: 'PUT', body: JSON.stringify(data) })
 }
 
+type MarginCheckResponse = {
+  minMarginPct: number
+  canSellBelowCost: boolean
+  lines: Array<{ productId: string; netUnitPrice: number; cost: number | null; marginPct: number | null; flag: 'BELOW_COST' | 'LOW_MARGIN' | null }>
+}
+
+async function checkMargins(
+  token: string,
+  data: {
+    currency?: string
+    globalDiscountPct: number
+    lines: Array<{ productId: string; quantity: number; unitPrice: number; discountPct: number }>
+  },
+): Promise<MarginCheckResponse> {
+  return apiFetch(`/api/v1/sales/quotes/margin-check`, { token, method: 'POST', body: JSON.stringify(data) })
+}
+
+type PromotionPreviewResponse = {
+  lines: Array<{
+    productId: string
+    quantity: number
+    unitPrice: number
+    basePrice: number | null
+    promotionId: string | null
+    promotionName: string | null
+    isBonus: boolean
+    productSku: string | null
+    productName: string | null
+  }>
+}
+
+async function previewPromotions(
+  token: string,
+  data: { currency?: string; lines: Array<{ productId: string; quantity: number; unitPrice: number; discountPct: number }> },
+): Promise<PromotionPreviewResponse> {
+  return apiFetch(`/api/v1/sales/promotions/preview`, { token, method: 'POST', body: JSON.stringify(data) })
+}
+
 async function fetchQuoteForEdit(token: string, quoteId: string): Promise<QuoteDetailForEdit> {
   return apiFetch(`/api/v1/sales/quotes/${quoteId}`, { token })
 }
@@ -204,6 +255,21 @@ type StockSummary = {
   warehouses: WarehouseStock[]
 }
 
+// Quote modal row: a cart item, or a bonus line granted by a promotion.
+type QuoteTableRow = {
+  key: string
+  productId: string
+  sku: string | null
+  name: string | null
+  quantity: number
+  discountPct: number
+  unitPrice: number
+  promoPrice: number
+  promotionName: string | null
+  isBonus: boolean
+  lineTotal: number
+}
+
 function money(n: number): string {
   if (!Number.isFinite(n)) return '0.00'
   return n.toFixed(2)
@@ -226,7 +292,10 @@ export function SellerCatalogPage() {
   const cart = useCart()
   const tenant = useTenant()
   const theme = useTheme()
-  const currency = tenant.branding?.currency || 'BOB'
+  const exchangeRates = useExchangeRates()
+  const baseCurrency = exchangeRates.baseCurrency ?? (tenant.branding?.currency || 'BOB')
+  // Cart prices are shown and saved in the quote currency; catalog prices are converted at today's rate.
+  const currency = cart.currency || baseCurrency
 
   // Media query for compact button: screens < 480px or >= 1024px
   const isCompactButton = useMediaQuery('(max-width: 480px) or (min-width: 1024px)')
@@ -237,7 +306,8 @@ export function SellerCatalogPage() {
   const [currentPage, setCurrentPage] = useState(1)
   const take = 20
 
-  const [customerId, setCustomerId] = useState('')
+  // The customer lives in the cart so both catalogs price products with the customer's price list.
+  const customerId = cart.customerId
 
   const [quoteOpen, setQuoteOpen] = useState(false)
 
@@ -277,7 +347,8 @@ export function SellerCatalogPage() {
   useEffect(() => {
     if (isEditing) return
     cart.clearCart()
-    setCustomerId('')
+    cart.setCustomerId('')
+    cart.setCurrency('')
     setValidityDays('7')
     setPaymentMode('CASH')
     setGlobalDiscountPct('0')
@@ -318,6 +389,7 @@ export function SellerCatalogPage() {
       sku: product.sku,
       name: getProductDisplayName(product),
       price: parseFloat(product.price || '0'),
+      catalogPrice: parseFloat(product.price || '0'),
       quantity: quantity,
       photoUrl: product.photoUrl || null,
     })
@@ -359,6 +431,47 @@ export function SellerCatalogPage() {
     enabled: !!auth.accessToken && !!quoteId,
   })
 
+  // Margin preview of the cart, so lines under cost or the minimum margin are visible before saving.
+  const marginInput = useMemo(
+    () => ({
+      currency,
+      globalDiscountPct: clampPct(Number(globalDiscountPct)),
+      lines: cart.items
+        .filter((i) => Number.isFinite(i.quantity) && i.quantity > 0)
+        .map((i) => ({ productId: i.id, quantity: i.quantity, unitPrice: i.price, discountPct: clampPct(i.discountPct ?? 0) })),
+    }),
+    [cart.items, globalDiscountPct, currency],
+  )
+  const marginQuery = useQuery({
+    queryKey: ['quoteMarginCheck', marginInput],
+    queryFn: () => checkMargins(auth.accessToken!, marginInput),
+    enabled: !!auth.accessToken && marginInput.lines.length > 0,
+  })
+  const marginByProduct = new Map((marginQuery.data?.lines ?? []).map((m) => [m.productId, m] as const))
+
+  // Promotions are applied by the server when saving; the preview shows promotional prices and bonus units meanwhile.
+  const promotionQuery = useQuery({
+    queryKey: ['promotionPreview', currency, marginInput.lines],
+    queryFn: () => previewPromotions(auth.accessToken!, { currency, lines: marginInput.lines }),
+    enabled: !!auth.accessToken && marginInput.lines.length > 0,
+  })
+  const promotionByProduct = new Map(
+    (promotionQuery.data?.lines ?? []).filter((l) => !l.isBonus && l.promotionId).map((l) => [l.productId, l] as const),
+  )
+  const bonusLines = (promotionQuery.data?.lines ?? []).filter((l) => l.isBonus)
+  const effectivePrice = (i: { id: string; price: number }) => {
+    const promo = promotionByProduct.get(i.id)
+    // Ignore a preview computed for a price the seller has since changed.
+    return promo && promo.basePrice === i.price ? promo.unitPrice : i.price
+  }
+  const hasBelowCost = (marginQuery.data?.lines ?? []).some((m) => m.flag === 'BELOW_COST')
+  const marginRowClass = (productId: string) => {
+    const flag = marginByProduct.get(productId)?.flag
+    if (flag === 'BELOW_COST') return 'bg-red-50/60 dark:bg-red-900/10'
+    if (flag === 'LOW_MARGIN') return 'bg-amber-50/60 dark:bg-amber-900/10'
+    return ''
+  }
+
   const handleGoBack = () => {
     if (cursorHistory.length > 0) {
       const previousCursor = cursorHistory[cursorHistory.length - 1]
@@ -382,7 +495,8 @@ export function SellerCatalogPage() {
     loadedQuoteIdRef.current = quoteForEditQuery.data.id
 
     const q = quoteForEditQuery.data
-    setCustomerId(q.customerId)
+    cart.setCustomerId(q.customerId)
+    cart.setCurrency(q.currency)
     setValidityDays(String(q.validityDays ?? 7))
     setPaymentMode(q.paymentMode ?? 'CASH')
     setDeliveryDays(String(q.deliveryDays ?? 1))
@@ -396,12 +510,13 @@ export function SellerCatalogPage() {
     deliveryTouchedRef.current = true
 
     cart.clearCart()
-    for (const line of q.lines) {
+    // Bonus lines and promotional prices are recomputed on save, so the cart holds only the priced lines at their base price.
+    for (const line of q.lines.filter((l) => !l.isBonus)) {
       cart.addItem({
         id: line.productId,
         sku: line.productSku,
         name: line.productName,
-        price: line.unitPrice,
+        price: line.basePrice ?? line.unitPrice,
         quantity: line.quantity,
         discountPct: line.discountPct,
         photoUrl: null,
@@ -455,6 +570,7 @@ export function SellerCatalogPage() {
 
       const quoteInEdit = quoteForEditQuery.data
       if (quoteInEdit?.status === 'PROCESSED') throw new Error('La cotización ya fue procesada y no se puede editar')
+      if (quoteInEdit?.status === 'REJECTED' || quoteInEdit?.status === 'CANCELLED') throw new Error('La cotización está cerrada y no se puede editar')
 
       const lines = cart.items.map((i) => ({
         productId: i.id,
@@ -465,7 +581,9 @@ export function SellerCatalogPage() {
 
       const payload = {
         customerId,
+        currency,
         validityDays: Number(validityDays) || 7,
+        ...(selectedTerm && { paymentTermId: selectedTerm.id }),
         paymentMode,
         deliveryDays: Number(deliveryDays) || 1,
         deliveryCity: deliveryMode === 'custom' ? (deliveryCity.trim() || undefined) : undefined,
@@ -494,6 +612,7 @@ export function SellerCatalogPage() {
       const paymentLabel = paymentOptions.find((o) => o.value === paymentMode)?.label ?? paymentMode
       await exportQuoteToPDF({
         quoteNumber: created.number,
+        revision: created.revision,
         customerName: created.customerName,
         quotedBy: created.quotedBy ?? undefined,
         validityDays: String(created.validityDays),
@@ -509,7 +628,7 @@ export function SellerCatalogPage() {
           const line = l.unitPrice * l.quantity * (1 - disc)
           return {
             sku: l.productSku,
-            name: l.productName,
+            name: l.isBonus ? `${l.productName} (bonificación)` : l.productName,
             quantity: l.quantity,
             discountPct: clampPct(l.discountPct),
             unitPrice: l.unitPrice,
@@ -518,11 +637,17 @@ export function SellerCatalogPage() {
         }),
         subtotal: created.subtotal,
         globalDiscountAmount: created.globalDiscountAmount,
+        netTotal: created.netTotal,
+        taxTotal: created.taxTotal,
         totalAfterGlobal: created.total,
-        currency,
+        currency: created.currency,
         tenant,
       })
 
+      if (created.status === 'PENDING_APPROVAL') {
+        window.alert(`Cotización ${created.number} guardada. Los descuentos superan su límite: quedó pendiente de aprobación.`)
+      }
+
       cart.clearCart()
       setQuoteOpen(false)
       navigate(`/sales/quotes?highlight=${encodeURIComponent(created.id)}`)
@@ -533,6 +658,7 @@ export function SellerCatalogPage() {
   })
 
   const activeProducts = searchResults || productsQuery.data?.items.filter((p) => p.isActive) || []
+  const customerPrices = useCustomerPrices(customerId, activeProducts.map((p) => p.id))
 
   const stockByProduct = useMemo(() => {
     const map = new Map<string, StockSummary>()
@@ -564,38 +690,41 @@ export function SellerCatalogPage() {
 
   const selectedCustomer = (customersQuery.data?.items ?? []).find((c) => c.id === customerId) ?? null
 
+  // Credit terms enabled for the customer (options are keyed by term code; CASH is always available).
+  const customerCreditTerms = useMemo(
+    () => (selectedCustomer?.paymentTerms ?? []).filter((t) => t.isActive && t.days > 0),
+    [selectedCustomer?.paymentTerms],
+  )
+  const selectedTerm = customerCreditTerms.find((t) => t.code === paymentMode) ?? null
+
   const paymentOptions = useMemo(() => {
     const options = [{ value: 'CASH', label: '💵 Pago al contado' }]
 
-    if (selectedCustomer?.creditDays7Enabled) options.push({ value: 'CREDIT_7', label: '🗓️ Crédito 7 días' })
-    if (selectedCustomer?.creditDays14Enabled) options.push({ value: 'CREDIT_14', label: '🗓️ Crédito 14 días' })
+    for (const t of customerCreditTerms) options.push({ value: t.code, label: `🗓️ ${t.name}` })
 
     if (paymentMode && !options.some((o) => o.value === paymentMode)) {
       options.push({ value: paymentMode, label: paymentMode })
     }
 
     return options
-  }, [selectedCustomer?.creditDays7Enabled, selectedCustomer?.creditDays14Enabled, paymentMode])
+  }, [customerCreditTerms, paymentMode])
 
   const canGenerate = !!customerId && cart.items.length > 0
 
-  const subtotal = useMemo(() => {
-    return cart.items.reduce((sum, i) => {
-      const disc = clampPct(i.discountPct ?? 0) / 100
-      return sum + i.price * i.quantity * (1 - disc)
-    }, 0)
-  }, [cart.items])
+  // Not memoized: promotional prices come from the preview query.
+  const subtotal = cart.items.reduce((sum, i) => {
+    const disc = clampPct(i.discountPct ?? 0) / 100
+    return sum + effectivePrice(i) * i.quantity * (1 - disc)
+  }, 0)
 
-  const globalDiscountAmount = useMemo(() => {
-    const gd = clampPct(Number(globalDiscountPct)) / 100
-    return subtotal * gd
-  }, [subtotal, globalDiscountPct])
+  const globalDiscountAmount = subtotal * (clampPct(Number(globalDiscountPct)) / 100)
 
   const totalAfterGlobal = Math.max(0, subtotal - globalDiscountAmount)
 
   const quoteInEdit = quoteForEditQuery.data
   const isProcessedQuote = !!(isEditing && quoteInEdit?.status === 'PROCESSED')
-  const modalReadOnly = isProcessedQuote || showSaveSuccess
+  const isClosedQuote = !!(isEditing && (quoteInEdit?.status === 'REJECTED' || quoteInEdit?.status === 'CANCELLED'))
+  const modalReadOnly = isProcessedQuote || isClosedQuote || showSaveSuccess
 
   return (
     <MainLayout navGroups={navGroups}>
@@ -613,7 +742,7 @@ export function SellerCatalogPage() {
           <Select
             label="👥 Cliente final"
             value={customerId}
-            onChange={(e) => setCustomerId(e.target.value)}
+            onChange={(e) => cart.setCustomerId(e.target.value)}
             options={[
               { value: '', label: 'Seleccioná...' },
               ...(customersQuery.data?.items ?? [])
@@ -622,6 +751,24 @@ export function SellerCatalogPage() {
             ]}
             disabled={customersQuery.isLoading}
           />
+          <Select
+            label="💱 Moneda"
+            value={currency}
+            onChange={(e) => cart.setCurrency(e.target.value === baseCurrency ? '' : e.target.value)}
+            options={[
+              { value: baseCurrency, label: baseCurrency },
+              ...(exchangeRates.query.data?.current ?? []).map((r) => ({
+                value: r.currency,
+                label: `${r.currency} (1 = ${r.rate} ${baseCurrency})`,
+              })),
+              ...(currency !== baseCurrency && !exchangeRates.rates.has(currency) ? [{ value: currency, label: currency }] : []),
+            ]}
+          />
+          {cart.priceList && (
+            <div className="text-xs text-slate-600 dark:text-slate-300 md:col-span-2">
+              🏷️ Lista de precios: <span className="font-semibold">{cart.priceList.name}</span>
+            </div>
+          )}
 
           <div className="flex items-end gap-2">
             <Button
@@ -697,7 +844,12 @@ export function SellerCatalogPage() {
 
                         <div className="flex items-center justify-between">
                           <div className="text-base font-bold text-slate-900 dark:text-white">
-                            {money(parseFloat(p.price || '0'))} {currency}
+                            {customerPrices.prices.has(p.id) && customerPrices.prices.get(p.id) !== parseFloat(p.price || '0') && (
+                              <div className="text-xs font-normal text-slate-400 line-through">
+                                {money(parseFloat(p.price || '0') / cart.exchangeRate)}
+                              </div>
+                            )}
+                            {money((customerPrices.prices.get(p.id) ?? parseFloat(p.price || '0')) / cart.exchangeRate)} {currency}
                           </div>
                           <div className="text-xs font-semibold text-slate-700 dark:text-slate-200">
                             Stock: {totalStock}
@@ -773,7 +925,7 @@ export function SellerCatalogPage() {
             ) : (
               <div className="mt-3 space-y-3">
                 {cart.items.map((i) => (
-                  <div key={i.id} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                  <div key={i.id} className={`rounded-lg border border-slate-200 dark:border-slate-700 p-3 ${marginRowClass(i.id)}`}>
                     <div className="text-sm font-medium text-slate-900 dark:text-slate-100">{i.name}</div>
                     <div className="mt-2 grid grid-cols-2 gap-2">
                       <Input
@@ -802,9 +954,36 @@ export function SellerCatalogPage() {
                     <div className="mt-2 flex justify-between text-xs text-slate-600 dark:text-slate-400">
                       <span>Unitario:</span>
                       <span>
-                        {money(i.price)} {currency}
+                        {effectivePrice(i) !== i.price && <span className="mr-1 line-through">{money(i.price)}</span>}
+                        {money(effectivePrice(i))} {currency}
                       </span>
                     </div>
+                    {promotionByProduct.get(i.id) && (
+                      <div className="mt-1 text-xs text-emerald-700 dark:text-emerald-300">🎁 {promotionByProduct.get(i.id)?.promotionName}</div>
+                    )}
+                    {marginByProduct.get(i.id)?.flag && (
+                      <div
+                        className={`mt-1 text-xs ${
+                          marginByProduct.get(i.id)?.flag === 'BELOW_COST' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'
+                        }`}
+                      >
+                        {marginByProduct.get(i.id)?.flag === 'BELOW_COST'
+                          ? 'Precio neto bajo el costo'
+                          : `Margen ${marginByProduct.get(i.id)?.marginPct?.toFixed(1)}% (mínimo ${marginQuery.data?.minMarginPct}%)`}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {bonusLines.map((b) => (
+                  <div
+                    key={`bonus-${b.promotionId}`}
+                    className="rounded-lg border border-emerald-200 bg-emerald-50/60 p-3 text-sm dark:border-emerald-800 dark:bg-emerald-900/10"
+                  >
+                    <div className="font-medium text-slate-900 dark:text-slate-100">
+                      🎁 {b.quantity} × {b.productName ?? b.productSku}
+                    </div>
+                    <div className="text-xs text-emerald-700 dark:text-emerald-300">Bonificación sin costo · {b.promotionName}</div>
                   </div>
                 ))}
 
@@ -876,6 +1055,32 @@ export function SellerCatalogPage() {
               </div>
             )}
 
+            {isClosedQuote && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100">
+                Esta cotización fue rechazada o anulada y es solo lectura.
+              </div>
+            )}
+
+            {isEditing && quoteInEdit?.status === 'PENDING_APPROVAL' && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100">
+                Esta cotización está pendiente de aprobación de descuentos. Al guardarla se vuelven a evaluar los descuentos.
+              </div>
+            )}
+
+            {isEditing && quoteInEdit?.status === 'EXPIRED' && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100">
+                Esta cotización venció. Al guardarla se confirman los precios y su validez vuelve a contar desde hoy.
+              </div>
+            )}
+
+            {hasBelowCost && (
+              <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-200">
+                {marginQuery.data?.canSellBelowCost
+                  ? 'Hay productos con precio neto bajo el costo. Al guardar, la venta bajo costo quedará registrada en auditoría.'
+                  : 'Hay productos con precio neto bajo el costo. Ajuste precios o descuentos para poder guardar.'}
+              </div>
+            )}
+
             {quoteActionError && (
               <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-200">
                 {quoteActionError}
@@ -1077,10 +1282,23 @@ export function SellerCatalogPage() {
                 <div className="min-w-[600px]">
                   <Table
                   columns={[
-                    { header: 'Producto', accessor: (r: any) => r.name },
+                    {
+                      header: 'Producto',
+                      accessor: (r: QuoteTableRow) => (
+                        <div>
+                          <div>{r.name}</div>
+                          {r.promotionName && (
+                            <div className="text-xs text-emerald-700 dark:text-emerald-300">
+                              🎁 {r.isBonus ? 'Bonificación' : 'Promoción'}: {r.promotionName}
+                              {!r.isBonus && ` (${money(r.promoPrice)} ${currency})`}
+                            </div>
+                          )}
+                        </div>
+                      ),
+                    },
                     {
                       header: 'Cantidad',
-                      accessor: (r: any) => (
+                      accessor: (r: QuoteTableRow) => r.isBonus ? r.quantity : (
                         <Input
                           type="number"
                           value={String(r.quantity)}
@@ -1101,7 +1319,7 @@ export function SellerCatalogPage() {
                     },
                     {
                       header: 'Desc. %',
-                      accessor: (r: any) => (
+                      accessor: (r: QuoteTableRow) => r.isBonus ? '-' : (
                         <Input
                           type="number"
                           value={String(r.discountPct)}
@@ -1116,7 +1334,7 @@ export function SellerCatalogPage() {
                     },
                     {
                       header: `P. Unit (${currency})`,
-                      accessor: (r: any) => (
+                      accessor: (r: QuoteTableRow) => r.isBonus ? money(0) : (
                         <Input
                           type="number"
                           value={String(r.unitPrice)}
@@ -1130,24 +1348,44 @@ export function SellerCatalogPage() {
                     },
                     {
                       header: 'Total',
-                      accessor: (r: any) => `${money(r.lineTotal)} ${currency}`,
+                      accessor: (r: QuoteTableRow) => `${money(r.lineTotal)} ${currency}`,
                     },
                   ]}
-                  data={cart.items.map((i) => {
-                    const disc = clampPct(i.discountPct ?? 0) / 100
-                    const unit = i.price
-                    const line = unit * i.quantity * (1 - disc)
-                    return {
-                      productId: i.id,
-                      sku: i.sku,
-                      name: i.name,
-                      quantity: i.quantity,
-                      discountPct: clampPct(i.discountPct ?? 0),
-                      unitPrice: unit,
-                      lineTotal: line,
-                    }
-                  })}
-                  keyExtractor={(r: any) => r.productId}
+                  data={[
+                    ...cart.items.map((i) => {
+                      const disc = clampPct(i.discountPct ?? 0) / 100
+                      const unit = i.price
+                      const line = effectivePrice(i) * i.quantity * (1 - disc)
+                      return {
+                        key: i.id,
+                        productId: i.id,
+                        sku: i.sku,
+                        name: i.name,
+                        quantity: i.quantity,
+                        discountPct: clampPct(i.discountPct ?? 0),
+                        unitPrice: unit,
+                        promoPrice: effectivePrice(i),
+                        promotionName: effectivePrice(i) !== unit ? promotionByProduct.get(i.id)?.promotionName ?? null : null,
+                        isBonus: false,
+                        lineTotal: line,
+                      }
+                    }),
+                    ...bonusLines.map((b) => ({
+                      key: `bonus-${b.promotionId}`,
+                      productId: b.productId,
+                      sku: b.productSku,
+                      name: b.productName,
+                      quantity: b.quantity,
+                      discountPct: 0,
+                      unitPrice: 0,
+                      promoPrice: 0,
+                      promotionName: b.promotionName,
+                      isBonus: true,
+                      lineTotal: 0,
+                    })),
+                  ]}
+                  keyExtractor={(r: QuoteTableRow) => r.key}
+                  rowClassName={(r: QuoteTableRow) => (r.isBonus ? 'bg-emerald-50/60 dark:bg-emerald-900/10' : marginRowClass(r.productId))}
                 />
                 </div>
               </div>
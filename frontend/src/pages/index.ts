@@ -11,6 +11,9 @@ export * from './warehouse'
 // Stock
 export * from './stock'
 
+// Purchases
+export * from './purchases'
+
 // Sales
 export * from './sales'
 
@@ -0,0 +1,447 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Button, Modal, Input, Select, Badge } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PurchaseOrderStatusBadge, type PurchaseOrderStatus } from './PurchaseOrdersPage'
+
+type ReceiptStatus = 'PENDING' | 'PARTIAL' | 'COMPLETE' | 'OVER' | 'SHORT'
+
+type OrderLine = {
+  id: string
+  productId: string
+  quantity: number
+  receivedQuantity: number
+  unitCost: number
+  lineTotal: number
+  expectedAt: string | null
+  variance: number
+  receiptStatus: ReceiptStatus
+  product: { sku: string; name: string; genericName: string | null }
+}
+
+type ReceiptLine = {
+  id: string
+  purchaseOrderLineId: string
+  quantity: number
+  product: { sku: string; name: string }
+  batch: { id: string; batchNumber: string; expiresAt: string | null }
+  location: { id: string; code: string }
+}
+
+type Receipt = {
+  id: string
+  number: string
+  note: string | null
+  receivedAt: string
+  receivedByName: string | null
+  lines: ReceiptLine[]
+}
+
+type OrderDetail = {
+  id: string
+  number: string
+  status: PurchaseOrderStatus
+  expectedAt: string | null
+  note: string | null
+  closeReason: string | null
+  version: number
+  createdAt: string
+  sentAt: string | null
+  closedAt: string | null
+  createdByName: string | null
+  sentByName: string | null
+  closedByName: string | null
+  totalAmount: number
+  supplier: { id: string; name: string; taxId: string | null }
+  warehouse: { id: string; code: string; name: string; city: string | null }
+  lines: OrderLine[]
+  receipts: Receipt[]
+}
+
+type LocationListItem = { id: string; code: string; isActive: boolean }
+
+type ReceiptDraft = { quantity: string; batchNumber: string; manufacturingDate: string; expiresAt: string; locationId: string }
+
+type ReceiptLineInput = {
+  lineId: string
+  quantity: number
+  locationId?: string
+  batch?: { batchNumber?: string; manufacturingDate?: string; expiresAt?: string }
+}
+
+async function fetchOrder(token: string, id: string): Promise<OrderDetail> {
+  return apiFetch(`/api/v1/purchase-orders/${encodeURIComponent(id)}`, { token })
+}
+
+async function listWarehouseLocations(token: string, warehouseId: string): Promise<{ items: LocationListItem[] }> {
+  return apiFetch(`/api/v1/warehouses/${warehouseId}/locations?take=100`, { token })
+}
+
+async function orderAction(token: string, id: string, action: 'send' | 'cancel', version: number) {
+  return apiFetch(`/api/v1/purchase-orders/${encodeURIComponent(id)}/${action}`, { token, method: 'POST', body: JSON.stringify({ version }) })
+}
+
+async function closeOrder(token: string, id: string, version: number, reason: string) {
+  return apiFetch(`/api/v1/purchase-orders/${encodeURIComponent(id)}/close`, {
+    token,
+    method: 'POST',
+    body: JSON.stringify({ version, reason }),
+  })
+}
+
+async function createReceipt(
+  token: string,
+  id: string,
+  input: { note?: string; lines: ReceiptLineInput[] },
+): Promise<{ overReceived: Array<{ lineId: string; excess: number }> }> {
+  return apiFetch(`/api/v1/purchase-orders/${encodeURIComponent(id)}/receipts`, { token, method: 'POST', body: JSON.stringify(input) })
+}
+
+function formatQty(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+function dateOnlyToUtcIso(dateOnly: string): string {
+  const [y, m, d] = dateOnly.split('-').map((v) => Number(v))
+  return new Date(Date.UTC(y, (m ?? 1) - 1, d ?? 1, 0, 0, 0, 0)).toISOString()
+}
+
+function ReceiptStatusBadge({ status }: { status: ReceiptStatus }) {
+  if (status === 'COMPLETE') return <Badge variant="success">Completo</Badge>
+  if (status === 'PARTIAL') return <Badge variant="info">Parcial</Badge>
+  if (status === 'OVER') return <Badge variant="warning">Sobre-recepción</Badge>
+  if (status === 'SHORT') return <Badge variant="danger">Faltante</Badge>
+  return <Badge variant="default">Pendiente</Badge>
+}
+
+function varianceCell(v: number) {
+  const cls = v > 0 ? 'text-amber-700 dark:text-amber-400' : v < 0 ? 'text-red-700 dark:text-red-400' : ''
+  return <span className={cls}>{v > 0 ? `+${formatQty(v)}` : formatQty(v)}</span>
+}
+
+export function PurchaseOrderDetailPage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const params = useParams<{ id: string }>()
+  const id = params.id ?? ''
+
+  const canWrite = perms.hasPermission('purchase:write')
+  const canReceive = perms.hasPermission('purchase:receive')
+
+  const [showReceive, setShowReceive] = useState(false)
+  const [receiptNote, setReceiptNote] = useState('')
+  const [drafts, setDrafts] = useState<Record<string, ReceiptDraft>>({})
+
+  const orderQuery = useQuery({
+    queryKey: ['purchaseOrder', id],
+    queryFn: () => fetchOrder(auth.accessToken!, id),
+    enabled: !!auth.accessToken && !!id,
+  })
+
+  const order = orderQuery.data
+  const receivable = order?.status === 'SENT' || order?.status === 'PARTIALLY_RECEIVED'
+
+  const locationsQuery = useQuery({
+    queryKey: ['warehouseLocations', order?.warehouse.id],
+    queryFn: () => listWarehouseLocations(auth.accessToken!, order!.warehouse.id),
+    enabled: !!auth.accessToken && !!order && showReceive,
+  })
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['purchaseOrder', id] })
+    await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+  }
+
+  const actionMutation = useMutation({
+    mutationFn: (action: 'send' | 'cancel') => orderAction(auth.accessToken!, id, action, order!.version),
+    onSuccess: refresh,
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo completar la acción')
+    },
+  })
+
+  const closeMutation = useMutation({
+    mutationFn: (reason: string) => closeOrder(auth.accessToken!, id, order!.version, reason),
+    onSuccess: refresh,
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo cerrar la orden')
+    },
+  })
+
+  const openReceive = () => {
+    if (!order) return
+    // Prefill what is still pending on each line.
+    setDrafts(
+      Object.fromEntries(
+        order.lines.map((l) => [
+          l.id,
+          { quantity: l.variance < 0 ? String(-l.variance) : '', batchNumber: '', manufacturingDate: '', expiresAt: '', locationId: '' },
+        ]),
+      ),
+    )
+    setReceiptNote('')
+    setShowReceive(true)
+  }
+
+  const updateDraft = (lineId: string, patch: Partial<ReceiptDraft>) => {
+    setDrafts((prev) => ({ ...prev, [lineId]: { ...prev[lineId]!, ...patch } }))
+  }
+
+  const receiptLines: ReceiptLineInput[] = Object.entries(drafts)
+    .filter(([, d]) => Number(d.quantity) > 0)
+    .map(([lineId, d]) => {
+      const batch = {
+        ...(d.batchNumber.trim() ? { batchNumber: d.batchNumber.trim() } : {}),
+        ...(d.manufacturingDate ? { manufacturingDate: dateOnlyToUtcIso(d.manufacturingDate) } : {}),
+        ...(d.expiresAt ? { expiresAt: dateOnlyToUtcIso(d.expiresAt) } : {}),
+      }
+      return {
+        lineId,
+        quantity: Number(d.quantity),
+        ...(d.locationId ? { locationId: d.locationId } : {}),
+        ...(Object.keys(batch).length > 0 ? { batch } : {}),
+      }
+    })
+
+  const receiveMutation = useMutation({
+    mutationFn: () =>
+      createReceipt(auth.accessToken!, id, { ...(receiptNote.trim() ? { note: receiptNote.trim() } : {}), lines: receiptLines }),
+    onSuccess: async (res) => {
+      setShowReceive(false)
+      await refresh()
+      if (res.overReceived.length > 0) {
+        window.alert(`Se recibió más de lo pedido en ${res.overReceived.length} línea(s). Quedó registrado como sobre-recepción.`)
+      }
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo registrar la recepción')
+    },
+  })
+
+  const confirmAction = (action: 'send' | 'cancel', text: string) => {
+    if (window.confirm(text)) actionMutation.mutate(action)
+  }
+
+  const requestClose = () => {
+    const reason = window.prompt('Motivo del cierre (lo pendiente quedará como faltante):')
+    if (reason && reason.trim().length >= 3) closeMutation.mutate(reason.trim())
+  }
+
+  const activeLocations = (locationsQuery.data?.items ?? []).filter((l) => l.isActive)
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title={order ? `Orden de compra ${order.number}` : 'Orden de compra'}
+        actions={
+          <Button variant="secondary" onClick={() => navigate('/purchases/orders')}>
+            Volver
+          </Button>
+        }
+      >
+        {orderQuery.isLoading && <Loading />}
+        {orderQuery.error && <ErrorState message="Error al cargar la orden de compra" retry={orderQuery.refetch} />}
+
+        {order && (
+          <div className="space-y-6">
+            <div className="grid gap-4 rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900 md:grid-cols-3">
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Estado</div>
+                <div className="mt-1"><PurchaseOrderStatusBadge status={order.status} /></div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Proveedor</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {order.supplier.name} {order.supplier.taxId ? `· NIT ${order.supplier.taxId}` : ''}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Sucursal de recepción</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {order.warehouse.code} - {order.warehouse.name}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Entrega esperada</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {order.expectedAt ? new Date(order.expectedAt).toLocaleDateString() : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Creada / Enviada</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {order.createdByName ?? '-'} / {order.sentAt ? `${new Date(order.sentAt).toLocaleDateString()} · ${order.sentByName ?? '-'}` : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Total</div>
+                <div className="mt-1 font-medium text-slate-900 dark:text-slate-100">{order.totalAmount.toFixed(2)}</div>
+              </div>
+              {order.closeReason && (
+                <div className="md:col-span-3">
+                  <div className="text-slate-500 dark:text-slate-400">Motivo de cierre</div>
+                  <div className="mt-1 text-slate-900 dark:text-slate-100">
+                    {order.closeReason} {order.closedByName ? `· ${order.closedByName}` : ''}
+                  </div>
+                </div>
+              )}
+              {order.note && (
+                <div className="md:col-span-3">
+                  <div className="text-slate-500 dark:text-slate-400">Nota</div>
+                  <div className="mt-1 text-slate-900 dark:text-slate-100">{order.note}</div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {order.status === 'DRAFT' && canWrite && (
+                <Button
+                  variant="primary"
+                  loading={actionMutation.isPending}
+                  onClick={() => confirmAction('send', '¿Marcar la orden como enviada al proveedor? Ya no podrá editarse.')}
+                >
+                  Enviar al proveedor
+                </Button>
+              )}
+              {receivable && canReceive && (
+                <Button variant="success" onClick={openReceive}>
+                  Registrar recepción
+                </Button>
+              )}
+              {receivable && canWrite && (
+                <Button variant="outline" loading={closeMutation.isPending} onClick={requestClose}>
+                  Cerrar con faltantes
+                </Button>
+              )}
+              {(order.status === 'DRAFT' || (order.status === 'SENT' && order.receipts.length === 0)) && canWrite && (
+                <Button variant="danger" loading={actionMutation.isPending} onClick={() => confirmAction('cancel', '¿Anular la orden de compra?')}>
+                  Anular
+                </Button>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+              <Table
+                columns={[
+                  { header: 'Producto', accessor: (l) => getProductLabel(l.product) },
+                  {
+                    header: 'Entrega',
+                    width: '110px',
+                    accessor: (l) => (l.expectedAt ? new Date(l.expectedAt).toLocaleDateString() : '-'),
+                  },
+                  { header: 'Pedido', width: '90px', className: 'text-right', accessor: (l) => formatQty(l.quantity) },
+                  { header: 'Recibido', width: '90px', className: 'text-right', accessor: (l) => formatQty(l.receivedQuantity) },
+                  { header: 'Diferencia', width: '100px', className: 'text-right', accessor: (l) => varianceCell(l.variance) },
+                  { header: 'Costo unit.', width: '100px', className: 'text-right', accessor: (l) => l.unitCost.toFixed(2) },
+                  { header: 'Subtotal', width: '110px', className: 'text-right', accessor: (l) => l.lineTotal.toFixed(2) },
+                  { header: 'Estado', width: '140px', accessor: (l) => <ReceiptStatusBadge status={l.receiptStatus} /> },
+                ]}
+                data={order.lines}
+                keyExtractor={(l) => l.id}
+              />
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+              <h3 className="mb-3 text-lg font-semibold text-slate-900 dark:text-slate-100">Recepciones</h3>
+              {order.receipts.length === 0 && <EmptyState message="Todavía no se recibió mercadería" />}
+              <div className="space-y-4">
+                {order.receipts.map((r) => (
+                  <div key={r.id}>
+                    <div className="mb-2 text-sm text-slate-700 dark:text-slate-300">
+                      <span className="font-medium">{r.number}</span> · {new Date(r.receivedAt).toLocaleString()}
+                      {r.receivedByName ? ` · ${r.receivedByName}` : ''}
+                      {r.note ? ` · ${r.note}` : ''}
+                    </div>
+                    <Table
+                      columns={[
+                        { header: 'Producto', accessor: (rl) => `${rl.product.sku} - ${rl.product.name}` },
+                        { header: 'Lote', width: '140px', accessor: (rl) => rl.batch.batchNumber },
+                        {
+                          header: 'Vence',
+                          width: '110px',
+                          accessor: (rl) => (rl.batch.expiresAt ? new Date(rl.batch.expiresAt).toLocaleDateString() : '-'),
+                        },
+                        { header: 'Ubicación', width: '110px', accessor: (rl) => rl.location.code },
+                        { header: 'Cantidad', width: '90px', className: 'text-right', accessor: (rl) => formatQty(rl.quantity) },
+                      ]}
+                      data={r.lines}
+                      keyExtractor={(rl) => rl.id}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {order && (
+          <Modal isOpen={showReceive} onClose={() => setShowReceive(false)} title={`Recepción de ${order.number}`} maxWidth="xl">
+            <div className="space-y-4">
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Cada línea recibida crea o reutiliza el lote indicado (sin número se asigna uno automático) y registra una entrada de stock. Los lotes nuevos quedan en
+                cuarentena hasta que control de calidad los libere.
+              </p>
+              {order.lines.map((l) => {
+                const d = drafts[l.id]
+                if (!d) return null
+                return (
+                  <div key={l.id} className="rounded border border-slate-200 p-3 dark:border-slate-700">
+                    <div className="mb-2 text-sm font-medium text-slate-900 dark:text-slate-100">
+                      {getProductLabel(l.product)} · pendiente {formatQty(Math.max(0, -l.variance))}
+                    </div>
+                    <div className="grid gap-2 md:grid-cols-5">
+                      <Input
+                        label="Cantidad"
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={d.quantity}
+                        onChange={(e) => updateDraft(l.id, { quantity: e.target.value })}
+                      />
+                      <Input label="Lote" value={d.batchNumber} maxLength={80} onChange={(e) => updateDraft(l.id, { batchNumber: e.target.value })} />
+                      <Input
+                        label="Fabricación"
+                        type="date"
+                        value={d.manufacturingDate}
+                        onChange={(e) => updateDraft(l.id, { manufacturingDate: e.target.value })}
+                      />
+                      <Input label="Vencimiento" type="date" value={d.expiresAt} onChange={(e) => updateDraft(l.id, { expiresAt: e.target.value })} />
+                      <Select
+                        label="Ubicación"
+                        value={d.locationId}
+                        onChange={(e) => updateDraft(l.id, { locationId: e.target.value })}
+                        options={[{ value: '', label: 'Automática' }, ...activeLocations.map((loc) => ({ value: loc.id, label: loc.code }))]}
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+              <Input label="Nota" value={receiptNote} maxLength={500} onChange={(e) => setReceiptNote(e.target.value)} />
+              <div className="flex justify-end gap-3">
+                <Button variant="secondary" onClick={() => setShowReceive(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  variant="primary"
+                  loading={receiveMutation.isPending}
+                  disabled={receiptLines.length === 0}
+                  onClick={() => receiveMutation.mutate()}
+                >
+                  Registrar recepción
+                </Button>
+              </div>
+            </div>
+          </Modal>
+        )}
+      </PageContainer>
+    </MainLayout>
+  )
+}
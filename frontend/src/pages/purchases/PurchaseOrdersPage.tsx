@@ -0,0 +1,328 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, PaginationCursor, Button, IconButton, Modal, Input, Select, Badge } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'CLOSED' | 'CANCELLED'
+
+type PurchaseOrderListItem = {
+  id: string
+  number: string
+  status: PurchaseOrderStatus
+  expectedAt: string | null
+  receiptCount: number
+  totalAmount: number
+  orderedQuantity: number
+  receivedQuantity: number
+  createdAt: string
+  supplier: { id: string; name: string; taxId: string | null }
+  warehouse: { id: string; code: string; name: string; city: string | null }
+}
+
+type ListResponse = { items: PurchaseOrderListItem[]; nextCursor: string | null }
+
+type SupplierListItem = { id: string; name: string }
+type WarehouseListItem = { id: string; code: string; name: string; isActive: boolean }
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+
+type LineDraft = { key: number; productId: string; quantity: string; unitCost: string }
+
+type OrderInput = {
+  supplierId: string
+  warehouseId: string
+  expectedAt?: string
+  note?: string
+  lines: Array<{ productId: string; quantity: number; unitCost: number }>
+}
+
+async function fetchOrders(token: string, cursor?: string, status?: string): Promise<ListResponse> {
+  const params = new URLSearchParams({ take: '50' })
+  if (cursor) params.set('cursor', cursor)
+  if (status) params.set('status', status)
+  return apiFetch(`/api/v1/purchase-orders?${params}`, { token })
+}
+
+async function listSuppliers(token: string): Promise<{ items: SupplierListItem[] }> {
+  return apiFetch(`/api/v1/suppliers`, { token })
+}
+
+async function listWarehouses(token: string): Promise<{ items: WarehouseListItem[] }> {
+  return apiFetch(`/api/v1/warehouses?take=50`, { token })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  return apiFetch(`/api/v1/products?take=50`, { token })
+}
+
+async function createOrder(token: string, input: OrderInput): Promise<PurchaseOrderListItem> {
+  return apiFetch(`/api/v1/purchase-orders`, { token, method: 'POST', body: JSON.stringify(input) })
+}
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  if (status === 'DRAFT') return <Badge variant="default">Borrador</Badge>
+  if (status === 'SENT') return <Badge variant="info">Enviada</Badge>
+  if (status === 'PARTIALLY_RECEIVED') return <Badge variant="warning">Recepción parcial</Badge>
+  if (status === 'CLOSED') return <Badge variant="success">Cerrada</Badge>
+  return <Badge variant="danger">Anulada</Badge>
+}
+
+let nextLineKey = 1
+
+function emptyLine(): LineDraft {
+  return { key: nextLineKey++, productId: '', quantity: '', unitCost: '' }
+}
+
+export function PurchaseOrdersPage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canWrite = perms.hasPermission('purchase:write')
+
+  const [cursor, setCursor] = useState<string | undefined>()
+  const [statusFilter, setStatusFilter] = useState('')
+  const [showCreate, setShowCreate] = useState(false)
+  const [supplierId, setSupplierId] = useState('')
+  const [warehouseId, setWarehouseId] = useState('')
+  const [expectedAt, setExpectedAt] = useState('')
+  const [note, setNote] = useState('')
+  const [lines, setLines] = useState<LineDraft[]>(() => [emptyLine()])
+
+  const ordersQuery = useQuery({
+    queryKey: ['purchaseOrders', cursor, statusFilter],
+    queryFn: () => fetchOrders(auth.accessToken!, cursor, statusFilter || undefined),
+    enabled: !!auth.accessToken,
+  })
+
+  const suppliersQuery = useQuery({
+    queryKey: ['suppliers', 'active'],
+    queryFn: () => listSuppliers(auth.accessToken!),
+    enabled: !!auth.accessToken && showCreate,
+  })
+
+  const warehousesQuery = useQuery({
+    queryKey: ['warehouses', 'forPurchases'],
+    queryFn: () => listWarehouses(auth.accessToken!),
+    enabled: !!auth.accessToken && showCreate,
+  })
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forPurchases'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && showCreate,
+  })
+
+  const closeCreate = () => {
+    setShowCreate(false)
+    setSupplierId('')
+    setWarehouseId('')
+    setExpectedAt('')
+    setNote('')
+    setLines([emptyLine()])
+  }
+
+  const updateLine = (key: number, patch: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)))
+  }
+
+  const validLines = lines
+    .filter((l) => l.productId && Number(l.quantity) > 0)
+    .map((l) => ({ productId: l.productId, quantity: Number(l.quantity), unitCost: Number(l.unitCost || '0') }))
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createOrder(auth.accessToken!, {
+        supplierId,
+        warehouseId,
+        ...(expectedAt ? { expectedAt: new Date(`${expectedAt}T00:00:00`).toISOString() } : {}),
+        ...(note.trim() ? { note: note.trim() } : {}),
+        lines: validLines,
+      }),
+    onSuccess: async (created) => {
+      closeCreate()
+      await queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] })
+      navigate(`/purchases/orders/${encodeURIComponent(created.id)}`)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo crear la orden de compra')
+    },
+  })
+
+  const productOptions = [
+    { value: '', label: 'Seleccione…' },
+    ...(productsQuery.data?.items ?? []).filter((p) => p.isActive).map((p) => ({ value: p.id, label: getProductLabel(p) })),
+  ]
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Órdenes de compra"
+        actions={
+          canWrite ? (
+            <Button variant="primary" icon={<PlusIcon />} onClick={() => setShowCreate(true)}>
+              Nueva orden
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="mb-4 max-w-xs">
+          <Select
+            label="Estado"
+            value={statusFilter}
+            onChange={(e) => {
+              setCursor(undefined)
+              setStatusFilter(e.target.value)
+            }}
+            options={[
+              { value: '', label: 'Todos' },
+              { value: 'DRAFT', label: 'Borrador' },
+              { value: 'SENT', label: 'Enviada' },
+              { value: 'PARTIALLY_RECEIVED', label: 'Recepción parcial' },
+              { value: 'CLOSED', label: 'Cerrada' },
+              { value: 'CANCELLED', label: 'Anulada' },
+            ]}
+          />
+        </div>
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {ordersQuery.isLoading && <Loading />}
+          {ordersQuery.error && <ErrorState message="Error al cargar órdenes de compra" retry={ordersQuery.refetch} />}
+          {ordersQuery.data && ordersQuery.data.items.length === 0 && <EmptyState message="No hay órdenes de compra" />}
+          {ordersQuery.data && ordersQuery.data.items.length > 0 && (
+            <>
+              <Table
+                columns={[
+                  { header: 'Número', width: '120px', accessor: (o) => o.number },
+                  { header: 'Proveedor', accessor: (o) => o.supplier.name },
+                  { header: 'Sucursal', width: '180px', accessor: (o) => `${o.warehouse.code} - ${o.warehouse.name}` },
+                  {
+                    header: 'Entrega',
+                    width: '110px',
+                    accessor: (o) => (o.expectedAt ? new Date(o.expectedAt).toLocaleDateString() : '-'),
+                  },
+                  {
+                    header: 'Recibido',
+                    width: '110px',
+                    className: 'text-right',
+                    accessor: (o) => `${o.receivedQuantity} / ${o.orderedQuantity}`,
+                  },
+                  { header: 'Total', width: '110px', className: 'text-right', accessor: (o) => o.totalAmount.toFixed(2) },
+                  { header: 'Estado', width: '150px', accessor: (o) => <PurchaseOrderStatusBadge status={o.status} /> },
+                  {
+                    header: '',
+                    width: '90px',
+                    accessor: (o) => (
+                      <Button size="sm" variant="secondary" onClick={() => navigate(`/purchases/orders/${encodeURIComponent(o.id)}`)}>
+                        Abrir
+                      </Button>
+                    ),
+                  },
+                ]}
+                data={ordersQuery.data.items}
+                keyExtractor={(o) => o.id}
+              />
+              <PaginationCursor
+                hasMore={!!ordersQuery.data.nextCursor}
+                onLoadMore={() => setCursor(ordersQuery.data?.nextCursor ?? undefined)}
+                loading={ordersQuery.isFetching}
+              />
+            </>
+          )}
+        </div>
+
+        <Modal isOpen={showCreate} onClose={closeCreate} title="Nueva orden de compra" maxWidth="xl">
+          <div className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-3">
+              <Select
+                label="Proveedor"
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                options={[
+                  { value: '', label: 'Seleccione…' },
+                  ...(suppliersQuery.data?.items ?? []).map((s) => ({ value: s.id, label: s.name })),
+                ]}
+              />
+              <Select
+                label="Sucursal de recepción"
+                value={warehouseId}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                options={[
+                  { value: '', label: 'Seleccione…' },
+                  ...(warehousesQuery.data?.items ?? []).filter((w) => w.isActive).map((w) => ({ value: w.id, label: `${w.code} - ${w.name}` })),
+                ]}
+              />
+              <Input label="Entrega esperada" type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+            </div>
+
+            <div>
+              <div className="mb-1 text-sm font-medium text-slate-700 dark:text-slate-300">Productos</div>
+              <div className="space-y-2">
+                {lines.map((l) => (
+                  <div key={l.key} className="grid grid-cols-12 items-end gap-2">
+                    <div className="col-span-6">
+                      <Select value={l.productId} onChange={(e) => updateLine(l.key, { productId: e.target.value })} options={productOptions} />
+                    </div>
+                    <div className="col-span-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="Cantidad"
+                        value={l.quantity}
+                        onChange={(e) => updateLine(l.key, { quantity: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-3">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="Costo unitario"
+                        value={l.unitCost}
+                        onChange={(e) => updateLine(l.key, { unitCost: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <IconButton
+                        label="Quitar"
+                        icon={<TrashIcon className="w-4 h-4" />}
+                        disabled={lines.length === 1}
+                        onClick={() => setLines((prev) => prev.filter((x) => x.key !== l.key))}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <Button size="sm" variant="outline" className="mt-2" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+                Agregar producto
+              </Button>
+            </div>
+
+            <Input label="Nota" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} />
+
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={closeCreate}>
+                Cancelar
+              </Button>
+              <Button
+                variant="primary"
+                loading={createMutation.isPending}
+                disabled={!supplierId || !warehouseId || validLines.length === 0}
+                onClick={() => createMutation.mutate()}
+              >
+                Crear borrador
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,154 @@
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Button, Select, Badge } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { useAuth } from '../../providers/AuthProvider'
+
+type VarianceItem = {
+  id: string
+  quantity: number
+  receivedQuantity: number
+  unitCost: number
+  variance: number
+  receiptStatus: 'OVER' | 'SHORT'
+  product: { sku: string; name: string; genericName: string | null }
+  purchaseOrder: {
+    id: string
+    number: string
+    status: string
+    closeReason: string | null
+    supplier: { id: string; name: string }
+    warehouse: { id: string; code: string; name: string }
+  }
+}
+
+type VarianceReport = {
+  items: VarianceItem[]
+  summary: { overLines: number; overQuantity: number; overAmount: number; shortLines: number; shortQuantity: number; shortAmount: number }
+}
+
+type SupplierListItem = { id: string; name: string }
+
+async function fetchVariances(token: string, supplierId: string, kind: string): Promise<VarianceReport> {
+  const params = new URLSearchParams()
+  if (supplierId) params.set('supplierId', supplierId)
+  if (kind) params.set('kind', kind)
+  return apiFetch(`/api/v1/purchase-orders/reports/receipt-variances?${params}`, { token })
+}
+
+async function listSuppliers(token: string): Promise<{ items: SupplierListItem[] }> {
+  return apiFetch(`/api/v1/suppliers?includeInactive=true`, { token })
+}
+
+function formatQty(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+export function ReceiptVariancesPage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+
+  const [supplierId, setSupplierId] = useState('')
+  const [kind, setKind] = useState('')
+
+  const reportQuery = useQuery({
+    queryKey: ['purchaseReceiptVariances', supplierId, kind],
+    queryFn: () => fetchVariances(auth.accessToken!, supplierId, kind),
+    enabled: !!auth.accessToken,
+  })
+
+  const suppliersQuery = useQuery({
+    queryKey: ['suppliers', 'all', ''],
+    queryFn: () => listSuppliers(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const summary = reportQuery.data?.summary
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer title="Diferencias de recepción">
+        <div className="mb-4 grid max-w-xl gap-3 md:grid-cols-2">
+          <Select
+            label="Proveedor"
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+            options={[{ value: '', label: 'Todos' }, ...(suppliersQuery.data?.items ?? []).map((s) => ({ value: s.id, label: s.name }))]}
+          />
+          <Select
+            label="Tipo"
+            value={kind}
+            onChange={(e) => setKind(e.target.value)}
+            options={[
+              { value: '', label: 'Sobrantes y faltantes' },
+              { value: 'OVER', label: 'Sobre-recepción' },
+              { value: 'SHORT', label: 'Faltante' },
+            ]}
+          />
+        </div>
+
+        {summary && (
+          <div className="mb-4 grid gap-3 rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900 md:grid-cols-2">
+            <div>
+              <div className="text-slate-500 dark:text-slate-400">Sobre-recepción</div>
+              <div className="font-medium text-amber-700 dark:text-amber-400">
+                {summary.overLines} línea(s) · {formatQty(summary.overQuantity)} u · {summary.overAmount.toFixed(2)}
+              </div>
+            </div>
+            <div>
+              <div className="text-slate-500 dark:text-slate-400">Faltantes (órdenes cerradas)</div>
+              <div className="font-medium text-red-700 dark:text-red-400">
+                {summary.shortLines} línea(s) · {formatQty(summary.shortQuantity)} u · {summary.shortAmount.toFixed(2)}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {reportQuery.isLoading && <Loading />}
+          {reportQuery.error && <ErrorState message="Error al cargar el reporte" retry={reportQuery.refetch} />}
+          {reportQuery.data && reportQuery.data.items.length === 0 && <EmptyState message="Sin diferencias de recepción" />}
+          {reportQuery.data && reportQuery.data.items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Orden', width: '120px', accessor: (v) => v.purchaseOrder.number },
+                { header: 'Proveedor', width: '180px', accessor: (v) => v.purchaseOrder.supplier.name },
+                { header: 'Producto', accessor: (v) => getProductLabel(v.product) },
+                { header: 'Pedido', width: '90px', className: 'text-right', accessor: (v) => formatQty(v.quantity) },
+                { header: 'Recibido', width: '90px', className: 'text-right', accessor: (v) => formatQty(v.receivedQuantity) },
+                {
+                  header: 'Diferencia',
+                  width: '100px',
+                  className: 'text-right',
+                  accessor: (v) => (v.variance > 0 ? `+${formatQty(v.variance)}` : formatQty(v.variance)),
+                },
+                { header: 'Valor', width: '100px', className: 'text-right', accessor: (v) => (Math.abs(v.variance) * v.unitCost).toFixed(2) },
+                {
+                  header: 'Tipo',
+                  width: '140px',
+                  accessor: (v) =>
+                    v.receiptStatus === 'OVER' ? <Badge variant="warning">Sobre-recepción</Badge> : <Badge variant="danger">Faltante</Badge>,
+                },
+                {
+                  header: '',
+                  width: '90px',
+                  accessor: (v) => (
+                    <Button size="sm" variant="secondary" onClick={() => navigate(`/purchases/orders/${encodeURIComponent(v.purchaseOrder.id)}`)}>
+                      Abrir
+                    </Button>
+                  ),
+                },
+              ]}
+              data={reportQuery.data.items}
+              keyExtractor={(v) => v.id}
+            />
+          )}
+        </div>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,436 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Button, IconButton, Modal, Input, Select, Badge } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+type SupplierContact = {
+  id: string
+  name: string
+  position: string | null
+  email: string | null
+  phone: string | null
+  isPrimary: boolean
+}
+
+type SupplierProductLink = {
+  id: string
+  productId: string
+  supplierSku: string | null
+  isPreferred: boolean
+  lastPurchasePrice: number | null
+  lastPurchasedAt: string | null
+  product: { sku: string; name: string; genericName: string | null }
+}
+
+type SupplierDetail = {
+  id: string
+  name: string
+  taxId: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  city: string | null
+  leadTimeDays: number | null
+  paymentTermDays: number
+  isActive: boolean
+  contacts: SupplierContact[]
+  products: SupplierProductLink[]
+}
+
+type ContactInput = { name: string; position?: string; email?: string; phone?: string; isPrimary: boolean }
+
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+
+async function fetchSupplier(token: string, id: string): Promise<SupplierDetail> {
+  return apiFetch(`/api/v1/suppliers/${encodeURIComponent(id)}`, { token })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  return apiFetch(`/api/v1/products?take=50`, { token })
+}
+
+async function createContact(token: string, supplierId: string, input: ContactInput): Promise<SupplierContact> {
+  return apiFetch(`/api/v1/suppliers/${encodeURIComponent(supplierId)}/contacts`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function updateContact(token: string, supplierId: string, contactId: string, input: { isPrimary: boolean }): Promise<SupplierContact> {
+  return apiFetch(`/api/v1/suppliers/${encodeURIComponent(supplierId)}/contacts/${encodeURIComponent(contactId)}`, {
+    method: 'PATCH',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function deleteContact(token: string, supplierId: string, contactId: string): Promise<void> {
+  await apiFetch(`/api/v1/suppliers/${encodeURIComponent(supplierId)}/contacts/${encodeURIComponent(contactId)}`, {
+    method: 'DELETE',
+    token,
+  })
+}
+
+async function linkProduct(
+  token: string,
+  supplierId: string,
+  productId: string,
+  input: { supplierSku?: string | null; isPreferred?: boolean },
+): Promise<SupplierProductLink> {
+  return apiFetch(`/api/v1/suppliers/${encodeURIComponent(supplierId)}/products/${encodeURIComponent(productId)}`, {
+    method: 'PUT',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function unlinkProduct(token: string, supplierId: string, productId: string): Promise<void> {
+  await apiFetch(`/api/v1/suppliers/${encodeURIComponent(supplierId)}/products/${encodeURIComponent(productId)}`, {
+    method: 'DELETE',
+    token,
+  })
+}
+
+export function SupplierDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const canWrite = perms.hasPermission('purchase:write')
+
+  const [contactOpen, setContactOpen] = useState(false)
+  const [contactName, setContactName] = useState('')
+  const [contactPosition, setContactPosition] = useState('')
+  const [contactEmail, setContactEmail] = useState('')
+  const [contactPhone, setContactPhone] = useState('')
+  const [contactPrimary, setContactPrimary] = useState(false)
+
+  const [linkOpen, setLinkOpen] = useState(false)
+  const [linkProductId, setLinkProductId] = useState('')
+  const [linkSku, setLinkSku] = useState('')
+  const [linkPreferred, setLinkPreferred] = useState(false)
+
+  const supplierQuery = useQuery({
+    queryKey: ['supplier', id],
+    queryFn: () => fetchSupplier(auth.accessToken!, id!),
+    enabled: !!auth.accessToken && !!id,
+  })
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forPurchases'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && linkOpen,
+  })
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['supplier', id] })
+  }
+
+  const onError = (fallback: string) => (err: Error) => {
+    window.alert(err.message || fallback)
+  }
+
+  const contactMutation = useMutation({
+    mutationFn: () =>
+      createContact(auth.accessToken!, id!, {
+        name: contactName.trim(),
+        isPrimary: contactPrimary,
+        ...(contactPosition.trim() ? { position: contactPosition.trim() } : {}),
+        ...(contactEmail.trim() ? { email: contactEmail.trim() } : {}),
+        ...(contactPhone.trim() ? { phone: contactPhone.trim() } : {}),
+      }),
+    onSuccess: async () => {
+      await invalidate()
+      setContactOpen(false)
+    },
+    onError: onError('No se pudo guardar el contacto'),
+  })
+
+  const primaryMutation = useMutation({
+    mutationFn: (c: SupplierContact) => updateContact(auth.accessToken!, id!, c.id, { isPrimary: true }),
+    onSuccess: invalidate,
+    onError: onError('No se pudo actualizar el contacto'),
+  })
+
+  const deleteContactMutation = useMutation({
+    mutationFn: (c: SupplierContact) => deleteContact(auth.accessToken!, id!, c.id),
+    onSuccess: invalidate,
+    onError: onError('No se pudo eliminar el contacto'),
+  })
+
+  const linkMutation = useMutation({
+    mutationFn: () =>
+      linkProduct(auth.accessToken!, id!, linkProductId, { supplierSku: linkSku.trim() || null, isPreferred: linkPreferred }),
+    onSuccess: async () => {
+      await invalidate()
+      setLinkOpen(false)
+    },
+    onError: onError('No se pudo vincular el producto'),
+  })
+
+  const preferredMutation = useMutation({
+    mutationFn: (l: SupplierProductLink) => linkProduct(auth.accessToken!, id!, l.productId, { isPreferred: !l.isPreferred }),
+    onSuccess: invalidate,
+    onError: onError('No se pudo actualizar el producto'),
+  })
+
+  const unlinkMutation = useMutation({
+    mutationFn: (l: SupplierProductLink) => unlinkProduct(auth.accessToken!, id!, l.productId),
+    onSuccess: invalidate,
+    onError: onError('No se pudo desvincular el producto'),
+  })
+
+  const openContact = () => {
+    setContactName('')
+    setContactPosition('')
+    setContactEmail('')
+    setContactPhone('')
+    setContactPrimary(false)
+    setContactOpen(true)
+  }
+
+  const openLink = () => {
+    setLinkProductId('')
+    setLinkSku('')
+    setLinkPreferred(false)
+    setLinkOpen(true)
+  }
+
+  const supplier = supplierQuery.data
+  const linkedIds = new Set((supplier?.products ?? []).map((l) => l.productId))
+  const productOptions = [
+    { value: '', label: 'Seleccionar producto' },
+    ...(productsQuery.data?.items ?? [])
+      .filter((p) => p.isActive && !linkedIds.has(p.id))
+      .map((p) => ({ value: p.id, label: getProductLabel(p) })),
+  ]
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title={supplier ? `Proveedor ${supplier.name}` : 'Proveedor'}
+        actions={
+          <Button variant="secondary" onClick={() => navigate('/purchases/suppliers')}>
+            Volver
+          </Button>
+        }
+      >
+        {supplierQuery.isLoading && <Loading />}
+        {supplierQuery.error && <ErrorState message="Error al cargar el proveedor" retry={supplierQuery.refetch} />}
+
+        {supplier && (
+          <div className="space-y-6">
+            <div className="grid gap-4 rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900 md:grid-cols-3">
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">NIT</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">{supplier.taxId ?? '-'}</div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Contacto</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {[supplier.phone, supplier.email].filter(Boolean).join(' · ') || '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Dirección</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {[supplier.address, supplier.city].filter(Boolean).join(', ') || '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Tiempo de entrega</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {supplier.leadTimeDays != null ? `${supplier.leadTimeDays} día(s)` : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Plazo de pago</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {supplier.paymentTermDays > 0 ? `${supplier.paymentTermDays} día(s)` : 'Contado'}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Estado</div>
+                <div className="mt-1">
+                  <Badge variant={supplier.isActive ? 'success' : 'default'}>{supplier.isActive ? 'Activo' : 'Inactivo'}</Badge>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Contactos</h3>
+                {canWrite && (
+                  <Button size="sm" icon={<PlusIcon />} onClick={openContact}>
+                    Agregar contacto
+                  </Button>
+                )}
+              </div>
+              <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+                {supplier.contacts.length === 0 ? (
+                  <EmptyState message="Sin contactos registrados" />
+                ) : (
+                  <Table
+                    columns={[
+                      {
+                        header: 'Nombre',
+                        accessor: (c) => (
+                          <div className="flex items-center gap-2">
+                            {c.name}
+                            {c.isPrimary && <Badge variant="info">Principal</Badge>}
+                          </div>
+                        ),
+                      },
+                      { header: 'Cargo', width: '160px', accessor: (c) => c.position ?? '-' },
+                      { header: 'Email', width: '200px', accessor: (c) => c.email ?? '-' },
+                      { header: 'Teléfono', width: '130px', accessor: (c) => c.phone ?? '-' },
+                      {
+                        header: '',
+                        width: '200px',
+                        accessor: (c) =>
+                          canWrite ? (
+                            <div className="flex items-center justify-end gap-2">
+                              {!c.isPrimary && (
+                                <Button size="sm" variant="ghost" disabled={primaryMutation.isPending} onClick={() => primaryMutation.mutate(c)}>
+                                  Hacer principal
+                                </Button>
+                              )}
+                              <IconButton
+                                label="Eliminar"
+                                icon={<TrashIcon className="w-4 h-4" />}
+                                disabled={deleteContactMutation.isPending}
+                                onClick={() => {
+                                  if (window.confirm(`¿Eliminar el contacto ${c.name}?`)) deleteContactMutation.mutate(c)
+                                }}
+                              />
+                            </div>
+                          ) : null,
+                      },
+                    ]}
+                    data={supplier.contacts}
+                    keyExtractor={(c) => c.id}
+                  />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Productos que suministra</h3>
+                {canWrite && (
+                  <Button size="sm" icon={<PlusIcon />} onClick={openLink}>
+                    Vincular producto
+                  </Button>
+                )}
+              </div>
+              <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+                {supplier.products.length === 0 ? (
+                  <EmptyState message="Sin productos vinculados" />
+                ) : (
+                  <Table
+                    columns={[
+                      {
+                        header: 'Producto',
+                        accessor: (l) => (
+                          <div className="flex items-center gap-2">
+                            {getProductLabel(l.product)}
+                            {l.isPreferred && <Badge variant="success">Preferido</Badge>}
+                          </div>
+                        ),
+                      },
+                      { header: 'Código proveedor', width: '150px', accessor: (l) => l.supplierSku ?? '-' },
+                      {
+                        header: 'Último precio',
+                        width: '120px',
+                        className: 'text-right',
+                        accessor: (l) => (l.lastPurchasePrice != null ? l.lastPurchasePrice.toFixed(2) : '-'),
+                      },
+                      {
+                        header: 'Última compra',
+                        width: '120px',
+                        accessor: (l) => (l.lastPurchasedAt ? new Date(l.lastPurchasedAt).toLocaleDateString() : '-'),
+                      },
+                      {
+                        header: '',
+                        width: '220px',
+                        accessor: (l) =>
+                          canWrite ? (
+                            <div className="flex items-center justify-end gap-2">
+                              <Button size="sm" variant="ghost" disabled={preferredMutation.isPending} onClick={() => preferredMutation.mutate(l)}>
+                                {l.isPreferred ? 'Quitar preferido' : 'Marcar preferido'}
+                              </Button>
+                              <IconButton
+                                label="Desvincular"
+                                icon={<TrashIcon className="w-4 h-4" />}
+                                disabled={unlinkMutation.isPending}
+                                onClick={() => {
+                                  if (window.confirm(`¿Desvincular ${getProductLabel(l.product)} de este proveedor?`)) unlinkMutation.mutate(l)
+                                }}
+                              />
+                            </div>
+                          ) : null,
+                      },
+                    ]}
+                    data={supplier.products}
+                    keyExtractor={(l) => l.id}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Modal isOpen={contactOpen} onClose={() => setContactOpen(false)} title="Nuevo contacto" maxWidth="md">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input label="Nombre" value={contactName} maxLength={200} onChange={(e) => setContactName(e.target.value)} />
+              <Input label="Cargo" value={contactPosition} maxLength={100} onChange={(e) => setContactPosition(e.target.value)} />
+              <Input label="Email" type="email" value={contactEmail} maxLength={200} onChange={(e) => setContactEmail(e.target.value)} />
+              <Input label="Teléfono" value={contactPhone} maxLength={40} onChange={(e) => setContactPhone(e.target.value)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={contactPrimary} onChange={(e) => setContactPrimary(e.target.checked)} />
+              Contacto principal
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setContactOpen(false)}>
+                Cancelar
+              </Button>
+              <Button loading={contactMutation.isPending} disabled={!contactName.trim()} onClick={() => contactMutation.mutate()}>
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal isOpen={linkOpen} onClose={() => setLinkOpen(false)} title="Vincular producto" maxWidth="md">
+          <div className="space-y-4">
+            <Select label="Producto" value={linkProductId} onChange={(e) => setLinkProductId(e.target.value)} options={productOptions} />
+            <Input label="Código del proveedor" value={linkSku} maxLength={80} onChange={(e) => setLinkSku(e.target.value)} />
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={linkPreferred} onChange={(e) => setLinkPreferred(e.target.checked)} />
+              Proveedor preferido para este producto
+            </label>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setLinkOpen(false)}>
+                Cancelar
+              </Button>
+              <Button loading={linkMutation.isPending} disabled={!linkProductId} onClick={() => linkMutation.mutate()}>
+                Vincular
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
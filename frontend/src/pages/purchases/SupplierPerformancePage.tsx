@@ -0,0 +1,157 @@
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Button, Input, Select } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { useAuth } from '../../providers/AuthProvider'
+
+type PerformanceItem = {
+  supplierId: string
+  supplierName: string | null
+  promisedLeadTimeDays: number | null
+  receiptLines: number
+  evaluatedLines: number
+  onTimeLines: number
+  onTimePct: number | null
+  avgDaysLate: number | null
+  orders: number
+  avgLeadTimeDays: number | null
+  leadTimeStdDevDays: number | null
+  avgLeadTimeDeviationDays: number | null
+  batches: number
+  rejectedBatches: number
+  rejectedBatchPct: number | null
+}
+
+type PerformanceReport = { from: string; to: string; items: PerformanceItem[] }
+
+type SupplierListItem = { id: string; name: string }
+
+async function fetchPerformance(token: string, supplierId: string, from: string, to: string): Promise<PerformanceReport> {
+  const params = new URLSearchParams()
+  if (supplierId) params.set('supplierId', supplierId)
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString())
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString())
+  return apiFetch(`/api/v1/suppliers/reports/performance?${params}`, { token })
+}
+
+async function listSuppliers(token: string): Promise<{ items: SupplierListItem[] }> {
+  return apiFetch(`/api/v1/suppliers?includeInactive=true`, { token })
+}
+
+function formatPct(n: number | null): string {
+  return n === null ? '-' : `${n.toFixed(1)}%`
+}
+
+function formatDays(n: number | null): string {
+  return n === null ? '-' : `${n.toFixed(1)} d`
+}
+
+function onTimeClass(n: number | null): string {
+  if (n === null) return ''
+  if (n >= 90) return 'text-green-700 dark:text-green-400'
+  if (n >= 75) return 'text-amber-700 dark:text-amber-400'
+  return 'text-red-700 dark:text-red-400'
+}
+
+export function SupplierPerformancePage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+
+  const [supplierId, setSupplierId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const reportQuery = useQuery({
+    queryKey: ['supplierPerformance', supplierId, from, to],
+    queryFn: () => fetchPerformance(auth.accessToken!, supplierId, from, to),
+    enabled: !!auth.accessToken,
+  })
+
+  const suppliersQuery = useQuery({
+    queryKey: ['suppliers', 'all', ''],
+    queryFn: () => listSuppliers(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const report = reportQuery.data
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer title="Desempeño de proveedores">
+        <div className="mb-4 grid max-w-3xl gap-3 md:grid-cols-3">
+          <Select
+            label="Proveedor"
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+            options={[{ value: '', label: 'Todos' }, ...(suppliersQuery.data?.items ?? []).map((s) => ({ value: s.id, label: s.name }))]}
+          />
+          <Input label="Desde" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label="Hasta" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+
+        {report && (
+          <div className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+            Periodo: {new Date(report.from).toLocaleDateString()} – {new Date(report.to).toLocaleDateString()}. Puntualidad por línea
+            recibida contra la fecha esperada; tiempo de entrega desde el envío de la orden hasta su primera recepción.
+          </div>
+        )}
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {reportQuery.isLoading && <Loading />}
+          {reportQuery.error && <ErrorState message="Error al cargar el reporte" retry={reportQuery.refetch} />}
+          {report && report.items.length === 0 && <EmptyState message="Sin recepciones en el periodo" />}
+          {report && report.items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Proveedor', accessor: (r) => r.supplierName ?? '-' },
+                {
+                  header: 'A tiempo',
+                  width: '110px',
+                  className: 'text-right',
+                  accessor: (r) => (
+                    <span className={onTimeClass(r.onTimePct)} title={`${r.onTimeLines} de ${r.evaluatedLines} línea(s) con fecha esperada`}>
+                      {formatPct(r.onTimePct)}
+                    </span>
+                  ),
+                },
+                { header: 'Atraso prom.', width: '110px', className: 'text-right', accessor: (r) => formatDays(r.avgDaysLate) },
+                { header: 'Órdenes', width: '80px', className: 'text-right', accessor: (r) => r.orders },
+                { header: 'Entrega prom.', width: '110px', className: 'text-right', accessor: (r) => formatDays(r.avgLeadTimeDays) },
+                { header: 'Desv. estándar', width: '110px', className: 'text-right', accessor: (r) => formatDays(r.leadTimeStdDevDays) },
+                {
+                  header: 'Vs. prometido',
+                  width: '110px',
+                  className: 'text-right',
+                  accessor: (r) =>
+                    r.avgLeadTimeDeviationDays === null
+                      ? '-'
+                      : `${r.avgLeadTimeDeviationDays > 0 ? '+' : ''}${r.avgLeadTimeDeviationDays.toFixed(1)} d`,
+                },
+                {
+                  header: 'Lotes rechazados',
+                  width: '130px',
+                  className: 'text-right',
+                  accessor: (r) => (r.batches > 0 ? `${r.rejectedBatches}/${r.batches} (${formatPct(r.rejectedBatchPct)})` : '-'),
+                },
+                {
+                  header: '',
+                  width: '90px',
+                  accessor: (r) => (
+                    <Button size="sm" variant="secondary" onClick={() => navigate(`/purchases/suppliers/${encodeURIComponent(r.supplierId)}`)}>
+                      Abrir
+                    </Button>
+                  ),
+                },
+              ]}
+              data={report.items}
+              keyExtractor={(r) => r.supplierId}
+            />
+          )}
+        </div>
+      </PageContainer>
+    </MainLayout>
+  )
+}
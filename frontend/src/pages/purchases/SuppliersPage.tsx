@@ -0,0 +1,251 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PencilSquareIcon, PlusIcon } from '@heroicons/react/24/outline'
+
+type Supplier = {
+  id: string
+  name: string
+  taxId: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  city: string | null
+  leadTimeDays: number | null
+  paymentTermDays: number
+  isActive: boolean
+  version: number
+  purchaseOrdersCount: number
+}
+
+type SupplierInput = {
+  name: string
+  taxId: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  city: string | null
+  leadTimeDays: number | null
+  paymentTermDays: number
+}
+
+async function fetchSuppliers(token: string, q: string): Promise<{ items: Supplier[] }> {
+  const params = new URLSearchParams({ includeInactive: 'true' })
+  if (q) params.set('q', q)
+  return apiFetch(`/api/v1/suppliers?${params}`, { token })
+}
+
+async function createSupplier(token: string, input: SupplierInput): Promise<Supplier> {
+  // Empty optional fields are simply left out on create.
+  const body = Object.fromEntries(Object.entries(input).filter(([, v]) => v !== null))
+  return apiFetch(`/api/v1/suppliers`, { method: 'POST', token, body: JSON.stringify(body) })
+}
+
+async function updateSupplier(
+  token: string,
+  id: string,
+  input: Partial<SupplierInput> & { version: number; isActive?: boolean },
+): Promise<Supplier> {
+  return apiFetch(`/api/v1/suppliers/${encodeURIComponent(id)}`, { method: 'PATCH', token, body: JSON.stringify(input) })
+}
+
+export function SuppliersPage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const canWrite = perms.hasPermission('purchase:write')
+
+  const [search, setSearch] = useState('')
+  const [editing, setEditing] = useState<Supplier | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [taxId, setTaxId] = useState('')
+  const [email, setEmail] = useState('')
+  const [phone, setPhone] = useState('')
+  const [city, setCity] = useState('')
+  const [address, setAddress] = useState('')
+  const [leadTimeDays, setLeadTimeDays] = useState('')
+  const [paymentTermDays, setPaymentTermDays] = useState('0')
+
+  const suppliersQuery = useQuery({
+    queryKey: ['suppliers', 'all', search],
+    queryFn: () => fetchSuppliers(auth.accessToken!, search.trim()),
+    enabled: !!auth.accessToken,
+  })
+
+  const openForm = (s: Supplier | null) => {
+    setEditing(s)
+    setName(s?.name ?? '')
+    setTaxId(s?.taxId ?? '')
+    setEmail(s?.email ?? '')
+    setPhone(s?.phone ?? '')
+    setCity(s?.city ?? '')
+    setAddress(s?.address ?? '')
+    setLeadTimeDays(s?.leadTimeDays != null ? String(s.leadTimeDays) : '')
+    setPaymentTermDays(String(s?.paymentTermDays ?? 0))
+    setFormOpen(true)
+  }
+
+  const formInput = (): SupplierInput => ({
+    name: name.trim(),
+    taxId: taxId.trim() || null,
+    email: email.trim() || null,
+    phone: phone.trim() || null,
+    city: city.trim() || null,
+    address: address.trim() || null,
+    leadTimeDays: leadTimeDays.trim() ? Number(leadTimeDays) : null,
+    paymentTermDays: Number(paymentTermDays) || 0,
+  })
+
+  const daysValid = (v: string) => v.trim() === '' || (Number.isInteger(Number(v)) && Number(v) >= 0 && Number(v) <= 365)
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? updateSupplier(auth.accessToken!, editing.id, { version: editing.version, ...formInput() })
+        : createSupplier(auth.accessToken!, formInput()),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['suppliers'] })
+      setFormOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar el proveedor')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (s: Supplier) => updateSupplier(auth.accessToken!, s.id, { version: s.version, isActive: !s.isActive }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['suppliers'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar el proveedor')
+    },
+  })
+
+  const items = suppliersQuery.data?.items ?? []
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Proveedores"
+        actions={
+          canWrite ? (
+            <Button icon={<PlusIcon />} onClick={() => openForm(null)}>
+              Nuevo proveedor
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="mb-4 max-w-sm">
+          <Input label="Buscar" value={search} placeholder="Nombre o NIT" onChange={(e) => setSearch(e.target.value)} />
+        </div>
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {suppliersQuery.isLoading && <Loading />}
+          {suppliersQuery.error && <ErrorState message="Error al cargar proveedores" retry={suppliersQuery.refetch} />}
+          {suppliersQuery.data && items.length === 0 && <EmptyState message="No hay proveedores" />}
+
+          {suppliersQuery.data && items.length > 0 && (
+            <Table
+              columns={[
+                {
+                  header: 'Nombre',
+                  accessor: (s) => (
+                    <button
+                      type="button"
+                      className="text-left font-medium text-slate-900 underline-offset-2 hover:underline dark:text-slate-100"
+                      onClick={() => navigate(`/purchases/suppliers/${encodeURIComponent(s.id)}`)}
+                    >
+                      {s.name}
+                    </button>
+                  ),
+                },
+                { header: 'NIT', width: '130px', accessor: (s) => s.taxId ?? '-' },
+                { header: 'Contacto', width: '220px', accessor: (s) => [s.phone, s.email].filter(Boolean).join(' · ') || '-' },
+                { header: 'Ciudad', width: '130px', accessor: (s) => s.city ?? '-' },
+                { header: 'Entrega', width: '90px', className: 'text-right', accessor: (s) => (s.leadTimeDays != null ? `${s.leadTimeDays} d` : '-') },
+                { header: 'Crédito', width: '90px', className: 'text-right', accessor: (s) => (s.paymentTermDays > 0 ? `${s.paymentTermDays} d` : 'Contado') },
+                { header: 'Órdenes', width: '90px', className: 'text-right', accessor: (s) => s.purchaseOrdersCount },
+                {
+                  header: 'Estado',
+                  width: '240px',
+                  accessor: (s) => (
+                    <div className="flex items-center gap-2">
+                      <Badge variant={s.isActive ? 'success' : 'default'}>{s.isActive ? 'Activo' : 'Inactivo'}</Badge>
+                      {canWrite && (
+                        <>
+                          <Button size="sm" variant="ghost" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => openForm(s)}>
+                            Editar
+                          </Button>
+                          <Button size="sm" variant="ghost" disabled={toggleMutation.isPending} onClick={() => toggleMutation.mutate(s)}>
+                            {s.isActive ? 'Desactivar' : 'Activar'}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={items}
+              keyExtractor={(s) => s.id}
+            />
+          )}
+        </div>
+
+        <Modal
+          isOpen={formOpen}
+          onClose={() => setFormOpen(false)}
+          title={editing ? `Editar proveedor ${editing.name}` : 'Nuevo proveedor'}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input label="Nombre" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} />
+              <Input label="NIT" value={taxId} maxLength={40} onChange={(e) => setTaxId(e.target.value)} />
+              <Input label="Email" type="email" value={email} maxLength={200} onChange={(e) => setEmail(e.target.value)} />
+              <Input label="Teléfono" value={phone} maxLength={40} onChange={(e) => setPhone(e.target.value)} />
+              <Input label="Ciudad" value={city} maxLength={80} onChange={(e) => setCity(e.target.value)} />
+              <Input label="Dirección" value={address} maxLength={300} onChange={(e) => setAddress(e.target.value)} />
+              <Input
+                label="Tiempo de entrega (días)"
+                type="number"
+                min={0}
+                max={365}
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+              />
+              <Input
+                label="Plazo de pago (días)"
+                type="number"
+                min={0}
+                max={365}
+                value={paymentTermDays}
+                onChange={(e) => setPaymentTermDays(e.target.value)}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={saveMutation.isPending}
+                disabled={!name.trim() || !daysValid(leadTimeDays) || !daysValid(paymentTermDays)}
+                onClick={() => saveMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
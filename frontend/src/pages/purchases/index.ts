@@ -0,0 +1,6 @@
+export { SuppliersPage } from './SuppliersPage'
+export { SupplierDetailPage } from './SupplierDetailPage'
+export { SupplierPerformancePage } from './SupplierPerformancePage'
+export { PurchaseOrdersPage } from './PurchaseOrdersPage'
+export { PurchaseOrderDetailPage } from './PurchaseOrderDetailPage'
+export { ReceiptVariancesPage } from './ReceiptVariancesPage'
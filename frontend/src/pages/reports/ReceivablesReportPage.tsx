@@ -0,0 +1,290 @@
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+import { MainLayout, PageContainer, Button, Input, Loading, ErrorState, EmptyState, Modal, Table } from '../../components'
+import { KPICard } from '../../components/reports'
+import { useNavigation } from '../../hooks'
+import { apiFetch } from '../../lib/api'
+import { exportToXlsx } from '../../lib/exportXlsx'
+import { exportCustomerStatementToPDF, type CustomerStatementPdfData } from '../../lib/customerStatementPdf'
+import { useAuth } from '../../providers/AuthProvider'
+import { useTenant } from '../../providers/TenantProvider'
+import { DocumentArrowDownIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
+
+type AgingBucket = 'CURRENT' | 'D1_30' | 'D31_60' | 'D61_90' | 'D90_PLUS'
+
+type AgingTotals = Record<AgingBucket, number> & { total: number }
+
+type AgingCustomerRow = AgingTotals & { customerId: string; customerName: string; city: string | null; ordersCount: number }
+
+type AgingCityRow = AgingTotals & { city: string; ordersCount: number }
+
+type AgingOrderRow = {
+  id: string
+  number: string
+  customerId: string
+  customerName: string
+  city: string | null
+  paymentMode: string
+  paymentTermName: string
+  deliveredAt: string | null
+  dueAt: string
+  daysOverdue: number
+  bucket: AgingBucket
+  // total, paid and balance are in the order currency; baseBalance is what the buckets add up.
+  currency: string
+  exchangeRate: number
+  total: number
+  paid: number
+  balance: number
+  baseBalance: number
+}
+
+// Buckets and totals are consolidated in the tenant currency.
+type AgingResponse = {
+  asOf: string
+  baseCurrency: string
+  customers: AgingCustomerRow[]
+  cities: AgingCityRow[]
+  orders: AgingOrderRow[]
+  totals: AgingTotals
+}
+
+type StatementResponse = Omit<CustomerStatementPdfData, 'currency' | 'tenant'> & { baseCurrency: string }
+
+type GroupBy = 'CUSTOMER' | 'CITY'
+
+const bucketLabels: Record<AgingBucket, string> = {
+  CURRENT: 'Vigente',
+  D1_30: '1–30 días',
+  D31_60: '31–60 días',
+  D61_90: '61–90 días',
+  D90_PLUS: '+90 días',
+}
+
+const bucketKeys: AgingBucket[] = ['CURRENT', 'D1_30', 'D31_60', 'D61_90', 'D90_PLUS']
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+function todayIsoDate(): string {
+  const d = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+// Inclusive end-of-day for a yyyy-mm-dd date input, as ISO.
+function endOfDayIso(date: string): string {
+  return new Date(`${date}T23:59:59.999`).toISOString()
+}
+
+async function fetchAging(token: string, asOf: string, city: string): Promise<AgingResponse> {
+  const params = new URLSearchParams({ asOf: endOfDayIso(asOf) })
+  if (city.trim()) params.set('city', city.trim())
+  return apiFetch(`/api/v1/sales/payments/aging?${params}`, { token })
+}
+
+async function fetchStatement(token: string, customerId: string, from: string, to: string): Promise<StatementResponse> {
+  const params = new URLSearchParams({ from: new Date(`${from}T00:00:00`).toISOString(), to: endOfDayIso(to) })
+  return apiFetch(`/api/v1/sales/customers/${encodeURIComponent(customerId)}/statement?${params}`, { token })
+}
+
+export function ReceivablesReportPage() {
+  const auth = useAuth()
+  const tenant = useTenant()
+  const currency = tenant.branding?.currency || 'BOB'
+  const navGroups = useNavigation()
+
+  const [asOf, setAsOf] = useState(todayIsoDate())
+  const [city, setCity] = useState('')
+  const [groupBy, setGroupBy] = useState<GroupBy>('CUSTOMER')
+  const [statementCustomer, setStatementCustomer] = useState<{ id: string; name: string } | null>(null)
+  const [statementFrom, setStatementFrom] = useState(`${new Date().getFullYear()}-01-01`)
+  const [statementTo, setStatementTo] = useState(todayIsoDate())
+
+  const agingQuery = useQuery({
+    queryKey: ['reports', 'arAging', asOf, city],
+    queryFn: () => fetchAging(auth.accessToken!, asOf, city),
+    enabled: !!auth.accessToken && !!asOf,
+  })
+
+  const statementMutation = useMutation({
+    mutationFn: (customerId: string) => fetchStatement(auth.accessToken!, customerId, statementFrom, statementTo),
+    onSuccess: (data) => {
+      exportCustomerStatementToPDF({ ...data, currency: data.baseCurrency, tenant })
+      setStatementCustomer(null)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo generar el estado de cuenta')
+    },
+  })
+
+  const handleExportExcel = () => {
+    const data = agingQuery.data
+    if (!data) return
+    const bucketColumns = (r: AgingTotals) =>
+      Object.fromEntries([...bucketKeys.map((b) => [bucketLabels[b], r[b]]), ['Total', r.total]])
+
+    exportToXlsx(`cartera_antiguedad_${asOf}.xlsx`, [
+      {
+        name: 'Por cliente',
+        rows: data.customers.map((r) => ({ Cliente: r.customerName, Ciudad: r.city ?? '', Órdenes: r.ordersCount, ...bucketColumns(r) })),
+      },
+      {
+        name: 'Por ciudad',
+        rows: data.cities.map((r) => ({ Ciudad: r.city, Órdenes: r.ordersCount, ...bucketColumns(r) })),
+      },
+      {
+        name: 'Detalle',
+        rows: data.orders.map((o) => ({
+          Orden: o.number,
+          Cliente: o.customerName,
+          Ciudad: o.city ?? '',
+          'Forma de pago': o.paymentTermName || o.paymentMode,
+          Entrega: o.deliveredAt ? new Date(o.deliveredAt).toLocaleDateString() : '',
+          Vence: new Date(o.dueAt).toLocaleDateString(),
+          'Días de mora': o.daysOverdue,
+          Tramo: bucketLabels[o.bucket],
+          Moneda: o.currency,
+          Total: o.total,
+          Pagado: o.paid,
+          Saldo: o.balance,
+          [`Saldo (${data.baseCurrency})`]: o.baseBalance,
+        })),
+      },
+      {
+        name: 'Meta',
+        rows: [{ 'Fecha de corte': asOf, Ciudad: city.trim() || 'Todas', Moneda: data.baseCurrency, Generado: new Date().toLocaleString() }],
+      },
+    ])
+  }
+
+  const bucketColumns = bucketKeys.map((b) => ({
+    header: bucketLabels[b],
+    width: '110px',
+    className: 'text-right',
+    accessor: (r: AgingTotals) => (r[b] > 0 ? money(r[b]) : '-'),
+  }))
+
+  const data = agingQuery.data
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Cartera por antigüedad"
+        actions={
+          <Button variant="outline" icon={<DocumentArrowDownIcon />} onClick={handleExportExcel} disabled={!data}>
+            Exportar Excel
+          </Button>
+        }
+      >
+        <div className="mb-4 flex flex-wrap items-end gap-3">
+          <div className="w-44">
+            <Input label="Fecha de corte" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+          </div>
+          <div className="w-56">
+            <Input label="Ciudad" value={city} onChange={(e) => setCity(e.target.value)} placeholder="Todas" />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={groupBy === 'CUSTOMER' ? 'primary' : 'ghost'} onClick={() => setGroupBy('CUSTOMER')}>
+              Por cliente
+            </Button>
+            <Button size="sm" variant={groupBy === 'CITY' ? 'primary' : 'ghost'} onClick={() => setGroupBy('CITY')}>
+              Por ciudad
+            </Button>
+          </div>
+        </div>
+
+        {agingQuery.isLoading && <Loading />}
+        {agingQuery.error && <ErrorState message="Error al cargar la cartera" retry={agingQuery.refetch} />}
+
+        {data && (
+          <>
+            <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-6">
+              <KPICard icon="💰" label="Total por cobrar" value={`${money(data.totals.total)} ${currency}`} color="primary" />
+              <KPICard icon="✅" label={bucketLabels.CURRENT} value={money(data.totals.CURRENT)} color="success" />
+              <KPICard icon="⏳" label={bucketLabels.D1_30} value={money(data.totals.D1_30)} color="info" />
+              <KPICard icon="⚠️" label={bucketLabels.D31_60} value={money(data.totals.D31_60)} color="warning" />
+              <KPICard icon="🔶" label={bucketLabels.D61_90} value={money(data.totals.D61_90)} color="warning" />
+              <KPICard icon="🚨" label={bucketLabels.D90_PLUS} value={money(data.totals.D90_PLUS)} color="danger" />
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+              {data.orders.length === 0 && <EmptyState message="No hay saldos pendientes a la fecha" />}
+
+              {data.orders.length > 0 && groupBy === 'CUSTOMER' && (
+                <Table
+                  columns={[
+                    { header: 'Cliente', width: '220px', accessor: (r) => r.customerName },
+                    { header: 'Ciudad', width: '120px', accessor: (r) => r.city ?? '-' },
+                    { header: 'OV', width: '60px', className: 'text-right', accessor: (r) => r.ordersCount },
+                    ...bucketColumns,
+                    { header: `Total (${currency})`, width: '120px', className: 'text-right', accessor: (r) => <strong>{money(r.total)}</strong> },
+                    {
+                      header: 'Acciones',
+                      className: 'text-center',
+                      width: '150px',
+                      accessor: (r) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<DocumentTextIcon className="w-4 h-4" />}
+                          onClick={() => setStatementCustomer({ id: r.customerId, name: r.customerName })}
+                        >
+                          Estado de cuenta
+                        </Button>
+                      ),
+                    },
+                  ]}
+                  data={data.customers}
+                  keyExtractor={(r) => r.customerId}
+                />
+              )}
+
+              {data.orders.length > 0 && groupBy === 'CITY' && (
+                <Table
+                  columns={[
+                    { header: 'Ciudad', width: '180px', accessor: (r) => r.city },
+                    { header: 'OV', width: '60px', className: 'text-right', accessor: (r) => r.ordersCount },
+                    ...bucketColumns,
+                    { header: `Total (${currency})`, width: '120px', className: 'text-right', accessor: (r) => <strong>{money(r.total)}</strong> },
+                  ]}
+                  data={data.cities}
+                  keyExtractor={(r) => r.city}
+                />
+              )}
+            </div>
+          </>
+        )}
+
+        <Modal
+          isOpen={!!statementCustomer}
+          onClose={() => setStatementCustomer(null)}
+          title={`Estado de cuenta: ${statementCustomer?.name ?? ''}`}
+          maxWidth="sm"
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <Input label="Desde" type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} />
+              <Input label="Hasta" type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setStatementCustomer(null)}>
+                Cancelar
+              </Button>
+              <Button
+                icon={<DocumentArrowDownIcon className="w-4 h-4" />}
+                loading={statementMutation.isPending}
+                disabled={!statementFrom || !statementTo || statementFrom > statementTo}
+                onClick={() => statementCustomer && statementMutation.mutate(statementCustomer.id)}
+              >
+                Generar PDF
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -24,7 +24,7 @@ import { blobToBase64, exportElementToPdf, pdfBlobFromElement } from '../../lib/
 import { useAuth } from '../../providers/AuthProvider'
 import { useTenant } from '../../providers/TenantProvider'
 
-type SalesStatus = 'ALL' | 'DRAFT' | 'CONFIRMED' | 'FULFILLED' | 'CANCELLED'
+type SalesStatus = 'ALL' | 'DRAFT' | 'CONFIRMED' | 'PARTIALLY_FULFILLED' | 'FULFILLED' | 'CANCELLED'
 
 type SalesSummaryItem = {
   day: string
@@ -60,7 +60,11 @@ type SalesTopProductItem = {
 
 type SalesFunnelItem = { key: string; label: string; value: number }
 
-type FunnelResponse = { items: SalesFunnelItem[]; totals: { amountFulfilled: string; amountPaid: string } }
+type FunnelResponse = {
+  items: SalesFunnelItem[]
+  lost: SalesFunnelItem[]
+  totals: { amountFulfilled: string; amountPaid: string; quotesLost: number; quotesOpen: number; winRatePct: number | null }
+}
 
 type SalesByMonthItem = {
   month: string
@@ -75,8 +79,14 @@ type ProductMarginsItem = {
   sku: string
   name: string
   qtySold: number
+  grossRevenue: number
+  taxAmount: number
+  // Net of IVA; margins are computed on it.
   revenue: number
+  itAmount: number
+  // Average unit cost of the units sold, each at the cost effective when sold.
   costPrice: number
+  currentCost: number
   costTotal: number
   profit: number
   marginPct: number
@@ -84,7 +94,34 @@ type ProductMarginsItem = {
 
 type MarginsResponse = {
   items: ProductMarginsItem[]
-  totals: { revenue: number; costTotal: number; profit: number; avgMargin: number }
+  totals: {
+    grossRevenue: number
+    taxAmount: number
+    revenue: number
+    itAmount: number
+    costTotal: number
+    profit: number
+    avgMargin: number
+  }
+}
+
+type PromotionUsageItem = {
+  promotionId: string
+  code: string
+  name: string
+  type: 'PERCENT_DISCOUNT' | 'FIXED_DISCOUNT' | 'BONUS_UNITS'
+  quotesCount: number
+  discountedUnits: number
+  discountAmount: number
+  bonusUnits: number
+  // Bonus units at list price and at cost.
+  bonusValue: number
+  bonusCost: number
+}
+
+type PromotionUsageResponse = {
+  items: PromotionUsageItem[]
+  totals: { discountAmount: number; bonusUnits: number; bonusValue: number; bonusCost: number }
 }
 
 type ScheduleItem = {
@@ -103,7 +140,7 @@ type ScheduleItem = {
 
 type ScheduleListResponse = { items: ScheduleItem[] }
 
-type ReportTab = 'MONTH' | 'CUSTOMERS' | 'CITIES' | 'TOP_PRODUCTS' | 'FUNNEL' | 'COMPARISON' | 'MARGINS'
+type ReportTab = 'MONTH' | 'CUSTOMERS' | 'CITIES' | 'TOP_PRODUCTS' | 'FUNNEL' | 'COMPARISON' | 'MARGINS' | 'PROMOTIONS'
 
 // Tipo para órdenes detalladas (drill-down)
 type OrderDetailItem = {
@@ -149,6 +186,7 @@ function statusLabel(s: SalesStatus): string {
   if (s === 'ALL') return 'TODOS'
   if (s === 'DRAFT') return 'BORRADOR'
   if (s === 'CONFIRMED') return 'CONFIRMADO'
+  if (s === 'PARTIALLY_FULFILLED') return 'ENTREGA PARCIAL'
   if (s === 'FULFILLED') return 'ENTREGADO'
   if (s === 'CANCELLED') return 'ANULADO'
   return s
@@ -263,6 +301,13 @@ async function fetchProductMargins(
   return apiFetch(`/api/v1/reports/sales/margins?${params}`, { token })
 }
 
+async function fetchPromotionUsage(token: string, q: { from?: string; to?: string }): Promise<PromotionUsageResponse> {
+  const params = new URLSearchParams()
+  if (q.from) params.set('from', q.from)
+  if (q.to) params.set('to', q.to)
+  return apiFetch(`/api/v1/reports/sales/promotions?${params}`, { token })
+}
+
 async function sendSalesReportEmail(token: string, input: { to: string; subject: string; filename: string; pdfBase64: string; message?: string }) {
   await apiFetch(`/api/v1/reports/sales/email`, {
     token,
@@ -344,12 +389,12 @@ export function SalesReportsPage() {
     const qsTo = sp.get('to')
     const qsStatus = sp.get('status')
 
-    if (qsTab && ['MONTH', 'CUSTOMERS', 'CITIES', 'TOP_PRODUCTS', 'FUNNEL', 'COMPARISON', 'MARGINS'].includes(qsTab)) {
+    if (qsTab && ['MONTH', 'CUSTOMERS', 'CITIES', 'TOP_PRODUCTS', 'FUNNEL', 'COMPARISON', 'MARGINS', 'PROMOTIONS'].includes(qsTab)) {
       setTab(qsTab as ReportTab)
     }
     if (qsFrom && /^\d{4}-\d{2}-\d{2}$/.test(qsFrom)) setFrom(qsFrom)
     if (qsTo && /^\d{4}-\d{2}-\d{2}$/.test(qsTo)) setTo(qsTo)
-    if (qsStatus && ['ALL', 'DRAFT', 'CONFIRMED', 'FULFILLED', 'CANCELLED'].includes(qsStatus)) {
+    if (qsStatus && ['ALL', 'DRAFT', 'CONFIRMED', 'PARTIALLY_FULFILLED', 'FULFILLED', 'CANCELLED'].includes(qsStatus)) {
       setStatus(qsStatus as SalesStatus)
     }
     // Only on navigation (e.g. opening scheduled link)
@@ -378,6 +423,7 @@ export function SalesReportsPage() {
     if (tab === 'TOP_PRODUCTS') return `Productos más vendidos (${period})`
     if (tab === 'COMPARISON') return `Comparativa de períodos (${period})`
     if (tab === 'MARGINS') return `Márgenes y utilidades (${period})`
+    if (tab === 'PROMOTIONS') return `Uso de promociones (${period})`
     return `Embudo Ventas → Entregas → Cobros (${period})`
   }, [from, to, tab])
 
@@ -454,6 +500,13 @@ export function SalesReportsPage() {
     enabled: !!auth.accessToken && tab === 'MARGINS',
   })
 
+  // Query para promociones (cotizaciones procesadas en el período)
+  const promotionsQuery = useQuery({
+    queryKey: ['reports', 'sales', 'promotions', { from, to }],
+    queryFn: () => fetchPromotionUsage(auth.accessToken!, { from, to }),
+    enabled: !!auth.accessToken && tab === 'PROMOTIONS',
+  })
+
 
 
   const exportFilename = useMemo(() => {
@@ -561,6 +614,9 @@ export function SalesReportsPage() {
               <Button size="sm" variant={tab === 'MARGINS' ? 'primary' : 'outline'} onClick={() => setTab('MARGINS')}>
                 💹 Márgenes
               </Button>
+              <Button size="sm" variant={tab === 'PROMOTIONS' ? 'primary' : 'outline'} onClick={() => setTab('PROMOTIONS')}>
+                🎁 Promociones
+              </Button>
             </div>
             
             {/* Acciones - botones ghost */}
@@ -619,6 +675,7 @@ export function SalesReportsPage() {
                 <option value="ALL">{statusLabel('ALL')}</option>
                 <option value="DRAFT">{statusLabel('DRAFT')}</option>
                 <option value="CONFIRMED">{statusLabel('CONFIRMED')}</option>
+                <option value="PARTIALLY_FULFILLED">{statusLabel('PARTIALLY_FULFILLED')}</option>
                 <option value="FULFILLED">{statusLabel('FULFILLED')}</option>
                 <option value="CANCELLED">{statusLabel('CANCELLED')}</option>
               </select>
@@ -1185,6 +1242,27 @@ export function SalesReportsPage() {
                     </ResponsiveContainer>
                   </div>
 
+                  {/* Cotizaciones perdidas (vencidas / rechazadas / anuladas) */}
+                  <div className="mb-6 grid grid-cols-2 gap-4 md:grid-cols-5">
+                    {(funnelQuery.data?.lost ?? []).map((i, idx) => (
+                      <KPICard key={i.key} icon={['⌛', '👎', '🚫'][idx] ?? '📉'} label={i.label} value={i.value} color="danger" />
+                    ))}
+                    <KPICard
+                      icon="⏳"
+                      label="Cotizaciones abiertas"
+                      value={funnelQuery.data?.totals?.quotesOpen ?? 0}
+                      color="info"
+                      subtitle="Vigentes, sin decidir"
+                    />
+                    <KPICard
+                      icon="🎯"
+                      label="Tasa de cierre"
+                      value={funnelQuery.data?.totals?.winRatePct == null ? '-' : `${funnelQuery.data.totals.winRatePct.toFixed(1)}%`}
+                      color="success"
+                      subtitle="Procesadas / (procesadas + perdidas)"
+                    />
+                  </div>
+
                   {/* Totales monetarios con KPIs */}
                   <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                     <KPICard
@@ -1325,7 +1403,15 @@ export function SalesReportsPage() {
               )}
               {!marginsQuery.isLoading && !marginsQuery.isError && (marginsQuery.data?.items?.length ?? 0) > 0 && (() => {
                 const items = marginsQuery.data?.items ?? []
-                const totals = marginsQuery.data?.totals ?? { revenue: 0, costTotal: 0, profit: 0, avgMargin: 0 }
+                const totals = marginsQuery.data?.totals ?? {
+                  grossRevenue: 0,
+                  taxAmount: 0,
+                  revenue: 0,
+                  itAmount: 0,
+                  costTotal: 0,
+                  profit: 0,
+                  avgMargin: 0,
+                }
                 const hasCostData = items.some(i => i.costPrice > 0)
 
                 return (
@@ -1343,24 +1429,24 @@ export function SalesReportsPage() {
                     <div className="mb-6 grid grid-cols-2 gap-4 md:grid-cols-4">
                       <KPICard
                         icon="💵"
-                        label="Ingresos Totales"
+                        label="Ingresos Netos"
                         value={`${money(totals.revenue)} ${currency}`}
                         color="primary"
-                        subtitle="Ventas brutas"
+                        subtitle={`Bruto ${money(totals.grossRevenue)} · IVA ${money(totals.taxAmount)}`}
                       />
                       <KPICard
                         icon="📦"
                         label="Costo Total"
                         value={`${money(totals.costTotal)} ${currency}`}
                         color="warning"
-                        subtitle="Costo de productos"
+                        subtitle={`Costo vigente al vender · IT ${money(totals.itAmount)}`}
                       />
                       <KPICard
                         icon="💰"
                         label="Utilidad Bruta"
                         value={`${money(totals.profit)} ${currency}`}
                         color="success"
-                        subtitle="Ingresos - Costos"
+                        subtitle="Ingresos netos - IT - Costos"
                       />
                       <KPICard
                         icon="📊"
@@ -1408,7 +1494,17 @@ export function SalesReportsPage() {
                       columns={[
                         { header: 'Producto', accessor: (item) => item.name },
                         { header: 'Unidades', accessor: (item) => item.qtySold, className: 'text-right' },
-                        { header: `Ingreso (${currency})`, accessor: (r) => money(r.revenue), className: 'text-right' },
+                        { header: `Bruto (${currency})`, accessor: (r) => money(r.grossRevenue), className: 'text-right text-slate-500' },
+                        { header: 'IVA', accessor: (r) => money(r.taxAmount), className: 'text-right text-slate-500' },
+                        { header: `Ingreso neto`, accessor: (r) => money(r.revenue), className: 'text-right' },
+                        { header: 'IT', accessor: (r) => money(r.itAmount), className: 'text-right text-slate-500' },
+                        {
+                          header: 'Costo u.',
+                          accessor: (r) => (
+                            <span title={`Costo actual: ${money(r.currentCost)}`}>{money(r.costPrice)}</span>
+                          ),
+                          className: 'text-right text-slate-500',
+                        },
                         { header: `Costo`, accessor: (r) => money(r.costTotal), className: 'text-right text-slate-500' },
                         { header: `Utilidad`, accessor: (r) => <span className={r.profit >= 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>{money(r.profit)}</span>, className: 'text-right' },
                         { header: 'Margen %', accessor: (r) => <span className={r.marginPct >= 0 ? 'text-green-600' : 'text-red-600'}>{r.marginPct.toFixed(1)}%</span>, className: 'text-right' },
@@ -1419,6 +1515,63 @@ export function SalesReportsPage() {
               })()}
             </ReportSection>
           )}
+
+          {/* Reporte de uso de promociones */}
+          {tab === 'PROMOTIONS' && (
+            <ReportSection
+              title="🎁 Uso de Promociones"
+              subtitle="Descuentos y bonificaciones en cotizaciones procesadas (no depende del filtro de estado)"
+              icon="🎁"
+            >
+              {promotionsQuery.isLoading && <Loading />}
+              {promotionsQuery.isError && <ErrorState message={promotionsQuery.error?.message ?? 'Error cargando reporte'} />}
+              {!promotionsQuery.isLoading && !promotionsQuery.isError && (promotionsQuery.data?.items?.length ?? 0) === 0 && (
+                <EmptyState message="No se usaron promociones en el período." />
+              )}
+              {!promotionsQuery.isLoading && !promotionsQuery.isError && (promotionsQuery.data?.items?.length ?? 0) > 0 && (() => {
+                const items = promotionsQuery.data?.items ?? []
+                const totals = promotionsQuery.data?.totals ?? { discountAmount: 0, bonusUnits: 0, bonusValue: 0, bonusCost: 0 }
+
+                return (
+                  <>
+                    <div className="mb-6 grid grid-cols-2 gap-4 md:grid-cols-4">
+                      <KPICard icon="🎁" label="Promociones usadas" value={items.length} color="primary" subtitle="En el período" />
+                      <KPICard
+                        icon="🏷️"
+                        label="Descuento otorgado"
+                        value={`${money(totals.discountAmount)} ${currency}`}
+                        color="warning"
+                        subtitle="Precio de lista - precio promocional"
+                      />
+                      <KPICard icon="📦" label="Unidades bonificadas" value={totals.bonusUnits} color="success" subtitle="Entregadas sin costo" />
+                      <KPICard
+                        icon="💰"
+                        label="Valor bonificado"
+                        value={`${money(totals.bonusValue)} ${currency}`}
+                        color="info"
+                        subtitle={`A precio de lista · costo ${money(totals.bonusCost)}`}
+                      />
+                    </div>
+
+                    <Table
+                      data={items}
+                      keyExtractor={(item) => item.promotionId}
+                      columns={[
+                        { header: 'Código', accessor: (r) => r.code },
+                        { header: 'Promoción', accessor: (r) => r.name },
+                        { header: 'Cotizaciones', accessor: (r) => r.quotesCount, className: 'text-right' },
+                        { header: 'Unid. con desc.', accessor: (r) => (r.type === 'BONUS_UNITS' ? '-' : r.discountedUnits), className: 'text-right' },
+                        { header: `Descuento (${currency})`, accessor: (r) => money(r.discountAmount), className: 'text-right' },
+                        { header: 'Unid. bonificadas', accessor: (r) => r.bonusUnits, className: 'text-right' },
+                        { header: `Valor bonif. (${currency})`, accessor: (r) => money(r.bonusValue), className: 'text-right' },
+                        { header: 'Costo bonif.', accessor: (r) => money(r.bonusCost), className: 'text-right text-slate-500' },
+                      ]}
+                    />
+                  </>
+                )
+              })()}
+            </ReportSection>
+          )}
         </div>
 
         <Modal isOpen={emailModalOpen} onClose={() => setEmailModalOpen(false)} title="Enviar reporte por correo" maxWidth="md">
@@ -1657,6 +1810,7 @@ export function SalesReportsPage() {
                             const statusColors: Record<string, string> = {
                               'DRAFT': 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
                               'CONFIRMED': 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300',
+                              'PARTIALLY_FULFILLED': 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-300',
                               'FULFILLED': 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-300',
                               'CANCELLED': 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-300',
                             }
@@ -1,2 +1,3 @@
 export { SalesReportsPage } from './SalesReportsPage'
 export { StockReportsPage } from './StockReportsPage'
+export { ReceivablesReportPage } from './ReceivablesReportPage'
@@ -6,6 +6,7 @@ import { apiFetch } from '../../lib/api'
 import { useAuth } from '../../providers/AuthProvider'
 import { MainLayout, PageContainer, Input, Button, Loading, ErrorState, Select, MapSelector } from '../../components'
 import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
 
 type Customer = {
   id: string
@@ -23,21 +24,50 @@ type Customer = {
   zone?: string | null
   mapsUrl?: string | null
   isActive: boolean
-  creditDays7Enabled?: boolean
-  creditDays14Enabled?: boolean
+  paymentTerms?: PaymentTermRef[]
+  creditLimit?: string | null
+  overdueToleranceDays?: number
+  priceListId?: string | null
   version: number
   createdAt: string
 }
 
+type PaymentTermRef = { id: string; code: string; name: string; days: number; isActive?: boolean }
+
+type CreditStatus = {
+  creditLimit: number | null
+  overdueToleranceDays: number
+  openReceivable: number
+  pendingOrders: number
+  exposure: number
+  available: number | null
+  overdue: Array<{ orderId: string; number: string; dueAt: string; daysOverdue: number; balance: number }>
+  onHold: boolean
+}
+
 type BranchCitiesResponse = { items: string[] }
 
+type PriceListRef = { id: string; code: string; name: string }
+
+async function fetchPaymentTerms(token: string): Promise<{ items: PaymentTermRef[] }> {
+  return apiFetch('/api/v1/sales/payment-terms', { token })
+}
+
+async function fetchPriceLists(token: string): Promise<{ items: PriceListRef[] }> {
+  return apiFetch('/api/v1/sales/price-lists', { token })
+}
+
 async function fetchCustomer(token: string, customerId: string): Promise<Customer> {
   return apiFetch(`/api/v1/customers/${customerId}`, { token })
 }
 
+async function fetchCreditStatus(token: string, customerId: string): Promise<CreditStatus> {
+  return apiFetch(`/api/v1/customers/${customerId}/credit`, { token })
+}
+
 async function createCustomer(
   token: string,
-  data: { name: string; businessName?: string; nit?: string; contactName?: string; contactBirthDay?: number; contactBirthMonth?: number; contactBirthYear?: number; email?: string; phone?: string; address?: string; city?: string; zone?: string; mapsUrl?: string; creditDays7Enabled?: boolean; creditDays14Enabled?: boolean },
+  data: { name: string; businessName?: string; nit?: string; contactName?: string; contactBirthDay?: number; contactBirthMonth?: number; contactBirthYear?: number; email?: string; phone?: string; address?: string; city?: string; zone?: string; mapsUrl?: string; paymentTermIds?: string[]; creditLimit?: number; overdueToleranceDays?: number; priceListId?: string },
 ): Promise<Customer> {
   return apiFetch(`/api/v1/customers`, {
     method: 'POST',
@@ -69,8 +99,10 @@ async function updateCustomer(
     city?: string
     zone?: string
     mapsUrl?: string
-    creditDays7Enabled?: boolean
-    creditDays14Enabled?: boolean
+    paymentTermIds?: string[]
+    creditLimit?: number | null
+    overdueToleranceDays?: number
+    priceListId?: string | null
   },
 ): Promise<Customer> {
   return apiFetch(`/api/v1/customers/${customerId}`, {
@@ -85,6 +117,8 @@ export function CustomerDetailPage() {
   const navigate = useNavigate()
   const navGroups = useNavigation()
   const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canManageCredit = perms.hasPermission('sales:credit:override')
   const { customerId } = useParams<{ customerId?: string }>()
   const isNew = !customerId
   const [mapMode, setMapMode] = useState<'manual' | 'interactive'>('manual')
@@ -103,8 +137,10 @@ export function CustomerDetailPage() {
   const [zone, setZone] = useState('')
   const [mapsUrl, setMapsUrl] = useState('')
   const [isActive, setIsActive] = useState(true)
-  const [creditDays7Enabled, setCreditDays7Enabled] = useState(false)
-  const [creditDays14Enabled, setCreditDays14Enabled] = useState(false)
+  const [paymentTermIds, setPaymentTermIds] = useState<string[]>([])
+  const [creditLimit, setCreditLimit] = useState('')
+  const [overdueToleranceDays, setOverdueToleranceDays] = useState('0')
+  const [priceListId, setPriceListId] = useState('')
   const [error, setError] = useState('')
 
   const handleMapLocationSelect = useCallback((mapsUrl: string, geocodedAddress?: string) => {
@@ -120,6 +156,27 @@ export function CustomerDetailPage() {
     enabled: !!auth.accessToken && !!customerId,
   })
 
+  const creditQuery = useQuery({
+    queryKey: ['customer', customerId, 'credit'],
+    queryFn: () => fetchCreditStatus(auth.accessToken!, customerId!),
+    enabled: !!auth.accessToken && !!customerId,
+  })
+
+  const paymentTermsQuery = useQuery({
+    queryKey: ['salesPaymentTerms', 'active'],
+    queryFn: () => fetchPaymentTerms(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  // Cash needs no enabling; only credit terms are assigned per customer.
+  const creditTerms = (paymentTermsQuery.data?.items ?? []).filter((t) => t.days > 0)
+
+  const priceListsQuery = useQuery({
+    queryKey: ['salesPriceLists', 'active'],
+    queryFn: () => fetchPriceLists(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
   const branchCitiesQuery = useQuery({
     queryKey: ['customer-branch-cities'],
     queryFn: () => fetchBranchCities(auth.accessToken!),
@@ -143,8 +200,10 @@ export function CustomerDetailPage() {
       setZone(customerQuery.data.zone || '')
       setMapsUrl(customerQuery.data.mapsUrl || '')
       setIsActive(customerQuery.data.isActive)
-      setCreditDays7Enabled(!!customerQuery.data.creditDays7Enabled)
-      setCreditDays14Enabled(!!customerQuery.data.creditDays14Enabled)
+      setPaymentTermIds((customerQuery.data.paymentTerms ?? []).map((t) => t.id))
+      setCreditLimit(customerQuery.data.creditLimit != null ? String(Number(customerQuery.data.creditLimit)) : '')
+      setOverdueToleranceDays(String(customerQuery.data.overdueToleranceDays ?? 0))
+      setPriceListId(customerQuery.data.priceListId ?? '')
     }
   }, [customerQuery.data])
 
@@ -164,8 +223,10 @@ export function CustomerDetailPage() {
         ...(city && { city }),
         ...(zone && { zone }),
         ...(mapsUrl && { mapsUrl }),
-        creditDays7Enabled,
-        creditDays14Enabled,
+        paymentTermIds,
+        ...(canManageCredit && creditLimit.trim() && { creditLimit: Number(creditLimit) }),
+        ...(canManageCredit && { overdueToleranceDays: parseInt(overdueToleranceDays || '0') }),
+        ...(priceListId && { priceListId }),
       }),
     onSuccess: (newCustomer) => {
       queryClient.invalidateQueries({ queryKey: ['customers'] })
@@ -196,8 +257,11 @@ export function CustomerDetailPage() {
         ...(zone && { zone }),
         ...(mapsUrl && { mapsUrl }),
         isActive,
-        creditDays7Enabled,
-        creditDays14Enabled,
+        paymentTermIds,
+        // Empty limit means "no limit".
+        ...(canManageCredit && { creditLimit: creditLimit.trim() ? Number(creditLimit) : null }),
+        ...(canManageCredit && { overdueToleranceDays: parseInt(overdueToleranceDays || '0') }),
+        priceListId: priceListId || null,
       })
     },
     onSuccess: () => {
@@ -483,27 +547,80 @@ export function CustomerDetailPage() {
             <div className="rounded-md border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
               <div className="mb-2 text-sm font-medium text-slate-900 dark:text-slate-100">Términos de pago</div>
               <div className="flex flex-col gap-3">
-                <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-200">
-                  <input
-                    type="checkbox"
-                    checked={creditDays7Enabled}
-                    onChange={(e) => setCreditDays7Enabled(e.target.checked)}
-                    disabled={isSubmitting}
-                    className="h-4 w-4"
-                  />
-                  Habilitar crédito 7 días
-                </label>
-                <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-200">
-                  <input
-                    type="checkbox"
-                    checked={creditDays14Enabled}
-                    onChange={(e) => setCreditDays14Enabled(e.target.checked)}
-                    disabled={isSubmitting}
-                    className="h-4 w-4"
-                  />
-                  Habilitar crédito 14 días
-                </label>
+                {creditTerms.length === 0 && (
+                  <div className="text-sm text-slate-500 dark:text-slate-400">No hay términos de crédito activos.</div>
+                )}
+                {creditTerms.map((t) => (
+                  <label key={t.id} className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={paymentTermIds.includes(t.id)}
+                      onChange={(e) =>
+                        setPaymentTermIds((prev) => (e.target.checked ? [...prev, t.id] : prev.filter((id) => id !== t.id)))
+                      }
+                      disabled={isSubmitting}
+                      className="h-4 w-4"
+                    />
+                    Habilitar {t.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-md border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
+              <Select
+                label="Lista de precios"
+                value={priceListId}
+                onChange={(e) => setPriceListId(e.target.value)}
+                options={[
+                  { value: '', label: 'Precio de catálogo' },
+                  ...(priceListsQuery.data?.items ?? []).map((l) => ({ value: l.id, label: `${l.code} · ${l.name}` })),
+                ]}
+                disabled={isSubmitting || priceListsQuery.isLoading}
+              />
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                Las cotizaciones del cliente toman el precio de esta lista; los productos que no incluye usan el precio de catálogo.
+              </p>
+            </div>
+
+            <div className="rounded-md border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
+              <div className="mb-2 text-sm font-medium text-slate-900 dark:text-slate-100">Límite de crédito</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Límite de crédito"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={creditLimit}
+                  onChange={(e) => setCreditLimit(e.target.value)}
+                  disabled={isSubmitting || !canManageCredit}
+                  placeholder="Sin límite"
+                />
+                <Input
+                  label="Tolerancia de mora (días)"
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={overdueToleranceDays}
+                  onChange={(e) => setOverdueToleranceDays(e.target.value)}
+                  disabled={isSubmitting || !canManageCredit}
+                />
               </div>
+              {!canManageCredit && (
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Solo usuarios con permiso para liberar crédito pueden modificar estos valores.</p>
+              )}
+              {creditQuery.data && (
+                <div className="mt-3 space-y-1 text-sm text-slate-700 dark:text-slate-200">
+                  <div>Por cobrar: {creditQuery.data.openReceivable.toFixed(2)} · Órdenes pendientes de entrega: {creditQuery.data.pendingOrders.toFixed(2)}</div>
+                  {creditQuery.data.available !== null && <div>Disponible: {creditQuery.data.available.toFixed(2)}</div>}
+                  {creditQuery.data.overdue.length > 0 && (
+                    <div className="text-red-600 dark:text-red-400">
+                      Facturas vencidas: {creditQuery.data.overdue.map((o) => `${o.number} (${o.daysOverdue}d)`).join(', ')}
+                    </div>
+                  )}
+                  {creditQuery.data.onHold && <div className="font-medium text-red-600 dark:text-red-400">Cliente con retención de crédito</div>}
+                </div>
+              )}
             </div>
 
             {error && (
@@ -13,17 +13,19 @@ import {
   PaginationCursor,
   Select,
   Table,
+  Input,
 } from '../../components'
 import { useNavigation } from '../../hooks'
 import { usePermissions } from '../../hooks/usePermissions'
 import { apiFetch } from '../../lib/api'
+import { getProductDisplayName } from '../../lib/productName'
 import { useAuth } from '../../providers/AuthProvider'
 import { EyeIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
 
 type DeliveryListItem = {
   id: string
   number: string
-  status: 'DRAFT' | 'CONFIRMED' | 'FULFILLED' | 'CANCELLED'
+  status: 'DRAFT' | 'CONFIRMED' | 'PARTIALLY_FULFILLED' | 'FULFILLED' | 'CANCELLED'
   version: number
   updatedAt: string
   customerId: string
@@ -43,6 +45,32 @@ type LocationListItem = { id: string; warehouseId: string; code: string; isActiv
 
 type DeliverStatusFilter = 'PENDING' | 'DELIVERED' | 'ALL'
 
+type DeliveryOrderLine = {
+  id: string
+  quantity: string | number
+  deliveredQuantity: string | number
+  product: { sku: string; name: string; genericName?: string | null }
+}
+
+type DeliveryOrderDetail = { id: string; number: string; version: number; lines: DeliveryOrderLine[] }
+
+type DeliverInput = {
+  orderId: string
+  version: number
+  fromLocationId?: string
+  lines?: Array<{ lineId: string; quantity: number }>
+  closeBackorder?: boolean
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) ? n : 0
+}
+
+function pendingQuantity(line: DeliveryOrderLine): number {
+  return Math.max(0, toNumber(line.quantity) - toNumber(line.deliveredQuantity))
+}
+
 function startOfDayLocal(d: Date) {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate())
 }
@@ -83,14 +111,20 @@ async function listWarehouseLocations(token: string, warehouseId: string): Promi
   return apiFetch(`/api/v1/warehouses/${encodeURIComponent(warehouseId)}/locations?${params}`, { token })
 }
 
-async function deliverOrder(
-  token: string,
-  input: { orderId: string; version: number; fromLocationId?: string },
-): Promise<{ order: { id: string } }> {
+async function fetchOrderForDelivery(token: string, orderId: string): Promise<DeliveryOrderDetail> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(orderId)}`, { token })
+}
+
+async function deliverOrder(token: string, input: DeliverInput): Promise<{ order: { id: string } }> {
   return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(input.orderId)}/deliver`, {
     method: 'POST',
     token,
-    body: JSON.stringify({ version: input.version, ...(input.fromLocationId ? { fromLocationId: input.fromLocationId } : {}) }),
+    body: JSON.stringify({
+      version: input.version,
+      ...(input.fromLocationId ? { fromLocationId: input.fromLocationId } : {}),
+      ...(input.lines ? { lines: input.lines } : {}),
+      ...(input.closeBackorder ? { closeBackorder: true } : {}),
+    }),
   })
 }
 
@@ -111,7 +145,10 @@ export function DeliveriesPage() {
   const [selectedCities, setSelectedCities] = useState<string[]>([])
 
   const [deliverLocationModalOpen, setDeliverLocationModalOpen] = useState(false)
-  const [deliverTarget, setDeliverTarget] = useState<{ orderId: string; version: number; number: string } | null>(null)
+  const [deliverTarget, setDeliverTarget] = useState<(DeliverInput & { number: string }) | null>(null)
+  const [deliverQtyModalOpen, setDeliverQtyModalOpen] = useState(false)
+  const [deliverQuantities, setDeliverQuantities] = useState<Record<string, string>>({})
+  const [closeBackorder, setCloseBackorder] = useState(false)
   const [deliverWarehouseId, setDeliverWarehouseId] = useState<string>('')
   const [deliverLocationId, setDeliverLocationId] = useState<string>('')
 
@@ -137,6 +174,12 @@ export function DeliveriesPage() {
     return cities
   }, [deliveriesQuery.data?.items])
 
+  const deliverOrderQuery = useQuery({
+    queryKey: ['deliveryOrder', deliverTarget?.orderId],
+    queryFn: () => fetchOrderForDelivery(auth.accessToken!, deliverTarget!.orderId),
+    enabled: !!auth.accessToken && deliverQtyModalOpen && !!deliverTarget,
+  })
+
   const warehousesQuery = useQuery({
     queryKey: ['warehouses', 'deliveries'],
     queryFn: () => listWarehouses(auth.accessToken!),
@@ -150,11 +193,12 @@ export function DeliveriesPage() {
   })
 
   const deliverMutation = useMutation({
-    mutationFn: (vars: { orderId: string; version: number; fromLocationId?: string }) => deliverOrder(auth.accessToken!, vars),
+    mutationFn: (vars: DeliverInput) => deliverOrder(auth.accessToken!, vars),
     onSuccess: async () => {
       await queryClient.invalidateQueries({ queryKey: ['deliveries'] })
       await queryClient.invalidateQueries({ queryKey: ['orders'] })
       setDeliverTarget(null)
+      setDeliverQtyModalOpen(false)
       setDeliverLocationModalOpen(false)
       setDeliverWarehouseId('')
       setDeliverLocationId('')
@@ -162,6 +206,7 @@ export function DeliveriesPage() {
     onError: (err: any) => {
       const msg = (err?.message as string | undefined) ?? 'No se pudo marcar como entregado'
       if (deliverTarget && isMissingReservationsError(msg)) {
+        setDeliverQtyModalOpen(false)
         setDeliverLocationModalOpen(true)
         return
       }
@@ -171,6 +216,33 @@ export function DeliveriesPage() {
 
   const items = deliveriesQuery.data?.items ?? []
 
+  const openLines = (deliverOrderQuery.data?.lines ?? []).filter((l) => pendingQuantity(l) > 0)
+  const deliverQtyFor = (line: DeliveryOrderLine) => deliverQuantities[line.id] ?? String(pendingQuantity(line))
+  const isPartialDelivery = openLines.some((l) => toNumber(deliverQtyFor(l)) < pendingQuantity(l))
+
+  const submitDelivery = () => {
+    if (!deliverTarget || !deliverOrderQuery.data) return
+    const lines = openLines.map((l) => ({ lineId: l.id, quantity: toNumber(deliverQtyFor(l)) }))
+    if (lines.some((l) => l.quantity < 0)) {
+      window.alert('Las cantidades no pueden ser negativas')
+      return
+    }
+    const invalid = openLines.find((l) => toNumber(deliverQtyFor(l)) > pendingQuantity(l))
+    if (invalid) {
+      window.alert(`La cantidad a entregar de ${invalid.product.sku} supera lo pendiente`)
+      return
+    }
+    const vars: DeliverInput = {
+      orderId: deliverTarget.orderId,
+      version: deliverOrderQuery.data.version,
+      // Full deliveries omit the lines so the backend delivers whatever is pending.
+      ...(isPartialDelivery ? { lines } : {}),
+      ...(isPartialDelivery && closeBackorder ? { closeBackorder: true } : {}),
+    }
+    setDeliverTarget({ ...vars, number: deliverTarget.number })
+    deliverMutation.mutate(vars)
+  }
+
   return (
     <MainLayout navGroups={navGroups}>
       <PageContainer title="Entregas">
@@ -293,9 +365,17 @@ export function DeliveriesPage() {
                     width: '130px',
                     accessor: (o) => (
                       <Badge
-                        variant={o.status === 'FULFILLED' ? 'success' : o.status === 'CONFIRMED' ? 'info' : 'default'}
+                        variant={
+                          o.status === 'FULFILLED'
+                            ? 'success'
+                            : o.status === 'PARTIALLY_FULFILLED'
+                              ? 'warning'
+                              : o.status === 'CONFIRMED'
+                                ? 'info'
+                                : 'default'
+                        }
                       >
-                        {o.status === 'FULFILLED' ? 'ENTREGADO' : 'PENDIENTE'}
+                        {o.status === 'FULFILLED' ? 'ENTREGADO' : o.status === 'PARTIALLY_FULFILLED' ? 'PARCIAL' : 'PENDIENTE'}
                       </Badge>
                     ),
                   },
@@ -312,20 +392,11 @@ export function DeliveriesPage() {
                             variant="ghost"
                             icon={<CheckCircleIcon className="w-4 h-4" />}
                             disabled={deliverMutation.isPending}
-                            onClick={async () => {
-                              const ok = window.confirm(`¿Marcar la OV ${o.number} como entregada? Esto descontará stock.`)
-                              if (!ok) return
+                            onClick={() => {
                               setDeliverTarget({ orderId: o.id, version: o.version, number: o.number })
-                              try {
-                                await deliverMutation.mutateAsync({ orderId: o.id, version: o.version })
-                              } catch (e: any) {
-                                const msg = (e?.message as string | undefined) ?? ''
-                                if (isMissingReservationsError(msg)) {
-                                  setDeliverLocationModalOpen(true)
-                                  return
-                                }
-                                throw e
-                              }
+                              setDeliverQuantities({})
+                              setCloseBackorder(false)
+                              setDeliverQtyModalOpen(true)
                             }}
                           >
                             Marcar entregado
@@ -347,6 +418,64 @@ export function DeliveriesPage() {
           )}
         </div>
 
+        <Modal
+          isOpen={deliverQtyModalOpen}
+          onClose={() => setDeliverQtyModalOpen(false)}
+          title={deliverTarget ? `Entregar OV ${deliverTarget.number}` : 'Entregar'}
+          maxWidth="xl"
+        >
+          <div className="space-y-4">
+            {deliverOrderQuery.isLoading && <Loading />}
+            {deliverOrderQuery.error && <ErrorState message="Error al cargar la orden" retry={deliverOrderQuery.refetch} />}
+            {deliverOrderQuery.data && (
+              <>
+                <p className="text-sm text-slate-700 dark:text-slate-300">
+                  Indica la cantidad entregada de cada producto. Esto descontará stock. Lo no entregado queda pendiente como saldo.
+                </p>
+                <Table
+                  columns={[
+                    { header: 'Producto', accessor: (l) => `${l.product.sku} — ${getProductDisplayName(l.product)}` },
+                    { header: 'Pendiente', width: '100px', accessor: (l) => pendingQuantity(l) },
+                    {
+                      header: 'A entregar',
+                      width: '130px',
+                      accessor: (l) => (
+                        <Input
+                          type="number"
+                          min={0}
+                          max={pendingQuantity(l)}
+                          value={deliverQtyFor(l)}
+                          onChange={(e) => setDeliverQuantities((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                        />
+                      ),
+                    },
+                  ]}
+                  data={openLines}
+                  keyExtractor={(l) => l.id}
+                />
+                {isPartialDelivery && (
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="checkbox" checked={closeBackorder} onChange={(e) => setCloseBackorder(e.target.checked)} />
+                    Cerrar saldo pendiente (libera la reserva y da la orden por entregada; si no tuvo entregas, la anula)
+                  </label>
+                )}
+              </>
+            )}
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="secondary" onClick={() => setDeliverQtyModalOpen(false)} disabled={deliverMutation.isPending}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={submitDelivery}
+                disabled={!deliverOrderQuery.data || deliverMutation.isPending}
+                loading={deliverMutation.isPending}
+              >
+                {isPartialDelivery ? 'Registrar entrega parcial' : 'Confirmar entrega'}
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
         <Modal
           isOpen={deliverLocationModalOpen}
           onClose={() => {
@@ -428,6 +557,8 @@ export function DeliveriesPage() {
                     orderId: deliverTarget.orderId,
                     version: deliverTarget.version,
                     fromLocationId: deliverLocationId,
+                    ...(deliverTarget.lines ? { lines: deliverTarget.lines } : {}),
+                    ...(deliverTarget.closeBackorder ? { closeBackorder: true } : {}),
                   })
                   setDeliverLocationModalOpen(false)
                   setDeliverWarehouseId('')
@@ -0,0 +1,374 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, Select } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { EyeIcon, PencilSquareIcon } from '@heroicons/react/24/outline'
+
+type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SUPERSEDED'
+
+type Approval = {
+  id: string
+  status: ApprovalStatus
+  revision: number
+  violations: Array<{ kind: 'LINE' | 'GLOBAL'; productId?: string; discountPct: number; limitPct: number }>
+  comment: string | null
+  requestedBy: string | null
+  decidedBy: string | null
+  decidedAt: string | null
+  createdAt: string
+  quote: { id: string; number: string; revision: number; status: string; customerName: string }
+}
+
+type RoleLimit = {
+  role: { id: string; code: string; name: string }
+  limit: { maxLineDiscountPct: number; maxGlobalDiscountPct: number; version: number } | null
+}
+
+type MarginSettings = { minMarginPct: number; version: number; updatedAt: string | null }
+
+const STATUS_BADGES: Record<ApprovalStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' }> = {
+  PENDING: { label: 'PENDIENTE', variant: 'warning' },
+  APPROVED: { label: 'APROBADA', variant: 'success' },
+  REJECTED: { label: 'RECHAZADA', variant: 'danger' },
+  SUPERSEDED: { label: 'REEMPLAZADA', variant: 'default' },
+}
+
+async function fetchApprovals(token: string, status: string): Promise<{ items: Approval[] }> {
+  const params = new URLSearchParams({ take: '100' })
+  if (status) params.set('status', status)
+  return apiFetch(`/api/v1/sales/quote-approvals?${params}`, { token })
+}
+
+async function decideApproval(token: string, id: string, action: 'approve' | 'reject', comment: string): Promise<{ status: string }> {
+  return apiFetch(`/api/v1/sales/quote-approvals/${encodeURIComponent(id)}/${action}`, {
+    token,
+    method: 'POST',
+    body: JSON.stringify({ comment: comment.trim() || undefined }),
+  })
+}
+
+async function fetchLimits(token: string): Promise<{ items: RoleLimit[] }> {
+  return apiFetch(`/api/v1/sales/discount-limits`, { token })
+}
+
+async function saveLimit(token: string, roleId: string, input: { maxLineDiscountPct: number; maxGlobalDiscountPct: number }) {
+  return apiFetch(`/api/v1/sales/discount-limits/${encodeURIComponent(roleId)}`, { method: 'PUT', token, body: JSON.stringify(input) })
+}
+
+async function deleteLimit(token: string, roleId: string): Promise<{ ok: boolean }> {
+  return apiFetch(`/api/v1/sales/discount-limits/${encodeURIComponent(roleId)}`, { method: 'DELETE', token })
+}
+
+async function fetchMarginSettings(token: string): Promise<MarginSettings> {
+  return apiFetch(`/api/v1/sales/margin-settings`, { token })
+}
+
+async function saveMarginSettings(token: string, input: { version: number; minMarginPct: number }): Promise<MarginSettings> {
+  return apiFetch(`/api/v1/sales/margin-settings`, { method: 'PUT', token, body: JSON.stringify(input) })
+}
+
+export function DiscountApprovalsPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+
+  const canApprove = perms.hasPermission('sales:discount:approve')
+  const canManageLimits = perms.hasPermission('admin:users:manage')
+
+  const [status, setStatus] = useState<string>('PENDING')
+  const [decision, setDecision] = useState<{ approval: Approval; action: 'approve' | 'reject' } | null>(null)
+  const [comment, setComment] = useState('')
+  const [editing, setEditing] = useState<RoleLimit | null>(null)
+  const [linePct, setLinePct] = useState('0')
+  const [globalPct, setGlobalPct] = useState('0')
+  const [minMarginPct, setMinMarginPct] = useState<string | null>(null)
+
+  const approvalsQuery = useQuery({
+    queryKey: ['quoteApprovals', status],
+    queryFn: () => fetchApprovals(auth.accessToken!, status),
+    enabled: !!auth.accessToken,
+  })
+
+  const limitsQuery = useQuery({
+    queryKey: ['discountLimits'],
+    queryFn: () => fetchLimits(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const marginQuery = useQuery({
+    queryKey: ['marginSettings'],
+    queryFn: () => fetchMarginSettings(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const saveMarginMutation = useMutation({
+    mutationFn: () =>
+      saveMarginSettings(auth.accessToken!, { version: marginQuery.data!.version, minMarginPct: Number(minMarginPct ?? '0') }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['marginSettings'] })
+      setMinMarginPct(null)
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo guardar el margen mínimo'),
+  })
+
+  const closeDecision = () => {
+    setDecision(null)
+    setComment('')
+  }
+
+  const decisionMutation = useMutation({
+    mutationFn: (d: { approval: Approval; action: 'approve' | 'reject' }) => decideApproval(auth.accessToken!, d.approval.id, d.action, comment),
+    onSuccess: async () => {
+      closeDecision()
+      await queryClient.invalidateQueries({ queryKey: ['quoteApprovals'] })
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      await queryClient.invalidateQueries({ queryKey: ['quote'] })
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo registrar la decisión'),
+  })
+
+  const openLimit = (r: RoleLimit) => {
+    setEditing(r)
+    setLinePct(String(r.limit?.maxLineDiscountPct ?? 0))
+    setGlobalPct(String(r.limit?.maxGlobalDiscountPct ?? 0))
+  }
+
+  const saveLimitMutation = useMutation({
+    mutationFn: () =>
+      saveLimit(auth.accessToken!, editing!.role.id, {
+        maxLineDiscountPct: Number(linePct || '0'),
+        maxGlobalDiscountPct: Number(globalPct || '0'),
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['discountLimits'] })
+      setEditing(null)
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo guardar el límite'),
+  })
+
+  const deleteLimitMutation = useMutation({
+    mutationFn: (roleId: string) => deleteLimit(auth.accessToken!, roleId),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['discountLimits'] })
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo quitar el límite'),
+  })
+
+  const approvals = approvalsQuery.data?.items ?? []
+  const limits = limitsQuery.data?.items ?? []
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer title="Aprobación de descuentos">
+        <div className="mb-4 flex items-end gap-3">
+          <Select
+            label="Estado"
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            options={[
+              { value: '', label: 'Todas' },
+              ...Object.entries(STATUS_BADGES).map(([value, b]) => ({ value, label: b.label })),
+            ]}
+          />
+        </div>
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {approvalsQuery.isLoading && <Loading />}
+          {approvalsQuery.error && <ErrorState message="Error al cargar solicitudes" retry={approvalsQuery.refetch} />}
+          {approvalsQuery.data && approvals.length === 0 && <EmptyState message="No hay solicitudes de aprobación" />}
+
+          {approvalsQuery.data && approvals.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Cotización', width: '150px', accessor: (a) => `${a.quote.number} rev ${a.revision}` },
+                { header: 'Cliente', width: '200px', accessor: (a) => a.quote.customerName },
+                { header: 'Solicitado por', width: '160px', accessor: (a) => a.requestedBy ?? '-' },
+                {
+                  header: 'Fuera de límite',
+                  accessor: (a) =>
+                    a.violations
+                      .map((v) => `${v.kind === 'GLOBAL' ? 'Global' : 'Línea'} ${v.discountPct}% (máx. ${v.limitPct}%)`)
+                      .join(' · '),
+                },
+                { header: 'Fecha', width: '120px', accessor: (a) => new Date(a.createdAt).toLocaleDateString() },
+                {
+                  header: 'Estado',
+                  width: '130px',
+                  accessor: (a) => <Badge variant={STATUS_BADGES[a.status].variant}>{STATUS_BADGES[a.status].label}</Badge>,
+                },
+                {
+                  header: 'Acciones',
+                  className: 'text-center',
+                  width: '260px',
+                  accessor: (a) => (
+                    <div className="flex items-center justify-center gap-1">
+                      <Button variant="ghost" size="sm" icon={<EyeIcon className="w-4 h-4" />} onClick={() => navigate(`/sales/quotes/${a.quote.id}`)}>
+                        Ver
+                      </Button>
+                      {a.status === 'PENDING' && canApprove && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => setDecision({ approval: a, action: 'approve' })}>
+                            Aprobar
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDecision({ approval: a, action: 'reject' })}>
+                            Rechazar
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={approvals}
+              keyExtractor={(a) => a.id}
+            />
+          )}
+        </div>
+
+        <h3 className="mb-2 mt-6 text-base font-semibold text-slate-900 dark:text-slate-100">Límites de descuento por rol</h3>
+        <p className="mb-3 text-sm text-slate-500 dark:text-slate-400">
+          Un usuario aplica el límite más alto de sus roles. Los roles sin límite no requieren aprobación.
+        </p>
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {limitsQuery.isLoading && <Loading />}
+          {limitsQuery.error && <ErrorState message="Error al cargar límites" retry={limitsQuery.refetch} />}
+          {limitsQuery.data && (
+            <Table
+              columns={[
+                { header: 'Rol', accessor: (r) => r.role.name },
+                { header: 'Desc. máx. por línea', width: '180px', accessor: (r) => (r.limit ? `${r.limit.maxLineDiscountPct}%` : 'Sin límite') },
+                { header: 'Desc. global máx.', width: '180px', accessor: (r) => (r.limit ? `${r.limit.maxGlobalDiscountPct}%` : 'Sin límite') },
+                {
+                  header: 'Acciones',
+                  width: '220px',
+                  accessor: (r) =>
+                    canManageLimits ? (
+                      <div className="flex items-center gap-1">
+                        <Button size="sm" variant="ghost" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => openLimit(r)}>
+                          Editar
+                        </Button>
+                        {r.limit && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={deleteLimitMutation.isPending}
+                            onClick={() => deleteLimitMutation.mutate(r.role.id)}
+                          >
+                            Quitar límite
+                          </Button>
+                        )}
+                      </div>
+                    ) : (
+                      '-'
+                    ),
+                },
+              ]}
+              data={limits}
+              keyExtractor={(r) => r.role.id}
+            />
+          )}
+        </div>
+
+        <h3 className="mb-2 mt-6 text-base font-semibold text-slate-900 dark:text-slate-100">Margen mínimo</h3>
+        <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+          {marginQuery.isLoading && <Loading />}
+          {marginQuery.error && <ErrorState message="Error al cargar el margen mínimo" retry={marginQuery.refetch} />}
+          {marginQuery.data && (
+            <div className="flex flex-wrap items-end gap-3">
+              <Input
+                label="Margen mínimo sobre precio neto (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={minMarginPct ?? String(marginQuery.data.minMarginPct)}
+                disabled={!canManageLimits}
+                onChange={(e) => setMinMarginPct(e.target.value)}
+              />
+              {canManageLimits && (
+                <Button loading={saveMarginMutation.isPending} disabled={minMarginPct === null} onClick={() => saveMarginMutation.mutate()}>
+                  Guardar
+                </Button>
+              )}
+              <p className="w-full text-sm text-slate-500 dark:text-slate-400">
+                Las líneas de cotización por debajo de este margen se resaltan. Las que quedan bajo el costo del producto solo pueden
+                guardarse o procesarse con el permiso «Vender bajo costo».
+              </p>
+            </div>
+          )}
+        </div>
+
+        <Modal
+          isOpen={!!decision}
+          onClose={closeDecision}
+          title={decision ? `${decision.action === 'approve' ? 'Aprobar' : 'Rechazar'} descuentos de ${decision.approval.quote.number}` : ''}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <Input
+              label={decision?.action === 'approve' ? 'Comentario (opcional)' : 'Comentario (requerido)'}
+              value={comment}
+              maxLength={500}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={closeDecision}>
+                Cancelar
+              </Button>
+              <Button
+                variant={decision?.action === 'approve' ? 'success' : 'danger'}
+                loading={decisionMutation.isPending}
+                disabled={decision?.action === 'reject' && !comment.trim()}
+                onClick={() => decision && decisionMutation.mutate(decision)}
+              >
+                Confirmar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal isOpen={!!editing} onClose={() => setEditing(null)} title={editing ? `Límite de descuento: ${editing.role.name}` : ''} maxWidth="md">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input
+                label="Desc. máx. por línea (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={linePct}
+                onChange={(e) => setLinePct(e.target.value)}
+              />
+              <Input
+                label="Desc. global máx. (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={globalPct}
+                onChange={(e) => setGlobalPct(e.target.value)}
+              />
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Las cotizaciones guardadas con descuentos mayores quedarán pendientes de aprobación.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Cancelar
+              </Button>
+              <Button loading={saveLimitMutation.isPending} onClick={() => saveLimitMutation.mutate()}>
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,155 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { MainLayout, PageContainer, Button, IconButton, Table, Loading, ErrorState, EmptyState, Badge, Input } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation, useExchangeRates } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import type { ExchangeRateItem } from '../../hooks/useExchangeRates'
+import { TrashIcon } from '@heroicons/react/24/outline'
+
+async function createRate(token: string, input: { currency: string; rate: number; effectiveDate: string }): Promise<ExchangeRateItem> {
+  return apiFetch(`/api/v1/sales/exchange-rates`, { method: 'POST', token, body: JSON.stringify(input) })
+}
+
+async function deleteRate(token: string, id: string): Promise<{ ok: boolean }> {
+  return apiFetch(`/api/v1/sales/exchange-rates/${encodeURIComponent(id)}`, { method: 'DELETE', token })
+}
+
+function todayInput(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+export function ExchangeRatesPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const canWrite = perms.hasPermission('catalog:write')
+
+  const [currency, setCurrency] = useState('USD')
+  const [rate, setRate] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState(todayInput())
+
+  const { query, baseCurrency } = useExchangeRates()
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createRate(auth.accessToken!, {
+        currency: currency.trim().toUpperCase(),
+        rate: Number(rate),
+        effectiveDate: new Date(`${effectiveDate}T00:00:00`).toISOString(),
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['exchangeRates'] })
+      setRate('')
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar el tipo de cambio')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (r: ExchangeRateItem) => deleteRate(auth.accessToken!, r.id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['exchangeRates'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo eliminar el tipo de cambio')
+    },
+  })
+
+  const items = query.data?.items ?? []
+  const currentIds = new Set(
+    (query.data?.current ?? []).map((c) => items.find((i) => i.currency === c.currency && i.effectiveDate === c.effectiveDate)?.id),
+  )
+  const base = baseCurrency ?? 'BOB'
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer title="Tipos de cambio">
+        {canWrite && (
+          <div className="mb-4 rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+              <Input label="Moneda" value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value.toUpperCase())} placeholder="USD" />
+              <Input
+                label={`Tipo de cambio (${base} por unidad)`}
+                type="number"
+                min={0}
+                step="0.0001"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+              <Input label="Vigente desde" type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+              <div className="flex items-end">
+                <Button
+                  loading={createMutation.isPending}
+                  disabled={!/^[A-Z]{3}$/.test(currency.trim()) || !effectiveDate || !(Number(rate) > 0)}
+                  onClick={() => createMutation.mutate()}
+                >
+                  Agregar
+                </Button>
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              Cada cotización fija el tipo de cambio vigente al guardarla; cambiarlo después no modifica documentos existentes. Los
+              reportes y la cartera se consolidan en {base}.
+            </p>
+          </div>
+        )}
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {query.isLoading && <Loading />}
+          {query.error && <ErrorState message="Error al cargar tipos de cambio" retry={query.refetch} />}
+          {query.data && items.length === 0 && <EmptyState message="No hay tipos de cambio registrados" />}
+
+          {query.data && items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Moneda', width: '100px', accessor: (r) => r.currency },
+                { header: `Tipo de cambio (${base})`, width: '160px', className: 'text-right', accessor: (r) => r.rate.toFixed(4) },
+                { header: 'Vigente desde', width: '140px', accessor: (r) => new Date(r.effectiveDate).toLocaleDateString() },
+                {
+                  header: 'Estado',
+                  width: '120px',
+                  accessor: (r) =>
+                    currentIds.has(r.id) ? (
+                      <Badge variant="success">Vigente</Badge>
+                    ) : new Date(r.effectiveDate) > new Date() ? (
+                      <Badge variant="info">Programado</Badge>
+                    ) : (
+                      <Badge variant="default">Histórico</Badge>
+                    ),
+                },
+                ...(canWrite
+                  ? [
+                      {
+                        header: '',
+                        width: '60px',
+                        accessor: (r: ExchangeRateItem) => (
+                          <IconButton
+                            label="Eliminar"
+                            icon={<TrashIcon className="w-4 h-4" />}
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (window.confirm(`¿Eliminar el tipo de cambio ${r.currency} del ${new Date(r.effectiveDate).toLocaleDateString()}?`)) {
+                                deleteMutation.mutate(r)
+                              }
+                            }}
+                          />
+                        ),
+                      },
+                    ]
+                  : []),
+              ]}
+              data={items}
+              keyExtractor={(r) => r.id}
+            />
+          )}
+        </div>
+      </PageContainer>
+    </MainLayout>
+  )
+}
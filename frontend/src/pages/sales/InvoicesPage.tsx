@@ -0,0 +1,579 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, Select, PaginationCursor } from '../../components'
+import { api, apiFetch } from '../../lib/api'
+import { exportInvoiceToPDF } from '../../lib/invoicePdf'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { ArrowPathIcon, BuildingStorefrontIcon, Cog6ToothIcon, CodeBracketIcon, DocumentTextIcon, EyeIcon, ReceiptPercentIcon } from '@heroicons/react/24/outline'
+
+type SubmissionStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED'
+
+type Invoice = {
+  id: string
+  number: number
+  cuf: string
+  issuedAt: string
+  issuerNit: string
+  issuerName: string
+  customerId: string
+  customerDocNumber: string
+  customerName: string
+  currency: string
+  total: number
+  submissionStatus: SubmissionStatus
+  submissionCode: string | null
+  submissionMessage: string | null
+  submittedAt: string | null
+  salesOrder: { id: string; number: string }
+  branch: { id: string; branchCode: number; pointOfSale: number; warehouse: { id: string; code: string; name: string; city: string | null } }
+  lines: Array<{ id: string; productId: string; productCode: string; description: string; quantity: number; unitPrice: number; subtotal: number }>
+  verificationUrl: string
+}
+
+type InvoicingSettings = {
+  nit: string
+  businessName: string
+  municipality: string
+  address: string | null
+  phone: string | null
+  economicActivity: string
+  productCodeSin: string
+  legend: string
+  modality: number
+  environment: number
+  version: number
+}
+
+type BranchRow = {
+  warehouse: { id: string; code: string; name: string; city: string | null }
+  branch: { id: string; branchCode: number; pointOfSale: number; lastNumber: number; cufdExpiresAt: string | null } | null
+}
+
+type ListResponse = { items: Invoice[]; nextCursor: string | null }
+
+type TaxSettings = { ivaPct: number; itPct: number; pricesIncludeTax: boolean; version: number }
+
+const submissionStatusLabels: Record<SubmissionStatus, string> = {
+  PENDING: 'Pendiente',
+  ACCEPTED: 'Aceptada',
+  REJECTED: 'Rechazada',
+}
+
+const submissionStatusVariants: Record<SubmissionStatus, 'warning' | 'success' | 'danger'> = {
+  PENDING: 'warning',
+  ACCEPTED: 'success',
+  REJECTED: 'danger',
+}
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+async function fetchInvoices(token: string, take: number, cursor?: string): Promise<ListResponse> {
+  const params = new URLSearchParams({ take: String(take) })
+  if (cursor) params.append('cursor', cursor)
+  return apiFetch(`/api/v1/sales/invoices?${params}`, { token })
+}
+
+async function fetchInvoicingSettings(token: string): Promise<{ settings: InvoicingSettings | null }> {
+  return apiFetch(`/api/v1/sales/invoicing/settings`, { token })
+}
+
+async function saveInvoicingSettings(token: string, input: Omit<InvoicingSettings, 'address' | 'phone'> & { address?: string; phone?: string }) {
+  return apiFetch(`/api/v1/sales/invoicing/settings`, { method: 'PUT', token, body: JSON.stringify(input) })
+}
+
+async function fetchTaxSettings(token: string): Promise<TaxSettings> {
+  return apiFetch(`/api/v1/sales/tax-settings`, { token })
+}
+
+async function saveTaxSettings(token: string, input: TaxSettings): Promise<TaxSettings> {
+  return apiFetch(`/api/v1/sales/tax-settings`, { method: 'PUT', token, body: JSON.stringify(input) })
+}
+
+async function fetchBranches(token: string): Promise<{ items: BranchRow[] }> {
+  return apiFetch(`/api/v1/sales/invoicing/branches`, { token })
+}
+
+async function saveBranch(token: string, warehouseId: string, input: { branchCode: number; pointOfSale: number }) {
+  return apiFetch(`/api/v1/sales/invoicing/branches/${encodeURIComponent(warehouseId)}`, {
+    method: 'PUT',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function resubmitInvoice(token: string, id: string): Promise<Invoice> {
+  return apiFetch(`/api/v1/sales/invoices/${encodeURIComponent(id)}/submit`, { method: 'POST', token })
+}
+
+/** Printable PDF (with SIAT QR) of an invoice, using the issuer data currently configured. */
+async function downloadInvoicePdf(invoice: Invoice, settings: InvoicingSettings | null): Promise<void> {
+  await exportInvoiceToPDF({
+    number: invoice.number,
+    cuf: invoice.cuf,
+    issuedAt: invoice.issuedAt,
+    issuerNit: invoice.issuerNit,
+    issuerName: invoice.issuerName,
+    branchCode: invoice.branch.branchCode,
+    pointOfSale: invoice.branch.pointOfSale,
+    municipality: settings?.municipality,
+    address: settings?.address,
+    phone: settings?.phone,
+    customerName: invoice.customerName,
+    customerDocNumber: invoice.customerDocNumber,
+    orderNumber: invoice.salesOrder.number,
+    lines: invoice.lines,
+    total: invoice.total,
+    currency: invoice.currency,
+    legend: settings?.legend,
+    verificationUrl: invoice.verificationUrl,
+  })
+}
+
+/** Signed XML as stored (and sent to SIAT). */
+async function downloadInvoiceXml(invoice: Invoice): Promise<void> {
+  const resp = await api.get<string>(`/api/v1/sales/invoices/${encodeURIComponent(invoice.id)}/xml`, { responseType: 'text' })
+  const url = URL.createObjectURL(new Blob([resp.data], { type: 'application/xml' }))
+  try {
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `factura-${invoice.branch.branchCode}-${invoice.number}.xml`
+    a.click()
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export function InvoicesPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const canWrite = perms.hasPermission('sales:invoice:write')
+
+  const [cursor, setCursor] = useState<string | undefined>()
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [branchesOpen, setBranchesOpen] = useState(false)
+  const [form, setForm] = useState({
+    nit: '',
+    businessName: '',
+    municipality: '',
+    address: '',
+    phone: '',
+    economicActivity: '',
+    productCodeSin: '99100',
+    legend: '',
+    modality: '1',
+    environment: '2',
+  })
+  const [taxOpen, setTaxOpen] = useState(false)
+  const [taxForm, setTaxForm] = useState({ ivaPct: '13', itPct: '3', pricesIncludeTax: 'true' })
+  const [branchCodes, setBranchCodes] = useState<Record<string, { branchCode: string; pointOfSale: string }>>({})
+
+  const invoicesQuery = useQuery({
+    queryKey: ['invoices', cursor],
+    queryFn: () => fetchInvoices(auth.accessToken!, 50, cursor),
+    enabled: !!auth.accessToken,
+  })
+
+  const settingsQuery = useQuery({
+    queryKey: ['invoicingSettings'],
+    queryFn: () => fetchInvoicingSettings(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const branchesQuery = useQuery({
+    queryKey: ['invoicingBranches'],
+    queryFn: () => fetchBranches(auth.accessToken!),
+    enabled: !!auth.accessToken && branchesOpen,
+  })
+
+  const taxQuery = useQuery({
+    queryKey: ['taxSettings'],
+    queryFn: () => fetchTaxSettings(auth.accessToken!),
+    enabled: !!auth.accessToken && canWrite,
+  })
+
+  const settings = settingsQuery.data?.settings ?? null
+
+  const openTaxSettings = () => {
+    setTaxForm({
+      ivaPct: String(taxQuery.data?.ivaPct ?? 13),
+      itPct: String(taxQuery.data?.itPct ?? 3),
+      pricesIncludeTax: String(taxQuery.data?.pricesIncludeTax ?? true),
+    })
+    setTaxOpen(true)
+  }
+
+  const taxMutation = useMutation({
+    mutationFn: () =>
+      saveTaxSettings(auth.accessToken!, {
+        version: taxQuery.data?.version ?? 1,
+        ivaPct: Number(taxForm.ivaPct),
+        itPct: Number(taxForm.itPct),
+        pricesIncludeTax: taxForm.pricesIncludeTax === 'true',
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['taxSettings'] })
+      setTaxOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar la configuración de impuestos')
+    },
+  })
+
+  const openSettings = () => {
+    setForm({
+      nit: settings?.nit ?? '',
+      businessName: settings?.businessName ?? '',
+      municipality: settings?.municipality ?? '',
+      address: settings?.address ?? '',
+      phone: settings?.phone ?? '',
+      economicActivity: settings?.economicActivity ?? '',
+      productCodeSin: settings?.productCodeSin ?? '99100',
+      legend: settings?.legend ?? '',
+      modality: String(settings?.modality ?? 1),
+      environment: String(settings?.environment ?? 2),
+    })
+    setSettingsOpen(true)
+  }
+
+  const settingsMutation = useMutation({
+    mutationFn: () =>
+      saveInvoicingSettings(auth.accessToken!, {
+        version: settings?.version ?? 1,
+        nit: form.nit.trim(),
+        businessName: form.businessName.trim(),
+        municipality: form.municipality.trim(),
+        address: form.address.trim(),
+        phone: form.phone.trim(),
+        economicActivity: form.economicActivity.trim(),
+        productCodeSin: form.productCodeSin.trim(),
+        legend: form.legend.trim(),
+        modality: Number(form.modality),
+        environment: Number(form.environment),
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['invoicingSettings'] })
+      setSettingsOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudieron guardar los datos fiscales')
+    },
+  })
+
+  const branchMutation = useMutation({
+    mutationFn: (warehouseId: string) => {
+      const row = branchCodes[warehouseId]
+      return saveBranch(auth.accessToken!, warehouseId, {
+        branchCode: parseInt(row?.branchCode || '0'),
+        pointOfSale: parseInt(row?.pointOfSale || '0'),
+      })
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['invoicingBranches'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar la sucursal')
+    },
+  })
+
+  const resubmitMutation = useMutation({
+    mutationFn: (id: string) => resubmitInvoice(auth.accessToken!, id),
+    onSuccess: async (invoice) => {
+      await queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      if (invoice.submissionStatus !== 'ACCEPTED') {
+        window.alert(invoice.submissionMessage || 'La factura no fue aceptada')
+      }
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo reenviar la factura')
+    },
+  })
+
+  const branchValue = (row: BranchRow) =>
+    branchCodes[row.warehouse.id] ?? {
+      branchCode: row.branch ? String(row.branch.branchCode) : '',
+      pointOfSale: row.branch ? String(row.branch.pointOfSale) : '0',
+    }
+
+  const setBranchValue = (row: BranchRow, patch: Partial<{ branchCode: string; pointOfSale: string }>) =>
+    setBranchCodes((prev) => ({ ...prev, [row.warehouse.id]: { ...branchValue(row), ...patch } }))
+
+  const items = invoicesQuery.data?.items ?? []
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Facturas"
+        actions={
+          canWrite ? (
+            <div className="flex gap-2">
+              <Button variant="outline" icon={<BuildingStorefrontIcon />} onClick={() => setBranchesOpen(true)}>
+                Sucursales
+              </Button>
+              <Button variant="outline" icon={<ReceiptPercentIcon />} onClick={openTaxSettings}>
+                Impuestos
+              </Button>
+              <Button variant="outline" icon={<Cog6ToothIcon />} onClick={openSettings}>
+                Datos fiscales
+              </Button>
+            </div>
+          ) : undefined
+        }
+      >
+        {settingsQuery.data && !settings && (
+          <div className="mb-4 rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-200">
+            Configura los datos fiscales (NIT, razón social, actividad económica) y las sucursales antes de emitir facturas.
+          </div>
+        )}
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {invoicesQuery.isLoading && <Loading />}
+          {invoicesQuery.error && <ErrorState message="Error al cargar facturas" retry={invoicesQuery.refetch} />}
+          {invoicesQuery.data && items.length === 0 && <EmptyState message="No hay facturas emitidas" />}
+
+          {invoicesQuery.data && items.length > 0 && (
+            <>
+              <Table
+                columns={[
+                  { header: 'N°', width: '70px', accessor: (i) => i.number },
+                  { header: 'Sucursal', width: '130px', accessor: (i) => `${i.branch.branchCode} · ${i.branch.warehouse.code}` },
+                  { header: 'Fecha', width: '110px', accessor: (i) => new Date(i.issuedAt).toLocaleDateString() },
+                  { header: 'OV', width: '120px', accessor: (i) => i.salesOrder.number },
+                  { header: 'Cliente', accessor: (i) => `${i.customerName} (${i.customerDocNumber})` },
+                  { header: 'Total', width: '110px', className: 'text-right', accessor: (i) => `${money(i.total)} ${i.currency}` },
+                  {
+                    header: 'SIAT',
+                    width: '110px',
+                    accessor: (i) => (
+                      <span title={i.submissionMessage ?? i.submissionCode ?? ''}>
+                        <Badge variant={submissionStatusVariants[i.submissionStatus]}>{submissionStatusLabels[i.submissionStatus]}</Badge>
+                      </span>
+                    ),
+                  },
+                  {
+                    header: 'Acciones',
+                    className: 'text-center',
+                    width: '300px',
+                    accessor: (i) => (
+                      <div className="flex items-center justify-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<DocumentTextIcon className="w-4 h-4" />}
+                          onClick={() => downloadInvoicePdf(i, settings).catch((e: Error) => window.alert(e.message))}
+                        >
+                          PDF
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<CodeBracketIcon className="w-4 h-4" />}
+                          onClick={() => downloadInvoiceXml(i).catch((e: Error) => window.alert(e.message))}
+                        >
+                          XML
+                        </Button>
+                        {canWrite && i.submissionStatus !== 'ACCEPTED' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<ArrowPathIcon className="w-4 h-4" />}
+                            disabled={resubmitMutation.isPending}
+                            onClick={() => resubmitMutation.mutate(i.id)}
+                          >
+                            Reenviar
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" icon={<EyeIcon className="w-4 h-4" />} onClick={() => navigate(`/sales/orders/${i.salesOrder.id}`)}>
+                          OV
+                        </Button>
+                      </div>
+                    ),
+                  },
+                ]}
+                data={items}
+                keyExtractor={(i) => i.id}
+              />
+              <PaginationCursor
+                hasMore={!!invoicesQuery.data.nextCursor}
+                onLoadMore={() => setCursor(invoicesQuery.data!.nextCursor!)}
+                loading={invoicesQuery.isFetching}
+              />
+            </>
+          )}
+        </div>
+
+        <Modal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} title="Datos fiscales del emisor" maxWidth="lg">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input label="NIT" value={form.nit} onChange={(e) => setForm({ ...form, nit: e.target.value })} />
+              <Input label="Razón social" value={form.businessName} onChange={(e) => setForm({ ...form, businessName: e.target.value })} />
+              <Input label="Municipio" value={form.municipality} onChange={(e) => setForm({ ...form, municipality: e.target.value })} />
+              <Input label="Teléfono" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              <Input label="Dirección" value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+              <Input
+                label="Actividad económica (código SIAT)"
+                value={form.economicActivity}
+                onChange={(e) => setForm({ ...form, economicActivity: e.target.value })}
+              />
+              <Input
+                label="Código producto SIN"
+                value={form.productCodeSin}
+                onChange={(e) => setForm({ ...form, productCodeSin: e.target.value })}
+              />
+              <Select
+                label="Modalidad"
+                value={form.modality}
+                onChange={(e) => setForm({ ...form, modality: e.target.value })}
+                options={[
+                  { value: '1', label: 'Electrónica en línea' },
+                  { value: '2', label: 'Computarizada en línea' },
+                ]}
+              />
+              <Select
+                label="Ambiente"
+                value={form.environment}
+                onChange={(e) => setForm({ ...form, environment: e.target.value })}
+                options={[
+                  { value: '2', label: 'Pruebas' },
+                  { value: '1', label: 'Producción' },
+                ]}
+              />
+            </div>
+            <Input label="Leyenda (Ley 453)" value={form.legend} onChange={(e) => setForm({ ...form, legend: e.target.value })} />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setSettingsOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={settingsMutation.isPending}
+                disabled={!form.nit.trim() || !form.businessName.trim() || !form.municipality.trim() || !form.economicActivity.trim() || !form.legend.trim()}
+                onClick={() => settingsMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal isOpen={taxOpen} onClose={() => setTaxOpen(false)} title="Impuestos" maxWidth="md">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="IVA (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={taxForm.ivaPct}
+                onChange={(e) => setTaxForm({ ...taxForm, ivaPct: e.target.value })}
+              />
+              <Input
+                label="IT (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={taxForm.itPct}
+                onChange={(e) => setTaxForm({ ...taxForm, itPct: e.target.value })}
+              />
+            </div>
+            <Select
+              label="Precios de venta"
+              value={taxForm.pricesIncludeTax}
+              onChange={(e) => setTaxForm({ ...taxForm, pricesIncludeTax: e.target.value })}
+              options={[
+                { value: 'true', label: 'Incluyen IVA' },
+                { value: 'false', label: 'Sin IVA (se agrega al total)' },
+              ]}
+            />
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              El IVA se aplica a los productos gravados de las cotizaciones; el IT solo descuenta del margen. Los cambios rigen para
+              las cotizaciones que se guarden desde ahora.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setTaxOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={taxMutation.isPending}
+                disabled={taxForm.ivaPct === '' || taxForm.itPct === '' || !taxQuery.data}
+                onClick={() => taxMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal isOpen={branchesOpen} onClose={() => setBranchesOpen(false)} title="Sucursales de facturación" maxWidth="xl">
+          <div className="space-y-4">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Cada almacén que factura es una sucursal SIAT (0 = casa matriz). La numeración de facturas es correlativa y sin saltos por
+              sucursal.
+            </p>
+            {branchesQuery.isLoading && <Loading />}
+            {branchesQuery.error && <ErrorState message="Error al cargar sucursales" retry={branchesQuery.refetch} />}
+            {branchesQuery.data && (
+              <Table
+                columns={[
+                  { header: 'Almacén', accessor: (r) => `${r.warehouse.code} - ${r.warehouse.name}${r.warehouse.city ? ` (${r.warehouse.city})` : ''}` },
+                  {
+                    header: 'Cód. sucursal',
+                    width: '120px',
+                    accessor: (r) => (
+                      <Input
+                        type="number"
+                        min={0}
+                        value={branchValue(r).branchCode}
+                        disabled={!canWrite}
+                        onChange={(e) => setBranchValue(r, { branchCode: e.target.value })}
+                      />
+                    ),
+                  },
+                  {
+                    header: 'Punto de venta',
+                    width: '120px',
+                    accessor: (r) => (
+                      <Input
+                        type="number"
+                        min={0}
+                        value={branchValue(r).pointOfSale}
+                        disabled={!canWrite}
+                        onChange={(e) => setBranchValue(r, { pointOfSale: e.target.value })}
+                      />
+                    ),
+                  },
+                  { header: 'Última factura', width: '110px', className: 'text-right', accessor: (r) => (r.branch ? r.branch.lastNumber : '-') },
+                  {
+                    header: '',
+                    width: '110px',
+                    accessor: (r) => (
+                      <Button
+                        size="sm"
+                        disabled={!canWrite || branchValue(r).branchCode === '' || branchMutation.isPending}
+                        onClick={() => branchMutation.mutate(r.warehouse.id)}
+                      >
+                        {r.branch ? 'Guardar' : 'Habilitar'}
+                      </Button>
+                    ),
+                  },
+                ]}
+                data={branchesQuery.data.items}
+                keyExtractor={(r) => r.warehouse.id}
+              />
+            )}
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -1,10 +1,12 @@
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { apiFetch } from '../../lib/api'
-import { getProductDisplayName } from '../../lib/productName'
+import { getProductDisplayName, getProductLabel } from '../../lib/productName'
 import { openWhatsAppShare } from '../../lib/whatsapp'
-import { MainLayout, PageContainer, Button, Loading, ErrorState, Table, Badge } from '../../components'
+import { MainLayout, PageContainer, Button, Loading, ErrorState, Table, Badge, Modal, Select, Input } from '../../components'
 import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
 import { useAuth } from '../../providers/AuthProvider'
 import { useTenant } from '../../providers/TenantProvider'
 
@@ -13,8 +15,14 @@ type OrderLine = {
   productId: string
   batchId: string | null
   quantity: string | number
+  deliveredQuantity: string | number
+  returnedQuantity: string | number
   unitPrice: string | number
+  taxPct: string | number
+  taxAmount: string | number
   product: { sku: string; name: string; genericName?: string | null }
+  // Local portion (no expected arrival) plus cities still transferring units to the order's city.
+  sources: Array<{ city: string; quantity: number; expectedArrivalAt: string | null }>
 }
 
 type SalesOrderDetail = {
@@ -22,9 +30,12 @@ type SalesOrderDetail = {
   number: string
   customerId: string
   quoteId: string | null
-  status: 'DRAFT' | 'CONFIRMED' | 'FULFILLED' | 'CANCELLED'
+  status: 'DRAFT' | 'CONFIRMED' | 'PARTIALLY_FULFILLED' | 'FULFILLED' | 'CANCELLED'
   note: string | null
   version: number
+  // Line prices and credit notes are in this currency; exchangeRate converts them to the tenant currency.
+  currency: string
+  exchangeRate: number
   createdAt: string
   updatedAt: string
   processedBy: string | null
@@ -33,14 +44,53 @@ type SalesOrderDetail = {
   deliveryZone: string | null
   deliveryAddress: string | null
   deliveryMapsUrl: string | null
+  cancelledAt: string | null
+  cancelReason: CancelReason | null
+  cancelNote: string | null
   customer: { id: string; name: string; nit: string | null }
   quote: { id: string; number: string } | null
   lines: OrderLine[]
 }
 
+type ReturnReason = { id: string; code: string; name: string }
+
+type SalesReturnListItem = {
+  id: string
+  number: string
+  creditAmount: number
+  note: string | null
+  createdAt: string
+  reason: ReturnReason
+  location: { id: string; code: string; warehouse: { id: string; code: string; name: string } }
+}
+
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+
+// lineId edits an existing line (quantity 0 removes it); productId adds a line at the customer's current price.
+type OrderLineEdit = { lineId?: string; productId?: string; quantity: number }
+
+type WarehouseListItem = { id: string; code: string; name: string; isActive: boolean }
+type LocationListItem = { id: string; code: string; isActive: boolean; isQuarantine: boolean }
+
+type CancelReason = 'CUSTOMER_REQUEST' | 'OUT_OF_STOCK' | 'PRICING_ERROR' | 'DUPLICATE' | 'DELIVERY_FAILED' | 'OTHER'
+
+const cancelReasonOptions: Array<{ value: CancelReason; label: string }> = [
+  { value: 'CUSTOMER_REQUEST', label: 'Solicitud del cliente' },
+  { value: 'OUT_OF_STOCK', label: 'Sin stock' },
+  { value: 'PRICING_ERROR', label: 'Error de precio' },
+  { value: 'DUPLICATE', label: 'Orden duplicada' },
+  { value: 'DELIVERY_FAILED', label: 'Entrega fallida' },
+  { value: 'OTHER', label: 'Otro' },
+]
+
+function cancelReasonLabel(reason: string): string {
+  return cancelReasonOptions.find((o) => o.value === reason)?.label ?? reason
+}
+
 function orderStatusLabel(status: SalesOrderDetail['status']): string {
   if (status === 'DRAFT') return 'Borrador'
   if (status === 'CONFIRMED') return 'Confirmada'
+  if (status === 'PARTIALLY_FULFILLED') return 'Entrega parcial'
   if (status === 'FULFILLED') return 'Entregada'
   if (status === 'CANCELLED') return 'Cancelada'
   return status
@@ -60,25 +110,285 @@ async function fetchOrder(token: string, id: string): Promise<SalesOrderDetail>
   return apiFetch(`/api/v1/sales/orders/${id}`, { token })
 }
 
+async function cancelOrder(
+  token: string,
+  id: string,
+  input: { version: number; reason: CancelReason; note?: string; reopenQuote: boolean },
+): Promise<{ order: { id: string }; reopenedQuote: { id: string; number: string } | null }> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(id)}/cancel`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function updateOrderLines(token: string, id: string, input: { version: number; lines: OrderLineEdit[] }): Promise<unknown> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(id)}/lines`, {
+    method: 'PATCH',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  const params = new URLSearchParams({ take: '50' })
+  return apiFetch(`/api/v1/products?${params}`, { token })
+}
+
+async function fetchReturnReasons(token: string): Promise<{ items: ReturnReason[] }> {
+  return apiFetch(`/api/v1/sales/return-reasons`, { token })
+}
+
+async function fetchOrderReturns(token: string, orderId: string): Promise<{ items: SalesReturnListItem[] }> {
+  const params = new URLSearchParams({ orderId })
+  return apiFetch(`/api/v1/sales/returns?${params}`, { token })
+}
+
+async function listWarehouses(token: string): Promise<{ items: WarehouseListItem[] }> {
+  const params = new URLSearchParams({ take: '100' })
+  return apiFetch(`/api/v1/warehouses?${params}`, { token })
+}
+
+async function listWarehouseLocations(token: string, warehouseId: string): Promise<{ items: LocationListItem[] }> {
+  const params = new URLSearchParams({ take: '100' })
+  return apiFetch(`/api/v1/warehouses/${encodeURIComponent(warehouseId)}/locations?${params}`, { token })
+}
+
+async function createReturn(
+  token: string,
+  input: { salesOrderId: string; reasonId: string; locationId: string; note?: string; lines: Array<{ lineId: string; quantity: number }> },
+): Promise<{ id: string; number: string; creditAmount: number }> {
+  return apiFetch(`/api/v1/sales/returns`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+type OrderInvoice = {
+  id: string
+  number: number
+  submissionStatus: 'PENDING' | 'ACCEPTED' | 'REJECTED'
+  branch: { branchCode: number }
+}
+
+async function fetchOrderInvoice(token: string, orderId: string): Promise<{ items: OrderInvoice[] }> {
+  const params = new URLSearchParams({ orderId, take: '1' })
+  return apiFetch(`/api/v1/sales/invoices?${params}`, { token })
+}
+
+async function issueInvoice(token: string, orderId: string): Promise<OrderInvoice> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(orderId)}/invoice`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({}),
+  })
+}
+
+function returnableQuantity(line: OrderLine): number {
+  return Math.max(0, toNumber(line.deliveredQuantity) - toNumber(line.returnedQuantity))
+}
+
 export function OrderDetailPage() {
   const { id } = useParams()
   const navigate = useNavigate()
   const navGroups = useNavigation()
   const auth = useAuth()
   const tenant = useTenant()
-  const currency = tenant.branding?.currency || 'BOB'
+  const baseCurrency = tenant.branding?.currency || 'BOB'
+  const perms = usePermissions()
+  const queryClient = useQueryClient()
+
+  const [cancelModalOpen, setCancelModalOpen] = useState(false)
+  const [cancelReason, setCancelReason] = useState<CancelReason>('CUSTOMER_REQUEST')
+  const [cancelNote, setCancelNote] = useState('')
+  const [reopenQuote, setReopenQuote] = useState(false)
+
+  const [editLinesOpen, setEditLinesOpen] = useState(false)
+  const [editQuantities, setEditQuantities] = useState<Record<string, string>>({})
+  const [addedLines, setAddedLines] = useState<Array<{ productId: string; quantity: string }>>([])
+  const [addProductId, setAddProductId] = useState('')
+
+  const [returnModalOpen, setReturnModalOpen] = useState(false)
+  const [returnReasonId, setReturnReasonId] = useState('')
+  const [returnWarehouseId, setReturnWarehouseId] = useState('')
+  const [returnLocationId, setReturnLocationId] = useState('')
+  const [returnNote, setReturnNote] = useState('')
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({})
 
   const orderQuery = useQuery({
     queryKey: ['order', id],
     queryFn: () => fetchOrder(auth.accessToken!, id!),
     enabled: !!auth.accessToken && !!id,
   })
+  const currency = orderQuery.data?.currency ?? baseCurrency
+
+  const isDelivered = orderQuery.data?.status === 'FULFILLED' || orderQuery.data?.status === 'PARTIALLY_FULFILLED'
+
+  const returnsQuery = useQuery({
+    queryKey: ['salesReturns', 'order', id],
+    queryFn: () => fetchOrderReturns(auth.accessToken!, id!),
+    enabled: !!auth.accessToken && !!id && isDelivered,
+  })
+
+  const invoiceQuery = useQuery({
+    queryKey: ['invoices', 'order', id],
+    queryFn: () => fetchOrderInvoice(auth.accessToken!, id!),
+    enabled: !!auth.accessToken && !!id && orderQuery.data?.status === 'FULFILLED',
+  })
+
+  const orderInvoice = invoiceQuery.data?.items[0] ?? null
+
+  const invoiceMutation = useMutation({
+    mutationFn: () => issueInvoice(auth.accessToken!, id!),
+    onSuccess: async (invoice) => {
+      await queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      if (invoice.submissionStatus !== 'ACCEPTED') {
+        window.alert(`Factura ${invoice.number} emitida, pendiente de validación en SIAT`)
+      }
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo emitir la factura')
+    },
+  })
+
+  const canInvoice =
+    orderQuery.data?.status === 'FULFILLED' && invoiceQuery.isSuccess && !orderInvoice && perms.hasPermission('sales:invoice:write')
+
+  const returnReasonsQuery = useQuery({
+    queryKey: ['salesReturnReasons'],
+    queryFn: () => fetchReturnReasons(auth.accessToken!),
+    enabled: !!auth.accessToken && returnModalOpen,
+  })
+
+  const warehousesQuery = useQuery({
+    queryKey: ['warehouses', 'returns'],
+    queryFn: () => listWarehouses(auth.accessToken!),
+    enabled: !!auth.accessToken && returnModalOpen,
+  })
+
+  const locationsQuery = useQuery({
+    queryKey: ['warehouseLocations', returnWarehouseId, 'returns'],
+    queryFn: () => listWarehouseLocations(auth.accessToken!, returnWarehouseId),
+    enabled: !!auth.accessToken && returnModalOpen && !!returnWarehouseId,
+  })
+
+  const returnMutation = useMutation({
+    mutationFn: () =>
+      createReturn(auth.accessToken!, {
+        salesOrderId: id!,
+        reasonId: returnReasonId,
+        locationId: returnLocationId,
+        ...(returnNote.trim() ? { note: returnNote.trim() } : {}),
+        lines: Object.entries(returnQuantities)
+          .map(([lineId, qty]) => ({ lineId, quantity: toNumber(qty) }))
+          .filter((l) => l.quantity > 0),
+      }),
+    onSuccess: async (data) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['order', id] }),
+        queryClient.invalidateQueries({ queryKey: ['salesReturns'] }),
+        queryClient.invalidateQueries({ queryKey: ['payments'] }),
+      ])
+      setReturnModalOpen(false)
+      setReturnQuantities({})
+      setReturnNote('')
+      window.alert(`Devolución registrada. Nota de crédito ${data.number} por ${money(data.creditAmount)} ${currency}`)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo registrar la devolución')
+    },
+  })
+
+  const returnableLines = (orderQuery.data?.lines ?? []).filter((l) => returnableQuantity(l) > 0)
+  const returnCredit = returnableLines.reduce((sum, l) => sum + toNumber(returnQuantities[l.id] ?? 0) * toNumber(l.unitPrice), 0)
+  const canSubmitReturn =
+    !!returnReasonId &&
+    !!returnLocationId &&
+    returnableLines.some((l) => toNumber(returnQuantities[l.id] ?? 0) > 0) &&
+    returnableLines.every((l) => toNumber(returnQuantities[l.id] ?? 0) <= returnableQuantity(l))
+
+  const canReturn =
+    isDelivered &&
+    returnableLines.length > 0 &&
+    perms.hasPermission('sales:order:write') &&
+    perms.hasPermission('stock:move')
+
+  const cancelMutation = useMutation({
+    mutationFn: () =>
+      cancelOrder(auth.accessToken!, id!, {
+        version: orderQuery.data!.version,
+        reason: cancelReason,
+        ...(cancelNote.trim() ? { note: cancelNote.trim() } : {}),
+        reopenQuote,
+      }),
+    onSuccess: async (data) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['order', id] }),
+        queryClient.invalidateQueries({ queryKey: ['orders'] }),
+        queryClient.invalidateQueries({ queryKey: ['deliveries'] }),
+        queryClient.invalidateQueries({ queryKey: ['quotes'] }),
+      ])
+      setCancelModalOpen(false)
+      setCancelNote('')
+      setReopenQuote(false)
+      if (data.reopenedQuote) navigate(`/sales/quotes/${data.reopenedQuote.id}`)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo cancelar la orden')
+    },
+  })
+
+  const canCancel =
+    !!orderQuery.data &&
+    (orderQuery.data.status === 'DRAFT' || orderQuery.data.status === 'CONFIRMED') &&
+    perms.hasPermission('sales:order:write')
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forOrderEdit'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && editLinesOpen,
+  })
+  const productOptions = (productsQuery.data?.items ?? []).filter((p) => p.isActive).map((p) => ({ value: p.id, label: getProductLabel(p) }))
+
+  const openEditLines = () => {
+    setEditQuantities(Object.fromEntries((orderQuery.data?.lines ?? []).map((l) => [l.id, String(toNumber(l.quantity))])))
+    setAddedLines([])
+    setAddProductId('')
+    setEditLinesOpen(true)
+  }
+
+  const lineEdits = (): OrderLineEdit[] => [
+    ...(orderQuery.data?.lines ?? [])
+      .filter((l) => toNumber(editQuantities[l.id] ?? l.quantity) !== toNumber(l.quantity))
+      .map((l) => ({ lineId: l.id, quantity: Math.max(0, toNumber(editQuantities[l.id])) })),
+    ...addedLines.filter((l) => toNumber(l.quantity) > 0).map((l) => ({ productId: l.productId, quantity: toNumber(l.quantity) })),
+  ]
+
+  const editLinesMutation = useMutation({
+    mutationFn: () => updateOrderLines(auth.accessToken!, id!, { version: orderQuery.data!.version, lines: lineEdits() }),
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['order', id] }),
+        queryClient.invalidateQueries({ queryKey: ['orders'] }),
+        queryClient.invalidateQueries({ queryKey: ['deliveries'] }),
+      ])
+      setEditLinesOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudieron actualizar las líneas')
+    },
+  })
+
+  const canEditLines = orderQuery.data?.status === 'CONFIRMED' && perms.hasPermission('sales:order:write')
 
   const total = (orderQuery.data?.lines ?? []).reduce((sum, l) => {
     const qty = toNumber(l.quantity)
     const unit = toNumber(l.unitPrice)
     return sum + qty * unit
   }, 0)
+  // Line prices already include tax; taxAmount is the part of the line total that is IVA.
+  const taxTotal = (orderQuery.data?.lines ?? []).reduce((sum, l) => sum + toNumber(l.taxAmount), 0)
 
   return (
     <MainLayout navGroups={navGroups}>
@@ -107,6 +417,31 @@ export function OrderDetailPage() {
                 📲 WhatsApp
               </Button>
             )}
+            {orderInvoice && (
+              <Button variant="secondary" onClick={() => navigate('/sales/invoices')}>
+                🧾 Factura {orderInvoice.branch.branchCode}-{orderInvoice.number}
+              </Button>
+            )}
+            {canInvoice && (
+              <Button loading={invoiceMutation.isPending} onClick={() => invoiceMutation.mutate()}>
+                🧾 Emitir factura
+              </Button>
+            )}
+            {canReturn && (
+              <Button variant="secondary" onClick={() => setReturnModalOpen(true)}>
+                ↩️ Registrar devolución
+              </Button>
+            )}
+            {canEditLines && (
+              <Button variant="secondary" onClick={openEditLines}>
+                ✏️ Editar líneas
+              </Button>
+            )}
+            {canCancel && (
+              <Button variant="danger" onClick={() => setCancelModalOpen(true)}>
+                Cancelar orden
+              </Button>
+            )}
           </div>
         }
       >
@@ -124,9 +459,11 @@ export function OrderDetailPage() {
                       ? 'success'
                       : orderQuery.data.status === 'CONFIRMED'
                         ? 'info'
-                        : orderQuery.data.status === 'CANCELLED'
-                          ? 'danger'
-                          : 'default'
+                        : orderQuery.data.status === 'PARTIALLY_FULFILLED'
+                          ? 'warning'
+                          : orderQuery.data.status === 'CANCELLED'
+                            ? 'danger'
+                            : 'default'
                   }
                 >
                   {orderStatusLabel(orderQuery.data.status)}
@@ -138,6 +475,11 @@ export function OrderDetailPage() {
                 <div><strong>NIT:</strong> {orderQuery.data.customer?.nit ?? '-'}</div>
                 <div><strong>Procesado por:</strong> {orderQuery.data.processedBy ?? '-'}</div>
                 <div><strong>Última actualización:</strong> {new Date(orderQuery.data.updatedAt).toLocaleString()}</div>
+                {currency !== baseCurrency && (
+                  <div className="md:col-span-2">
+                    <strong>Moneda:</strong> {currency} · tipo de cambio {orderQuery.data.exchangeRate} {baseCurrency}
+                  </div>
+                )}
 
                 {orderQuery.data.deliveryDate && (
                   <div><strong>Fecha de entrega:</strong> {new Date(orderQuery.data.deliveryDate).toLocaleDateString()}</div>
@@ -174,6 +516,14 @@ export function OrderDetailPage() {
                 {orderQuery.data.note && (
                   <div className="md:col-span-2"><strong>Nota:</strong> {orderQuery.data.note}</div>
                 )}
+
+                {orderQuery.data.status === 'CANCELLED' && orderQuery.data.cancelReason && (
+                  <div className="md:col-span-2">
+                    <strong>Cancelada:</strong> {cancelReasonLabel(orderQuery.data.cancelReason)}
+                    {orderQuery.data.cancelledAt ? ` (${new Date(orderQuery.data.cancelledAt).toLocaleString()})` : ''}
+                    {orderQuery.data.cancelNote ? ` — ${orderQuery.data.cancelNote}` : ''}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -183,7 +533,36 @@ export function OrderDetailPage() {
                   { header: 'SKU', accessor: (r: any) => r.product.sku },
                   { header: 'Producto', accessor: (r: any) => getProductDisplayName(r.product) },
                   { header: 'Cant.', accessor: (r: any) => toNumber(r.quantity) },
+                  ...(orderQuery.data.lines.some((l) => l.sources.some((src) => src.expectedArrivalAt))
+                    ? [
+                        {
+                          header: 'Origen',
+                          accessor: (r: OrderLine) => (
+                            <div className="space-y-0.5 text-xs">
+                              {r.sources.map((src) => (
+                                <div key={src.city}>
+                                  {src.city || 'Local'}: {src.quantity}
+                                  {src.expectedArrivalAt && (
+                                    <span className="text-amber-700 dark:text-amber-300">
+                                      {' '}
+                                      · llega {new Date(src.expectedArrivalAt).toLocaleDateString()}
+                                    </span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          ),
+                        },
+                      ]
+                    : []),
+                  ...(orderQuery.data.status === 'PARTIALLY_FULFILLED' || orderQuery.data.status === 'FULFILLED'
+                    ? [{ header: 'Entregado', accessor: (r: OrderLine) => toNumber(r.deliveredQuantity) }]
+                    : []),
                   { header: 'P. unit.', accessor: (r: any) => `${money(toNumber(r.unitPrice))} ${currency}` },
+                  {
+                    header: 'IVA',
+                    accessor: (r: OrderLine) => (toNumber(r.taxPct) > 0 ? `${money(toNumber(r.taxAmount))} (${toNumber(r.taxPct)}%)` : 'Exento'),
+                  },
                   { header: 'Total', accessor: (r: any) => `${money(toNumber(r.quantity) * toNumber(r.unitPrice))} ${currency}` },
                 ]}
                 data={orderQuery.data.lines}
@@ -193,12 +572,261 @@ export function OrderDetailPage() {
 
             <div className="rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900">
               <div className="flex justify-end gap-6">
+                <span className="text-slate-600 dark:text-slate-400">Importe neto</span>
+                <span className="font-medium">{money(total - taxTotal)} {currency}</span>
+              </div>
+              <div className="flex justify-end gap-6">
+                <span className="text-slate-600 dark:text-slate-400">IVA</span>
+                <span className="font-medium">{money(taxTotal)} {currency}</span>
+              </div>
+              <div className="mt-2 flex justify-end gap-6 border-t border-slate-200 pt-2 dark:border-slate-700">
                 <span className="font-semibold">Total</span>
                 <span className="font-semibold">{money(total)} {currency}</span>
               </div>
             </div>
+
+            {(returnsQuery.data?.items ?? []).length > 0 && (
+              <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+                <div className="px-4 pt-4 text-sm font-semibold text-slate-900 dark:text-slate-100">Devoluciones</div>
+                <Table
+                  columns={[
+                    { header: 'Nota de crédito', accessor: (r) => r.number },
+                    { header: 'Fecha', accessor: (r) => new Date(r.createdAt).toLocaleString() },
+                    { header: 'Motivo', accessor: (r) => r.reason.name },
+                    { header: 'Recepción', accessor: (r) => `${r.location.warehouse.code} / ${r.location.code}` },
+                    { header: 'Crédito', accessor: (r) => `${money(r.creditAmount)} ${currency}` },
+                  ]}
+                  data={returnsQuery.data!.items}
+                  keyExtractor={(r) => r.id}
+                />
+              </div>
+            )}
           </div>
         )}
+
+        <Modal
+          isOpen={returnModalOpen}
+          onClose={() => setReturnModalOpen(false)}
+          title={orderQuery.data ? `Devolución de OV ${orderQuery.data.number}` : 'Devolución'}
+          maxWidth="xl"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              La mercadería ingresa a una ubicación de cuarentena y se emite una nota de crédito por el valor devuelto.
+            </p>
+            <Select
+              label="Motivo"
+              value={returnReasonId}
+              onChange={(e) => setReturnReasonId(e.target.value)}
+              options={[
+                { value: '', label: returnReasonsQuery.isLoading ? 'Cargando...' : 'Selecciona un motivo' },
+                ...(returnReasonsQuery.data?.items ?? []).map((r) => ({ value: r.id, label: r.name })),
+              ]}
+            />
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Select
+                label="Sucursal"
+                value={returnWarehouseId}
+                onChange={(e) => {
+                  setReturnWarehouseId(e.target.value)
+                  setReturnLocationId('')
+                }}
+                options={[
+                  { value: '', label: warehousesQuery.isLoading ? 'Cargando...' : 'Selecciona una sucursal' },
+                  ...(warehousesQuery.data?.items ?? [])
+                    .filter((w) => w.isActive)
+                    .map((w) => ({ value: w.id, label: `${w.code} — ${w.name}` })),
+                ]}
+              />
+              <Select
+                label="Ubicación de cuarentena"
+                value={returnLocationId}
+                onChange={(e) => setReturnLocationId(e.target.value)}
+                disabled={!returnWarehouseId}
+                options={[
+                  { value: '', label: !returnWarehouseId ? 'Selecciona sucursal primero' : 'Selecciona una ubicación' },
+                  ...(locationsQuery.data?.items ?? [])
+                    .filter((l) => l.isActive && l.isQuarantine)
+                    .map((l) => ({ value: l.id, label: l.code })),
+                ]}
+              />
+            </div>
+            {!!returnWarehouseId && locationsQuery.data && !locationsQuery.data.items.some((l) => l.isActive && l.isQuarantine) && (
+              <div className="text-sm text-amber-700 dark:text-amber-300">
+                Esta sucursal no tiene ubicaciones de cuarentena. Configúrala en Almacén → Ubicaciones.
+              </div>
+            )}
+            <Table
+              columns={[
+                { header: 'Producto', accessor: (l) => `${l.product.sku} — ${getProductDisplayName(l.product)}` },
+                { header: 'Devolvible', width: '100px', accessor: (l) => returnableQuantity(l) },
+                {
+                  header: 'A devolver',
+                  width: '130px',
+                  accessor: (l) => (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={returnableQuantity(l)}
+                      value={returnQuantities[l.id] ?? ''}
+                      onChange={(e) => setReturnQuantities((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                    />
+                  ),
+                },
+              ]}
+              data={returnableLines}
+              keyExtractor={(l) => l.id}
+            />
+            <Input label="Nota (opcional)" value={returnNote} maxLength={500} onChange={(e) => setReturnNote(e.target.value)} />
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold">
+                Nota de crédito: {money(returnCredit)} {currency}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="secondary" onClick={() => setReturnModalOpen(false)} disabled={returnMutation.isPending}>
+                  Volver
+                </Button>
+                <Button loading={returnMutation.isPending} disabled={!canSubmitReturn} onClick={() => returnMutation.mutate()}>
+                  Registrar devolución
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal
+          isOpen={editLinesOpen}
+          onClose={() => setEditLinesOpen(false)}
+          title={orderQuery.data ? `Editar líneas de OV ${orderQuery.data.number}` : 'Editar líneas'}
+          maxWidth="xl"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              Cantidad 0 quita la línea. Los productos nuevos toman el precio vigente del cliente. El stock de las líneas modificadas se
+              vuelve a reservar.
+            </p>
+            <Table
+              columns={[
+                { header: 'Producto', accessor: (l) => `${l.product.sku} — ${getProductDisplayName(l.product)}` },
+                { header: 'P. unit.', width: '120px', accessor: (l) => `${money(toNumber(l.unitPrice))} ${currency}` },
+                {
+                  header: 'Cantidad',
+                  width: '130px',
+                  accessor: (l) => (
+                    <Input
+                      type="number"
+                      min={0}
+                      value={editQuantities[l.id] ?? ''}
+                      onChange={(e) => setEditQuantities((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                    />
+                  ),
+                },
+              ]}
+              data={orderQuery.data?.lines ?? []}
+              keyExtractor={(l) => l.id}
+            />
+            {addedLines.length > 0 && (
+              <Table
+                columns={[
+                  {
+                    header: 'Producto nuevo',
+                    accessor: (l) => productOptions.find((o) => o.value === l.productId)?.label ?? l.productId,
+                  },
+                  {
+                    header: 'Cantidad',
+                    width: '130px',
+                    accessor: (l) => (
+                      <Input
+                        type="number"
+                        min={0}
+                        value={l.quantity}
+                        onChange={(e) =>
+                          setAddedLines((prev) => prev.map((a) => (a.productId === l.productId ? { ...a, quantity: e.target.value } : a)))
+                        }
+                      />
+                    ),
+                  },
+                ]}
+                data={addedLines}
+                keyExtractor={(l) => l.productId}
+              />
+            )}
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Select
+                  label="Agregar producto"
+                  value={addProductId}
+                  onChange={(e) => setAddProductId(e.target.value)}
+                  options={[
+                    { value: '', label: productsQuery.isLoading ? 'Cargando…' : 'Seleccione…' },
+                    ...productOptions.filter((o) => !addedLines.some((a) => a.productId === o.value)),
+                  ]}
+                  disabled={productsQuery.isLoading}
+                />
+              </div>
+              <Button
+                variant="secondary"
+                disabled={!addProductId}
+                onClick={() => {
+                  setAddedLines((prev) => [...prev, { productId: addProductId, quantity: '1' }])
+                  setAddProductId('')
+                }}
+              >
+                Agregar
+              </Button>
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="secondary" onClick={() => setEditLinesOpen(false)} disabled={editLinesMutation.isPending}>
+                Volver
+              </Button>
+              <Button
+                loading={editLinesMutation.isPending}
+                disabled={lineEdits().length === 0}
+                onClick={() => editLinesMutation.mutate()}
+              >
+                Guardar cambios
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal
+          isOpen={cancelModalOpen}
+          onClose={() => setCancelModalOpen(false)}
+          title={orderQuery.data ? `Cancelar OV ${orderQuery.data.number}` : 'Cancelar orden'}
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              Se liberará el stock reservado para esta orden. Esta acción no se puede deshacer.
+            </p>
+            <Select
+              label="Motivo"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value as CancelReason)}
+              options={cancelReasonOptions}
+            />
+            <Input
+              label="Nota (opcional)"
+              value={cancelNote}
+              maxLength={500}
+              onChange={(e) => setCancelNote(e.target.value)}
+            />
+            {orderQuery.data?.quote && (
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input type="checkbox" checked={reopenQuote} onChange={(e) => setReopenQuote(e.target.checked)} />
+                Reabrir la cotización {orderQuery.data.quote.number} para editarla
+              </label>
+            )}
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="secondary" onClick={() => setCancelModalOpen(false)} disabled={cancelMutation.isPending}>
+                Volver
+              </Button>
+              <Button variant="danger" loading={cancelMutation.isPending} onClick={() => cancelMutation.mutate()}>
+                Confirmar cancelación
+              </Button>
+            </div>
+          </div>
+        </Modal>
       </PageContainer>
     </MainLayout>
   )
@@ -12,7 +12,7 @@ type OrderListItem = {
   number: string
   customerId: string
   customerName: string
-  status: 'DRAFT' | 'CONFIRMED' | 'FULFILLED' | 'CANCELLED'
+  status: 'DRAFT' | 'CONFIRMED' | 'PARTIALLY_FULFILLED' | 'FULFILLED' | 'CANCELLED'
   updatedAt: string
 }
 
@@ -21,6 +21,7 @@ type ListResponse = { items: OrderListItem[]; nextCursor: string | null }
 function orderStatusLabel(status: OrderListItem['status']): string {
   if (status === 'DRAFT') return 'Borrador'
   if (status === 'CONFIRMED') return 'Confirmada'
+  if (status === 'PARTIALLY_FULFILLED') return 'Entrega parcial'
   if (status === 'FULFILLED') return 'Entregada'
   if (status === 'CANCELLED') return 'Cancelada'
   return status
@@ -89,9 +90,11 @@ export function OrdersPage() {
                             ? 'success'
                             : o.status === 'CONFIRMED'
                               ? 'info'
-                              : o.status === 'CANCELLED'
-                                ? 'danger'
-                                : 'default'
+                              : o.status === 'PARTIALLY_FULFILLED'
+                                ? 'warning'
+                                : o.status === 'CANCELLED'
+                                  ? 'danger'
+                                  : 'default'
                         }
                       >
                         {orderStatusLabel(o.status)}
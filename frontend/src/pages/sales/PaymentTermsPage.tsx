@@ -0,0 +1,241 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PencilSquareIcon, PlusIcon } from '@heroicons/react/24/outline'
+
+type PaymentTerm = {
+  id: string
+  code: string
+  name: string
+  days: number
+  earlyPaymentDiscountPct: number
+  earlyPaymentDays: number
+  instalments: number
+  isActive: boolean
+  version: number
+  customersCount: number
+}
+
+type TermInput = {
+  name: string
+  days: number
+  earlyPaymentDiscountPct: number
+  earlyPaymentDays: number
+  instalments: number
+}
+
+async function fetchTerms(token: string): Promise<{ items: PaymentTerm[] }> {
+  const params = new URLSearchParams({ includeInactive: 'true' })
+  return apiFetch(`/api/v1/sales/payment-terms?${params}`, { token })
+}
+
+async function createTerm(token: string, input: TermInput & { code: string }): Promise<PaymentTerm> {
+  return apiFetch(`/api/v1/sales/payment-terms`, { method: 'POST', token, body: JSON.stringify(input) })
+}
+
+async function updateTerm(
+  token: string,
+  id: string,
+  input: Partial<TermInput> & { version: number; isActive?: boolean },
+): Promise<PaymentTerm> {
+  return apiFetch(`/api/v1/sales/payment-terms/${encodeURIComponent(id)}`, { method: 'PATCH', token, body: JSON.stringify(input) })
+}
+
+function termSummary(t: Pick<PaymentTerm, 'days' | 'instalments' | 'earlyPaymentDiscountPct' | 'earlyPaymentDays'>): string {
+  const parts = [t.days > 0 ? `${t.days} días` : 'Contado']
+  if (t.instalments > 1) parts.push(`${t.instalments} cuotas`)
+  if (t.earlyPaymentDiscountPct > 0) parts.push(`${t.earlyPaymentDiscountPct}% si paga en ${t.earlyPaymentDays} días`)
+  return parts.join(' · ')
+}
+
+export function PaymentTermsPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const canWrite = perms.hasPermission('sales:order:write')
+
+  const [editing, setEditing] = useState<PaymentTerm | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [days, setDays] = useState('0')
+  const [instalments, setInstalments] = useState('1')
+  const [discountPct, setDiscountPct] = useState('0')
+  const [discountDays, setDiscountDays] = useState('0')
+
+  const termsQuery = useQuery({
+    queryKey: ['salesPaymentTerms', 'all'],
+    queryFn: () => fetchTerms(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const openForm = (t: PaymentTerm | null) => {
+    setEditing(t)
+    setCode(t?.code ?? '')
+    setName(t?.name ?? '')
+    setDays(String(t?.days ?? 0))
+    setInstalments(String(t?.instalments ?? 1))
+    setDiscountPct(String(t?.earlyPaymentDiscountPct ?? 0))
+    setDiscountDays(String(t?.earlyPaymentDays ?? 0))
+    setFormOpen(true)
+  }
+
+  const formInput = (): TermInput => ({
+    name: name.trim(),
+    days: parseInt(days || '0'),
+    instalments: parseInt(instalments || '1'),
+    earlyPaymentDiscountPct: Number(discountPct || '0'),
+    earlyPaymentDays: parseInt(discountDays || '0'),
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? updateTerm(auth.accessToken!, editing.id, { version: editing.version, ...formInput() })
+        : createTerm(auth.accessToken!, { code: code.trim(), ...formInput() }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPaymentTerms'] })
+      setFormOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar el término de pago')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (t: PaymentTerm) => updateTerm(auth.accessToken!, t.id, { version: t.version, isActive: !t.isActive }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPaymentTerms'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar el término de pago')
+    },
+  })
+
+  const items = termsQuery.data?.items ?? []
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Términos de pago"
+        actions={
+          canWrite ? (
+            <Button icon={<PlusIcon />} onClick={() => openForm(null)}>
+              Nuevo término
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {termsQuery.isLoading && <Loading />}
+          {termsQuery.error && <ErrorState message="Error al cargar términos de pago" retry={termsQuery.refetch} />}
+          {termsQuery.data && items.length === 0 && <EmptyState message="No hay términos de pago" />}
+
+          {termsQuery.data && items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Código', width: '120px', accessor: (t) => t.code },
+                { header: 'Nombre', width: '200px', accessor: (t) => t.name },
+                { header: 'Condiciones', accessor: (t) => termSummary(t) },
+                { header: 'Clientes', width: '90px', className: 'text-right', accessor: (t) => (t.days > 0 ? t.customersCount : '-') },
+                {
+                  header: 'Estado',
+                  width: '240px',
+                  accessor: (t) => (
+                    <div className="flex items-center gap-2">
+                      <Badge variant={t.isActive ? 'success' : 'default'}>{t.isActive ? 'Activo' : 'Inactivo'}</Badge>
+                      {canWrite && (
+                        <>
+                          <Button size="sm" variant="ghost" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => openForm(t)}>
+                            Editar
+                          </Button>
+                          {t.code !== 'CASH' && (
+                            <Button size="sm" variant="ghost" disabled={toggleMutation.isPending} onClick={() => toggleMutation.mutate(t)}>
+                              {t.isActive ? 'Desactivar' : 'Activar'}
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={items}
+              keyExtractor={(t) => t.id}
+            />
+          )}
+        </div>
+
+        <Modal
+          isOpen={formOpen}
+          onClose={() => setFormOpen(false)}
+          title={editing ? `Editar término ${editing.code}` : 'Nuevo término de pago'}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input
+                label="Código"
+                value={code}
+                maxLength={32}
+                disabled={!!editing}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Ej: CREDIT_30"
+              />
+              <Input label="Nombre" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} placeholder="Ej: Crédito 30 días" />
+              <Input
+                label="Días de crédito"
+                type="number"
+                min={0}
+                max={365}
+                value={days}
+                disabled={editing?.code === 'CASH'}
+                onChange={(e) => setDays(e.target.value)}
+              />
+              <Input label="Cuotas" type="number" min={1} max={24} value={instalments} onChange={(e) => setInstalments(e.target.value)} />
+              <Input
+                label="Descuento pronto pago (%)"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={discountPct}
+                onChange={(e) => setDiscountPct(e.target.value)}
+              />
+              <Input
+                label="Pronto pago dentro de (días)"
+                type="number"
+                min={0}
+                max={365}
+                value={discountDays}
+                onChange={(e) => setDiscountDays(e.target.value)}
+              />
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Las cuotas se reparten en partes iguales dentro de los días de crédito, contados desde la entrega. Los cambios se aplican
+              también a las órdenes ya emitidas con este término.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={saveMutation.isPending}
+                disabled={!name.trim() || (!editing && !code.trim())}
+                onClick={() => saveMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
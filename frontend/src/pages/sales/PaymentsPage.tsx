@@ -1,12 +1,14 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge } from '../../components'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, Select } from '../../components'
 import { apiFetch } from '../../lib/api'
+import { exportPaymentReceiptToPDF, paymentMethodLabel } from '../../lib/paymentReceiptPdf'
 import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
 import { useAuth } from '../../providers/AuthProvider'
 import { useTenant } from '../../providers/TenantProvider'
-import { EyeIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
+import { EyeIcon, BanknotesIcon, DocumentTextIcon, BellAlertIcon } from '@heroicons/react/24/outline'
 
 type PaymentStatus = 'DUE' | 'PAID' | 'ALL'
 
@@ -17,15 +19,98 @@ type PaymentListItem = {
   customerId: string
   customerName: string
   paymentMode: string
+  paymentTermName: string
+  instalments: number
   deliveryDate: string | null
   deliveredAt: string | null
   dueAt: string
+  // Amounts of the row are in the order currency.
+  currency: string
   total: number
+  netTotal: number
+  taxTotal: number
+  credited: number
+  paidAmount: number
+  balance: number
+  paymentsCount: number
+  lastPaymentAt: string | null
   paidAt: string | null
 }
 
 type ListResponse = { items: PaymentListItem[] }
 
+type PaymentMethod = 'CASH' | 'TRANSFER' | 'CHECK' | 'CARD' | 'QR'
+
+type LedgerPayment = {
+  id: string
+  number: string
+  amount: number
+  discountAmount: number
+  method: string
+  reference: string | null
+  receivedAt: string
+  receivedBy: string
+  receivedByName: string | null
+  note: string | null
+  balanceAfter: number
+}
+
+type LedgerResponse = {
+  order: {
+    id: string
+    number: string
+    status: string
+    version: number
+    paymentMode: string
+    currency: string
+    paidAt: string | null
+    customer: { id: string; name: string; businessName: string | null; nit: string | null }
+    total: number
+    credited: number
+    paid: number
+    discounted: number
+    balance: number
+  }
+  paymentTerm: { id: string | null; code: string; name: string; days: number; instalments: number; earlyPaymentDays: number; earlyPaymentDiscountPct: number }
+  schedule: Array<{ index: number; dueAt: string; amount: number; pending: number }>
+  earlyPaymentDiscount: number
+  payments: LedgerPayment[]
+}
+
+type PaymentReminder = {
+  id: string
+  level: number
+  thresholdDays: number
+  dueAt: string
+  daysOverdue: number
+  balance: number
+  notifiedUserIds: string[]
+  emailedTo: string | null
+  emailError: string | null
+  createdAt: string
+}
+
+type ReminderSettings = {
+  enabled: boolean
+  thresholdDays: number[]
+  emailCustomer: boolean
+  version: number
+}
+
+const paymentMethodOptions: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'CASH', label: paymentMethodLabel('CASH') },
+  { value: 'TRANSFER', label: paymentMethodLabel('TRANSFER') },
+  { value: 'CHECK', label: paymentMethodLabel('CHECK') },
+  { value: 'CARD', label: paymentMethodLabel('CARD') },
+  { value: 'QR', label: paymentMethodLabel('QR') },
+]
+
+function todayIsoDate(): string {
+  const d = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
 function money(n: number): string {
   if (!Number.isFinite(n)) return '0.00'
   return n.toFixed(2)
@@ -38,11 +123,11 @@ function daysUntil(dateIso: string): number {
   return Math.ceil((target - now) / msDay)
 }
 
-function paymentModeLabel(mode: string): string {
-  const m = (mode ?? '').toUpperCase()
+function paymentModeLabel(p: Pick<PaymentListItem, 'paymentMode' | 'paymentTermName' | 'instalments'>): string {
+  const m = (p.paymentMode ?? '').toUpperCase()
   if (m === 'CASH') return 'CONTADO'
-  if (m.startsWith('CREDIT_')) return `CRÉDITO ${m.replace('CREDIT_', '')}D`
-  return mode
+  const name = p.paymentTermName || p.paymentMode
+  return p.instalments > 1 ? `${name} (${p.instalments} cuotas)` : name
 }
 
 async function fetchPayments(token: string, status: PaymentStatus): Promise<ListResponse> {
@@ -50,11 +135,39 @@ async function fetchPayments(token: string, status: PaymentStatus): Promise<List
   return apiFetch(`/api/v1/sales/payments?${params}`, { token })
 }
 
-async function markPaid(token: string, id: string, version: number): Promise<void> {
-  await apiFetch(`/api/v1/sales/payments/${encodeURIComponent(id)}/pay`, {
+async function fetchLedger(token: string, orderId: string): Promise<LedgerResponse> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(orderId)}/payments`, { token })
+}
+
+async function fetchReminders(token: string, orderId: string): Promise<{ items: PaymentReminder[] }> {
+  return apiFetch(`/api/v1/sales/orders/${encodeURIComponent(orderId)}/payment-reminders`, { token })
+}
+
+async function fetchReminderSettings(token: string): Promise<ReminderSettings> {
+  return apiFetch(`/api/v1/sales/payment-reminders/settings`, { token })
+}
+
+async function updateReminderSettings(token: string, input: ReminderSettings): Promise<ReminderSettings> {
+  return apiFetch(`/api/v1/sales/payment-reminders/settings`, { method: 'PUT', token, body: JSON.stringify(input) })
+}
+
+async function createPayment(
+  token: string,
+  orderId: string,
+  input: {
+    version: number
+    amount: number
+    method: PaymentMethod
+    reference?: string
+    receivedAt?: string
+    note?: string
+    applyEarlyPaymentDiscount?: boolean
+  },
+): Promise<void> {
+  await apiFetch(`/api/v1/sales/orders/${encodeURIComponent(orderId)}/payments`, {
     token,
     method: 'POST',
-    body: JSON.stringify({ version }),
+    body: JSON.stringify(input),
   })
 }
 
@@ -66,8 +179,23 @@ export function PaymentsPage() {
   const navigate = useNavigate()
   const navGroups = useNavigation()
   const queryClient = useQueryClient()
+  const perms = usePermissions()
+
+  const canManageReminders = perms.hasPermission('sales:collections:manage')
 
   const [status, setStatus] = useState<PaymentStatus>('DUE')
+  const [payTarget, setPayTarget] = useState<PaymentListItem | null>(null)
+  const [payAmount, setPayAmount] = useState('')
+  const [payMethod, setPayMethod] = useState<PaymentMethod>('CASH')
+  const [payReference, setPayReference] = useState('')
+  const [payDate, setPayDate] = useState(todayIsoDate())
+  const [payNote, setPayNote] = useState('')
+  const [payWithDiscount, setPayWithDiscount] = useState(false)
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [reminderEnabled, setReminderEnabled] = useState(true)
+  const [reminderThresholds, setReminderThresholds] = useState('')
+  const [reminderEmailCustomer, setReminderEmailCustomer] = useState(false)
 
   const paymentsQuery = useQuery({
     queryKey: ['payments', status],
@@ -75,25 +203,141 @@ export function PaymentsPage() {
     enabled: !!auth.accessToken,
   })
 
+  const ledgerQuery = useQuery({
+    queryKey: ['payments', 'ledger', historyOrderId],
+    queryFn: () => fetchLedger(auth.accessToken!, historyOrderId!),
+    enabled: !!auth.accessToken && !!historyOrderId,
+  })
+
+  const remindersQuery = useQuery({
+    queryKey: ['payments', 'reminders', historyOrderId],
+    queryFn: () => fetchReminders(auth.accessToken!, historyOrderId!),
+    enabled: !!auth.accessToken && !!historyOrderId,
+  })
+
+  const reminderSettingsQuery = useQuery({
+    queryKey: ['payments', 'reminderSettings'],
+    queryFn: () => fetchReminderSettings(auth.accessToken!),
+    enabled: !!auth.accessToken && settingsOpen,
+  })
+
+  // Term details (instalments, early-payment discount) of the order being paid.
+  const payLedgerQuery = useQuery({
+    queryKey: ['payments', 'ledger', payTarget?.id],
+    queryFn: () => fetchLedger(auth.accessToken!, payTarget!.id),
+    enabled: !!auth.accessToken && !!payTarget,
+  })
+  const earlyDiscount = payLedgerQuery.data?.earlyPaymentDiscount ?? 0
+
   const payMutation = useMutation({
-    mutationFn: (vars: { id: string; version: number }) => markPaid(auth.accessToken!, vars.id, vars.version),
+    mutationFn: (target: PaymentListItem) => {
+      // The date picker yields a local day; keep the current time when it is today.
+      const receivedAt = payDate === todayIsoDate() ? new Date() : new Date(`${payDate}T12:00:00`)
+      return createPayment(auth.accessToken!, target.id, {
+        version: target.version,
+        amount: Number(payAmount),
+        method: payMethod,
+        ...(payReference.trim() ? { reference: payReference.trim() } : {}),
+        receivedAt: receivedAt.toISOString(),
+        ...(payNote.trim() ? { note: payNote.trim() } : {}),
+        ...(payWithDiscount ? { applyEarlyPaymentDiscount: true } : {}),
+      })
+    },
     onSuccess: async () => {
+      setPayTarget(null)
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['payments'] }),
         queryClient.invalidateQueries({ queryKey: ['orders'] }),
       ])
     },
-    onError: (err: any) => {
-      const msg = (err?.message as string | undefined) ?? 'No se pudo marcar como pagado'
-      window.alert(msg)
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo registrar el pago')
     },
   })
 
+  const reminderSettingsMutation = useMutation({
+    mutationFn: (current: ReminderSettings) =>
+      updateReminderSettings(auth.accessToken!, {
+        version: current.version,
+        enabled: reminderEnabled,
+        thresholdDays: reminderThresholds
+          .split(',')
+          .map((d) => parseInt(d.trim()))
+          .filter((d) => Number.isFinite(d)),
+        emailCustomer: reminderEmailCustomer,
+      }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['payments', 'reminderSettings'] })
+      setSettingsOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar la configuración de recordatorios')
+    },
+  })
+
+  const openSettings = async () => {
+    setSettingsOpen(true)
+    const current = await reminderSettingsQuery.refetch()
+    if (!current.data) return
+    setReminderEnabled(current.data.enabled)
+    setReminderThresholds(current.data.thresholdDays.join(', '))
+    setReminderEmailCustomer(current.data.emailCustomer)
+  }
+
+  const openPayModal = (p: PaymentListItem) => {
+    setPayTarget(p)
+    setPayAmount(money(p.balance))
+    setPayMethod('CASH')
+    setPayReference('')
+    setPayDate(todayIsoDate())
+    setPayNote('')
+    setPayWithDiscount(false)
+  }
+
+  const togglePayWithDiscount = (checked: boolean) => {
+    setPayWithDiscount(checked)
+    // The discount only applies when the rest of the balance is settled in this payment.
+    if (payTarget) setPayAmount(money(checked ? payTarget.balance - earlyDiscount : payTarget.balance))
+  }
+
+  const downloadReceipt = (ledger: LedgerResponse, payment: LedgerPayment) => {
+    exportPaymentReceiptToPDF({
+      receiptNumber: payment.number,
+      receivedAt: payment.receivedAt,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference,
+      receivedBy: payment.receivedByName,
+      note: payment.note,
+      orderNumber: ledger.order.number,
+      customerName: ledger.order.customer.businessName || ledger.order.customer.name,
+      customerNit: ledger.order.customer.nit,
+      discountAmount: payment.discountAmount,
+      orderTotal: ledger.order.total,
+      balanceAfter: payment.balanceAfter,
+      currency: ledger.order.currency,
+      tenant,
+    })
+  }
+
+  const payAmountNumber = Number(payAmount)
+  const payAmountValid =
+    !!payTarget && Number.isFinite(payAmountNumber) && payAmountNumber > 0 && payAmountNumber <= payTarget.balance + 0.005
+
   const items = paymentsQuery.data?.items ?? []
 
   return (
     <MainLayout navGroups={navGroups}>
-      <PageContainer title="Pagos">
+      <PageContainer
+        title="Pagos"
+        actions={
+          canManageReminders ? (
+            <Button variant="outline" icon={<BellAlertIcon />} onClick={openSettings}>
+              Recordatorios
+            </Button>
+          ) : undefined
+        }
+      >
         {/* Botones de filtro - segunda fila en móvil */}
         <div className="mb-4 flex flex-wrap items-center gap-2">
           <Button
@@ -143,7 +387,7 @@ export function PaymentsPage() {
                     </button>
                   ),
                 },
-                { header: 'Pago', width: '120px', accessor: (p) => <span className="truncate block" title={paymentModeLabel(p.paymentMode)}>{paymentModeLabel(p.paymentMode)}</span> },
+                { header: 'Pago', width: '120px', accessor: (p) => <span className="truncate block" title={paymentModeLabel(p)}>{paymentModeLabel(p)}</span> },
                 {
                   header: 'Entrega',
                   width: '120px',
@@ -166,18 +410,43 @@ export function PaymentsPage() {
                     )
                   },
                 },
-                { header: `Total (${currency})`, width: '130px', accessor: (p) => money(p.total) },
                 {
-                  header: 'Estado',
+                  header: 'Total',
                   width: '130px',
                   accessor: (p) => (
-                    <Badge variant={p.paidAt ? 'success' : 'warning'}>{p.paidAt ? 'COBRADA' : 'POR COBRAR'}</Badge>
+                    <div className="flex flex-col">
+                      <span>
+                        {money(p.total)} {p.currency}
+                      </span>
+                      {p.taxTotal > 0 && (
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          Neto {money(p.netTotal)} · IVA {money(p.taxTotal)}
+                        </span>
+                      )}
+                      {p.credited > 0 && <span className="text-xs text-slate-500 dark:text-slate-400">NC −{money(p.credited)}</span>}
+                    </div>
                   ),
                 },
+                { header: 'Pagado', width: '120px', accessor: (p) => `${money(p.paidAmount)} ${p.currency}` },
+                {
+                  header: 'Saldo',
+                  width: '150px',
+                  accessor: (p) =>
+                    p.paidAt ? (
+                      <Badge variant="success">COBRADA</Badge>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {money(p.balance)} {p.currency}
+                        </span>
+                        {p.paidAmount > 0 && <Badge variant="info">PARCIAL</Badge>}
+                      </div>
+                    ),
+                },
                 {
                   header: 'Acciones',
                   className: 'text-center',
-                  width: '280px',
+                  width: '340px',
                   accessor: (p) => (
                     <div className="flex items-center justify-center gap-1">
                       <Button
@@ -188,20 +457,26 @@ export function PaymentsPage() {
                       >
                         Ver
                       </Button>
+                      {p.paymentsCount > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          icon={<DocumentTextIcon className="w-4 h-4" />}
+                          onClick={() => setHistoryOrderId(p.id)}
+                        >
+                          Pagos
+                        </Button>
+                      )}
                       {!p.paidAt && (
                         <Button
                           size="sm"
                           variant="secondary"
-                          icon={<CheckCircleIcon className="w-4 h-4" />}
+                          icon={<BanknotesIcon className="w-4 h-4" />}
                           disabled={payMutation.isPending}
-                          onClick={() => {
-                            const ok = window.confirm(`¿Marcar como pagada la orden ${p.number}?`)
-                            if (!ok) return
-                            payMutation.mutate({ id: p.id, version: p.version })
-                          }}
+                          onClick={() => openPayModal(p)}
                           className="!border-green-600 !text-green-700 hover:!bg-green-50 dark:!border-green-500 dark:!text-green-400 dark:hover:!bg-green-900/20"
                         >
-                          Confirmar Pago
+                          Registrar pago
                         </Button>
                       )}
                     </div>
@@ -213,6 +488,244 @@ export function PaymentsPage() {
             />
           )}
         </div>
+
+        <Modal isOpen={!!payTarget} onClose={() => setPayTarget(null)} title={`Registrar pago ${payTarget?.number ?? ''}`} maxWidth="md">
+          {payTarget && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <div className="text-slate-500 dark:text-slate-400">Total</div>
+                  <div className="font-medium">{money(payTarget.total)} {payTarget.currency}</div>
+                  {payTarget.taxTotal > 0 && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400">IVA incl. {money(payTarget.taxTotal)}</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-slate-500 dark:text-slate-400">Pagado</div>
+                  <div className="font-medium">{money(payTarget.paidAmount)} {payTarget.currency}</div>
+                </div>
+                <div>
+                  <div className="text-slate-500 dark:text-slate-400">Saldo</div>
+                  <div className="font-medium">{money(payTarget.balance)} {payTarget.currency}</div>
+                </div>
+              </div>
+              {payLedgerQuery.data && payLedgerQuery.data.schedule.length > 1 && (
+                <div className="rounded-md border border-slate-200 p-3 text-sm dark:border-slate-700">
+                  <div className="mb-1 font-medium">{payLedgerQuery.data.paymentTerm.name}: cuotas</div>
+                  {payLedgerQuery.data.schedule.map((s) => (
+                    <div key={s.index} className="flex justify-between">
+                      <span>
+                        Cuota {s.index} · vence {new Date(s.dueAt).toLocaleDateString()}
+                      </span>
+                      <span className={s.pending > 0 ? 'font-medium' : 'text-slate-400 line-through'}>
+                        {money(s.pending > 0 ? s.pending : s.amount)} {payTarget.currency}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {earlyDiscount > 0 && (
+                <label className="flex items-center gap-3 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800 dark:border-green-800 dark:bg-green-900/20 dark:text-green-300">
+                  <input
+                    type="checkbox"
+                    checked={payWithDiscount}
+                    onChange={(e) => togglePayWithDiscount(e.target.checked)}
+                    className="h-4 w-4"
+                  />
+                  Aplicar descuento por pronto pago ({payLedgerQuery.data!.paymentTerm.earlyPaymentDiscountPct}%): −{money(earlyDiscount)} {payTarget.currency}
+                </label>
+              )}
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                <Input
+                  label={`Monto (${payTarget.currency})`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={payAmount}
+                  disabled={payWithDiscount}
+                  onChange={(e) => setPayAmount(e.target.value)}
+                />
+                <Select
+                  label="Forma de pago"
+                  value={payMethod}
+                  onChange={(e) => setPayMethod(e.target.value as PaymentMethod)}
+                  options={paymentMethodOptions}
+                />
+                <Input label="Fecha" type="date" value={payDate} onChange={(e) => setPayDate(e.target.value)} />
+                <Input
+                  label="Referencia"
+                  value={payReference}
+                  maxLength={100}
+                  onChange={(e) => setPayReference(e.target.value)}
+                  placeholder={payMethod === 'CASH' ? 'Opcional' : 'N° de transacción / cheque'}
+                />
+              </div>
+              <Input label="Nota" value={payNote} maxLength={500} onChange={(e) => setPayNote(e.target.value)} />
+              {!payAmountValid && payAmount !== '' && (
+                <p className="text-sm text-red-600 dark:text-red-400">El monto debe ser mayor a 0 y no superar el saldo.</p>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={() => setPayTarget(null)}>
+                  Cancelar
+                </Button>
+                <Button loading={payMutation.isPending} disabled={!payAmountValid} onClick={() => payMutation.mutate(payTarget)}>
+                  Registrar pago
+                </Button>
+              </div>
+            </div>
+          )}
+        </Modal>
+
+        <Modal
+          isOpen={!!historyOrderId}
+          onClose={() => setHistoryOrderId(null)}
+          title={`Pagos ${ledgerQuery.data?.order.number ?? ''}`}
+          maxWidth="xl"
+        >
+          <div className="space-y-4">
+            {ledgerQuery.isLoading && <Loading />}
+            {ledgerQuery.error && <ErrorState message="Error al cargar pagos" retry={ledgerQuery.refetch} />}
+            {ledgerQuery.data && (
+              <>
+                <div className="grid grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <div className="text-slate-500 dark:text-slate-400">Total</div>
+                    <div className="font-medium">{money(ledgerQuery.data.order.total)} {ledgerQuery.data.order.currency}</div>
+                  </div>
+                  <div>
+                    <div className="text-slate-500 dark:text-slate-400">Pagado</div>
+                    <div className="font-medium">{money(ledgerQuery.data.order.paid)} {ledgerQuery.data.order.currency}</div>
+                  </div>
+                  <div>
+                    <div className="text-slate-500 dark:text-slate-400">Saldo</div>
+                    <div className="font-medium">{money(ledgerQuery.data.order.balance)} {ledgerQuery.data.order.currency}</div>
+                  </div>
+                </div>
+                {ledgerQuery.data.payments.length === 0 ? (
+                  <EmptyState message="No hay pagos registrados" />
+                ) : (
+                  <Table
+                    columns={[
+                      { header: 'Recibo', width: '120px', accessor: (r) => r.number },
+                      { header: 'Fecha', width: '110px', accessor: (r) => new Date(r.receivedAt).toLocaleDateString() },
+                      { header: 'Forma', width: '120px', accessor: (r) => paymentMethodLabel(r.method) },
+                      { header: 'Referencia', width: '140px', accessor: (r) => r.reference ?? '-' },
+                      {
+                        header: `Monto (${ledgerQuery.data.order.currency})`,
+                        width: '110px',
+                        accessor: (r) => (
+                          <div className="flex flex-col">
+                            <span>{money(r.amount)}</span>
+                            {r.discountAmount > 0 && (
+                              <span className="text-xs text-slate-500 dark:text-slate-400">Desc. −{money(r.discountAmount)}</span>
+                            )}
+                          </div>
+                        ),
+                      },
+                      { header: `Saldo (${ledgerQuery.data.order.currency})`, width: '110px', accessor: (r) => money(r.balanceAfter) },
+                      {
+                        header: 'Recibo PDF',
+                        className: 'text-center',
+                        width: '110px',
+                        accessor: (r) => (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<DocumentTextIcon className="w-4 h-4" />}
+                            onClick={() => downloadReceipt(ledgerQuery.data!, r)}
+                          >
+                            PDF
+                          </Button>
+                        ),
+                      },
+                    ]}
+                    data={ledgerQuery.data.payments}
+                    keyExtractor={(r) => r.id}
+                  />
+                )}
+              </>
+            )}
+            {remindersQuery.data && remindersQuery.data.items.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-slate-700 dark:text-slate-300">Recordatorios de cobro</div>
+                <Table
+                  columns={[
+                    { header: 'Enviado', width: '110px', accessor: (r) => new Date(r.createdAt).toLocaleDateString() },
+                    {
+                      header: 'Nivel',
+                      width: '120px',
+                      accessor: (r) => (
+                        <Badge variant={r.level > 1 ? 'danger' : 'warning'}>
+                          {r.level > 1 ? `Escalado ${r.level}` : 'Recordatorio'}
+                        </Badge>
+                      ),
+                    },
+                    { header: 'Vencía', width: '110px', accessor: (r) => new Date(r.dueAt).toLocaleDateString() },
+                    { header: 'Mora', width: '80px', accessor: (r) => `${r.daysOverdue} d` },
+                    {
+                      header: `Saldo (${ledgerQuery.data?.order.currency ?? currency})`,
+                      width: '110px',
+                      accessor: (r) => money(r.balance),
+                    },
+                    {
+                      header: 'Correo al cliente',
+                      accessor: (r) => (r.emailedTo ? r.emailedTo : r.emailError ? `No enviado: ${r.emailError}` : '-'),
+                    },
+                  ]}
+                  data={remindersQuery.data.items}
+                  keyExtractor={(r) => r.id}
+                />
+              </div>
+            )}
+          </div>
+        </Modal>
+
+        <Modal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} title="Recordatorios de pagos vencidos" maxWidth="md">
+          <div className="space-y-4">
+            {reminderSettingsQuery.isLoading && <Loading />}
+            {reminderSettingsQuery.error && (
+              <ErrorState message="Error al cargar la configuración" retry={reminderSettingsQuery.refetch} />
+            )}
+            {reminderSettingsQuery.data && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input type="checkbox" checked={reminderEnabled} onChange={(e) => setReminderEnabled(e.target.checked)} />
+                  Enviar recordatorios automáticos
+                </label>
+                <Input
+                  label="Días de mora para avisar / escalar"
+                  value={reminderThresholds}
+                  onChange={(e) => setReminderThresholds(e.target.value)}
+                  placeholder="Ej: 1, 15, 30, 60"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={reminderEmailCustomer}
+                    onChange={(e) => setReminderEmailCustomer(e.target.checked)}
+                  />
+                  Enviar también un correo al cliente (si tiene email registrado)
+                </label>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  El primer umbral avisa al vendedor y a finanzas; cada umbral siguiente escala el aviso. Cada nivel se envía una sola
+                  vez por vencimiento.
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setSettingsOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button
+                    loading={reminderSettingsMutation.isPending}
+                    disabled={!reminderThresholds.trim()}
+                    onClick={() => reminderSettingsMutation.mutate(reminderSettingsQuery.data!)}
+                  >
+                    Guardar
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Modal>
       </PageContainer>
     </MainLayout>
   )
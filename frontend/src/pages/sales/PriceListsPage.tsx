@@ -0,0 +1,399 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { MainLayout, PageContainer, Button, IconButton, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, Select } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PencilSquareIcon, PlusIcon, TagIcon, TrashIcon } from '@heroicons/react/24/outline'
+
+type PriceList = {
+  id: string
+  code: string
+  name: string
+  isActive: boolean
+  version: number
+  itemCount: number
+  customerCount: number
+}
+
+type PriceListItem = {
+  id: string
+  productId: string
+  price: number
+  validFrom: string | null
+  validTo: string | null
+  version: number
+  product: { id: string; sku: string; name: string; price: number | null }
+}
+
+type PriceListDetail = PriceList & { items: PriceListItem[] }
+
+type ItemInput = {
+  price: number
+  validFrom: string | null
+  validTo: string | null
+}
+
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+
+async function fetchPriceLists(token: string): Promise<{ items: PriceList[] }> {
+  const params = new URLSearchParams({ includeInactive: 'true' })
+  return apiFetch(`/api/v1/sales/price-lists?${params}`, { token })
+}
+
+async function fetchPriceList(token: string, id: string): Promise<PriceListDetail> {
+  return apiFetch(`/api/v1/sales/price-lists/${encodeURIComponent(id)}`, { token })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  const params = new URLSearchParams({ take: '50' })
+  return apiFetch(`/api/v1/products?${params}`, { token })
+}
+
+async function createPriceList(token: string, input: { code: string; name: string }): Promise<PriceList> {
+  return apiFetch(`/api/v1/sales/price-lists`, { method: 'POST', token, body: JSON.stringify(input) })
+}
+
+async function updatePriceList(token: string, id: string, input: { version: number; name?: string; isActive?: boolean }): Promise<PriceList> {
+  return apiFetch(`/api/v1/sales/price-lists/${encodeURIComponent(id)}`, { method: 'PATCH', token, body: JSON.stringify(input) })
+}
+
+async function createItem(token: string, priceListId: string, input: ItemInput & { productId: string }): Promise<PriceListItem> {
+  const { validFrom, validTo, ...rest } = input
+  return apiFetch(`/api/v1/sales/price-lists/${encodeURIComponent(priceListId)}/items`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({ ...rest, ...(validFrom ? { validFrom } : {}), ...(validTo ? { validTo } : {}) }),
+  })
+}
+
+async function updateItem(token: string, priceListId: string, itemId: string, input: ItemInput & { version: number }): Promise<PriceListItem> {
+  return apiFetch(`/api/v1/sales/price-lists/${encodeURIComponent(priceListId)}/items/${encodeURIComponent(itemId)}`, {
+    method: 'PATCH',
+    token,
+    body: JSON.stringify(input),
+  })
+}
+
+async function deleteItem(token: string, priceListId: string, itemId: string): Promise<{ ok: boolean }> {
+  return apiFetch(`/api/v1/sales/price-lists/${encodeURIComponent(priceListId)}/items/${encodeURIComponent(itemId)}`, {
+    method: 'DELETE',
+    token,
+  })
+}
+
+function dateInput(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : ''
+}
+
+function validityLabel(item: PriceListItem): string {
+  if (!item.validFrom && !item.validTo) return 'Siempre'
+  const from = item.validFrom ? new Date(item.validFrom).toLocaleDateString() : 'sin inicio'
+  const to = item.validTo ? new Date(item.validTo).toLocaleDateString() : 'sin fin'
+  return `${from} – ${to}`
+}
+
+export function PriceListsPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const canWrite = perms.hasPermission('catalog:write')
+
+  const [editing, setEditing] = useState<PriceList | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+
+  const [pricesListId, setPricesListId] = useState<string | null>(null)
+  const [editingItem, setEditingItem] = useState<PriceListItem | null>(null)
+  const [productId, setProductId] = useState('')
+  const [price, setPrice] = useState('')
+  const [validFrom, setValidFrom] = useState('')
+  const [validTo, setValidTo] = useState('')
+
+  const listsQuery = useQuery({
+    queryKey: ['salesPriceLists', 'all'],
+    queryFn: () => fetchPriceLists(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const detailQuery = useQuery({
+    queryKey: ['salesPriceLists', 'detail', pricesListId],
+    queryFn: () => fetchPriceList(auth.accessToken!, pricesListId!),
+    enabled: !!auth.accessToken && !!pricesListId,
+  })
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forPriceLists'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && !!pricesListId && canWrite,
+  })
+
+  const openForm = (l: PriceList | null) => {
+    setEditing(l)
+    setCode(l?.code ?? '')
+    setName(l?.name ?? '')
+    setFormOpen(true)
+  }
+
+  const resetItemForm = (item: PriceListItem | null) => {
+    setEditingItem(item)
+    setProductId(item?.productId ?? '')
+    setPrice(item ? String(item.price) : '')
+    setValidFrom(dateInput(item?.validFrom ?? null))
+    setValidTo(dateInput(item?.validTo ?? null))
+  }
+
+  const openPrices = (l: PriceList) => {
+    resetItemForm(null)
+    setPricesListId(l.id)
+  }
+
+  const itemInput = (): ItemInput => ({
+    price: Number(price),
+    validFrom: validFrom ? new Date(`${validFrom}T00:00:00`).toISOString() : null,
+    // validTo is inclusive: the price applies until the end of that day.
+    validTo: validTo ? new Date(`${validTo}T23:59:59`).toISOString() : null,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? updatePriceList(auth.accessToken!, editing.id, { version: editing.version, name: name.trim() })
+        : createPriceList(auth.accessToken!, { code: code.trim(), name: name.trim() }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPriceLists'] })
+      setFormOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar la lista de precios')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (l: PriceList) => updatePriceList(auth.accessToken!, l.id, { version: l.version, isActive: !l.isActive }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPriceLists'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar la lista de precios')
+    },
+  })
+
+  const saveItemMutation = useMutation({
+    mutationFn: () =>
+      editingItem
+        ? updateItem(auth.accessToken!, pricesListId!, editingItem.id, { version: editingItem.version, ...itemInput() })
+        : createItem(auth.accessToken!, pricesListId!, { productId, ...itemInput() }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPriceLists'] })
+      await queryClient.invalidateQueries({ queryKey: ['customerPrices'] })
+      resetItemForm(null)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar el precio')
+    },
+  })
+
+  const deleteItemMutation = useMutation({
+    mutationFn: (item: PriceListItem) => deleteItem(auth.accessToken!, pricesListId!, item.id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPriceLists'] })
+      await queryClient.invalidateQueries({ queryKey: ['customerPrices'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo eliminar el precio')
+    },
+  })
+
+  const items = listsQuery.data?.items ?? []
+  const detail = detailQuery.data
+  const productOptions = (productsQuery.data?.items ?? []).filter((p) => p.isActive).map((p) => ({ value: p.id, label: getProductLabel(p) }))
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Listas de precios"
+        actions={
+          canWrite ? (
+            <Button icon={<PlusIcon />} onClick={() => openForm(null)}>
+              Nueva lista
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {listsQuery.isLoading && <Loading />}
+          {listsQuery.error && <ErrorState message="Error al cargar listas de precios" retry={listsQuery.refetch} />}
+          {listsQuery.data && items.length === 0 && <EmptyState message="No hay listas de precios" />}
+
+          {listsQuery.data && items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Código', width: '140px', accessor: (l) => l.code },
+                { header: 'Nombre', accessor: (l) => l.name },
+                { header: 'Productos', width: '110px', className: 'text-right', accessor: (l) => l.itemCount },
+                { header: 'Clientes', width: '110px', className: 'text-right', accessor: (l) => l.customerCount },
+                {
+                  header: 'Estado',
+                  width: '340px',
+                  accessor: (l) => (
+                    <div className="flex items-center gap-2">
+                      <Badge variant={l.isActive ? 'success' : 'default'}>{l.isActive ? 'Activa' : 'Inactiva'}</Badge>
+                      <Button size="sm" variant="ghost" icon={<TagIcon className="w-4 h-4" />} onClick={() => openPrices(l)}>
+                        Precios
+                      </Button>
+                      {canWrite && (
+                        <>
+                          <Button size="sm" variant="ghost" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => openForm(l)}>
+                            Editar
+                          </Button>
+                          <Button size="sm" variant="ghost" disabled={toggleMutation.isPending} onClick={() => toggleMutation.mutate(l)}>
+                            {l.isActive ? 'Desactivar' : 'Activar'}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={items}
+              keyExtractor={(l) => l.id}
+            />
+          )}
+        </div>
+
+        <Modal
+          isOpen={formOpen}
+          onClose={() => setFormOpen(false)}
+          title={editing ? `Editar lista ${editing.code}` : 'Nueva lista de precios'}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <Input
+              label="Código"
+              value={code}
+              maxLength={32}
+              disabled={!!editing}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Ej: MAYORISTA"
+            />
+            <Input label="Nombre" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} placeholder="Ej: Mayoristas" />
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Asigne la lista a los clientes desde su ficha. Las cotizaciones toman el precio de la lista del cliente; los productos que
+              la lista no incluye usan el precio del catálogo.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={saveMutation.isPending}
+                disabled={!name.trim() || (!editing && !code.trim())}
+                onClick={() => saveMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal
+          isOpen={!!pricesListId}
+          onClose={() => setPricesListId(null)}
+          title={detail ? `Precios · ${detail.name}` : 'Precios'}
+          maxWidth="xl"
+        >
+          <div className="space-y-4">
+            {detailQuery.isLoading && <Loading />}
+            {detailQuery.error && <ErrorState message="Error al cargar los precios" retry={detailQuery.refetch} />}
+            {detail && detail.items.length === 0 && <EmptyState message="La lista no tiene precios" />}
+            {detail && detail.items.length > 0 && (
+              <Table
+                columns={[
+                  { header: 'Producto', accessor: (i) => getProductLabel(i.product) },
+                  {
+                    header: 'Precio catálogo',
+                    width: '130px',
+                    className: 'text-right',
+                    accessor: (i) => (i.product.price !== null ? `Bs. ${i.product.price.toFixed(2)}` : '—'),
+                  },
+                  { header: 'Precio lista', width: '120px', className: 'text-right', accessor: (i) => `Bs. ${i.price.toFixed(2)}` },
+                  { header: 'Vigencia', width: '190px', accessor: (i) => validityLabel(i) },
+                  ...(canWrite
+                    ? [
+                        {
+                          header: '',
+                          width: '110px',
+                          accessor: (i: PriceListItem) => (
+                            <div className="flex items-center gap-1">
+                              <IconButton label="Editar" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => resetItemForm(i)} />
+                              <IconButton
+                                label="Quitar"
+                                icon={<TrashIcon className="w-4 h-4" />}
+                                disabled={deleteItemMutation.isPending}
+                                onClick={() => {
+                                  if (window.confirm(`¿Quitar el precio de ${i.product.name}?`)) deleteItemMutation.mutate(i)
+                                }}
+                              />
+                            </div>
+                          ),
+                        },
+                      ]
+                    : []),
+                ]}
+                data={detail.items}
+                keyExtractor={(i) => i.id}
+              />
+            )}
+
+            {canWrite && detail && (
+              <div className="rounded-lg border border-slate-200 p-3 dark:border-slate-700">
+                <div className="mb-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  {editingItem ? `Editar precio de ${editingItem.product.name}` : 'Agregar precio'}
+                </div>
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+                  {editingItem ? (
+                    <Input label="Producto" value={getProductLabel(editingItem.product)} disabled />
+                  ) : (
+                    <Select
+                      label="Producto"
+                      value={productId}
+                      onChange={(e) => setProductId(e.target.value)}
+                      options={[{ value: '', label: productsQuery.isLoading ? 'Cargando…' : 'Seleccione…' }, ...productOptions]}
+                      disabled={productsQuery.isLoading}
+                    />
+                  )}
+                  <Input label="Precio (Bs.)" type="number" min={0} step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+                  <Input label="Vigente desde" type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} />
+                  <Input label="Vigente hasta" type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} />
+                </div>
+                <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                  Sin fechas el precio rige siempre. Si un producto tiene varios precios vigentes, se usa el de inicio más reciente.
+                </p>
+                <div className="mt-3 flex justify-end gap-2">
+                  {editingItem && (
+                    <Button variant="ghost" onClick={() => resetItemForm(null)}>
+                      Cancelar
+                    </Button>
+                  )}
+                  <Button
+                    loading={saveItemMutation.isPending}
+                    disabled={(!editingItem && !productId) || price === '' || !Number.isFinite(Number(price)) || Number(price) < 0}
+                    onClick={() => saveItemMutation.mutate()}
+                  >
+                    {editingItem ? 'Guardar' : 'Agregar'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,401 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, Select } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PencilSquareIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline'
+
+type PromotionType = 'PERCENT_DISCOUNT' | 'FIXED_DISCOUNT' | 'BONUS_UNITS'
+
+type PromotionProduct = { id: string; sku: string; name: string }
+
+type Promotion = {
+  id: string
+  code: string
+  name: string
+  type: PromotionType
+  minQuantity: number
+  discountPct: number | null
+  discountAmount: number | null
+  bonusQuantity: number | null
+  bonusProductId: string | null
+  bonusProduct: PromotionProduct | null
+  validFrom: string
+  validTo: string | null
+  isActive: boolean
+  version: number
+  products: PromotionProduct[]
+}
+
+type PromotionInput = {
+  name: string
+  productIds: string[]
+  minQuantity: number
+  discountPct: number | null
+  discountAmount: number | null
+  bonusQuantity: number | null
+  bonusProductId: string | null
+  validFrom: string
+  validTo: string | null
+}
+
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENT_DISCOUNT: 'Descuento %',
+  FIXED_DISCOUNT: 'Descuento fijo',
+  BONUS_UNITS: 'Bonificación',
+}
+
+async function fetchPromotions(token: string): Promise<{ items: Promotion[] }> {
+  const params = new URLSearchParams({ includeInactive: 'true' })
+  return apiFetch(`/api/v1/sales/promotions?${params}`, { token })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  const params = new URLSearchParams({ take: '50' })
+  return apiFetch(`/api/v1/products?${params}`, { token })
+}
+
+async function createPromotion(token: string, input: PromotionInput & { code: string; type: PromotionType }): Promise<Promotion> {
+  const { bonusProductId, validTo, discountPct, discountAmount, bonusQuantity, ...rest } = input
+  return apiFetch(`/api/v1/sales/promotions`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify({
+      ...rest,
+      ...(discountPct !== null ? { discountPct } : {}),
+      ...(discountAmount !== null ? { discountAmount } : {}),
+      ...(bonusQuantity !== null ? { bonusQuantity } : {}),
+      ...(bonusProductId ? { bonusProductId } : {}),
+      ...(validTo ? { validTo } : {}),
+    }),
+  })
+}
+
+async function updatePromotion(
+  token: string,
+  id: string,
+  input: Partial<PromotionInput> & { version: number; isActive?: boolean },
+): Promise<Promotion> {
+  return apiFetch(`/api/v1/sales/promotions/${encodeURIComponent(id)}`, { method: 'PATCH', token, body: JSON.stringify(input) })
+}
+
+function ruleSummary(p: Promotion): string {
+  const min = p.minQuantity > 1 ? `desde ${p.minQuantity} u.` : 'por unidad'
+  if (p.type === 'PERCENT_DISCOUNT') return `${p.discountPct ?? 0}% ${min}`
+  if (p.type === 'FIXED_DISCOUNT') return `-Bs. ${(p.discountAmount ?? 0).toFixed(2)}/u ${min}`
+  const bonusName = p.bonusProduct ? ` de ${p.bonusProduct.name}` : ''
+  return `${p.minQuantity}+${p.bonusQuantity ?? 0}${bonusName}`
+}
+
+function dateInput(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : ''
+}
+
+export function PromotionsPage() {
+  const auth = useAuth()
+  const perms = usePermissions()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const canWrite = perms.hasPermission('catalog:write')
+
+  const [editing, setEditing] = useState<Promotion | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [type, setType] = useState<PromotionType>('BONUS_UNITS')
+  const [productIds, setProductIds] = useState<string[]>([])
+  const [productToAdd, setProductToAdd] = useState('')
+  const [minQuantity, setMinQuantity] = useState('1')
+  const [discountPct, setDiscountPct] = useState('')
+  const [discountAmount, setDiscountAmount] = useState('')
+  const [bonusQuantity, setBonusQuantity] = useState('')
+  const [bonusProductId, setBonusProductId] = useState('')
+  const [validFrom, setValidFrom] = useState('')
+  const [validTo, setValidTo] = useState('')
+
+  const promotionsQuery = useQuery({
+    queryKey: ['salesPromotions', 'all'],
+    queryFn: () => fetchPromotions(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forPromotions'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && formOpen,
+  })
+
+  // Products already on the promotion may fall outside the first page of the catalog.
+  const productLabels = new Map<string, string>()
+  for (const p of editing?.products ?? []) productLabels.set(p.id, getProductLabel(p))
+  if (editing?.bonusProduct) productLabels.set(editing.bonusProduct.id, getProductLabel(editing.bonusProduct))
+  for (const p of productsQuery.data?.items ?? []) productLabels.set(p.id, getProductLabel(p))
+
+  const openForm = (p: Promotion | null) => {
+    setEditing(p)
+    setCode(p?.code ?? '')
+    setName(p?.name ?? '')
+    setType(p?.type ?? 'BONUS_UNITS')
+    setProductIds(p?.products.map((pp) => pp.id) ?? [])
+    setProductToAdd('')
+    setMinQuantity(String(p?.minQuantity ?? 1))
+    setDiscountPct(p?.discountPct != null ? String(p.discountPct) : '')
+    setDiscountAmount(p?.discountAmount != null ? String(p.discountAmount) : '')
+    setBonusQuantity(p?.bonusQuantity != null ? String(p.bonusQuantity) : '')
+    setBonusProductId(p?.bonusProductId ?? '')
+    setValidFrom(p ? dateInput(p.validFrom) : new Date().toISOString().slice(0, 10))
+    setValidTo(dateInput(p?.validTo ?? null))
+    setFormOpen(true)
+  }
+
+  const formInput = (): PromotionInput => ({
+    name: name.trim(),
+    productIds,
+    minQuantity: Number(minQuantity || '1'),
+    discountPct: type === 'PERCENT_DISCOUNT' && discountPct ? Number(discountPct) : null,
+    discountAmount: type === 'FIXED_DISCOUNT' && discountAmount ? Number(discountAmount) : null,
+    bonusQuantity: type === 'BONUS_UNITS' && bonusQuantity ? Number(bonusQuantity) : null,
+    bonusProductId: type === 'BONUS_UNITS' && bonusProductId ? bonusProductId : null,
+    validFrom: new Date(`${validFrom}T00:00:00`).toISOString(),
+    // validTo is inclusive: the promotion runs until the end of that day.
+    validTo: validTo ? new Date(`${validTo}T23:59:59`).toISOString() : null,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? updatePromotion(auth.accessToken!, editing.id, { version: editing.version, ...formInput() })
+        : createPromotion(auth.accessToken!, { code: code.trim(), type, ...formInput() }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPromotions'] })
+      setFormOpen(false)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo guardar la promoción')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (p: Promotion) => updatePromotion(auth.accessToken!, p.id, { version: p.version, isActive: !p.isActive }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesPromotions'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar la promoción')
+    },
+  })
+
+  const items = promotionsQuery.data?.items ?? []
+  const productOptions = (productsQuery.data?.items ?? [])
+    .filter((p) => p.isActive && !productIds.includes(p.id))
+    .map((p) => ({ value: p.id, label: getProductLabel(p) }))
+  const ruleValueMissing =
+    (type === 'PERCENT_DISCOUNT' && !discountPct) ||
+    (type === 'FIXED_DISCOUNT' && !discountAmount) ||
+    (type === 'BONUS_UNITS' && (!bonusQuantity || (productIds.length > 1 && !bonusProductId)))
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Promociones"
+        actions={
+          canWrite ? (
+            <Button icon={<PlusIcon />} onClick={() => openForm(null)}>
+              Nueva promoción
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {promotionsQuery.isLoading && <Loading />}
+          {promotionsQuery.error && <ErrorState message="Error al cargar promociones" retry={promotionsQuery.refetch} />}
+          {promotionsQuery.data && items.length === 0 && <EmptyState message="No hay promociones" />}
+
+          {promotionsQuery.data && items.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Código', width: '120px', accessor: (p) => p.code },
+                { header: 'Nombre', width: '200px', accessor: (p) => p.name },
+                { header: 'Tipo', width: '130px', accessor: (p) => TYPE_LABELS[p.type] },
+                { header: 'Regla', width: '200px', accessor: (p) => ruleSummary(p) },
+                { header: 'Productos', accessor: (p) => p.products.map((pp) => pp.name).join(', ') },
+                {
+                  header: 'Vigencia',
+                  width: '190px',
+                  accessor: (p) =>
+                    `${new Date(p.validFrom).toLocaleDateString()} – ${p.validTo ? new Date(p.validTo).toLocaleDateString() : 'sin fin'}`,
+                },
+                {
+                  header: 'Estado',
+                  width: '240px',
+                  accessor: (p) => (
+                    <div className="flex items-center gap-2">
+                      <Badge variant={p.isActive ? 'success' : 'default'}>{p.isActive ? 'Activa' : 'Inactiva'}</Badge>
+                      {canWrite && (
+                        <>
+                          <Button size="sm" variant="ghost" icon={<PencilSquareIcon className="w-4 h-4" />} onClick={() => openForm(p)}>
+                            Editar
+                          </Button>
+                          <Button size="sm" variant="ghost" disabled={toggleMutation.isPending} onClick={() => toggleMutation.mutate(p)}>
+                            {p.isActive ? 'Desactivar' : 'Activar'}
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={items}
+              keyExtractor={(p) => p.id}
+            />
+          )}
+        </div>
+
+        <Modal
+          isOpen={formOpen}
+          onClose={() => setFormOpen(false)}
+          title={editing ? `Editar promoción ${editing.code}` : 'Nueva promoción'}
+          maxWidth="lg"
+        >
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <Input
+                label="Código"
+                value={code}
+                maxLength={32}
+                disabled={!!editing}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Ej: PARACETAMOL10+1"
+              />
+              <Input label="Nombre" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} placeholder="Ej: 10+1 Paracetamol" />
+              <Select
+                label="Tipo"
+                value={type}
+                disabled={!!editing}
+                onChange={(e) => setType(e.target.value as PromotionType)}
+                options={(Object.keys(TYPE_LABELS) as PromotionType[]).map((t) => ({ value: t, label: TYPE_LABELS[t] }))}
+              />
+              <Input
+                label="Cantidad mínima"
+                type="number"
+                min={0}
+                step="0.01"
+                value={minQuantity}
+                onChange={(e) => setMinQuantity(e.target.value)}
+              />
+              {type === 'PERCENT_DISCOUNT' && (
+                <Input
+                  label="Descuento (%)"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={discountPct}
+                  onChange={(e) => setDiscountPct(e.target.value)}
+                />
+              )}
+              {type === 'FIXED_DISCOUNT' && (
+                <Input
+                  label="Descuento por unidad (Bs.)"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={discountAmount}
+                  onChange={(e) => setDiscountAmount(e.target.value)}
+                />
+              )}
+              {type === 'BONUS_UNITS' && (
+                <>
+                  <Input
+                    label="Unidades bonificadas"
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={bonusQuantity}
+                    onChange={(e) => setBonusQuantity(e.target.value)}
+                  />
+                  <Select
+                    label="Producto bonificado"
+                    value={bonusProductId}
+                    onChange={(e) => setBonusProductId(e.target.value)}
+                    options={[
+                      { value: '', label: productIds.length > 1 ? 'Seleccione…' : 'El mismo producto' },
+                      ...Array.from(productLabels.entries()).map(([value, label]) => ({ value, label })),
+                    ]}
+                  />
+                </>
+              )}
+              <Input label="Vigente desde" type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} />
+              <Input label="Vigente hasta" type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} />
+            </div>
+
+            <div>
+              <div className="flex items-end gap-2">
+                <Select
+                  label="Productos"
+                  value={productToAdd}
+                  onChange={(e) => setProductToAdd(e.target.value)}
+                  options={[{ value: '', label: productsQuery.isLoading ? 'Cargando…' : 'Seleccione un producto…' }, ...productOptions]}
+                  disabled={productsQuery.isLoading}
+                />
+                <Button
+                  variant="secondary"
+                  disabled={!productToAdd}
+                  onClick={() => {
+                    setProductIds((ids) => [...ids, productToAdd])
+                    setProductToAdd('')
+                  }}
+                >
+                  Agregar
+                </Button>
+              </div>
+              {productIds.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {productIds.map((id) => (
+                    <span
+                      key={id}
+                      className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-700 dark:bg-slate-800 dark:text-slate-200"
+                    >
+                      {productLabels.get(id) ?? id}
+                      <button
+                        type="button"
+                        className="text-slate-500 hover:text-red-600"
+                        onClick={() => setProductIds((ids) => ids.filter((x) => x !== id))}
+                      >
+                        <XMarkIcon className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              La promoción se aplica automáticamente al cotizar cuando la suma de cantidades de sus productos alcanza la cantidad mínima.
+              Las bonificaciones se agregan como líneas sin costo (p. ej. 10+1: por cada 10 unidades, 1 gratis) y reservan stock al
+              procesar la cotización.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                loading={saveMutation.isPending}
+                disabled={!name.trim() || (!editing && !code.trim()) || productIds.length === 0 || !validFrom || ruleValueMissing}
+                onClick={() => saveMutation.mutate()}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -1,32 +1,45 @@
-import { useQuery } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { apiFetch } from '../../lib/api'
 import { exportQuoteToPDF } from '../../lib/quotePdf'
-import { MainLayout, PageContainer, Button, Loading, ErrorState, Table } from '../../components'
+import { MainLayout, PageContainer, Button, Loading, ErrorState, Table, Modal, Input, Select } from '../../components'
 import { useNavigation } from '../../hooks'
 import { useAuth } from '../../providers/AuthProvider'
 import { useTenant } from '../../providers/TenantProvider'
+import { usePermissions } from '../../hooks/usePermissions'
 
 type QuoteDetail = {
   id: string
   number: string
   customerId: string
   customerName: string
-  status: 'CREATED' | 'PROCESSED'
+  status: 'CREATED' | 'PENDING_APPROVAL' | 'PROCESSED' | 'EXPIRED' | 'REJECTED' | 'CANCELLED'
   quotedBy: string | null
+  revision: number
   validityDays: number
+  pricedAt: string
+  validUntil: string
+  closedAt: string | null
+  closeReason: string | null
   paymentMode: string
+  paymentTerm: { id: string; code: string; name: string; days: number; instalments: number } | null
   deliveryDays: number
   deliveryCity: string | null
   deliveryZone: string | null
   deliveryAddress: string | null
   deliveryMapsUrl: string | null
   globalDiscountPct: number
+  pricesIncludeTax: boolean
+  // Document currency and the rate to the tenant currency locked when the quote was priced.
+  currency: string
+  exchangeRate: number
   proposalValue: string | null
   note: string | null
   subtotal: number
   globalDiscountAmount: number
+  netTotal: number
+  taxTotal: number
   total: number
   lines: Array<{
     id: string
@@ -36,43 +49,277 @@ type QuoteDetail = {
     quantity: number
     unitPrice: number
     discountPct: number
+    taxPct: number
+    taxAmount: number
     total: number
+    netUnitPrice: number | null
+    marginPct: number | null
+    marginFlag: 'BELOW_COST' | 'LOW_MARGIN' | null
+    basePrice: number | null
+    promotionName: string | null
+    isBonus: boolean
   }>
+  minMarginPct: number
+  approvals: QuoteApproval[]
   createdAt: string
   updatedAt: string
 }
 
+type DiscountViolation = { kind: 'LINE' | 'GLOBAL'; productId?: string; discountPct: number; limitPct: number }
+
+type QuoteApproval = {
+  id: string
+  revision: number
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'SUPERSEDED'
+  violations: DiscountViolation[]
+  requestedBy: string | null
+  decidedBy: string | null
+  decidedAt: string | null
+  comment: string | null
+  createdAt: string
+}
+
+type RevisionSummary = {
+  revision: number
+  source: 'CREATE' | 'EDIT' | 'REPRICE'
+  createdAt: string
+  createdBy: string | null
+  linesCount: number
+  total: number
+}
+
+type RevisionsResponse = { currentRevision: number; items: RevisionSummary[] }
+
+type RevisionLine = {
+  productId: string
+  productName: string
+  productSku: string
+  quantity: number
+  unitPrice: number
+  discountPct: number
+  total: number
+  isBonus: boolean
+}
+
+type RevisionDetail = {
+  revision: number
+  validityDays: number
+  paymentMode: string
+  deliveryDays: number
+  globalDiscountPct: number
+  total: number
+  lines: RevisionLine[]
+}
+
+type LineDiffRow = {
+  key: string
+  productName: string
+  productSku: string
+  from: RevisionLine | null
+  to: RevisionLine | null
+  change: 'ADDED' | 'REMOVED' | 'CHANGED' | 'SAME'
+}
+
+const REVISION_SOURCE_LABELS: Record<RevisionSummary['source'], string> = {
+  CREATE: 'Creación',
+  EDIT: 'Edición',
+  REPRICE: 'Re-cotización',
+}
+
+const CHANGE_LABELS: Record<LineDiffRow['change'], string> = {
+  ADDED: 'Agregado',
+  REMOVED: 'Quitado',
+  CHANGED: 'Modificado',
+  SAME: 'Sin cambios',
+}
+
+/** Pairs lines of two revisions by product (repeated products pair in order); bonus units pair only with bonus units. */
+function diffRevisionLines(from: RevisionLine[], to: RevisionLine[]): LineDiffRow[] {
+  const lineKey = (l: RevisionLine) => `${l.productId}${l.isBonus ? ':bonus' : ''}`
+  const pending = new Map<string, RevisionLine[]>()
+  for (const l of from) pending.set(lineKey(l), [...(pending.get(lineKey(l)) ?? []), l])
+
+  const rows: LineDiffRow[] = to.map((l, i) => {
+    const prev = pending.get(lineKey(l))?.shift() ?? null
+    const same =
+      !!prev && prev.quantity === l.quantity && prev.unitPrice === l.unitPrice && prev.discountPct === l.discountPct
+    return {
+      key: `to-${i}`,
+      productName: l.isBonus ? `${l.productName} (bonificación)` : l.productName,
+      productSku: l.productSku,
+      from: prev,
+      to: l,
+      change: !prev ? 'ADDED' : same ? 'SAME' : 'CHANGED',
+    }
+  })
+  for (const [key, left] of pending) {
+    left.forEach((l, i) =>
+      rows.push({
+        key: `from-${key}-${i}`,
+        productName: l.isBonus ? `${l.productName} (bonificación)` : l.productName,
+        productSku: l.productSku,
+        from: l,
+        to: null,
+        change: 'REMOVED',
+      }),
+    )
+  }
+  return rows
+}
+
 function money(n: number): string {
   if (!Number.isFinite(n)) return '0.00'
   return n.toFixed(2)
 }
 
-function paymentLabel(code: string): string {
-  if (code === 'CASH') return 'Pago al contado'
-  if (code === 'CREDIT_7') return 'Crédito 7 días'
-  if (code === 'CREDIT_14') return 'Crédito 14 días'
-  return code
+function paymentLabel(q: Pick<QuoteDetail, 'paymentMode' | 'paymentTerm'>): string {
+  if (q.paymentMode === 'CASH') return 'Pago al contado'
+  if (q.paymentTerm) {
+    return q.paymentTerm.instalments > 1 ? `${q.paymentTerm.name} (${q.paymentTerm.instalments} cuotas)` : q.paymentTerm.name
+  }
+  if (q.paymentMode === 'CREDIT_7') return 'Crédito 7 días'
+  if (q.paymentMode === 'CREDIT_14') return 'Crédito 14 días'
+  return q.paymentMode
+}
+
+const STATUS_LABELS: Record<QuoteDetail['status'], string> = {
+  CREATED: 'CREADA',
+  PENDING_APPROVAL: 'POR APROBAR',
+  PROCESSED: 'PROCESADA',
+  EXPIRED: 'VENCIDA',
+  REJECTED: 'RECHAZADA',
+  CANCELLED: 'ANULADA',
+}
+
+const APPROVAL_STATUS_LABELS: Record<QuoteApproval['status'], string> = {
+  PENDING: 'Pendiente',
+  APPROVED: 'Aprobada',
+  REJECTED: 'Rechazada',
+  SUPERSEDED: 'Reemplazada por una edición',
 }
 
 async function fetchQuote(token: string, id: string): Promise<QuoteDetail> {
   return apiFetch(`/api/v1/sales/quotes/${id}`, { token })
 }
 
+async function fetchRevisions(token: string, id: string): Promise<RevisionsResponse> {
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(id)}/revisions`, { token })
+}
+
+async function fetchRevision(token: string, id: string, revision: number): Promise<RevisionDetail> {
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(id)}/revisions/${revision}`, { token })
+}
+
+async function repriceQuote(token: string, id: string): Promise<{ previousTotal: number; total: number }> {
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(id)}/reprice`, { token, method: 'POST' })
+}
+
+async function closeQuote(token: string, id: string, action: 'reject' | 'cancel', reason: string): Promise<{ status: string }> {
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(id)}/${action}`, {
+    token,
+    method: 'POST',
+    body: JSON.stringify({ reason: reason.trim() || undefined }),
+  })
+}
+
+async function decideApproval(token: string, approvalId: string, action: 'approve' | 'reject', comment: string): Promise<{ status: string }> {
+  return apiFetch(`/api/v1/sales/quote-approvals/${encodeURIComponent(approvalId)}/${action}`, {
+    token,
+    method: 'POST',
+    body: JSON.stringify({ comment: comment.trim() || undefined }),
+  })
+}
+
 export function QuoteDetailPage() {
   const { id } = useParams()
   const navigate = useNavigate()
   const navGroups = useNavigation()
   const auth = useAuth()
   const tenant = useTenant()
-  const currency = tenant.branding?.currency || 'BOB'
+  const baseCurrency = tenant.branding?.currency || 'BOB'
 
   const [isExporting, setIsExporting] = useState(false)
+  const [closeAction, setCloseAction] = useState<'reject' | 'cancel' | null>(null)
+  const [closeReason, setCloseReason] = useState('')
+  const [decision, setDecision] = useState<{ approvalId: string; action: 'approve' | 'reject' } | null>(null)
+  const [decisionComment, setDecisionComment] = useState('')
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canWrite = perms.hasPermission('sales:order:write')
+  const canApprove = perms.hasPermission('sales:discount:approve')
 
   const quoteQuery = useQuery({
     queryKey: ['quote', id],
     queryFn: () => fetchQuote(auth.accessToken!, id!),
     enabled: !!auth.accessToken && !!id,
   })
+  const currency = quoteQuery.data?.currency ?? baseCurrency
+
+  const revisionsQuery = useQuery({
+    queryKey: ['quote', id, 'revisions', quoteQuery.data?.revision],
+    queryFn: () => fetchRevisions(auth.accessToken!, id!),
+    enabled: !!auth.accessToken && !!id && (quoteQuery.data?.revision ?? 1) > 1,
+  })
+
+  // Defaults: previous revision vs current one.
+  const [compareFrom, setCompareFrom] = useState<number | null>(null)
+  const [compareTo, setCompareTo] = useState<number | null>(null)
+  const currentRevision = quoteQuery.data?.revision ?? 1
+  const fromRevision = compareFrom ?? Math.max(1, currentRevision - 1)
+  const toRevision = compareTo ?? currentRevision
+
+  const fromRevisionQuery = useQuery({
+    queryKey: ['quote', id, 'revision', fromRevision],
+    queryFn: () => fetchRevision(auth.accessToken!, id!, fromRevision),
+    enabled: !!auth.accessToken && !!id && currentRevision > 1,
+  })
+  const toRevisionQuery = useQuery({
+    queryKey: ['quote', id, 'revision', toRevision],
+    queryFn: () => fetchRevision(auth.accessToken!, id!, toRevision),
+    enabled: !!auth.accessToken && !!id && currentRevision > 1,
+  })
+
+  const repriceMutation = useMutation({
+    mutationFn: () => repriceQuote(auth.accessToken!, id!),
+    onSuccess: async (res) => {
+      setCompareFrom(null)
+      setCompareTo(null)
+      await queryClient.invalidateQueries({ queryKey: ['quote', id] })
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      if (Math.abs(res.total - res.previousTotal) >= 0.005) {
+        window.alert(`Cotización re-cotizada con precios vigentes: total ${res.previousTotal.toFixed(2)} → ${res.total.toFixed(2)}`)
+      }
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo re-cotizar'),
+  })
+
+  const closeMutation = useMutation({
+    mutationFn: (action: 'reject' | 'cancel') => closeQuote(auth.accessToken!, id!, action, closeReason),
+    onSuccess: async () => {
+      setCloseAction(null)
+      setCloseReason('')
+      await queryClient.invalidateQueries({ queryKey: ['quote', id] })
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo cerrar la cotización'),
+  })
+
+  const decisionMutation = useMutation({
+    mutationFn: (d: { approvalId: string; action: 'approve' | 'reject' }) =>
+      decideApproval(auth.accessToken!, d.approvalId, d.action, decisionComment),
+    onSuccess: async () => {
+      setDecision(null)
+      setDecisionComment('')
+      await queryClient.invalidateQueries({ queryKey: ['quote', id] })
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      await queryClient.invalidateQueries({ queryKey: ['quoteApprovals'] })
+    },
+    onError: (err: Error) => window.alert(err.message || 'No se pudo registrar la decisión'),
+  })
+
+  const canReprice = quoteQuery.data?.status === 'CREATED' || quoteQuery.data?.status === 'EXPIRED'
+  const isOpen = canReprice || quoteQuery.data?.status === 'PENDING_APPROVAL'
+  const productNames = new Map((quoteQuery.data?.lines ?? []).map((l) => [l.productId, l.productName] as const))
 
   return (
     <MainLayout navGroups={navGroups}>
@@ -83,9 +330,20 @@ export function QuoteDetailPage() {
             <Button variant="outline" onClick={() => navigate('/sales/quotes')}>Volver</Button>
             {quoteQuery.data && (
               <>
-                {quoteQuery.data.status !== 'PROCESSED' && (
+                {isOpen && (
                   <Button variant="secondary" onClick={() => navigate(`/catalog/seller?quoteId=${quoteQuery.data.id}`)}>Editar</Button>
                 )}
+                {isOpen && canWrite && (
+                  <>
+                    {canReprice && (
+                      <Button variant="outline" loading={repriceMutation.isPending} onClick={() => repriceMutation.mutate()}>
+                        Re-cotizar
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => setCloseAction('reject')}>Rechazar</Button>
+                    <Button variant="danger" onClick={() => setCloseAction('cancel')}>Anular</Button>
+                  </>
+                )}
                 <Button
                   variant="primary"
                   loading={isExporting}
@@ -95,10 +353,11 @@ export function QuoteDetailPage() {
                     try {
                       await exportQuoteToPDF({
                       quoteNumber: q.number,
+                      revision: q.revision,
                       customerName: q.customerName,
                       quotedBy: q.quotedBy ?? undefined,
                       validityDays: String(q.validityDays),
-                      paymentMode: paymentLabel(q.paymentMode),
+                      paymentMode: paymentLabel(q),
                       deliveryDays: String(q.deliveryDays),
                       deliveryCity: q.deliveryCity ?? undefined,
                       deliveryZone: q.deliveryZone ?? undefined,
@@ -107,7 +366,7 @@ export function QuoteDetailPage() {
                       proposalValue: q.proposalValue ?? '',
                       items: q.lines.map((l) => ({
                         sku: l.productSku,
-                        name: l.productName,
+                        name: l.isBonus ? `${l.productName} (bonificación)` : l.productName,
                         quantity: l.quantity,
                         discountPct: l.discountPct,
                         unitPrice: l.unitPrice,
@@ -115,6 +374,8 @@ export function QuoteDetailPage() {
                       })),
                       subtotal: q.subtotal,
                       globalDiscountAmount: q.globalDiscountAmount,
+                      netTotal: q.netTotal,
+                      taxTotal: q.taxTotal,
                       totalAfterGlobal: q.total,
                       currency,
                       tenant,
@@ -138,10 +399,11 @@ export function QuoteDetailPage() {
                     try {
                       await exportQuoteToPDF({
                         quoteNumber: q.number,
+                        revision: q.revision,
                         customerName: q.customerName,
                         quotedBy: q.quotedBy ?? undefined,
                         validityDays: String(q.validityDays),
-                        paymentMode: paymentLabel(q.paymentMode),
+                        paymentMode: paymentLabel(q),
                         deliveryDays: String(q.deliveryDays),
                         deliveryCity: q.deliveryCity ?? undefined,
                         deliveryZone: q.deliveryZone ?? undefined,
@@ -150,7 +412,7 @@ export function QuoteDetailPage() {
                         proposalValue: q.proposalValue ?? '',
                         items: q.lines.map((l) => ({
                           sku: l.productSku,
-                          name: l.productName,
+                          name: l.isBonus ? `${l.productName} (bonificación)` : l.productName,
                           quantity: l.quantity,
                           discountPct: l.discountPct,
                           unitPrice: l.unitPrice,
@@ -158,6 +420,8 @@ export function QuoteDetailPage() {
                         })),
                         subtotal: q.subtotal,
                         globalDiscountAmount: q.globalDiscountAmount,
+                        netTotal: q.netTotal,
+                        taxTotal: q.taxTotal,
                         totalAfterGlobal: q.total,
                         currency,
                         tenant,
@@ -181,6 +445,87 @@ export function QuoteDetailPage() {
           </div>
         }
       >
+        <Modal
+          isOpen={!!closeAction}
+          onClose={() => {
+            setCloseAction(null)
+            setCloseReason('')
+          }}
+          title={closeAction === 'reject' ? 'Marcar como rechazada por el cliente' : 'Anular cotización'}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              La cotización quedará cerrada y ya no podrá editarse ni procesarse.
+            </p>
+            <Input
+              label="Motivo (opcional)"
+              value={closeReason}
+              maxLength={500}
+              onChange={(e) => setCloseReason(e.target.value)}
+              placeholder={closeAction === 'reject' ? 'Ej: Precio de la competencia' : 'Ej: Duplicada'}
+            />
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setCloseAction(null)
+                  setCloseReason('')
+                }}
+              >
+                Volver
+              </Button>
+              <Button variant="danger" loading={closeMutation.isPending} onClick={() => closeAction && closeMutation.mutate(closeAction)}>
+                Confirmar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
+        <Modal
+          isOpen={!!decision}
+          onClose={() => {
+            setDecision(null)
+            setDecisionComment('')
+          }}
+          title={decision?.action === 'approve' ? 'Aprobar descuentos' : 'Rechazar descuentos'}
+          maxWidth="md"
+        >
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {decision?.action === 'approve'
+                ? 'La cotización quedará habilitada para procesarse con los descuentos actuales.'
+                : 'El vendedor deberá editar la cotización y ajustar los descuentos.'}
+            </p>
+            <Input
+              label={decision?.action === 'approve' ? 'Comentario (opcional)' : 'Comentario (requerido)'}
+              value={decisionComment}
+              maxLength={500}
+              onChange={(e) => setDecisionComment(e.target.value)}
+              placeholder={decision?.action === 'approve' ? 'Ej: Cliente mayorista' : 'Ej: Descuento máximo 10%'}
+            />
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setDecision(null)
+                  setDecisionComment('')
+                }}
+              >
+                Volver
+              </Button>
+              <Button
+                variant={decision?.action === 'approve' ? 'success' : 'danger'}
+                loading={decisionMutation.isPending}
+                disabled={decision?.action === 'reject' && !decisionComment.trim()}
+                onClick={() => decision && decisionMutation.mutate(decision)}
+              >
+                Confirmar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
         {quoteQuery.isLoading && <Loading />}
         {quoteQuery.error && <ErrorState message="Error al cargar la cotización" retry={quoteQuery.refetch} />}
 
@@ -190,12 +535,21 @@ export function QuoteDetailPage() {
               <div className="grid gap-2 md:grid-cols-2 text-sm">
                 <div><strong>Número:</strong> {quoteQuery.data.number}</div>
                 <div><strong>Cliente:</strong> {quoteQuery.data.customerName}</div>
-                <div><strong>Estado:</strong> {quoteQuery.data.status === 'PROCESSED' ? 'PROCESADA' : 'CREADA'}</div>
+                <div><strong>Estado:</strong> {STATUS_LABELS[quoteQuery.data.status] ?? quoteQuery.data.status}</div>
                 <div><strong>Cotizado por:</strong> {quoteQuery.data.quotedBy ?? '-'}</div>
-                <div><strong>Validez:</strong> {quoteQuery.data.validityDays} día(s)</div>
-                <div><strong>Forma de pago:</strong> {paymentLabel(quoteQuery.data.paymentMode)}</div>
+                <div><strong>Revisión:</strong> {quoteQuery.data.revision}</div>
+                <div>
+                  <strong>Validez:</strong> {quoteQuery.data.validityDays} día(s) (hasta {new Date(quoteQuery.data.validUntil).toLocaleDateString()})
+                </div>
+                <div><strong>Forma de pago:</strong> {paymentLabel(quoteQuery.data)}</div>
                 <div><strong>Entrega:</strong> {quoteQuery.data.deliveryDays} día(s)</div>
                 <div><strong>Desc. global:</strong> {quoteQuery.data.globalDiscountPct}%</div>
+                <div><strong>Precios:</strong> {quoteQuery.data.pricesIncludeTax ? 'con IVA incluido' : 'sin IVA (se agrega)'}</div>
+                {currency !== baseCurrency && (
+                  <div>
+                    <strong>Moneda:</strong> {currency} · tipo de cambio {quoteQuery.data.exchangeRate} {baseCurrency}
+                  </div>
+                )}
                 {(quoteQuery.data.deliveryAddress || quoteQuery.data.deliveryZone || quoteQuery.data.deliveryCity) && (
                   <div className="md:col-span-2">
                     <strong>Lugar de entrega:</strong>{' '}
@@ -218,6 +572,19 @@ export function QuoteDetailPage() {
                     </a>
                   </div>
                 )}
+                {quoteQuery.data.status === 'PENDING_APPROVAL' && (
+                  <div className="md:col-span-2 text-amber-700 dark:text-amber-300">
+                    Los descuentos superan el límite del vendedor. La cotización no podrá procesarse hasta que sea aprobada.
+                  </div>
+                )}
+                {quoteQuery.data.status === 'EXPIRED' && (
+                  <div className="md:col-span-2 text-amber-700 dark:text-amber-300">
+                    Los precios de esta cotización vencieron. Re-cotícela (o edítela) para poder procesarla.
+                  </div>
+                )}
+                {quoteQuery.data.closeReason && (quoteQuery.data.status === 'REJECTED' || quoteQuery.data.status === 'CANCELLED') && (
+                  <div className="md:col-span-2"><strong>Motivo de cierre:</strong> {quoteQuery.data.closeReason}</div>
+                )}
                 {quoteQuery.data.proposalValue && <div className="md:col-span-2"><strong>Valor de propuesta:</strong> {quoteQuery.data.proposalValue}</div>}
               </div>
             </div>
@@ -226,15 +593,58 @@ export function QuoteDetailPage() {
               <Table
                 columns={[
                   { header: 'SKU', accessor: (r: any) => r.productSku },
-                  { header: 'Producto', accessor: (r: any) => r.productName },
+                  {
+                    header: 'Producto',
+                    accessor: (r) => (
+                      <div>
+                        <div>{r.productName}</div>
+                        {r.promotionName && (
+                          <div className="text-xs text-emerald-700 dark:text-emerald-300">
+                            🎁 {r.isBonus ? 'Bonificación' : 'Promoción'}: {r.promotionName}
+                          </div>
+                        )}
+                      </div>
+                    ),
+                  },
                   { header: 'Cant.', accessor: (r: any) => r.quantity },
                   { header: 'Desc.%', accessor: (r: any) => r.discountPct },
-                  { header: 'P. unit.', accessor: (r: any) => `${money(r.unitPrice)} ${currency}` },
+                  {
+                    header: 'P. unit.',
+                    accessor: (r) =>
+                      r.basePrice !== null && r.basePrice !== r.unitPrice ? (
+                        <span>
+                          <span className="mr-1 text-slate-400 line-through">{money(r.basePrice)}</span>
+                          {money(r.unitPrice)} {currency}
+                        </span>
+                      ) : (
+                        `${money(r.unitPrice)} ${currency}`
+                      ),
+                  },
+                  { header: 'IVA', accessor: (r) => (r.taxPct > 0 ? `${money(r.taxAmount)} (${r.taxPct}%)` : 'Exento') },
                   { header: 'Total', accessor: (r: any) => `${money(r.total)} ${currency}` },
+                  {
+                    header: 'Margen',
+                    accessor: (r) =>
+                      r.marginPct === null ? '-' : `${r.marginPct.toFixed(1)}%${r.marginFlag === 'BELOW_COST' ? ' (bajo costo)' : ''}`,
+                  },
                 ]}
                 data={quoteQuery.data.lines}
                 keyExtractor={(r: any) => r.id}
+                rowClassName={(r) =>
+                  r.isBonus
+                    ? 'bg-emerald-50/60 dark:bg-emerald-900/10'
+                    : r.marginFlag === 'BELOW_COST'
+                      ? 'bg-red-50/60 dark:bg-red-900/10'
+                      : r.marginFlag === 'LOW_MARGIN'
+                        ? 'bg-amber-50/60 dark:bg-amber-900/10'
+                        : ''
+                }
               />
+              {quoteQuery.data.lines.some((l) => l.marginFlag) && (
+                <div className="border-t border-slate-200 px-4 py-2 text-xs text-slate-600 dark:border-slate-700 dark:text-slate-400">
+                  Resaltadas: líneas bajo el margen mínimo de {quoteQuery.data.minMarginPct}% (en rojo, bajo costo).
+                </div>
+              )}
             </div>
 
             <div className="rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900">
@@ -246,11 +656,146 @@ export function QuoteDetailPage() {
                 <span className="text-slate-600 dark:text-slate-400">Desc. global</span>
                 <span className="font-medium">-{money(quoteQuery.data.globalDiscountAmount)} {currency}</span>
               </div>
+              <div className="flex justify-end gap-6">
+                <span className="text-slate-600 dark:text-slate-400">Importe neto</span>
+                <span className="font-medium">{money(quoteQuery.data.netTotal)} {currency}</span>
+              </div>
+              <div className="flex justify-end gap-6">
+                <span className="text-slate-600 dark:text-slate-400">IVA</span>
+                <span className="font-medium">{money(quoteQuery.data.taxTotal)} {currency}</span>
+              </div>
               <div className="mt-2 flex justify-end gap-6 border-t border-slate-200 pt-2 dark:border-slate-700">
                 <span className="font-semibold">Total</span>
                 <span className="font-semibold">{money(quoteQuery.data.total)} {currency}</span>
               </div>
             </div>
+
+            {quoteQuery.data.approvals.length > 0 && (
+              <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                <h3 className="mb-3 text-base font-semibold text-slate-900 dark:text-slate-100">Aprobación de descuentos</h3>
+                <Table<QuoteApproval>
+                  columns={[
+                    { header: 'Rev', width: '60px', accessor: (a) => a.revision },
+                    {
+                      header: 'Solicitud',
+                      accessor: (a) => `${a.requestedBy ?? '-'} · ${new Date(a.createdAt).toLocaleString()}`,
+                    },
+                    {
+                      header: 'Descuentos fuera de límite',
+                      accessor: (a) => (
+                        <div className="space-y-0.5 text-xs">
+                          {a.violations.map((v, i) => (
+                            <div key={i}>
+                              {v.kind === 'GLOBAL' ? 'Desc. global' : productNames.get(v.productId ?? '') ?? 'Línea'}: {v.discountPct}% (límite{' '}
+                              {v.limitPct}%)
+                            </div>
+                          ))}
+                        </div>
+                      ),
+                    },
+                    {
+                      header: 'Estado',
+                      accessor: (a) =>
+                        a.decidedBy
+                          ? `${APPROVAL_STATUS_LABELS[a.status]} por ${a.decidedBy} · ${new Date(a.decidedAt!).toLocaleString()}`
+                          : APPROVAL_STATUS_LABELS[a.status],
+                    },
+                    { header: 'Comentario', accessor: (a) => a.comment ?? '-' },
+                    {
+                      header: 'Acciones',
+                      className: 'text-center',
+                      width: '200px',
+                      accessor: (a) =>
+                        a.status === 'PENDING' && canApprove ? (
+                          <div className="flex items-center justify-center gap-1">
+                            <Button variant="success" size="sm" onClick={() => setDecision({ approvalId: a.id, action: 'approve' })}>
+                              Aprobar
+                            </Button>
+                            <Button variant="danger" size="sm" onClick={() => setDecision({ approvalId: a.id, action: 'reject' })}>
+                              Rechazar
+                            </Button>
+                          </div>
+                        ) : (
+                          '-'
+                        ),
+                    },
+                  ]}
+                  data={quoteQuery.data.approvals}
+                  keyExtractor={(a) => a.id}
+                  rowClassName={(a) => (a.status === 'PENDING' ? 'bg-amber-50/60 dark:bg-amber-900/10' : '')}
+                />
+              </div>
+            )}
+
+            {currentRevision > 1 && (
+              <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                <div className="mb-3 flex flex-wrap items-end gap-3">
+                  <h3 className="mr-auto text-base font-semibold text-slate-900 dark:text-slate-100">Historial de revisiones</h3>
+                  <Select
+                    label="Comparar"
+                    value={String(fromRevision)}
+                    onChange={(e) => setCompareFrom(Number(e.target.value))}
+                    options={(revisionsQuery.data?.items ?? []).map((r) => ({
+                      value: String(r.revision),
+                      label: `Rev ${r.revision} · ${REVISION_SOURCE_LABELS[r.source]} · ${new Date(r.createdAt).toLocaleDateString()}`,
+                    }))}
+                  />
+                  <Select
+                    label="con"
+                    value={String(toRevision)}
+                    onChange={(e) => setCompareTo(Number(e.target.value))}
+                    options={(revisionsQuery.data?.items ?? []).map((r) => ({
+                      value: String(r.revision),
+                      label: `Rev ${r.revision} · ${REVISION_SOURCE_LABELS[r.source]} · ${new Date(r.createdAt).toLocaleDateString()}`,
+                    }))}
+                  />
+                </div>
+
+                {(fromRevisionQuery.isLoading || toRevisionQuery.isLoading) && <Loading />}
+                {fromRevisionQuery.data && toRevisionQuery.data && (
+                  <>
+                    <div className="mb-3 grid gap-1 text-sm md:grid-cols-3">
+                      {[
+                        { label: 'Validez (días)', from: fromRevisionQuery.data.validityDays, to: toRevisionQuery.data.validityDays },
+                        { label: 'Forma de pago', from: fromRevisionQuery.data.paymentMode, to: toRevisionQuery.data.paymentMode },
+                        { label: 'Entrega (días)', from: fromRevisionQuery.data.deliveryDays, to: toRevisionQuery.data.deliveryDays },
+                        { label: 'Desc. global %', from: fromRevisionQuery.data.globalDiscountPct, to: toRevisionQuery.data.globalDiscountPct },
+                        { label: 'Total', from: money(fromRevisionQuery.data.total), to: money(toRevisionQuery.data.total) },
+                      ].map((t) => (
+                        <div key={t.label} className={t.from !== t.to ? 'rounded bg-amber-50 px-2 dark:bg-amber-900/20' : 'px-2'}>
+                          <strong>{t.label}:</strong> {t.from} → {t.to}
+                        </div>
+                      ))}
+                    </div>
+                    <Table<LineDiffRow>
+                      columns={[
+                        { header: 'Producto', accessor: (r) => `${r.productSku} · ${r.productName}` },
+                        {
+                          header: `Rev ${fromRevision}: cant. / P. unit. / desc.`,
+                          accessor: (r) => (r.from ? `${r.from.quantity} × ${money(r.from.unitPrice)} (-${r.from.discountPct}%)` : '-'),
+                        },
+                        {
+                          header: `Rev ${toRevision}: cant. / P. unit. / desc.`,
+                          accessor: (r) => (r.to ? `${r.to.quantity} × ${money(r.to.unitPrice)} (-${r.to.discountPct}%)` : '-'),
+                        },
+                        { header: 'Cambio', accessor: (r) => CHANGE_LABELS[r.change] },
+                      ]}
+                      data={diffRevisionLines(fromRevisionQuery.data.lines, toRevisionQuery.data.lines)}
+                      keyExtractor={(r) => r.key}
+                      rowClassName={(r) =>
+                        r.change === 'ADDED'
+                          ? 'bg-emerald-50/60 dark:bg-emerald-900/10'
+                          : r.change === 'REMOVED'
+                            ? 'bg-red-50/60 dark:bg-red-900/10'
+                            : r.change === 'CHANGED'
+                              ? 'bg-amber-50/60 dark:bg-amber-900/10'
+                              : ''
+                      }
+                    />
+                  </>
+                )}
+              </div>
+            )}
           </div>
         )}
       </PageContainer>
@@ -3,19 +3,24 @@ import { useEffect, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { apiFetch } from '../../lib/api'
 import { useAuth } from '../../providers/AuthProvider'
-import { MainLayout, PageContainer, Button, Table, PaginationCursor, Input, Badge, Modal } from '../../components'
+import { MainLayout, PageContainer, Button, Table, PaginationCursor, Input, Badge, Modal, Select } from '../../components'
 import { useNavigation } from '../../hooks'
-import { EyeIcon, PencilIcon, ArrowPathIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { usePermissions } from '../../hooks/usePermissions'
+import { EyeIcon, PencilIcon, ArrowPathIcon, PlusIcon, CurrencyDollarIcon } from '@heroicons/react/24/outline'
 import { useNotifications } from '../../providers/NotificationsProvider'
 
+type QuoteStatus = 'CREATED' | 'PENDING_APPROVAL' | 'PROCESSED' | 'EXPIRED' | 'REJECTED' | 'CANCELLED'
+
 type QuoteListItem = {
   id: string
   number: string
   customerId: string
   customerName: string
-  status: 'CREATED' | 'PROCESSED'
+  status: QuoteStatus
+  validUntil: string
   quotedBy: string | null
   total: number
+  currency: string
   createdAt: string
   itemsCount: number
 }
@@ -28,17 +33,65 @@ type ProcessQuoteResponse = {
   status: string
   version: number
   createdAt: string
+  // Movement request that ships the cross-city portion, when the quote was split across cities.
+  transferRequestId: string | null
+}
+
+type CreditStatus = {
+  customerName: string
+  creditLimit: number | null
+  openReceivable: number
+  pendingOrders: number
+  orderAmount: number
+  exposure: number
+  available: number | null
+  overdue: Array<{ orderId: string; number: string; dueAt: string; daysOverdue: number; balance: number }>
+  reasons: Array<'CREDIT_LIMIT_EXCEEDED' | 'OVERDUE_INVOICES'>
 }
 
-async function fetchQuotes(token: string, take: number, cursor?: string, customerSearch?: string): Promise<ListResponse> {
+const CREDIT_HOLD_PREFIX = 'retención de crédito'
+const QUOTE_EXPIRED_PREFIX = 'cotización vencida'
+
+const STATUS_BADGES: Record<QuoteStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'danger' }> = {
+  CREATED: { label: 'CREADA', variant: 'default' },
+  PENDING_APPROVAL: { label: 'POR APROBAR', variant: 'warning' },
+  PROCESSED: { label: 'PROCESADA', variant: 'success' },
+  EXPIRED: { label: 'VENCIDA', variant: 'warning' },
+  REJECTED: { label: 'RECHAZADA', variant: 'danger' },
+  CANCELLED: { label: 'ANULADA', variant: 'danger' },
+}
+
+async function fetchQuotes(token: string, take: number, cursor?: string, customerSearch?: string, status?: string): Promise<ListResponse> {
   const params = new URLSearchParams({ take: String(take) })
   if (cursor) params.append('cursor', cursor)
   if (customerSearch) params.append('customerSearch', customerSearch)
+  if (status) params.append('status', status)
   return apiFetch(`/api/v1/sales/quotes?${params}`, { token })
 }
 
-async function processQuote(token: string, quoteId: string): Promise<ProcessQuoteResponse> {
-  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(quoteId)}/process`, { token, method: 'POST' })
+async function repriceQuote(token: string, quoteId: string): Promise<{ id: string; previousTotal: number; total: number }> {
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(quoteId)}/reprice`, { token, method: 'POST' })
+}
+
+async function processQuote(
+  token: string,
+  quoteId: string,
+  options?: { overrideReason?: string; splitAcrossCities?: boolean },
+): Promise<ProcessQuoteResponse> {
+  const body = {
+    ...(options?.overrideReason ? { overrideCreditHold: true, overrideReason: options.overrideReason } : {}),
+    ...(options?.splitAcrossCities ? { splitAcrossCities: true } : {}),
+  }
+  return apiFetch(`/api/v1/sales/quotes/${encodeURIComponent(quoteId)}/process`, {
+    token,
+    method: 'POST',
+    ...(Object.keys(body).length > 0 ? { body: JSON.stringify(body) } : {}),
+  })
+}
+
+async function fetchCreditStatus(token: string, customerId: string, orderAmount: number): Promise<CreditStatus> {
+  const params = new URLSearchParams({ orderAmount: String(orderAmount) })
+  return apiFetch(`/api/v1/customers/${encodeURIComponent(customerId)}/credit?${params}`, { token })
 }
 
 async function requestQuoteStock(token: string, quoteId: string): Promise<{ ok: true; city: string; items: any[] }> {
@@ -55,12 +108,18 @@ export function QuotesPage() {
   const highlightId = searchParams.get('highlight')
   const [cursor, setCursor] = useState<string | undefined>()
   const [customerSearch, setCustomerSearch] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
   const [stockErrorModalOpen, setStockErrorModalOpen] = useState(false)
   const [stockErrorMessage, setStockErrorMessage] = useState<string>('')
+  const [creditHoldQuote, setCreditHoldQuote] = useState<QuoteListItem | null>(null)
+  const [creditHoldMessage, setCreditHoldMessage] = useState('')
+  const [overrideReason, setOverrideReason] = useState('')
+  const perms = usePermissions()
+  const canOverrideCredit = perms.hasPermission('sales:credit:override')
 
   const quotesQuery = useQuery({
-    queryKey: ['quotes', cursor, customerSearch],
-    queryFn: () => fetchQuotes(auth.accessToken!, 20, cursor, customerSearch || undefined),
+    queryKey: ['quotes', cursor, customerSearch, statusFilter],
+    queryFn: () => fetchQuotes(auth.accessToken!, 20, cursor, customerSearch || undefined, statusFilter || undefined),
     enabled: !!auth.accessToken,
   })
 
@@ -76,12 +135,14 @@ export function QuotesPage() {
 
   const processMutation = useMutation({
     mutationFn: async (quoteId: string) => processQuote(auth.accessToken!, quoteId),
-    onError: (err: any) => {
+    onError: async (err: any) => {
       const msg = String(err?.message ?? '')
       if (msg.toLowerCase().includes('cantidad de existencias insuficientes')) {
         setStockErrorMessage(msg)
         setStockErrorModalOpen(true)
       }
+      // The list may still show it as open if it expired while the page was open.
+      if (msg.toLowerCase().startsWith(QUOTE_EXPIRED_PREFIX)) await queryClient.invalidateQueries({ queryKey: ['quotes'] })
     },
     onSuccess: async (createdOrder) => {
       await queryClient.invalidateQueries({ queryKey: ['quotes'] })
@@ -92,17 +153,84 @@ export function QuotesPage() {
     },
   })
 
+  const overrideMutation = useMutation({
+    mutationFn: async (quoteId: string) => processQuote(auth.accessToken!, quoteId, { overrideReason: overrideReason.trim() }),
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo liberar la retención de crédito')
+    },
+    onSuccess: async (createdOrder) => {
+      setCreditHoldQuote(null)
+      setOverrideReason('')
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      await queryClient.invalidateQueries({ queryKey: ['orders'] })
+      navigate(`/sales/orders?highlight=${encodeURIComponent(createdOrder.id)}`)
+    },
+  })
+
+  const creditStatusQuery = useQuery({
+    queryKey: ['customerCredit', creditHoldQuote?.customerId, creditHoldQuote?.total],
+    queryFn: () => fetchCreditStatus(auth.accessToken!, creditHoldQuote!.customerId, creditHoldQuote!.total),
+    enabled: !!auth.accessToken && !!creditHoldQuote,
+  })
+
+  const closeCreditHold = () => {
+    setCreditHoldQuote(null)
+    setCreditHoldMessage('')
+    setOverrideReason('')
+    processMutation.reset()
+  }
+
+  const repriceMutation = useMutation({
+    mutationFn: async (quoteId: string) => repriceQuote(auth.accessToken!, quoteId),
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo re-cotizar')
+    },
+    onSuccess: async (res) => {
+      processMutation.reset()
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      await queryClient.invalidateQueries({ queryKey: ['quote', res.id] })
+      if (Math.abs(res.total - res.previousTotal) >= 0.005) {
+        window.alert(`Cotización re-cotizada con precios vigentes: total ${res.previousTotal.toFixed(2)} → ${res.total.toFixed(2)}`)
+      }
+    },
+  })
+
   const requestStockMutation = useMutation({
     mutationFn: async (quoteId: string) => requestQuoteStock(auth.accessToken!, quoteId),
   })
 
+  // Processes anyway: the city's stock is reserved first and the rest is transferred from other cities.
+  const splitMutation = useMutation({
+    mutationFn: async (quoteId: string) => processQuote(auth.accessToken!, quoteId, { splitAcrossCities: true }),
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo procesar la cotización con traslado')
+    },
+    onSuccess: async (createdOrder) => {
+      setStockErrorModalOpen(false)
+      setStockErrorMessage('')
+      processMutation.reset()
+      if (createdOrder.transferRequestId) {
+        notifications.notify({
+          kind: 'info',
+          title: '🚚 Traslado programado',
+          body: `La orden ${createdOrder.number} se completará con existencias de otras ciudades.`,
+          linkTo: `/sales/orders/${encodeURIComponent(createdOrder.id)}`,
+        })
+      }
+      await queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      await queryClient.invalidateQueries({ queryKey: ['orders'] })
+      navigate(`/sales/orders?highlight=${encodeURIComponent(createdOrder.id)}`)
+    },
+  })
+
   const processErrorMsg = String((processMutation.error as any)?.message ?? '')
   const isStockError = processMutation.isError && processErrorMsg.toLowerCase().includes('cantidad de existencias insuficientes')
+  const isCreditHold = processMutation.isError && processErrorMsg.toLowerCase().startsWith(CREDIT_HOLD_PREFIX)
 
   return (
     <MainLayout navGroups={navGroups}>
       <PageContainer title="Cotizaciones" actions={<Button variant="primary" icon={<PlusIcon />} onClick={() => navigate('/catalog/seller')}>Crear Cotización</Button>}>
-        {processMutation.isError && !isStockError && (
+        {processMutation.isError && !isStockError && !isCreditHold && (
           <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900/60 dark:bg-red-950/40 dark:text-red-200">
             Error al procesar cotización: {(processMutation.error as any)?.message ?? 'Error'}
           </div>
@@ -148,6 +276,16 @@ export function QuotesPage() {
               >
                 Solicitar existencias
               </Button>
+              <Button
+                variant="secondary"
+                loading={splitMutation.isPending}
+                onClick={() => {
+                  const quoteId = processMutation.variables
+                  if (quoteId) splitMutation.mutate(quoteId)
+                }}
+              >
+                Procesar con traslado
+              </Button>
               <Button
                 variant="primary"
                 onClick={() => {
@@ -161,13 +299,76 @@ export function QuotesPage() {
             </div>
           </div>
         </Modal>
-        <div className="mb-4">
+        <Modal isOpen={!!creditHoldQuote} onClose={closeCreditHold} title="Retención de crédito" maxWidth="lg">
+          <div className="space-y-4">
+            <div className="text-slate-900 dark:text-slate-100">{creditHoldMessage}</div>
+            {creditStatusQuery.data && (
+              <div className="grid grid-cols-2 gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <div>Límite de crédito</div>
+                <div className="text-right">{creditStatusQuery.data.creditLimit === null ? 'Sin límite' : creditStatusQuery.data.creditLimit.toFixed(2)}</div>
+                <div>Por cobrar</div>
+                <div className="text-right">{creditStatusQuery.data.openReceivable.toFixed(2)}</div>
+                <div>Órdenes pendientes de entrega</div>
+                <div className="text-right">{creditStatusQuery.data.pendingOrders.toFixed(2)}</div>
+                <div>Esta cotización</div>
+                <div className="text-right">{creditStatusQuery.data.orderAmount.toFixed(2)}</div>
+                <div className="font-medium">Exposición total</div>
+                <div className="text-right font-medium">{creditStatusQuery.data.exposure.toFixed(2)}</div>
+              </div>
+            )}
+            {creditStatusQuery.data && creditStatusQuery.data.overdue.length > 0 && (
+              <div className="text-sm text-red-600 dark:text-red-400">
+                Facturas vencidas: {creditStatusQuery.data.overdue.map((o) => `${o.number} (${o.daysOverdue}d, ${o.balance.toFixed(2)})`).join(', ')}
+              </div>
+            )}
+            {canOverrideCredit ? (
+              <Input
+                label="Motivo de la liberación"
+                value={overrideReason}
+                maxLength={500}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="Ej: Autorizado por gerencia"
+              />
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Solicita a un usuario con permiso de liberación de crédito que procese esta cotización.
+              </p>
+            )}
+            <div className="flex justify-end gap-3">
+              {canOverrideCredit && (
+                <Button
+                  variant="secondary"
+                  loading={overrideMutation.isPending}
+                  disabled={overrideReason.trim().length < 3}
+                  onClick={() => creditHoldQuote && overrideMutation.mutate(creditHoldQuote.id)}
+                >
+                  Liberar y procesar
+                </Button>
+              )}
+              <Button variant="primary" onClick={closeCreditHold}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        </Modal>
+        <div className="mb-4 flex flex-wrap gap-3">
           <Input
             placeholder="Buscar por cliente..."
             value={customerSearch}
             onChange={(e) => setCustomerSearch(e.target.value)}
             className="max-w-sm"
           />
+          <Select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value)
+              setCursor(undefined)
+            }}
+            options={[
+              { value: '', label: 'Todos los estados' },
+              ...Object.entries(STATUS_BADGES).map(([value, b]) => ({ value, label: b.label })),
+            ]}
+          />
         </div>
         <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
           {quotesQuery.data && quotesQuery.data.items.length > 0 && (
@@ -180,18 +381,21 @@ export function QuotesPage() {
                     header: 'Estado',
                     width: '120px',
                     accessor: (q) => (
-                      <Badge variant={q.status === 'PROCESSED' ? 'success' : 'default'}>
-                        {q.status === 'PROCESSED' ? 'PROCESADA' : 'CREADA'}
-                      </Badge>
+                      <Badge variant={STATUS_BADGES[q.status]?.variant ?? 'default'}>{STATUS_BADGES[q.status]?.label ?? q.status}</Badge>
                     ),
                   },
+                  {
+                    header: 'Válida hasta',
+                    width: '120px',
+                    accessor: (q) => (q.status === 'CREATED' || q.status === 'PENDING_APPROVAL' || q.status === 'EXPIRED' ? new Date(q.validUntil).toLocaleDateString() : '-'),
+                  },
                   { header: 'Cotizado por', width: '160px', accessor: (q) => q.quotedBy ?? '-' },
                   { header: 'Productos', width: '130px', accessor: (q) => `${q.itemsCount} productos` },
                   { header: 'Fecha', width: '120px', accessor: (q) => new Date(q.createdAt).toLocaleDateString() },
                   {
                     header: 'Total',
                     width: '130px',
-                    accessor: (q) => `Bs. ${q.total.toLocaleString('es-BO', { minimumFractionDigits: 2 })}`
+                    accessor: (q) => `${q.currency === 'BOB' ? 'Bs.' : q.currency} ${q.total.toLocaleString('es-BO', { minimumFractionDigits: 2 })}`
                   },
                   {
                     header: 'Acciones',
@@ -207,21 +411,43 @@ export function QuotesPage() {
                         >
                           Ver
                         </Button>
-                        {q.status !== 'PROCESSED' && (
+                        {(q.status === 'CREATED' || q.status === 'PENDING_APPROVAL' || q.status === 'EXPIRED') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<PencilIcon className="w-4 h-4" />}
+                            onClick={() => navigate(`/catalog/seller?quoteId=${q.id}`)}
+                          >
+                            Editar
+                          </Button>
+                        )}
+                        {q.status === 'EXPIRED' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            icon={<CurrencyDollarIcon className="w-4 h-4" />}
+                            onClick={() => repriceMutation.mutate(q.id)}
+                            loading={repriceMutation.isPending && repriceMutation.variables === q.id}
+                          >
+                            Re-cotizar
+                          </Button>
+                        )}
+                        {q.status === 'CREATED' && (
                           <>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              icon={<PencilIcon className="w-4 h-4" />}
-                              onClick={() => navigate(`/catalog/seller?quoteId=${q.id}`)}
-                            >
-                              Editar
-                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
                               icon={<ArrowPathIcon className="w-4 h-4" />}
-                              onClick={() => processMutation.mutate(q.id)}
+                              onClick={() =>
+                                processMutation.mutate(q.id, {
+                                  onError: (err: Error) => {
+                                    if (String(err.message ?? '').toLowerCase().startsWith(CREDIT_HOLD_PREFIX)) {
+                                      setCreditHoldMessage(err.message)
+                                      setCreditHoldQuote(q)
+                                    }
+                                  },
+                                })
+                              }
                               loading={processMutation.isPending}
                             >
                               Procesar
@@ -0,0 +1,203 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Button, Table, Loading, ErrorState, EmptyState, Badge, Modal, Input, PaginationCursor } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { useTenant } from '../../providers/TenantProvider'
+import { EyeIcon } from '@heroicons/react/24/outline'
+
+type ReturnReason = { id: string; code: string; name: string; isActive: boolean; version: number }
+
+type SalesReturnListItem = {
+  id: string
+  number: string
+  creditAmount: number
+  note: string | null
+  createdAt: string
+  orderId: string
+  orderNumber: string
+  customerId: string
+  customerName: string
+  reason: { id: string; code: string; name: string }
+  location: { id: string; code: string; warehouse: { id: string; code: string; name: string } }
+}
+
+type ListResponse = { items: SalesReturnListItem[]; nextCursor: string | null }
+
+function money(n: number): string {
+  if (!Number.isFinite(n)) return '0.00'
+  return n.toFixed(2)
+}
+
+async function fetchReturns(token: string, take: number, cursor?: string): Promise<ListResponse> {
+  const params = new URLSearchParams({ take: String(take) })
+  if (cursor) params.append('cursor', cursor)
+  return apiFetch(`/api/v1/sales/returns?${params}`, { token })
+}
+
+async function fetchReasons(token: string): Promise<{ items: ReturnReason[] }> {
+  const params = new URLSearchParams({ includeInactive: 'true' })
+  return apiFetch(`/api/v1/sales/return-reasons?${params}`, { token })
+}
+
+async function createReason(token: string, input: { code: string; name: string }): Promise<ReturnReason> {
+  return apiFetch(`/api/v1/sales/return-reasons`, { method: 'POST', token, body: JSON.stringify(input) })
+}
+
+async function updateReason(token: string, id: string, input: { version: number; isActive: boolean }): Promise<ReturnReason> {
+  return apiFetch(`/api/v1/sales/return-reasons/${encodeURIComponent(id)}`, { method: 'PATCH', token, body: JSON.stringify(input) })
+}
+
+export function ReturnsPage() {
+  const auth = useAuth()
+  const tenant = useTenant()
+  const currency = tenant.branding?.currency || 'BOB'
+  const perms = usePermissions()
+
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+
+  const [cursor, setCursor] = useState<string | undefined>()
+  const [reasonsModalOpen, setReasonsModalOpen] = useState(false)
+  const [reasonCode, setReasonCode] = useState('')
+  const [reasonName, setReasonName] = useState('')
+
+  const canManageReasons = perms.hasPermission('sales:order:write')
+
+  const returnsQuery = useQuery({
+    queryKey: ['salesReturns', cursor],
+    queryFn: () => fetchReturns(auth.accessToken!, 50, cursor),
+    enabled: !!auth.accessToken,
+  })
+
+  const reasonsQuery = useQuery({
+    queryKey: ['salesReturnReasons', 'all'],
+    queryFn: () => fetchReasons(auth.accessToken!),
+    enabled: !!auth.accessToken && reasonsModalOpen,
+  })
+
+  const createReasonMutation = useMutation({
+    mutationFn: () => createReason(auth.accessToken!, { code: reasonCode.trim(), name: reasonName.trim() }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesReturnReasons'] })
+      setReasonCode('')
+      setReasonName('')
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo crear el motivo')
+    },
+  })
+
+  const toggleReasonMutation = useMutation({
+    mutationFn: (r: ReturnReason) => updateReason(auth.accessToken!, r.id, { version: r.version, isActive: !r.isActive }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['salesReturnReasons'] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar el motivo')
+    },
+  })
+
+  const items = returnsQuery.data?.items ?? []
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Devoluciones"
+        actions={
+          canManageReasons ? (
+            <Button variant="secondary" onClick={() => setReasonsModalOpen(true)}>
+              Motivos de devolución
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {returnsQuery.isLoading && <Loading />}
+          {returnsQuery.error && <ErrorState message="Error al cargar devoluciones" retry={returnsQuery.refetch} />}
+          {returnsQuery.data && items.length === 0 && <EmptyState message="No hay devoluciones" />}
+
+          {returnsQuery.data && items.length > 0 && (
+            <>
+              <Table
+                columns={[
+                  { header: 'Nota de crédito', width: '130px', accessor: (r) => r.number },
+                  { header: 'OV', width: '120px', accessor: (r) => r.orderNumber },
+                  { header: 'Cliente', width: '200px', accessor: (r) => r.customerName },
+                  { header: 'Fecha', width: '160px', accessor: (r) => new Date(r.createdAt).toLocaleString() },
+                  { header: 'Motivo', width: '160px', accessor: (r) => r.reason.name },
+                  { header: 'Cuarentena', width: '140px', accessor: (r) => `${r.location.warehouse.code} / ${r.location.code}` },
+                  { header: `Crédito (${currency})`, width: '120px', accessor: (r) => money(r.creditAmount) },
+                  {
+                    header: 'Acciones',
+                    className: 'text-center',
+                    width: '100px',
+                    accessor: (r) => (
+                      <Button variant="ghost" size="sm" icon={<EyeIcon className="w-4 h-4" />} onClick={() => navigate(`/sales/orders/${r.orderId}`)}>
+                        Ver OV
+                      </Button>
+                    ),
+                  },
+                ]}
+                data={items}
+                keyExtractor={(r) => r.id}
+              />
+              <PaginationCursor
+                hasMore={!!returnsQuery.data.nextCursor}
+                onLoadMore={() => setCursor(returnsQuery.data!.nextCursor!)}
+                loading={returnsQuery.isFetching}
+              />
+            </>
+          )}
+        </div>
+
+        <Modal isOpen={reasonsModalOpen} onClose={() => setReasonsModalOpen(false)} title="Motivos de devolución" maxWidth="lg">
+          <div className="space-y-4">
+            {reasonsQuery.isLoading && <Loading />}
+            {reasonsQuery.error && <ErrorState message="Error al cargar motivos" retry={reasonsQuery.refetch} />}
+            {reasonsQuery.data && reasonsQuery.data.items.length === 0 && <EmptyState message="No hay motivos registrados" />}
+            {reasonsQuery.data && reasonsQuery.data.items.length > 0 && (
+              <Table
+                columns={[
+                  { header: 'Código', width: '120px', accessor: (r) => r.code },
+                  { header: 'Nombre', accessor: (r) => r.name },
+                  {
+                    header: 'Estado',
+                    width: '160px',
+                    accessor: (r) => (
+                      <div className="flex items-center gap-2">
+                        <Badge variant={r.isActive ? 'success' : 'default'}>{r.isActive ? 'Activo' : 'Inactivo'}</Badge>
+                        <Button size="sm" variant="ghost" disabled={toggleReasonMutation.isPending} onClick={() => toggleReasonMutation.mutate(r)}>
+                          {r.isActive ? 'Desactivar' : 'Activar'}
+                        </Button>
+                      </div>
+                    ),
+                  },
+                ]}
+                data={reasonsQuery.data.items}
+                keyExtractor={(r) => r.id}
+              />
+            )}
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <Input label="Código" value={reasonCode} maxLength={32} onChange={(e) => setReasonCode(e.target.value)} placeholder="Ej: DANADO" />
+              <Input label="Nombre" value={reasonName} maxLength={200} onChange={(e) => setReasonName(e.target.value)} placeholder="Ej: Producto dañado" />
+              <div className="flex items-end">
+                <Button
+                  loading={createReasonMutation.isPending}
+                  disabled={!reasonCode.trim() || !reasonName.trim()}
+                  onClick={() => createReasonMutation.mutate()}
+                >
+                  Agregar motivo
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
@@ -6,3 +6,10 @@ export { DeliveriesPage } from './DeliveriesPage'
 export { QuotesPage } from './QuotesPage'
 export { QuoteDetailPage } from './QuoteDetailPage'
 export { PaymentsPage } from './PaymentsPage'
+export { ReturnsPage } from './ReturnsPage'
+export { PaymentTermsPage } from './PaymentTermsPage'
+export { InvoicesPage } from './InvoicesPage'
+export { DiscountApprovalsPage } from './DiscountApprovalsPage'
+export { PromotionsPage } from './PromotionsPage'
+export { PriceListsPage } from './PriceListsPage'
+export { ExchangeRatesPage } from './ExchangeRatesPage'
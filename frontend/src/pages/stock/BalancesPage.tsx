@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
 import { apiFetch } from '../../lib/api'
 import { getProductDisplayName, getProductLabel } from '../../lib/productName'
+import { getBatchStatusDisplay } from '../../lib/batchStatus'
 import { useAuth } from '../../providers/AuthProvider'
 import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Select } from '../../components'
 import { useNavigation } from '../../hooks'
@@ -41,13 +42,6 @@ async function fetchBalances(token: string, productId?: string): Promise<{ items
   return apiFetch(`/api/v1/reports/stock/balances-expanded${qs ? `?${qs}` : ''}`, { token })
 }
 
-function getBatchStatusDisplay(status: string): { text: string; color: string } {
-  if (status === 'QUARANTINE') {
-    return { text: 'En cuarentena', color: 'text-orange-600 dark:text-orange-400' }
-  }
-  return { text: 'Liberado', color: 'text-green-600 dark:text-green-400' }
-}
-
 export function BalancesPage() {
   const auth = useAuth()
   const navGroups = useNavigation()
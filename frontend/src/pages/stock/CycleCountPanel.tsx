@@ -0,0 +1,484 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Table, Loading, ErrorState, EmptyState, Button, Modal, Input, Select, Badge, PaginationCursor } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { getProductLabel } from '../../lib/productName'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+
+type AbcClass = 'A' | 'B' | 'C'
+type TaskStatus = 'PENDING' | 'REVIEW' | 'DONE' | 'SKIPPED'
+
+type CycleCountTask = {
+  id: string
+  scheduledFor: string
+  overdue: boolean
+  abcClass: AbcClass
+  status: TaskStatus
+  accurate: boolean | null
+  countedAt: string | null
+  version: number
+  locationId: string
+  productId: string
+  warehouse: { id: string; code: string; name: string }
+  location: { id: string; code: string }
+  product: { sku: string; name: string; genericName: string | null }
+  lines: Array<{
+    id: string
+    batchId: string | null
+    batchNumber: string | null
+    // null without stock:count:approve (blind count)
+    systemQuantity: number | null
+    countedQuantity: number
+    variance: number | null
+    movementId: string | null
+  }>
+  batches?: Array<{ batchId: string | null; batchNumber: string | null; expiresAt: string | null; systemQuantity: number | null }>
+}
+
+type KpiResponse = {
+  items: Array<{
+    month: string
+    scheduled: number
+    skipped: number
+    counted: number
+    accurate: number
+    accuracyPct: number | null
+    unitsAdjusted: number
+    byClass: Record<AbcClass, { counted: number; accurate: number }>
+  }>
+  totals: { counted: number; accurate: number; accuracyPct: number | null; overduePending: number }
+}
+
+type ClassItem = {
+  id: string
+  sku: string
+  name: string
+  genericName: string | null
+  abcClass: AbcClass | null
+  abcClassManual: AbcClass | null
+  effectiveClass: AbcClass
+  intervalDays: number
+  abcSalesValue: number | null
+}
+
+type ProductBatchListItem = { id: string; batchNumber: string; expiresAt: string | null }
+
+async function fetchTasks(token: string): Promise<{ date: string; items: CycleCountTask[] }> {
+  return apiFetch(`/api/v1/stock/cycle-counts/tasks`, { token })
+}
+
+async function fetchKpis(token: string): Promise<KpiResponse> {
+  return apiFetch(`/api/v1/stock/cycle-counts/kpis?months=6`, { token })
+}
+
+async function fetchClasses(token: string, cursor?: string, q?: string): Promise<{ items: ClassItem[]; nextCursor: string | null }> {
+  const params = new URLSearchParams({ take: '50' })
+  if (cursor) params.set('cursor', cursor)
+  if (q) params.set('q', q)
+  return apiFetch(`/api/v1/stock/cycle-counts/classes?${params}`, { token })
+}
+
+async function listProductBatches(token: string, productId: string): Promise<{ items: ProductBatchListItem[] }> {
+  return apiFetch(`/api/v1/products/${productId}/batches?take=100`, { token })
+}
+
+async function postJson(token: string, path: string, body: unknown) {
+  return apiFetch(path, { token, method: 'POST', body: JSON.stringify(body) })
+}
+
+async function setManualClass(token: string, productId: string, manualClass: AbcClass | null) {
+  return apiFetch(`/api/v1/stock/cycle-counts/classes/${productId}`, { token, method: 'PUT', body: JSON.stringify({ manualClass }) })
+}
+
+function classBadge(c: AbcClass) {
+  return <Badge variant={c === 'A' ? 'danger' : c === 'B' ? 'warning' : 'default'}>{c}</Badge>
+}
+
+function statusBadge(t: CycleCountTask) {
+  if (t.status === 'PENDING') return <Badge variant={t.overdue ? 'danger' : 'info'}>{t.overdue ? 'Atrasado' : 'Pendiente'}</Badge>
+  if (t.status === 'REVIEW') return <Badge variant="warning">Con diferencias</Badge>
+  if (t.status === 'DONE') return <Badge variant="success">Contado</Badge>
+  return <Badge variant="default">Omitido</Badge>
+}
+
+function formatQty(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+/** Daily cycle-count tasks (ABC plan) shown on the inventory page. */
+export function CycleCountPanel() {
+  const auth = useAuth()
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canCount = perms.hasPermission('stock:move')
+  const canApprove = perms.hasPermission('stock:count:approve')
+  const canManage = perms.hasPermission('stock:manage')
+
+  const [expanded, setExpanded] = useState(false)
+  const [countingTask, setCountingTask] = useState<CycleCountTask | null>(null)
+  const [counted, setCounted] = useState<Record<string, string>>({})
+  const [extraBatchId, setExtraBatchId] = useState('')
+  const [showClasses, setShowClasses] = useState(false)
+  const [classSearch, setClassSearch] = useState('')
+  const [classCursor, setClassCursor] = useState<string | undefined>()
+
+  const tasksQuery = useQuery({
+    queryKey: ['cycleCountTasks'],
+    queryFn: () => fetchTasks(auth.accessToken!),
+    enabled: !!auth.accessToken,
+  })
+
+  const kpisQuery = useQuery({
+    queryKey: ['cycleCountKpis'],
+    queryFn: () => fetchKpis(auth.accessToken!),
+    enabled: !!auth.accessToken && expanded,
+  })
+
+  const classesQuery = useQuery({
+    queryKey: ['cycleCountClasses', classCursor, classSearch],
+    queryFn: () => fetchClasses(auth.accessToken!, classCursor, classSearch.trim() || undefined),
+    enabled: !!auth.accessToken && showClasses,
+  })
+
+  const batchesQuery = useQuery({
+    queryKey: ['productBatches', countingTask?.productId],
+    queryFn: () => listProductBatches(auth.accessToken!, countingTask!.productId),
+    enabled: !!auth.accessToken && !!countingTask,
+  })
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['cycleCountTasks'] })
+    await queryClient.invalidateQueries({ queryKey: ['cycleCountKpis'] })
+  }
+
+  const onError = (err: Error) => {
+    window.alert(err.message || 'No se pudo completar la acción')
+  }
+
+  const taskActionMutation = useMutation({
+    mutationFn: (input: { task: CycleCountTask; action: 'approve' | 'recount' | 'skip' }) =>
+      postJson(auth.accessToken!, `/api/v1/stock/cycle-counts/tasks/${input.task.id}/${input.action}`, { version: input.task.version }),
+    onSuccess: refresh,
+    onError,
+  })
+
+  const countMutation = useMutation({
+    mutationFn: (input: { task: CycleCountTask; lines: Array<{ batchId: string | null; countedQuantity: number }> }) =>
+      postJson(auth.accessToken!, `/api/v1/stock/cycle-counts/tasks/${input.task.id}/count`, { version: input.task.version, lines: input.lines }),
+    onSuccess: async () => {
+      closeCount()
+      await refresh()
+    },
+    onError,
+  })
+
+  const generateMutation = useMutation({
+    mutationFn: () => postJson(auth.accessToken!, `/api/v1/stock/cycle-counts/generate`, {}),
+    onSuccess: refresh,
+    onError,
+  })
+
+  const classifyMutation = useMutation({
+    mutationFn: () => postJson(auth.accessToken!, `/api/v1/stock/cycle-counts/classify`, {}),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['cycleCountClasses'] })
+    },
+    onError,
+  })
+
+  const classMutation = useMutation({
+    mutationFn: (input: { productId: string; manualClass: AbcClass | null }) => setManualClass(auth.accessToken!, input.productId, input.manualClass),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['cycleCountClasses'] })
+    },
+    onError,
+  })
+
+  const openCount = (task: CycleCountTask) => {
+    setCountingTask(task)
+    setCounted({})
+    setExtraBatchId('')
+  }
+
+  const closeCount = () => {
+    setCountingTask(null)
+    setCounted({})
+    setExtraBatchId('')
+  }
+
+  // Batches expected at the location plus any batch the counter found that isn't on the books.
+  const countRows: Array<{ key: string; batchId: string | null; label: string; systemQuantity: number | null }> = countingTask
+    ? [
+        ...(countingTask.batches ?? []).map((b) => ({
+          key: b.batchId ?? 'none',
+          batchId: b.batchId,
+          label: b.batchNumber ? `${b.batchNumber}${b.expiresAt ? ` (vence ${new Date(b.expiresAt).toLocaleDateString()})` : ''}` : 'Sin lote',
+          systemQuantity: b.systemQuantity,
+        })),
+        ...Object.keys(counted)
+          .filter((k) => !(countingTask.batches ?? []).some((b) => (b.batchId ?? 'none') === k))
+          .map((k) => {
+            const batch = (batchesQuery.data?.items ?? []).find((b) => b.id === k)
+            return { key: k, batchId: k === 'none' ? null : k, label: batch?.batchNumber ?? 'Sin lote', systemQuantity: null }
+          }),
+      ]
+    : []
+
+  const submitCount = () => {
+    if (!countingTask) return
+    const lines = countRows.map((r) => ({ batchId: r.batchId, countedQuantity: Number(counted[r.key] ?? '0') || 0 }))
+    if (lines.length === 0) return
+    countMutation.mutate({ task: countingTask, lines })
+  }
+
+  const tasks = tasksQuery.data?.items ?? []
+  const pending = tasks.filter((t) => t.status === 'PENDING').length
+  const review = tasks.filter((t) => t.status === 'REVIEW').length
+
+  return (
+    <div className="mb-4 rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">🔁 Conteo cíclico del día</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {tasksQuery.isLoading
+              ? 'Cargando…'
+              : `${pending} pendiente(s) · ${review} con diferencias · ${tasks.length} en la lista (A mensual, B trimestral, C anual)`}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {canManage && (
+            <>
+              <Button size="sm" variant="outline" loading={generateMutation.isPending} onClick={() => generateMutation.mutate()}>
+                Generar lista
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowClasses(true)}>
+                Clasificación ABC
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant={expanded ? 'primary' : 'outline'} onClick={() => setExpanded((v) => !v)}>
+            {expanded ? 'Ocultar' : 'Ver tareas'}
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          {tasksQuery.error && <ErrorState message="Error al cargar tareas de conteo" retry={tasksQuery.refetch} />}
+          {tasksQuery.data && tasks.length === 0 && <EmptyState message="No hay tareas de conteo para hoy" />}
+          {tasks.length > 0 && (
+            <Table
+              columns={[
+                { header: 'Clase', width: '60px', accessor: (t) => classBadge(t.abcClass) },
+                { header: 'Sucursal', width: '90px', accessor: (t) => t.warehouse.code },
+                { header: 'Ubicación', width: '100px', accessor: (t) => t.location.code },
+                { header: 'Producto', accessor: (t) => getProductLabel(t.product) },
+                {
+                  header: 'Diferencia',
+                  width: '100px',
+                  className: 'text-right',
+                  accessor: (t) =>
+                    t.lines.length && t.lines.every((l) => l.variance !== null)
+                      ? formatQty(t.lines.reduce((acc, l) => acc + (l.variance ?? 0), 0))
+                      : '-',
+                },
+                { header: 'Estado', width: '130px', accessor: (t) => statusBadge(t) },
+                {
+                  header: 'Acciones',
+                  width: '220px',
+                  accessor: (t) => (
+                    <div className="flex flex-wrap gap-1">
+                      {t.status === 'PENDING' && canCount && (
+                        <Button size="sm" variant="primary" onClick={() => openCount(t)}>
+                          Contar
+                        </Button>
+                      )}
+                      {t.status === 'PENDING' && canManage && (
+                        <Button size="sm" variant="ghost" onClick={() => taskActionMutation.mutate({ task: t, action: 'skip' })}>
+                          Omitir
+                        </Button>
+                      )}
+                      {t.status === 'REVIEW' && canApprove && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="success"
+                            onClick={() => {
+                              if (window.confirm('¿Registrar los ajustes de este conteo?')) taskActionMutation.mutate({ task: t, action: 'approve' })
+                            }}
+                          >
+                            Ajustar
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => taskActionMutation.mutate({ task: t, action: 'recount' })}>
+                            Recontar
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ),
+                },
+              ]}
+              data={tasks}
+              keyExtractor={(t) => t.id}
+            />
+          )}
+
+          <div>
+            <h4 className="mb-2 font-semibold text-slate-900 dark:text-slate-100">Exactitud de conteo (últimos 6 meses)</h4>
+            {kpisQuery.isLoading && <Loading />}
+            {kpisQuery.data && (
+              <>
+                <p className="mb-2 text-sm text-slate-600 dark:text-slate-400">
+                  Exactitud global: {kpisQuery.data.totals.accuracyPct === null ? '-' : `${kpisQuery.data.totals.accuracyPct}%`} ·{' '}
+                  {kpisQuery.data.totals.overduePending} tarea(s) atrasada(s)
+                </p>
+                <Table
+                  columns={[
+                    { header: 'Mes', width: '90px', accessor: (m) => m.month },
+                    { header: 'Programadas', className: 'text-right', accessor: (m) => m.scheduled },
+                    { header: 'Contadas', className: 'text-right', accessor: (m) => m.counted },
+                    { header: 'Exactas', className: 'text-right', accessor: (m) => m.accurate },
+                    { header: 'Exactitud', className: 'text-right', accessor: (m) => (m.accuracyPct === null ? '-' : `${m.accuracyPct}%`) },
+                    {
+                      header: 'A / B / C',
+                      accessor: (m) =>
+                        (['A', 'B', 'C'] as const).map((c) => `${m.byClass[c].accurate}/${m.byClass[c].counted}`).join(' · '),
+                    },
+                    { header: 'Unidades ajustadas', className: 'text-right', accessor: (m) => formatQty(m.unitsAdjusted) },
+                  ]}
+                  data={kpisQuery.data.items}
+                  keyExtractor={(m) => m.month}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!countingTask}
+        onClose={closeCount}
+        title={countingTask ? `Contar ${countingTask.location.code} · ${getProductLabel(countingTask.product)}` : 'Contar'}
+        maxWidth="lg"
+      >
+        {countingTask && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Ingrese lo que encuentra físicamente. Los lotes que deje vacíos se registran como 0.
+            </p>
+            {countRows.map((r) => (
+              <div key={r.key} className="grid grid-cols-3 items-end gap-3">
+                <div className="col-span-2 text-sm text-slate-900 dark:text-slate-100">
+                  {r.label}
+                  {r.systemQuantity !== null && <span className="ml-2 text-slate-500">(sistema: {formatQty(r.systemQuantity)})</span>}
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={counted[r.key] ?? ''}
+                  onChange={(e) => setCounted((prev) => ({ ...prev, [r.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div className="flex items-end gap-3">
+              <Select
+                label="Lote encontrado no listado"
+                value={extraBatchId}
+                onChange={(e) => setExtraBatchId(e.target.value)}
+                options={[
+                  { value: '', label: 'Seleccione…' },
+                  { value: 'none', label: 'Sin lote' },
+                  ...(batchesQuery.data?.items ?? []).map((b) => ({ value: b.id, label: b.batchNumber })),
+                ]}
+              />
+              <Button
+                variant="outline"
+                disabled={!extraBatchId}
+                onClick={() => {
+                  setCounted((prev) => ({ ...prev, [extraBatchId]: prev[extraBatchId] ?? '' }))
+                  setExtraBatchId('')
+                }}
+              >
+                Agregar
+              </Button>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={closeCount}>
+                Cancelar
+              </Button>
+              <Button variant="primary" loading={countMutation.isPending} disabled={countRows.length === 0} onClick={submitCount}>
+                Registrar conteo
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={showClasses} onClose={() => setShowClasses(false)} title="Clasificación ABC" maxWidth="xl">
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1">
+              <Input
+                label="Buscar producto"
+                value={classSearch}
+                onChange={(e) => {
+                  setClassCursor(undefined)
+                  setClassSearch(e.target.value)
+                }}
+              />
+            </div>
+            <Button variant="outline" loading={classifyMutation.isPending} onClick={() => classifyMutation.mutate()}>
+              Recalcular por ventas
+            </Button>
+          </div>
+          {classesQuery.isLoading && <Loading />}
+          {classesQuery.data && (
+            <>
+              <Table
+                columns={[
+                  { header: 'Producto', accessor: (p) => getProductLabel(p) },
+                  {
+                    header: 'Ventas (12m)',
+                    width: '110px',
+                    className: 'text-right',
+                    accessor: (p) => (p.abcSalesValue === null ? '-' : p.abcSalesValue.toFixed(2)),
+                  },
+                  { header: 'Calculada', width: '80px', accessor: (p) => (p.abcClass ? classBadge(p.abcClass) : '-') },
+                  {
+                    header: 'Manual',
+                    width: '120px',
+                    accessor: (p) => (
+                      <Select
+                        value={p.abcClassManual ?? ''}
+                        onChange={(e) =>
+                          classMutation.mutate({ productId: p.id, manualClass: e.target.value ? (e.target.value as AbcClass) : null })
+                        }
+                        options={[
+                          { value: '', label: 'Auto' },
+                          { value: 'A', label: 'A' },
+                          { value: 'B', label: 'B' },
+                          { value: 'C', label: 'C' },
+                        ]}
+                      />
+                    ),
+                  },
+                  { header: 'Cada', width: '90px', accessor: (p) => `${p.intervalDays} días` },
+                ]}
+                data={classesQuery.data.items}
+                keyExtractor={(p) => p.id}
+              />
+              <PaginationCursor
+                hasMore={!!classesQuery.data.nextCursor}
+                onLoadMore={() => setClassCursor(classesQuery.data?.nextCursor ?? undefined)}
+                loading={classesQuery.isFetching}
+              />
+            </>
+          )}
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,504 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Button, Input, Select } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { exportCountSheetToPDF } from '../../lib/countSheetPdf'
+import { getProductDisplayName, getProductLabel } from '../../lib/productName'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { useTenant } from '../../providers/TenantProvider'
+import { CountStatusBadge, type InventoryCountStatus } from './InventoryCountsPage'
+
+type CountLine = {
+  id: string
+  locationId: string
+  productId: string
+  batchId: string | null
+  systemQuantity: number | null
+  countedQuantity: number | null
+  variance: number | null
+  countedAt: string | null
+  note: string | null
+  movementId: string | null
+  location: { code: string }
+  product: { sku: string; name: string; genericName: string | null }
+  batch: { batchNumber: string; expiresAt: string | null } | null
+}
+
+type CountDetail = {
+  id: string
+  number: string
+  warehouseId: string
+  status: InventoryCountStatus
+  blind: boolean
+  freezeMovements: boolean
+  note: string | null
+  version: number
+  createdAt: string
+  submittedAt: string | null
+  approvedAt: string | null
+  cancelledAt: string | null
+  createdByName: string | null
+  submittedByName: string | null
+  approvedByName: string | null
+  systemQuantitiesHidden: boolean
+  warehouse: { id: string; code: string; name: string; city: string | null }
+  locations: Array<{ id: string; code: string }>
+  lines: CountLine[]
+}
+
+type VarianceItem = CountLine & { unitCost: number | null; varianceValue: number | null }
+
+type VarianceReport = {
+  items: VarianceItem[]
+  totals: {
+    lines: number
+    countedLines: number
+    varianceLines: number
+    unitsOver: number
+    unitsShort: number
+    valueOver: number
+    valueShort: number
+    netValue: number
+  }
+}
+
+type ProductListItem = { id: string; sku: string; name: string; genericName?: string | null; isActive: boolean }
+type ProductBatchListItem = { id: string; batchNumber: string; expiresAt: string | null }
+
+type LineEntry = {
+  lineId?: string
+  locationId?: string
+  productId?: string
+  batchId?: string | null
+  countedQuantity: number
+  note?: string
+}
+
+async function fetchCount(token: string, id: string): Promise<CountDetail> {
+  return apiFetch(`/api/v1/stock/counts/${encodeURIComponent(id)}`, { token })
+}
+
+async function fetchVariances(token: string, id: string): Promise<VarianceReport> {
+  return apiFetch(`/api/v1/stock/counts/${encodeURIComponent(id)}/variances`, { token })
+}
+
+async function fetchProducts(token: string): Promise<{ items: ProductListItem[] }> {
+  return apiFetch(`/api/v1/products?take=50`, { token })
+}
+
+async function listProductBatches(token: string, productId: string): Promise<{ items: ProductBatchListItem[] }> {
+  return apiFetch(`/api/v1/products/${productId}/batches?take=100`, { token })
+}
+
+async function saveLines(token: string, id: string, lines: LineEntry[]): Promise<{ items: CountLine[] }> {
+  return apiFetch(`/api/v1/stock/counts/${encodeURIComponent(id)}/lines`, { token, method: 'PUT', body: JSON.stringify({ lines }) })
+}
+
+async function countAction(token: string, id: string, action: 'submit' | 'reopen' | 'approve' | 'cancel', version: number) {
+  return apiFetch(`/api/v1/stock/counts/${encodeURIComponent(id)}/${action}`, { token, method: 'POST', body: JSON.stringify({ version }) })
+}
+
+function formatQty(n: number | null): string {
+  if (n === null) return '-'
+  return Number.isInteger(n) ? String(n) : n.toFixed(2)
+}
+
+function formatMoney(n: number | null): string {
+  return n === null ? '-' : n.toFixed(2)
+}
+
+function varianceCell(v: number | null) {
+  if (v === null) return '-'
+  const cls = v > 0 ? 'text-green-700 dark:text-green-400' : v < 0 ? 'text-red-700 dark:text-red-400' : ''
+  return <span className={cls}>{v > 0 ? `+${formatQty(v)}` : formatQty(v)}</span>
+}
+
+export function InventoryCountDetailPage() {
+  const auth = useAuth()
+  const tenant = useTenant()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const params = useParams<{ id: string }>()
+  const id = params.id ?? ''
+
+  const canCount = perms.hasPermission('stock:move')
+  const canApprove = perms.hasPermission('stock:count:approve')
+  const canManage = perms.hasPermission('stock:manage')
+
+  // Quantities typed but not yet saved, keyed by line id.
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [newLocationId, setNewLocationId] = useState('')
+  const [newProductId, setNewProductId] = useState('')
+  const [newBatchId, setNewBatchId] = useState('')
+  const [newQuantity, setNewQuantity] = useState('')
+
+  const countQuery = useQuery({
+    queryKey: ['inventoryCount', id],
+    queryFn: () => fetchCount(auth.accessToken!, id),
+    enabled: !!auth.accessToken && !!id,
+  })
+
+  const count = countQuery.data
+  const isOpen = count?.status === 'OPEN'
+  const showVariances = !!count && !count.systemQuantitiesHidden && count.status !== 'CANCELLED'
+
+  const variancesQuery = useQuery({
+    queryKey: ['inventoryCountVariances', id, count?.version, count?.status],
+    queryFn: () => fetchVariances(auth.accessToken!, id),
+    enabled: !!auth.accessToken && showVariances,
+  })
+
+  const productsQuery = useQuery({
+    queryKey: ['products', 'forCounts'],
+    queryFn: () => fetchProducts(auth.accessToken!),
+    enabled: !!auth.accessToken && isOpen && canCount,
+  })
+
+  const batchesQuery = useQuery({
+    queryKey: ['productBatches', newProductId],
+    queryFn: () => listProductBatches(auth.accessToken!, newProductId),
+    enabled: !!auth.accessToken && !!newProductId,
+  })
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['inventoryCount', id] })
+    await queryClient.invalidateQueries({ queryKey: ['inventoryCountVariances', id] })
+    await queryClient.invalidateQueries({ queryKey: ['inventoryCounts'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (lines: LineEntry[]) => saveLines(auth.accessToken!, id, lines),
+    onSuccess: async () => {
+      setDrafts({})
+      setNewLocationId('')
+      setNewProductId('')
+      setNewBatchId('')
+      setNewQuantity('')
+      await refresh()
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudieron guardar las cantidades')
+    },
+  })
+
+  const actionMutation = useMutation({
+    mutationFn: (action: 'submit' | 'reopen' | 'approve' | 'cancel') => countAction(auth.accessToken!, id, action, count!.version),
+    onSuccess: refresh,
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo completar la acción')
+    },
+  })
+
+  const pendingEntries: LineEntry[] = Object.entries(drafts)
+    .filter(([, value]) => value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) >= 0)
+    .map(([lineId, value]) => ({ lineId, countedQuantity: Number(value) }))
+
+  const addFoundItem = () => {
+    const quantity = Number(newQuantity)
+    if (!newLocationId || !newProductId || !Number.isFinite(quantity) || quantity < 0) return
+    saveMutation.mutate([
+      ...pendingEntries,
+      { locationId: newLocationId, productId: newProductId, batchId: newBatchId || null, countedQuantity: quantity },
+    ])
+  }
+
+  const runAction = (action: 'submit' | 'reopen' | 'approve' | 'cancel', confirmText: string) => {
+    if (pendingEntries.length > 0) {
+      window.alert('Guarde las cantidades ingresadas antes de continuar')
+      return
+    }
+    if (window.confirm(confirmText)) actionMutation.mutate(action)
+  }
+
+  const exportPdf = () => {
+    if (!count) return
+    exportCountSheetToPDF({
+      number: count.number,
+      status: count.status,
+      warehouse: count.warehouse,
+      locationCodes: count.locations.map((l) => l.code),
+      blind: count.blind,
+      createdAt: count.createdAt,
+      submittedByName: count.submittedByName,
+      submittedAt: count.submittedAt,
+      approvedByName: count.approvedByName,
+      approvedAt: count.approvedAt,
+      lines: count.lines.map((l) => ({
+        locationCode: l.location.code,
+        sku: l.product.sku,
+        productName: getProductDisplayName(l.product),
+        batchNumber: l.batch?.batchNumber ?? null,
+        expiresAt: l.batch?.expiresAt ?? null,
+        systemQuantity: l.systemQuantity,
+        countedQuantity: l.countedQuantity,
+        variance: l.variance,
+      })),
+      tenant,
+    })
+  }
+
+  const uncounted = count ? count.lines.filter((l) => l.countedQuantity === null).length : 0
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title={count ? `Conteo ${count.number}` : 'Conteo físico'}
+        actions={
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={() => navigate('/stock/counts')}>
+              Volver
+            </Button>
+            {count && (
+              <Button variant="outline" onClick={exportPdf}>
+                Hoja de conteo PDF
+              </Button>
+            )}
+          </div>
+        }
+      >
+        {countQuery.isLoading && <Loading />}
+        {countQuery.error && <ErrorState message="Error al cargar el conteo" retry={countQuery.refetch} />}
+
+        {count && (
+          <div className="space-y-6">
+            <div className="grid gap-4 rounded-lg border border-slate-200 bg-white p-4 text-sm dark:border-slate-700 dark:bg-slate-900 md:grid-cols-3">
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Estado</div>
+                <div className="mt-1"><CountStatusBadge status={count.status} /></div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Sucursal</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {count.warehouse.code} - {count.warehouse.name}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Ubicaciones</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">{count.locations.map((l) => l.code).join(', ')}</div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Opciones</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {count.blind ? 'Conteo ciego' : 'Conteo abierto'}
+                  {count.freezeMovements ? ' · movimientos bloqueados' : ''}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Iniciado</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {new Date(count.createdAt).toLocaleString()} {count.createdByName ? `· ${count.createdByName}` : ''}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-500 dark:text-slate-400">Contado / Aprobado</div>
+                <div className="mt-1 text-slate-900 dark:text-slate-100">
+                  {count.submittedByName ?? '-'} / {count.approvedByName ?? '-'}
+                </div>
+              </div>
+              {count.note && (
+                <div className="md:col-span-3">
+                  <div className="text-slate-500 dark:text-slate-400">Nota</div>
+                  <div className="mt-1 text-slate-900 dark:text-slate-100">{count.note}</div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {isOpen && canCount && (
+                <>
+                  <Button
+                    variant="primary"
+                    loading={saveMutation.isPending}
+                    disabled={pendingEntries.length === 0}
+                    onClick={() => saveMutation.mutate(pendingEntries)}
+                  >
+                    Guardar cantidades ({pendingEntries.length})
+                  </Button>
+                  <Button
+                    variant="success"
+                    loading={actionMutation.isPending}
+                    disabled={uncounted > 0}
+                    onClick={() => runAction('submit', '¿Enviar el conteo a revisión?')}
+                  >
+                    Enviar a revisión
+                  </Button>
+                </>
+              )}
+              {count.status === 'SUBMITTED' && canApprove && (
+                <>
+                  <Button
+                    variant="success"
+                    loading={actionMutation.isPending}
+                    onClick={() => runAction('approve', '¿Aprobar el conteo? Se registrará un ajuste por cada diferencia.')}
+                  >
+                    Aprobar y ajustar
+                  </Button>
+                  <Button variant="outline" loading={actionMutation.isPending} onClick={() => runAction('reopen', '¿Reabrir el conteo para recontar?')}>
+                    Reabrir
+                  </Button>
+                </>
+              )}
+              {(count.status === 'OPEN' || count.status === 'SUBMITTED') && canManage && (
+                <Button variant="danger" loading={actionMutation.isPending} onClick={() => runAction('cancel', '¿Anular el conteo? No se registrarán ajustes.')}>
+                  Anular
+                </Button>
+              )}
+              {isOpen && uncounted > 0 && <span className="text-sm text-slate-500 dark:text-slate-400">{uncounted} línea(s) sin contar</span>}
+              {count.systemQuantitiesHidden && (
+                <span className="text-sm text-slate-500 dark:text-slate-400">Conteo ciego: las existencias del sistema se muestran al enviar a revisión.</span>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+              {count.lines.length === 0 && <EmptyState message="El conteo no tiene líneas" />}
+              {count.lines.length > 0 && (
+                <Table
+                  columns={[
+                    { header: 'Ubicación', width: '110px', accessor: (l) => l.location.code },
+                    { header: 'Producto', accessor: (l) => getProductLabel(l.product) },
+                    { header: 'Lote', width: '120px', accessor: (l) => l.batch?.batchNumber ?? '-' },
+                    {
+                      header: 'Vence',
+                      width: '110px',
+                      accessor: (l) => (l.batch?.expiresAt ? new Date(l.batch.expiresAt).toLocaleDateString() : '-'),
+                    },
+                    { header: 'Sistema', width: '90px', className: 'text-right', accessor: (l) => formatQty(l.systemQuantity) },
+                    {
+                      header: 'Contado',
+                      width: '130px',
+                      accessor: (l) =>
+                        isOpen && canCount ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={drafts[l.id] ?? (l.countedQuantity === null ? '' : String(l.countedQuantity))}
+                            onChange={(e) => setDrafts((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                          />
+                        ) : (
+                          formatQty(l.countedQuantity)
+                        ),
+                    },
+                    { header: 'Diferencia', width: '100px', className: 'text-right', accessor: (l) => varianceCell(l.variance) },
+                  ]}
+                  data={count.lines}
+                  keyExtractor={(l) => l.id}
+                />
+              )}
+            </div>
+
+            {isOpen && canCount && (
+              <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                <h3 className="mb-3 text-lg font-semibold text-slate-900 dark:text-slate-100">Agregar producto encontrado</h3>
+                <div className="grid gap-3 md:grid-cols-5">
+                  <Select
+                    label="Ubicación"
+                    value={newLocationId}
+                    onChange={(e) => setNewLocationId(e.target.value)}
+                    options={[{ value: '', label: 'Seleccione…' }, ...count.locations.map((l) => ({ value: l.id, label: l.code }))]}
+                  />
+                  <Select
+                    label="Producto"
+                    value={newProductId}
+                    onChange={(e) => {
+                      setNewProductId(e.target.value)
+                      setNewBatchId('')
+                    }}
+                    options={[
+                      { value: '', label: 'Seleccione…' },
+                      ...(productsQuery.data?.items ?? []).filter((p) => p.isActive).map((p) => ({ value: p.id, label: getProductLabel(p) })),
+                    ]}
+                  />
+                  <Select
+                    label="Lote"
+                    value={newBatchId}
+                    onChange={(e) => setNewBatchId(e.target.value)}
+                    disabled={!newProductId}
+                    options={[
+                      { value: '', label: 'Sin lote' },
+                      ...(batchesQuery.data?.items ?? []).map((b) => ({
+                        value: b.id,
+                        label: b.expiresAt ? `${b.batchNumber} (vence ${new Date(b.expiresAt).toLocaleDateString()})` : b.batchNumber,
+                      })),
+                    ]}
+                  />
+                  <Input label="Cantidad" type="number" min={0} step="any" value={newQuantity} onChange={(e) => setNewQuantity(e.target.value)} />
+                  <div className="flex items-end">
+                    <Button
+                      variant="primary"
+                      loading={saveMutation.isPending}
+                      disabled={!newLocationId || !newProductId || newQuantity.trim() === ''}
+                      onClick={addFoundItem}
+                    >
+                      Agregar
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {showVariances && (
+              <div className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-900">
+                <h3 className="mb-3 text-lg font-semibold text-slate-900 dark:text-slate-100">Diferencias</h3>
+                {variancesQuery.isLoading && <Loading />}
+                {variancesQuery.error && <ErrorState message="Error al cargar diferencias" retry={variancesQuery.refetch} />}
+                {variancesQuery.data && (
+                  <>
+                    <div className="mb-4 grid gap-3 text-sm md:grid-cols-4">
+                      <div>
+                        <div className="text-slate-500 dark:text-slate-400">Líneas contadas</div>
+                        <div className="font-medium text-slate-900 dark:text-slate-100">
+                          {variancesQuery.data.totals.countedLines} / {variancesQuery.data.totals.lines}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-slate-500 dark:text-slate-400">Sobrantes</div>
+                        <div className="font-medium text-green-700 dark:text-green-400">
+                          {formatQty(variancesQuery.data.totals.unitsOver)} u · {formatMoney(variancesQuery.data.totals.valueOver)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-slate-500 dark:text-slate-400">Faltantes</div>
+                        <div className="font-medium text-red-700 dark:text-red-400">
+                          {formatQty(variancesQuery.data.totals.unitsShort)} u · {formatMoney(variancesQuery.data.totals.valueShort)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-slate-500 dark:text-slate-400">Valor neto</div>
+                        <div className="font-medium text-slate-900 dark:text-slate-100">{formatMoney(variancesQuery.data.totals.netValue)}</div>
+                      </div>
+                    </div>
+                    {variancesQuery.data.items.length === 0 ? (
+                      <EmptyState message="Sin diferencias" />
+                    ) : (
+                      <Table
+                        columns={[
+                          { header: 'Ubicación', width: '110px', accessor: (v) => v.location.code },
+                          { header: 'Producto', accessor: (v) => getProductLabel(v.product) },
+                          { header: 'Lote', width: '120px', accessor: (v) => v.batch?.batchNumber ?? '-' },
+                          { header: 'Sistema', width: '90px', className: 'text-right', accessor: (v) => formatQty(v.systemQuantity) },
+                          { header: 'Contado', width: '90px', className: 'text-right', accessor: (v) => formatQty(v.countedQuantity) },
+                          { header: 'Diferencia', width: '100px', className: 'text-right', accessor: (v) => varianceCell(v.variance) },
+                          { header: 'Costo unit.', width: '100px', className: 'text-right', accessor: (v) => formatMoney(v.unitCost) },
+                          { header: 'Valor', width: '100px', className: 'text-right', accessor: (v) => formatMoney(v.varianceValue) },
+                          { header: 'Ajuste', width: '90px', accessor: (v) => (v.movementId ? 'Registrado' : '-') },
+                        ]}
+                        data={variancesQuery.data.items}
+                        keyExtractor={(v) => v.id}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </PageContainer>
+    </MainLayout>
+  )
+}
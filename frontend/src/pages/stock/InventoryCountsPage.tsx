@@ -0,0 +1,254 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, PaginationCursor, Button, Modal, Input, Select, Badge } from '../../components'
+import { apiFetch } from '../../lib/api'
+import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
+import { useAuth } from '../../providers/AuthProvider'
+import { PlusIcon } from '@heroicons/react/24/outline'
+
+export type InventoryCountStatus = 'OPEN' | 'SUBMITTED' | 'APPROVED' | 'CANCELLED'
+
+type InventoryCountListItem = {
+  id: string
+  number: string
+  status: InventoryCountStatus
+  blind: boolean
+  freezeMovements: boolean
+  note: string | null
+  lineCount: number
+  createdAt: string
+  warehouse: { id: string; code: string; name: string; city: string | null }
+  locations: Array<{ id: string; code: string }>
+}
+
+type ListResponse = { items: InventoryCountListItem[]; nextCursor: string | null }
+
+type WarehouseListItem = { id: string; code: string; name: string; isActive: boolean }
+type LocationListItem = { id: string; code: string; isActive: boolean }
+
+async function fetchCounts(token: string, cursor?: string, status?: string): Promise<ListResponse> {
+  const params = new URLSearchParams({ take: '50' })
+  if (cursor) params.set('cursor', cursor)
+  if (status) params.set('status', status)
+  return apiFetch(`/api/v1/stock/counts?${params}`, { token })
+}
+
+async function listWarehouses(token: string): Promise<{ items: WarehouseListItem[] }> {
+  return apiFetch(`/api/v1/warehouses?take=50`, { token })
+}
+
+async function listWarehouseLocations(token: string, warehouseId: string): Promise<{ items: LocationListItem[] }> {
+  return apiFetch(`/api/v1/warehouses/${warehouseId}/locations?take=100`, { token })
+}
+
+async function createCount(
+  token: string,
+  input: { warehouseId: string; locationIds?: string[]; blind: boolean; freezeMovements: boolean; note?: string },
+): Promise<InventoryCountListItem> {
+  return apiFetch(`/api/v1/stock/counts`, { token, method: 'POST', body: JSON.stringify(input) })
+}
+
+export function CountStatusBadge({ status }: { status: InventoryCountStatus }) {
+  if (status === 'OPEN') return <Badge variant="info">En conteo</Badge>
+  if (status === 'SUBMITTED') return <Badge variant="warning">En revisión</Badge>
+  if (status === 'APPROVED') return <Badge variant="success">Aprobado</Badge>
+  return <Badge variant="default">Anulado</Badge>
+}
+
+export function InventoryCountsPage() {
+  const auth = useAuth()
+  const navigate = useNavigate()
+  const navGroups = useNavigation()
+  const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canManage = perms.hasPermission('stock:manage')
+
+  const [cursor, setCursor] = useState<string | undefined>()
+  const [statusFilter, setStatusFilter] = useState('')
+  const [showCreate, setShowCreate] = useState(false)
+  const [warehouseId, setWarehouseId] = useState('')
+  const [locationIds, setLocationIds] = useState<string[]>([])
+  const [blind, setBlind] = useState(false)
+  const [freezeMovements, setFreezeMovements] = useState(false)
+  const [note, setNote] = useState('')
+
+  const countsQuery = useQuery({
+    queryKey: ['inventoryCounts', cursor, statusFilter],
+    queryFn: () => fetchCounts(auth.accessToken!, cursor, statusFilter || undefined),
+    enabled: !!auth.accessToken,
+  })
+
+  const warehousesQuery = useQuery({
+    queryKey: ['warehouses', 'forCounts'],
+    queryFn: () => listWarehouses(auth.accessToken!),
+    enabled: !!auth.accessToken && showCreate,
+  })
+
+  const locationsQuery = useQuery({
+    queryKey: ['warehouseLocations', warehouseId],
+    queryFn: () => listWarehouseLocations(auth.accessToken!, warehouseId),
+    enabled: !!auth.accessToken && !!warehouseId,
+  })
+
+  const closeCreate = () => {
+    setShowCreate(false)
+    setWarehouseId('')
+    setLocationIds([])
+    setBlind(false)
+    setFreezeMovements(false)
+    setNote('')
+  }
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      createCount(auth.accessToken!, {
+        warehouseId,
+        ...(locationIds.length > 0 ? { locationIds } : {}),
+        blind,
+        freezeMovements,
+        ...(note.trim() ? { note: note.trim() } : {}),
+      }),
+    onSuccess: async (created) => {
+      closeCreate()
+      await queryClient.invalidateQueries({ queryKey: ['inventoryCounts'] })
+      navigate(`/stock/counts/${encodeURIComponent(created.id)}`)
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo iniciar el conteo')
+    },
+  })
+
+  const activeLocations = (locationsQuery.data?.items ?? []).filter((l) => l.isActive)
+
+  return (
+    <MainLayout navGroups={navGroups}>
+      <PageContainer
+        title="Conteos físicos"
+        actions={
+          canManage ? (
+            <Button variant="primary" icon={<PlusIcon />} onClick={() => setShowCreate(true)}>
+              Nuevo conteo
+            </Button>
+          ) : undefined
+        }
+      >
+        <div className="mb-4 max-w-xs">
+          <Select
+            label="Estado"
+            value={statusFilter}
+            onChange={(e) => {
+              setCursor(undefined)
+              setStatusFilter(e.target.value)
+            }}
+            options={[
+              { value: '', label: 'Todos' },
+              { value: 'OPEN', label: 'En conteo' },
+              { value: 'SUBMITTED', label: 'En revisión' },
+              { value: 'APPROVED', label: 'Aprobado' },
+              { value: 'CANCELLED', label: 'Anulado' },
+            ]}
+          />
+        </div>
+
+        <div className="rounded-lg border border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-900">
+          {countsQuery.isLoading && <Loading />}
+          {countsQuery.error && <ErrorState message="Error al cargar conteos" retry={countsQuery.refetch} />}
+          {countsQuery.data && countsQuery.data.items.length === 0 && <EmptyState message="No hay conteos físicos" />}
+          {countsQuery.data && countsQuery.data.items.length > 0 && (
+            <>
+              <Table
+                columns={[
+                  { header: 'Número', width: '120px', accessor: (c) => c.number },
+                  { header: 'Sucursal', accessor: (c) => `${c.warehouse.code} - ${c.warehouse.name}` },
+                  { header: 'Ubicaciones', accessor: (c) => c.locations.map((l) => l.code).join(', ') },
+                  { header: 'Líneas', width: '80px', className: 'text-right', accessor: (c) => c.lineCount },
+                  {
+                    header: 'Opciones',
+                    width: '160px',
+                    accessor: (c) => [c.blind ? 'Ciego' : null, c.freezeMovements ? 'Movimientos bloqueados' : null].filter(Boolean).join(' · ') || '-',
+                  },
+                  { header: 'Estado', width: '120px', accessor: (c) => <CountStatusBadge status={c.status} /> },
+                  { header: 'Inicio', width: '120px', accessor: (c) => new Date(c.createdAt).toLocaleDateString() },
+                  {
+                    header: '',
+                    width: '90px',
+                    accessor: (c) => (
+                      <Button size="sm" variant="secondary" onClick={() => navigate(`/stock/counts/${encodeURIComponent(c.id)}`)}>
+                        Abrir
+                      </Button>
+                    ),
+                  },
+                ]}
+                data={countsQuery.data.items}
+                keyExtractor={(c) => c.id}
+              />
+              <PaginationCursor
+                hasMore={!!countsQuery.data.nextCursor}
+                onLoadMore={() => setCursor(countsQuery.data?.nextCursor ?? undefined)}
+                loading={countsQuery.isFetching}
+              />
+            </>
+          )}
+        </div>
+
+        <Modal isOpen={showCreate} onClose={closeCreate} title="Nuevo conteo físico" maxWidth="lg">
+          <div className="space-y-4">
+            <Select
+              label="Sucursal"
+              value={warehouseId}
+              onChange={(e) => {
+                setWarehouseId(e.target.value)
+                setLocationIds([])
+              }}
+              options={[
+                { value: '', label: 'Seleccione…' },
+                ...(warehousesQuery.data?.items ?? []).filter((w) => w.isActive).map((w) => ({ value: w.id, label: `${w.code} - ${w.name}` })),
+              ]}
+            />
+
+            {warehouseId && (
+              <div>
+                <div className="mb-1 text-sm font-medium text-slate-700 dark:text-slate-300">Ubicaciones (sin selección: toda la sucursal)</div>
+                <div className="grid max-h-40 grid-cols-2 gap-1 overflow-y-auto md:grid-cols-3">
+                  {activeLocations.map((l) => (
+                    <label key={l.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={locationIds.includes(l.id)}
+                        onChange={(e) =>
+                          setLocationIds((prev) => (e.target.checked ? [...prev, l.id] : prev.filter((id) => id !== l.id)))
+                        }
+                      />
+                      {l.code}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={blind} onChange={(e) => setBlind(e.target.checked)} />
+              Conteo ciego (los contadores no ven las existencias del sistema)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={freezeMovements} onChange={(e) => setFreezeMovements(e.target.checked)} />
+              Bloquear movimientos en las ubicaciones hasta cerrar el conteo
+            </label>
+            <Input label="Nota" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} />
+
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" onClick={closeCreate}>
+                Cancelar
+              </Button>
+              <Button variant="primary" loading={createMutation.isPending} disabled={!warehouseId} onClick={() => createMutation.mutate()}>
+                Iniciar conteo
+              </Button>
+            </div>
+          </div>
+        </Modal>
+      </PageContainer>
+    </MainLayout>
+  )
+}
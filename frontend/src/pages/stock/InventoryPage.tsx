@@ -3,6 +3,7 @@ import { useMemo, useState } from 'react'
 import { apiFetch } from '../../lib/api'
 import { exportToXlsx } from '../../lib/exportXlsx'
 import { getProductLabel } from '../../lib/productName'
+import { BATCH_STATUS_REASONS, batchStatusTransitions, getBatchStatusDisplay, type BatchStatus } from '../../lib/batchStatus'
 import { useAuth } from '../../providers/AuthProvider'
 import {
   MainLayout,
@@ -17,8 +18,10 @@ import {
   Select,
 } from '../../components'
 import { useNavigation } from '../../hooks'
+import { usePermissions } from '../../hooks/usePermissions'
 import type { ExpiryStatus } from '../../components/common/ExpiryBadge'
 import { ArrowPathIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline'
+import { CycleCountPanel } from './CycleCountPanel'
 
 type BalanceExpandedItem = {
   id: string
@@ -165,13 +168,12 @@ async function updateBatchStatus(
   token: string,
   productId: string,
   batchId: string,
-  status: string,
-  version: number,
-): Promise<any> {
+  input: { status: BatchStatus; reasonCode: string; note?: string; version: number },
+): Promise<{ status: BatchStatus; reservedQuantity: string }> {
   return apiFetch(`/api/v1/products/${productId}/batches/${batchId}/status`, {
     token,
     method: 'PATCH',
-    body: JSON.stringify({ status, version }),
+    body: JSON.stringify(input),
   })
 }
 
@@ -217,11 +219,13 @@ function getExpiryColors(status: ExpiryStatus): { bg: string; border: string; te
   }
 }
 
-function getBatchStatusDisplay(status: string): { text: string; color: string } {
-  if (status === 'QUARANTINE') {
-    return { text: 'En cuarentena', color: 'text-orange-600 dark:text-orange-400' }
-  }
-  return { text: 'Liberado', color: 'text-green-600 dark:text-green-400' }
+type StatusChangeItem = {
+  productId: string
+  productName: string
+  batchId: string
+  batchNumber: string
+  currentStatus: string
+  version: number
 }
 
 function formatPresentation(p: {
@@ -289,6 +293,8 @@ export function InventoryPage() {
   const auth = useAuth()
   const navGroups = useNavigation()
   const queryClient = useQueryClient()
+  const perms = usePermissions()
+  const canQa = perms.hasPermission('stock:qa:release')
 
   const [groupBy, setGroupBy] = useState<'product' | 'warehouse'>('product')
   const [expandedProduct, setExpandedProduct] = useState<string | null>(null)
@@ -309,15 +315,24 @@ export function InventoryPage() {
   const [moveToLocationId, setMoveToLocationId] = useState('')
   const [moveError, setMoveError] = useState('')
 
-  const [statusChangeItem, setStatusChangeItem] = useState<{
-    productId: string
-    productName: string
-    batchId: string
-    batchNumber: string
-    currentStatus: string
-    version: number
-  } | null>(null)
-  const [newStatus, setNewStatus] = useState('RELEASED')
+  const [statusChangeItem, setStatusChangeItem] = useState<StatusChangeItem | null>(null)
+  const [newStatus, setNewStatus] = useState<BatchStatus | ''>('')
+  const [statusReasonCode, setStatusReasonCode] = useState('')
+  const [statusNote, setStatusNote] = useState('')
+
+  const openStatusChange = (item: StatusChangeItem) => {
+    setStatusChangeItem(item)
+    setNewStatus(batchStatusTransitions(item.currentStatus)[0] ?? '')
+    setStatusReasonCode('')
+    setStatusNote('')
+  }
+
+  const closeStatusChange = () => {
+    setStatusChangeItem(null)
+    setNewStatus('')
+    setStatusReasonCode('')
+    setStatusNote('')
+  }
 
   const [reservationsModalOpen, setReservationsModalOpen] = useState(false)
   const [selectedReservations, setSelectedReservations] = useState<ReservationItem[]>([])
@@ -391,20 +406,26 @@ export function InventoryPage() {
     mutationFn: async () => {
       if (!statusChangeItem) throw new Error('Seleccioná un lote para cambiar estado')
 
-      return updateBatchStatus(
-        auth.accessToken!,
-        statusChangeItem.productId,
-        statusChangeItem.batchId,
-        newStatus,
-        statusChangeItem.version,
-      )
+      if (!newStatus) throw new Error('Seleccioná el nuevo estado')
+      if (!statusReasonCode) throw new Error('Seleccioná el motivo')
+
+      return updateBatchStatus(auth.accessToken!, statusChangeItem.productId, statusChangeItem.batchId, {
+        status: newStatus,
+        reasonCode: statusReasonCode,
+        ...(statusNote.trim() ? { note: statusNote.trim() } : {}),
+        version: statusChangeItem.version,
+      })
     },
-    onSuccess: async () => {
+    onSuccess: async (result) => {
       await balancesQuery.refetch()
       queryClient.invalidateQueries({ queryKey: ['balances'] })
-      setStatusChangeItem(null)
-      setNewStatus('RELEASED')
-      alert('Estado del lote actualizado')
+      closeStatusChange()
+      const reserved = Number(result.reservedQuantity)
+      alert(
+        result.status !== 'RELEASED' && reserved > 0
+          ? `Estado del lote actualizado. Atención: ${reserved} u reservadas para pedidos no podrán despacharse desde este lote.`
+          : 'Estado del lote actualizado',
+      )
     },
     onError: (err: any) => {
       alert(err instanceof Error ? err.message : 'Error al cambiar estado')
@@ -637,6 +658,7 @@ export function InventoryPage() {
             Exportar Excel
           </Button>
         </div>
+        <CycleCountPanel />
         <div className="space-y-4">
           {balancesQuery.isLoading && <Loading />}
           {balancesQuery.error && (
@@ -803,24 +825,25 @@ export function InventoryPage() {
                                     >
                                       Mover
                                     </Button>
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      icon={<ArrowPathIcon className="w-4 h-4" />}
-                                      onClick={() => {
-                                        setStatusChangeItem({
-                                          productId: pg.productId,
-                                          productName: formatProductTitle(pg),
-                                          batchId: b.batchId!,
-                                          batchNumber: b.batchNumber,
-                                          currentStatus: b.status,
-                                          version: b.version,
-                                        })
-                                        setNewStatus(b.status === 'QUARANTINE' ? 'RELEASED' : 'QUARANTINE')
-                                      }}
-                                    >
-                                      Estado
-                                    </Button>
+                                    {canQa && b.batchId && batchStatusTransitions(b.status).length > 0 && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        icon={<ArrowPathIcon className="w-4 h-4" />}
+                                        onClick={() =>
+                                          openStatusChange({
+                                            productId: pg.productId,
+                                            productName: formatProductTitle(pg),
+                                            batchId: b.batchId!,
+                                            batchNumber: b.batchNumber,
+                                            currentStatus: b.status,
+                                            version: b.version,
+                                          })
+                                        }
+                                      >
+                                        Estado
+                                      </Button>
+                                    )}
                                   </div>
                                 ),
                               },
@@ -976,24 +999,25 @@ export function InventoryPage() {
                                     >
                                       Mover
                                     </Button>
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      icon={<ArrowPathIcon className="w-4 h-4" />}
-                                      onClick={() => {
-                                        setStatusChangeItem({
-                                          productId: prod.productId,
-                                          productName: formatProductTitle(prod),
-                                          batchId: b.batchId!,
-                                          batchNumber: b.batchNumber,
-                                          currentStatus: b.status,
-                                          version: b.version,
-                                        })
-                                        setNewStatus(b.status === 'QUARANTINE' ? 'RELEASED' : 'QUARANTINE')
-                                      }}
-                                    >
-                                      Estado
-                                    </Button>
+                                    {canQa && b.batchId && batchStatusTransitions(b.status).length > 0 && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        icon={<ArrowPathIcon className="w-4 h-4" />}
+                                        onClick={() =>
+                                          openStatusChange({
+                                            productId: prod.productId,
+                                            productName: formatProductTitle(prod),
+                                            batchId: b.batchId!,
+                                            batchNumber: b.batchNumber,
+                                            currentStatus: b.status,
+                                            version: b.version,
+                                          })
+                                        }
+                                      >
+                                        Estado
+                                      </Button>
+                                    )}
                                   </div>
                                 ),
                               },
@@ -1113,10 +1137,7 @@ export function InventoryPage() {
       {/* Modal Cambiar Estado */}
       <Modal
         isOpen={!!statusChangeItem}
-        onClose={() => {
-          setStatusChangeItem(null)
-          setNewStatus('RELEASED')
-        }}
+        onClose={closeStatusChange}
         title="Cambiar Estado del Lote"
       >
         {statusChangeItem && (
@@ -1144,28 +1165,51 @@ export function InventoryPage() {
             <Select
               label="🔒 Nuevo estado"
               value={newStatus}
-              onChange={(e) => setNewStatus(e.target.value)}
+              onChange={(e) => {
+                setNewStatus(e.target.value as BatchStatus)
+                setStatusReasonCode('')
+              }}
+              options={batchStatusTransitions(statusChangeItem.currentStatus).map((s) => ({
+                value: s,
+                label: getBatchStatusDisplay(s).text,
+              }))}
+              disabled={statusChangeMutation.isPending}
+            />
+
+            <Select
+              label="📝 Motivo"
+              value={statusReasonCode}
+              onChange={(e) => setStatusReasonCode(e.target.value)}
               options={[
-                { value: 'RELEASED', label: '✅ Liberado' },
-                { value: 'QUARANTINE', label: '🚫 En cuarentena' },
+                { value: '', label: 'Seleccioná un motivo' },
+                ...(newStatus ? BATCH_STATUS_REASONS[newStatus] : []).map((r) => ({ value: r.code, label: r.label })),
               ]}
               disabled={statusChangeMutation.isPending}
             />
 
+            <Input
+              label={statusReasonCode === 'OTHER' ? 'Detalle (obligatorio)' : 'Detalle'}
+              value={statusNote}
+              maxLength={500}
+              onChange={(e) => setStatusNote(e.target.value)}
+              disabled={statusChangeMutation.isPending}
+            />
+
+            {newStatus && newStatus !== 'RELEASED' && (
+              <div className="text-sm text-amber-700 dark:text-amber-400">
+                Mientras el lote no esté liberado no se podrá reservar, despachar ni trasladar (salvo a una ubicación de cuarentena).
+              </div>
+            )}
+
             <div className="flex justify-end gap-2">
-              <Button
-                variant="secondary"
-                onClick={() => {
-                  setStatusChangeItem(null)
-                  setNewStatus('RELEASED')
-                }}
-                disabled={statusChangeMutation.isPending}
-              >
+              <Button variant="secondary" onClick={closeStatusChange} disabled={statusChangeMutation.isPending}>
                 ❌ Cancelar
               </Button>
               <Button
                 onClick={() => statusChangeMutation.mutate()}
-                disabled={statusChangeMutation.isPending || newStatus === statusChangeItem.currentStatus}
+                disabled={
+                  statusChangeMutation.isPending || !newStatus || !statusReasonCode || (statusReasonCode === 'OTHER' && !statusNote.trim())
+                }
               >
                 {statusChangeMutation.isPending ? '⏳ Cambiando...' : '✅ Cambiar Estado'}
               </Button>
@@ -99,7 +99,7 @@ async function createBatch(
     batchNumber?: string
     expiresAt?: string
     manufacturingDate?: string
-    status: string
+    status?: string
     initialStock?: { warehouseId: string; quantity: number; note?: string }
   },
 ): Promise<any> {
@@ -207,7 +207,7 @@ export function MovementsPage() {
       batchNumber?: string
       expiresAt?: string
       manufacturingDate?: string
-      status: string
+      status?: string
       initialStock?: { warehouseId: string; quantity: number; note?: string }
     }) => createBatch(auth.accessToken!, productId, data),
     onSuccess: () => {
@@ -362,8 +362,8 @@ export function MovementsPage() {
       return
     }
 
+    // The new batch starts in QUARANTINE until QA releases it.
     const payload: any = {
-      status: 'RELEASED',
       expiresAt: dateOnlyToUtcIso(expirationDate),
       manufacturingDate: dateOnlyToUtcIso(manufacturingDate),
       initialStock: {
@@ -2,3 +2,5 @@ export { BalancesPage } from './BalancesPage'
 export { MovementsPage } from './MovementsPage'
 export { ExpiryPage } from './ExpiryPage'
 export { InventoryPage } from './InventoryPage'
+export { InventoryCountsPage } from './InventoryCountsPage'
+export { InventoryCountDetailPage } from './InventoryCountDetailPage'
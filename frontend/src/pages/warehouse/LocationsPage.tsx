@@ -11,6 +11,7 @@ type LocationListItem = {
   warehouseId: string
   code: string
   type: string
+  isQuarantine: boolean
   isActive: boolean
   version: number
   updatedAt: string
@@ -34,6 +35,7 @@ export function LocationsPage() {
   const [showCreate, setShowCreate] = useState(false)
   const [createCode, setCreateCode] = useState('')
   const [createType, setCreateType] = useState<'BIN' | 'SHELF' | 'FLOOR'>('BIN')
+  const [createQuarantine, setCreateQuarantine] = useState(false)
   const queryClient = useQueryClient()
 
   const locationsQuery = useQuery({
@@ -43,7 +45,7 @@ export function LocationsPage() {
   })
 
   const createLocationMutation = useMutation({
-    mutationFn: async (data: { code: string; type: 'BIN' | 'SHELF' | 'FLOOR' }) => {
+    mutationFn: async (data: { code: string; type: 'BIN' | 'SHELF' | 'FLOOR'; isQuarantine: boolean }) => {
       return apiFetch(`/api/v1/warehouses/${warehouseId}/locations`, {
         method: 'POST',
         token: auth.accessToken!,
@@ -55,12 +57,29 @@ export function LocationsPage() {
       setShowCreate(false)
       setCreateCode('')
       setCreateType('BIN')
+      setCreateQuarantine(false)
+    },
+  })
+
+  const toggleQuarantineMutation = useMutation({
+    mutationFn: async (location: LocationListItem) => {
+      return apiFetch(`/api/v1/warehouses/${warehouseId}/locations/${location.id}`, {
+        method: 'PATCH',
+        token: auth.accessToken!,
+        body: JSON.stringify({ isQuarantine: !location.isQuarantine }),
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations', warehouseId] })
+    },
+    onError: (err: Error) => {
+      window.alert(err.message || 'No se pudo actualizar la ubicación')
     },
   })
 
   const handleCreateLocation = () => {
     if (!createCode.trim()) return
-    createLocationMutation.mutate({ code: createCode.trim(), type: createType })
+    createLocationMutation.mutate({ code: createCode.trim(), type: createType, isQuarantine: createQuarantine })
   }
 
   const handleLoadMore = () => {
@@ -101,6 +120,19 @@ export function LocationsPage() {
                 columns={[
                   { header: 'Código', accessor: (l) => l.code },
                   { header: 'Tipo', accessor: (l) => l.type },
+                  {
+                    header: 'Cuarentena',
+                    accessor: (l) => (
+                      <Button
+                        size="sm"
+                        variant={l.isQuarantine ? 'secondary' : 'ghost'}
+                        disabled={toggleQuarantineMutation.isPending}
+                        onClick={() => toggleQuarantineMutation.mutate(l)}
+                      >
+                        {l.isQuarantine ? '🔒 Sí' : 'No'}
+                      </Button>
+                    ),
+                  },
                   {
                     header: 'Estado',
                     accessor: (l) => (
@@ -147,6 +179,10 @@ export function LocationsPage() {
                 { value: 'FLOOR', label: 'FLOOR (Piso)' },
               ]}
             />
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={createQuarantine} onChange={(e) => setCreateQuarantine(e.target.checked)} />
+              Ubicación de cuarentena (recibe devoluciones, no se usa para reservas)
+            </label>
             {createLocationMutation.error && (
               <div className="text-sm text-red-600 dark:text-red-400">
                 Error: {createLocationMutation.error instanceof Error ? createLocationMutation.error.message : 'Error desconocido'}
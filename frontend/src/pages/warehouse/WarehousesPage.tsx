@@ -9,7 +9,16 @@ import { MainLayout, PageContainer, Table, Loading, ErrorState, EmptyState, Pagi
 import { useNavigation } from '../../hooks'
 import { PencilIcon, ArrowPathIcon, MapPinIcon, PlusIcon } from '@heroicons/react/24/outline'
 
-type WarehouseListItem = { id: string; code: string; name: string; city?: string | null; isActive: boolean; totalQuantity: string }
+type WarehouseListItem = {
+  id: string
+  code: string
+  name: string
+  city?: string | null
+  // Days a transfer from this branch takes to reach another city.
+  transferLeadDays: number
+  isActive: boolean
+  totalQuantity: string
+}
 type ListResponse = { items: WarehouseListItem[]; nextCursor: string | null }
 
 type WarehouseStockRow = {
@@ -73,6 +82,7 @@ export function WarehousesPage() {
   const [editingWarehouse, setEditingWarehouse] = useState<WarehouseListItem | null>(null)
   const [editName, setEditName] = useState('')
   const [editCity, setEditCity] = useState('')
+  const [editLeadDays, setEditLeadDays] = useState('2')
   const [editIsActive, setEditIsActive] = useState(true)
   const [showCreate, setShowCreate] = useState(false)
   const [createCode, setCreateCode] = useState('')
@@ -113,11 +123,23 @@ export function WarehousesPage() {
   )
 
   const updateWarehouseMutation = useMutation({
-    mutationFn: async ({ id, name, city, isActive }: { id: string; name: string; city: string; isActive: boolean }) => {
+    mutationFn: async ({
+      id,
+      name,
+      city,
+      transferLeadDays,
+      isActive,
+    }: {
+      id: string
+      name: string
+      city: string
+      transferLeadDays: number
+      isActive: boolean
+    }) => {
       return apiFetch(`/api/v1/warehouses/${id}`, {
         token: auth.accessToken!,
         method: 'PATCH',
-        body: JSON.stringify({ name, city, isActive }),
+        body: JSON.stringify({ name, city, transferLeadDays, isActive }),
       })
     },
     onSuccess: () => {
@@ -187,12 +209,19 @@ export function WarehousesPage() {
     setEditingWarehouse(warehouse)
     setEditName(warehouse.name)
     setEditCity((warehouse.city ?? '').toString())
+    setEditLeadDays(String(warehouse.transferLeadDays ?? 2))
     setEditIsActive(warehouse.isActive)
   }
 
   const handleSaveEdit = () => {
     if (editingWarehouse && editName.trim() && editCity.trim()) {
-      updateWarehouseMutation.mutate({ id: editingWarehouse.id, name: editName.trim(), city: editCity.trim(), isActive: editIsActive })
+      updateWarehouseMutation.mutate({
+        id: editingWarehouse.id,
+        name: editName.trim(),
+        city: editCity.trim(),
+        transferLeadDays: Math.max(0, Math.trunc(Number(editLeadDays) || 0)),
+        isActive: editIsActive,
+      })
     }
   }
 
@@ -379,6 +408,16 @@ export function WarehousesPage() {
             />
           </div>
 
+          <Input
+            label="Días de traslado a otras ciudades"
+            type="number"
+            min={0}
+            max={60}
+            value={editLeadDays}
+            onChange={(e) => setEditLeadDays(e.target.value)}
+            disabled={updateWarehouseMutation.isPending}
+          />
+
           <div className="flex items-center gap-2">
             <input
               type="checkbox"
@@ -1,4 +1,6 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react'
+import { useCustomerPrices, type CustomerPriceList } from '../hooks/useCustomerPrices'
+import { useExchangeRates } from '../hooks/useExchangeRates'
 
 export type CartItem = {
   id: string
@@ -8,12 +10,25 @@ export type CartItem = {
   quantity: number
   discountPct?: number
   photoUrl: string | null
+  // Product list price when added from the catalog. While set, the item follows the selected customer's
+  // price list; a manual price (updatePrice) or a price loaded from a saved quote is kept as is.
+  // Catalog prices are in the tenant currency and are converted to the cart currency.
+  catalogPrice?: number
 }
 
 type CartContextType = {
   items: CartItem[]
   itemCount: number
   total: number
+  customerId: string
+  setCustomerId: (customerId: string) => void
+  // Active price list of the selected customer, if any.
+  priceList: CustomerPriceList | null
+  // Quote currency; '' is the tenant currency.
+  currency: string
+  setCurrency: (currency: string) => void
+  // Today's rate of the cart currency (tenant currency units per unit); 1 for the tenant currency.
+  exchangeRate: number
   addItem: (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => void
   removeItem: (productId: string) => void
   updateQuantity: (productId: string, quantity: number) => void
@@ -25,9 +40,11 @@ type CartContextType = {
 const CartContext = createContext<CartContextType | null>(null)
 
 const CART_STORAGE_KEY = 'farmasnt_cart'
+const CART_CUSTOMER_STORAGE_KEY = 'farmasnt_cart_customer'
+const CART_CURRENCY_STORAGE_KEY = 'farmasnt_cart_currency'
 
 export function CartProvider({ children }: { children: ReactNode }) {
-  const [items, setItems] = useState<CartItem[]>(() => {
+  const [storedItems, setItems] = useState<CartItem[]>(() => {
     // Load cart from localStorage on init
     try {
       const stored = localStorage.getItem(CART_STORAGE_KEY)
@@ -37,14 +54,58 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   })
 
+  const [customerId, setCustomerId] = useState<string>(() => {
+    try {
+      return localStorage.getItem(CART_CUSTOMER_STORAGE_KEY) ?? ''
+    } catch {
+      return ''
+    }
+  })
+
+  const [currency, setCurrency] = useState<string>(() => {
+    try {
+      return localStorage.getItem(CART_CURRENCY_STORAGE_KEY) ?? ''
+    } catch {
+      return ''
+    }
+  })
+
   // Save cart to localStorage whenever it changes
   useEffect(() => {
     try {
-      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items))
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(storedItems))
     } catch (error) {
       console.error('Error saving cart to localStorage:', error)
     }
-  }, [items])
+  }, [storedItems])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(CART_CUSTOMER_STORAGE_KEY, customerId)
+    } catch (error) {
+      console.error('Error saving cart customer to localStorage:', error)
+    }
+  }, [customerId])
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(CART_CURRENCY_STORAGE_KEY, currency)
+    } catch (error) {
+      console.error('Error saving cart currency to localStorage:', error)
+    }
+  }, [currency])
+
+  const { priceList, prices } = useCustomerPrices(
+    customerId,
+    storedItems.filter((i) => i.catalogPrice !== undefined).map((i) => i.id),
+  )
+  const { baseCurrency, rates } = useExchangeRates()
+  const exchangeRate = currency && currency !== baseCurrency ? rates.get(currency) ?? 1 : 1
+  const items = storedItems.map((item) =>
+    item.catalogPrice !== undefined
+      ? { ...item, price: (prices.get(item.id) ?? item.catalogPrice) / exchangeRate }
+      : item,
+  )
 
   const addItem = (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => {
     setItems(prev => {
@@ -99,7 +160,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       const updated = [...prev]
       const index = updated.findIndex(i => i.id === productId)
       if (index >= 0) {
-        updated[index] = { ...updated[index], price: nextPrice }
+        updated[index] = { ...updated[index], price: nextPrice, catalogPrice: undefined }
       }
       return updated
     })
@@ -133,6 +194,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
         items,
         itemCount,
         total,
+        customerId,
+        setCustomerId,
+        priceList,
+        currency,
+        setCurrency,
+        exchangeRate,
         addItem,
         removeItem,
         updateQuantity,
@@ -24,6 +24,64 @@ type NotificationsContextType = {
   notify: (n: Omit<AppNotification, 'id' | 'createdAt'>) => void
 }
 
+type PaymentOverduePayload = {
+  id: string
+  number: string
+  customerId: string
+  customerName: string
+  dueAt: string
+  daysOverdue: number
+  currency: string
+  balance: number
+  level: number
+  escalated: boolean
+  sellerUserId: string | null
+  recipientUserIds: string[]
+  reminderId: string
+}
+
+type QuoteExpiredPayload = {
+  id: string
+  number: string
+  customerId: string
+  customerName: string
+  validUntil: string
+  sellerUserId: string | null
+}
+
+type QuoteApprovalRequestedPayload = {
+  approvalId: string
+  quoteId: string
+  quoteNumber: string
+  revision: number
+  customerName: string
+  requestedBy: string
+  requestedByName: string | null
+  violations: { kind: 'LINE' | 'GLOBAL'; productId?: string; discountPct: number; limitPct: number }[]
+  recipientUserIds: string[]
+}
+
+type QuoteApprovalDecidedPayload = {
+  approvalId: string
+  quoteId: string
+  quoteNumber: string
+  customerName: string
+  decision: 'APPROVED' | 'REJECTED'
+  comment: string | null
+  decidedBy: string | null
+  requesterUserId: string
+}
+
+type PaymentReceivedPayload = {
+  id: string
+  number: string
+  paymentId: string
+  receiptNumber: string
+  currency: string
+  amount: number
+  balance: number
+}
+
 const NotificationsContext = createContext<NotificationsContextType | null>(null)
 
 export function NotificationsProvider({ children }: { children: ReactNode }) {
@@ -140,6 +198,101 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
       })
     }
 
+    const onPaymentOverdue = (payload: PaymentOverduePayload) => {
+      const recipients = payload.recipientUserIds ?? []
+      const meUserId = perms.user?.id ? String(perms.user.id) : null
+      // Sent to the recipients' own rooms; the check also covers a shared browser after a user switch.
+      if (!meUserId || !recipients.includes(meUserId)) return
+
+      const orderNumber = payload.number || null
+      const orderId = payload.id || null
+      const customerName = payload.customerName || null
+      const daysOverdue = Number(payload.daysOverdue)
+      const balance = Number(payload.balance)
+      const level = Number(payload.level)
+
+      queryClient.invalidateQueries({ queryKey: ['payments'] })
+
+      push({
+        kind: level > 1 ? 'error' : 'warning',
+        title: level > 1 ? `🚨 Pago vencido — escalamiento nivel ${level}` : '⏰ Pago vencido',
+        body: [
+          orderNumber ? `Orden: ${orderNumber}` : null,
+          customerName,
+          Number.isFinite(daysOverdue) ? `${daysOverdue} día(s) de mora` : null,
+          Number.isFinite(balance) ? `Saldo: ${balance.toFixed(2)}` : null,
+        ]
+          .filter(Boolean)
+          .join(' • '),
+        linkTo: orderId ? `/sales/orders/${encodeURIComponent(orderId)}` : '/sales/payments',
+      })
+    }
+
+    const onQuoteExpired = (payload: QuoteExpiredPayload) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      // Only the seller who quoted is alerted.
+      const meUserId = perms.user?.id ? String(perms.user.id) : null
+      if (!meUserId || payload.sellerUserId !== meUserId) return
+
+      const quoteNumber = payload.number || null
+      const quoteId = payload.id || null
+      const customerName = payload.customerName || null
+
+      push({
+        kind: 'warning',
+        title: '⌛ Cotización vencida',
+        body: [quoteNumber ? `Cotización: ${quoteNumber}` : null, customerName, 'Re-cotícela para poder procesarla']
+          .filter(Boolean)
+          .join(' • '),
+        linkTo: quoteId ? `/sales/quotes/${encodeURIComponent(quoteId)}` : '/sales/quotes',
+      })
+    }
+
+    const onQuoteApprovalRequested = (payload: QuoteApprovalRequestedPayload) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quoteApprovals'] })
+      const meUserId = perms.user?.id ? String(perms.user.id) : null
+      const recipients = payload.recipientUserIds ?? []
+      if (!meUserId || !recipients.includes(meUserId)) return
+
+      const quoteNumber = payload.quoteNumber || null
+      const quoteId = payload.quoteId || null
+      const customerName = payload.customerName || null
+      const requestedByName = payload.requestedByName || null
+
+      push({
+        kind: 'warning',
+        title: '✋ Descuento por aprobar',
+        body: [quoteNumber ? `Cotización: ${quoteNumber}` : null, customerName, requestedByName ? `Solicita: ${requestedByName}` : null]
+          .filter(Boolean)
+          .join(' • '),
+        linkTo: quoteId ? `/sales/quotes/${encodeURIComponent(quoteId)}` : '/sales/discount-approvals',
+      })
+    }
+
+    const onQuoteApprovalDecided = (payload: QuoteApprovalDecidedPayload) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      queryClient.invalidateQueries({ queryKey: ['quote'] })
+      queryClient.invalidateQueries({ queryKey: ['quoteApprovals'] })
+      // Only the seller who requested the approval is alerted.
+      const meUserId = perms.user?.id ? String(perms.user.id) : null
+      if (!meUserId || payload.requesterUserId !== meUserId) return
+
+      const approved = payload.decision === 'APPROVED'
+      const quoteNumber = payload.quoteNumber || null
+      const quoteId = payload.quoteId || null
+      const comment = payload.comment || null
+
+      push({
+        kind: approved ? 'success' : 'error',
+        title: approved ? '✅ Descuento aprobado' : '❌ Descuento rechazado',
+        body: [quoteNumber ? `Cotización: ${quoteNumber}` : null, payload.decidedBy ? `Por: ${payload.decidedBy}` : null, comment]
+          .filter(Boolean)
+          .join(' • '),
+        linkTo: quoteId ? `/sales/quotes/${encodeURIComponent(quoteId)}` : '/sales/quotes',
+      })
+    }
+
     const onOrderPaid = (payload: any) => {
       console.log('Notification: Order paid', payload)
       const orderNumber = payload?.number ? String(payload.number) : null
@@ -157,6 +310,23 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
       })
     }
 
+    const onPaymentReceived = (payload: PaymentReceivedPayload) => {
+      const orderNumber = payload.number || null
+      const balance = Number(payload.balance)
+
+      queryClient.invalidateQueries({ queryKey: ['payments'] })
+
+      // Settling payments are announced by sales.order.paid
+      if (!Number.isFinite(balance) || balance <= 0) return
+
+      push({
+        kind: 'info',
+        title: '💵 Pago parcial recibido',
+        body: orderNumber ? `Orden: ${orderNumber} · Saldo: ${balance.toFixed(2)}` : undefined,
+        linkTo: '/sales/payments',
+      })
+    }
+
     const onQuoteProcessed = (payload: any) => {
       console.log('Notification: Quote processed', payload)
       const quoteNumber = payload?.quoteNumber ? String(payload.quoteNumber) : null
@@ -310,8 +480,13 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
     socket.on('sales.order.fulfilled', onOrderFulfilled)
     socket.on('sales.order.delivered', onOrderDelivered)
     socket.on('sales.order.payment.due', onPaymentDue)
+    socket.on('sales.order.payment.overdue', onPaymentOverdue)
     socket.on('sales.order.paid', onOrderPaid)
+    socket.on('sales.order.payment.received', onPaymentReceived)
     socket.on('sales.quote.processed', onQuoteProcessed)
+    socket.on('sales.quote.expired', onQuoteExpired)
+    socket.on('sales.quote.approval.requested', onQuoteApprovalRequested)
+    socket.on('sales.quote.approval.decided', onQuoteApprovalDecided)
     socket.on('sales.quote.stock_requested', onQuoteStockRequested)
     socket.on('stock.movement_request.fulfilled', onMovementRequestFulfilled)
     socket.on('stock.balance.changed', onStockBalanceChanged)
@@ -322,8 +497,13 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
       socket.off('sales.order.fulfilled', onOrderFulfilled)
       socket.off('sales.order.delivered', onOrderDelivered)
       socket.off('sales.order.payment.due', onPaymentDue)
+      socket.off('sales.order.payment.overdue', onPaymentOverdue)
       socket.off('sales.order.paid', onOrderPaid)
+      socket.off('sales.order.payment.received', onPaymentReceived)
       socket.off('sales.quote.processed', onQuoteProcessed)
+      socket.off('sales.quote.expired', onQuoteExpired)
+      socket.off('sales.quote.approval.requested', onQuoteApprovalRequested)
+      socket.off('sales.quote.approval.decided', onQuoteApprovalDecided)
       socket.off('sales.quote.stock_requested', onQuoteStockRequested)
       socket.off('stock.movement_request.fulfilled', onMovementRequestFulfilled)
       socket.off('stock.balance.changed', onStockBalanceChanged)